@@ -0,0 +1,7 @@
+// Bundled soundfont assets resolve to their file path in tests, so the
+// loader's tests can read the real files through a mocked expo-asset.
+module.exports = {
+  process(_source, filename) {
+    return { code: `module.exports = ${JSON.stringify(filename)};` };
+  },
+};
@@ -16,6 +16,7 @@ module.exports = [
       'e2e/**',
       'scripts/**',
       'firebase/functions/**',
+      'relay/**',
       '*.config.js',
       '*.config.ts',
       '__mocks__/**',
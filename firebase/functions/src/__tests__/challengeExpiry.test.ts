@@ -0,0 +1,60 @@
+/**
+ * Challenge Expiry Tests
+ *
+ * Need the Firestore emulator from firebase.json and are skipped without it:
+ *
+ *   npm run test:emulator
+ */
+
+import * as admin from 'firebase-admin';
+import { expireChallenges } from '../challengeExpiry';
+
+const PROJECT_ID = 'demo-purrrfect-keys';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+describeWithEmulator('expireChallenges (Firestore emulator)', () => {
+  const NOW = Date.parse('2026-10-14T12:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    const app = admin.apps[0] ?? admin.initializeApp({ projectId: PROJECT_ID });
+    db = app.firestore();
+  });
+
+  beforeEach(async () => {
+    await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+      method: 'DELETE',
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all(admin.apps.map((app) => app?.delete()));
+  });
+
+  async function addChallenge(id: string, status: string, expiresAt: number): Promise<void> {
+    await db.collection('challenges').doc(id).set({ id, fromUid: 'a', toUid: 'b', status, expiresAt });
+  }
+
+  async function statusOf(id: string): Promise<string> {
+    return (await db.collection('challenges').doc(id).get()).data()?.status;
+  }
+
+  it('expires pending challenges past their deadline', async () => {
+    await addChallenge('overdue', 'pending', NOW - HOUR);
+    await addChallenge('open', 'pending', NOW + HOUR);
+    await addChallenge('answered', 'completed', NOW - HOUR);
+
+    expect(await expireChallenges(db, NOW)).toBe(1);
+    expect(await statusOf('overdue')).toBe('expired');
+    expect(await statusOf('open')).toBe('pending');
+    expect(await statusOf('answered')).toBe('completed');
+  });
+
+  it('is safe to rerun', async () => {
+    await addChallenge('overdue', 'pending', NOW - HOUR);
+    await expireChallenges(db, NOW);
+    expect(await expireChallenges(db, NOW)).toBe(0);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Firestore Security Rules Tests
+ *
+ * Writes the app makes with the client SDK, checked against
+ * firebase/firestore.rules. They need the emulator from firebase.json and are
+ * skipped without it:
+ *
+ *   npm run test:emulator
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import type { ReviewSchedule } from '../../../../src/core/curriculum/SpacedRepetition';
+import type { LoopRecord } from '../../../../src/core/exercises/loopPractice';
+import type { ChallengeGhost } from '../../../../src/core/exercises/ghostRace';
+import type { AssignmentResult } from '../../../../src/core/classroom/classroom';
+
+const PROJECT_ID = 'demo-purrrfect-keys';
+const RULES_PATH = path.join(__dirname, '../../../firestore.rules');
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const REVIEW_SCHEDULE: ReviewSchedule = {
+  skills: {
+    'find-middle-c': { stability: 3.2, difficulty: 4.5, lastReviewAt: 1000, dueAt: 277_000_000, reviews: 2, lapses: 0 },
+  },
+  exercises: {},
+};
+
+const LOOP_HISTORY: Record<string, LoopRecord> = {
+  'lesson-03-ex-02@0-4': {
+    exerciseId: 'lesson-03-ex-02',
+    title: 'Stepping Up',
+    startBeat: 0,
+    endBeat: 4,
+    targetTempo: 90,
+    pitches: [60, 62, 64],
+    attempts: [{ tempo: 63, score: 92, at: 1000 }],
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ASSIGNMENT_RESULT: AssignmentResult = {
+  assignmentId: 'a1',
+  classId: 'class-1',
+  score: 84,
+  playbackSpeed: 0.75,
+  tempo: 90,
+  playedAt: 5000,
+};
+
+const GHOST: ChallengeGhost = {
+  notes: [{ type: 'noteOn', note: 60, velocity: 80, timestamp: 0, channel: 0 }],
+  playbackSpeed: 1,
+  practiceHand: 'both',
+  inputMethod: 'midi',
+  assists: { tempoReductionBpm: 0, timingWindowMultiplier: 1 },
+};
+
+describeWithEmulator('firestore.rules (Firestore emulator)', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: fs.readFileSync(RULES_PATH, 'utf-8') },
+    });
+  });
+
+  afterEach(async () => {
+    await env.clearFirestore();
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  describe('users/{uid}/gamification/learnerProfile', () => {
+    // The shape saveLearnerProfileData pushes
+    const profile = () => ({
+      noteAccuracy: { 60: 0.9 },
+      noteAttempts: { 60: 12 },
+      skills: {},
+      tempoRange: { min: 60, max: 90 },
+      totalExercisesCompleted: 4,
+      masteredSkills: ['find-middle-c'],
+      skillMasteryData: {},
+      recentExerciseIds: ['lesson-01-ex-01'],
+      reviewSchedule: REVIEW_SCHEDULE,
+      loopHistory: LOOP_HISTORY,
+      updatedAt: serverTimestamp(),
+    });
+
+    it('lets the owner create and update it with the review schedule and loop history', async () => {
+      const db = env.authenticatedContext('u1').firestore();
+      const ref = doc(db, 'users/u1/gamification/learnerProfile');
+
+      await assertSucceeds(setDoc(ref, profile(), { merge: true }));
+      await assertSucceeds(setDoc(ref, { ...profile(), totalExercisesCompleted: 5 }, { merge: true }));
+    });
+
+    it("refuses another user's profile", async () => {
+      const db = env.authenticatedContext('u2').firestore();
+      await assertFails(setDoc(doc(db, 'users/u1/gamification/learnerProfile'), profile(), { merge: true }));
+    });
+  });
+
+  it('refuses gamification documents the app does not write', async () => {
+    const db = env.authenticatedContext('u1').firestore();
+    await assertFails(setDoc(doc(db, 'users/u1/gamification/anything'), { xp: 1_000_000 }));
+  });
+
+  describe('users/{uid}/assignmentResults/{assignmentId}', () => {
+    beforeEach(async () => {
+      // The read grant joinClass writes for the class's teacher
+      await env.withSecurityRulesDisabled((context) =>
+        setDoc(doc(context.firestore(), 'users/s1/teachers/t1'), { teacherUid: 't1', classId: 'class-1' }),
+      );
+    });
+
+    it('lets the student save their result and their teacher read it', async () => {
+      const student = env.authenticatedContext('s1').firestore();
+      await assertSucceeds(setDoc(doc(student, 'users/s1/assignmentResults/a1'), ASSIGNMENT_RESULT));
+
+      const teacher = env.authenticatedContext('t1').firestore();
+      await assertSucceeds(getDoc(doc(teacher, 'users/s1/assignmentResults/a1')));
+      await assertFails(getDoc(doc(env.authenticatedContext('t2').firestore(), 'users/s1/assignmentResults/a1')));
+    });
+
+    it('refuses a result filed under another assignment or with a made-up speed', async () => {
+      const student = env.authenticatedContext('s1').firestore();
+      await assertFails(setDoc(doc(student, 'users/s1/assignmentResults/a2'), ASSIGNMENT_RESULT));
+      await assertFails(setDoc(doc(student, 'users/s1/assignmentResults/a1'), { ...ASSIGNMENT_RESULT, playbackSpeed: 2 }));
+      await assertFails(setDoc(doc(student, 'users/s1/assignmentResults/a1'), { ...ASSIGNMENT_RESULT, score: 101 }));
+    });
+
+    it("keeps the student's lesson progress from the teacher", async () => {
+      const teacher = env.authenticatedContext('t1').firestore();
+      await assertFails(getDoc(doc(teacher, 'users/s1/progress/lesson-01')));
+    });
+  });
+
+  describe('challenges/{challengeId}', () => {
+    beforeEach(async () => {
+      // The verified performance submitPerformance recorded for the sender
+      await env.withSecurityRulesDisabled((context) =>
+        setDoc(doc(context.firestore(), 'users/u1/performances/perf-1'), {
+          exerciseId: 'lesson-01-ex-01',
+          overall: 88,
+          ...GHOST,
+        }),
+      );
+    });
+
+    const challenge = (expiresAt: unknown) => ({
+      fromUid: 'u1',
+      toUid: 'u2',
+      exerciseId: 'lesson-01-ex-01',
+      fromScore: 88,
+      fromPerformanceId: 'perf-1',
+      ghost: GHOST,
+      toScore: null,
+      status: 'pending',
+      createdAt: Date.now(),
+      expiresAt,
+    });
+    const sender = () =>
+      env.authenticatedContext('u1', { firebase: { sign_in_provider: 'password' } }).firestore();
+
+    it('accepts a challenge that expires in 24 hours', async () => {
+      await assertSucceeds(setDoc(doc(sender(), 'challenges/c1'), challenge(Date.now() + DAY_MS)));
+    });
+
+    it('refuses a challenge that never expires', async () => {
+      await assertFails(setDoc(doc(sender(), 'challenges/c1'), challenge(Number.MAX_SAFE_INTEGER)));
+      await assertFails(setDoc(doc(sender(), 'challenges/c1'), challenge(null)));
+      await assertFails(setDoc(doc(sender(), 'challenges/c1'), challenge(Date.now() + 7 * DAY_MS)));
+    });
+  });
+});
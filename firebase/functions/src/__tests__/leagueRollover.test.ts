@@ -0,0 +1,225 @@
+/**
+ * League Rollover Tests
+ *
+ * Ranking, zones and seeding run everywhere. The Firestore tests need the
+ * emulator from firebase.json and are skipped without it:
+ *
+ *   npm run test:emulator
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  addWeeks,
+  computeLeagueOutcomes,
+  MAX_LEAGUE_SIZE,
+  rankMembers,
+  rolloverLeagues,
+  seedLeagues,
+  weekMonday,
+  type LeagueMember,
+  type LeagueResultDocument,
+  type LeagueTier,
+} from '../leagueRollover';
+
+function member(uid: string, weeklyXp: number, joinedAt = 0): LeagueMember {
+  return { uid, displayName: uid, selectedCatId: 'mini-meowww', weeklyXp, joinedAt };
+}
+
+/** `count` members with descending XP: u1 has the most */
+function league(count: number, xp = (i: number) => (count - i) * 10): LeagueMember[] {
+  return Array.from({ length: count }, (_, i) => member(`u${i + 1}`, xp(i)));
+}
+
+// ============================================================================
+// Pure Logic
+// ============================================================================
+
+describe('rankMembers', () => {
+  it('orders by weeklyXp, earlier joiners first on ties', () => {
+    const ranked = rankMembers([member('late', 50, 200), member('top', 90), member('early', 50, 100)]);
+    expect(ranked.map((m) => m.uid)).toEqual(['top', 'early', 'late']);
+  });
+});
+
+describe('computeLeagueOutcomes', () => {
+  it('promotes the top 10 and demotes the bottom 5 of a full league', () => {
+    const outcomes = computeLeagueOutcomes('silver', league(30));
+
+    expect(outcomes.filter((o) => o.transition === 'promoted').map((o) => o.rank)).toEqual(
+      [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    );
+    expect(outcomes.filter((o) => o.transition === 'demoted').map((o) => o.rank)).toEqual(
+      [26, 27, 28, 29, 30],
+    );
+    expect(outcomes[0].newTier).toBe('gold');
+    expect(outcomes[29].newTier).toBe('bronze');
+    expect(outcomes[15]).toMatchObject({ transition: 'same', newTier: 'silver' });
+  });
+
+  it('lets promotion win where the zones overlap in small leagues', () => {
+    const outcomes = computeLeagueOutcomes('gold', league(12));
+    expect(outcomes.slice(0, 10).every((o) => o.transition === 'promoted')).toBe(true);
+    expect(outcomes.slice(10).every((o) => o.transition === 'demoted')).toBe(true);
+  });
+
+  it('never promotes members without XP', () => {
+    const outcomes = computeLeagueOutcomes('bronze', [member('active', 40), member('idle', 0)]);
+    expect(outcomes.map((o) => o.transition)).toEqual(['promoted', 'same']);
+  });
+
+  it('keeps diamond and bronze at the ends of the ladder', () => {
+    const diamond = computeLeagueOutcomes('diamond', league(20));
+    expect(diamond[0]).toMatchObject({ transition: 'same', newTier: 'diamond' });
+    expect(diamond[19]).toMatchObject({ transition: 'demoted', newTier: 'gold' });
+
+    const bronze = computeLeagueOutcomes('bronze', league(20));
+    expect(bronze[19]).toMatchObject({ transition: 'same', newTier: 'bronze' });
+  });
+});
+
+describe('seedLeagues', () => {
+  it('groups by tier and splits evenly below the size cap', () => {
+    const placements = [
+      ...league(31).map((m) => ({ member: m, tier: 'silver' as LeagueTier })),
+      { member: member('solo', 5), tier: 'diamond' as LeagueTier },
+    ];
+    const seeds = seedLeagues(placements);
+
+    expect(seeds.map((s) => [s.tier, s.members.length])).toEqual([
+      ['silver', 16],
+      ['silver', 15],
+      ['diamond', 1],
+    ]);
+    expect(seeds.every((s) => s.members.length <= MAX_LEAGUE_SIZE)).toBe(true);
+    // Similar XP ends up together
+    expect(seeds[0].members[0].uid).toBe('u1');
+  });
+});
+
+describe('week dates', () => {
+  it('finds the Monday of a UTC week', () => {
+    expect(weekMonday(new Date('2026-10-18T23:59:00Z'))).toBe('2026-10-12'); // Sunday
+    expect(weekMonday(new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19'); // Monday
+  });
+
+  it('steps whole weeks', () => {
+    expect(addWeeks('2026-10-12', 1)).toBe('2026-10-19');
+    expect(addWeeks('2026-01-05', -1)).toBe('2025-12-29');
+  });
+});
+
+// ============================================================================
+// Firestore Emulator
+// ============================================================================
+
+const PROJECT_ID = 'demo-purrrfect-keys';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+describeWithEmulator('rolloverLeagues (Firestore emulator)', () => {
+  const WEEK = '2026-10-12';
+  const NEXT_WEEK = '2026-10-19';
+  const NOW = Date.parse('2026-10-19T00:00:00Z');
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    const app = admin.apps[0] ?? admin.initializeApp({ projectId: PROJECT_ID });
+    db = app.firestore();
+  });
+
+  beforeEach(async () => {
+    await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+      method: 'DELETE',
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all(admin.apps.map((app) => app?.delete()));
+  });
+
+  async function createLeague(tier: LeagueTier, weekStart: string, members: LeagueMember[]): Promise<string> {
+    const ref = db.collection('leagues').doc();
+    await ref.set({ tier, weekStart, memberCount: members.length, createdAt: 0 });
+    for (const m of members) {
+      await ref.collection('members').doc(m.uid).set(m);
+    }
+    return ref.id;
+  }
+
+  async function result(uid: string): Promise<LeagueResultDocument | undefined> {
+    const snap = await db.doc(`users/${uid}/leagueResults/${WEEK}`).get();
+    return snap.data() as LeagueResultDocument | undefined;
+  }
+
+  async function nextWeekPlacements(): Promise<Map<string, { tier: LeagueTier; weeklyXp: number }>> {
+    const placements = new Map<string, { tier: LeagueTier; weeklyXp: number }>();
+    const leagues = await db.collection('leagues').where('weekStart', '==', NEXT_WEEK).get();
+    for (const leagueDoc of leagues.docs) {
+      const members = await leagueDoc.ref.collection('members').get();
+      expect(leagueDoc.data().memberCount).toBe(members.size);
+      for (const m of members.docs) {
+        placements.set(m.id, { tier: leagueDoc.data().tier, weeklyXp: m.data().weeklyXp });
+      }
+    }
+    return placements;
+  }
+
+  it('finalizes leagues, writes results and reseeds by tier', async () => {
+    const leagueId = await createLeague('silver', WEEK, [...league(19), member('idle', 0)]);
+
+    const summary = await rolloverLeagues(db, WEEK, NOW);
+    expect(summary).toMatchObject({
+      leaguesFinalized: 1,
+      results: 20,
+      promoted: 10,
+      demoted: 5,
+      membersSeeded: 19,
+    });
+
+    expect((await db.doc(`leagues/${leagueId}`).get()).data()).toMatchObject({
+      finalized: true,
+      finalizedAt: NOW,
+    });
+    expect(await result('u1')).toMatchObject({
+      leagueId,
+      tier: 'silver',
+      newTier: 'gold',
+      transition: 'promoted',
+      rank: 1,
+      totalMembers: 20,
+      weeklyXp: 190,
+    });
+    expect(await result('idle')).toMatchObject({ transition: 'demoted', newTier: 'bronze', rank: 20 });
+
+    const placements = await nextWeekPlacements();
+    expect(placements.get('u1')).toEqual({ tier: 'gold', weeklyXp: 0 });
+    expect(placements.get('u12')).toEqual({ tier: 'silver', weeklyXp: 0 });
+    expect(placements.get('u19')).toEqual({ tier: 'bronze', weeklyXp: 0 });
+    // Inactive members are not reseeded
+    expect(placements.has('idle')).toBe(false);
+  });
+
+  it('moves members who joined the new week at the wrong tier, keeping their XP', async () => {
+    await createLeague('bronze', WEEK, league(12));
+    await createLeague('bronze', NEXT_WEEK, [member('u1', 25), member('newcomer', 5)]);
+
+    const summary = await rolloverLeagues(db, WEEK, NOW);
+    expect(summary.membersMoved).toBe(1);
+
+    const placements = await nextWeekPlacements();
+    expect(placements.get('u1')).toEqual({ tier: 'silver', weeklyXp: 25 });
+    expect(placements.get('newcomer')).toEqual({ tier: 'bronze', weeklyXp: 5 });
+  });
+
+  it('is safe to run twice', async () => {
+    await createLeague('gold', WEEK, league(15));
+
+    await rolloverLeagues(db, WEEK, NOW);
+    const first = await nextWeekPlacements();
+    const second = await rolloverLeagues(db, WEEK, NOW);
+
+    expect(second.membersSeeded).toBe(0);
+    expect(second.membersMoved).toBe(0);
+    expect(await nextWeekPlacements()).toEqual(first);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Submit Performance Tests
+ *
+ * Request parsing and scoring against the bundled catalog run everywhere.
+ * The Firestore tests need the emulator from firebase.json and are skipped
+ * without it:
+ *
+ *   npm run test:emulator
+ */
+
+import * as admin from 'firebase-admin';
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { MidiNoteEvent } from '../../../../src/core/exercises/types';
+import type { PerformanceSubmission } from '../../../../src/core/exercises/performanceVerification';
+import { createChallengeGhost } from '../../../../src/core/exercises/ghostRace';
+import { loadExerciseCatalog } from '../exerciseCatalog';
+import {
+  parseSubmission,
+  recordPerformance,
+  verifyPerformance,
+  type PerformanceDocument,
+} from '../submitPerformance';
+
+const catalog = loadExerciseCatalog();
+const TEST_ID = 'lesson-01-test';
+const masteryTest = catalog.exercises.get(TEST_ID)!;
+const msPerBeat = 60000 / masteryTest.settings.tempo;
+
+/** The lesson 1 test played a few ms either side of each note */
+function playTest(offset = (i: number) => ((i * 37) % 41) - 20): MidiNoteEvent[] {
+  return masteryTest.notes.map((n, i) => ({
+    type: 'noteOn',
+    note: n.note,
+    velocity: 80,
+    timestamp: n.startBeat * msPerBeat + offset(i),
+    channel: 0,
+    durationMs: n.durationBeats * msPerBeat * 0.9,
+  }));
+}
+
+function submission(overrides: Partial<PerformanceSubmission> = {}): PerformanceSubmission {
+  return {
+    exerciseId: TEST_ID,
+    exerciseVersion: masteryTest.version,
+    notes: playTest(),
+    pedalEvents: [],
+    playbackSpeed: 1,
+    practiceHand: 'both',
+    inputMethod: 'midi',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Catalog and Validation
+// ============================================================================
+
+describe('loadExerciseCatalog', () => {
+  it('reads the lesson exercises and their lessons', () => {
+    expect(masteryTest.version).toBeGreaterThan(0);
+    expect(catalog.lessonOf.get(TEST_ID)?.id).toBe('lesson-01');
+    expect(catalog.lessonOf.get(TEST_ID)?.xpReward).toBeGreaterThan(0);
+  });
+});
+
+describe('parseSubmission', () => {
+  it('accepts a well-formed request', () => {
+    expect(parseSubmission(submission({ leagueId: 'league-1' }))).toMatchObject({
+      exerciseId: TEST_ID,
+      leagueId: 'league-1',
+    });
+  });
+
+  it('rejects unsupported speeds, hands and input methods', () => {
+    expect(parseSubmission({ ...submission(), playbackSpeed: 0.1 })).toEqual({ error: 'Unsupported playbackSpeed' });
+    expect(parseSubmission({ ...submission(), practiceHand: 'feet' })).toEqual({ error: 'Unsupported practiceHand' });
+    expect(parseSubmission({ ...submission(), inputMethod: 'bot' })).toEqual({ error: 'Unsupported inputMethod' });
+  });
+
+  it('rejects malformed note events', () => {
+    const notes = [{ ...playTest()[0], note: 200 }];
+    expect(parseSubmission({ ...submission(), notes })).toEqual({ error: 'Bad note event' });
+  });
+
+  it('rejects assists beyond the ability caps', () => {
+    const assists = { tempoReductionBpm: 40, timingWindowMultiplier: 1 };
+    expect(parseSubmission({ ...submission(), assists })).toEqual({ error: 'Assists beyond ability limits' });
+  });
+});
+
+describe('verifyPerformance', () => {
+  it('scores a person playing the exercise', () => {
+    const result = verifyPerformance(masteryTest, submission(), 0);
+    if ('error' in result) throw new Error(result.error);
+    expect(result.score.isPassed).toBe(true);
+    expect(result.score.xpEarned).toBeGreaterThan(25); // includes the first-time bonus
+  });
+
+  it('rejects machine-perfect timing', () => {
+    expect(verifyPerformance(masteryTest, submission({ notes: playTest(() => 0) }), 0)).toEqual({
+      error: 'Timing is machine-perfect',
+    });
+  });
+
+  it('rejects an empty performance', () => {
+    expect(verifyPerformance(masteryTest, submission({ notes: [] }), 0)).toEqual({ error: 'No notes played' });
+  });
+
+  it('rejects identical timestamps on one key', () => {
+    const notes = [...playTest(), playTest()[0]];
+    expect(verifyPerformance(masteryTest, submission({ notes }), 0)).toMatchObject({
+      error: expect.stringMatching(/struck twice/),
+    });
+  });
+});
+
+// ============================================================================
+// Firestore Emulator
+// ============================================================================
+
+const PROJECT_ID = 'demo-purrrfect-keys';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+describeWithEmulator('recordPerformance (Firestore emulator)', () => {
+  const NOW = Date.parse('2026-10-14T12:00:00Z');
+  const WEEK = '2026-10-12';
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    const app = admin.apps[0] ?? admin.initializeApp({ projectId: PROJECT_ID });
+    db = app.firestore();
+  });
+
+  beforeEach(async () => {
+    await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+      method: 'DELETE',
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all(admin.apps.map((app) => app?.delete()));
+  });
+
+  async function refusal(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      if (error instanceof HttpsError) return error.code;
+      throw error;
+    }
+    throw new Error('Expected the performance to be refused');
+  }
+
+  it('credits XP, the lesson reward and the current league', async () => {
+    const leagueRef = db.collection('leagues').doc('league-1');
+    await leagueRef.set({ tier: 'bronze', weekStart: WEEK, memberCount: 1, createdAt: 0 });
+    await leagueRef.collection('members').doc('u1').set({ uid: 'u1', weeklyXp: 5 });
+
+    const response = await recordPerformance(db, 'u1', submission({ leagueId: 'league-1' }), NOW, catalog);
+    const lessonXp = catalog.lessonOf.get(TEST_ID)!.xpReward;
+    expect(response).toMatchObject({ isPassed: true, lessonXp, leagueXp: response.xpEarned });
+
+    const gamification = (await db.doc('users/u1/gamification/data').get()).data();
+    expect(gamification?.xp).toBe(response.xpEarned + lessonXp);
+    expect(gamification?.streak).toBeDefined();
+
+    const member = (await leagueRef.collection('members').doc('u1').get()).data();
+    expect(member?.weeklyXp).toBe(5 + response.xpEarned);
+
+    const performance = (await db.doc(`users/u1/performances/${response.performanceId}`).get()).data() as
+      PerformanceDocument;
+    expect(performance).toMatchObject({ exerciseId: TEST_ID, overall: response.overall, leagueId: 'league-1' });
+    // Challenges carry this ghost; security rules compare it with the document
+    const { notes, assists } = createChallengeGhost(submission());
+    expect(performance).toMatchObject({ notes, assists });
+  });
+
+  it('uses the verified high score and pays the lesson reward once', async () => {
+    const first = await recordPerformance(db, 'u1', submission(), NOW, catalog);
+    const second = await recordPerformance(db, 'u1', submission(), NOW + 60000, catalog);
+
+    expect(second.lessonXp).toBe(0);
+    expect(second.xpEarned).toBe(first.xpEarned - 25); // no first-time bonus
+  });
+
+  it('refuses performances faster than the exercise can be played', async () => {
+    await recordPerformance(db, 'u1', submission(), NOW, catalog);
+    expect(await refusal(recordPerformance(db, 'u1', submission(), NOW + 1000, catalog))).toBe(
+      'resource-exhausted',
+    );
+  });
+
+  it('refuses unknown exercises and stale versions', async () => {
+    expect(await refusal(recordPerformance(db, 'u1', submission({ exerciseId: 'ai-123' }), NOW, catalog))).toBe(
+      'not-found',
+    );
+    expect(
+      await refusal(recordPerformance(db, 'u1', submission({ exerciseVersion: masteryTest.version + 1 }), NOW, catalog)),
+    ).toBe('failed-precondition');
+  });
+
+  it('does not credit a league from another week', async () => {
+    const leagueRef = db.collection('leagues').doc('old');
+    await leagueRef.set({ tier: 'bronze', weekStart: '2026-10-05', memberCount: 1, createdAt: 0 });
+    await leagueRef.collection('members').doc('u1').set({ uid: 'u1', weeklyXp: 0 });
+
+    const response = await recordPerformance(db, 'u1', submission({ leagueId: 'old' }), NOW, catalog);
+    expect(response.leagueXp).toBe(0);
+    expect((await leagueRef.collection('members').doc('u1').get()).data()?.weeklyXp).toBe(0);
+  });
+});
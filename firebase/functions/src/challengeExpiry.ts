@@ -0,0 +1,59 @@
+/**
+ * Cloud Function: Challenge Expiry
+ * Marks friend challenges nobody answered in time as expired, every hour.
+ *
+ * A pending challenge past its expiresAt gets status 'expired'. Security
+ * rules already refuse results after expiresAt, so the app only has to show
+ * the status it reads. Reruns are safe: expired challenges are no longer
+ * pending.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+/** Firestore's limit on writes per batch */
+const BATCH_LIMIT = 500;
+
+/** Expire every pending challenge whose expiresAt is before `now`; returns how many */
+export async function expireChallenges(db: admin.firestore.Firestore, now: number): Promise<number> {
+  let expired = 0;
+  for (;;) {
+    const snap = await db
+      .collection('challenges')
+      .where('status', '==', 'pending')
+      .where('expiresAt', '<', now)
+      .limit(BATCH_LIMIT)
+      .get();
+    if (snap.empty) return expired;
+
+    const batch = db.batch();
+    for (const challengeDoc of snap.docs) {
+      batch.update(challengeDoc.ref, { status: 'expired' });
+    }
+    await batch.commit();
+    expired += snap.size;
+  }
+}
+
+// ============================================================================
+// Scheduled Function
+// ============================================================================
+
+export const challengeExpirySweep = onSchedule(
+  {
+    schedule: 'every 60 minutes',
+    region: 'us-central1',
+    retryCount: 3,
+  },
+  async () => {
+    try {
+      const expired = await expireChallenges(admin.firestore(), Date.now());
+      logger.info('Challenge expiry completed', { expired });
+    } catch (error) {
+      logger.error('Challenge expiry failed', { error: String(error) });
+      // Rethrow so the scheduler retries; reruns are safe
+      throw error;
+    }
+  },
+);
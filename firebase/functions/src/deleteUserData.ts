@@ -5,12 +5,16 @@
  *
  * Subcollections deleted:
  *   users/{uid}/progress, gamification, xpLog, syncLog, settings,
- *   friends, activity, songMastery, songRequests
+ *   friends, activity, songMastery, songRequests, leagueResults,
+ *   performances, verifiedScores, classes, teachers
  *
  * Cross-collection cleanup:
  *   - friendCodes/{code} where uid == caller
  *   - leagues/{leagueId}/members/{uid}
  *   - challenges/{id} where fromUid or toUid == caller
+ *   - classes/{classId} taught by caller, with rosters, assignments and
+ *     students' memberships and read grants
+ *   - classes/{classId}/students/{uid} for classes the caller joined
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
@@ -27,6 +31,12 @@ const USER_SUBCOLLECTIONS = [
   'activity',
   'songMastery',
   'songRequests',
+  'leagueResults',
+  'performances',
+  'verifiedScores',
+  'classes',
+  'teachers',
+  'assignmentResults',
 ];
 
 /**
@@ -186,6 +196,48 @@ export const deleteUserAllData = onCall(
         logger.info(`Removed from ${friendOfSnap.size} friend lists`);
       }
 
+      // 8. Delete classes this user teaches, with their rosters and
+      //    assignments, and their students' memberships and read grants
+      const taughtSnap = await db
+        .collection('classes')
+        .where('teacherUid', '==', uid)
+        .get();
+
+      for (const classDoc of taughtSnap.docs) {
+        const rosterSnap = await classDoc.ref.collection('students').get();
+        if (!rosterSnap.empty) {
+          const batch = db.batch();
+          for (const entry of rosterSnap.docs) {
+            batch.delete(db.doc(`users/${entry.id}/classes/${classDoc.id}`));
+            batch.delete(db.doc(`users/${entry.id}/teachers/${uid}`));
+          }
+          await batch.commit();
+        }
+        totalDeleted += await deleteCollection(db, `classes/${classDoc.id}/students`);
+        totalDeleted += await deleteCollection(db, `classes/${classDoc.id}/assignments`);
+        await classDoc.ref.delete();
+        totalDeleted += 1;
+      }
+      if (!taughtSnap.empty) {
+        logger.info(`Deleted ${taughtSnap.size} classes`);
+      }
+
+      // 9. Take this user off the rosters of classes they joined
+      const rosterOfSnap = await db
+        .collectionGroup('students')
+        .where('uid', '==', uid)
+        .get();
+
+      if (!rosterOfSnap.empty) {
+        const batch = db.batch();
+        for (const doc of rosterOfSnap.docs) {
+          batch.delete(doc.ref);
+        }
+        await batch.commit();
+        totalDeleted += rosterOfSnap.size;
+        logger.info(`Removed from ${rosterOfSnap.size} class rosters`);
+      }
+
       logger.info('User data deletion complete', { uid, totalDeleted });
 
       return { success: true, deletedDocuments: totalDeleted };
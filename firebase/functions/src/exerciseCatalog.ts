@@ -0,0 +1,66 @@
+/**
+ * Exercise Catalog
+ * The bundled lesson exercises, read from content/ so the server scores the
+ * same notes the app shows.
+ *
+ * From src/ (tests) and lib/firebase/functions/src/ (deployed) alike,
+ * ../../../content is the content folder: the repo's own, or the copy
+ * `npm run build` puts in lib/. AI-generated exercises and songs are not in
+ * the catalog.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Exercise } from '../../../src/core/exercises/types';
+
+export interface CatalogLesson {
+  id: string;
+  xpReward: number;
+  exercises: Array<{ id: string; test?: boolean }>;
+}
+
+export interface ExerciseCatalog {
+  exercises: Map<string, Exercise>;
+  /** Lesson each exercise belongs to */
+  lessonOf: Map<string, CatalogLesson>;
+}
+
+const CONTENT_DIR = path.resolve(__dirname, '../../../content');
+
+function readJsonFiles<T>(dir: string): T[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .sort()
+    .map((name) => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) as T);
+}
+
+/** Read the catalog from a content folder laid out like the repo's */
+export function loadExerciseCatalog(contentDir: string = CONTENT_DIR): ExerciseCatalog {
+  const exercises = new Map<string, Exercise>();
+  const exercisesDir = path.join(contentDir, 'exercises');
+  for (const lessonDir of fs.readdirSync(exercisesDir).sort()) {
+    const dir = path.join(exercisesDir, lessonDir);
+    if (!fs.statSync(dir).isDirectory()) continue;
+    for (const exercise of readJsonFiles<Exercise>(dir)) {
+      exercises.set(exercise.id, exercise);
+    }
+  }
+
+  const lessonOf = new Map<string, CatalogLesson>();
+  for (const lesson of readJsonFiles<CatalogLesson>(path.join(contentDir, 'lessons'))) {
+    for (const entry of lesson.exercises) {
+      lessonOf.set(entry.id, lesson);
+    }
+  }
+
+  return { exercises, lessonOf };
+}
+
+let cachedCatalog: ExerciseCatalog | null = null;
+
+/** The bundled catalog, read once per instance */
+export function getExerciseCatalog(): ExerciseCatalog {
+  if (!cachedCatalog) cachedCatalog = loadExerciseCatalog();
+  return cachedCatalog;
+}
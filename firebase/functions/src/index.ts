@@ -15,6 +15,9 @@ export * from './generateCoachFeedback';
 export * from './deleteUserData';
 export * from './generateExercise';
 export * from './generateSong';
+export * from './leagueRollover';
+export * from './submitPerformance';
+export * from './challengeExpiry';
 
 // ============================================================================
 // Additional Cloud Functions
@@ -0,0 +1,367 @@
+/**
+ * Cloud Function: League Rollover
+ * Closes the weekly leagues every Monday 00:00 UTC and seeds the new week.
+ *
+ * For every league of the finished week:
+ *   - members are ranked by weeklyXp (earlier joiners win ties)
+ *   - the top 10 are promoted and the bottom 5 demoted, the same zones
+ *     LeaderboardScreen shows; nobody is promoted without earning XP
+ *   - each member gets users/{uid}/leagueResults/{weekStart}
+ *   - the league is marked finalized
+ *
+ * Members who earned XP are then grouped by their new tier into leagues of
+ * up to 30 for the new week. Inactive members are not reseeded; the client
+ * places them at the tier from their latest result when they come back.
+ *
+ * Reruns are safe: results are rewritten with the same values, and members
+ * already in a league for the new week at the right tier are left there.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type LeagueTier = 'bronze' | 'silver' | 'gold' | 'diamond';
+
+export type LeagueTransition = 'promoted' | 'demoted' | 'same';
+
+export interface LeagueMember {
+  uid: string;
+  displayName: string;
+  selectedCatId: string;
+  weeklyXp: number;
+  joinedAt: number;
+}
+
+export interface LeagueOutcome {
+  uid: string;
+  rank: number;
+  weeklyXp: number;
+  transition: LeagueTransition;
+  newTier: LeagueTier;
+}
+
+/** users/{uid}/leagueResults/{weekStart} */
+export interface LeagueResultDocument {
+  weekStart: string;
+  leagueId: string;
+  tier: LeagueTier;
+  newTier: LeagueTier;
+  transition: LeagueTransition;
+  rank: number;
+  totalMembers: number;
+  weeklyXp: number;
+  finalizedAt: number;
+}
+
+export interface LeagueSeed {
+  tier: LeagueTier;
+  members: LeagueMember[];
+}
+
+export interface RolloverSummary {
+  weekStart: string;
+  leaguesFinalized: number;
+  results: number;
+  promoted: number;
+  demoted: number;
+  leaguesSeeded: number;
+  membersSeeded: number;
+  membersMoved: number;
+}
+
+// ============================================================================
+// Ranking and Zones
+// ============================================================================
+
+export const TIER_ORDER: readonly LeagueTier[] = ['bronze', 'silver', 'gold', 'diamond'];
+
+/** Must match LeaderboardScreen's PROMOTION_CUTOFF / DEMOTION_FROM_BOTTOM */
+export const PROMOTION_CUTOFF = 10;
+export const DEMOTION_FROM_BOTTOM = 5;
+
+/** Must match leagueService MAX_LEAGUE_SIZE */
+export const MAX_LEAGUE_SIZE = 30;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Firestore batch limit — max 500 operations per batch.commit() */
+const BATCH_LIMIT = 500;
+
+function isLeagueTier(value: unknown): value is LeagueTier {
+  return TIER_ORDER.includes(value as LeagueTier);
+}
+
+/** Highest weeklyXp first; earlier joiners win ties, then uid for a stable order */
+export function rankMembers(members: readonly LeagueMember[]): LeagueMember[] {
+  return [...members].sort(
+    (a, b) => b.weeklyXp - a.weeklyXp || a.joinedAt - b.joinedAt || a.uid.localeCompare(b.uid),
+  );
+}
+
+/**
+ * Final standings of one league. The promotion zone takes precedence where
+ * it overlaps the demotion zone in small leagues, as it does on the
+ * leaderboard. Diamond can't promote and bronze can't demote.
+ */
+export function computeLeagueOutcomes(
+  tier: LeagueTier,
+  members: readonly LeagueMember[],
+): LeagueOutcome[] {
+  const ranked = rankMembers(members);
+  const tierIndex = TIER_ORDER.indexOf(tier);
+
+  return ranked.map((member, index) => {
+    const rank = index + 1;
+    let transition: LeagueTransition = 'same';
+    if (rank <= PROMOTION_CUTOFF && member.weeklyXp > 0 && tierIndex < TIER_ORDER.length - 1) {
+      transition = 'promoted';
+    } else if (rank > ranked.length - DEMOTION_FROM_BOTTOM && tierIndex > 0) {
+      transition = 'demoted';
+    }
+
+    const newTier =
+      transition === 'promoted'
+        ? TIER_ORDER[tierIndex + 1]
+        : transition === 'demoted'
+          ? TIER_ORDER[tierIndex - 1]
+          : tier;
+
+    return { uid: member.uid, rank, weeklyXp: member.weeklyXp, transition, newTier };
+  });
+}
+
+/**
+ * Split each tier's members into leagues of at most MAX_LEAGUE_SIZE, sized
+ * evenly so nobody ends up alone in an overflow league. Members are grouped
+ * by last week's XP so each league has players of similar activity.
+ */
+export function seedLeagues(
+  placements: ReadonlyArray<{ member: LeagueMember; tier: LeagueTier }>,
+): LeagueSeed[] {
+  const seeds: LeagueSeed[] = [];
+
+  for (const tier of TIER_ORDER) {
+    const members = rankMembers(placements.filter((p) => p.tier === tier).map((p) => p.member));
+    if (members.length === 0) continue;
+
+    const leagueCount = Math.ceil(members.length / MAX_LEAGUE_SIZE);
+    const size = Math.ceil(members.length / leagueCount);
+    for (let start = 0; start < members.length; start += size) {
+      seeds.push({ tier, members: members.slice(start, start + size) });
+    }
+  }
+
+  return seeds;
+}
+
+// ============================================================================
+// Week Dates (UTC, matching leagueService.getCurrentWeekMonday)
+// ============================================================================
+
+/** YYYY-MM-DD of the Monday starting the week that contains `date` */
+export function weekMonday(date: Date): string {
+  const utcDay = date.getUTCDay(); // 0=Sunday, 1=Monday, ..., 6=Saturday
+  const daysFromMonday = utcDay === 0 ? 6 : utcDay - 1;
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() - daysFromMonday);
+  monday.setUTCHours(0, 0, 0, 0);
+  return monday.toISOString().split('T')[0];
+}
+
+export function addWeeks(weekStart: string, weeks: number): string {
+  const date = new Date(`${weekStart}T00:00:00Z`);
+  return new Date(date.getTime() + weeks * WEEK_MS).toISOString().split('T')[0];
+}
+
+// ============================================================================
+// Firestore
+// ============================================================================
+
+type BatchWrite = (batch: admin.firestore.WriteBatch) => void;
+
+/** Commit writes in batches of BATCH_LIMIT */
+async function commitWrites(db: admin.firestore.Firestore, writes: BatchWrite[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    for (const write of writes.slice(start, start + BATCH_LIMIT)) {
+      write(batch);
+    }
+    await batch.commit();
+  }
+}
+
+function toMember(doc: admin.firestore.QueryDocumentSnapshot): LeagueMember {
+  const data = doc.data();
+  return {
+    uid: doc.id,
+    displayName: typeof data.displayName === 'string' ? data.displayName : 'Player',
+    selectedCatId: typeof data.selectedCatId === 'string' ? data.selectedCatId : 'mini-meowww',
+    weeklyXp: typeof data.weeklyXp === 'number' ? data.weeklyXp : 0,
+    joinedAt: typeof data.joinedAt === 'number' ? data.joinedAt : 0,
+  };
+}
+
+/**
+ * Finalize every league of `weekStart` and seed the following week.
+ * `now` stamps the written documents.
+ */
+export async function rolloverLeagues(
+  db: admin.firestore.Firestore,
+  weekStart: string,
+  now: number = Date.now(),
+): Promise<RolloverSummary> {
+  const nextWeekStart = addWeeks(weekStart, 1);
+  const summary: RolloverSummary = {
+    weekStart,
+    leaguesFinalized: 0,
+    results: 0,
+    promoted: 0,
+    demoted: 0,
+    leaguesSeeded: 0,
+    membersSeeded: 0,
+    membersMoved: 0,
+  };
+
+  // 1. Final standings and per-user results for the finished week
+  const placements = new Map<string, { member: LeagueMember; tier: LeagueTier }>();
+  const resultWrites: BatchWrite[] = [];
+
+  const finishedSnap = await db.collection('leagues').where('weekStart', '==', weekStart).get();
+  for (const leagueDoc of finishedSnap.docs) {
+    const tier = leagueDoc.data().tier;
+    if (!isLeagueTier(tier)) {
+      logger.warn('Skipping league with unknown tier', { leagueId: leagueDoc.id, tier });
+      continue;
+    }
+
+    const membersSnap = await leagueDoc.ref.collection('members').get();
+    const members = membersSnap.docs.map(toMember);
+    const byUid = new Map(members.map((m) => [m.uid, m]));
+
+    for (const outcome of computeLeagueOutcomes(tier, members)) {
+      const result: LeagueResultDocument = {
+        weekStart,
+        leagueId: leagueDoc.id,
+        tier,
+        newTier: outcome.newTier,
+        transition: outcome.transition,
+        rank: outcome.rank,
+        totalMembers: members.length,
+        weeklyXp: outcome.weeklyXp,
+        finalizedAt: now,
+      };
+      const resultRef = db.doc(`users/${outcome.uid}/leagueResults/${weekStart}`);
+      resultWrites.push((batch) => batch.set(resultRef, result));
+
+      summary.results++;
+      if (outcome.transition === 'promoted') summary.promoted++;
+      if (outcome.transition === 'demoted') summary.demoted++;
+
+      const member = byUid.get(outcome.uid);
+      if (member && member.weeklyXp > 0) {
+        placements.set(outcome.uid, { member, tier: outcome.newTier });
+      }
+    }
+
+    resultWrites.push((batch) =>
+      batch.update(leagueDoc.ref, { finalized: true, finalizedAt: now }),
+    );
+    summary.leaguesFinalized++;
+  }
+
+  await commitWrites(db, resultWrites);
+
+  // 2. Members who already joined the new week (the client can get there
+  //    first) stay put at the right tier and are moved, XP and all, otherwise
+  const carriedXp = new Map<string, number>();
+  const moveWrites: BatchWrite[] = [];
+
+  const nextSnap = await db.collection('leagues').where('weekStart', '==', nextWeekStart).get();
+  for (const leagueDoc of nextSnap.docs) {
+    const tier = leagueDoc.data().tier;
+    const membersSnap = await leagueDoc.ref.collection('members').get();
+    for (const memberDoc of membersSnap.docs) {
+      const placement = placements.get(memberDoc.id);
+      if (!placement) continue;
+
+      if (placement.tier === tier) {
+        placements.delete(memberDoc.id);
+        continue;
+      }
+
+      carriedXp.set(memberDoc.id, toMember(memberDoc).weeklyXp);
+      moveWrites.push((batch) => {
+        batch.delete(memberDoc.ref);
+        batch.update(leagueDoc.ref, {
+          memberCount: admin.firestore.FieldValue.increment(-1),
+        });
+      });
+      summary.membersMoved++;
+    }
+  }
+
+  // 3. New week's leagues by tier
+  const seedWrites: BatchWrite[] = [...moveWrites];
+  for (const seed of seedLeagues([...placements.values()])) {
+    const leagueRef = db.collection('leagues').doc();
+    seedWrites.push((batch) =>
+      batch.set(leagueRef, {
+        tier: seed.tier,
+        weekStart: nextWeekStart,
+        memberCount: seed.members.length,
+        createdAt: now,
+      }),
+    );
+
+    for (const member of seed.members) {
+      const memberRef = leagueRef.collection('members').doc(member.uid);
+      seedWrites.push((batch) =>
+        batch.set(memberRef, {
+          uid: member.uid,
+          displayName: member.displayName,
+          selectedCatId: member.selectedCatId,
+          weeklyXp: carriedXp.get(member.uid) ?? 0,
+          joinedAt: now,
+        }),
+      );
+    }
+
+    summary.leaguesSeeded++;
+    summary.membersSeeded += seed.members.length;
+  }
+
+  await commitWrites(db, seedWrites);
+
+  return summary;
+}
+
+// ============================================================================
+// Scheduled Function
+// ============================================================================
+
+export const leagueWeeklyRollover = onSchedule(
+  {
+    schedule: 'every monday 00:00',
+    timeZone: 'UTC',
+    region: 'us-central1',
+    timeoutSeconds: 540,
+    retryCount: 3,
+  },
+  async () => {
+    const weekStart = addWeeks(weekMonday(new Date()), -1);
+
+    try {
+      const summary = await rolloverLeagues(admin.firestore(), weekStart);
+      logger.info('League rollover completed', { ...summary });
+    } catch (error) {
+      logger.error('League rollover failed', { weekStart, error: String(error) });
+      // Rethrow so the scheduler retries; reruns are safe
+      throw error;
+    }
+  },
+);
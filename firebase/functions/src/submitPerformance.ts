@@ -0,0 +1,437 @@
+/**
+ * Cloud Function: Submit Performance
+ * Scores a played exercise on the server and issues its XP and league credit.
+ *
+ * The app sends the raw notes (ms from beat 0, latency-compensated) with the
+ * exercise id and version and how it was practised. The function:
+ *   - looks the exercise up in the bundled catalog; AI exercises and songs
+ *     are not there and earn XP on the device only
+ *   - rejects input no person could play (see performanceVerification)
+ *   - limits submissions to the pace the exercises can be played at
+ *   - re-scores with scoreExerciseByType against the learner's verified
+ *     high score, and rejects machine-perfect timing
+ *   - credits XP to gamification/data, logs it to xpLog, and adds it to the
+ *     learner's league for this week
+ *   - awards the lesson's xpReward the first time its test is passed
+ *
+ * Every performance is kept in users/{uid}/performances/{id}; friend
+ * challenges reference those documents for their scores and ghosts.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { scoreExerciseByType } from '../../../src/core/exercises/scoringStrategies';
+import {
+  ASSIST_LIMITS,
+  checkPerformancePlausibility,
+  exerciseDurationMs,
+  hasHumanTimingJitter,
+  INPUT_TIMING_MULTIPLIERS,
+  PLAYBACK_SPEEDS,
+  prepareSubmittedExercise,
+  type PerformanceAssists,
+  type PerformanceInputMethod,
+  type PerformanceSubmission,
+} from '../../../src/core/exercises/performanceVerification';
+import { createChallengeGhost } from '../../../src/core/exercises/ghostRace';
+import type {
+  Exercise,
+  ExerciseScore,
+  MidiNoteEvent,
+  SustainPedalEvent,
+} from '../../../src/core/exercises/types';
+import { levelFromXp } from '../../../src/core/progression/XpSystem';
+import { getExerciseCatalog, type ExerciseCatalog } from './exerciseCatalog';
+import { weekMonday } from './leagueRollover';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SubmitPerformanceResponse {
+  performanceId: string;
+  overall: number;
+  stars: 0 | 1 | 2 | 3;
+  isPassed: boolean;
+  isNewHighScore: boolean;
+  xpEarned: number;
+  /** The lesson's xpReward, when this performance first passed its test */
+  lessonXp: number;
+  /** XP added to the league in `leagueId`, 0 when it wasn't credited */
+  leagueXp: number;
+}
+
+/** users/{uid}/performances/{id} */
+export interface PerformanceDocument {
+  uid: string;
+  exerciseId: string;
+  exerciseVersion: number;
+  overall: number;
+  stars: 0 | 1 | 2 | 3;
+  isPassed: boolean;
+  xpEarned: number;
+  lessonXp: number;
+  leagueId: string | null;
+  leagueXp: number;
+  playbackSpeed: number;
+  practiceHand: PerformanceSubmission['practiceHand'];
+  inputMethod: PerformanceInputMethod;
+  assists: PerformanceAssists;
+  /** noteOn events, the ghost friend challenges carry (see createChallengeGhost) */
+  notes: MidiNoteEvent[];
+  submittedAt: number;
+}
+
+/** users/{uid}/verifiedScores/{exerciseId} */
+export interface VerifiedScoreDocument {
+  exerciseId: string;
+  highScore: number;
+  stars: 0 | 1 | 2 | 3;
+  /** First time the exercise was passed */
+  passedAt: number | null;
+  updatedAt: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest exercises have a few hundred notes; noteOff events double that */
+const MAX_EVENTS = 4000;
+
+/** Allowance for network delays between two submissions, in ms */
+const SUBMISSION_GAP_SLACK_MS = 2000;
+
+const PRACTICE_HANDS: readonly string[] = ['left', 'right', 'both'];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseNoteEvent(raw: unknown): MidiNoteEvent | null {
+  if (raw === null || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+  if (obj.type !== 'noteOn' && obj.type !== 'noteOff') return null;
+  if (!Number.isInteger(obj.note) || (obj.note as number) < 0 || (obj.note as number) > 127) return null;
+  if (!isFiniteNumber(obj.velocity) || obj.velocity < 0 || obj.velocity > 127) return null;
+  if (!isFiniteNumber(obj.timestamp)) return null;
+  if (obj.durationMs !== undefined && (!isFiniteNumber(obj.durationMs) || obj.durationMs < 0)) return null;
+
+  const event: MidiNoteEvent = {
+    type: obj.type,
+    note: obj.note as number,
+    velocity: obj.velocity,
+    timestamp: obj.timestamp,
+    channel: isFiniteNumber(obj.channel) ? obj.channel : 0,
+  };
+  if (obj.durationMs !== undefined) event.durationMs = obj.durationMs as number;
+  return event;
+}
+
+function parsePedalEvent(raw: unknown): SustainPedalEvent | null {
+  if (raw === null || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+  if (obj.type !== 'pedalDown' && obj.type !== 'pedalUp') return null;
+  if (!isFiniteNumber(obj.timestamp)) return null;
+  return { type: obj.type, timestamp: obj.timestamp };
+}
+
+/** Check the shape of a request; values are judged later against the exercise */
+export function parseSubmission(raw: unknown): PerformanceSubmission | { error: string } {
+  if (raw === null || typeof raw !== 'object') return { error: 'Missing performance' };
+  const obj = raw as Record<string, unknown>;
+
+  if (typeof obj.exerciseId !== 'string' || obj.exerciseId.length === 0) {
+    return { error: 'exerciseId is required' };
+  }
+  if (!Number.isInteger(obj.exerciseVersion)) return { error: 'exerciseVersion must be an integer' };
+  if (!PLAYBACK_SPEEDS.includes(obj.playbackSpeed as number)) return { error: 'Unsupported playbackSpeed' };
+  if (!PRACTICE_HANDS.includes(obj.practiceHand as string)) return { error: 'Unsupported practiceHand' };
+  if (!Object.prototype.hasOwnProperty.call(INPUT_TIMING_MULTIPLIERS, obj.inputMethod as string)) {
+    return { error: 'Unsupported inputMethod' };
+  }
+  if (obj.leagueId !== undefined && (typeof obj.leagueId !== 'string' || obj.leagueId.length === 0)) {
+    return { error: 'leagueId must be a string' };
+  }
+
+  if (!Array.isArray(obj.notes) || obj.notes.length > MAX_EVENTS) return { error: 'Bad notes' };
+  const notes: MidiNoteEvent[] = [];
+  for (const rawNote of obj.notes) {
+    const note = parseNoteEvent(rawNote);
+    if (!note) return { error: 'Bad note event' };
+    notes.push(note);
+  }
+
+  const rawPedal = obj.pedalEvents ?? [];
+  if (!Array.isArray(rawPedal) || rawPedal.length > MAX_EVENTS) return { error: 'Bad pedalEvents' };
+  const pedalEvents: SustainPedalEvent[] = [];
+  for (const rawEvent of rawPedal) {
+    const event = parsePedalEvent(rawEvent);
+    if (!event) return { error: 'Bad pedal event' };
+    pedalEvents.push(event);
+  }
+
+  let assists: PerformanceSubmission['assists'];
+  if (obj.assists !== undefined) {
+    const a = obj.assists as Record<string, unknown> | null;
+    if (
+      a === null ||
+      !isFiniteNumber(a.tempoReductionBpm) ||
+      a.tempoReductionBpm < 0 ||
+      a.tempoReductionBpm > ASSIST_LIMITS.maxTempoReductionBpm ||
+      !isFiniteNumber(a.timingWindowMultiplier) ||
+      a.timingWindowMultiplier < 1 ||
+      // Float slack: the app derives the multiplier by dividing windows
+      a.timingWindowMultiplier > ASSIST_LIMITS.maxTimingWindowMultiplier + 1e-6
+    ) {
+      return { error: 'Assists beyond ability limits' };
+    }
+    assists = { tempoReductionBpm: a.tempoReductionBpm, timingWindowMultiplier: a.timingWindowMultiplier };
+  }
+
+  return {
+    exerciseId: obj.exerciseId,
+    exerciseVersion: obj.exerciseVersion as number,
+    notes,
+    pedalEvents,
+    playbackSpeed: obj.playbackSpeed as number,
+    practiceHand: obj.practiceHand as PerformanceSubmission['practiceHand'],
+    inputMethod: obj.inputMethod as PerformanceInputMethod,
+    ...(assists ? { assists } : {}),
+    ...(obj.leagueId !== undefined ? { leagueId: obj.leagueId as string } : {}),
+  };
+}
+
+/**
+ * Score a submission against the catalog exercise it names. Returns
+ * `{ error }` when the notes can't be a person's performance.
+ */
+export function verifyPerformance(
+  exercise: Exercise,
+  submission: PerformanceSubmission,
+  previousHighScore: number,
+): { score: ExerciseScore; prepared: Exercise } | { error: string } {
+  const prepared = prepareSubmittedExercise(exercise, submission);
+
+  if (!submission.notes.some((n) => n.type === 'noteOn')) return { error: 'No notes played' };
+  const implausible = checkPerformancePlausibility(prepared, submission.notes);
+  if (implausible) return { error: implausible };
+
+  const score = scoreExerciseByType(prepared, submission.notes, previousHighScore, submission.pedalEvents ?? []);
+  if (!hasHumanTimingJitter(score)) return { error: 'Timing is machine-perfect' };
+
+  return { score, prepared };
+}
+
+// ============================================================================
+// Firestore
+// ============================================================================
+
+/** Same defaults as the app's createGamificationData */
+function defaultGamificationData(uid: string, now: number): Record<string, unknown> {
+  const today = new Date(now).toISOString().split('T')[0];
+  return {
+    uid,
+    xp: 0,
+    level: 1,
+    streak: {
+      currentStreak: 0,
+      longestStreak: 0,
+      lastPracticeDate: today,
+      freezesAvailable: 1,
+      freezesUsed: 0,
+      weeklyPractice: [false, false, false, false, false, false, false],
+    },
+    achievements: [],
+    dailyProgress: {
+      date: today,
+      exercisesCompleted: 0,
+      minutesPracticed: 0,
+      xpEarned: 0,
+    },
+  };
+}
+
+/**
+ * Verify and record one performance for `uid`. Throws HttpsError for
+ * requests that are refused.
+ */
+export async function recordPerformance(
+  db: admin.firestore.Firestore,
+  uid: string,
+  submission: PerformanceSubmission,
+  now: number = Date.now(),
+  catalog: ExerciseCatalog = getExerciseCatalog(),
+): Promise<SubmitPerformanceResponse> {
+  const exercise = catalog.exercises.get(submission.exerciseId);
+  if (!exercise) {
+    throw new HttpsError('not-found', `Exercise ${submission.exerciseId} is not in the catalog`);
+  }
+  if (exercise.version !== submission.exerciseVersion) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Exercise ${exercise.id} is at version ${exercise.version}, not ${submission.exerciseVersion}`,
+    );
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const gamificationRef = userRef.collection('gamification').doc('data');
+  const verifiedRef = userRef.collection('verifiedScores').doc(exercise.id);
+  const performanceRef = userRef.collection('performances').doc();
+  const lastPerformanceQuery = userRef.collection('performances').orderBy('submittedAt', 'desc').limit(1);
+  const leagueRef = submission.leagueId ? db.collection('leagues').doc(submission.leagueId) : null;
+  const memberRef = leagueRef ? leagueRef.collection('members').doc(uid) : null;
+  const lessonEntry = catalog.lessonOf.get(exercise.id)?.exercises.find((e) => e.id === exercise.id);
+
+  return db.runTransaction(async (transaction) => {
+    const [gamificationSnap, verifiedSnap, lastSnap, leagueSnap, memberSnap] = await Promise.all([
+      transaction.get(gamificationRef),
+      transaction.get(verifiedRef),
+      transaction.get(lastPerformanceQuery),
+      leagueRef ? transaction.get(leagueRef) : Promise.resolve(null),
+      memberRef ? transaction.get(memberRef) : Promise.resolve(null),
+    ]);
+
+    const verified = verifiedSnap.data() as VerifiedScoreDocument | undefined;
+    const result = verifyPerformance(exercise, submission, verified?.highScore ?? 0);
+    if ('error' in result) {
+      throw new HttpsError('invalid-argument', result.error);
+    }
+    const { score, prepared } = result;
+
+    // One performance can't finish sooner than the exercise takes to play
+    const lastSubmittedAt = lastSnap.empty ? 0 : (lastSnap.docs[0].data().submittedAt as number);
+    if (now - lastSubmittedAt < exerciseDurationMs(prepared) - SUBMISSION_GAP_SLACK_MS) {
+      throw new HttpsError('resource-exhausted', 'Performances are arriving faster than they can be played');
+    }
+
+    const xpEarned = score.xpEarned;
+    const lessonXp =
+      lessonEntry?.test && score.isPassed && submission.practiceHand === 'both' && !verified?.passedAt
+        ? (catalog.lessonOf.get(exercise.id)?.xpReward ?? 0)
+        : 0;
+
+    const league = leagueSnap?.data();
+    const inCurrentLeague =
+      !!league && !!memberSnap?.exists && league.weekStart === weekMonday(new Date(now)) && !league.finalized;
+    const leagueXp = inCurrentLeague ? xpEarned : 0;
+
+    const previousXp = gamificationSnap.exists ? ((gamificationSnap.data()?.xp as number) ?? 0) : 0;
+    const newXp = previousXp + xpEarned + lessonXp;
+
+    const xpFields = { xp: newXp, level: levelFromXp(newXp) };
+    if (gamificationSnap.exists) {
+      transaction.update(gamificationRef, xpFields);
+    } else {
+      transaction.set(gamificationRef, { ...defaultGamificationData(uid, now), ...xpFields });
+    }
+
+    transaction.set(userRef.collection('xpLog').doc(), {
+      amount: xpEarned + lessonXp,
+      source: 'performance',
+      exerciseId: exercise.id,
+      performanceId: performanceRef.id,
+      newTotal: newXp,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const verifiedScore: VerifiedScoreDocument = {
+      exerciseId: exercise.id,
+      highScore: Math.max(score.overall, verified?.highScore ?? 0),
+      stars: Math.max(score.stars, verified?.stars ?? 0) as VerifiedScoreDocument['stars'],
+      passedAt: verified?.passedAt ?? (score.isPassed ? now : null),
+      updatedAt: now,
+    };
+    transaction.set(verifiedRef, verifiedScore);
+
+    const ghost = createChallengeGhost(submission);
+    const performance: PerformanceDocument = {
+      uid,
+      exerciseId: exercise.id,
+      exerciseVersion: exercise.version,
+      overall: score.overall,
+      stars: score.stars,
+      isPassed: score.isPassed,
+      xpEarned,
+      lessonXp,
+      leagueId: inCurrentLeague ? submission.leagueId! : null,
+      leagueXp,
+      playbackSpeed: ghost.playbackSpeed,
+      practiceHand: ghost.practiceHand,
+      inputMethod: ghost.inputMethod,
+      assists: ghost.assists,
+      notes: ghost.notes,
+      submittedAt: now,
+    };
+    transaction.set(performanceRef, performance);
+
+    if (inCurrentLeague && memberRef && leagueXp > 0) {
+      transaction.update(memberRef, { weeklyXp: admin.firestore.FieldValue.increment(leagueXp) });
+    }
+
+    return {
+      performanceId: performanceRef.id,
+      overall: score.overall,
+      stars: score.stars,
+      isPassed: score.isPassed,
+      isNewHighScore: score.isNewHighScore,
+      xpEarned,
+      lessonXp,
+      leagueXp,
+    };
+  });
+}
+
+// ============================================================================
+// Cloud Function
+// ============================================================================
+
+export const submitPerformance = onCall(
+  { region: 'us-central1' },
+  async (request): Promise<SubmitPerformanceResponse> => {
+    if (!request.auth) {
+      throw new HttpsError(
+        'unauthenticated',
+        'Must be authenticated to submit performances',
+      );
+    }
+
+    const uid = request.auth.uid;
+    const submission = parseSubmission(request.data);
+    if ('error' in submission) {
+      throw new HttpsError('invalid-argument', submission.error);
+    }
+
+    try {
+      const response = await recordPerformance(admin.firestore(), uid, submission);
+      logger.info('Performance recorded', {
+        uid,
+        exerciseId: submission.exerciseId,
+        overall: response.overall,
+        xpEarned: response.xpEarned,
+      });
+      return response;
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        logger.warn('Performance refused', {
+          uid,
+          exerciseId: submission.exerciseId,
+          code: error.code,
+          reason: error.message,
+        });
+        throw error;
+      }
+      logger.error('Performance submission error', {
+        uid,
+        exerciseId: submission.exerciseId,
+        error: String(error),
+      });
+      throw new HttpsError('internal', 'Failed to record performance');
+    }
+  },
+);
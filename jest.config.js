@@ -19,15 +19,18 @@ module.exports = {
     '^@/services/(.*)$': '<rootDir>/src/services/$1',
     '^@/utils/(.*)$': '<rootDir>/src/utils/$1',
     '^@/content/(.*)$': '<rootDir>/content/$1',
-    '\\.(mp3|wav|ogg|m4a|aac)$': '<rootDir>/__mocks__/audioFileMock.js',
+    '^(?!.*/assets/soundfonts/).*\\.(mp3|wav|ogg|m4a|aac|sf2|sfz)$': '<rootDir>/__mocks__/audioFileMock.js',
   },
   testMatch: [
     '**/__tests__/**/*.[jt]s?(x)',
     '**/?(*.)+(spec|test).[jt]s?(x)',
   ],
+  // Cloud Functions and the duet relay have their own jest setups
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/firebase/', '<rootDir>/relay/'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transform: {
     '^.+\\.tsx?$': ['babel-jest', { configFile: './babel.config.js' }],
+    '/assets/soundfonts/.+\\.(wav|sf2|sfz)$': '<rootDir>/__mocks__/soundfontAssetTransformer.js',
   },
   transformIgnorePatterns: [
     'node_modules/(?!(expo|expo-av|expo-router|expo-font|expo-screen-orientation|expo-haptics|expo-linear-gradient|expo-speech|@expo/vector-icons|@react-native|react-native|@react-native-community|@react-navigation|@shopify/react-native-skia|react-native-reanimated|react-native-gesture-handler|expo-modules-core)/)',
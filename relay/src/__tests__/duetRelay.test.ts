@@ -0,0 +1,92 @@
+/**
+ * Duet Relay Tests
+ *
+ * Stands the relay up on a free local port and plays a duet through it
+ * with the app's own DuetSession and WebSocketDuetTransport.
+ */
+
+import { WebSocket } from 'ws';
+import { startDuetRelay, type DuetRelay } from '../duetRelay';
+import { DuetSession } from '../../../src/services/duet/DuetSession';
+import { WebSocketDuetTransport, type DuetSocketConstructor } from '../../../src/services/duet/WebSocketDuetTransport';
+import type { DuetSetup } from '../../../src/core/duet/duetProtocol';
+
+const SETUP: DuetSetup = { songId: 'song', sectionId: 'verse', split: 'layers', hostPart: 'melody' };
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** A bare client, for what the app never sends */
+function rawClient(url: string): Promise<{ socket: WebSocket; received: unknown[] }> {
+  const socket = new WebSocket(url);
+  const received: unknown[] = [];
+  socket.on('message', (data) => received.push(JSON.parse(data.toString())));
+  return new Promise((resolve) => socket.once('open', () => resolve({ socket, received })));
+}
+
+describe('duet relay', () => {
+  let relay: DuetRelay;
+  let url: string;
+
+  beforeAll(async () => {
+    relay = await startDuetRelay({ port: 0, host: '127.0.0.1' });
+    url = `ws://127.0.0.1:${relay.port}`;
+  });
+
+  afterAll(() => relay.close());
+
+  const session = () =>
+    new DuetSession(new WebSocketDuetTransport(url, WebSocket as unknown as DuetSocketConstructor));
+
+  it('runs a duet between two app sessions', async () => {
+    const host = session();
+    const guest = session();
+
+    await host.join('TEST1', 'Ana');
+    await waitFor(() => host.getState().role === 'host');
+    host.chooseSetup(SETUP);
+    await guest.join('TEST1', 'Ben');
+    await waitFor(() => host.canStart);
+
+    expect(guest.getState().setup).toEqual(SETUP);
+    // Same machine, so both clocks should agree with the relay's
+    expect(Math.abs(guest.getState().clock!.offsetMs)).toBeLessThan(50);
+
+    host.start(200);
+    await waitFor(() => guest.getState().status === 'playing');
+    expect(Math.abs(guest.getState().startAt! - host.getState().startAt!)).toBeLessThan(50);
+
+    guest.sendNote(48, 90, true, 5);
+    await waitFor(() => host.getState().partnerNotes.length === 1);
+    expect(host.getState().partnerNotes[0]).toEqual({ note: 48, velocity: 90, on: true, atMs: 5 });
+
+    guest.leave();
+    await waitFor(() => host.getState().status === 'ended');
+    host.leave();
+    await waitFor(() => relay.roomCount() === 0);
+  });
+
+  it('turns a third player away', async () => {
+    const join = (name: string) => JSON.stringify({ type: 'join', room: 'FULL', name, version: 1 });
+    const clients = await Promise.all([rawClient(url), rawClient(url), rawClient(url)]);
+    for (const [i, { socket }] of clients.entries()) {
+      socket.send(join(`p${i}`));
+      await waitFor(() => clients[i].received.length > 0);
+    }
+    expect(clients[2].received[0]).toMatchObject({ type: 'error', code: 'room-full' });
+    clients.forEach(({ socket }) => socket.close());
+  });
+
+  it('answers unreadable requests with an error', async () => {
+    const { socket, received } = await rawClient(url);
+    socket.send('hello');
+    await waitFor(() => received.length > 0);
+    expect(received[0]).toMatchObject({ type: 'error', code: 'bad-request' });
+    socket.close();
+  });
+});
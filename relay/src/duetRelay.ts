@@ -0,0 +1,98 @@
+/**
+ * Duet Relay
+ * A WebSocket server that pairs two players in a room and passes their
+ * messages between them, for real-time duets.
+ *
+ * The room logic is DuetRelayRooms from the app's core, so this file only
+ * owns the sockets. It keeps no state beyond the open connections: a
+ * restart drops the duets in progress and the players rejoin.
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { DuetRelayRooms } from '../../src/core/duet/relayRooms';
+import type { RelayDelivery } from '../../src/core/duet/relayRooms';
+import { parseRelayRequest } from '../../src/core/duet/duetProtocol';
+
+/** Larger messages close the connection; real ones are well under 1KB */
+const MAX_MESSAGE_BYTES = 4096;
+
+/** Connections that miss a heartbeat are dropped, freeing their room */
+const HEARTBEAT_MS = 30_000;
+
+export interface DuetRelayOptions {
+  /** 0 picks a free port */
+  port: number;
+  host?: string;
+  heartbeatMs?: number;
+}
+
+export interface DuetRelay {
+  port: number;
+  roomCount(): number;
+  close(): Promise<void>;
+}
+
+export function startDuetRelay({ port, host, heartbeatMs = HEARTBEAT_MS }: DuetRelayOptions): Promise<DuetRelay> {
+  const rooms = new DuetRelayRooms();
+  const sockets = new Map<string, WebSocket>();
+  const alive = new Set<string>();
+  let nextClientId = 0;
+
+  const server = new WebSocketServer({ port, host, maxPayload: MAX_MESSAGE_BYTES });
+
+  const deliver = (deliveries: RelayDelivery[]) => {
+    for (const { to, event } of deliveries) {
+      const socket = sockets.get(to);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+    }
+  };
+
+  server.on('connection', (socket) => {
+    const clientId = String(nextClientId++);
+    sockets.set(clientId, socket);
+    alive.add(clientId);
+
+    socket.on('pong', () => alive.add(clientId));
+    socket.on('message', (data, isBinary) => {
+      const request = isBinary ? null : parseRelayRequest(data.toString());
+      deliver(
+        request
+          ? rooms.handle(clientId, request)
+          : [{ to: clientId, event: { type: 'error', code: 'bad-request', message: 'Unreadable request' } }],
+      );
+    });
+    socket.on('close', () => {
+      sockets.delete(clientId);
+      alive.delete(clientId);
+      deliver(rooms.disconnect(clientId));
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const [clientId, socket] of sockets) {
+      if (!alive.has(clientId)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(clientId);
+      socket.ping();
+    }
+  }, heartbeatMs);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        roomCount: () => rooms.roomCount,
+        close: () =>
+          new Promise<void>((done) => {
+            clearInterval(heartbeat);
+            sockets.forEach((socket) => socket.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Duet relay entry point
+ *
+ *   PORT=8787 npm start
+ *
+ * Point the app at it with EXPO_PUBLIC_DUET_RELAY_URL (ws://host:port, or
+ * wss:// behind a TLS proxy).
+ */
+
+import { startDuetRelay } from './duetRelay';
+
+const port = Number(process.env.PORT ?? 8787);
+
+startDuetRelay({ port, host: process.env.HOST })
+  .then((relay) => {
+    console.log(`Duet relay listening on port ${relay.port}`);
+    const shutdown = () => {
+      relay.close().then(() => process.exit(0));
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+  })
+  .catch((error) => {
+    console.error('Duet relay failed to start:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,400 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Bundled Soundfont Builder
+ *
+ * Writes the soundfonts the app registers at startup (see
+ * src/audio/instruments/bundledSoundfonts.ts) to assets/soundfonts/:
+ *
+ * - piano.sfz + piano/*.wav — the FluidR3 GM piano from assets/samples in two
+ *   velocity layers. The loud layer is the recording as it is; the soft layer
+ *   is the same recording low-passed, the duller tone of a lighter strike.
+ * - electric-piano.sf2, organ.sf2, strings.sf2 — the built-in synth patches
+ *   rendered once per octave (C2-C6), looped on their sustain.
+ *
+ * Usage:
+ *   npm run build:soundfonts
+ *
+ * Re-run it after changing the piano samples or a built-in synth patch.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { renderPatch } from '../src/audio/instruments/SynthRenderer';
+import { encodeWav } from '../src/audio/instruments/WavEncoder';
+import type { SynthPatch } from '../src/audio/instruments/types';
+
+// InstrumentRegistry require()s the piano mp3s for Metro; here their paths will do
+require.extensions['.mp3'] = (module, filename) => {
+  module.exports = filename;
+};
+
+const ROOT = path.join(__dirname, '..');
+const SAMPLES_DIR = path.join(ROOT, 'assets', 'samples');
+const OUT_DIR = path.join(ROOT, 'assets', 'soundfonts');
+
+/** Roots of the octave-spaced zones, as the built-in piano maps them */
+const OCTAVE_ROOTS = [36, 48, 60, 72, 84];
+const PIANO_FILES = ['c2', 'c3', 'c4', 'c5', 'c6'];
+
+/** Top of the soft layer; harder notes play the recording as it is */
+const SOFT_LAYER_MAX_VELOCITY = 80;
+
+/** Rendered patches are simple enough for half the piano's rate */
+const SYNTH_SAMPLE_RATE = 22050;
+
+/** SF2 wants this many zero frames after every sample */
+const SF2_SAMPLE_PADDING = 46;
+
+const SYNTH_SOUNDFONTS = [
+  { id: 'electric_piano', file: 'electric-piano.sf2', program: 4 },
+  { id: 'organ', file: 'organ.sf2', program: 16 },
+  { id: 'strings', file: 'strings.sf2', program: 48 },
+];
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/** Key range of the zone rooted at `index`: ±6 semitones, the ends stretched to the keyboard's */
+function keyRange(index: number): [number, number] {
+  const root = OCTAVE_ROOTS[index];
+  return [index === 0 ? 0 : root - 5, index === OCTAVE_ROOTS.length - 1 ? 127 : root + 6];
+}
+
+// ── Piano ────────────────────────────────────────────────────────────────
+
+async function decodeMp3(file: string): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const { MPEGDecoder } = await import('mpg123-decoder');
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+  try {
+    const { channelData, samplesDecoded, sampleRate, errors } = decoder.decode(fs.readFileSync(file));
+    if (errors.length > 0) throw new Error(`${file}: ${errors[0].message}`);
+    const samples = new Float32Array(samplesDecoded);
+    for (let i = 0; i < samplesDecoded; i++) {
+      let sum = 0;
+      for (const channel of channelData) sum += channel[i];
+      samples[i] = sum / channelData.length;
+    }
+    return { samples, sampleRate };
+  } finally {
+    decoder.free();
+  }
+}
+
+/** Two passes of an RBJ low-pass biquad (Q 0.707) */
+function lowPass(input: Float32Array, cutoff: number, sampleRate: number): Float32Array {
+  const w0 = (2 * Math.PI * cutoff) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0;
+  const b1 = (1 - cos) / a0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let signal = input;
+  for (let pass = 0; pass < 2; pass++) {
+    const output = new Float32Array(signal.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < signal.length; i++) {
+      const x = signal[i];
+      const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+    signal = output;
+  }
+  return signal;
+}
+
+async function buildPiano(): Promise<void> {
+  const pianoDir = path.join(OUT_DIR, 'piano');
+  fs.mkdirSync(pianoDir, { recursive: true });
+
+  const soft: string[] = [];
+  const hard: string[] = [];
+  for (let i = 0; i < PIANO_FILES.length; i++) {
+    const name = PIANO_FILES[i];
+    const root = OCTAVE_ROOTS[i];
+    const { samples, sampleRate } = await decodeMp3(path.join(SAMPLES_DIR, `piano-${name}.mp3`));
+    // Brightness above the first few partials is what a soft strike loses
+    const cutoff = Math.min(5000, Math.max(1000, midiToFrequency(root) * 6));
+
+    fs.writeFileSync(path.join(pianoDir, `${name}-soft.wav`), encodeWav(lowPass(samples, cutoff, sampleRate), sampleRate));
+    fs.writeFileSync(path.join(pianoDir, `${name}-hard.wav`), encodeWav(samples, sampleRate));
+
+    const [lo, hi] = keyRange(i);
+    const keys = `pitch_keycenter=${root} lokey=${lo} hikey=${hi}`;
+    soft.push(`<region> sample=${name}-soft.wav ${keys}`);
+    hard.push(`<region> sample=${name}-hard.wav ${keys}`);
+    console.log(`  piano ${name}: ${samples.length} frames, soft layer below ${cutoff.toFixed(0)} Hz`);
+  }
+
+  const sfz = [
+    '// FluidR3 GM Acoustic Grand Piano in two velocity layers',
+    '// Generated by scripts/build-soundfonts.ts from assets/samples',
+    '',
+    '<control> default_path=piano/',
+    '',
+    `<group> lovel=1 hivel=${SOFT_LAYER_MAX_VELOCITY}`,
+    ...soft,
+    '',
+    `<group> lovel=${SOFT_LAYER_MAX_VELOCITY + 1} hivel=127`,
+    ...hard,
+    '',
+  ].join('\n');
+  fs.writeFileSync(path.join(OUT_DIR, 'piano.sfz'), sfz);
+}
+
+// ── Synth patches ────────────────────────────────────────────────────────
+
+interface RenderedSample {
+  name: string;
+  pcm: Int16Array;
+  loopStart: number;
+  loopEnd: number;
+  rootNote: number;
+  /** Cents from the rendered pitch up to the root's */
+  correction: number;
+}
+
+/**
+ * Fewest fundamental periods after which every harmonic is back in phase,
+ * so a loop of that many periods has no seam (the organ's 16' needs 2, the
+ * strings' detuned saw 250).
+ */
+function periodsPerCycle(ratios: number[]): number {
+  for (let periods = 1; periods <= 1000; periods++) {
+    if (ratios.every((r) => Math.abs(r * periods - Math.round(r * periods)) < 1e-6)) return periods;
+  }
+  throw new Error(`No seamless loop for harmonic ratios ${ratios.join(', ')}`);
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+  }
+  return pcm;
+}
+
+/**
+ * Render `patch` at each octave root. The pitch is nudged so a period is a
+ * whole number of frames — the loop then repeats exactly — and the sample
+ * header's pitch correction takes the nudge back out.
+ */
+function renderOctaves(id: string, patch: SynthPatch): RenderedSample[] {
+  const periods = periodsPerCycle(patch.harmonics.map((h) => h.ratio));
+  const { attack, decay } = patch.envelope;
+
+  return OCTAVE_ROOTS.map((rootNote) => {
+    const target = midiToFrequency(rootNote);
+    const period = Math.round(SYNTH_SAMPLE_RATE / target);
+    const frequency = SYNTH_SAMPLE_RATE / period;
+    const loopLength = period * periods;
+    // Loop once the envelope has settled on its sustain level
+    const loopStart = Math.ceil(((attack + decay) * SYNTH_SAMPLE_RATE) / period) * period;
+    const loopEnd = loopStart + loopLength;
+    // A little past the loop so interpolation at its end reads real samples
+    const samples = renderPatch(patch, frequency, (loopEnd + 0.05 * SYNTH_SAMPLE_RATE) / SYNTH_SAMPLE_RATE, SYNTH_SAMPLE_RATE);
+
+    return {
+      name: `${id}-${rootNote}`,
+      pcm: toInt16(samples),
+      loopStart,
+      loopEnd,
+      rootNote,
+      correction: Math.round(1200 * Math.log2(target / frequency)),
+    };
+  });
+}
+
+// ── SF2 writer ───────────────────────────────────────────────────────────
+
+const GEN_KEY_RANGE = 43;
+const GEN_INSTRUMENT = 41;
+const GEN_SAMPLE_ID = 53;
+const GEN_SAMPLE_MODES = 54;
+
+type Generator = [oper: number, amount: number];
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+  u16(value: number): void {
+    this.u8(value);
+    this.u8(value >> 8);
+  }
+  u32(value: number): void {
+    this.u16(value & 0xffff);
+    this.u16(value >>> 16);
+  }
+  tag(tag: string): void {
+    for (const c of tag) this.u8(c.charCodeAt(0));
+  }
+  /** Fixed 20-byte name field */
+  name(name: string): void {
+    for (let i = 0; i < 20; i++) this.u8(i < name.length ? name.charCodeAt(i) : 0);
+  }
+  append(bytes: Uint8Array | number[]): void {
+    for (const b of bytes) this.bytes.push(b);
+  }
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function riffChunk(tag: string, body: Uint8Array): Uint8Array {
+  const w = new ByteWriter();
+  w.tag(tag);
+  w.u32(body.length);
+  w.append(body);
+  if (body.length % 2) w.u8(0);
+  return w.toBytes();
+}
+
+function riffList(type: string, chunks: Uint8Array[]): Uint8Array {
+  const w = new ByteWriter();
+  w.tag(type);
+  for (const c of chunks) w.append(c);
+  return riffChunk('LIST', w.toBytes());
+}
+
+function zeroTerminated(text: string): Uint8Array {
+  const w = new ByteWriter();
+  w.tag(text);
+  w.u8(0);
+  if ((text.length + 1) % 2) w.u8(0);
+  return w.toBytes();
+}
+
+/** Bag and generator records for each zone list, with their terminal records */
+function bagsAndGenerators(zoneLists: Generator[][][]): { bags: Uint8Array; gens: Uint8Array; starts: number[] } {
+  const bags = new ByteWriter();
+  const gens = new ByteWriter();
+  const starts: number[] = [];
+  let bagIndex = 0;
+  let genIndex = 0;
+  for (const zones of zoneLists) {
+    starts.push(bagIndex);
+    for (const zone of zones) {
+      bags.u16(genIndex);
+      bags.u16(0);
+      bagIndex++;
+      for (const [oper, amount] of zone) {
+        gens.u16(oper);
+        gens.u16(amount);
+        genIndex++;
+      }
+    }
+  }
+  starts.push(bagIndex);
+  bags.u16(genIndex);
+  bags.u16(0);
+  gens.u32(0);
+  return { bags: bags.toBytes(), gens: gens.toBytes(), starts };
+}
+
+/** One preset over one instrument with a looped zone per sample */
+function writeSf2(presetName: string, program: number, samples: RenderedSample[]): Uint8Array {
+  const smpl = new ByteWriter();
+  const shdr = new ByteWriter();
+  let offset = 0;
+  for (const sample of samples) {
+    for (const value of sample.pcm) smpl.u16(value);
+    for (let i = 0; i < SF2_SAMPLE_PADDING; i++) smpl.u16(0);
+    shdr.name(sample.name);
+    shdr.u32(offset);
+    shdr.u32(offset + sample.pcm.length);
+    shdr.u32(offset + sample.loopStart);
+    shdr.u32(offset + sample.loopEnd);
+    shdr.u32(SYNTH_SAMPLE_RATE);
+    shdr.u8(sample.rootNote);
+    shdr.u8(sample.correction);
+    shdr.u16(0);
+    shdr.u16(1); // mono
+    offset += sample.pcm.length + SF2_SAMPLE_PADDING;
+  }
+  shdr.name('EOS');
+  for (let i = 0; i < 5; i++) shdr.u32(0);
+  shdr.u8(0);
+  shdr.u8(0);
+  shdr.u16(0);
+  shdr.u16(0);
+
+  const instrumentZones = samples.map((_, i): Generator[] => {
+    const [lo, hi] = keyRange(i);
+    return [[GEN_KEY_RANGE, lo | (hi << 8)], [GEN_SAMPLE_MODES, 1], [GEN_SAMPLE_ID, i]];
+  });
+  const instrument = bagsAndGenerators([instrumentZones]);
+  const inst = new ByteWriter();
+  inst.name(presetName);
+  inst.u16(instrument.starts[0]);
+  inst.name('EOI');
+  inst.u16(instrument.starts[1]);
+
+  const preset = bagsAndGenerators([[[[GEN_INSTRUMENT, 0]]]]);
+  const phdr = new ByteWriter();
+  for (const [name, presetProgram, bag] of [[presetName, program, preset.starts[0]], ['EOP', 0, preset.starts[1]]] as const) {
+    phdr.name(name);
+    phdr.u16(presetProgram);
+    phdr.u16(0);
+    phdr.u16(bag);
+    phdr.u32(0);
+    phdr.u32(0);
+    phdr.u32(0);
+  }
+
+  const body = new ByteWriter();
+  body.tag('sfbk');
+  body.append(riffList('INFO', [
+    riffChunk('ifil', Uint8Array.from([2, 0, 1, 0])),
+    riffChunk('isng', zeroTerminated('EMU8000')),
+    riffChunk('INAM', zeroTerminated(presetName)),
+  ]));
+  body.append(riffList('sdta', [riffChunk('smpl', smpl.toBytes())]));
+  body.append(riffList('pdta', [
+    riffChunk('phdr', phdr.toBytes()),
+    riffChunk('pbag', preset.bags),
+    riffChunk('pmod', Uint8Array.from(new Array(10).fill(0))),
+    riffChunk('pgen', preset.gens),
+    riffChunk('inst', inst.toBytes()),
+    riffChunk('ibag', instrument.bags),
+    riffChunk('imod', Uint8Array.from(new Array(10).fill(0))),
+    riffChunk('igen', instrument.gens),
+    riffChunk('shdr', shdr.toBytes()),
+  ]));
+  return riffChunk('RIFF', body.toBytes());
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  // After the mp3 hook above
+  const { BUILT_IN_INSTRUMENTS } = await import('../src/audio/instruments/InstrumentRegistry');
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  console.log('Building piano.sfz');
+  await buildPiano();
+
+  for (const { id, file, program } of SYNTH_SOUNDFONTS) {
+    const instrument = BUILT_IN_INSTRUMENTS.find((i) => i.id === id);
+    if (!instrument) throw new Error(`No built-in instrument "${id}"`);
+    const samples = renderOctaves(id, instrument.synth);
+    const sf2 = writeSf2(instrument.name, program, samples);
+    fs.writeFileSync(path.join(OUT_DIR, file), sf2);
+    console.log(`Built ${file}: ${samples.length} samples, ${(sf2.length / 1024).toFixed(0)} KB`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
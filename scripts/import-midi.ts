@@ -0,0 +1,138 @@
+/**
+ * Standard MIDI File Importer
+ *
+ * Converts .mid files into Song objects (or single Exercises) via the in-app
+ * SMF parser, runs the ExerciseValidator checks on the result, and outputs JSON.
+ *
+ * Hands are assigned automatically (a lone track is split at middle C; with
+ * several tracks the highest one is the right hand). Override per track with
+ * --hands, using the track indices printed by --list.
+ *
+ * Usage: npx tsx scripts/import-midi.ts <file.mid> [more.mid ...]
+ *          [--hands 1=right,2=left,3=skip] [--split 60] [--bars 8]
+ *          [--title "Title"] [--artist "Composer"] [--genre classical]
+ *          [--exercise] [--list] [--output songs.json]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { parseMidiFile } from '../src/core/music/midiFile';
+import { midiFileToExercise, midiFileToSong } from '../src/core/songs/midiImport';
+import type { MidiImportOptions, TrackHand } from '../src/core/songs/midiImport';
+import type { SongGenre } from '../src/core/songs/songTypes';
+
+const TRACK_HANDS: TrackHand[] = ['left', 'right', 'split', 'skip'];
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function parseHands(spec: string): Record<number, TrackHand> {
+  const hands: Record<number, TrackHand> = {};
+  for (const part of spec.split(',')) {
+    const [index, hand] = part.split('=');
+    if (!TRACK_HANDS.includes(hand as TrackHand) || isNaN(parseInt(index, 10))) {
+      throw new Error(`Invalid --hands entry "${part}" (expected <track>=${TRACK_HANDS.join('|')})`);
+    }
+    hands[parseInt(index, 10)] = hand as TrackHand;
+  }
+  return hands;
+}
+
+/** Files are every argument that isn't a flag or a flag's value */
+function positionalArgs(args: string[]): string[] {
+  const valueFlags = new Set(['--hands', '--split', '--bars', '--title', '--artist', '--genre', '--output']);
+  return args.filter((arg, i) => !arg.startsWith('--') && !valueFlags.has(args[i - 1]));
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const files = positionalArgs(args);
+  if (files.length === 0) {
+    console.error('Usage: npx tsx scripts/import-midi.ts <file.mid> [--hands 1=right,2=left] [--exercise] [--output out.json]');
+    process.exit(1);
+  }
+
+  const handsSpec = flagValue(args, '--hands');
+  const split = flagValue(args, '--split');
+  const bars = flagValue(args, '--bars');
+  const outputFile = flagValue(args, '--output') ?? null;
+  const asExercise = args.includes('--exercise');
+  const listOnly = args.includes('--list');
+
+  const baseOptions: MidiImportOptions = {
+    ...(handsSpec && { trackHands: parseHands(handsSpec) }),
+    ...(split && { splitPoint: parseInt(split, 10) }),
+    ...(bars && { barsPerSection: parseInt(bars, 10) }),
+    ...(flagValue(args, '--artist') && { artist: flagValue(args, '--artist') }),
+    ...(flagValue(args, '--genre') && { genre: flagValue(args, '--genre') as SongGenre }),
+  };
+
+  const results: unknown[] = [];
+  let failures = 0;
+
+  for (const file of files) {
+    console.log(`Importing: ${file}`);
+    const midi = parseMidiFile(new Uint8Array(readFileSync(file)));
+    if ('error' in midi) {
+      console.warn(`  ✗ ${midi.error}`);
+      failures++;
+      continue;
+    }
+
+    if (listOnly) {
+      console.log(`  format ${midi.format}, ${midi.ticksPerQuarter} ticks/quarter, ${midi.tempoMap.length} tempo event(s)`);
+      midi.tracks.forEach((track, i) => {
+        const channels = [...new Set(track.notes.map((n) => n.channel + 1))].join(',');
+        console.log(`  track ${i}: "${track.name}" — ${track.notes.length} notes${channels ? ` (ch ${channels})` : ''}`);
+      });
+      continue;
+    }
+
+    const options: MidiImportOptions = {
+      ...baseOptions,
+      // --title only makes sense for a single file; otherwise use the file name
+      title: (files.length === 1 && flagValue(args, '--title')) || basename(file, extname(file)),
+    };
+
+    const output = asExercise ? midiFileToExercise(midi, options) : midiFileToSong(midi, options);
+    if ('error' in output) {
+      console.warn(`  ✗ ${output.error}`);
+      failures++;
+      continue;
+    }
+
+    for (const warning of output.warnings) console.warn(`  ! ${warning}`);
+    if ('sections' in output.value) {
+      console.log(`  ✓ ${output.value.sections.length} section(s), ${output.value.metadata.durationSeconds}s, key=${output.value.settings.keySignature}`);
+    } else {
+      console.log(`  ✓ ${output.value.notes.length} notes, key=${output.value.settings.keySignature}`);
+    }
+    results.push(output.value);
+  }
+
+  if (listOnly) return;
+
+  console.log(`\nConverted ${results.length}/${files.length} file(s).`);
+
+  if (outputFile) {
+    writeFileSync(outputFile, JSON.stringify(results, null, 2));
+    console.log(`Written to ${outputFile}`);
+  } else {
+    console.log('JSON output:');
+    console.log(JSON.stringify(results, null, 2));
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,143 @@
+/**
+ * MusicXML Importer
+ *
+ * Converts partwise MusicXML (.musicxml/.xml) and compressed .mxl files into
+ * Song objects (or single Exercises) via the in-app parser, runs the
+ * ExerciseValidator checks on the result, and outputs JSON.
+ *
+ * Grand-staff parts are split by staff (upper = right hand). Override per
+ * part with --hands, using the part indices printed by --list.
+ *
+ * Usage: npx tsx scripts/import-musicxml.ts <score.mxl> [more.musicxml ...]
+ *          [--hands 0=split,1=skip] [--split 60] [--bars 8]
+ *          [--title "Title"] [--artist "Composer"] [--genre classical]
+ *          [--source pdmx] [--exercise] [--list] [--output songs.json]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { inflateRawSync } from 'zlib';
+import { musicXmlToExercise, musicXmlToSong, parseMusicXmlFile } from '../src/core/songs/musicXmlImport';
+import type { MusicXmlImportOptions } from '../src/core/songs/musicXmlImport';
+import type { TrackHand } from '../src/core/songs/midiImport';
+import type { SongGenre, SongSource } from '../src/core/songs/songTypes';
+
+const PART_HANDS: TrackHand[] = ['left', 'right', 'split', 'skip'];
+
+const inflateRaw = (data: Uint8Array): Uint8Array => new Uint8Array(inflateRawSync(data));
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function parseHands(spec: string): Record<number, TrackHand> {
+  const hands: Record<number, TrackHand> = {};
+  for (const part of spec.split(',')) {
+    const [index, hand] = part.split('=');
+    if (!PART_HANDS.includes(hand as TrackHand) || isNaN(parseInt(index, 10))) {
+      throw new Error(`Invalid --hands entry "${part}" (expected <part>=${PART_HANDS.join('|')})`);
+    }
+    hands[parseInt(index, 10)] = hand as TrackHand;
+  }
+  return hands;
+}
+
+/** Files are every argument that isn't a flag or a flag's value */
+function positionalArgs(args: string[]): string[] {
+  const valueFlags = new Set(['--hands', '--split', '--bars', '--title', '--artist', '--genre', '--source', '--output']);
+  return args.filter((arg, i) => !arg.startsWith('--') && !valueFlags.has(args[i - 1]));
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const files = positionalArgs(args);
+  if (files.length === 0) {
+    console.error('Usage: npx tsx scripts/import-musicxml.ts <score.mxl> [--hands 0=split] [--exercise] [--output out.json]');
+    process.exit(1);
+  }
+
+  const handsSpec = flagValue(args, '--hands');
+  const split = flagValue(args, '--split');
+  const bars = flagValue(args, '--bars');
+  const outputFile = flagValue(args, '--output') ?? null;
+  const asExercise = args.includes('--exercise');
+  const listOnly = args.includes('--list');
+
+  const baseOptions: MusicXmlImportOptions = {
+    ...(handsSpec && { partHands: parseHands(handsSpec) }),
+    ...(split && { splitPoint: parseInt(split, 10) }),
+    ...(bars && { barsPerSection: parseInt(bars, 10) }),
+    ...(flagValue(args, '--artist') && { artist: flagValue(args, '--artist') }),
+    ...(flagValue(args, '--genre') && { genre: flagValue(args, '--genre') as SongGenre }),
+    ...(flagValue(args, '--source') && { source: flagValue(args, '--source') as SongSource }),
+  };
+
+  const results: unknown[] = [];
+  let failures = 0;
+
+  for (const file of files) {
+    console.log(`Importing: ${file}`);
+    const score = parseMusicXmlFile(new Uint8Array(readFileSync(file)), inflateRaw);
+    if ('error' in score) {
+      console.warn(`  ✗ ${score.error}`);
+      failures++;
+      continue;
+    }
+
+    if (listOnly) {
+      console.log(`  "${score.title}" by ${score.composer || 'unknown'} — ${score.measures.length} measures`);
+      score.parts.forEach((part, i) => {
+        console.log(`  part ${i}: "${part.name || part.id}" — ${part.staves} staff/staves, ${part.notes.length} notes`);
+      });
+      continue;
+    }
+
+    const options: MusicXmlImportOptions = {
+      ...baseOptions,
+      // --title only makes sense for a single file; otherwise use the score's own title
+      ...(files.length === 1 && flagValue(args, '--title') && { title: flagValue(args, '--title') }),
+      ...(!score.title && { title: basename(file, extname(file)) }),
+    };
+
+    const output = asExercise ? musicXmlToExercise(score, options) : musicXmlToSong(score, options);
+    if ('error' in output) {
+      console.warn(`  ✗ ${output.error}`);
+      failures++;
+      continue;
+    }
+
+    for (const warning of output.warnings) console.warn(`  ! ${warning}`);
+    if ('sections' in output.value) {
+      const labels = output.value.sections.map((s) => s.label).join(', ');
+      console.log(`  ✓ ${output.value.sections.length} section(s) [${labels}], key=${output.value.settings.keySignature}`);
+    } else {
+      console.log(`  ✓ ${output.value.notes.length} notes, key=${output.value.settings.keySignature}`);
+    }
+    results.push(output.value);
+  }
+
+  if (listOnly) return;
+
+  console.log(`\nConverted ${results.length}/${files.length} file(s).`);
+
+  if (outputFile) {
+    writeFileSync(outputFile, JSON.stringify(results, null, 2));
+    console.log(`Written to ${outputFile}`);
+  } else {
+    console.log('JSON output:');
+    console.log(JSON.stringify(results, null, 2));
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main();
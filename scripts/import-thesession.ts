@@ -15,7 +15,8 @@
  */
 
 import { parseABC } from '../src/core/songs/abcParser';
-import type { Song, SongSection } from '../src/core/songs/songTypes';
+import { expandPlaybackOrder, sectionsFromWrittenForm } from '../src/core/songs/songStructure';
+import type { Song } from '../src/core/songs/songTypes';
 import { writeFileSync } from 'fs';
 
 const API_BASE = 'https://thesession.org';
@@ -163,10 +164,9 @@ function buildABCString(name: string, type: string, setting: SessionTuneSetting)
 // Convert tune detail → Song
 // ---------------------------------------------------------------------------
 
-function tuneToDuration(notes: { startBeat: number; durationBeats: number }[], tempo: number): number {
-  if (notes.length === 0) return 60;
-  const lastNote = notes[notes.length - 1];
-  const totalBeats = lastNote.startBeat + lastNote.durationBeats;
+function tuneToDuration(playback: { endBeat: number }[], tempo: number): number {
+  if (playback.length === 0) return 60;
+  const totalBeats = playback[playback.length - 1].endBeat;
   return Math.round((totalBeats / tempo) * 60);
 }
 
@@ -200,51 +200,13 @@ function convertTuneToSong(detail: SessionTuneDetail): Song | null {
   const tempo = parsed.tempo || tuneTypeToTempo(detail.type);
   const ts = parsed.timeSignature || tuneTypeToTimeSignature(detail.type);
 
-  // Split notes into sections of ~16 bars each
-  const beatsPerBar = ts[0];
-  const barsPerSection = 16;
-  const beatsPerSection = beatsPerBar * barsPerSection;
-  const sections: SongSection[] = [];
-
-  let sectionNotes: typeof parsed.notes = [];
-  let sectionStart = 0;
-  let sectionIndex = 0;
-
-  for (const note of parsed.notes) {
-    if (note.startBeat >= sectionStart + beatsPerSection && sectionNotes.length > 0) {
-      sections.push({
-        id: `section-${sectionIndex}`,
-        label: sectionIndex === 0 ? 'Part A' : `Part ${String.fromCharCode(65 + sectionIndex)}`,
-        startBeat: sectionStart,
-        endBeat: sectionStart + beatsPerSection,
-        difficulty: tuneTypeToDifficulty(detail.type),
-        layers: {
-          melody: sectionNotes,
-          full: sectionNotes,
-        },
-      });
-      sectionStart += beatsPerSection;
-      sectionNotes = [];
-      sectionIndex++;
-    }
-    sectionNotes.push(note);
-  }
-
-  // Push remaining notes as final section
-  if (sectionNotes.length > 0) {
-    const lastNote = sectionNotes[sectionNotes.length - 1];
-    sections.push({
-      id: `section-${sectionIndex}`,
-      label: sectionIndex === 0 ? 'Part A' : `Part ${String.fromCharCode(65 + sectionIndex)}`,
-      startBeat: sectionStart,
-      endBeat: lastNote.startBeat + lastNote.durationBeats,
-      difficulty: tuneTypeToDifficulty(detail.type),
-      layers: {
-        melody: sectionNotes,
-        full: sectionNotes,
-      },
-    });
-  }
+  // Cut at repeat and ending marks, and every 16 bars within long parts
+  const { sections, structure } = sectionsFromWrittenForm(parsed.notes, parsed.form, {
+    difficulty: tuneTypeToDifficulty(detail.type),
+    beatsPerBar: ts[0],
+    barsPerSection: 16,
+  });
+  const playback = expandPlaybackOrder({ sections, structure });
 
   if (sections.length === 0) return null;
 
@@ -260,10 +222,11 @@ function convertTuneToSong(detail: SessionTuneDetail): Song | null {
       artist,
       genre: 'folk',
       difficulty: tuneTypeToDifficulty(detail.type),
-      durationSeconds: tuneToDuration(parsed.notes, tempo),
+      durationSeconds: tuneToDuration(playback, tempo),
       attribution: `Traditional tune from TheSession.org (tune #${detail.id})`,
     },
     sections,
+    ...(structure && { structure }),
     settings: {
       tempo,
       timeSignature: ts,
@@ -0,0 +1,140 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Offline Mic Transcription Harness
+ *
+ * Feeds recorded WAV files through the mic pitch-detection pipeline
+ * (YIN + NoteTracker, same presets as the app) and compares the notes it hears
+ * with the exercise that was played:
+ * - onset precision / recall (any pitch)
+ * - note precision / recall (onset and pitch)
+ * - mean onset error, and the exercise score the app would give
+ *
+ * Usage:
+ *   npm run transcribe:wav -- <recording.wav> <exercise.json> [options]
+ *   npm run transcribe:wav -- <fixtures-dir> [options]
+ *
+ * In a fixtures directory every `name.wav` needs a `name.json` sidecar:
+ *   { "exercise": "content/exercises/lesson-01/exercise-01-find-middle-c.json", "startMs": 1500 }
+ *
+ * Options:
+ *   --start-ms <n>         Audio position of beat 0 (default 0, or the sidecar's startMs)
+ *   --compensation-ms <n>  Subtracted from detected onsets (default: the app's mic
+ *                          latency compensation, 100)
+ *   --calibrate-ms <n>     Calibrate thresholds on this much leading ambient audio
+ *   --tolerance-ms <n>     Onset match tolerance (default 100)
+ *   --tuning-cents <n>     Piano's offset from A=440, as saved by the tuning check
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// The detectors log through src/utils/logger, which expects React Native's __DEV__
+(global as unknown as { __DEV__: boolean }).__DEV__ = process.env.VERBOSE === '1';
+
+interface Fixture {
+  wavPath: string;
+  exercisePath: string;
+  startMs?: number;
+}
+
+function parseArgs(argv: string[]): { positional: string[]; options: Record<string, number> } {
+  const positional: string[] = [];
+  const options: Record<string, number> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = Number(argv[++i]);
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  return { positional, options };
+}
+
+function findFixtures(positional: string[]): Fixture[] {
+  const [target, exercisePath] = positional;
+  if (!target) {
+    console.error('Usage: transcribe-wav <recording.wav> <exercise.json> | <fixtures-dir> [options]');
+    process.exit(1);
+  }
+
+  if (fs.statSync(target).isDirectory()) {
+    return fs
+      .readdirSync(target)
+      .filter((file) => file.endsWith('.wav'))
+      .sort()
+      .map((file) => {
+        const wavPath = path.join(target, file);
+        const sidecar = JSON.parse(fs.readFileSync(wavPath.replace(/\.wav$/, '.json'), 'utf-8'));
+        return { wavPath, exercisePath: sidecar.exercise, startMs: sidecar.startMs };
+      });
+  }
+
+  if (!exercisePath) {
+    console.error('A single recording needs an exercise JSON path');
+    process.exit(1);
+  }
+  return [{ wavPath: target, exercisePath }];
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main(): Promise<void> {
+  const { decodeWav } = await import('../src/input/WavDecoder');
+  const { evaluateTranscription, transcribeAudio } = await import('../src/input/OfflineTranscription');
+  const { INPUT_LATENCY_COMPENSATION_MS } = await import('../src/input/LatencyCalibration');
+
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const fixtures = findFixtures(positional);
+  const totals = { expected: 0, detected: 0, onsets: 0, notes: 0 };
+
+  for (const fixture of fixtures) {
+    const audio = decodeWav(new Uint8Array(fs.readFileSync(fixture.wavPath)));
+    if ('error' in audio) {
+      console.error(`✗ ${fixture.wavPath}: ${audio.error}`);
+      continue;
+    }
+    const exercise = JSON.parse(fs.readFileSync(fixture.exercisePath, 'utf-8'));
+
+    const { events, calibration } = await transcribeAudio(audio, {
+      calibrationMs: options['calibrate-ms'],
+      pitch: { tuningOffsetCents: options['tuning-cents'] ?? 0 },
+    });
+    const report = evaluateTranscription(exercise, events, {
+      startMs: options['start-ms'] ?? fixture.startMs,
+      latencyCompensationMs: options['compensation-ms'] ?? INPUT_LATENCY_COMPENSATION_MS.mic,
+      onsetToleranceMs: options['tolerance-ms'],
+    });
+
+    totals.expected += report.expected;
+    totals.detected += report.detected;
+    totals.onsets += report.onset.matched;
+    totals.notes += report.note.matched;
+
+    console.log(`\n${path.basename(fixture.wavPath)} → ${exercise.id}`);
+    if (calibration) {
+      console.log(
+        `  calibration: ambient RMS ${calibration.ambientRMS.toFixed(4)}, ` +
+        `YIN threshold ${calibration.yinThreshold.toFixed(2)}, confidence ${calibration.yinConfidence.toFixed(2)}`
+      );
+    }
+    console.log(`  expected ${report.expected}, detected ${report.detected}`);
+    console.log(`  onset: precision ${pct(report.onset.precision)}, recall ${pct(report.onset.recall)}`);
+    console.log(`  note:  precision ${pct(report.note.precision)}, recall ${pct(report.note.recall)}`);
+    if (report.meanOnsetErrorMs !== null) {
+      console.log(`  mean onset error: ${report.meanOnsetErrorMs.toFixed(1)}ms`);
+    }
+    console.log(`  score: ${report.score.overall} (${report.score.isPassed ? 'passed' : 'failed'})`);
+  }
+
+  if (fixtures.length > 1 && totals.expected > 0) {
+    const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole);
+    console.log(`\nAll ${fixtures.length} recordings`);
+    console.log(`  onset: precision ${pct(ratio(totals.onsets, totals.detected))}, recall ${pct(ratio(totals.onsets, totals.expected))}`);
+    console.log(`  note:  precision ${pct(ratio(totals.notes, totals.detected))}, recall ${pct(ratio(totals.notes, totals.expected))}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -19,7 +19,11 @@ import { useAuthStore } from './stores/authStore';
 import { useAchievementStore } from './stores/achievementStore';
 import { useLearnerProfileStore } from './stores/learnerProfileStore';
 import { levelFromXp } from './core/progression/XpSystem';
-import type { PlaybackSpeed, PreferredInputMethod, MicDetectionMode } from './stores/types';
+import type { PlaybackSpeed, PreferredInputMethod, MicDetectionMode, WaitModeRecord } from './stores/types';
+import type { LoopRecord } from './core/exercises/loopPractice';
+import type { ReviewSchedule } from './core/curriculum/SpacedRepetition';
+import type { LatencyOffsets } from './input/LatencyCalibration';
+import type { InstrumentRole } from './audio/types';
 import { syncManager } from './services/firebase/syncService';
 import { migrateLocalToCloud } from './services/firebase/dataMigration';
 import { hydrateGemStore } from './stores/gemStore';
@@ -27,11 +31,13 @@ import { hydrateCatEvolutionStore } from './stores/catEvolutionStore';
 import { hydrateSongStore } from './stores/songStore';
 import { hydrateSocialStore, useSocialStore } from './stores/socialStore';
 import { hydrateLeagueStore, useLeagueStore } from './stores/leagueStore';
+import { hydrateClassroomStore } from './stores/classroomStore';
 import { getCurrentLeagueMembership, assignToLeague } from './services/firebase/leagueService';
 // Import DeviceLog early so it hooks into logger before any subsystem logs
 import './utils/DeviceLog';
 import { registerFriendCode } from './services/firebase/socialService';
 import { useSoundManagerSync } from './hooks/useSoundManager';
+import { registerBundledSoundfonts } from './audio/instruments/bundledSoundfonts';
 import { logger } from './utils/logger';
 import { withTimeout } from './utils/withTimeout';
 import { AnalyticsService, analyticsEvents } from './services/analytics/PostHog';
@@ -84,10 +90,11 @@ export default function App(): React.ReactElement {
             lastMidiDeviceId, lastMidiDeviceName, autoConnectMidi,
             username, micPermissionGranted, reminderTime,
             // Phase 8-11 fields (must be hydrated or they revert to defaults on restart)
-            equippedAccessories, ownedAccessories, playbackSpeed,
+            equippedAccessories, ownedAccessories, playbackSpeed, waitMode,
             uiSoundEnabled, uiSoundVolume, preferredInputMethod, micDetectionMode,
             showPianoRoll, showStaffNotation, audioBufferSize,
-            reminderEnabled, completionNotifications,
+            reminderEnabled, completionNotifications, inputLatencyOffsets, micTuningOffsetCents,
+            instruments,
           } = savedSettings as Record<string, unknown>;
           useSettingsStore.setState({
             ...(hasCompletedOnboarding != null ? { hasCompletedOnboarding: hasCompletedOnboarding as boolean } : {}),
@@ -117,6 +124,7 @@ export default function App(): React.ReactElement {
             ...(equippedAccessories != null ? { equippedAccessories: equippedAccessories as Record<string, string> } : {}),
             ...(ownedAccessories != null ? { ownedAccessories: ownedAccessories as string[] } : {}),
             ...(playbackSpeed != null ? { playbackSpeed: playbackSpeed as PlaybackSpeed } : {}),
+            ...(waitMode != null ? { waitMode: waitMode as boolean } : {}),
             ...(uiSoundEnabled != null ? { uiSoundEnabled: uiSoundEnabled as boolean } : {}),
             ...(uiSoundVolume != null ? { uiSoundVolume: uiSoundVolume as number } : {}),
             ...(preferredInputMethod ? { preferredInputMethod: preferredInputMethod as PreferredInputMethod } : {}),
@@ -126,6 +134,9 @@ export default function App(): React.ReactElement {
             ...(audioBufferSize != null ? { audioBufferSize: audioBufferSize as number } : {}),
             ...(reminderEnabled != null ? { reminderEnabled: reminderEnabled as boolean } : {}),
             ...(completionNotifications != null ? { completionNotifications: completionNotifications as boolean } : {}),
+            ...(inputLatencyOffsets != null ? { inputLatencyOffsets: inputLatencyOffsets as LatencyOffsets } : {}),
+            ...(micTuningOffsetCents != null ? { micTuningOffsetCents: micTuningOffsetCents as number } : {}),
+            ...(instruments != null ? { instruments: { ...useSettingsStore.getState().instruments, ...(instruments as Record<InstrumentRole, string>) } } : {}),
           });
           logger.log('[App] Settings state hydrated from storage (onboarding:', hasCompletedOnboarding, ')');
         }
@@ -137,7 +148,7 @@ export default function App(): React.ReactElement {
         );
 
         if (savedProgress) {
-          const { totalXp, streakData, lessonProgress, dailyGoalData, tierTestResults, streakMilestonesClaimed } =
+          const { totalXp, streakData, lessonProgress, dailyGoalData, tierTestResults, waitModeResults, streakMilestonesClaimed } =
             savedProgress as Record<string, unknown>;
           const xp = (totalXp as number) ?? 0;
           useProgressStore.setState({
@@ -147,6 +158,7 @@ export default function App(): React.ReactElement {
             ...(lessonProgress ? { lessonProgress: lessonProgress as any } : {}),
             ...(dailyGoalData ? { dailyGoalData: dailyGoalData as any } : {}),
             ...(tierTestResults ? { tierTestResults: tierTestResults as any } : {}),
+            ...(waitModeResults ? { waitModeResults: waitModeResults as Record<string, WaitModeRecord> } : {}),
             ...(streakMilestonesClaimed ? { streakMilestonesClaimed: streakMilestonesClaimed as any } : {}),
           });
           logger.log('[App] Progress state hydrated from storage (level', levelFromXp(xp), ')');
@@ -173,6 +185,8 @@ export default function App(): React.ReactElement {
             ...(ld.masteredSkills ? { masteredSkills: ld.masteredSkills as string[] } : {}),
             ...(ld.skillMasteryData ? { skillMasteryData: ld.skillMasteryData as any } : {}),
             ...(ld.recentExerciseIds ? { recentExerciseIds: ld.recentExerciseIds as string[] } : {}),
+            ...(ld.loopHistory ? { loopHistory: ld.loopHistory as Record<string, LoopRecord> } : {}),
+            ...(ld.reviewSchedule ? { reviewSchedule: ld.reviewSchedule as ReviewSchedule } : {}),
           });
           const masteredCount = (ld.masteredSkills as string[] | undefined)?.length ?? 0;
           const noteCount = Object.keys(ld.noteAccuracy ?? {}).length;
@@ -187,6 +201,7 @@ export default function App(): React.ReactElement {
           hydrateSongStore().then(() => logger.log('[App] Song store hydrated')).catch((e) => logger.warn('[App] Song store hydration failed:', e)),
           hydrateSocialStore().then(() => logger.log('[App] Social store hydrated')).catch((e) => logger.warn('[App] Social store hydration failed:', e)),
           hydrateLeagueStore().then(() => logger.log('[App] League store hydrated')).catch((e) => logger.warn('[App] League store hydration failed:', e)),
+          hydrateClassroomStore().then(() => logger.log('[App] Classroom store hydrated')).catch((e) => logger.warn('[App] Classroom store hydration failed:', e)),
         ]);
 
         // ── Phase 2: Firebase Auth (network, may be slow) ──────────────
@@ -218,6 +233,11 @@ export default function App(): React.ReactElement {
         setAppIsReady(true);
       }
 
+      // Soundfonts load in the background; the built-in instruments play until they're in
+      registerBundledSoundfonts()
+        .then((ids) => logger.log(`[App] Bundled soundfonts registered: ${ids.join(', ')}`))
+        .catch((e) => logger.warn('[App] Bundled soundfonts failed to load:', e));
+
       // ── Phase 3: Cloud sync (background, non-blocking) ──────────────
       // Runs AFTER setAppIsReady so it doesn't delay the splash screen.
       try {
@@ -260,7 +280,6 @@ export default function App(): React.ReactElement {
                   user.uid,
                   user.displayName ?? 'Player',
                   catId,
-                  'bronze',
                 );
               }
               useLeagueStore.getState().setMembership(membership);
@@ -408,6 +408,11 @@ jest.mock('../../services/demoPlayback', () => ({
   })),
 }));
 
+// Mock MIDI export (expo-sharing / expo-file-system are native modules)
+jest.mock('../../services/midiExport', () => ({
+  shareMidiFile: jest.fn().mockResolvedValue(true),
+}));
+
 // Test exercise - simple C major scale
 const TEST_EXERCISE: Exercise = {
   id: 'test-exercise-1',
@@ -0,0 +1,152 @@
+/**
+ * App output log — what the app itself is playing through the speaker
+ *
+ * The mic hears the phone speaker as well as the piano: demo notes, the
+ * auto-played other hand, touch-keyboard notes and metronome clicks all come
+ * back as detections. Every engine created by createAudioEngine records its
+ * notes and clicks here so mic input can tell them apart from the learner.
+ *
+ * A note the learner's part expects at that moment is never treated as echo,
+ * so playing along in unison or octaves with the app (the other hand, a duet
+ * partner) still counts.
+ *
+ * Times are Date.now() ms, the same clock the pitch detectors stamp results with.
+ */
+
+import type { IAudioEngine } from './types';
+
+/** Whether the learner's part has `note` around `timeMs` */
+export type LearnerExpectation = (note: number, timeMs: number) => boolean;
+
+export interface OutputEntry {
+  /** null for metronome clicks, which have no pitch the mic could mistake */
+  note: number | null;
+  startMs: number;
+  /** null while the note is still held */
+  endMs: number | null;
+}
+
+/** Release tail + room reverb + detection delay after a note stops sounding */
+export const ECHO_TAIL_MS = 300;
+/** Metronome clicks are short sine bursts */
+const CLICK_MS = 60;
+/** Held notes have decayed below the mic's gate by this point */
+const MAX_SOUNDING_MS = 4000;
+
+export class AppOutputLog {
+  private entries: OutputEntry[] = [];
+  private expectation: LearnerExpectation | null = null;
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  noteOn(note: number): void {
+    const now = this.clock();
+    this.prune(now);
+    this.entries.push({ note, startMs: now, endMs: null });
+  }
+
+  noteOff(note: number): void {
+    const now = this.clock();
+    for (const entry of this.entries) {
+      if (entry.note === note && entry.endMs === null) entry.endMs = now;
+    }
+  }
+
+  allNotesOff(): void {
+    const now = this.clock();
+    for (const entry of this.entries) {
+      if (entry.endMs === null) entry.endMs = now;
+    }
+  }
+
+  /** Record a metronome click: it raises the noise floor but matches no note */
+  click(): void {
+    const now = this.clock();
+    this.prune(now);
+    this.entries.push({ note: null, startMs: now, endMs: now + CLICK_MS });
+  }
+
+  /**
+   * Tell the log which notes the learner is playing, for as long as a run
+   * lasts. Returns a function that removes it.
+   */
+  expectLearnerNotes(expectation: LearnerExpectation): () => void {
+    this.expectation = expectation;
+    return () => {
+      if (this.expectation === expectation) this.expectation = null;
+    };
+  }
+
+  /** Whether the learner's part has `note` around `timeMs` */
+  isExpected(note: number, timeMs: number = this.clock()): boolean {
+    return this.expectation?.(note, timeMs) ?? false;
+  }
+
+  /** Whether the app's output could still be audible at `timeMs` */
+  isSounding(timeMs: number = this.clock()): boolean {
+    return this.entries.some((entry) => this.covers(entry, timeMs));
+  }
+
+  /**
+   * Whether a note detected at `timeMs` is likely the app's own output.
+   * Octaves count: the mic often locks onto the speaker's 2nd harmonic.
+   */
+  isEcho(note: number, timeMs: number = this.clock()): boolean {
+    if (this.isExpected(note, timeMs)) return false;
+    return this.entries.some((entry) => {
+      if (entry.note === null) return false;
+      const interval = Math.abs(entry.note - note);
+      return (interval === 0 || interval === 12) && this.covers(entry, timeMs);
+    });
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private covers(entry: OutputEntry, timeMs: number): boolean {
+    const endMs = Math.min(entry.endMs ?? Infinity, entry.startMs + MAX_SOUNDING_MS);
+    return timeMs >= entry.startMs && timeMs <= endMs + ECHO_TAIL_MS;
+  }
+
+  private prune(now: number): void {
+    this.entries = this.entries.filter((entry) => this.covers(entry, now));
+  }
+}
+
+export const appOutputLog = new AppOutputLog();
+
+/**
+ * Record everything `engine` plays in `log`. Patches the instance in place so
+ * engine-specific methods and `instanceof` keep working.
+ */
+export function recordAppOutput<T extends IAudioEngine>(engine: T, log: AppOutputLog = appOutputLog): T {
+  const playNote = engine.playNote.bind(engine);
+  const releaseNote = engine.releaseNote.bind(engine);
+  const releaseAllNotes = engine.releaseAllNotes.bind(engine);
+  const playMetronomeClick = engine.playMetronomeClick.bind(engine);
+
+  engine.playNote = (note, velocity, role) => {
+    const handle = playNote(note, velocity, role);
+    log.noteOn(note);
+    const release = handle.release;
+    handle.release = () => {
+      release();
+      log.noteOff(note);
+    };
+    return handle;
+  };
+  engine.releaseNote = (handle) => {
+    releaseNote(handle);
+    log.noteOff(handle.note);
+  };
+  engine.releaseAllNotes = () => {
+    releaseAllNotes();
+    log.allNotesOff();
+  };
+  engine.playMetronomeClick = (frequency, volume) => {
+    playMetronomeClick(frequency, volume);
+    log.click();
+  };
+  return engine;
+}
@@ -3,13 +3,24 @@
  * Simulates audio playback without requiring native modules
  */
 
-import type { IAudioEngine, NoteHandle, AudioContextState } from './types';
+import type { IAudioEngine, NoteHandle, AudioContextState, InstrumentRole } from './types';
+import { DEFAULT_INSTRUMENTS, instrumentRegistry } from './instruments/InstrumentRegistry';
 import { logger } from '../utils/logger';
 
+/** A note the mock engine was asked to play, with the instrument it would have used */
+export interface MockPlayedNote {
+  note: number;
+  velocity: number;
+  role: InstrumentRole;
+  instrument: string;
+}
+
 export class MockAudioEngine implements IAudioEngine {
   private initialized = false;
   private volume = 0.8;
   private activeNotes = new Map<number, number>();
+  private instruments: Record<InstrumentRole, string> = { ...DEFAULT_INSTRUMENTS };
+  private playedNotes: MockPlayedNote[] = [];
 
   async initialize(): Promise<void> {
     logger.log('[MockAudioEngine] Initializing...');
@@ -28,13 +39,16 @@ export class MockAudioEngine implements IAudioEngine {
     logger.log('[MockAudioEngine] Disposed');
     this.initialized = false;
     this.activeNotes.clear();
+    this.playedNotes = [];
   }
 
-  playNote(note: number, velocity: number = 0.8): NoteHandle {
-    logger.log(`[MockAudioEngine] Playing note ${note} with velocity ${velocity}`);
+  playNote(note: number, velocity: number = 0.8, role: InstrumentRole = 'user'): NoteHandle {
+    const instrument = this.instruments[role];
+    logger.log(`[MockAudioEngine] Playing note ${note} with velocity ${velocity} on ${instrument} (${role})`);
 
     const startTime = Date.now();
     this.activeNotes.set(note, startTime);
+    this.playedNotes.push({ note, velocity, role, instrument });
 
     return {
       note,
@@ -57,6 +71,27 @@ export class MockAudioEngine implements IAudioEngine {
     this.activeNotes.clear();
   }
 
+  setInstrument(role: InstrumentRole, instrumentId: string): void {
+    if (!instrumentRegistry.has(instrumentId)) {
+      logger.warn(`[MockAudioEngine] Unknown instrument "${instrumentId}" for ${role}`);
+      return;
+    }
+    this.instruments[role] = instrumentId;
+  }
+
+  getInstrument(role: InstrumentRole): string {
+    return this.instruments[role];
+  }
+
+  /** Every note played since creation or the last clearPlayedNotes() */
+  getPlayedNotes(): readonly MockPlayedNote[] {
+    return this.playedNotes;
+  }
+
+  clearPlayedNotes(): void {
+    this.playedNotes = [];
+  }
+
   setVolume(volume: number): void {
     this.volume = Math.max(0, Math.min(1, volume));
     logger.log(`[MockAudioEngine] Volume set to ${this.volume}`);
@@ -17,7 +17,8 @@
  * All ramping uses exponential (NOT linear) for smooth, natural envelopes
  */
 
-import type { IAudioEngine, NoteHandle, AudioContextState, NoteState, ADSRConfig } from './types';
+import type { IAudioEngine, NoteHandle, AudioContextState, NoteState, ADSRConfig, InstrumentRole } from './types';
+import { DEFAULT_INSTRUMENTS, instrumentRegistry } from './instruments/InstrumentRegistry';
 import { logger } from '../utils/logger';
 import { SampleLoader } from './samples/SampleLoader';
 
@@ -45,6 +46,7 @@ export class NativeAudioEngine implements IAudioEngine {
   private activeNotes: Map<number, NoteState> = new Map();
   private masterGain: GainNode | null = null;
   private volume: number = DEFAULT_VOLUME;
+  private instruments: Record<InstrumentRole, string> = { ...DEFAULT_INSTRUMENTS };
 
   constructor() {
     // Pre-allocation happens during initialize()
@@ -333,6 +335,22 @@ export class NativeAudioEngine implements IAudioEngine {
     this.activeNotes.clear();
   }
 
+  /**
+   * Record the instrument for a role. This engine only has the piano
+   * samples from SampleLoader, so every role still plays the piano.
+   */
+  setInstrument(role: InstrumentRole, instrumentId: string): void {
+    if (!instrumentRegistry.has(instrumentId)) {
+      logger.warn(`Unknown instrument "${instrumentId}" for ${role}`);
+      return;
+    }
+    this.instruments[role] = instrumentId;
+  }
+
+  getInstrument(role: InstrumentRole): string {
+    return this.instruments[role];
+  }
+
   /**
    * Set master volume (0.0 to 1.0)
    */
@@ -12,27 +12,44 @@
  * Maximum pitch shift is ±6 semitones, which preserves natural timbre.
  *
  * Falls back to procedural WAV synthesis if sample loading fails.
+ *
+ * Other instruments (per role, from the instrument registry) play their
+ * sample zones, or their synth patch rendered once to a cached WAV. Their
+ * sounds are created per note, so they have the higher latency of
+ * non-pooled notes; the pools stay dedicated to the piano.
  */
 
 import { Audio, AVPlaybackSource } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
-import type { IAudioEngine, NoteHandle, AudioContextState } from './types';
+import type { IAudioEngine, NoteHandle, AudioContextState, InstrumentRole } from './types';
+import {
+  DEFAULT_INSTRUMENT,
+  DEFAULT_INSTRUMENTS,
+  PIANO_INSTRUMENT,
+  instrumentRegistry,
+  selectZone,
+  zoneGain,
+  zonePlaybackRate,
+} from './instruments/InstrumentRegistry';
+import { renderPatch } from './instruments/SynthRenderer';
+import { encodeWav } from './instruments/WavEncoder';
+import type { SampleZone } from './instruments/types';
 import { logger } from '../utils/logger';
 
 const VOICES_PER_NOTE = 3; // Round-robin voices per note (3 prevents clicks from rapid re-triggers)
 
 /**
- * Real piano sample sources — statically required for Metro bundling.
+ * Real piano sample sources — the built-in piano's zones, statically required
+ * for Metro bundling in the instrument registry.
  * FluidR3 GM Acoustic Grand Piano, 44.1kHz stereo MP3, ~25KB each.
  * Octave-spaced: each note covers ±6 semitones via pitch shifting.
  */
-const SAMPLE_SOURCES: { midiNote: number; source: AVPlaybackSource }[] = [
-  { midiNote: 36, source: require('../../assets/samples/piano-c2.mp3') },
-  { midiNote: 48, source: require('../../assets/samples/piano-c3.mp3') },
-  { midiNote: 60, source: require('../../assets/samples/piano-c4.mp3') },
-  { midiNote: 72, source: require('../../assets/samples/piano-c5.mp3') },
-  { midiNote: 84, source: require('../../assets/samples/piano-c6.mp3') },
-];
+const SAMPLE_SOURCES: { midiNote: number; source: AVPlaybackSource }[] = (PIANO_INSTRUMENT.zones ?? [])
+  .filter((zone) => zone.source !== undefined)
+  .map((zone) => ({ midiNote: zone.rootNote, source: zone.source as AVPlaybackSource }));
+
+/** Length of a synth patch rendered for playback; held notes fade out at the end */
+const RENDERED_PATCH_SECONDS = 6;
 
 /**
  * Find the nearest sample source for a given MIDI note.
@@ -210,6 +227,9 @@ export class ExpoAudioEngine implements IAudioEngine {
   private activeVoices: Map<number, Audio.Sound> = new Map();
   /** Pre-loaded metronome click sound (base frequency, pitch-shifted via rate) */
   private metronomeSound: Audio.Sound | null = null;
+  private instruments: Record<InstrumentRole, string> = { ...DEFAULT_INSTRUMENTS };
+  /** Playable zones of non-piano instruments, once prepared */
+  private instrumentZones: Map<string, SampleZone[]> = new Map();
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
@@ -455,6 +475,7 @@ export class ExpoAudioEngine implements IAudioEngine {
     this.voicePools.clear();
     this.activeNotes.clear();
     this.activeVoices.clear();
+    this.instrumentZones.clear();
     this.fallbackSource = null;
     this.useRealSamples = false;
     if (this.metronomeSound) {
@@ -473,7 +494,7 @@ export class ExpoAudioEngine implements IAudioEngine {
    * Round-robin ensures rapid re-triggers of the same note always have
    * a fresh voice available (voice 0 may still be fading while voice 1 plays).
    */
-  playNote(note: number, velocity: number = 0.8): NoteHandle {
+  playNote(note: number, velocity: number = 0.8, role: InstrumentRole = 'user'): NoteHandle {
     if (!this.initialized) {
       logger.warn(`[ExpoAudioEngine] playNote(${note}) skipped: not initialized, pools=${this.voicePools.size}`);
       return {
@@ -491,8 +512,19 @@ export class ExpoAudioEngine implements IAudioEngine {
     const polyphonyScale = Math.min(1.0, 1.0 / Math.sqrt(activeCount));
     const vol = clampedVelocity * this.volume * polyphonyScale;
 
+    // Other instruments play their own zones; until they're prepared, the piano stands in.
+    // The voice pools hold the piano's full-velocity recordings, so a layered
+    // piano plays only its softer layers from their own files.
+    const instrumentId = this.instruments[role];
+    const zones = this.instrumentZones.get(instrumentId);
+    const zone = zones && selectZone(zones, note, clampedVelocity);
+    const pooled = instrumentId === DEFAULT_INSTRUMENT && (!zone || zone.hiVel >= 127);
     const pool = this.voicePools.get(note);
-    if (pool) {
+    if (!pooled && zone?.source !== undefined) {
+      const clampedRate = Math.max(0.25, Math.min(4.0, zonePlaybackRate(zone, note)));
+      const zoneVelocity = Math.min(1.0, clampedVelocity * zoneGain(zone));
+      this.createAndPlaySound(note, clampedRate, zoneVelocity, zone.source);
+    } else if (pool) {
       // Round-robin: pick the next voice and advance the index
       const voice = pool.sounds[pool.nextVoice];
       pool.nextVoice = (pool.nextVoice + 1) % pool.sounds.length;
@@ -617,6 +649,66 @@ export class ExpoAudioEngine implements IAudioEngine {
     this.activeVoices.clear();
   }
 
+  /**
+   * Assign an instrument to a role. The piano plays from the voice pools
+   * (its softer velocity layers, once registered, from their files); other
+   * instruments are prepared in the background and take over once ready.
+   * Ids missing from the registry are ignored.
+   */
+  setInstrument(role: InstrumentRole, instrumentId: string): void {
+    if (!instrumentRegistry.has(instrumentId)) {
+      logger.warn(`[ExpoAudioEngine] Unknown instrument "${instrumentId}" for ${role}`);
+      return;
+    }
+    this.instruments[role] = instrumentId;
+    this.prepareInstrument(instrumentId).catch((error) => {
+      logger.warn(`[ExpoAudioEngine] Failed to prepare ${instrumentId}:`, error);
+    });
+  }
+
+  getInstrument(role: InstrumentRole): string {
+    return this.instruments[role];
+  }
+
+  /**
+   * Zones with playable files are used as they are. An instrument without
+   * them has its synth patch rendered at middle C and written to the cache,
+   * then pitch-shifted like the fallback piano.
+   */
+  private async prepareInstrument(instrumentId: string): Promise<void> {
+    const instrument = instrumentRegistry.get(instrumentId);
+    if (!instrument) return;
+
+    const playable = (instrument.zones ?? []).filter((zone) => zone.source !== undefined);
+    if (playable.length > 0) {
+      this.instrumentZones.set(instrumentId, playable);
+      return;
+    }
+
+    const start = Date.now();
+    const cacheDir = FileSystem.cacheDirectory;
+    if (!cacheDir) throw new Error('FileSystem.cacheDirectory is null');
+
+    const samples = renderPatch(instrument.synth, FALLBACK_FREQUENCY, RENDERED_PATCH_SECONDS, FALLBACK_SAMPLE_RATE);
+    const wav = encodeWav(samples, FALLBACK_SAMPLE_RATE);
+    const fileUri = cacheDir + `instrument-${instrumentId}.wav`;
+    await FileSystem.writeAsStringAsync(fileUri, arrayBufferToBase64(wav.buffer as ArrayBuffer), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    this.instrumentZones.set(instrumentId, [{
+      source: { uri: fileUri },
+      rootNote: FALLBACK_BASE_NOTE,
+      loKey: 0,
+      hiKey: 127,
+      loVel: 0,
+      hiVel: 127,
+      tuneCents: 0,
+      gainDb: 0,
+    }]);
+    logger.log(`[ExpoAudioEngine] Rendered ${instrumentId} patch (${Date.now() - start}ms)`);
+  }
+
   setVolume(volume: number): void {
     this.volume = Math.max(0, Math.min(1, volume));
     // Propagate to all pre-loaded voice pools so future replayAsync() calls
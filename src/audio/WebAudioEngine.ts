@@ -2,8 +2,10 @@
  * Web Audio Engine Implementation
  * Uses react-native-audio-api for low-latency oscillator-based synthesis via JSI
  *
- * Strategy: Fundamental + 1 harmonic (2 oscillators) with sustain-while-held
- * - Sine fundamental + one harmonic at half amplitude = warm piano tone
+ * Strategy: each role (user, accompaniment, demo) plays its own instrument
+ * from the instrument registry, as a synth patch or from PCM sample zones.
+ * The default piano patch is fundamental + 1 harmonic with sustain-while-held:
+ * - Sine fundamental + one harmonic at quarter amplitude = warm piano tone
  * - ADSR: quick decay to 20% sustain — notes stay audible while key is held
  * - On key release: 150ms fade-out to silence
  * - 4 audio nodes per keypress: 2 oscillators + 1 harmonic gain + 1 envelope
@@ -17,29 +19,30 @@
 
 import {
   AudioContext as RNAudioContext,
+  AudioBuffer as RNAudioBuffer,
+  AudioBufferSourceNode as RNAudioBufferSourceNode,
   OscillatorNode as RNOscillatorNode,
   GainNode as RNGainNode,
 } from 'react-native-audio-api';
-import type { IAudioEngine, NoteHandle, AudioContextState } from './types';
+import type { IAudioEngine, NoteHandle, AudioContextState, InstrumentRole } from './types';
+import {
+  DEFAULT_INSTRUMENTS,
+  instrumentRegistry,
+  selectZone,
+  zoneGain,
+  zonePlaybackRate,
+} from './instruments/InstrumentRegistry';
+import type { InstrumentDefinition, PcmData, SampleZone, SynthPatch } from './instruments/types';
 import { logger } from '../utils/logger';
 
 const DEFAULT_VOLUME = 0.5;
 const MAX_POLYPHONY = 10;
 const MIN_NOTE_DURATION = 0.05; // 50ms minimum before release
-const MAX_NOTE_DURATION = 30.0; // Safety net — oscillators auto-stop after 30s if release never fires
+const MAX_NOTE_DURATION = 30.0; // Safety net — sources auto-stop after 30s if release never fires
 
-/**
- * ADSR envelope — sustain while key is held
- * Sustain at 20% keeps notes clearly audible while pressed.
- * On key release, the release phase fades to silence in 150ms.
- * Hard stop at MAX_NOTE_DURATION is a safety net against stuck notes.
- */
-const ADSR = {
-  attack: 0.003,  // 3ms — near-instant attack for percussive feel
-  decay: 0.6,     // 600ms — quick decay to sustain level (piano-like attack character)
-  sustain: 0.20,  // 20% — clearly audible while key is held
-  release: 0.15,  // 150ms — smooth release to avoid clicks
-};
+/** Sample zones fade in over 3ms and out over 150ms, like the piano patch */
+const SAMPLE_ATTACK = 0.003;
+const SAMPLE_RELEASE = 0.15;
 
 /**
  * Convert MIDI note number to frequency in Hz
@@ -49,13 +52,22 @@ function midiToFrequency(midiNote: number): number {
   return 440 * Math.pow(2, (midiNote - 69) / 12);
 }
 
+type SourceNode = RNOscillatorNode | RNAudioBufferSourceNode;
+
+/** Nodes started for one note, and how long its release takes (seconds) */
+interface Voice {
+  sources: SourceNode[];
+  harmonicGains: RNGainNode[];
+  release: number;
+}
+
 /**
  * State for a single active note
- * Tracks all oscillators and the shared gain envelope for cleanup
+ * Tracks all sources and the shared gain envelope for cleanup
  */
 interface ActiveNote {
   note: number;
-  oscillators: RNOscillatorNode[];
+  sources: SourceNode[];
   harmonicGains: RNGainNode[];
   envelope: RNGainNode;
   startTime: number;
@@ -64,7 +76,7 @@ interface ActiveNote {
 
 /**
  * WebAudioEngine — Oscillator-based synthesized piano via react-native-audio-api
- * Implements IAudioEngine using JSI-backed Web Audio API nodes (no samples needed)
+ * Implements IAudioEngine using JSI-backed Web Audio API nodes (samples optional)
  */
 export class WebAudioEngine implements IAudioEngine {
   private context: RNAudioContext | null = null;
@@ -75,6 +87,9 @@ export class WebAudioEngine implements IAudioEngine {
   private activeNotes: Map<number, ActiveNote> = new Map();
   /** Track oldest active note for O(1) polyphony eviction */
   private oldestNoteKey: number = -1;
+  private instruments: Record<InstrumentRole, string> = { ...DEFAULT_INSTRUMENTS };
+  /** AudioBuffers built from instruments' PCM zones */
+  private pcmBuffers: Map<PcmData, RNAudioBuffer> = new Map();
 
   /**
    * Initialize the AudioContext and master gain chain.
@@ -121,6 +136,11 @@ export class WebAudioEngine implements IAudioEngine {
       // Pre-warm the audio pipeline to avoid cold-start latency on first real note
       this.warmUpAudio();
 
+      // Buffer samples for instruments assigned before the context existed
+      for (const id of new Set(Object.values(this.instruments))) {
+        this.prepareInstrument(id);
+      }
+
       logger.log('[WebAudioEngine] Initialized successfully (react-native-audio-api, 3-harmonic oscillator synthesis)');
     } catch (error) {
       console.error('[WebAudioEngine] Initialization failed:', error);
@@ -214,24 +234,26 @@ export class WebAudioEngine implements IAudioEngine {
     this.masterGain = null;
     this.limiterGain = null;
     this.activeNotes.clear();
+    this.pcmBuffers.clear();
     this.oldestNoteKey = -1;
     logger.log('[WebAudioEngine] Disposed');
   }
 
   /**
-   * Play a note using additive oscillator synthesis
+   * Play a note on the instrument assigned to `role`.
    *
-   * Creates a bank of 3 oscillators (fundamental + 2 harmonics) connected
-   * through individual gain nodes to a shared ADSR envelope, then into master gain.
+   * Instruments with PCM sample zones play the zone's buffer, pitch-shifted
+   * by playback rate. Everything else — including the piano until its bundled
+   * soundfont has loaded — plays its synth patch: one oscillator per harmonic
+   * into a shared ADSR envelope.
    *
-   * Signal chain per note (7 nodes total):
-   *   OscillatorNode(f0)  → GainNode(1.0/3) ─┐
-   *   OscillatorNode(2f0) → GainNode(0.5/3) ─┼─▶ GainNode (ADSR) ─▶ masterGain ─▶ destination
-   *   OscillatorNode(3f0) → GainNode(0.2/3) ─┘
+   * Signal chain per note (piano patch, 4 nodes):
+   *   OscillatorNode(f0)  ─────────────────┐
+   *   OscillatorNode(2f0) → GainNode(0.25) ─┴─▶ GainNode (ADSR) ─▶ masterGain ─▶ destination
    *
    * Returns a NoteHandle for later release
    */
-  playNote(note: number, velocity: number = 0.8): NoteHandle {
+  playNote(note: number, velocity: number = 0.8, role: InstrumentRole = 'user'): NoteHandle {
     if (!this.context || !this.masterGain) {
       logger.warn(`[WebAudioEngine] playNote(${note}) skipped: not initialized`);
       return {
@@ -249,7 +271,6 @@ export class WebAudioEngine implements IAudioEngine {
 
     const normalizedVelocity = Math.max(0.0, Math.min(1.0, velocity));
     const now = this.context.currentTime;
-    const fundamentalFreq = midiToFrequency(note);
 
     // Enforce polyphony limit — evict oldest note if at capacity
     // Uses tracked oldestNoteKey for O(1) lookup instead of O(n) scan
@@ -277,68 +298,27 @@ export class WebAudioEngine implements IAudioEngine {
       this.stopNote(note);
     }
 
-    // Create ADSR envelope gain node
-    const envelope = this.context.createGain();
-    const attackEnd = now + ADSR.attack;
-
+    // Create envelope gain node → master gain.
     // No per-note polyphony scaling — the limiterGain node handles this globally.
     // This ensures ALL active notes are attenuated equally when polyphony changes,
     // preventing the asymmetric clipping that occurred when only new notes were scaled.
-    const sustainLevel = Math.max(0.001, normalizedVelocity * ADSR.sustain);
-    const decayEnd = attackEnd + ADSR.decay;
-
-    // Attack: near-silent -> peak velocity
-    envelope.gain.setValueAtTime(0.001, now);
-    envelope.gain.linearRampToValueAtTime(normalizedVelocity, attackEnd);
-
-    // Decay: peak -> sustain level (natural piano decay with slight hold)
-    envelope.gain.exponentialRampToValueAtTime(sustainLevel, decayEnd);
-
-    // Fade to silence before hard stop to prevent clicks from abrupt oscillator termination
-    const hardStop = now + MAX_NOTE_DURATION;
-    const fadeOutStart = hardStop - ADSR.release;
-    envelope.gain.setValueAtTime(sustainLevel, fadeOutStart);
-    envelope.gain.exponentialRampToValueAtTime(0.001, hardStop);
-
-    // Connect envelope to master gain
+    const envelope = this.context.createGain();
     envelope.connect(this.masterGain);
+    const hardStop = now + MAX_NOTE_DURATION;
 
-    // Fundamental sine oscillator
-    const osc1 = this.context.createOscillator();
-    osc1.type = 'sine';
-    osc1.frequency.value = fundamentalFreq;
-    osc1.connect(envelope);
-    osc1.start(now);
-    osc1.stop(hardStop);
-
-    const oscillators: RNOscillatorNode[] = [osc1];
-    const harmonicGains: RNGainNode[] = [];
-
-    // Second harmonic (octave) — adds warmth.
-    // Reduced from 0.4 to 0.25 to prevent clipping when multiple notes
-    // play simultaneously (Web Audio sums signals linearly with no limiter).
-    const harmonicFreq = fundamentalFreq * 2;
-    if (harmonicFreq < 22000) {
-      const harmonicGain = this.context.createGain();
-      harmonicGain.gain.value = 0.25;
-      harmonicGain.connect(envelope);
-      harmonicGains.push(harmonicGain);
-
-      const osc2 = this.context.createOscillator();
-      osc2.type = 'sine';
-      osc2.frequency.value = harmonicFreq;
-      osc2.connect(harmonicGain);
-      osc2.start(now);
-      osc2.stop(hardStop);
-      oscillators.push(osc2);
-    }
+    const instrument = instrumentRegistry.resolve(this.instruments[role]);
+    const sample = this.findSampleBuffer(instrument, note, normalizedVelocity);
+    const voice = sample
+      ? this.startSampleVoice(sample.zone, sample.buffer, note, normalizedVelocity, envelope, now, hardStop)
+      : this.startSynthVoice(instrument.synth, note, normalizedVelocity, envelope, now, hardStop);
+    const { sources, harmonicGains, release } = voice;
 
     // Create release callback (idempotent — safe to call multiple times)
     let released = false;
     const releaseCallback = (): void => {
       if (released) return;
       released = true;
-      this.doRelease(note, oscillators, harmonicGains, envelope, now);
+      this.doRelease(note, sources, harmonicGains, envelope, now, release);
     };
 
     // Create NoteHandle
@@ -351,7 +331,7 @@ export class WebAudioEngine implements IAudioEngine {
     // Track active note
     this.activeNotes.set(note, {
       note,
-      oscillators,
+      sources,
       harmonicGains,
       envelope,
       startTime: now,
@@ -368,8 +348,8 @@ export class WebAudioEngine implements IAudioEngine {
     setTimeout(() => {
       const current = this.activeNotes.get(note);
       if (current && current.startTime === now) {
-        for (const osc of current.oscillators) {
-          try { osc.disconnect(); } catch { /* noop */ }
+        for (const source of current.sources) {
+          try { source.disconnect(); } catch { /* noop */ }
         }
         for (const gain of current.harmonicGains) {
           try { gain.disconnect(); } catch { /* noop */ }
@@ -378,28 +358,176 @@ export class WebAudioEngine implements IAudioEngine {
         this.activeNotes.delete(note);
         this.updateOldestNoteKey();
       }
-    }, (MAX_NOTE_DURATION + ADSR.release + 0.1) * 1000);
+    }, (MAX_NOTE_DURATION + release + 0.1) * 1000);
 
     return handle;
   }
 
+  /**
+   * Additive synthesis: one oscillator per harmonic of the patch into the
+   * note's envelope. Harmonics at full level connect directly; the rest go
+   * through their own gain node.
+   */
+  private startSynthVoice(
+    patch: SynthPatch,
+    note: number,
+    velocity: number,
+    envelope: RNGainNode,
+    now: number,
+    hardStop: number
+  ): Voice {
+    const context = this.context!;
+    const { attack, decay, sustain, release } = patch.envelope;
+    const attackEnd = now + attack;
+    const sustainLevel = Math.max(0.001, velocity * sustain);
+    const decayEnd = attackEnd + decay;
+
+    // Attack: near-silent -> peak velocity
+    envelope.gain.setValueAtTime(0.001, now);
+    envelope.gain.linearRampToValueAtTime(Math.max(0.001, velocity), attackEnd);
+
+    // Decay: peak -> sustain level (natural piano decay with slight hold)
+    envelope.gain.exponentialRampToValueAtTime(sustainLevel, decayEnd);
+
+    // Fade to silence before hard stop to prevent clicks from abrupt oscillator termination
+    envelope.gain.setValueAtTime(sustainLevel, hardStop - release);
+    envelope.gain.exponentialRampToValueAtTime(0.001, hardStop);
+
+    const fundamentalFreq = midiToFrequency(note);
+    const sources: RNOscillatorNode[] = [];
+    const harmonicGains: RNGainNode[] = [];
+
+    for (const harmonic of patch.harmonics) {
+      const frequency = fundamentalFreq * harmonic.ratio;
+      if (frequency >= 22000) continue;
+
+      const osc = context.createOscillator();
+      osc.type = harmonic.type ?? 'sine';
+      osc.frequency.value = frequency;
+      if (harmonic.gain === 1) {
+        osc.connect(envelope);
+      } else {
+        const harmonicGain = context.createGain();
+        harmonicGain.gain.value = harmonic.gain;
+        harmonicGain.connect(envelope);
+        harmonicGains.push(harmonicGain);
+        osc.connect(harmonicGain);
+      }
+      osc.start(now);
+      osc.stop(hardStop);
+      sources.push(osc);
+    }
+
+    return { sources, harmonicGains, release };
+  }
+
+  /**
+   * Sample playback: the zone's buffer shifted to `note` by playback rate.
+   * The recording carries its own decay, so the envelope only fades in and
+   * holds; looped zones sustain until release.
+   */
+  private startSampleVoice(
+    zone: SampleZone,
+    buffer: RNAudioBuffer,
+    note: number,
+    velocity: number,
+    envelope: RNGainNode,
+    now: number,
+    hardStop: number
+  ): Voice {
+    const source = this.context!.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = zonePlaybackRate(zone, note);
+    if (zone.pcm?.loopEnd !== undefined && zone.pcm.loopStart !== undefined) {
+      source.loop = true;
+      source.loopStart = zone.pcm.loopStart / buffer.sampleRate;
+      source.loopEnd = zone.pcm.loopEnd / buffer.sampleRate;
+    }
+
+    const peak = Math.max(0.001, velocity * zoneGain(zone));
+    envelope.gain.setValueAtTime(0.001, now);
+    envelope.gain.linearRampToValueAtTime(peak, now + SAMPLE_ATTACK);
+    envelope.gain.setValueAtTime(peak, hardStop - SAMPLE_RELEASE);
+    envelope.gain.exponentialRampToValueAtTime(0.001, hardStop);
+
+    source.connect(envelope);
+    source.start(now);
+    source.stop(hardStop);
+    return { sources: [source], harmonicGains: [], release: SAMPLE_RELEASE };
+  }
+
+  /** The buffer for the zone that should play `note`, if the instrument has decoded samples */
+  private findSampleBuffer(
+    instrument: InstrumentDefinition,
+    note: number,
+    velocity: number
+  ): { zone: SampleZone; buffer: RNAudioBuffer } | null {
+    const zones = instrument.zones?.filter((z) => z.pcm && this.pcmBuffers.has(z.pcm));
+    if (!zones || zones.length === 0) return null;
+    const zone = selectZone(zones, note, velocity);
+    const buffer = zone?.pcm && this.pcmBuffers.get(zone.pcm);
+    return zone && buffer ? { zone, buffer } : null;
+  }
+
+  /**
+   * Build AudioBuffers for an instrument's PCM zones ahead of its first note.
+   * Zones that only have files (e.g. the bundled piano mp3s) are left to
+   * ExpoAudioEngine; this engine plays the synth patch instead.
+   */
+  private prepareInstrument(id: string): void {
+    const context = this.context;
+    const zones = instrumentRegistry.get(id)?.zones;
+    if (!context || !zones) return;
+
+    for (const zone of zones) {
+      const pcm = zone.pcm;
+      if (!pcm || this.pcmBuffers.has(pcm) || pcm.samples.length === 0) continue;
+      try {
+        const buffer = context.createBuffer(1, pcm.samples.length, pcm.sampleRate);
+        buffer.copyToChannel(pcm.samples, 0);
+        this.pcmBuffers.set(pcm, buffer);
+      } catch (error) {
+        logger.warn(`[WebAudioEngine] Failed to buffer a sample of ${id}:`, error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Assign an instrument to a role. Takes effect from the next note;
+   * ids missing from the registry are ignored.
+   */
+  setInstrument(role: InstrumentRole, instrumentId: string): void {
+    if (!instrumentRegistry.has(instrumentId)) {
+      logger.warn(`[WebAudioEngine] Unknown instrument "${instrumentId}" for ${role}`);
+      return;
+    }
+    this.instruments[role] = instrumentId;
+    this.prepareInstrument(instrumentId);
+  }
+
+  getInstrument(role: InstrumentRole): string {
+    return this.instruments[role];
+  }
+
   /**
    * Release envelope and stop oscillators for a note
    * Applies the release phase of the ADSR to avoid clicks
    */
   private doRelease(
     note: number,
-    oscillators: RNOscillatorNode[],
+    sources: SourceNode[],
     harmonicGains: RNGainNode[],
     envelope: RNGainNode,
-    startTime: number
+    startTime: number,
+    release: number
   ): void {
     if (!this.context) return;
 
     const now = this.context.currentTime;
     const minDuration = startTime + MIN_NOTE_DURATION;
     const releaseStart = Math.max(now, minDuration);
-    const releaseEnd = releaseStart + ADSR.release;
+    const releaseEnd = releaseStart + release;
 
     try {
       // Cancel any scheduled envelope changes
@@ -414,8 +542,8 @@ export class WebAudioEngine implements IAudioEngine {
       // Release: fade to near-zero
       envelope.gain.exponentialRampToValueAtTime(0.001, releaseEnd);
 
-      // Stop all oscillators after release completes
-      for (const osc of oscillators) {
+      // Stop all sources after release completes
+      for (const osc of sources) {
         try {
           osc.stop(releaseEnd + 0.01);
         } catch {
@@ -424,8 +552,8 @@ export class WebAudioEngine implements IAudioEngine {
       }
     } catch (error) {
       console.error('[WebAudioEngine] Error during note release:', error);
-      // Force stop oscillators on error
-      for (const osc of oscillators) {
+      // Force stop sources on error
+      for (const osc of sources) {
         try {
           osc.stop();
         } catch {
@@ -437,10 +565,10 @@ export class WebAudioEngine implements IAudioEngine {
     // Disconnect all audio nodes after release + buffer to prevent graph leak.
     // Without this, gain nodes accumulate in the audio graph indefinitely,
     // causing native audio resource exhaustion on long recordings.
-    const disconnectDelayMs = (ADSR.release + 0.1) * 1000;
+    const disconnectDelayMs = (release + 0.1) * 1000;
     setTimeout(() => {
       try {
-        for (const osc of oscillators) {
+        for (const osc of sources) {
           try { osc.disconnect(); } catch { /* already disconnected */ }
         }
         for (const gain of harmonicGains) {
@@ -482,13 +610,13 @@ export class WebAudioEngine implements IAudioEngine {
       } catch { /* envelope may already be disconnected */ }
 
       // Schedule stop after fade
-      for (const osc of active.oscillators) {
+      for (const osc of active.sources) {
         try { osc.stop(fadeEnd + 0.001); } catch { /* Already stopped */ }
       }
 
       // Disconnect nodes after fade completes
       setTimeout(() => {
-        for (const osc of active.oscillators) {
+        for (const osc of active.sources) {
           try { osc.disconnect(); } catch { /* Already disconnected */ }
         }
         for (const gain of active.harmonicGains) {
@@ -498,7 +626,7 @@ export class WebAudioEngine implements IAudioEngine {
       }, 10);
     } else {
       // No context: immediate cleanup
-      for (const osc of active.oscillators) {
+      for (const osc of active.sources) {
         try { osc.stop(); } catch { /* Already stopped */ }
         try { osc.disconnect(); } catch { /* Already disconnected */ }
       }
@@ -570,7 +698,7 @@ export class WebAudioEngine implements IAudioEngine {
 
   /**
    * Release a specific note via its handle.
-   * Always calls handle.release() — the callback captures its own oscillators
+   * Always calls handle.release() — the callback captures its own sources
    * and envelope in closure, so it works even if the activeNotes entry was
    * cleaned up by a race condition (e.g., rapid re-trigger of the same pitch).
    */
@@ -583,7 +711,7 @@ export class WebAudioEngine implements IAudioEngine {
    */
   releaseAllNotes(): void {
     for (const [, active] of this.activeNotes) {
-      for (const osc of active.oscillators) {
+      for (const osc of active.sources) {
         try { osc.stop(); } catch { /* Already stopped */ }
         try { osc.disconnect(); } catch { /* Already disconnected */ }
       }
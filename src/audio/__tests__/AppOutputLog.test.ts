@@ -0,0 +1,115 @@
+/**
+ * Tests for the app output log: echo matching windows and engine recording.
+ */
+
+import { AppOutputLog, ECHO_TAIL_MS, recordAppOutput } from '../AppOutputLog';
+import { MockAudioEngine } from '../AudioEngine.mock';
+
+describe('AppOutputLog', () => {
+  let now: number;
+  let log: AppOutputLog;
+
+  beforeEach(() => {
+    now = 10000;
+    log = new AppOutputLog(() => now);
+  });
+
+  it('matches a played note and its octave while it sounds', () => {
+    log.noteOn(60);
+    now += 500;
+    expect(log.isEcho(60)).toBe(true);
+    expect(log.isEcho(72)).toBe(true);
+    expect(log.isEcho(48)).toBe(true);
+    expect(log.isEcho(64)).toBe(false);
+    expect(log.isEcho(84)).toBe(false);
+  });
+
+  it('keeps matching through the echo tail after release', () => {
+    log.noteOn(60);
+    now += 300;
+    log.noteOff(60);
+    now += ECHO_TAIL_MS;
+    expect(log.isEcho(60)).toBe(true);
+    now += 1;
+    expect(log.isEcho(60)).toBe(false);
+    expect(log.isSounding()).toBe(false);
+  });
+
+  it('does not match before a note started', () => {
+    log.noteOn(60);
+    expect(log.isEcho(60, now - 1)).toBe(false);
+  });
+
+  it('gives up on notes that are never released', () => {
+    log.noteOn(60);
+    now += 10000;
+    expect(log.isEcho(60)).toBe(false);
+  });
+
+  it('records metronome clicks as sound but not as a note', () => {
+    log.click();
+    now += 100;
+    // The 1000 Hz click is nearest B5 (83); a B played on the beat is the learner's
+    expect(log.isEcho(83)).toBe(false);
+    expect(log.isEcho(71)).toBe(false);
+    expect(log.isSounding()).toBe(true);
+    now += 1000;
+    expect(log.isSounding()).toBe(false);
+  });
+
+  it("never treats a note the learner's part expects as echo", () => {
+    // The auto-played left hand, doubled an octave up by the learner's right
+    log.noteOn(48);
+    const stopExpecting = log.expectLearnerNotes((note, timeMs) => note === 60 && timeMs >= 10100);
+    now += 200;
+    expect(log.isEcho(60)).toBe(false);
+    expect(log.isEcho(48)).toBe(true);
+    // Before the learner's note is due, the octave is still echo
+    expect(log.isEcho(60, 10050)).toBe(true);
+
+    stopExpecting();
+    expect(log.isEcho(60)).toBe(true);
+  });
+
+  it('keeps the newest expectation when an older one is removed', () => {
+    const stopFirst = log.expectLearnerNotes(() => false);
+    log.expectLearnerNotes((note) => note === 60);
+    stopFirst();
+    expect(log.isExpected(60)).toBe(true);
+  });
+
+  it('releases everything on allNotesOff', () => {
+    log.noteOn(60);
+    log.noteOn(64);
+    log.allNotesOff();
+    now += ECHO_TAIL_MS + 1;
+    expect(log.isSounding()).toBe(false);
+  });
+
+  describe('recordAppOutput', () => {
+    it('logs notes, releases and clicks played through the engine', () => {
+      const engine = recordAppOutput(new MockAudioEngine(), log);
+      expect(engine).toBeInstanceOf(MockAudioEngine);
+
+      const handle = engine.playNote(67, 0.8);
+      expect(log.isEcho(67)).toBe(true);
+
+      now += 100;
+      engine.releaseNote(handle);
+      now += ECHO_TAIL_MS + 1;
+      expect(log.isEcho(67)).toBe(false);
+
+      engine.playMetronomeClick(1500, 0.5);
+      expect(log.isSounding()).toBe(true);
+      expect(log.isEcho(90)).toBe(false);
+    });
+
+    it('logs releases made through the handle', () => {
+      const engine = recordAppOutput(new MockAudioEngine(), log);
+      const handle = engine.playNote(60, 0.8);
+      handle.release();
+      now += ECHO_TAIL_MS + 1;
+      expect(log.isSounding()).toBe(false);
+    });
+  });
+});
@@ -16,11 +16,18 @@
  * Detection: We try to instantiate WebAudioEngine. If the native module isn't
  * available (e.g., Expo Go), the import or constructor will throw, and we
  * fall back to ExpoAudioEngine.
+ *
+ * Either engine records what it plays in appOutputLog, so mic input can drop
+ * detections of the app's own speaker output, and follows the per-role
+ * instruments in settingsStore.
  */
 
 import { Platform } from 'react-native';
-import type { IAudioEngine } from './types';
+import { INSTRUMENT_ROLES, type IAudioEngine } from './types';
 import { ExpoAudioEngine } from './ExpoAudioEngine';
+import { recordAppOutput } from './AppOutputLog';
+import { instrumentRegistry } from './instruments/InstrumentRegistry';
+import { useSettingsStore } from '../stores/settingsStore';
 import { logger } from '../utils/logger';
 
 /**
@@ -28,6 +35,7 @@ import { logger } from '../utils/logger';
  */
 let factoryInstance: IAudioEngine | null = null;
 let lastAudioMode: 'playback' | 'playAndRecord' | null = null;
+let stopInstrumentSync: (() => void) | null = null;
 
 /**
  * Try to create a WebAudioEngine. Returns null if react-native-audio-api
@@ -121,6 +129,32 @@ export async function ensureAudioModeConfigured(allowRecording = false): Promise
   }
 }
 
+/**
+ * Apply the instruments chosen in settings to `engine`, now and whenever they
+ * change. A soundfont registering later is re-applied too: engines ignore ids
+ * the registry doesn't have yet, and prepare an instrument when it's set.
+ */
+function syncInstruments(engine: IAudioEngine): () => void {
+  const apply = (registeredId?: string): void => {
+    const { instruments } = useSettingsStore.getState();
+    for (const role of INSTRUMENT_ROLES) {
+      const id = instruments?.[role];
+      if (id && (engine.getInstrument(role) !== id || id === registeredId)) {
+        engine.setInstrument(role, id);
+      }
+    }
+  };
+  apply();
+  const unsubscribeSettings = useSettingsStore.subscribe((state, prev) => {
+    if (state.instruments !== prev.instruments) apply();
+  });
+  const unsubscribeRegistry = instrumentRegistry.onChange(apply);
+  return () => {
+    unsubscribeSettings();
+    unsubscribeRegistry();
+  };
+}
+
 /**
  * Create the best available audio engine.
  *
@@ -152,14 +186,14 @@ export function createAudioEngine(): IAudioEngine {
 
   const webEngine = tryCreateWebAudioEngine();
   if (webEngine) {
-    factoryInstance = webEngine;
+    factoryInstance = recordAppOutput(webEngine);
     const estimatedLatency = webEngine.getLatency();
     logger.log(
       `[createAudioEngine] Selected WebAudioEngine (JSI, 3-harmonic, pre-warmed) ` +
       `in ${Date.now() - selectionStart}ms — estimated latency: ${estimatedLatency}ms`
     );
   } else {
-    factoryInstance = new ExpoAudioEngine();
+    factoryInstance = recordAppOutput(new ExpoAudioEngine());
     const estimatedLatency = factoryInstance.getLatency();
     logger.log(
       `[createAudioEngine] Selected ExpoAudioEngine (expo-av fallback) ` +
@@ -167,6 +201,7 @@ export function createAudioEngine(): IAudioEngine {
     );
   }
 
+  stopInstrumentSync = syncInstruments(factoryInstance);
   return factoryInstance;
 }
 
@@ -175,6 +210,8 @@ export function createAudioEngine(): IAudioEngine {
  * Disposes the current engine before clearing the reference
  */
 export function resetAudioEngineFactory(): void {
+  stopInstrumentSync?.();
+  stopInstrumentSync = null;
   if (factoryInstance) {
     factoryInstance.dispose();
     factoryInstance = null;
@@ -0,0 +1,172 @@
+/**
+ * Instrument registry
+ *
+ * Holds the instruments the audio engines can play, keyed by id. Built-ins
+ * are always present; soundfonts loaded at runtime (SoundfontLoader) are
+ * registered alongside them. Engines look instruments up when a role's
+ * instrument is set, and fall back to the piano for ids they don't know.
+ */
+
+import type { InstrumentRole } from '../types';
+import type { InstrumentDefinition, InstrumentId, SampleZone } from './types';
+
+export const DEFAULT_INSTRUMENT: InstrumentId = 'piano';
+
+export const DEFAULT_INSTRUMENTS: Record<InstrumentRole, InstrumentId> = {
+  user: DEFAULT_INSTRUMENT,
+  accompaniment: DEFAULT_INSTRUMENT,
+  demo: DEFAULT_INSTRUMENT,
+};
+
+/** Covers keys within ±6 semitones of `rootNote`; a tritone down goes to the lower sample */
+function octaveZone(rootNote: number, source: number, loKey = rootNote - 5, hiKey = rootNote + 6): SampleZone {
+  return { source, rootNote, loKey, hiKey, loVel: 0, hiVel: 127, tuneCents: 0, gainDb: 0 };
+}
+
+/**
+ * FluidR3 GM Acoustic Grand Piano, octave-spaced (C2-C6). The synth patch is
+ * the 2-oscillator tone WebAudioEngine has always played.
+ */
+export const PIANO_INSTRUMENT: InstrumentDefinition = {
+  id: 'piano',
+  name: 'Piano',
+  synth: {
+    harmonics: [
+      { ratio: 1, gain: 1 },
+      { ratio: 2, gain: 0.25 },
+    ],
+    envelope: { attack: 0.003, decay: 0.6, sustain: 0.2, release: 0.15 },
+  },
+  zones: [
+    octaveZone(36, require('../../../assets/samples/piano-c2.mp3'), 0),
+    octaveZone(48, require('../../../assets/samples/piano-c3.mp3')),
+    octaveZone(60, require('../../../assets/samples/piano-c4.mp3')),
+    octaveZone(72, require('../../../assets/samples/piano-c5.mp3')),
+    octaveZone(84, require('../../../assets/samples/piano-c6.mp3'), 79, 127),
+  ],
+};
+
+/** Tine piano: soft fundamental with a faint bell partial and a long decay */
+const ELECTRIC_PIANO: InstrumentDefinition = {
+  id: 'electric_piano',
+  name: 'Electric Piano',
+  synth: {
+    harmonics: [
+      { ratio: 1, gain: 1 },
+      { ratio: 2, gain: 0.2 },
+      { ratio: 7, gain: 0.05 },
+    ],
+    envelope: { attack: 0.002, decay: 1.2, sustain: 0.25, release: 0.3 },
+  },
+};
+
+/** Drawbar organ (16', 8', 4', 2 2/3', 2'): no decay, holds while the key is down */
+const ORGAN: InstrumentDefinition = {
+  id: 'organ',
+  name: 'Organ',
+  synth: {
+    harmonics: [
+      { ratio: 0.5, gain: 0.5 },
+      { ratio: 1, gain: 1 },
+      { ratio: 2, gain: 0.6 },
+      { ratio: 3, gain: 0.35 },
+      { ratio: 4, gain: 0.3 },
+    ],
+    envelope: { attack: 0.01, decay: 0.05, sustain: 1.0, release: 0.08 },
+  },
+};
+
+/** String ensemble: two slightly detuned saws, slow attack and release */
+const STRINGS: InstrumentDefinition = {
+  id: 'strings',
+  name: 'Strings',
+  synth: {
+    harmonics: [
+      { ratio: 1, gain: 1, type: 'sawtooth' },
+      { ratio: 1.004, gain: 0.7, type: 'sawtooth' },
+      { ratio: 2, gain: 0.15 },
+    ],
+    envelope: { attack: 0.25, decay: 0.4, sustain: 0.8, release: 0.45 },
+  },
+};
+
+export const BUILT_IN_INSTRUMENTS: readonly InstrumentDefinition[] = [PIANO_INSTRUMENT, ELECTRIC_PIANO, ORGAN, STRINGS];
+
+export class InstrumentRegistry {
+  private instruments = new Map<InstrumentId, InstrumentDefinition>();
+  private listeners = new Set<(id: InstrumentId) => void>();
+
+  constructor(builtIns: readonly InstrumentDefinition[] = BUILT_IN_INSTRUMENTS) {
+    for (const instrument of builtIns) this.instruments.set(instrument.id, instrument);
+  }
+
+  /** Add an instrument, replacing any with the same id */
+  register(instrument: InstrumentDefinition): void {
+    this.instruments.set(instrument.id, instrument);
+    for (const cb of this.listeners) cb(instrument.id);
+  }
+
+  has(id: InstrumentId): boolean {
+    return this.instruments.has(id);
+  }
+
+  get(id: InstrumentId): InstrumentDefinition | undefined {
+    return this.instruments.get(id);
+  }
+
+  /** The instrument for `id`, or the piano when it isn't registered */
+  resolve(id: InstrumentId): InstrumentDefinition {
+    return this.instruments.get(id) ?? this.instruments.get(DEFAULT_INSTRUMENT) ?? PIANO_INSTRUMENT;
+  }
+
+  list(): InstrumentDefinition[] {
+    return [...this.instruments.values()];
+  }
+
+  /** Called with the id of every instrument registered from now on */
+  onChange(cb: (id: InstrumentId) => void): () => void {
+    this.listeners.add(cb);
+    return () => {
+      this.listeners.delete(cb);
+    };
+  }
+}
+
+export const instrumentRegistry = new InstrumentRegistry();
+
+function distance(value: number, lo: number, hi: number): number {
+  return value < lo ? lo - value : value > hi ? value - hi : 0;
+}
+
+/**
+ * Pick the zone for a note. Key range decides first, then velocity layer;
+ * outside every range the nearest zone is stretched to cover the note.
+ * `velocity` is 0-1 like IAudioEngine.playNote.
+ */
+export function selectZone(zones: readonly SampleZone[], note: number, velocity: number): SampleZone | null {
+  const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)));
+  let best: SampleZone | null = null;
+  let bestKeyDistance = Infinity;
+  let bestVelDistance = Infinity;
+
+  for (const zone of zones) {
+    const keyDistance = distance(note, zone.loKey, zone.hiKey);
+    const velDistance = distance(midiVelocity, zone.loVel, zone.hiVel);
+    if (keyDistance < bestKeyDistance || (keyDistance === bestKeyDistance && velDistance < bestVelDistance)) {
+      best = zone;
+      bestKeyDistance = keyDistance;
+      bestVelDistance = velDistance;
+    }
+  }
+  return best;
+}
+
+/** Playback rate that shifts `zone`'s recording to `note` */
+export function zonePlaybackRate(zone: SampleZone, note: number): number {
+  return Math.pow(2, (note - zone.rootNote) / 12 + zone.tuneCents / 1200);
+}
+
+/** Linear gain for a zone's dB adjustment */
+export function zoneGain(zone: SampleZone): number {
+  return Math.pow(10, zone.gainDb / 20);
+}
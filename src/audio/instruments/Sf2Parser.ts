@@ -0,0 +1,318 @@
+/**
+ * SoundFont 2 parser
+ *
+ * Reads an .sf2 file (RIFF 'sfbk') into presets of sample zones with decoded
+ * PCM. Follows the spec's preset → instrument → sample hierarchy: preset
+ * zones pick instruments and narrow their key/velocity ranges, instrument
+ * zones map ranges to samples. Global zones supply defaults at each level.
+ *
+ * We keep what the key map needs (ranges, root key, tuning, attenuation,
+ * sample offsets and loops). Modulators, envelopes and effects are skipped.
+ * Stereo pairs are played from the left sample; ROM samples are skipped.
+ */
+
+import type { PcmData, SampleZone } from './types';
+
+export interface Sf2Preset {
+  name: string;
+  bank: number;
+  program: number;
+  zones: SampleZone[];
+}
+
+export interface Sf2File {
+  presets: Sf2Preset[];
+}
+
+// Generator operators (SF2.04 section 8.1.2)
+const GEN_START_OFFSET = 0;
+const GEN_END_OFFSET = 1;
+const GEN_START_LOOP_OFFSET = 2;
+const GEN_END_LOOP_OFFSET = 3;
+const GEN_START_COARSE_OFFSET = 4;
+const GEN_END_COARSE_OFFSET = 12;
+const GEN_INSTRUMENT = 41;
+const GEN_KEY_RANGE = 43;
+const GEN_VEL_RANGE = 44;
+const GEN_START_LOOP_COARSE_OFFSET = 45;
+const GEN_ATTENUATION = 48;
+const GEN_END_LOOP_COARSE_OFFSET = 50;
+const GEN_COARSE_TUNE = 51;
+const GEN_FINE_TUNE = 52;
+const GEN_SAMPLE_ID = 53;
+const GEN_SAMPLE_MODES = 54;
+const GEN_ROOT_KEY = 58;
+
+/** Preset-level generators that add to the instrument's value */
+const ADDITIVE_GENERATORS = [GEN_ATTENUATION, GEN_COARSE_TUNE, GEN_FINE_TUNE];
+
+const SAMPLE_TYPE_RIGHT = 2;
+const SAMPLE_TYPE_ROM = 0x8000;
+
+const PHDR_SIZE = 38;
+const BAG_SIZE = 4;
+const GEN_SIZE = 4;
+const INST_SIZE = 22;
+const SHDR_SIZE = 46;
+
+interface Range {
+  lo: number;
+  hi: number;
+}
+
+/** Generator amounts by operator; ranges keep their two bytes */
+type Generators = Map<number, number | Range>;
+
+interface SampleHeader {
+  start: number;
+  end: number;
+  startLoop: number;
+  endLoop: number;
+  sampleRate: number;
+  originalPitch: number;
+  pitchCorrection: number;
+  sampleType: number;
+}
+
+interface Chunks {
+  smpl?: DataView;
+  pdta: Map<string, DataView>;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+function readName(view: DataView, offset: number): string {
+  let name = '';
+  for (let i = 0; i < 20; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    name += String.fromCharCode(code);
+  }
+  return name.trim();
+}
+
+/** Walk the chunks of a RIFF list body; bodies are padded to an even length */
+function walkChunks(view: DataView, start: number, end: number, visit: (tag: string, body: DataView) => void): void {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const bodyStart = offset + 8;
+    const bodySize = Math.min(size, end - bodyStart);
+    visit(tag, new DataView(view.buffer, view.byteOffset + bodyStart, bodySize));
+    offset = bodyStart + size + (size % 2);
+  }
+}
+
+function readChunks(view: DataView): Chunks {
+  const chunks: Chunks = { pdta: new Map() };
+  walkChunks(view, 12, view.byteLength, (tag, body) => {
+    if (tag !== 'LIST' || body.byteLength < 4) return;
+    const listType = readTag(body, 0);
+    walkChunks(body, 4, body.byteLength, (subTag, subBody) => {
+      if (listType === 'sdta' && subTag === 'smpl') chunks.smpl = subBody;
+      else if (listType === 'pdta') chunks.pdta.set(subTag, subBody);
+    });
+  });
+  return chunks;
+}
+
+function readGenerators(gens: DataView, from: number, to: number): Generators {
+  const result: Generators = new Map();
+  for (let i = from; i < to && (i + 1) * GEN_SIZE <= gens.byteLength; i++) {
+    const offset = i * GEN_SIZE;
+    const oper = gens.getUint16(offset, true);
+    if (oper === GEN_KEY_RANGE || oper === GEN_VEL_RANGE) {
+      result.set(oper, { lo: gens.getUint8(offset + 2), hi: gens.getUint8(offset + 3) });
+    } else if (oper === GEN_INSTRUMENT || oper === GEN_SAMPLE_ID || oper === GEN_SAMPLE_MODES) {
+      result.set(oper, gens.getUint16(offset + 2, true));
+    } else {
+      result.set(oper, gens.getInt16(offset + 2, true));
+    }
+  }
+  return result;
+}
+
+/**
+ * Zones of one preset or instrument: generators for each bag in
+ * [bagFrom, bagTo). A first bag without the terminal generator is global.
+ */
+function readZones(bags: DataView, gens: DataView, bagFrom: number, bagTo: number, terminal: number) {
+  let global: Generators = new Map();
+  const zones: Generators[] = [];
+  for (let bag = bagFrom; bag < bagTo && (bag + 2) * BAG_SIZE <= bags.byteLength; bag++) {
+    const genFrom = bags.getUint16(bag * BAG_SIZE, true);
+    const genTo = bags.getUint16((bag + 1) * BAG_SIZE, true);
+    const generators = readGenerators(gens, genFrom, genTo);
+    if (generators.has(terminal)) zones.push(generators);
+    else if (bag === bagFrom) global = generators;
+  }
+  return { global, zones };
+}
+
+function range(gens: Generators, oper: number): Range {
+  const value = gens.get(oper);
+  return typeof value === 'object' ? value : { lo: 0, hi: 127 };
+}
+
+function amount(gens: Generators, oper: number): number {
+  const value = gens.get(oper);
+  return typeof value === 'number' ? value : 0;
+}
+
+function readSampleHeaders(shdr: DataView): SampleHeader[] {
+  const headers: SampleHeader[] = [];
+  // The last record is the terminal "EOS" header
+  const count = Math.floor(shdr.byteLength / SHDR_SIZE) - 1;
+  for (let i = 0; i < count; i++) {
+    const offset = i * SHDR_SIZE;
+    headers.push({
+      start: shdr.getUint32(offset + 20, true),
+      end: shdr.getUint32(offset + 24, true),
+      startLoop: shdr.getUint32(offset + 28, true),
+      endLoop: shdr.getUint32(offset + 32, true),
+      sampleRate: shdr.getUint32(offset + 36, true),
+      originalPitch: shdr.getUint8(offset + 40),
+      pitchCorrection: shdr.getInt8(offset + 41),
+      sampleType: shdr.getUint16(offset + 44, true),
+    });
+  }
+  return headers;
+}
+
+/**
+ * Parse an .sf2 file. Returns `{ error }` for anything that is not a
+ * well-formed SoundFont 2 with sample data.
+ */
+export function parseSf2(bytes: Uint8Array): Sf2File | { error: string } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'sfbk') {
+    return { error: 'Not a SoundFont 2 file' };
+  }
+
+  const { smpl, pdta } = readChunks(view);
+  if (!smpl) return { error: 'Missing smpl chunk' };
+  const phdr = pdta.get('phdr');
+  const pbag = pdta.get('pbag');
+  const pgen = pdta.get('pgen');
+  const inst = pdta.get('inst');
+  const ibag = pdta.get('ibag');
+  const igen = pdta.get('igen');
+  const shdr = pdta.get('shdr');
+  if (!phdr || !pbag || !pgen || !inst || !ibag || !igen || !shdr) {
+    return { error: 'Missing preset data' };
+  }
+
+  const sampleHeaders = readSampleHeaders(shdr);
+  const totalFrames = Math.floor(smpl.byteLength / 2);
+  const instrumentCount = Math.floor(inst.byteLength / INST_SIZE) - 1;
+  const pcmCache = new Map<string, PcmData>();
+
+  const readPcm = (header: SampleHeader, gens: Generators): PcmData | null => {
+    const start = header.start + amount(gens, GEN_START_OFFSET) + amount(gens, GEN_START_COARSE_OFFSET) * 32768;
+    const end = header.end + amount(gens, GEN_END_OFFSET) + amount(gens, GEN_END_COARSE_OFFSET) * 32768;
+    if (start < 0 || end > totalFrames || end <= start) return null;
+
+    const loopStart =
+      header.startLoop + amount(gens, GEN_START_LOOP_OFFSET) + amount(gens, GEN_START_LOOP_COARSE_OFFSET) * 32768;
+    const loopEnd =
+      header.endLoop + amount(gens, GEN_END_LOOP_OFFSET) + amount(gens, GEN_END_LOOP_COARSE_OFFSET) * 32768;
+    // sampleModes 1 loops continuously, 3 loops until release
+    const loops = (amount(gens, GEN_SAMPLE_MODES) & 1) === 1 && loopEnd > loopStart;
+
+    const key = `${start}:${end}:${loops ? `${loopStart}:${loopEnd}` : ''}`;
+    const cached = pcmCache.get(key);
+    if (cached) return cached;
+
+    const samples = new Float32Array(end - start);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = smpl.getInt16((start + i) * 2, true) / 32768;
+    }
+    const pcm: PcmData = { samples, sampleRate: header.sampleRate };
+    if (loops) {
+      pcm.loopStart = loopStart - start;
+      pcm.loopEnd = loopEnd - start;
+    }
+    pcmCache.set(key, pcm);
+    return pcm;
+  };
+
+  const instrumentZones = (index: number, presetGens: Generators): SampleZone[] => {
+    if (index >= instrumentCount) return [];
+    const bagFrom = inst.getUint16(index * INST_SIZE + 20, true);
+    const bagTo = inst.getUint16((index + 1) * INST_SIZE + 20, true);
+    const { global, zones } = readZones(ibag, igen, bagFrom, bagTo, GEN_SAMPLE_ID);
+    const presetKeys = range(presetGens, GEN_KEY_RANGE);
+    const presetVels = range(presetGens, GEN_VEL_RANGE);
+
+    const result: SampleZone[] = [];
+    for (const local of zones) {
+      const gens: Generators = new Map([...global, ...local]);
+      for (const oper of ADDITIVE_GENERATORS) {
+        gens.set(oper, amount(gens, oper) + amount(presetGens, oper));
+      }
+
+      const header = sampleHeaders[amount(gens, GEN_SAMPLE_ID)];
+      if (!header || header.sampleType & SAMPLE_TYPE_ROM || header.sampleType === SAMPLE_TYPE_RIGHT) continue;
+
+      const keys = range(gens, GEN_KEY_RANGE);
+      const vels = range(gens, GEN_VEL_RANGE);
+      const loKey = Math.max(keys.lo, presetKeys.lo);
+      const hiKey = Math.min(keys.hi, presetKeys.hi);
+      const loVel = Math.max(vels.lo, presetVels.lo);
+      const hiVel = Math.min(vels.hi, presetVels.hi);
+      if (loKey > hiKey || loVel > hiVel) continue;
+
+      const pcm = readPcm(header, gens);
+      if (!pcm) continue;
+
+      const overridingRoot = gens.has(GEN_ROOT_KEY) ? amount(gens, GEN_ROOT_KEY) : -1;
+      const rootNote = overridingRoot >= 0 ? overridingRoot : header.originalPitch <= 127 ? header.originalPitch : 60;
+      result.push({
+        pcm,
+        rootNote,
+        loKey,
+        hiKey,
+        loVel,
+        hiVel,
+        tuneCents: amount(gens, GEN_COARSE_TUNE) * 100 + amount(gens, GEN_FINE_TUNE) + header.pitchCorrection,
+        // Attenuation is in centibels
+        gainDb: -amount(gens, GEN_ATTENUATION) / 10,
+      });
+    }
+    return result;
+  };
+
+  const presets: Sf2Preset[] = [];
+  // The last record is the terminal "EOP" header
+  const presetCount = Math.floor(phdr.byteLength / PHDR_SIZE) - 1;
+  for (let i = 0; i < presetCount; i++) {
+    const offset = i * PHDR_SIZE;
+    const bagFrom = phdr.getUint16(offset + 24, true);
+    const bagTo = phdr.getUint16(offset + PHDR_SIZE + 24, true);
+    const { global, zones } = readZones(pbag, pgen, bagFrom, bagTo, GEN_INSTRUMENT);
+
+    const sampleZones: SampleZone[] = [];
+    for (const local of zones) {
+      const gens: Generators = new Map([...global, ...local]);
+      sampleZones.push(...instrumentZones(amount(gens, GEN_INSTRUMENT), gens));
+    }
+    presets.push({
+      name: readName(phdr, offset),
+      program: phdr.getUint16(offset + 20, true),
+      bank: phdr.getUint16(offset + 22, true),
+      zones: sampleZones,
+    });
+  }
+
+  if (!presets.some((preset) => preset.zones.length > 0)) return { error: 'No playable presets' };
+  presets.sort((a, b) => a.bank - b.bank || a.program - b.program);
+  return { presets };
+}
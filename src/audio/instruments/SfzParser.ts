@@ -0,0 +1,145 @@
+/**
+ * SFZ instrument parser
+ *
+ * SFZ is a text format: headers (<control>, <global>, <master>, <group>,
+ * <region>) followed by opcode=value pairs. Each region inherits the opcodes
+ * of the headers above it. We read the mapping opcodes (keys, velocity
+ * layers, tuning, volume, loop points); playback opcodes such as filters and
+ * envelopes are ignored.
+ *
+ * Sample paths are returned as written (with default_path applied), since
+ * bundled assets can't be opened by path — SoundfontLoader maps them to
+ * asset modules.
+ */
+
+import type { SampleZone } from './types';
+
+export type SfzZone = Omit<SampleZone, 'source' | 'pcm'>;
+
+export interface SfzRegion {
+  /** Sample path relative to the .sfz file, with forward slashes */
+  sample: string;
+  zone: SfzZone;
+  /** Loop points in frames, when the region loops */
+  loop?: { start: number; end: number };
+}
+
+type Opcodes = Record<string, string>;
+
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/** MIDI key from a number or a note name; SFZ puts middle C (60) at c4 */
+export function parseSfzKey(value: string): number | null {
+  if (/^-?\d+$/.test(value)) return Number(value);
+  const match = /^([a-g])([#b]?)(-?\d+)$/i.exec(value);
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (Number(match[3]) + 1) * 12 + NOTE_OFFSETS[match[1].toLowerCase()] + accidental;
+}
+
+function stripComments(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
+
+/** Opcodes in the text between two headers; values may contain spaces (sample paths) */
+function parseOpcodes(body: string): Opcodes {
+  const opcodes: Opcodes = {};
+  const pattern = /([A-Za-z0-9_]+)=([\s\S]*?)(?=\s+[A-Za-z0-9_]+=|$)/g;
+  for (const match of body.trim().matchAll(pattern)) {
+    opcodes[match[1]] = match[2].trim();
+  }
+  return opcodes;
+}
+
+function toZone(opcodes: Opcodes): { zone: SfzZone; loop?: { start: number; end: number } } | { error: string } {
+  const keyNames = ['key', 'lokey', 'hikey', 'pitch_keycenter'];
+  if (keyNames.some((name) => opcodes[name] !== undefined && parseSfzKey(opcodes[name]) === null)) {
+    return { error: `Bad key in region for ${opcodes.sample}` };
+  }
+  const key = (name: string): number | undefined =>
+    opcodes[name] === undefined ? undefined : (parseSfzKey(opcodes[name]) ?? undefined);
+  const number = (name: string, fallback: number): number => {
+    const value = Number(opcodes[name]);
+    return opcodes[name] !== undefined && Number.isFinite(value) ? value : fallback;
+  };
+
+  const single = key('key');
+  const loKey = key('lokey') ?? single ?? 0;
+  const hiKey = key('hikey') ?? single ?? 127;
+  const rootNote = key('pitch_keycenter') ?? single ?? 60;
+
+  const zone: SfzZone = {
+    rootNote,
+    loKey,
+    hiKey,
+    loVel: number('lovel', 1),
+    hiVel: number('hivel', 127),
+    tuneCents: number('tune', 0) + number('transpose', 0) * 100,
+    gainDb: number('volume', 0),
+  };
+
+  const loopMode = opcodes.loop_mode;
+  const looping = loopMode === 'loop_continuous' || loopMode === 'loop_sustain';
+  if (looping && opcodes.loop_start !== undefined && opcodes.loop_end !== undefined) {
+    return { zone, loop: { start: number('loop_start', 0), end: number('loop_end', 0) } };
+  }
+  return { zone };
+}
+
+/**
+ * Parse an .sfz file into regions. Returns `{ error }` when the file has no
+ * playable regions or a region's keys can't be read.
+ */
+export function parseSfz(text: string): { regions: SfzRegion[] } | { error: string } {
+  const source = stripComments(text);
+  const headerPattern = /<(\w+)>/g;
+  const headers: { name: string; start: number; end: number }[] = [];
+  for (const match of source.matchAll(headerPattern)) {
+    headers.push({ name: match[1], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+
+  let control: Opcodes = {};
+  let global: Opcodes = {};
+  let master: Opcodes = {};
+  let group: Opcodes = {};
+  const regions: SfzRegion[] = [];
+
+  for (let i = 0; i < headers.length; i++) {
+    const header = headers[i];
+    const body = source.slice(header.end, i + 1 < headers.length ? headers[i + 1].start : source.length);
+    const opcodes = parseOpcodes(body);
+
+    switch (header.name) {
+      case 'control':
+        control = opcodes;
+        break;
+      case 'global':
+        global = opcodes;
+        master = {};
+        group = {};
+        break;
+      case 'master':
+        master = opcodes;
+        group = {};
+        break;
+      case 'group':
+        group = opcodes;
+        break;
+      case 'region': {
+        const merged = { ...global, ...master, ...group, ...opcodes };
+        if (!merged.sample) break;
+        const parsed = toZone(merged);
+        if ('error' in parsed) return parsed;
+        const sample = ((control.default_path ?? '') + merged.sample).replace(/\\/g, '/');
+        regions.push({ sample, ...parsed });
+        break;
+      }
+      default:
+        // <curve>, <effect>, <midi> etc. don't affect the key map
+        break;
+    }
+  }
+
+  if (regions.length === 0) return { error: 'No regions with samples' };
+  return { regions };
+}
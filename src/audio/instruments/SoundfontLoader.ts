@@ -0,0 +1,164 @@
+/**
+ * Soundfont loading from bundled assets
+ *
+ * Turns an .sf2 or .sfz asset (require()d, so Metro bundles it — see
+ * metro.config.js) into an InstrumentDefinition for the registry:
+ *
+ *   const piano = await loadSf2Instrument(require('../../assets/soundfonts/rhodes.sf2'), {
+ *     id: 'rhodes', name: 'Rhodes',
+ *   });
+ *   if (!('error' in piano)) instrumentRegistry.register(piano);
+ *
+ * Zones get both forms the engines need: PCM for WebAudioEngine's buffers and
+ * a playable file for ExpoAudioEngine. SF2 samples only exist inside the
+ * soundfont, so they are written to the cache directory as WAV files.
+ */
+
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import { decodeWav } from '../../input/WavDecoder';
+import { instrumentRegistry, DEFAULT_INSTRUMENT } from './InstrumentRegistry';
+import { parseSf2 } from './Sf2Parser';
+import { parseSfz } from './SfzParser';
+import { encodeWav } from './WavEncoder';
+import type { InstrumentDefinition, InstrumentId, PcmData, SampleZone, SynthPatch } from './types';
+import { logger } from '../../utils/logger';
+
+export interface SoundfontOptions {
+  id: InstrumentId;
+  name: string;
+  /** SF2 preset to load; defaults to the first one with samples */
+  bank?: number;
+  program?: number;
+  /** Played by engines that can't use the samples; defaults to the piano patch */
+  synth?: SynthPatch;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+async function readAssetBytes(module: number): Promise<Uint8Array> {
+  const asset = Asset.fromModule(module);
+  await asset.downloadAsync();
+  const base64 = await FileSystem.readAsStringAsync(asset.localUri ?? asset.uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return base64ToBytes(base64);
+}
+
+async function readAssetText(module: number): Promise<string> {
+  const asset = Asset.fromModule(module);
+  await asset.downloadAsync();
+  return FileSystem.readAsStringAsync(asset.localUri ?? asset.uri);
+}
+
+/** Write `pcm` to the cache as a WAV file expo-av can play */
+async function cachePcm(pcm: PcmData, fileName: string): Promise<{ uri: string }> {
+  const cacheDir = FileSystem.cacheDirectory;
+  if (!cacheDir) throw new Error('FileSystem.cacheDirectory is null');
+  const uri = cacheDir + fileName;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(encodeWav(pcm.samples, pcm.sampleRate)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return { uri };
+}
+
+function defaultSynth(options: SoundfontOptions): SynthPatch {
+  return options.synth ?? instrumentRegistry.resolve(DEFAULT_INSTRUMENT).synth;
+}
+
+/**
+ * Load one preset of a bundled .sf2 file. Returns `{ error }` when the file
+ * can't be read or parsed, or has no such preset.
+ */
+export async function loadSf2Instrument(
+  module: number,
+  options: SoundfontOptions,
+): Promise<InstrumentDefinition | { error: string }> {
+  try {
+    const sf2 = parseSf2(await readAssetBytes(module));
+    if ('error' in sf2) return sf2;
+
+    const wanted = options.program !== undefined || options.bank !== undefined;
+    const preset = sf2.presets.find((p) =>
+      wanted
+        ? p.program === (options.program ?? 0) && p.bank === (options.bank ?? 0)
+        : p.zones.length > 0,
+    );
+    if (!preset || preset.zones.length === 0) {
+      return { error: `No preset ${options.bank ?? 0}:${options.program ?? 0} in soundfont` };
+    }
+
+    // Zones that share a sample share its PcmData, so each is written once
+    const files = new Map<PcmData, { uri: string }>();
+    const zones: SampleZone[] = [];
+    for (const zone of preset.zones) {
+      if (!zone.pcm) continue;
+      let source = files.get(zone.pcm);
+      if (!source) {
+        source = await cachePcm(zone.pcm, `instrument-${options.id}-${files.size}.wav`);
+        files.set(zone.pcm, source);
+      }
+      zones.push({ ...zone, source });
+    }
+
+    logger.log(`[SoundfontLoader] ${options.id}: "${preset.name}", ${zones.length} zones, ${files.size} samples`);
+    return { id: options.id, name: options.name, synth: defaultSynth(options), zones };
+  } catch (error) {
+    logger.warn(`[SoundfontLoader] Failed to load ${options.id}:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Load a bundled .sfz file. `samples` maps each sample path in the file to
+ * its require()d asset, since bundled assets can't be opened by path. WAV
+ * samples are also decoded to PCM; other formats only play on engines that
+ * take files.
+ */
+export async function loadSfzInstrument(
+  module: number,
+  samples: Record<string, number>,
+  options: SoundfontOptions,
+): Promise<InstrumentDefinition | { error: string }> {
+  try {
+    const sfz = parseSfz(await readAssetText(module));
+    if ('error' in sfz) return sfz;
+
+    const decoded = new Map<string, PcmData | null>();
+    const zones: SampleZone[] = [];
+    for (const region of sfz.regions) {
+      const sampleModule = samples[region.sample];
+      if (sampleModule === undefined) return { error: `Sample not bundled: ${region.sample}` };
+
+      if (!decoded.has(region.sample)) {
+        const wav = /\.wav$/i.test(region.sample) ? decodeWav(await readAssetBytes(sampleModule)) : null;
+        decoded.set(region.sample, wav && !('error' in wav) ? { samples: wav.samples, sampleRate: wav.sampleRate } : null);
+      }
+      const pcm = decoded.get(region.sample);
+      zones.push({
+        ...region.zone,
+        source: sampleModule,
+        ...(pcm ? { pcm: region.loop ? { ...pcm, loopStart: region.loop.start, loopEnd: region.loop.end } : pcm } : {}),
+      });
+    }
+
+    logger.log(`[SoundfontLoader] ${options.id}: ${zones.length} regions, ${decoded.size} samples`);
+    return { id: options.id, name: options.name, synth: defaultSynth(options), zones };
+  } catch (error) {
+    logger.warn(`[SoundfontLoader] Failed to load ${options.id}:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
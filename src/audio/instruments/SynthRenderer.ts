@@ -0,0 +1,64 @@
+/**
+ * Offline rendering of synth patches
+ *
+ * ExpoAudioEngine can only play files, so instruments without samples are
+ * rendered once to a held note and pitch-shifted like a sample. The note
+ * holds at the sustain level to the end; the engine's fade on release
+ * stands in for the envelope's release stage.
+ */
+
+import type { Harmonic, SynthPatch } from './types';
+
+/** Fade at the end of the rendering so a note that outlasts it doesn't click */
+const TAIL_FADE_SEC = 0.01;
+
+function waveform(type: Harmonic['type'], phase: number): number {
+  const cycle = phase - Math.floor(phase);
+  switch (type) {
+    case 'triangle':
+      return 1 - 4 * Math.abs(cycle - 0.5);
+    case 'sawtooth':
+      return 2 * cycle - 1;
+    case 'square':
+      return cycle < 0.5 ? 1 : -1;
+    default:
+      return Math.sin(2 * Math.PI * cycle);
+  }
+}
+
+/** Envelope level (0-1) `t` seconds after the key went down */
+export function envelopeLevel(patch: SynthPatch, t: number): number {
+  const { attack, decay, sustain } = patch.envelope;
+  if (t < attack) return t / attack;
+  if (t < attack + decay) return 1 - (1 - sustain) * ((t - attack) / decay);
+  return sustain;
+}
+
+/**
+ * Render `patch` playing `frequency` for `durationSec`, normalized so the
+ * summed harmonics peak at 0.8.
+ */
+export function renderPatch(
+  patch: SynthPatch,
+  frequency: number,
+  durationSec: number,
+  sampleRate = 44100,
+): Float32Array {
+  const length = Math.floor(durationSec * sampleRate);
+  const samples = new Float32Array(length);
+  const harmonics = patch.harmonics.filter((h) => frequency * h.ratio < sampleRate / 2);
+  const totalGain = harmonics.reduce((sum, h) => sum + h.gain, 0) || 1;
+  const fadeStart = length - Math.floor(TAIL_FADE_SEC * sampleRate);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    let value = 0;
+    for (const h of harmonics) {
+      value += h.gain * waveform(h.type, frequency * h.ratio * t);
+    }
+    let level = envelopeLevel(patch, t);
+    if (i >= fadeStart) level *= (length - i) / (length - fadeStart);
+    samples[i] = (value / totalGain) * level * 0.8;
+  }
+  return samples;
+}
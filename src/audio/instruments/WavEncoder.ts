@@ -0,0 +1,37 @@
+/**
+ * WAV encoder for rendered and soundfont samples
+ *
+ * Writes mono 16-bit PCM, the counterpart of input/WavDecoder, so samples
+ * that only exist in memory can be cached as files for expo-av.
+ */
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const headerSize = 44;
+  const dataSize = samples.length * 2;
+  const bytes = new Uint8Array(headerSize + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(headerSize + i * 2, Math.round(clamped * 32767), true);
+  }
+  return bytes;
+}
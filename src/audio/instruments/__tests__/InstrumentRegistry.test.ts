@@ -0,0 +1,117 @@
+import {
+  InstrumentRegistry,
+  PIANO_INSTRUMENT,
+  selectZone,
+  zoneGain,
+  zonePlaybackRate,
+} from '../InstrumentRegistry';
+import { MockAudioEngine } from '../../AudioEngine.mock';
+import type { InstrumentDefinition, SampleZone } from '../types';
+
+const zone = (overrides: Partial<SampleZone>): SampleZone => ({
+  rootNote: 60,
+  loKey: 0,
+  hiKey: 127,
+  loVel: 0,
+  hiVel: 127,
+  tuneCents: 0,
+  gainDb: 0,
+  ...overrides,
+});
+
+const BELL: InstrumentDefinition = {
+  id: 'bell',
+  name: 'Bell',
+  synth: { harmonics: [{ ratio: 1, gain: 1 }], envelope: { attack: 0, decay: 1, sustain: 0, release: 0.5 } },
+};
+
+describe('InstrumentRegistry', () => {
+  it('starts with the built-in instruments, piano first', () => {
+    const registry = new InstrumentRegistry();
+    const ids = registry.list().map((i) => i.id);
+    expect(ids[0]).toBe('piano');
+    expect(ids).toEqual(expect.arrayContaining(['electric_piano', 'organ', 'strings']));
+  });
+
+  it('notifies listeners when an instrument is registered', () => {
+    const registry = new InstrumentRegistry();
+    const listener = jest.fn();
+    const unsubscribe = registry.onChange(listener);
+
+    registry.register(BELL);
+    expect(registry.get('bell')).toBe(BELL);
+    expect(listener).toHaveBeenCalledWith('bell');
+
+    unsubscribe();
+    registry.register({ ...BELL, name: 'Bell 2' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves unknown ids to the piano', () => {
+    const registry = new InstrumentRegistry();
+    expect(registry.has('theremin')).toBe(false);
+    expect(registry.resolve('theremin')).toBe(PIANO_INSTRUMENT);
+  });
+});
+
+describe('selectZone', () => {
+  const layers = [
+    zone({ loKey: 0, hiKey: 59, loVel: 0, hiVel: 63 }),
+    zone({ loKey: 0, hiKey: 59, loVel: 64, hiVel: 127 }),
+    zone({ loKey: 60, hiKey: 127 }),
+  ];
+
+  it('picks by key range, then velocity layer', () => {
+    expect(selectZone(layers, 48, 0.3)).toBe(layers[0]);
+    expect(selectZone(layers, 48, 0.9)).toBe(layers[1]);
+    expect(selectZone(layers, 72, 0.3)).toBe(layers[2]);
+  });
+
+  it('stretches the nearest zone over gaps', () => {
+    const sparse = [zone({ loKey: 40, hiKey: 50 }), zone({ loKey: 70, hiKey: 80 })];
+    expect(selectZone(sparse, 55, 0.8)).toBe(sparse[0]);
+    expect(selectZone(sparse, 90, 0.8)).toBe(sparse[1]);
+    expect(selectZone([], 60, 0.8)).toBeNull();
+  });
+
+  it('covers every key with the piano samples, nearest sample first', () => {
+    const zones = PIANO_INSTRUMENT.zones!;
+    for (let note = 0; note <= 127; note++) {
+      const selected = selectZone(zones, note, 0.8)!;
+      expect(note).toBeGreaterThanOrEqual(selected.loKey);
+      expect(note).toBeLessThanOrEqual(selected.hiKey);
+    }
+    expect(selectZone(zones, 66, 0.8)!.rootNote).toBe(60);
+    expect(selectZone(zones, 67, 0.8)!.rootNote).toBe(72);
+  });
+});
+
+describe('zone playback', () => {
+  it('shifts pitch by semitones and tuning', () => {
+    expect(zonePlaybackRate(zone({}), 72)).toBeCloseTo(2);
+    expect(zonePlaybackRate(zone({ tuneCents: -1200 }), 60)).toBeCloseTo(0.5);
+  });
+
+  it('converts the dB adjustment to linear gain', () => {
+    expect(zoneGain(zone({ gainDb: 0 }))).toBe(1);
+    expect(zoneGain(zone({ gainDb: -20 }))).toBeCloseTo(0.1);
+  });
+});
+
+describe('MockAudioEngine instruments', () => {
+  it('records the instrument each role played', () => {
+    const engine = new MockAudioEngine();
+    engine.setInstrument('accompaniment', 'organ');
+    engine.setInstrument('demo', 'no-such-instrument');
+
+    engine.playNote(60, 0.8);
+    engine.playNote(64, 0.5, 'accompaniment');
+    engine.playNote(67, 0.7, 'demo');
+
+    expect(engine.getPlayedNotes()).toEqual([
+      { note: 60, velocity: 0.8, role: 'user', instrument: 'piano' },
+      { note: 64, velocity: 0.5, role: 'accompaniment', instrument: 'organ' },
+      { note: 67, velocity: 0.7, role: 'demo', instrument: 'piano' },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+import { parseSf2 } from '../Sf2Parser';
+
+// ── Minimal SF2 writer ───────────────────────────────────────────────────
+
+type Gen = [oper: number, amount: number];
+
+const KEY_RANGE = 43;
+const VEL_RANGE = 44;
+const INSTRUMENT = 41;
+const ATTENUATION = 48;
+const COARSE_TUNE = 51;
+const FINE_TUNE = 52;
+const SAMPLE_ID = 53;
+const SAMPLE_MODES = 54;
+const ROOT_KEY = 58;
+
+const range = (lo: number, hi: number) => lo | (hi << 8);
+
+interface SampleSpec {
+  start: number;
+  end: number;
+  startLoop?: number;
+  endLoop?: number;
+  pitch?: number;
+  correction?: number;
+  type?: number;
+}
+
+interface Sf2Spec {
+  pcm: number[];
+  samples: SampleSpec[];
+  instruments: Gen[][][];
+  presets: { name: string; program: number; bank?: number; zones: Gen[][] }[];
+}
+
+class Writer {
+  bytes: number[] = [];
+  u8(v: number) { this.bytes.push(v & 0xff); }
+  u16(v: number) { this.u8(v); this.u8(v >> 8); }
+  u32(v: number) { this.u16(v & 0xffff); this.u16(v >>> 16); }
+  tag(t: string) { for (const c of t) this.u8(c.charCodeAt(0)); }
+  name(n: string) { for (let i = 0; i < 20; i++) this.u8(i < n.length ? n.charCodeAt(i) : 0); }
+}
+
+function chunk(tag: string, body: number[]): number[] {
+  const w = new Writer();
+  w.tag(tag);
+  w.u32(body.length);
+  w.bytes.push(...body);
+  if (body.length % 2) w.u8(0);
+  return w.bytes;
+}
+
+function list(type: string, chunks: number[][]): number[] {
+  const w = new Writer();
+  w.tag(type);
+  for (const c of chunks) w.bytes.push(...c);
+  return chunk('LIST', w.bytes);
+}
+
+/** Bags and generators for a list of zones, with terminal records */
+function bagsAndGens(zoneLists: Gen[][][]): { bags: Writer; gens: Writer; bagStarts: number[] } {
+  const bags = new Writer();
+  const gens = new Writer();
+  const bagStarts: number[] = [];
+  let bagIndex = 0;
+  let genIndex = 0;
+  for (const zones of zoneLists) {
+    bagStarts.push(bagIndex);
+    for (const zone of zones) {
+      bags.u16(genIndex);
+      bags.u16(0);
+      bagIndex++;
+      for (const [oper, amount] of zone) {
+        gens.u16(oper);
+        gens.u16(amount);
+        genIndex++;
+      }
+    }
+  }
+  bagStarts.push(bagIndex);
+  bags.u16(genIndex);
+  bags.u16(0);
+  gens.u32(0);
+  return { bags, gens, bagStarts };
+}
+
+function buildSf2(spec: Sf2Spec): Uint8Array {
+  const smpl = new Writer();
+  for (const v of spec.pcm) smpl.u16(v);
+
+  const presetData = bagsAndGens(spec.presets.map((p) => p.zones));
+  const phdr = new Writer();
+  spec.presets.forEach((p, i) => {
+    phdr.name(p.name);
+    phdr.u16(p.program);
+    phdr.u16(p.bank ?? 0);
+    phdr.u16(presetData.bagStarts[i]);
+    phdr.u32(0);
+    phdr.u32(0);
+    phdr.u32(0);
+  });
+  phdr.name('EOP');
+  phdr.u16(0);
+  phdr.u16(0);
+  phdr.u16(presetData.bagStarts[spec.presets.length]);
+  phdr.u32(0);
+  phdr.u32(0);
+  phdr.u32(0);
+
+  const instData = bagsAndGens(spec.instruments);
+  const inst = new Writer();
+  spec.instruments.forEach((_, i) => {
+    inst.name(`inst${i}`);
+    inst.u16(instData.bagStarts[i]);
+  });
+  inst.name('EOI');
+  inst.u16(instData.bagStarts[spec.instruments.length]);
+
+  const shdr = new Writer();
+  for (const s of [...spec.samples, { start: 0, end: 0 }]) {
+    shdr.name('sample');
+    shdr.u32(s.start);
+    shdr.u32(s.end);
+    shdr.u32(s.startLoop ?? 0);
+    shdr.u32(s.endLoop ?? 0);
+    shdr.u32(22050);
+    shdr.u8(s.pitch ?? 60);
+    shdr.u8(s.correction ?? 0);
+    shdr.u16(0);
+    shdr.u16(s.type ?? 1);
+  }
+
+  const body = new Writer();
+  body.tag('sfbk');
+  body.bytes.push(
+    ...list('INFO', [chunk('ifil', [2, 0, 4, 0])]),
+    ...list('sdta', [chunk('smpl', smpl.bytes)]),
+    ...list('pdta', [
+      chunk('phdr', phdr.bytes),
+      chunk('pbag', presetData.bags.bytes),
+      chunk('pgen', presetData.gens.bytes),
+      chunk('inst', inst.bytes),
+      chunk('ibag', instData.bags.bytes),
+      chunk('igen', instData.gens.bytes),
+      chunk('shdr', shdr.bytes),
+    ]),
+  );
+  return new Uint8Array(chunk('RIFF', body.bytes));
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────
+
+/** Two velocity layers of the same key range, plus a global zone */
+const LAYERED: Sf2Spec = {
+  pcm: [0, 16384, -16384, 8192, 0, 0, 4096, -4096, 0, 0],
+  samples: [
+    { start: 0, end: 4, startLoop: 1, endLoop: 3, pitch: 60 },
+    { start: 5, end: 9, pitch: 72, correction: -5 },
+  ],
+  instruments: [[
+    [[ROOT_KEY, 62]], // global: every zone plays from D4
+    [[KEY_RANGE, range(0, 127)], [VEL_RANGE, range(0, 63)], [SAMPLE_MODES, 1], [SAMPLE_ID, 0]],
+    [[KEY_RANGE, range(0, 127)], [VEL_RANGE, range(64, 127)], [ATTENUATION, 60], [FINE_TUNE, 10], [SAMPLE_ID, 1]],
+  ]],
+  presets: [
+    { name: 'Layered', program: 4, zones: [[[KEY_RANGE, range(48, 84)], [COARSE_TUNE, 1], [INSTRUMENT, 0]]] },
+  ],
+};
+
+describe('parseSf2', () => {
+  it('reads presets down to sample zones with PCM', () => {
+    const sf2 = parseSf2(buildSf2(LAYERED));
+    if ('error' in sf2) throw new Error(sf2.error);
+
+    expect(sf2.presets).toHaveLength(1);
+    const [preset] = sf2.presets;
+    expect(preset).toMatchObject({ name: 'Layered', program: 4, bank: 0 });
+
+    const [soft, loud] = preset.zones;
+    // Preset key range narrows the instrument's; velocity layers are kept
+    expect(soft).toMatchObject({ loKey: 48, hiKey: 84, loVel: 0, hiVel: 63, rootNote: 62 });
+    expect(loud).toMatchObject({ loKey: 48, hiKey: 84, loVel: 64, hiVel: 127, rootNote: 62 });
+
+    expect(Array.from(soft.pcm!.samples)).toEqual([0, 0.5, -0.5, 0.25]);
+    expect(soft.pcm!.sampleRate).toBe(22050);
+  });
+
+  it('adds preset tuning and attenuation to the instrument zone', () => {
+    const sf2 = parseSf2(buildSf2(LAYERED));
+    if ('error' in sf2) throw new Error(sf2.error);
+    const [soft, loud] = sf2.presets[0].zones;
+
+    expect(soft.tuneCents).toBe(100);
+    expect(soft.gainDb).toBeCloseTo(0);
+    // coarse +1 from the preset, fine +10 and the sample's -5 correction
+    expect(loud.tuneCents).toBe(105);
+    expect(loud.gainDb).toBe(-6);
+  });
+
+  it('keeps loop points only for looping zones', () => {
+    const sf2 = parseSf2(buildSf2(LAYERED));
+    if ('error' in sf2) throw new Error(sf2.error);
+    const [soft, loud] = sf2.presets[0].zones;
+
+    expect(soft.pcm).toMatchObject({ loopStart: 1, loopEnd: 3 });
+    expect(loud.pcm!.loopStart).toBeUndefined();
+  });
+
+  it('shares PCM between zones that play the same sample', () => {
+    const spec: Sf2Spec = {
+      ...LAYERED,
+      instruments: [[
+        [[KEY_RANGE, range(0, 59)], [SAMPLE_ID, 0]],
+        [[KEY_RANGE, range(60, 127)], [SAMPLE_ID, 0]],
+      ]],
+      presets: [{ name: 'Split', program: 0, zones: [[[INSTRUMENT, 0]]] }],
+    };
+    const sf2 = parseSf2(buildSf2(spec));
+    if ('error' in sf2) throw new Error(sf2.error);
+    const [low, high] = sf2.presets[0].zones;
+    expect(low.pcm).toBe(high.pcm);
+  });
+
+  it('plays stereo pairs from the left sample', () => {
+    const spec: Sf2Spec = {
+      ...LAYERED,
+      samples: [{ start: 0, end: 4, type: 4 }, { start: 5, end: 9, type: 2 }],
+      instruments: [[[[SAMPLE_ID, 0]], [[SAMPLE_ID, 1]]]],
+      presets: [{ name: 'Stereo', program: 0, zones: [[[INSTRUMENT, 0]]] }],
+    };
+    const sf2 = parseSf2(buildSf2(spec));
+    if ('error' in sf2) throw new Error(sf2.error);
+    expect(sf2.presets[0].zones).toHaveLength(1);
+  });
+
+  it('sorts presets by bank and program', () => {
+    const spec: Sf2Spec = {
+      ...LAYERED,
+      presets: [
+        { name: 'B', program: 5, zones: [[[INSTRUMENT, 0]]] },
+        { name: 'A', program: 1, zones: [[[INSTRUMENT, 0]]] },
+      ],
+    };
+    const sf2 = parseSf2(buildSf2(spec));
+    if ('error' in sf2) throw new Error(sf2.error);
+    expect(sf2.presets.map((p) => p.name)).toEqual(['A', 'B']);
+  });
+
+  it('rejects files that are not soundfonts', () => {
+    expect(parseSf2(new Uint8Array(4))).toEqual({ error: 'Not a SoundFont 2 file' });
+
+    const wave = new Uint8Array(buildSf2(LAYERED));
+    wave.set([0x57, 0x41, 0x56, 0x45], 8); // 'WAVE'
+    expect(parseSf2(wave)).toEqual({ error: 'Not a SoundFont 2 file' });
+  });
+
+  it('needs sample data and a playable preset', () => {
+    const noZones: Sf2Spec = { ...LAYERED, presets: [{ name: 'Empty', program: 0, zones: [] }] };
+    expect(parseSf2(buildSf2(noZones))).toEqual({ error: 'No playable presets' });
+
+    const bytes = buildSf2(LAYERED);
+    const text = String.fromCharCode(...bytes);
+    const smpl = text.indexOf('smpl');
+    const broken = new Uint8Array(bytes);
+    broken.set([0x78, 0x78, 0x78, 0x78], smpl); // rename the smpl chunk
+    expect(parseSf2(broken)).toEqual({ error: 'Missing smpl chunk' });
+  });
+});
@@ -0,0 +1,62 @@
+import { parseSfz, parseSfzKey } from '../SfzParser';
+
+const EPIANO = `
+// Two velocity layers over two key ranges
+<control> default_path=samples\\epiano\\
+<global> volume=-3
+<group> lovel=1 hivel=80
+<region> sample=soft c3.wav lokey=c2 hikey=b3 pitch_keycenter=c3
+<region> sample=soft c5.wav lokey=c4 hikey=127 pitch_keycenter=72 tune=-8
+<group> lovel=81 hivel=127 volume=0
+<region> sample=hard c3.wav lokey=36 hikey=59 pitch_keycenter=48
+<region> sample=hard c5.wav key=72 transpose=-1
+  loop_mode=loop_continuous loop_start=100 loop_end=900
+/* not a region */
+`;
+
+describe('parseSfzKey', () => {
+  it('reads numbers and note names with middle C at c4', () => {
+    expect(parseSfzKey('60')).toBe(60);
+    expect(parseSfzKey('c4')).toBe(60);
+    expect(parseSfzKey('C#4')).toBe(61);
+    expect(parseSfzKey('eb3')).toBe(51);
+    expect(parseSfzKey('a-1')).toBe(9);
+    expect(parseSfzKey('h4')).toBeNull();
+  });
+});
+
+describe('parseSfz', () => {
+  it('maps regions to zones, inheriting from group and global', () => {
+    const sfz = parseSfz(EPIANO);
+    if ('error' in sfz) throw new Error(sfz.error);
+
+    expect(sfz.regions).toHaveLength(4);
+    expect(sfz.regions[0]).toEqual({
+      sample: 'samples/epiano/soft c3.wav',
+      zone: { rootNote: 48, loKey: 36, hiKey: 59, loVel: 1, hiVel: 80, tuneCents: 0, gainDb: -3 },
+    });
+    expect(sfz.regions[1].zone).toMatchObject({ rootNote: 72, loKey: 60, hiKey: 127, tuneCents: -8 });
+    // The second group overrides the global volume
+    expect(sfz.regions[2].zone).toMatchObject({ loVel: 81, hiVel: 127, gainDb: 0 });
+  });
+
+  it('expands key= and transpose, and keeps loop points', () => {
+    const sfz = parseSfz(EPIANO);
+    if ('error' in sfz) throw new Error(sfz.error);
+    const region = sfz.regions[3];
+    expect(region.zone).toMatchObject({ rootNote: 72, loKey: 72, hiKey: 72, tuneCents: -100 });
+    expect(region.loop).toEqual({ start: 100, end: 900 });
+  });
+
+  it('leaves one-shot regions without loop points', () => {
+    const sfz = parseSfz('<region> sample=a.wav loop_start=10 loop_end=20');
+    if ('error' in sfz) throw new Error(sfz.error);
+    expect(sfz.regions[0].loop).toBeUndefined();
+    expect(sfz.regions[0].zone).toMatchObject({ loKey: 0, hiKey: 127, rootNote: 60 });
+  });
+
+  it('reports files without playable regions or with bad keys', () => {
+    expect(parseSfz('<group> volume=-6')).toEqual({ error: 'No regions with samples' });
+    expect(parseSfz('<region> sample=a.wav lokey=x9')).toEqual({ error: 'Bad key in region for a.wav' });
+  });
+});
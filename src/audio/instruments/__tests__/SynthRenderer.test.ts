@@ -0,0 +1,45 @@
+import { envelopeLevel, renderPatch } from '../SynthRenderer';
+import { encodeWav } from '../WavEncoder';
+import { decodeWav } from '../../../input/WavDecoder';
+import type { SynthPatch } from '../types';
+
+const ORGAN: SynthPatch = {
+  harmonics: [{ ratio: 1, gain: 1 }],
+  envelope: { attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.1 },
+};
+
+describe('SynthRenderer', () => {
+  it('follows attack, decay and sustain', () => {
+    expect(envelopeLevel(ORGAN, 0.005)).toBeCloseTo(0.5);
+    expect(envelopeLevel(ORGAN, 0.01)).toBeCloseTo(1);
+    expect(envelopeLevel(ORGAN, 0.06)).toBeCloseTo(0.75);
+    expect(envelopeLevel(ORGAN, 2)).toBe(0.5);
+  });
+
+  it('renders a held note that peaks at 0.8 and fades out at the end', () => {
+    const samples = renderPatch(ORGAN, 441, 1, 44100);
+    expect(samples).toHaveLength(44100);
+
+    const peak = samples.slice(0, 4410).reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(peak).toBeCloseTo(0.8, 1);
+    const held = samples.slice(22050, 22150).reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(held).toBeCloseTo(0.4, 1);
+    expect(Math.abs(samples[samples.length - 1])).toBeLessThan(0.001);
+  });
+
+  it('drops harmonics above Nyquist', () => {
+    const patch: SynthPatch = { ...ORGAN, harmonics: [{ ratio: 1, gain: 1 }, { ratio: 100, gain: 1 }] };
+    const withOvertone = renderPatch(patch, 441, 0.5, 44100);
+    const alone = renderPatch(ORGAN, 441, 0.5, 44100);
+    expect(Array.from(withOvertone)).toEqual(Array.from(alone));
+  });
+
+  it('encodes renderings as 16-bit WAV that decodes back', () => {
+    const samples = renderPatch(ORGAN, 441, 0.25, 22050);
+    const wav = decodeWav(encodeWav(samples, 22050));
+    if ('error' in wav) throw new Error(wav.error);
+    expect(wav.sampleRate).toBe(22050);
+    expect(wav.samples).toHaveLength(samples.length);
+    expect(wav.samples[1000]).toBeCloseTo(samples[1000], 3);
+  });
+});
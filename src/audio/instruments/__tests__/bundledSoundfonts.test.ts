@@ -0,0 +1,91 @@
+/**
+ * The soundfonts in assets/soundfonts, loaded through SoundfontLoader the way
+ * the app does at startup. Bundled assets resolve to their file path in tests
+ * (see jest.config.js), and expo-asset / expo-file-system read them from disk.
+ */
+
+jest.mock('expo-asset', () => ({
+  Asset: {
+    fromModule: (path: string) => ({ uri: path, localUri: path, downloadAsync: jest.fn().mockResolvedValue(undefined) }),
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  readAsStringAsync: jest.fn((uri: string, options?: { encoding?: string }) =>
+    Promise.resolve(require('fs').readFileSync(uri, options?.encoding === 'base64' ? 'base64' : 'utf8')),
+  ),
+  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { BUNDLED_SOUNDFONTS, registerBundledSoundfonts } from '../bundledSoundfonts';
+import { instrumentRegistry, selectZone, PIANO_INSTRUMENT } from '../InstrumentRegistry';
+
+describe('registerBundledSoundfonts', () => {
+  let registered: string[];
+
+  beforeAll(async () => {
+    registered = await registerBundledSoundfonts();
+  });
+
+  it('registers every bundled soundfont over its built-in', () => {
+    expect(registered).toEqual(BUNDLED_SOUNDFONTS.map((s) => s.id));
+    expect(registered).toEqual(['piano', 'electric_piano', 'organ', 'strings']);
+  });
+
+  it('gives the piano a soft and a hard layer across the keyboard, decoded for WebAudioEngine', () => {
+    const piano = instrumentRegistry.resolve('piano');
+    expect(piano.name).toBe('Piano');
+    expect(piano.synth).toBe(PIANO_INSTRUMENT.synth);
+    expect(piano.zones).toHaveLength(10);
+    expect(piano.zones!.every((z) => z.pcm && z.pcm.sampleRate === 44100 && z.pcm.samples.length > 0)).toBe(true);
+    expect(new Set(piano.zones!.map((z) => `${z.loVel}-${z.hiVel}`))).toEqual(new Set(['1-80', '81-127']));
+
+    const soft = selectZone(piano.zones!, 60, 0.3)!;
+    const hard = selectZone(piano.zones!, 60, 0.9)!;
+    expect(soft.rootNote).toBe(60);
+    expect(hard.rootNote).toBe(60);
+    expect(soft.hiVel).toBe(80);
+    expect(hard.loVel).toBe(81);
+    expect(soft.pcm).not.toBe(hard.pcm);
+    expect(selectZone(piano.zones!, 21, 0.9)!.rootNote).toBe(36);
+    expect(selectZone(piano.zones!, 108, 0.3)!.rootNote).toBe(84);
+  });
+
+  it('plays the soft layer duller than the hard one', () => {
+    // Sample-to-sample change tracks high-frequency content
+    const roughness = (samples: Float32Array): number => {
+      let diff = 0;
+      let level = 0;
+      for (let i = 1; i < samples.length; i++) {
+        diff += Math.abs(samples[i] - samples[i - 1]);
+        level += Math.abs(samples[i]);
+      }
+      return diff / level;
+    };
+    const piano = instrumentRegistry.resolve('piano');
+    const soft = selectZone(piano.zones!, 72, 0.3)!.pcm!.samples;
+    const hard = selectZone(piano.zones!, 72, 0.9)!.pcm!.samples;
+    expect(roughness(soft)).toBeLessThan(roughness(hard));
+  });
+
+  it('loops the rendered instruments on their sustain, one zone per octave', () => {
+    for (const id of ['electric_piano', 'organ', 'strings']) {
+      const instrument = instrumentRegistry.resolve(id);
+      expect(instrument.id).toBe(id);
+      expect(instrument.zones!.map((z) => z.rootNote)).toEqual([36, 48, 60, 72, 84]);
+      for (const zone of instrument.zones!) {
+        const { samples, loopStart, loopEnd } = zone.pcm!;
+        expect(zone.source).toEqual({ uri: expect.stringMatching(/^file:\/\/\/cache\/instrument-/) });
+        expect(loopStart).toBeGreaterThan(0);
+        expect(loopEnd).toBeGreaterThan(loopStart!);
+        expect(loopEnd).toBeLessThan(samples.length);
+        // Seamless: the frame after the loop is the loop's first
+        expect(samples[loopEnd!]).toBeCloseTo(samples[loopStart!], 3);
+        // The pitch nudge that makes a period whole frames is corrected in the header
+        expect(Math.abs(zone.tuneCents)).toBeLessThan(10);
+      }
+    }
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Soundfonts bundled with the app
+ *
+ * assets/soundfonts/ holds the velocity-layered piano (SFZ over WAV samples)
+ * and the electric piano, organ and strings rendered from their synth patches
+ * into looped SF2 presets; scripts/build-soundfonts.ts writes them. At startup
+ * each is loaded and registered over the built-in of the same id, so the
+ * engines play samples instead of oscillators from then on. Until it loads, or
+ * if it fails to, the built-in keeps playing.
+ */
+
+import { instrumentRegistry } from './InstrumentRegistry';
+import { loadSf2Instrument, loadSfzInstrument } from './SoundfontLoader';
+import type { InstrumentDefinition, InstrumentId } from './types';
+import { logger } from '../../utils/logger';
+
+/** The piano's samples by their path in piano.sfz */
+const PIANO_SAMPLES: Record<string, number> = {
+  'piano/c2-soft.wav': require('../../../assets/soundfonts/piano/c2-soft.wav'),
+  'piano/c3-soft.wav': require('../../../assets/soundfonts/piano/c3-soft.wav'),
+  'piano/c4-soft.wav': require('../../../assets/soundfonts/piano/c4-soft.wav'),
+  'piano/c5-soft.wav': require('../../../assets/soundfonts/piano/c5-soft.wav'),
+  'piano/c6-soft.wav': require('../../../assets/soundfonts/piano/c6-soft.wav'),
+  'piano/c2-hard.wav': require('../../../assets/soundfonts/piano/c2-hard.wav'),
+  'piano/c3-hard.wav': require('../../../assets/soundfonts/piano/c3-hard.wav'),
+  'piano/c4-hard.wav': require('../../../assets/soundfonts/piano/c4-hard.wav'),
+  'piano/c5-hard.wav': require('../../../assets/soundfonts/piano/c5-hard.wav'),
+  'piano/c6-hard.wav': require('../../../assets/soundfonts/piano/c6-hard.wav'),
+};
+
+type SoundfontAsset =
+  | { id: InstrumentId; format: 'sfz'; module: number; samples: Record<string, number> }
+  | { id: InstrumentId; format: 'sf2'; module: number };
+
+export const BUNDLED_SOUNDFONTS: readonly SoundfontAsset[] = [
+  { id: 'piano', format: 'sfz', module: require('../../../assets/soundfonts/piano.sfz'), samples: PIANO_SAMPLES },
+  { id: 'electric_piano', format: 'sf2', module: require('../../../assets/soundfonts/electric-piano.sf2') },
+  { id: 'organ', format: 'sf2', module: require('../../../assets/soundfonts/organ.sf2') },
+  { id: 'strings', format: 'sf2', module: require('../../../assets/soundfonts/strings.sf2') },
+];
+
+/**
+ * Load every bundled soundfont and register it, keeping the built-in's name
+ * and synth patch (engines that can't play the samples still use the patch).
+ * One at a time, so decoding doesn't hold the JS thread in one long stretch.
+ * Resolves to the ids registered; failures are logged and skipped.
+ */
+export async function registerBundledSoundfonts(): Promise<InstrumentId[]> {
+  const registered: InstrumentId[] = [];
+  for (const soundfont of BUNDLED_SOUNDFONTS) {
+    const builtIn = instrumentRegistry.resolve(soundfont.id);
+    const options = { id: soundfont.id, name: builtIn.name, synth: builtIn.synth };
+    const loaded: InstrumentDefinition | { error: string } =
+      soundfont.format === 'sfz'
+        ? await loadSfzInstrument(soundfont.module, soundfont.samples, options)
+        : await loadSf2Instrument(soundfont.module, options);
+
+    if ('error' in loaded) {
+      logger.warn(`[bundledSoundfonts] Keeping the built-in ${soundfont.id}: ${loaded.error}`);
+      continue;
+    }
+    instrumentRegistry.register(loaded);
+    registered.push(soundfont.id);
+  }
+  return registered;
+}
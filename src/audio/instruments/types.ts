@@ -0,0 +1,64 @@
+/**
+ * Instrument definitions for the audio engines
+ *
+ * An instrument is a synth patch (always present, so every engine can play
+ * it) plus optional sample zones. Zones map key and velocity ranges to a
+ * recording, so a set can hold several velocity layers per key range.
+ */
+
+export type InstrumentId = string;
+
+export interface Harmonic {
+  /** Frequency as a multiple of the fundamental */
+  ratio: number;
+  /** Level relative to the fundamental (1.0) */
+  gain: number;
+  type?: 'sine' | 'triangle' | 'sawtooth' | 'square';
+}
+
+/** Envelope times in seconds; sustain is a fraction of the peak */
+export interface SynthEnvelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+export interface SynthPatch {
+  harmonics: Harmonic[];
+  envelope: SynthEnvelope;
+}
+
+/** Decoded mono PCM, as SF2 files and WAV samples provide it */
+export interface PcmData {
+  samples: Float32Array;
+  sampleRate: number;
+  /** Loop points in frames; absent for one-shot samples */
+  loopStart?: number;
+  loopEnd?: number;
+}
+
+export interface SampleZone {
+  /** Playable file: a bundled asset module (require()) or a file URI */
+  source?: number | { uri: string };
+  /** In-memory samples, for engines that build buffers directly */
+  pcm?: PcmData;
+  /** Key the recording was made at */
+  rootNote: number;
+  loKey: number;
+  hiKey: number;
+  /** MIDI velocity range 0-127 */
+  loVel: number;
+  hiVel: number;
+  /** Pitch shift applied on playback, in cents (positive = higher) */
+  tuneCents: number;
+  /** Level adjustment in dB */
+  gainDb: number;
+}
+
+export interface InstrumentDefinition {
+  id: InstrumentId;
+  name: string;
+  synth: SynthPatch;
+  zones?: SampleZone[];
+}
@@ -11,6 +11,14 @@ export interface NoteHandle {
 
 export type AudioContextState = 'suspended' | 'running' | 'closed';
 
+/**
+ * Who a note is played for. Each role can sound on its own instrument:
+ * the learner's keys, the auto-played accompaniment, and demo playback.
+ */
+export type InstrumentRole = 'user' | 'accompaniment' | 'demo';
+
+export const INSTRUMENT_ROLES: readonly InstrumentRole[] = ['user', 'accompaniment', 'demo'];
+
 export interface IAudioEngine {
   // Lifecycle
   initialize(): Promise<void>;
@@ -19,10 +27,14 @@ export interface IAudioEngine {
   dispose(): void;
 
   // Playback
-  playNote(note: number, velocity?: number): NoteHandle;
+  playNote(note: number, velocity?: number, role?: InstrumentRole): NoteHandle;
   releaseNote(handle: NoteHandle): void;
   releaseAllNotes(): void;
 
+  // Instruments (ids from the instrument registry; unknown ids are ignored)
+  setInstrument(role: InstrumentRole, instrumentId: string): void;
+  getInstrument(role: InstrumentRole): string;
+
   // Metronome
   playMetronomeClick(frequency?: number, volume?: number): void;
 
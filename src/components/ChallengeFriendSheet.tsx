@@ -3,6 +3,8 @@
  *
  * A slide-up modal that displays accepted friends as a horizontal list.
  * Tapping a friend immediately sends a challenge via `createChallenge()`.
+ * The score must come from a server-verified performance (`performanceId`),
+ * sent with its ghost for the friend to race.
  * Shows a brief "Challenge Sent!" confirmation after sending.
  */
 
@@ -24,6 +26,7 @@ import { useAuthStore } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { createChallenge } from '../services/firebase/socialService';
 import type { FriendChallenge } from '../stores/types';
+import type { ChallengeGhost } from '../core/exercises/ghostRace';
 import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS } from '../theme/tokens';
 import { logger } from '../utils/logger';
 
@@ -33,6 +36,9 @@ export interface ChallengeFriendSheetProps {
   exerciseId: string;
   exerciseTitle: string;
   score: number;
+  /** Verified performance behind `score` (users/{uid}/performances) */
+  performanceId: string;
+  ghost: ChallengeGhost;
 }
 
 const CHALLENGE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -43,6 +49,8 @@ export function ChallengeFriendSheet({
   exerciseId,
   exerciseTitle,
   score,
+  performanceId,
+  ghost,
 }: ChallengeFriendSheetProps): React.ReactElement {
   const friends = useSocialStore((s) => s.friends);
   const acceptedFriends = friends.filter((f) => f.status === 'accepted');
@@ -70,6 +78,8 @@ export function ChallengeFriendSheet({
           exerciseId,
           exerciseTitle,
           fromScore: score,
+          fromPerformanceId: performanceId,
+          ghost,
           toScore: null,
           status: 'pending',
           createdAt: now,
@@ -98,7 +108,7 @@ export function ChallengeFriendSheet({
         setSendingTo(null);
       }
     },
-    [sendingTo, exerciseId, exerciseTitle, score, onClose],
+    [sendingTo, exerciseId, exerciseTitle, score, performanceId, ghost, onClose],
   );
 
   const renderFriend = useCallback(
@@ -1,7 +1,8 @@
 /**
  * LoopRecorderWidget — Record, overdub, and playback loops in free play.
  *
- * Provides record/stop/play/clear controls for the parent's recording state.
+ * Provides record/stop/play/clear controls for the parent's recording state,
+ * plus an optional export button for sharing the loop as a MIDI file.
  */
 
 import React from 'react';
@@ -20,6 +21,7 @@ interface LoopRecorderWidgetProps {
   onPlay: () => void;
   onStopPlayback: () => void;
   onClear: () => void;
+  onExport?: () => void;
   testID?: string;
 }
 
@@ -33,6 +35,7 @@ export function LoopRecorderWidget({
   onPlay,
   onStopPlayback,
   onClear,
+  onExport,
   testID,
 }: LoopRecorderWidgetProps): React.ReactElement {
   return (
@@ -101,6 +104,15 @@ export function LoopRecorderWidget({
             </View>
           </PressableScale>
         )}
+
+        {/* Export as MIDI */}
+        {onExport && hasRecording && !isRecording && !isPlaying && (
+          <PressableScale onPress={onExport} scaleDown={0.9} soundOnPress={false} testID="loop-export">
+            <View style={[styles.btn, styles.btnClear]}>
+              <MaterialCommunityIcons name="export-variant" size={14} color={COLORS.textSecondary} />
+            </View>
+          </PressableScale>
+        )}
       </View>
     </View>
   );
@@ -5,6 +5,12 @@
  * Notes scroll top-to-bottom toward a hit line at 80% from the top.
  * X axis = pitch (MIDI notes), Y axis = time (beats).
  *
+ * Exercises with sustain pedal markings get a narrow pedal lane along the
+ * left edge: one bar per pedal-down range, scrolling with the notes.
+ *
+ * In a friend challenge, the challenger's notes (the race ghost) scroll
+ * along as narrow orange bars over the exercise's notes.
+ *
  * Uses transform-based scrolling (translateY on content layer) for smooth
  * 60fps playback — no ScrollView.
  */
@@ -13,7 +19,9 @@ import React, { useMemo } from 'react';
 import { View, StyleSheet, Text } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { midiToNoteName } from '@/core/music/MusicTheory';
-import type { NoteEvent } from '@/core/exercises/types';
+import type { MeterChange, NoteEvent, PedalMarking, TempoChange } from '@/core/exercises/types';
+import type { GhostNote } from '@/core/exercises/ghostRace';
+import { createTempoTimeline, measureStartBeats } from '@/core/exercises/tempoMap';
 import { COLORS as THEME, glowColor as hexGlow } from '@/theme/tokens';
 
 // ---------------------------------------------------------------------------
@@ -32,6 +40,12 @@ export const LOOK_AHEAD_BEATS = 4;
 /** Black keys are 60% the width of white keys */
 export const BLACK_KEY_WIDTH_RATIO = 0.6;
 
+/** Width of the sustain pedal lane along the left edge */
+export const PEDAL_LANE_WIDTH = 8;
+
+/** Race ghost bars are this fraction of a key wide, centred on it */
+export const RACE_GHOST_WIDTH_RATIO = 0.4;
+
 // Default MIDI range when no notes are provided
 const DEFAULT_MIDI_MIN = 48; // C3
 const DEFAULT_MIDI_MAX = 72; // C5
@@ -95,6 +109,11 @@ const PIANO_ROLL_COLORS = {
   ghostBorder: hexGlow(THEME.textPrimary, 0.08),
   ghostInnerHighlight: hexGlow(THEME.textPrimary, 0.08),
 
+  // Friend challenge race ghost (what the challenger played)
+  raceGhost: hexGlow(THEME.feedbackLate, 0.7),
+  raceGhostBorder: THEME.feedbackLate,        // #FFAB40
+  raceGhostWrong: hexGlow(THEME.feedbackLate, 0.25),
+
   // Note surface highlight
   innerHighlight: hexGlow(THEME.textPrimary, 0.25),
 
@@ -117,6 +136,14 @@ const PIANO_ROLL_COLORS = {
   noteShadow: '#000000',
   noteShadowActive: '#FF8A80',
 
+  // Sustain pedal lane
+  pedalLane: hexGlow(THEME.textPrimary, 0.04),
+  pedalUpcoming: hexGlow(THEME.evolutionGlow, 0.55),
+  pedalActive: THEME.evolutionGlow,           // #FFD54F
+  pedalPast: hexGlow(THEME.evolutionGlow, 0.2),
+  pedalIndicatorOff: hexGlow(THEME.textPrimary, 0.3),
+  pedalIndicatorOn: THEME.evolutionGlow,      // #FFD54F
+
   // Beat counter
   beatCounterBg: hexGlow('#000000', 0.6),
   beatCounterText: hexGlow(THEME.textPrimary, 0.5),
@@ -251,6 +278,10 @@ export interface VerticalPianoRollProps {
   currentBeat?: number;
   tempo?: number;
   timeSignature?: [number, number];
+  /** Later tempo changes — the grace zone follows the local tempo */
+  tempoMap?: TempoChange[];
+  /** Later time-signature changes — moves the measure lines */
+  meterMap?: MeterChange[];
   containerWidth: number;
   containerHeight: number;
   midiMin: number;
@@ -261,6 +292,12 @@ export interface VerticalPianoRollProps {
   testID?: string;
   /** Per-note color overrides for replay mode (index → hex color) */
   noteColorOverrides?: Map<number, string>;
+  /** Sustain pedal markings — draws the pedal lane when non-empty */
+  pedal?: PedalMarking[];
+  /** Live pedal state from the MIDI keyboard (lights the pedal indicator) */
+  isPedalDown?: boolean;
+  /** Notes the challenger played, when racing a friend challenge */
+  raceGhostNotes?: GhostNote[];
 }
 
 // ---------------------------------------------------------------------------
@@ -273,6 +310,8 @@ export const VerticalPianoRoll = React.memo(
     currentBeat = 0,
     tempo = 120,
     timeSignature = [4, 4],
+    tempoMap,
+    meterMap,
     containerWidth,
     containerHeight,
     midiMin,
@@ -282,6 +321,9 @@ export const VerticalPianoRoll = React.memo(
     timingGracePeriodMs = 200,
     testID,
     noteColorOverrides,
+    pedal,
+    isPedalDown = false,
+    raceGhostNotes,
   }: VerticalPianoRollProps) => {
     const midiRange = midiMax - midiMin;
     const hitLineY = containerHeight * HIT_LINE_RATIO;
@@ -292,7 +334,8 @@ export const VerticalPianoRoll = React.memo(
 
     // Timing zone: convert grace period from ms to pixels via beats.
     // At 120 BPM with 200ms grace: 200 / 500 = 0.4 beats ≈ 40-50px per side.
-    const msPerBeat = 60000 / tempo;
+    const timeline = useMemo(() => createTempoTimeline({ tempo, tempoMap }), [tempo, tempoMap]);
+    const msPerBeat = timeline.msPerBeatAt(currentBeat);
     const zoneHalfBeats = timingGracePeriodMs / msPerBeat;
     const zoneHalfPx = Math.max(12, zoneHalfBeats * pixelsPerBeat);
 
@@ -309,15 +352,22 @@ export const VerticalPianoRoll = React.memo(
         : 4;
 
     // Beat lines (horizontal grid)
-    const beatsPerMeasure = timeSignature[0];
+    const [beatsPerBar, beatUnit] = timeSignature;
     const totalBeats = Math.ceil(maxBeat) + 4;
     const beatLines = useMemo(() => {
+      const measureStarts = new Set(
+        measureStartBeats({ timeSignature: [beatsPerBar, beatUnit], meterMap }, totalBeats),
+      );
       const lines: { beat: number; isMeasureLine: boolean }[] = [];
       for (let beat = 0; beat <= totalBeats; beat++) {
-        lines.push({ beat, isMeasureLine: beat % beatsPerMeasure === 0 });
+        lines.push({ beat, isMeasureLine: measureStarts.has(beat) });
+      }
+      // Bars of odd length (e.g. 5/8 counted in quarters) start between beats
+      for (const beat of measureStarts) {
+        if (!Number.isInteger(beat) && beat <= totalBeats) lines.push({ beat, isMeasureLine: true });
       }
       return lines;
-    }, [totalBeats, beatsPerMeasure]);
+    }, [totalBeats, beatsPerBar, beatUnit, meterMap]);
 
     // Pre-compute visual notes with positions, colors, and state
     const visualNotes = useMemo(() => {
@@ -397,6 +447,24 @@ export const VerticalPianoRoll = React.memo(
       });
     }, [notes, currentBeat, containerWidth, containerHeight, midiMin, midiRange, hitLineY, pixelsPerBeat, noteColorOverrides]);
 
+    // Pedal lane segments, positioned like notes (bottom edge = pedal down)
+    const visualPedal = useMemo(() => {
+      if (!pedal || pedal.length === 0) return [];
+      return pedal.map((marking, index) => {
+        const height = Math.max(4, (marking.endBeat - marking.startBeat) * pixelsPerBeat);
+        const topPosition = hitLineY - marking.startBeat * pixelsPerBeat - height;
+        const isPast = currentBeat >= 0 && marking.endBeat < currentBeat;
+        const isActive = currentBeat >= 0 && marking.startBeat <= currentBeat && currentBeat < marking.endBeat;
+        const color = isActive
+          ? PIANO_ROLL_COLORS.pedalActive
+          : isPast
+            ? PIANO_ROLL_COLORS.pedalPast
+            : PIANO_ROLL_COLORS.pedalUpcoming;
+        return { index, height, topPosition, color };
+      });
+    }, [pedal, currentBeat, hitLineY, pixelsPerBeat]);
+    const hasPedalLane = visualPedal.length > 0;
+
     // Ghost notes (semi-transparent overlay of upcoming notes)
     const visualGhostNotes = useMemo(() => {
       if (!ghostNotes || ghostNotes.length === 0) return [];
@@ -416,6 +484,18 @@ export const VerticalPianoRoll = React.memo(
       });
     }, [ghostNotes, ghostBeatOffset, containerWidth, midiMin, midiRange, hitLineY, pixelsPerBeat]);
 
+    // Race ghost bars, positioned like notes (bottom edge = when it was struck)
+    const visualRaceGhost = useMemo(() => {
+      if (!raceGhostNotes || raceGhostNotes.length === 0) return [];
+      return raceGhostNotes.map((note, index) => {
+        const key = calculateNoteX(note.note, containerWidth, midiMin, midiRange);
+        const width = key.width * RACE_GHOST_WIDTH_RATIO;
+        const height = Math.max(8, note.durationBeats * pixelsPerBeat);
+        const topPosition = hitLineY - note.startBeat * pixelsPerBeat - height;
+        return { index, x: key.x + (key.width - width) / 2, width, height, topPosition, isCorrect: note.isCorrect };
+      });
+    }, [raceGhostNotes, containerWidth, midiMin, midiRange, hitLineY, pixelsPerBeat]);
+
     return (
       <View
         style={[styles.container, { width: containerWidth, height: containerHeight }]}
@@ -449,6 +529,27 @@ export const VerticalPianoRoll = React.memo(
             />
           ))}
 
+          {/* Sustain pedal lane (left edge) */}
+          {hasPedalLane && (
+            <View
+              style={[
+                styles.pedalLane,
+                { top: hitLineY - totalBeats * pixelsPerBeat, height: totalBeats * pixelsPerBeat },
+              ]}
+              testID="pedal-lane"
+            />
+          )}
+          {visualPedal.map((vp) => (
+            <View
+              key={`pedal-${vp.index}`}
+              testID={`pedal-bar-${vp.index}`}
+              style={[
+                styles.pedalBar,
+                { top: vp.topPosition, height: vp.height, backgroundColor: vp.color },
+              ]}
+            />
+          ))}
+
           {/* Ghost notes layer (rendered below real notes in z-order) */}
           {visualGhostNotes.map((gn) => (
             <View
@@ -545,6 +646,24 @@ export const VerticalPianoRoll = React.memo(
               </View>
             </React.Fragment>
           ))}
+
+          {/* Race ghost bars (above the notes they were played against) */}
+          {visualRaceGhost.map((rg) => (
+            <View
+              key={`race-ghost-${rg.index}`}
+              testID={`race-ghost-note-${rg.index}`}
+              style={[
+                styles.raceGhostNote,
+                {
+                  left: rg.x,
+                  top: rg.topPosition,
+                  width: rg.width,
+                  height: rg.height,
+                  backgroundColor: rg.isCorrect ? PIANO_ROLL_COLORS.raceGhost : PIANO_ROLL_COLORS.raceGhostWrong,
+                },
+              ]}
+            />
+          ))}
         </View>
 
         {/* Timing zone: symmetric gradient centered on press line (early/late window) */}
@@ -567,6 +686,20 @@ export const VerticalPianoRoll = React.memo(
           testID="press-line"
         />
 
+        {/* Live pedal indicator (bottom-left corner) */}
+        {hasPedalLane && (
+          <View style={styles.pedalIndicator} testID="pedal-indicator">
+            <Text
+              style={[
+                styles.pedalIndicatorText,
+                { color: isPedalDown ? PIANO_ROLL_COLORS.pedalIndicatorOn : PIANO_ROLL_COLORS.pedalIndicatorOff },
+              ]}
+            >
+              Ped.
+            </Text>
+          </View>
+        )}
+
         {/* Beat counter (bottom-right corner) */}
         <View style={styles.beatCounter}>
           <Text style={styles.beatText}>
@@ -667,6 +800,13 @@ const styles = StyleSheet.create({
     zIndex: 5,
     overflow: 'hidden',
   },
+  raceGhostNote: {
+    position: 'absolute',
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: PIANO_ROLL_COLORS.raceGhostBorder,
+    zIndex: 11,
+  },
   ghostNoteInner: {
     position: 'absolute',
     top: 0,
@@ -717,6 +857,35 @@ const styles = StyleSheet.create({
     backgroundColor: PIANO_ROLL_COLORS.pressLineGlow,
     zIndex: 19,
   },
+  pedalLane: {
+    position: 'absolute',
+    left: 0,
+    width: PEDAL_LANE_WIDTH,
+    backgroundColor: PIANO_ROLL_COLORS.pedalLane,
+    zIndex: 2,
+  },
+  pedalBar: {
+    position: 'absolute',
+    left: 1,
+    width: PEDAL_LANE_WIDTH - 2,
+    borderRadius: 3,
+    zIndex: 3,
+  },
+  pedalIndicator: {
+    position: 'absolute',
+    bottom: 8,
+    left: 8,
+    backgroundColor: PIANO_ROLL_COLORS.beatCounterBg,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    zIndex: 25,
+  },
+  pedalIndicatorText: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    fontWeight: '700',
+  },
   beatCounter: {
     position: 'absolute',
     bottom: 8,
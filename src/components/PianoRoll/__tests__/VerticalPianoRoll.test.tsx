@@ -2,7 +2,8 @@
  * VerticalPianoRoll Tests
  *
  * Tests coordinate calculation functions (deriveMidiRange, calculateNoteX,
- * calculateNoteTop) and component rendering (note bars, hit line, ghost notes).
+ * calculateNoteTop) and component rendering (note bars, hit line, ghost notes,
+ * race ghost).
  */
 
 import React from 'react';
@@ -15,6 +16,7 @@ import {
   PIXELS_PER_BEAT,
   HIT_LINE_RATIO,
   BLACK_KEY_WIDTH_RATIO,
+  RACE_GHOST_WIDTH_RATIO,
 } from '../VerticalPianoRoll';
 import type { NoteEvent } from '@/core/exercises/types';
 
@@ -366,3 +368,96 @@ describe('Ghost notes rendering', () => {
     expect(queryAllByTestId(/^ghost-note-/)).toHaveLength(0);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Race ghost rendering
+// ---------------------------------------------------------------------------
+
+describe('Race ghost rendering', () => {
+  const baseNotes: NoteEvent[] = [
+    { note: 60, startBeat: 0, durationBeats: 1 },
+    { note: 64, startBeat: 1, durationBeats: 1 },
+  ];
+
+  it('draws narrow bars centred on the keys the challenger struck', () => {
+    const { getByTestId, getAllByTestId } = render(
+      <VerticalPianoRoll
+        notes={baseNotes}
+        containerWidth={400}
+        containerHeight={500}
+        midiMin={48}
+        midiMax={72}
+        raceGhostNotes={[
+          { note: 60, startBeat: 0.1, durationBeats: 1, isCorrect: true },
+          { note: 65, startBeat: 1, durationBeats: 0.5, isCorrect: false },
+        ]}
+      />,
+    );
+    expect(getAllByTestId(/^race-ghost-note-/)).toHaveLength(2);
+
+    const key = calculateNoteX(60, 400, 48, 24);
+    const style = Object.assign({}, ...[getByTestId('race-ghost-note-0').props.style].flat());
+    expect(style.width).toBeCloseTo(key.width * RACE_GHOST_WIDTH_RATIO);
+    expect(style.left + style.width / 2).toBeCloseTo(key.x + key.width / 2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pedal lane rendering
+// ---------------------------------------------------------------------------
+
+describe('Pedal lane rendering', () => {
+  const defaultProps = {
+    notes: [
+      { note: 60, startBeat: 0, durationBeats: 2 },
+      { note: 64, startBeat: 2, durationBeats: 2 },
+    ] as NoteEvent[],
+    currentBeat: 0,
+    containerWidth: 400,
+    containerHeight: 500,
+    midiMin: 48,
+    midiMax: 72,
+    testID: 'vpr',
+  };
+
+  it('does not render a pedal lane without pedal markings', () => {
+    const { queryByTestId } = render(<VerticalPianoRoll {...defaultProps} />);
+    expect(queryByTestId('pedal-lane')).toBeNull();
+    expect(queryByTestId('pedal-indicator')).toBeNull();
+  });
+
+  it('renders one pedal bar per marking', () => {
+    const { getByTestId, getAllByTestId } = render(
+      <VerticalPianoRoll
+        {...defaultProps}
+        pedal={[
+          { startBeat: 0, endBeat: 2 },
+          { startBeat: 2.25, endBeat: 4 },
+        ]}
+      />,
+    );
+    expect(getByTestId('pedal-lane')).toBeTruthy();
+    expect(getAllByTestId(/^pedal-bar-/)).toHaveLength(2);
+  });
+
+  it('sizes pedal bars by their beat range', () => {
+    const { getByTestId } = render(
+      <VerticalPianoRoll
+        {...defaultProps}
+        pedal={[
+          { startBeat: 0, endBeat: 2 },
+          { startBeat: 2.5, endBeat: 3 },
+        ]}
+      />,
+    );
+    const flat = (id: string) => Object.assign({}, ...[getByTestId(id).props.style].flat());
+    expect(flat('pedal-bar-0').height).toBe(flat('pedal-bar-1').height * 4);
+  });
+
+  it('renders the live pedal indicator', () => {
+    const { getByText } = render(
+      <VerticalPianoRoll {...defaultProps} pedal={[{ startBeat: 0, endBeat: 4 }]} isPedalDown />,
+    );
+    expect(getByText('Ped.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,451 @@
+/**
+ * Staff Notation Component
+ *
+ * Grand-staff rendering of Exercise.notes for sight reading: treble and bass
+ * clefs, key and time signature, bar lines, ledger lines, stems, flags and
+ * beams. Engraving decisions come from core/music/staffLayout; this file
+ * only draws them with react-native-svg.
+ *
+ * The clefs stay pinned on the left while the music scrolls past a fixed
+ * playhead. Scrolling reads `realtimeBeatRef` every animation frame and
+ * moves the note layer with a transform, so playback never re-renders the
+ * SVG tree. Noteheads are coloured by their live NoteScore status.
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Animated, StyleSheet, View } from 'react-native';
+import Svg, { Circle, Ellipse, G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { layoutGrandStaff, STAFF_TOP_POSITION } from '@/core/music/staffLayout';
+import type { StaffChord, StaffClef, StaffLayout } from '@/core/music/staffLayout';
+import type { MeterChange, NoteEvent, NoteScore } from '@/core/exercises/types';
+import { COLORS } from '@/theme/tokens';
+
+// ---------------------------------------------------------------------------
+// Exported constants
+// ---------------------------------------------------------------------------
+
+/** Distance between two staff lines */
+export const STAFF_LINE_SPACING = 10;
+
+/** Default horizontal pixels per beat */
+export const STAFF_PIXELS_PER_BEAT = 56;
+
+/** Playhead distance from the end of the clef/key/time header */
+export const STAFF_PLAYHEAD_OFFSET = 32;
+
+export type StaffNoteStatus = NonNullable<NoteScore['status']>;
+
+export interface StaffNotationProps {
+  notes: NoteEvent[];
+  timeSignature: [number, number];
+  /** Later time-signature changes — moves bar lines and marks each change */
+  meterMap?: MeterChange[];
+  keySignature: string;
+  /** 60fps beat position (useExercisePlayback's realtimeBeatRef) */
+  realtimeBeatRef: React.MutableRefObject<number>;
+  width: number;
+  /** Live status per index into `notes` */
+  noteStatuses?: ReadonlyMap<number, StaffNoteStatus>;
+  pixelsPerBeat?: number;
+  testID?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+const S = STAFF_LINE_SPACING;
+const HALF = S / 2;
+const TREBLE_TOP = 4 * S;
+const BASS_TOP = TREBLE_TOP + 4 * S + 6 * S;
+const STAFF_HEIGHT = BASS_TOP + 4 * S + 4 * S;
+const STAFF_TOPS: Record<StaffClef, number> = { treble: TREBLE_TOP, bass: BASS_TOP };
+
+const HEAD_RX = S * 0.62;
+const HEAD_RY = S * 0.44;
+const STEM_LENGTH = S * 3.5;
+const BEAM_THICKNESS = S * 0.45;
+const CLEF_WIDTH = S * 3.4;
+const KEY_ACCIDENTAL_WIDTH = S * 0.9;
+const TIME_SIGNATURE_WIDTH = S * 2.4;
+
+const INK = COLORS.textPrimary;
+const STAFF_LINE_COLOR = COLORS.textSecondary;
+
+const STATUS_COLORS: Record<StaffNoteStatus, string> = {
+  perfect: COLORS.feedbackPerfect,
+  good: COLORS.feedbackGood,
+  ok: COLORS.feedbackOk,
+  early: COLORS.feedbackEarly,
+  late: COLORS.feedbackLate,
+  missed: COLORS.feedbackMiss,
+  wrong: COLORS.feedbackMiss,
+};
+
+const ACCIDENTAL_GLYPHS = { sharp: '♯', flat: '♭', natural: '♮' } as const;
+
+function yFor(clef: StaffClef, position: number): number {
+  return STAFF_TOPS[clef] + (STAFF_TOP_POSITION - position) * HALF;
+}
+
+/** Width of the pinned clef + key signature + time signature header */
+export function staffHeaderWidth(keySignatureAccidentals: number): number {
+  return CLEF_WIDTH + keySignatureAccidentals * KEY_ACCIDENTAL_WIDTH + TIME_SIGNATURE_WIDTH;
+}
+
+// ---------------------------------------------------------------------------
+// Drawing helpers
+// ---------------------------------------------------------------------------
+
+function StaffLines({ width }: { width: number }): React.JSX.Element {
+  return (
+    <>
+      {(['treble', 'bass'] as const).flatMap((clef) =>
+        [0, 2, 4, 6, 8].map((position) => (
+          <Line
+            key={`${clef}-${position}`}
+            x1={0}
+            x2={width}
+            y1={yFor(clef, position)}
+            y2={yFor(clef, position)}
+            stroke={STAFF_LINE_COLOR}
+            strokeWidth={1}
+          />
+        )),
+      )}
+    </>
+  );
+}
+
+/** X offset of each head — seconds in a chord alternate sides of the stem */
+function headOffsets(chord: StaffChord): number[] {
+  const offsets: number[] = [];
+  chord.heads.forEach((head, i) => {
+    const clash = i > 0 && head.position - chord.heads[i - 1].position === 1 && offsets[i - 1] === 0;
+    offsets.push(clash ? (chord.stemUp ? 2 * HEAD_RX : -2 * HEAD_RX) : 0);
+  });
+  return offsets;
+}
+
+interface StemGeometry {
+  x: number;
+  /** End attached to the heads */
+  base: number;
+  tip: number;
+}
+
+function stemFor(chord: StaffChord, x: number): StemGeometry {
+  const low = yFor(chord.clef, chord.heads[0].position);
+  const high = yFor(chord.clef, chord.heads[chord.heads.length - 1].position);
+  return chord.stemUp
+    ? { x: x + HEAD_RX - 0.5, base: low, tip: Math.min(high - STEM_LENGTH, yFor(chord.clef, 4)) }
+    : { x: x - HEAD_RX + 0.5, base: high, tip: Math.max(low + STEM_LENGTH, yFor(chord.clef, 4)) };
+}
+
+function flagPath(stem: StemGeometry, up: boolean, count: number): string {
+  const dir = up ? 1 : -1;
+  let d = '';
+  for (let i = 0; i < count; i++) {
+    const y = stem.tip + dir * i * S * 0.8;
+    d += `M ${stem.x} ${y} q ${S * 0.2} ${dir * S * 1.1} ${S * 1.1} ${dir * S * 2.2} `;
+  }
+  return d.trim();
+}
+
+function ChordGlyph({
+  chord,
+  x,
+  stem,
+  statuses,
+}: {
+  chord: StaffChord;
+  x: number;
+  stem: StemGeometry | null;
+  statuses?: ReadonlyMap<number, StaffNoteStatus>;
+}): React.JSX.Element {
+  const offsets = headOffsets(chord);
+  const hollow = chord.value === 'whole' || chord.value === 'half';
+
+  return (
+    <G>
+      {chord.ledgerLines.map((position) => (
+        <Line
+          key={`ledger-${position}`}
+          x1={x - HEAD_RX * 1.6}
+          x2={x + HEAD_RX * 1.6}
+          y1={yFor(chord.clef, position)}
+          y2={yFor(chord.clef, position)}
+          stroke={INK}
+          strokeWidth={1}
+        />
+      ))}
+      {chord.heads.map((head, i) => {
+        const status = statuses?.get(head.index);
+        const color = status ? STATUS_COLORS[status] : INK;
+        const cx = x + offsets[i];
+        const cy = yFor(chord.clef, head.position);
+        const dotY = head.position % 2 === 0 ? cy - HALF : cy;
+        return (
+          <G key={head.index} testID={`staff-note-${head.index}`}>
+            {head.accidental && (
+              <SvgText x={x - HEAD_RX - S * 1.1} y={cy + S * 0.45} fontSize={S * 1.6} fill={color}>
+                {ACCIDENTAL_GLYPHS[head.accidental]}
+              </SvgText>
+            )}
+            <Ellipse
+              cx={cx}
+              cy={cy}
+              rx={HEAD_RX}
+              ry={HEAD_RY}
+              rotation={-20}
+              origin={`${cx}, ${cy}`}
+              fill={hollow ? 'none' : color}
+              stroke={color}
+              strokeWidth={hollow ? 1.6 : 1}
+            />
+            {chord.dotted && <Circle cx={x + HEAD_RX + S * 0.6} cy={dotY} r={1.6} fill={color} />}
+          </G>
+        );
+      })}
+      {stem && <Line x1={stem.x} x2={stem.x} y1={stem.base} y2={stem.tip} stroke={INK} strokeWidth={1.2} />}
+      {stem && chord.beam === undefined && (chord.value === 'eighth' || chord.value === 'sixteenth') && (
+        <Path
+          d={flagPath(stem, chord.stemUp, chord.value === 'sixteenth' ? 2 : 1)}
+          stroke={INK}
+          strokeWidth={1.6}
+          fill="none"
+        />
+      )}
+    </G>
+  );
+}
+
+function MusicLayer({
+  layout,
+  pixelsPerBeat,
+  statuses,
+}: {
+  layout: StaffLayout;
+  pixelsPerBeat: number;
+  statuses?: ReadonlyMap<number, StaffNoteStatus>;
+}): React.JSX.Element {
+  const xFor = (beat: number) => STAFF_PLAYHEAD_OFFSET + beat * pixelsPerBeat;
+
+  // Stems first — beamed chords then stretch theirs to a shared beam line
+  const stems = layout.chords.map((chord) => (chord.value === 'whole' ? null : stemFor(chord, xFor(chord.startBeat))));
+  const beamLines = layout.beams.map((beam) => {
+    const tips = beam.chords.map((i) => stems[i]?.tip ?? 0);
+    const tip = beam.stemUp ? Math.min(...tips) : Math.max(...tips);
+    beam.chords.forEach((i) => {
+      const stem = stems[i];
+      if (stem) stem.tip = tip;
+    });
+    return tip;
+  });
+
+  return (
+    <>
+      {layout.barLines.map((beat, i) => (
+        <Line
+          key={`bar-${beat}`}
+          x1={xFor(beat) - S * 1.4}
+          x2={xFor(beat) - S * 1.4}
+          y1={TREBLE_TOP}
+          y2={BASS_TOP + 4 * S}
+          stroke={INK}
+          strokeWidth={i === layout.barLines.length - 1 ? 3 : 1}
+        />
+      ))}
+      {layout.meterChanges.map((change) => (
+        <SvgText
+          key={`meter-${change.beat}`}
+          x={xFor(change.beat) - S * 1.4}
+          y={TREBLE_TOP - S * 0.8}
+          fontSize={S * 1.4}
+          fontWeight="bold"
+          textAnchor="middle"
+          fill={INK}
+        >
+          {`${change.timeSignature[0]}/${change.timeSignature[1]}`}
+        </SvgText>
+      ))}
+      {layout.beams.map((beam, b) => {
+        const dir = beam.stemUp ? 1 : -1;
+        const y = beamLines[b] - (beam.stemUp ? 0 : BEAM_THICKNESS);
+        const first = stems[beam.chords[0]];
+        const last = stems[beam.chords[beam.chords.length - 1]];
+        if (!first || !last) return null;
+        return (
+          <G key={`beam-${b}`}>
+            <Rect x={first.x} y={y} width={last.x - first.x} height={BEAM_THICKNESS} fill={INK} />
+            {beam.chords.map((chordIndex, k) => {
+              const isSixteenth = (n: number | undefined) => n !== undefined && layout.chords[n].value === 'sixteenth';
+              const stem = stems[chordIndex];
+              if (!stem || !isSixteenth(chordIndex)) return null;
+              const next = beam.chords[k + 1];
+              const previous = beam.chords[k - 1];
+              // Secondary beam to the next sixteenth; a lone one gets a stub
+              let x2: number;
+              if (isSixteenth(next)) x2 = stems[next]?.x ?? stem.x;
+              else if (isSixteenth(previous)) return null;
+              else x2 = stem.x + (next === undefined ? -S : S);
+              return (
+                <Rect
+                  key={`sub-${chordIndex}`}
+                  x={Math.min(stem.x, x2)}
+                  y={y + dir * S * 0.75}
+                  width={Math.abs(x2 - stem.x)}
+                  height={BEAM_THICKNESS}
+                  fill={INK}
+                />
+              );
+            })}
+          </G>
+        );
+      })}
+      {layout.chords.map((chord, i) => (
+        <ChordGlyph
+          key={`${chord.clef}-${chord.startBeat}`}
+          chord={chord}
+          x={xFor(chord.startBeat)}
+          stem={stems[i]}
+          statuses={statuses}
+        />
+      ))}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export const StaffNotation = React.memo(function StaffNotation({
+  notes,
+  timeSignature,
+  meterMap,
+  keySignature,
+  realtimeBeatRef,
+  width,
+  noteStatuses,
+  pixelsPerBeat = STAFF_PIXELS_PER_BEAT,
+  testID,
+}: StaffNotationProps): React.JSX.Element {
+  const layout = useMemo(
+    () => layoutGrandStaff(notes, { timeSignature, keySignature, meterMap }),
+    [notes, timeSignature, keySignature, meterMap],
+  );
+  const keyCount = layout.keySignature.treble.length;
+  const headerWidth = staffHeaderWidth(keyCount);
+  const contentWidth = STAFF_PLAYHEAD_OFFSET + layout.totalBeats * pixelsPerBeat + S * 2;
+
+  // Scroll on every frame straight from the ref — no React state involved
+  const scrollX = useRef(new Animated.Value(-realtimeBeatRef.current * pixelsPerBeat)).current;
+  useEffect(() => {
+    let frame = 0;
+    let lastBeat = realtimeBeatRef.current;
+    scrollX.setValue(-lastBeat * pixelsPerBeat);
+    const tick = () => {
+      if (realtimeBeatRef.current !== lastBeat) {
+        lastBeat = realtimeBeatRef.current;
+        scrollX.setValue(-lastBeat * pixelsPerBeat);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [realtimeBeatRef, pixelsPerBeat, scrollX]);
+
+  const music = useMemo(
+    () => (
+      <Svg width={contentWidth} height={STAFF_HEIGHT}>
+        <MusicLayer layout={layout} pixelsPerBeat={pixelsPerBeat} statuses={noteStatuses} />
+      </Svg>
+    ),
+    [contentWidth, layout, pixelsPerBeat, noteStatuses],
+  );
+
+  const timeX = CLEF_WIDTH + keyCount * KEY_ACCIDENTAL_WIDTH + S * 0.4;
+
+  return (
+    <View style={[styles.container, { width, height: STAFF_HEIGHT }]} testID={testID}>
+      <Svg width={width} height={STAFF_HEIGHT} style={StyleSheet.absoluteFill}>
+        <StaffLines width={width} />
+      </Svg>
+
+      <Animated.View
+        style={[styles.scrollLayer, { left: headerWidth, width: contentWidth, transform: [{ translateX: scrollX }] }]}
+      >
+        {music}
+      </Animated.View>
+
+      <Svg width={headerWidth} height={STAFF_HEIGHT} style={styles.header}>
+        <Rect x={0} y={0} width={headerWidth} height={STAFF_HEIGHT} fill={COLORS.surface} />
+        <StaffLines width={headerWidth} />
+        <Line x1={1} x2={1} y1={TREBLE_TOP} y2={BASS_TOP + 4 * S} stroke={INK} strokeWidth={2} />
+        <SvgText x={S * 0.4} y={yFor('treble', 0) + S * 0.9} fontSize={S * 6.2} fill={INK}>
+          {'𝄞'}
+        </SvgText>
+        <SvgText x={S * 0.5} y={yFor('bass', 6) + S * 2.3} fontSize={S * 3.6} fill={INK}>
+          {'𝄢'}
+        </SvgText>
+        {(['treble', 'bass'] as const).flatMap((clef) =>
+          layout.keySignature[clef].map((acc, i) => (
+            <SvgText
+              key={`${clef}-key-${i}`}
+              x={CLEF_WIDTH + i * KEY_ACCIDENTAL_WIDTH}
+              y={yFor(clef, acc.position) + S * 0.45}
+              fontSize={S * 1.6}
+              fill={INK}
+            >
+              {ACCIDENTAL_GLYPHS[acc.accidental]}
+            </SvgText>
+          )),
+        )}
+        {(['treble', 'bass'] as const).flatMap((clef) =>
+          timeSignature.map((value, i) => (
+            <SvgText
+              key={`${clef}-time-${i}`}
+              x={timeX}
+              y={STAFF_TOPS[clef] + (i === 0 ? 2 * S : 4 * S) - S * 0.2}
+              fontSize={S * 2.1}
+              fontWeight="bold"
+              fill={INK}
+            >
+              {String(value)}
+            </SvgText>
+          )),
+        )}
+      </Svg>
+
+      <View
+        pointerEvents="none"
+        style={[styles.playhead, { left: headerWidth + STAFF_PLAYHEAD_OFFSET - 1, top: TREBLE_TOP - S, height: BASS_TOP - TREBLE_TOP + 6 * S }]}
+        testID={testID ? `${testID}-playhead` : undefined}
+      />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: COLORS.surface,
+  },
+  scrollLayer: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+  },
+  playhead: {
+    position: 'absolute',
+    width: 2,
+    backgroundColor: COLORS.primary,
+    opacity: 0.8,
+  },
+});
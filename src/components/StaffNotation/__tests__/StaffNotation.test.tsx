@@ -0,0 +1,82 @@
+/**
+ * StaffNotation Tests
+ *
+ * Renders the grand staff with react-native-svg mocked as plain views and
+ * checks notes, key-signature glyphs and live status colouring.
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react-native';
+import { StaffNotation, staffHeaderWidth } from '../StaffNotation';
+import type { NoteEvent } from '@/core/exercises/types';
+import { COLORS } from '@/theme/tokens';
+
+jest.mock('react-native-svg', () => {
+  const mockReact = require('react');
+  const { View, Text } = require('react-native');
+  const el = (props: Record<string, unknown>) => mockReact.createElement(View, props, props.children);
+  return {
+    __esModule: true,
+    default: el,
+    G: el,
+    Line: el,
+    Rect: el,
+    Path: el,
+    Circle: el,
+    Ellipse: el,
+    Text: (props: Record<string, unknown>) => mockReact.createElement(Text, props, props.children),
+  };
+});
+
+const NOTES: NoteEvent[] = [
+  { note: 60, startBeat: 0, durationBeats: 1, hand: 'right' },
+  { note: 62, startBeat: 1, durationBeats: 0.5, hand: 'right' },
+  { note: 64, startBeat: 1.5, durationBeats: 0.5, hand: 'right' },
+  { note: 48, startBeat: 0, durationBeats: 4, hand: 'left' },
+];
+
+function renderStaff(props: Partial<React.ComponentProps<typeof StaffNotation>> = {}) {
+  return render(
+    <StaffNotation
+      notes={NOTES}
+      timeSignature={[4, 4]}
+      keySignature="C"
+      realtimeBeatRef={{ current: 0 }}
+      width={360}
+      testID="staff"
+      {...props}
+    />,
+  );
+}
+
+describe('StaffNotation', () => {
+  it('renders one notehead group per exercise note and a playhead', () => {
+    const { getByTestId } = renderStaff();
+    NOTES.forEach((_, i) => expect(getByTestId(`staff-note-${i}`)).toBeTruthy());
+    expect(getByTestId('staff-playhead')).toBeTruthy();
+  });
+
+  it('draws the key signature on both staves', () => {
+    const { getAllByText } = renderStaff({ keySignature: 'Bb' });
+    expect(getAllByText('♭')).toHaveLength(4);
+  });
+
+  it('colours noteheads by live status', () => {
+    const { getByTestId } = renderStaff({
+      noteStatuses: new Map([
+        [0, 'perfect'],
+        [1, 'missed'],
+      ]),
+    });
+    const fills = (i: number) => getByTestId(`staff-note-${i}`).findAll((n: { props: Record<string, unknown> }) => n.props.rx !== undefined)[0].props.fill;
+    expect(fills(0)).toBe(COLORS.feedbackPerfect);
+    expect(fills(1)).toBe(COLORS.feedbackMiss);
+    expect(fills(2)).toBe(COLORS.textPrimary);
+    // Whole note is hollow
+    expect(fills(3)).toBe('none');
+  });
+
+  it('widens the header for key-signature accidentals', () => {
+    expect(staffHeaderWidth(3)).toBeGreaterThan(staffHeaderWidth(0));
+  });
+});
@@ -10,6 +10,7 @@
  */
 
 import type { Exercise, ExerciseType } from '../core/exercises/types';
+import { withSuggestedFingerings } from '../core/music/fingering';
 import { logger } from '../utils/logger';
 
 // ============================================================================
@@ -186,12 +187,25 @@ const LESSON_ORDER = [
   'lesson-06',
 ];
 
+/** Exercises with suggested fingerings, filled on first load */
+const fingeredExercises = new Map<string, Exercise>();
+
+function loadExercise(exerciseId: string): Exercise | null {
+  const cached = fingeredExercises.get(exerciseId);
+  if (cached) return cached;
+  const exercise = EXERCISE_REGISTRY[exerciseId];
+  if (!exercise) return null;
+  const fingered = withSuggestedFingerings(exercise);
+  fingeredExercises.set(exerciseId, fingered);
+  return fingered;
+}
+
 // ============================================================================
 // Public API
 // ============================================================================
 
 export function getExercise(exerciseId: string): Exercise | null {
-  return EXERCISE_REGISTRY[exerciseId] ?? null;
+  return loadExercise(exerciseId);
 }
 
 export function getLessons(): LessonManifest[] {
@@ -212,7 +226,7 @@ export function getLessonExercises(lessonId: string): Exercise[] {
 
   const exercises: Exercise[] = [];
   for (const entry of nonTestExercises) {
-    const exercise = EXERCISE_REGISTRY[entry.id];
+    const exercise = loadExercise(entry.id);
     if (exercise) {
       exercises.push(exercise);
     } else {
@@ -263,7 +277,7 @@ export function getTestExercise(lessonId: string): Exercise | null {
   const testEntry = lesson.exercises.find((e) => e.test);
   if (!testEntry) return null;
 
-  return EXERCISE_REGISTRY[testEntry.id] ?? null;
+  return loadExercise(testEntry.id);
 }
 
 /**
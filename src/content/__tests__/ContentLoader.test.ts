@@ -38,6 +38,16 @@ describe('ContentLoader', () => {
       expect(exercise!.notes.length).toBeGreaterThan(0);
     });
 
+    it('should keep authored fingerings and leave no note unfingered', () => {
+      const raw = require('../../../content/exercises/lesson-06/exercise-01-jingle-bells.json');
+      expect(getExercise('lesson-06-ex-01')!.notes).toEqual(raw.notes);
+      for (const lesson of getLessons()) {
+        for (const exercise of getLessonExercises(lesson.id)) {
+          expect(exercise.notes.every((n) => n.finger !== undefined)).toBe(true);
+        }
+      }
+    });
+
     it('should have valid MIDI note numbers', () => {
       const exercise = getExercise('lesson-01-ex-01');
       for (const note of exercise!.notes) {
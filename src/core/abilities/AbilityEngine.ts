@@ -13,6 +13,7 @@
 
 import type { CatAbility, AbilityEffect } from '@/stores/types';
 import { CAT_CHARACTERS } from '@/components/Mascot/catCharacters';
+import { ASSIST_LIMITS } from '@/core/exercises/performanceVerification';
 
 /** Exercise config that abilities can modify */
 export interface ExerciseAbilityConfig {
@@ -32,8 +33,9 @@ export interface ExerciseAbilityConfig {
 
 /** Safety caps to prevent abilities from being overpowered */
 const CAPS = {
-  maxTimingMultiplier: 1.5,
-  maxTempoReduction: 15,
+  // The server accepts ability assists up to the same limits
+  maxTimingMultiplier: ASSIST_LIMITS.maxTimingWindowMultiplier,
+  maxTempoReduction: ASSIST_LIMITS.maxTempoReductionBpm,
   maxScoreBoost: 15,
   maxXpMultiplier: 2.0,
   maxComboShield: 3,
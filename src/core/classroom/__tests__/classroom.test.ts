@@ -0,0 +1,142 @@
+/**
+ * Classroom Tests
+ *
+ * How a student's assignment results answer assignments, due dates, and
+ * the playback speed for a target tempo.
+ */
+
+import {
+  assignmentScore,
+  assignmentStatus,
+  bestAssignmentResult,
+  describeDueDate,
+  isAssignmentDone,
+  playbackSpeedForTempo,
+  sortAssignments,
+  type Assignment,
+  type AssignmentResult,
+  type StudentProgress,
+} from '../classroom';
+
+const ASSIGNED_AT = 1_000_000;
+
+function assignment(overrides: Partial<Assignment> = {}): Assignment {
+  return {
+    id: 'a1',
+    classId: 'class-1',
+    title: 'C Major Scale',
+    target: { kind: 'exercise', exerciseId: 'lesson-01-ex-01' },
+    dueDate: '2026-10-20',
+    targetTempo: null,
+    assignedAt: ASSIGNED_AT,
+    ...overrides,
+  };
+}
+
+const songAssignment = assignment({
+  id: 'a2',
+  title: 'Ode to Joy: Verse',
+  target: { kind: 'song-section', songId: 'ode', sectionId: 'verse' },
+});
+
+function result(overrides: Partial<AssignmentResult> = {}): AssignmentResult {
+  return {
+    assignmentId: 'a1',
+    classId: 'class-1',
+    score: 90,
+    playbackSpeed: 1.0,
+    tempo: 120,
+    playedAt: ASSIGNED_AT + 1,
+    ...overrides,
+  };
+}
+
+function progress(...results: AssignmentResult[]): StudentProgress {
+  return { assignments: Object.fromEntries(results.map((r) => [r.assignmentId, r])) };
+}
+
+describe('isAssignmentDone', () => {
+  it('needs a passing run played since the assignment was set', () => {
+    expect(isAssignmentDone(assignment(), progress())).toBe(false);
+    expect(isAssignmentDone(assignment(), progress(result({ playedAt: ASSIGNED_AT - 1 })))).toBe(false);
+    expect(isAssignmentDone(assignment(), progress(result()))).toBe(true);
+    expect(isAssignmentDone(assignment(), progress(result({ score: 50 })))).toBe(false);
+  });
+
+  it("reads the assignment's own result, not another assignment's", () => {
+    expect(isAssignmentDone(songAssignment, progress(result()))).toBe(false);
+    expect(isAssignmentDone(songAssignment, progress(result({ assignmentId: 'a2' })))).toBe(true);
+    expect(assignmentScore(songAssignment, progress(result({ assignmentId: 'a2', score: 75 })))).toBe(75);
+    expect(assignmentScore(songAssignment, progress(result()))).toBeNull();
+  });
+
+  it('needs the run to reach the target tempo', () => {
+    const at110 = assignment({ targetTempo: 110 });
+    expect(isAssignmentDone(at110, progress(result({ playbackSpeed: 0.75, tempo: 90 })))).toBe(false);
+    expect(isAssignmentDone(at110, progress(result({ playbackSpeed: 1.0, tempo: 120 })))).toBe(true);
+    // Slowed down, but still at the target
+    const at60 = assignment({ targetTempo: 60 });
+    expect(isAssignmentDone(at60, progress(result({ playbackSpeed: 0.5, tempo: 60 })))).toBe(true);
+    // Without a target the written tempo counts
+    expect(isAssignmentDone(assignment(), progress(result({ playbackSpeed: 0.75, tempo: 90 })))).toBe(false);
+  });
+});
+
+describe('bestAssignmentResult', () => {
+  const at110 = assignment({ targetTempo: 110 });
+
+  it('keeps the higher score', () => {
+    expect(bestAssignmentResult(at110, result({ score: 80 }), result({ score: 60 })).score).toBe(80);
+    expect(bestAssignmentResult(at110, result({ score: 80 }), result({ score: 95 })).score).toBe(95);
+  });
+
+  it('prefers a run at the target tempo over a higher score under it', () => {
+    const slow = result({ score: 98, playbackSpeed: 0.75, tempo: 90 });
+    const atTempo = result({ score: 72 });
+    expect(bestAssignmentResult(at110, slow, atTempo)).toBe(atTempo);
+    expect(bestAssignmentResult(at110, atTempo, slow)).toBe(atTempo);
+  });
+
+  it('replaces a result from before the assignment was set', () => {
+    const stale = result({ score: 99, playedAt: ASSIGNED_AT - 1 });
+    const run = result({ score: 40 });
+    expect(bestAssignmentResult(at110, stale, run)).toBe(run);
+    expect(bestAssignmentResult(at110, undefined, run)).toBe(run);
+  });
+});
+
+describe('due dates', () => {
+  it('labels open assignments by how far off they are', () => {
+    expect(assignmentStatus(assignment(), progress(), '2026-10-18')).toBe('upcoming');
+    expect(assignmentStatus(assignment(), progress(), '2026-10-20')).toBe('due-today');
+    expect(assignmentStatus(assignment(), progress(), '2026-10-21')).toBe('overdue');
+
+    expect(describeDueDate('2026-10-20', '2026-10-18')).toBe('Due in 2 days');
+    expect(describeDueDate('2026-10-20', '2026-10-19')).toBe('Due tomorrow');
+    expect(describeDueDate('2026-10-20', '2026-10-20')).toBe('Due today');
+    expect(describeDueDate('2026-10-20', '2026-10-21')).toBe('1 day overdue');
+    // Across a month end
+    expect(describeDueDate('2026-10-30', '2026-11-02')).toBe('3 days overdue');
+  });
+
+  it('puts open assignments first, soonest due first', () => {
+    const later = assignment({ id: 'later', dueDate: '2026-10-25' });
+    const sooner = assignment({ id: 'sooner', dueDate: '2026-10-19' });
+    const done = { ...songAssignment, dueDate: '2026-10-18' };
+    const played = progress(result({ assignmentId: 'a2', score: 95 }));
+    expect(sortAssignments([done, later, sooner], played).map((a) => a.id)).toEqual(['sooner', 'later', 'a2']);
+  });
+});
+
+describe('playbackSpeedForTempo', () => {
+  it('picks the slowest speed that reaches the target', () => {
+    expect(playbackSpeedForTempo(120, 120)).toBe(1.0);
+    expect(playbackSpeedForTempo(120, 150)).toBe(1.0);
+    // 90 BPM would fall short of 110
+    expect(playbackSpeedForTempo(120, 110)).toBe(1.0);
+    expect(playbackSpeedForTempo(120, 90)).toBe(0.75);
+    expect(playbackSpeedForTempo(120, 80)).toBe(0.75);
+    expect(playbackSpeedForTempo(120, 60)).toBe(0.5);
+    expect(playbackSpeedForTempo(120, 20)).toBe(0.25);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Classroom — Pure TypeScript, no React imports
+ *
+ * Teacher classes, their rosters and the assignments set for them, and
+ * how a student's own progress answers those assignments. The Firestore
+ * side lives in services/firebase/classroomService.ts.
+ */
+
+import { PLAYBACK_SPEEDS } from '../exercises/performanceVerification';
+import { scaleTempo } from '../exercises/tempoMap';
+import type { PlaybackSpeed } from '../../stores/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UserRole = 'student' | 'teacher';
+
+/** classes/{classId} */
+export interface Classroom {
+  id: string;
+  name: string;
+  teacherUid: string;
+  teacherName: string;
+  createdAt: number;
+}
+
+export type RosterStatus = 'invited' | 'joined';
+
+/** classes/{classId}/students/{uid} — the teacher's side of a membership */
+export interface RosterEntry {
+  uid: string;
+  displayName: string;
+  status: RosterStatus;
+  invitedAt: number;
+  joinedAt?: number;
+}
+
+/** users/{uid}/classes/{classId} — the student's side of a membership */
+export interface ClassMembership {
+  classId: string;
+  className: string;
+  teacherUid: string;
+  teacherName: string;
+  status: RosterStatus;
+  invitedAt: number;
+  joinedAt?: number;
+}
+
+export type AssignmentTarget =
+  | { kind: 'exercise'; exerciseId: string }
+  | { kind: 'song-section'; songId: string; sectionId: string };
+
+/** classes/{classId}/assignments/{assignmentId} */
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  target: AssignmentTarget;
+  /** Local date, YYYY-MM-DD */
+  dueDate: string;
+  /** BPM the student should reach; null means the written tempo */
+  targetTempo: number | null;
+  assignedAt: number;
+}
+
+/**
+ * users/{uid}/assignmentResults/{assignmentId} — the best run the student
+ * has played from the assignment itself
+ */
+export interface AssignmentResult {
+  assignmentId: string;
+  classId: string;
+  score: number;
+  playbackSpeed: PlaybackSpeed;
+  /** Written tempo at that playback speed, before cat ability assists */
+  tempo: number;
+  playedAt: number;
+}
+
+/**
+ * The student's assignment results, keyed by assignment id. Kept in the
+ * classroom store on the student's device and read from their synced
+ * assignmentResults on the teacher's.
+ */
+export interface StudentProgress {
+  assignments: Record<string, AssignmentResult>;
+}
+
+export type AssignmentStatus = 'done' | 'overdue' | 'due-today' | 'upcoming';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Score an assignment has to reach, matching the exercises' passing score */
+export const ASSIGNMENT_PASS_SCORE = 70;
+
+export const CLASS_NAME_MAX_LENGTH = 40;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/** Whether a run was played at the assignment's target tempo, or the written one */
+export function meetsTargetTempo(assignment: Assignment, result: Pick<AssignmentResult, 'playbackSpeed' | 'tempo'>): boolean {
+  if (result.playbackSpeed >= 1) return true;
+  return assignment.targetTempo != null && result.tempo >= assignment.targetTempo;
+}
+
+/**
+ * The better of a stored result and a new run: a run at the target tempo
+ * beats one under it, then the higher score wins.
+ */
+export function bestAssignmentResult(
+  assignment: Assignment,
+  existing: AssignmentResult | undefined,
+  run: AssignmentResult,
+): AssignmentResult {
+  if (!existing || existing.playedAt < assignment.assignedAt) return run;
+  const existingAtTempo = meetsTargetTempo(assignment, existing);
+  const runAtTempo = meetsTargetTempo(assignment, run);
+  if (existingAtTempo !== runAtTempo) return runAtTempo ? run : existing;
+  return run.score > existing.score ? run : existing;
+}
+
+/** Best score the student has played the assignment with, or null if never played */
+export function assignmentScore(assignment: Assignment, progress: StudentProgress): number | null {
+  return progress.assignments[assignment.id]?.score ?? null;
+}
+
+/**
+ * Done once a run since the assignment was set reaches the passing score
+ * at the target tempo. Scores from practising the piece elsewhere, or
+ * before it was assigned, don't count.
+ */
+export function isAssignmentDone(assignment: Assignment, progress: StudentProgress): boolean {
+  const result = progress.assignments[assignment.id];
+  return result != null &&
+    result.playedAt >= assignment.assignedAt &&
+    result.score >= ASSIGNMENT_PASS_SCORE &&
+    meetsTargetTempo(assignment, result);
+}
+
+// ============================================================================
+// Due Dates
+// ============================================================================
+
+/** Whole days from today to the due date; negative once it has passed */
+export function daysUntilDue(dueDate: string, today: string): number {
+  return Math.round((Date.parse(`${dueDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+export function assignmentStatus(assignment: Assignment, progress: StudentProgress, today: string): AssignmentStatus {
+  if (isAssignmentDone(assignment, progress)) return 'done';
+  const days = daysUntilDue(assignment.dueDate, today);
+  if (days < 0) return 'overdue';
+  return days === 0 ? 'due-today' : 'upcoming';
+}
+
+/** Open assignments soonest-due first, then the finished ones */
+export function sortAssignments(assignments: Assignment[], progress: StudentProgress): Assignment[] {
+  return [...assignments].sort((a, b) => {
+    const doneA = isAssignmentDone(a, progress);
+    const doneB = isAssignmentDone(b, progress);
+    if (doneA !== doneB) return doneA ? 1 : -1;
+    return a.dueDate.localeCompare(b.dueDate) || a.assignedAt - b.assignedAt;
+  });
+}
+
+/** "Due today", "Due tomorrow", "Due in 3 days", "2 days overdue" */
+export function describeDueDate(dueDate: string, today: string): string {
+  const days = daysUntilDue(dueDate, today);
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days > 1) return `Due in ${days} days`;
+  return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+}
+
+// ============================================================================
+// Target Tempo
+// ============================================================================
+
+/**
+ * The slowest playback speed that reaches the target tempo, so a run from
+ * the assignment never falls short of it. Targets at or above the written
+ * tempo play at full speed.
+ */
+export function playbackSpeedForTempo(writtenTempo: number, targetTempo: number): PlaybackSpeed {
+  const speed = PLAYBACK_SPEEDS.find((s) => scaleTempo(writtenTempo, s) >= targetTempo) ?? 1.0;
+  return speed as PlaybackSpeed;
+}
@@ -15,9 +15,11 @@ import {
   getAvailableSkills,
   getSkillById,
   getSkillDepth,
+  getSkillsForExercise,
   getSkillsNeedingReview,
   type SkillNode,
 } from './SkillTree';
+import { getDueItems, type ReviewSchedule } from './SpacedRepetition';
 import { getExercise, getLessons, getLessonExercises } from '../../content/ContentLoader';
 import { midiToNoteName } from '../music/MusicTheory';
 
@@ -27,6 +29,12 @@ import { midiToNoteName } from '../music/MusicTheory';
 
 export type SessionType = 'new-material' | 'review' | 'challenge' | 'mixed';
 
+/**
+ * Learner data the planner reads. Without a review schedule, skills fall back
+ * to linear decay and no exercises come up for review.
+ */
+export type SessionPlanProfile = LearnerProfileData & { reviewSchedule?: ReviewSchedule };
+
 export interface ExerciseRef {
   exerciseId: string;
   source: 'static' | 'ai' | 'ai-with-fallback';
@@ -47,25 +55,31 @@ export interface SessionPlan {
 // Session Plan Generation
 // ============================================================================
 
+/** Review slots in a review lesson */
+const MAX_REVIEW_ITEMS = 3;
+
 /**
  * Select what type of session to generate based on the learner's state.
  *
  * - Every 5th session is a challenge day
- * - If 3+ skills have decayed, prioritize review
- * - If 1-2 skills decayed, mix review with new material
+ * - If 3+ skills or exercises are due for review, prioritize review
+ * - If 1-2 are due, mix review with new material
  * - Otherwise, teach new material
  */
 export function selectSessionType(
   masteredSkills: string[],
   skillMasteryData: Record<string, SkillMasteryRecord>,
-  totalExercisesCompleted: number
+  totalExercisesCompleted: number,
+  reviewSchedule?: ReviewSchedule
 ): SessionType {
   // Every 5th session is a challenge day (exercises 5, 10, 15, ...)
   if (totalExercisesCompleted > 0 && totalExercisesCompleted % 5 === 0) return 'challenge';
 
-  const decayed = getSkillsNeedingReview(masteredSkills, skillMasteryData);
-  if (decayed.length >= 3) return 'review';
-  if (decayed.length >= 1) return 'mixed';
+  const due =
+    getSkillsNeedingReview(masteredSkills, skillMasteryData, reviewSchedule?.skills).length +
+    getDueExerciseIds(reviewSchedule).length;
+  if (due >= 3) return 'review';
+  if (due >= 1) return 'mixed';
 
   return 'new-material';
 }
@@ -81,7 +95,7 @@ export function selectSessionType(
  * - mixed: 1 review exercise + 1 new skill exercise + 1 challenge
  */
 export function generateSessionPlan(
-  profile: LearnerProfileData,
+  profile: SessionPlanProfile,
   masteredSkills: string[]
 ): SessionPlan {
   const reasoning: string[] = [];
@@ -89,7 +103,8 @@ export function generateSessionPlan(
   const sessionType = selectSessionType(
     masteredSkills,
     profile.skillMasteryData ?? {},
-    profile.totalExercisesCompleted
+    profile.totalExercisesCompleted,
+    profile.reviewSchedule
   );
 
   let warmUp: ExerciseRef[];
@@ -98,7 +113,9 @@ export function generateSessionPlan(
 
   switch (sessionType) {
     case 'review': {
-      reasoning.push(`Review day: ${getSkillsNeedingReview(masteredSkills, profile.skillMasteryData ?? {}).length} skills need refreshing`);
+      const dueSkills = getSkillsNeedingReview(masteredSkills, profile.skillMasteryData ?? {}, profile.reviewSchedule?.skills);
+      const dueExercises = getDueExerciseIds(profile.reviewSchedule);
+      reasoning.push(`Review day: ${dueSkills.length} skills and ${dueExercises.length} exercises need refreshing`);
       warmUp = generateWarmUp(profile, masteredSkills, reasoning, recentSet);
       lesson = generateReviewLesson(profile, masteredSkills, reasoning, recentSet);
       // Add 1 new-material exercise at end
@@ -354,15 +371,15 @@ function generateLesson(
 }
 
 function generateReviewLesson(
-  profile: LearnerProfileData,
+  profile: SessionPlanProfile,
   masteredSkills: string[],
   reasoning: string[],
   recentSet: Set<string> = new Set()
 ): ExerciseRef[] {
   const refs: ExerciseRef[] = [];
-  const decayed = getSkillsNeedingReview(masteredSkills, profile.skillMasteryData ?? {});
+  const decayed = getSkillsNeedingReview(masteredSkills, profile.skillMasteryData ?? {}, profile.reviewSchedule?.skills);
 
-  for (const skill of decayed.slice(0, 3)) {
+  for (const skill of decayed.slice(0, MAX_REVIEW_ITEMS)) {
     // AI-first review: generate fresh exercise for the decayed skill
     refs.push(makeAIRef(skill, `Review: ${skill.name} (skill needs refreshing)`, recentSet));
   }
@@ -371,6 +388,23 @@ function generateReviewLesson(
     reasoning.push(`Reviewing ${refs.length} decayed skill${refs.length > 1 ? 's' : ''}: ${refs.map((r) => r.skillNodeId).join(', ')}`);
   }
 
+  // Remaining slots go to exercises that are due, played as written
+  const dueExercises = getDueExerciseIds(profile.reviewSchedule)
+    .filter((id) => !recentSet.has(id) && !refs.some((r) => r.fallbackExerciseId === id))
+    .slice(0, MAX_REVIEW_ITEMS - refs.length);
+  for (const exerciseId of dueExercises) {
+    const exercise = getExercise(exerciseId);
+    refs.push({
+      exerciseId,
+      source: 'static',
+      skillNodeId: getSkillsForExercise(exerciseId)[0]?.id ?? 'review',
+      reason: `Review: ${exercise?.metadata.title ?? exerciseId} (due for review)`,
+    });
+  }
+  if (dueExercises.length > 0) {
+    reasoning.push(`Reviewing ${dueExercises.length} due exercise${dueExercises.length > 1 ? 's' : ''}: ${dueExercises.join(', ')}`);
+  }
+
   return refs;
 }
 
@@ -420,6 +454,12 @@ function generateChallenge(
 // Helpers
 // ============================================================================
 
+/** Static exercises due for review, least likely to be recalled first */
+function getDueExerciseIds(reviewSchedule?: ReviewSchedule): string[] {
+  if (!reviewSchedule) return [];
+  return getDueItems(reviewSchedule.exercises, Date.now()).filter((id) => getExercise(id));
+}
+
 /**
  * Build an AI-first exercise reference for a skill node.
  * Attaches the best static exercise ID as fallback for offline use.
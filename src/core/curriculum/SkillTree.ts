@@ -7,8 +7,12 @@
  */
 
 import type { SkillMasteryRecord } from '../../stores/types';
+import { retrievability, type MemoryState } from './SpacedRepetition';
 
-/** Skill decay: half-life in days before a mastered skill needs review */
+/**
+ * Skill decay: half-life in days before a mastered skill needs review.
+ * Only used for skills the spaced-repetition schedule doesn't cover yet.
+ */
 export const DECAY_HALF_LIFE_DAYS = 14;
 
 /** Decay score below this triggers a review session */
@@ -1425,31 +1429,43 @@ export function getSkillDepth(skillId: string): number {
 }
 
 /**
- * Return mastered skills where decay score has fallen below the threshold,
- * sorted by decay score ascending (worst first).
+ * Return mastered skills that are due for review, least likely to be
+ * recalled first.
  *
- * Decay formula: decayScore = max(0, 1 - daysSince / DECAY_HALF_LIFE_DAYS)
+ * A skill with a spaced-repetition memory state is due once its due date has
+ * passed. Skills mastered before they had one fall back to linear decay:
+ * decayScore = max(0, 1 - daysSince / DECAY_HALF_LIFE_DAYS), due below
+ * DECAY_THRESHOLD.
  */
 export function getSkillsNeedingReview(
   masteredSkills: string[],
   skillMasteryData: Record<string, SkillMasteryRecord>,
+  skillMemory: Record<string, MemoryState> = {},
 ): SkillNode[] {
   const now = Date.now();
   const msPerDay = 86400000;
 
+  // Odds of recall, or decay score for skills without a memory state (null = never practised)
+  const recall = (skillId: string): number | null => {
+    const memory = skillMemory[skillId];
+    if (memory) return retrievability(memory, now);
+    const record = skillMasteryData[skillId];
+    if (!record) return null;
+    const daysSince = (now - record.lastPracticedAt) / msPerDay;
+    return Math.max(0, 1 - daysSince / DECAY_HALF_LIFE_DAYS);
+  };
+
   return SKILL_TREE
     .filter((node) => {
       if (!masteredSkills.includes(node.id)) return false;
-      const record = skillMasteryData[node.id];
-      if (!record) return false;
-      const daysSince = (now - record.lastPracticedAt) / msPerDay;
-      const decay = Math.max(0, 1 - daysSince / DECAY_HALF_LIFE_DAYS);
-      return decay < DECAY_THRESHOLD;
+      const memory = skillMemory[node.id];
+      if (memory) return memory.dueAt <= now;
+      const decay = recall(node.id);
+      return decay !== null && decay < DECAY_THRESHOLD;
     })
-    .sort((a, b) => {
-      const decayA = skillMasteryData[a.id]?.lastPracticedAt ?? 0;
-      const decayB = skillMasteryData[b.id]?.lastPracticedAt ?? 0;
-      // Oldest practiced first (most decayed)
-      return decayA - decayB;
-    });
+    // Most decayed first; fully decayed skills by oldest practice
+    .sort((a, b) =>
+      (recall(a.id) ?? 0) - (recall(b.id) ?? 0) ||
+      (skillMasteryData[a.id]?.lastPracticedAt ?? 0) - (skillMasteryData[b.id]?.lastPracticedAt ?? 0),
+    );
 }
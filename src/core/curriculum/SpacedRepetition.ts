@@ -0,0 +1,186 @@
+/**
+ * SpacedRepetition — per-item memory model that schedules reviews
+ *
+ * Each skill and each static exercise carries its own memory state in the
+ * style of FSRS: a stability (days until recall odds fall to 90%) and a
+ * difficulty (1-10), updated from every graded score. Recall odds decay on a
+ * power curve, and an item is due when they reach the target retention.
+ * Items join the schedule the first time they are passed. Pure TypeScript —
+ * no React imports.
+ */
+
+import type { ExerciseScore } from '../exercises/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** 1 = again (failed), 2 = hard, 3 = good, 4 = easy */
+export type ReviewGrade = 1 | 2 | 3 | 4;
+
+export interface MemoryState {
+  /** Days until the odds of recall fall to the target retention */
+  stability: number;
+  /** 1 (easy) to 10 (hard) */
+  difficulty: number;
+  /** epoch ms of the latest review */
+  lastReviewAt: number;
+  /** epoch ms when the next review is due */
+  dueAt: number;
+  reviews: number;
+  /** Reviews that were failed after the item was learned */
+  lapses: number;
+}
+
+/** Memory states by skill node ID and by static exercise ID */
+export interface ReviewSchedule {
+  skills: Record<string, MemoryState>;
+  exercises: Record<string, MemoryState>;
+}
+
+export type ReviewScore = Pick<ExerciseScore, 'overall' | 'isPassed'>;
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/** Default FSRS-4.5 weights */
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246,
+  1.587, 0.2272, 2.8755,
+];
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Recall odds are 90% after `stability` days
+/** Recall odds at which an item is due */
+export const TARGET_RETENTION = 0.9;
+const MIN_INTERVAL_DAYS = 1;
+const MAX_INTERVAL_DAYS = 365;
+const MS_PER_DAY = 86400000;
+
+/** Scores at or above these earn "good" and "easy" */
+const GOOD_SCORE = 85;
+const EASY_SCORE = 95;
+
+export function createReviewSchedule(): ReviewSchedule {
+  return { skills: {}, exercises: {} };
+}
+
+export function gradeFromScore(score: ReviewScore): ReviewGrade {
+  if (!score.isPassed) return 1;
+  if (score.overall >= EASY_SCORE) return 4;
+  if (score.overall >= GOOD_SCORE) return 3;
+  return 2;
+}
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+const initialDifficulty = (grade: ReviewGrade) => clampDifficulty(W[4] - (grade - 3) * W[5]);
+
+/** Odds (0-1) of recalling the item now */
+export function retrievability(state: MemoryState, now: number): number {
+  const elapsedDays = Math.max(0, now - state.lastReviewAt) / MS_PER_DAY;
+  return Math.pow(1 + (FACTOR * elapsedDays) / state.stability, DECAY);
+}
+
+/** Days until recall odds fall to the target retention */
+function intervalDays(stability: number): number {
+  const days = (stability / FACTOR) * (Math.pow(TARGET_RETENTION, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(MIN_INTERVAL_DAYS, Math.round(days)));
+}
+
+/**
+ * Memory state after a review graded `grade`. Without a previous state the
+ * item is new: a failed first attempt leaves it unscheduled (undefined).
+ * Reviewing again the same day barely moves stability, since recall odds
+ * are still near 1.
+ */
+export function reviewMemory(
+  state: MemoryState | undefined,
+  grade: ReviewGrade,
+  now: number,
+): MemoryState | undefined {
+  if (!state) {
+    if (grade === 1) return undefined;
+    const stability = W[grade - 1];
+    return {
+      stability,
+      difficulty: initialDifficulty(grade),
+      lastReviewAt: now,
+      dueAt: now + intervalDays(stability) * MS_PER_DAY,
+      reviews: 1,
+      lapses: 0,
+    };
+  }
+
+  const r = retrievability(state, now);
+  const { difficulty: d, stability: s } = state;
+  let stability: number;
+  if (grade === 1) {
+    // Relearning after forgetting: never more stable than before
+    stability = Math.min(s, W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r)));
+  } else {
+    const hardPenalty = grade === 2 ? W[15] : 1;
+    const easyBonus = grade === 4 ? W[16] : 1;
+    stability =
+      s * (1 + Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+  }
+  // Difficulty moves with the grade, pulled gently back toward its default
+  const difficulty = clampDifficulty(W[7] * initialDifficulty(4) + (1 - W[7]) * (d - W[6] * (grade - 3)));
+
+  return {
+    stability,
+    difficulty,
+    lastReviewAt: now,
+    dueAt: now + intervalDays(stability) * MS_PER_DAY,
+    reviews: state.reviews + 1,
+    lapses: state.lapses + (grade === 1 ? 1 : 0),
+  };
+}
+
+/**
+ * Schedule after one exercise result: the exercise (null for generated
+ * exercises, which have no stable ID) and each skill it practises.
+ */
+export function recordReview(
+  schedule: ReviewSchedule,
+  exerciseId: string | null,
+  skillIds: string[],
+  score: ReviewScore,
+  now: number,
+): ReviewSchedule {
+  const grade = gradeFromScore(score);
+  const update = (items: Record<string, MemoryState>, ids: string[]) => {
+    const next = { ...items };
+    for (const id of ids) {
+      const state = reviewMemory(items[id], grade, now);
+      if (state) next[id] = state;
+    }
+    return next;
+  };
+  return {
+    skills: update(schedule.skills, skillIds),
+    exercises: exerciseId ? update(schedule.exercises, [exerciseId]) : schedule.exercises,
+  };
+}
+
+/** IDs of the items due by `now`, least likely to be recalled first */
+export function getDueItems(items: Record<string, MemoryState>, now: number): string[] {
+  return Object.entries(items)
+    .filter(([, state]) => state.dueAt <= now)
+    .sort(([, a], [, b]) => retrievability(a, now) - retrievability(b, now))
+    .map(([id]) => id);
+}
+
+/** Merge two devices' schedules: each item keeps its most recently reviewed state */
+export function mergeReviewSchedules(local: ReviewSchedule, remote: ReviewSchedule): ReviewSchedule {
+  const merge = (a: Record<string, MemoryState>, b: Record<string, MemoryState>) => {
+    const merged = { ...a };
+    for (const [id, state] of Object.entries(b)) {
+      if (!merged[id] || state.lastReviewAt > merged[id].lastReviewAt) merged[id] = state;
+    }
+    return merged;
+  };
+  return {
+    skills: merge(local.skills, remote.skills ?? {}),
+    exercises: merge(local.exercises, remote.exercises ?? {}),
+  };
+}
@@ -1,8 +1,9 @@
 /**
  * WeakSpotDetector - Analyzes learner profiles to identify weak patterns
  *
- * Detects weak individual notes, transitions, timing issues, and hand-specific
- * problems. Generates drill parameters for AI exercise generation targeting
+ * Detects weak individual notes, transitions, timing issues, hand-specific
+ * problems, and passages that A/B loop practice hasn't brought up to tempo.
+ * Generates drill parameters for AI exercise generation targeting
  * the identified weaknesses.
  *
  * Pure TypeScript - no React imports.
@@ -10,12 +11,14 @@
 
 import type { GenerationParams } from '../../services/geminiExerciseService';
 import { midiToNoteName } from '../music/MusicTheory';
+import { loopWeakness } from '../exercises/loopPractice';
+import type { LoopRecord } from '../exercises/loopPractice';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type WeakPatternType = 'note' | 'transition' | 'timing' | 'hand';
+export type WeakPatternType = 'note' | 'transition' | 'timing' | 'hand' | 'passage';
 
 export interface WeakPattern {
   type: WeakPatternType;
@@ -33,6 +36,8 @@ export interface WeakSpotProfile {
     pitchAccuracy: number;
   };
   tempoRange: { min: number; max: number };
+  /** A/B practice loops and their passes (loopKey -> record) */
+  loopHistory?: Record<string, LoopRecord>;
 }
 
 // ============================================================================
@@ -44,6 +49,9 @@ const WEAK_TIMING_THRESHOLD = 0.6;
 const LEFT_HAND_UPPER_BOUND = 60; // MIDI notes below 60 are left-hand range
 const MAX_PATTERNS = 5;
 const HAND_ACCURACY_DIFFERENCE_THRESHOLD = 0.15;
+const MIN_LOOP_ATTEMPTS = 3; // Passes before a loop says anything about the passage
+const WEAK_PASSAGE_THRESHOLD = 0.15; // Clean passes still >15% below target tempo
+const MAX_PASSAGE_NOTES = 8;
 
 // ============================================================================
 // Detection
@@ -147,6 +155,23 @@ export function detectWeakPatterns(profile: WeakSpotProfile): WeakPattern[] {
     });
   }
 
+  // 5. Detect passages looped without reaching tempo cleanly
+  for (const record of Object.values(profile.loopHistory ?? {})) {
+    if (record.attempts.length < MIN_LOOP_ATTEMPTS) continue;
+    const weakness = loopWeakness(record);
+    if (weakness <= WEAK_PASSAGE_THRESHOLD) continue;
+
+    const bestTempo = Math.round(record.targetTempo * (1 - weakness));
+    patterns.push({
+      type: 'passage',
+      description: weakness < 1
+        ? `Weak passage: ${record.title}, beats ${record.startBeat}-${record.endBeat} (clean up to ${bestTempo} of ${Math.round(record.targetTempo)} BPM)`
+        : `Weak passage: ${record.title}, beats ${record.startBeat}-${record.endBeat} (no clean pass yet)`,
+      severity: weakness,
+      targetMidi: record.pitches.slice(0, MAX_PASSAGE_NOTES),
+    });
+  }
+
   // Sort by severity (worst first) and return at most 5
   patterns.sort((a, b) => b.severity - a.severity);
   return patterns.slice(0, MAX_PATTERNS);
@@ -200,6 +225,15 @@ export function generateDrillParams(pattern: WeakPattern): GenerationParams {
         skillContext: 'Drill: slow tempo timing practice',
       };
 
+    case 'passage':
+      return {
+        ...baseParams,
+        difficulty: 2,
+        noteCount: 12,
+        tempoRange: { min: 40, max: 70 },
+        skillContext: `Drill: slow practice of the notes in a passage that needs work (${pattern.description})`,
+      };
+
     case 'hand':
       // Determine hand from MIDI range
       const isLeftHand = pattern.targetMidi.length > 0 && pattern.targetMidi[0] < LEFT_HAND_UPPER_BOUND;
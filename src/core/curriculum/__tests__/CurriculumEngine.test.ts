@@ -2,8 +2,10 @@ import {
   generateSessionPlan,
   getNextSkillToLearn,
   shouldUnlockAnchorLesson,
+  type SessionPlanProfile,
 } from '../CurriculumEngine';
 import { SKILL_TREE } from '../SkillTree';
+import type { MemoryState } from '../SpacedRepetition';
 import type { LearnerProfileData } from '../../../stores/learnerProfileStore';
 
 // Mock ContentLoader — returns minimal Exercise objects for static exercises
@@ -136,6 +138,43 @@ describe('CurriculumEngine', () => {
       const plan = generateSessionPlan(makeProfile(), []);
       expect(plan.reasoning.length).toBeGreaterThanOrEqual(3);
     });
+
+    it('should review exercises that are due and skip skills that are not', () => {
+      const DAY = 86400000;
+      const memory = (dueAt: number): MemoryState => ({
+        stability: 4,
+        difficulty: 5,
+        lastReviewAt: dueAt - 4 * DAY,
+        dueAt,
+        reviews: 1,
+        lapses: 0,
+      });
+      const mastered = ['find-middle-c', 'keyboard-geography', 'white-keys'];
+      const profile: SessionPlanProfile = {
+        ...makeProfile({
+          masteredSkills: mastered,
+          // Practised long ago: linear decay alone would flag every skill
+          skillMasteryData: Object.fromEntries(
+            mastered.map((id) => [id, { masteredAt: 0, lastPracticedAt: 0, completionCount: 3, decayScore: 1 }])
+          ),
+          totalExercisesCompleted: 7,
+        }),
+        reviewSchedule: {
+          skills: Object.fromEntries(mastered.map((id) => [id, memory(Date.now() + 10 * DAY)])),
+          exercises: {
+            'lesson-01-ex-01': memory(Date.now() - DAY),
+            'lesson-01-ex-02': memory(Date.now() - 2 * DAY),
+            'lesson-01-ex-03': memory(Date.now() - 3 * DAY),
+          },
+        },
+      };
+
+      const plan = generateSessionPlan(profile, mastered);
+      const reviews = plan.lesson.filter((r) => r.reason.includes('due for review'));
+      expect(reviews.map((r) => r.exerciseId).sort()).toEqual(['lesson-01-ex-01', 'lesson-01-ex-02', 'lesson-01-ex-03']);
+      expect(reviews.every((r) => r.source === 'static')).toBe(true);
+      expect(plan.lesson.some((r) => r.reason.includes('skill needs refreshing'))).toBe(false);
+    });
   });
 
   describe('getNextSkillToLearn', () => {
@@ -0,0 +1,113 @@
+/**
+ * SpacedRepetition Tests
+ *
+ * Grading scores, the memory model's stability and difficulty updates, due
+ * dates, and merging schedules from two devices.
+ */
+
+import {
+  createReviewSchedule,
+  getDueItems,
+  gradeFromScore,
+  mergeReviewSchedules,
+  recordReview,
+  retrievability,
+  reviewMemory,
+  type MemoryState,
+} from '../SpacedRepetition';
+
+const DAY = 86400000;
+const T0 = Date.UTC(2026, 0, 1);
+
+describe('gradeFromScore', () => {
+  it('maps failed, passed, good and excellent scores to grades', () => {
+    expect(gradeFromScore({ overall: 90, isPassed: false })).toBe(1);
+    expect(gradeFromScore({ overall: 72, isPassed: true })).toBe(2);
+    expect(gradeFromScore({ overall: 88, isPassed: true })).toBe(3);
+    expect(gradeFromScore({ overall: 97, isPassed: true })).toBe(4);
+  });
+});
+
+describe('reviewMemory', () => {
+  it('leaves a new item unscheduled until it is first passed', () => {
+    expect(reviewMemory(undefined, 1, T0)).toBeUndefined();
+    const good = reviewMemory(undefined, 3, T0)!;
+    expect(good.reviews).toBe(1);
+    expect(good.dueAt).toBe(T0 + 4 * DAY);
+  });
+
+  it('schedules easier first passes further out', () => {
+    const hard = reviewMemory(undefined, 2, T0)!;
+    const easy = reviewMemory(undefined, 4, T0)!;
+    expect(easy.dueAt).toBeGreaterThan(hard.dueAt);
+    expect(easy.difficulty).toBeLessThan(hard.difficulty);
+  });
+
+  it('grows stability when an item is recalled on time', () => {
+    const first = reviewMemory(undefined, 3, T0)!;
+    const second = reviewMemory(first, 3, first.dueAt)!;
+    expect(second.stability).toBeGreaterThan(first.stability * 3);
+    expect(second.dueAt - second.lastReviewAt).toBeGreaterThan(first.dueAt - first.lastReviewAt);
+  });
+
+  it('barely changes stability when reviewed again the same day', () => {
+    const first = reviewMemory(undefined, 3, T0)!;
+    const again = reviewMemory(first, 3, T0 + 60000)!;
+    expect(again.stability).toBeCloseTo(first.stability, 1);
+  });
+
+  it('drops stability, raises difficulty and counts a lapse on a failed review', () => {
+    let state = reviewMemory(undefined, 3, T0)!;
+    state = reviewMemory(state, 3, state.dueAt)!;
+    const lapsed = reviewMemory(state, 1, state.dueAt)!;
+    expect(lapsed.stability).toBeLessThan(state.stability);
+    expect(lapsed.difficulty).toBeGreaterThan(state.difficulty);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.dueAt - lapsed.lastReviewAt).toBeLessThan(state.dueAt - state.lastReviewAt);
+  });
+});
+
+describe('retrievability', () => {
+  it('is 1 right after review and 90% after `stability` days', () => {
+    const state = reviewMemory(undefined, 3, T0)!;
+    expect(retrievability(state, T0)).toBe(1);
+    expect(retrievability(state, T0 + state.stability * DAY)).toBeCloseTo(0.9);
+  });
+});
+
+describe('recordReview', () => {
+  it('updates each skill and the exercise, skipping generated exercises', () => {
+    const passed = { overall: 90, isPassed: true };
+    let schedule = recordReview(createReviewSchedule(), 'lesson-01-ex-01', ['find-middle-c'], passed, T0);
+    expect(Object.keys(schedule.skills)).toEqual(['find-middle-c']);
+    expect(Object.keys(schedule.exercises)).toEqual(['lesson-01-ex-01']);
+
+    schedule = recordReview(schedule, null, ['white-keys'], passed, T0);
+    expect(Object.keys(schedule.exercises)).toEqual(['lesson-01-ex-01']);
+    expect(Object.keys(schedule.skills).sort()).toEqual(['find-middle-c', 'white-keys']);
+  });
+});
+
+describe('getDueItems', () => {
+  it('returns due items, least likely to be recalled first', () => {
+    const shaky = reviewMemory(undefined, 2, T0)!;
+    const solid = reviewMemory(undefined, 4, T0)!;
+    const items = { shaky, solid };
+    expect(getDueItems(items, T0)).toEqual([]);
+    expect(getDueItems(items, T0 + 2 * DAY)).toEqual(['shaky']);
+    expect(getDueItems(items, T0 + 30 * DAY)).toEqual(['shaky', 'solid']);
+  });
+});
+
+describe('mergeReviewSchedules', () => {
+  it('keeps the most recently reviewed state of each item', () => {
+    const older: MemoryState = reviewMemory(undefined, 3, T0)!;
+    const newer: MemoryState = reviewMemory(older, 4, T0 + 5 * DAY)!;
+    const local = { skills: { a: newer }, exercises: { x: older } };
+    const remote = { skills: { a: older, b: older }, exercises: { x: newer } };
+    expect(mergeReviewSchedules(local, remote)).toEqual({
+      skills: { a: newer, b: older },
+      exercises: { x: newer },
+    });
+  });
+});
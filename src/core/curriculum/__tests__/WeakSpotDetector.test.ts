@@ -4,6 +4,7 @@ import {
   type WeakPattern,
   type WeakSpotProfile,
 } from '../WeakSpotDetector';
+import type { LoopRecord } from '../../exercises/loopPractice';
 
 // ============================================================================
 // Helpers
@@ -28,6 +29,18 @@ function createCleanProfile(overrides: Partial<WeakSpotProfile> = {}): WeakSpotP
   };
 }
 
+function createLoopRecord(scores: number[], tempos: number[]): LoopRecord {
+  return {
+    exerciseId: 'lesson-03-ex-02',
+    title: 'Ode to Joy',
+    startBeat: 8,
+    endBeat: 16,
+    targetTempo: 100,
+    pitches: [60, 62, 64, 65, 67],
+    attempts: scores.map((score, i) => ({ score, tempo: tempos[i], at: i })),
+  };
+}
+
 function createWeakProfile(overrides: Partial<WeakSpotProfile> = {}): WeakSpotProfile {
   return {
     noteAccuracy: {
@@ -148,6 +161,28 @@ describe('detectWeakPatterns', () => {
     expect(patterns.length).toBeLessThanOrEqual(5);
   });
 
+  it('detects a looped passage that has not been played cleanly near tempo', () => {
+    const profile = createCleanProfile({
+      loopHistory: { 'lesson-03-ex-02@8-16': createLoopRecord([92, 95, 70], [70, 75, 80]) },
+    });
+    const passage = detectWeakPatterns(profile).find((p) => p.type === 'passage');
+    expect(passage).toBeDefined();
+    expect(passage!.severity).toBeCloseTo(0.25);
+    expect(passage!.targetMidi).toEqual([60, 62, 64, 65, 67]);
+    expect(passage!.description).toContain('Ode to Joy');
+    expect(passage!.description).toContain('75 of 100 BPM');
+  });
+
+  it('ignores loops near tempo or with too few passes', () => {
+    const profile = createCleanProfile({
+      loopHistory: {
+        mastered: createLoopRecord([95, 95, 96], [85, 90, 95]),
+        fresh: createLoopRecord([40, 50], [70, 70]),
+      },
+    });
+    expect(detectWeakPatterns(profile).filter((p) => p.type === 'passage')).toEqual([]);
+  });
+
   it('sorts patterns by severity (worst first)', () => {
     const profile = createWeakProfile();
     const patterns = detectWeakPatterns(profile);
@@ -216,6 +251,19 @@ describe('generateDrillParams', () => {
     expect(params.skillContext).toContain('left');
   });
 
+  it('generates slow params for a passage pattern using its notes', () => {
+    const pattern: WeakPattern = {
+      type: 'passage',
+      description: 'Weak passage: Ode to Joy, beats 8-16 (no clean pass yet)',
+      severity: 1,
+      targetMidi: [60, 64, 67],
+    };
+    const params = generateDrillParams(pattern);
+    expect(params.weakNotes).toEqual([60, 64, 67]);
+    expect(params.tempoRange.max).toBeLessThanOrEqual(70);
+    expect(params.skillContext).toContain('Ode to Joy');
+  });
+
   it('targets right hand when MIDI notes are >= 60', () => {
     const pattern: WeakPattern = {
       type: 'hand',
@@ -228,7 +276,7 @@ describe('generateDrillParams', () => {
   });
 
   it('always returns valid GenerationParams structure', () => {
-    const types: Array<WeakPattern['type']> = ['note', 'transition', 'timing', 'hand'];
+    const types: Array<WeakPattern['type']> = ['note', 'transition', 'timing', 'hand', 'passage'];
     for (const type of types) {
       const params = generateDrillParams({
         type,
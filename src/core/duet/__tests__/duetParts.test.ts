@@ -0,0 +1,87 @@
+/**
+ * Duet Parts Tests
+ *
+ * Splitting a section between two players, and placing the partner's keys
+ * on the beat grid where they were played.
+ */
+
+import {
+  duetPartExercise,
+  duetPartNotes,
+  duetSplitsFor,
+  partnerPart,
+  placePartnerNotes,
+} from '../duetParts';
+import type { SongSection } from '../../songs/songTypes';
+import type { Exercise, NoteEvent } from '../../exercises/types';
+
+const melody: NoteEvent[] = [
+  { note: 64, startBeat: 0, durationBeats: 1 },
+  { note: 65, startBeat: 1, durationBeats: 1 },
+];
+const bass: NoteEvent[] = [{ note: 48, startBeat: 0, durationBeats: 2 }];
+
+const section = (layers: Partial<SongSection['layers']>): SongSection => ({
+  id: 'verse',
+  label: 'Verse',
+  startBeat: 0,
+  endBeat: 4,
+  difficulty: 2,
+  layers: { melody: [], full: [], ...layers },
+});
+
+const exerciseWith = (notes: NoteEvent[]): Exercise => ({
+  id: 'song-verse-full',
+  version: 1,
+  metadata: { title: 'Song — Verse', description: '', difficulty: 2, estimatedMinutes: 2, skills: [], prerequisites: [] },
+  settings: { tempo: 60, timeSignature: [4, 4], keySignature: 'C', countIn: 4, metronomeEnabled: true },
+  notes,
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+  hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+});
+
+describe('duet parts', () => {
+  it('splits the full arrangement by hand and the layers by layer', () => {
+    const verse = section({ melody, accompaniment: bass, full: [...melody, ...bass] });
+    expect(duetSplitsFor(verse)).toEqual(['hands', 'layers']);
+    expect(duetPartNotes(verse, 'left')).toEqual(bass);
+    expect(duetPartNotes(verse, 'right')).toEqual(melody);
+    expect(duetPartNotes(verse, 'accompaniment')).toEqual(bass);
+    expect(partnerPart('right')).toBe('left');
+    expect(partnerPart('accompaniment')).toBe('melody');
+  });
+
+  it('offers no split where one part would be empty', () => {
+    expect(duetSplitsFor(section({ melody, full: melody }))).toEqual([]);
+  });
+
+  it('cuts the section exercise down to one part', () => {
+    const verse = section({ melody, full: [...melody, ...bass] });
+    const left = duetPartExercise(exerciseWith(verse.layers.full), verse, 'left');
+    expect(left).toMatchObject({ id: 'song-verse-full-duet-left', notes: bass, hands: 'left' });
+  });
+});
+
+describe('placePartnerNotes', () => {
+  const partner = exerciseWith(melody);
+
+  it('places keys by when they were played and pairs releases', () => {
+    const notes = placePartnerNotes(
+      [
+        { note: 64, velocity: 80, on: true, atMs: 50 },
+        { note: 64, velocity: 0, on: false, atMs: 800 },
+        { note: 65, velocity: 80, on: true, atMs: 1000 },
+      ],
+      partner,
+    );
+    expect(notes).toEqual([
+      { note: 64, startBeat: 0.05, durationBeats: 0.75, isCorrect: true },
+      { note: 65, startBeat: 1, durationBeats: 0.25, isCorrect: true },
+    ]);
+  });
+
+  it('marks keys that are not in the partner part as wrong', () => {
+    const [note] = placePartnerNotes([{ note: 61, velocity: 80, on: true, atMs: 0 }], partner);
+    expect(note.isCorrect).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Duet Relay Tests
+ *
+ * Room handling shared by the WebSocket relay and the in-memory one, the
+ * relay's clock, and clock sync against it.
+ */
+
+import { DuetRelayRooms } from '../relayRooms';
+import { DUET_PROTOCOL_VERSION, createRoomCode, parseRelayEvent, parseRelayRequest } from '../duetProtocol';
+import { estimateClock, toLocalTime, toRelayTime } from '../clockSync';
+
+const join = (room: string, name: string) => ({ type: 'join' as const, room, name, version: DUET_PROTOCOL_VERSION });
+
+describe('DuetRelayRooms', () => {
+  it('makes the first player host and introduces the second', () => {
+    const rooms = new DuetRelayRooms();
+    expect(rooms.handle('a', join('ROOM', 'Ana'))).toEqual([
+      { to: 'a', event: { type: 'joined', role: 'host', partnerName: null } },
+    ]);
+    expect(rooms.handle('b', join('ROOM', 'Ben'))).toEqual([
+      { to: 'b', event: { type: 'joined', role: 'guest', partnerName: 'Ana' } },
+      { to: 'a', event: { type: 'partner-joined', name: 'Ben' } },
+    ]);
+  });
+
+  it('turns a third player away', () => {
+    const rooms = new DuetRelayRooms();
+    rooms.handle('a', join('ROOM', 'Ana'));
+    rooms.handle('b', join('ROOM', 'Ben'));
+    expect(rooms.handle('c', join('ROOM', 'Cy'))[0].event).toMatchObject({ type: 'error', code: 'room-full' });
+  });
+
+  it('refuses other protocol versions', () => {
+    const rooms = new DuetRelayRooms();
+    const [reply] = rooms.handle('a', { ...join('ROOM', 'Ana'), version: DUET_PROTOCOL_VERSION + 1 });
+    expect(reply.event).toMatchObject({ type: 'error', code: 'version' });
+  });
+
+  it('passes peer messages to the partner only', () => {
+    const rooms = new DuetRelayRooms();
+    rooms.handle('a', join('ROOM', 'Ana'));
+    rooms.handle('b', join('ROOM', 'Ben'));
+    rooms.handle('x', join('OTHER', 'Xi'));
+    expect(rooms.handle('a', { type: 'peer', body: { type: 'ready' } })).toEqual([
+      { to: 'b', event: { type: 'peer', body: { type: 'ready' } } },
+    ]);
+    expect(rooms.handle('z', { type: 'peer', body: { type: 'ready' } })[0].event).toMatchObject({ code: 'not-joined' });
+  });
+
+  it('answers pings with its clock', () => {
+    const rooms = new DuetRelayRooms(() => 5000);
+    expect(rooms.handle('a', { type: 'ping', id: 3, sentAt: 100 })).toEqual([
+      { to: 'a', event: { type: 'pong', id: 3, sentAt: 100, relayTime: 5000 } },
+    ]);
+  });
+
+  it('tells the partner when a player leaves and closes empty rooms', () => {
+    const rooms = new DuetRelayRooms();
+    rooms.handle('a', join('ROOM', 'Ana'));
+    rooms.handle('b', join('ROOM', 'Ben'));
+    expect(rooms.disconnect('a')).toEqual([{ to: 'b', event: { type: 'partner-left' } }]);
+    rooms.disconnect('b');
+    expect(rooms.roomCount).toBe(0);
+  });
+});
+
+describe('duet protocol', () => {
+  it('accepts well-formed requests and events only', () => {
+    expect(parseRelayRequest(JSON.stringify(join('AB12', 'Ana')))).toEqual(join('AB12', 'Ana'));
+    expect(parseRelayRequest(JSON.stringify(join('ab', 'Ana')))).toBeNull();
+    expect(parseRelayRequest('not json')).toBeNull();
+    expect(parseRelayEvent(JSON.stringify({ type: 'peer', body: { type: 'start', startAt: 'soon' } }))).toBeNull();
+    expect(parseRelayEvent(JSON.stringify({ type: 'partner-left' }))).toEqual({ type: 'partner-left' });
+  });
+
+  it('makes room codes the relay accepts', () => {
+    expect(createRoomCode(() => 0)).toBe('AAAA');
+    expect(parseRelayRequest(JSON.stringify(join(createRoomCode(), 'Ana')))).not.toBeNull();
+  });
+});
+
+describe('estimateClock', () => {
+  it('uses the quickest round trip', () => {
+    // Relay clock is 10s ahead; the second trip was slow one way
+    const clock = estimateClock([
+      { sentAt: 0, relayTime: 10_020, receivedAt: 40 },
+      { sentAt: 100, relayTime: 10_300, receivedAt: 400 },
+      { sentAt: 500, relayTime: 10_510, receivedAt: 520 },
+    ]);
+    expect(clock).toEqual({ offsetMs: 10_000, rttMs: 20 });
+    expect(toRelayTime(1000, clock!)).toBe(11_000);
+    expect(toLocalTime(11_000, clock!)).toBe(1000);
+  });
+
+  it('needs at least one sample', () => {
+    expect(estimateClock([])).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Clock sync with the duet relay
+ * Pure TypeScript - no React imports
+ *
+ * Both players set their clocks by the relay's, NTP-style: each ping
+ * records when it left, the relay's time in the reply, and when the reply
+ * came back. Assuming the trip took as long each way, the relay read its
+ * clock halfway through. The round trip with the least delay has the least
+ * room for that assumption to be wrong, so it is the one used.
+ */
+
+export interface ClockSample {
+  /** Local time the ping was sent */
+  sentAt: number;
+  /** Relay time in the reply */
+  relayTime: number;
+  /** Local time the reply arrived */
+  receivedAt: number;
+}
+
+export interface ClockEstimate {
+  /** relay time = local time + offsetMs */
+  offsetMs: number;
+  /** Round trip of the sample the offset came from */
+  rttMs: number;
+}
+
+/** Pings sent before a duet can start */
+export const CLOCK_SYNC_ROUNDS = 6;
+
+/** Offset from the quickest round trip, or null without samples */
+export function estimateClock(samples: ClockSample[]): ClockEstimate | null {
+  let best: ClockEstimate | null = null;
+  for (const { sentAt, relayTime, receivedAt } of samples) {
+    const rttMs = receivedAt - sentAt;
+    if (rttMs < 0) continue;
+    if (!best || rttMs < best.rttMs) {
+      best = { offsetMs: relayTime - (sentAt + rttMs / 2), rttMs };
+    }
+  }
+  return best;
+}
+
+export const toRelayTime = (localTime: number, clock: ClockEstimate): number =>
+  localTime + clock.offsetMs;
+
+export const toLocalTime = (relayTime: number, clock: ClockEstimate): number =>
+  relayTime - clock.offsetMs;
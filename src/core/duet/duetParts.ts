@@ -0,0 +1,116 @@
+/**
+ * Duet parts — how two players share a song section
+ * Pure TypeScript - no React imports
+ *
+ * A section splits by hand (its full arrangement, the way hands-separate
+ * practice splits it) or by layer (melody against accompaniment). Each
+ * player's part becomes an exercise of its own, scored on its own; the
+ * partner's keys arrive over the relay and are drawn where they were
+ * played on the shared timeline, however late they got here.
+ */
+
+import type { Exercise, NoteEvent } from '../exercises/types';
+import type { SongSection } from '../songs/songTypes';
+import type { GhostNote } from '../exercises/ghostRace';
+import { noteHand } from '../exercises/handPractice';
+import { createTempoTimeline } from '../exercises/tempoMap';
+
+export type DuetSplit = 'hands' | 'layers';
+export type DuetPart = 'right' | 'left' | 'melody' | 'accompaniment';
+
+export const DUET_PARTS: Record<DuetSplit, [DuetPart, DuetPart]> = {
+  hands: ['right', 'left'],
+  layers: ['melody', 'accompaniment'],
+};
+
+export const DUET_PART_LABELS: Record<DuetPart, string> = {
+  right: 'Right hand',
+  left: 'Left hand',
+  melody: 'Melody',
+  accompaniment: 'Accompaniment',
+};
+
+/** Partner notes further than this from one of theirs of the same pitch are wrong */
+const MATCH_WINDOW_BEATS = 1.5;
+
+/** Held partner keys with no release yet are drawn this long */
+const OPEN_NOTE_BEATS = 0.25;
+
+export function partnerPart(part: DuetPart): DuetPart {
+  const [a, b] = DUET_PARTS[part === 'right' || part === 'left' ? 'hands' : 'layers'];
+  return part === a ? b : a;
+}
+
+export function splitOfPart(part: DuetPart): DuetSplit {
+  return part === 'right' || part === 'left' ? 'hands' : 'layers';
+}
+
+/** Notes of one part of the section */
+export function duetPartNotes(section: SongSection, part: DuetPart): NoteEvent[] {
+  switch (part) {
+    case 'melody':
+      return section.layers.melody;
+    case 'accompaniment':
+      return section.layers.accompaniment ?? [];
+    default:
+      return section.layers.full.filter((n) => noteHand(n) === part);
+  }
+}
+
+/** Splits where both parts have notes */
+export function duetSplitsFor(section: SongSection): DuetSplit[] {
+  return (Object.keys(DUET_PARTS) as DuetSplit[]).filter((split) =>
+    DUET_PARTS[split].every((part) => duetPartNotes(section, part).length > 0),
+  );
+}
+
+/** The section exercise cut down to one part */
+export function duetPartExercise(sectionExercise: Exercise, section: SongSection, part: DuetPart): Exercise {
+  return {
+    ...sectionExercise,
+    id: `${sectionExercise.id}-duet-${part}`,
+    notes: duetPartNotes(section, part),
+    ...(splitOfPart(part) === 'hands' ? { hands: part as 'left' | 'right' } : {}),
+  };
+}
+
+// ============================================================================
+// Partner notes
+// ============================================================================
+
+/** A key the partner pressed or released, as it arrived */
+export interface PartnerNoteEvent {
+  note: number;
+  velocity: number;
+  on: boolean;
+  /** ms from beat 0 on the shared timeline */
+  atMs: number;
+}
+
+/**
+ * Place the partner's keys on the beat grid at the moment they were played,
+ * not when they arrived. Presses are paired with their releases; a note is
+ * correct when the partner's part has that pitch within the match window.
+ */
+export function placePartnerNotes(events: PartnerNoteEvent[], partnerExercise: Exercise): GhostNote[] {
+  const timeline = createTempoTimeline(partnerExercise.settings);
+  const notes: GhostNote[] = [];
+  const held = new Map<number, number[]>();
+
+  for (const event of events) {
+    const beat = timeline.msToBeat(event.atMs);
+    if (event.on) {
+      const isCorrect = partnerExercise.notes.some(
+        (n) => n.note === event.note && Math.abs(n.startBeat - beat) <= MATCH_WINDOW_BEATS,
+      );
+      held.set(event.note, [...(held.get(event.note) ?? []), notes.length]);
+      notes.push({ note: event.note, startBeat: beat, durationBeats: OPEN_NOTE_BEATS, isCorrect });
+    } else {
+      const index = held.get(event.note)?.shift();
+      if (index !== undefined) {
+        notes[index].durationBeats = Math.max(OPEN_NOTE_BEATS, beat - notes[index].startBeat);
+      }
+    }
+  }
+  return notes;
+}
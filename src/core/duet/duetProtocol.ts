@@ -0,0 +1,178 @@
+/**
+ * Duet protocol — messages between the app and the duet relay
+ * Pure TypeScript - no React imports; shared with the relay server (relay/)
+ *
+ * The relay only understands rooms and its clock: a client joins a room,
+ * pings for the relay's time, and sends `peer` messages that the relay
+ * passes to the other player unread. Everything about the duet itself
+ * (which part each player takes, when to start, the notes) travels inside
+ * those peer messages.
+ */
+
+import type { ExerciseScore } from '../exercises/types';
+import type { DuetPart, DuetSplit } from './duetParts';
+
+/** Bumped when either side of the protocol changes incompatibly */
+export const DUET_PROTOCOL_VERSION = 1;
+
+/** Players per room */
+export const DUET_ROOM_SIZE = 2;
+
+/** Room codes are 4-8 capitals or digits */
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,8}$/;
+
+/** Letters and digits that can't be misread for each other (no 0/O, 1/I) */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function createRoomCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < 4; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// ============================================================================
+// Peer messages (relayed unread)
+// ============================================================================
+
+/** What the host picked to play; the guest takes the other part */
+export interface DuetSetup {
+  songId: string;
+  sectionId: string;
+  split: DuetSplit;
+  hostPart: DuetPart;
+}
+
+/** A player's own score for their part, sent when they finish */
+export type DuetResult = Pick<ExerciseScore, 'overall' | 'stars' | 'breakdown'>;
+
+export type DuetPeerMessage =
+  | { type: 'setup'; setup: DuetSetup }
+  /** Clock synced; ready to be started */
+  | { type: 'ready' }
+  /** Count-in begins at this relay time */
+  | { type: 'start'; startAt: number }
+  /**
+   * A key pressed or released. `atMs` is ms from beat 0 on the shared
+   * timeline (where it belongs on the roll); `sentAt` is relay time (how
+   * late it arrived).
+   */
+  | { type: 'note'; note: number; velocity: number; on: boolean; atMs: number; sentAt: number }
+  | { type: 'finish'; result: DuetResult };
+
+// ============================================================================
+// Client → relay
+// ============================================================================
+
+export type DuetRelayRequest =
+  | { type: 'join'; room: string; name: string; version: number }
+  | { type: 'ping'; id: number; sentAt: number }
+  | { type: 'peer'; body: DuetPeerMessage };
+
+// ============================================================================
+// Relay → client
+// ============================================================================
+
+export type DuetRelayErrorCode = 'room-full' | 'bad-request' | 'not-joined' | 'version';
+
+export type DuetRelayEvent =
+  /** First into the room hosts; `partnerName` is set when joining as guest */
+  | { type: 'joined'; role: 'host' | 'guest'; partnerName: string | null }
+  | { type: 'partner-joined'; name: string }
+  | { type: 'partner-left' }
+  | { type: 'pong'; id: number; sentAt: number; relayTime: number }
+  | { type: 'peer'; body: DuetPeerMessage }
+  | { type: 'error'; code: DuetRelayErrorCode; message: string };
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function parseJson(raw: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(raw);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A request from a client, or null if it isn't one; the relay doesn't look inside peer bodies */
+export function parseRelayRequest(raw: string): DuetRelayRequest | null {
+  const msg = parseJson(raw);
+  if (!msg) return null;
+  switch (msg.type) {
+    case 'join':
+      return typeof msg.room === 'string' &&
+        ROOM_CODE_PATTERN.test(msg.room) &&
+        typeof msg.name === 'string' &&
+        msg.name.length <= 40 &&
+        isFiniteNumber(msg.version)
+        ? { type: 'join', room: msg.room, name: msg.name, version: msg.version }
+        : null;
+    case 'ping':
+      return isFiniteNumber(msg.id) && isFiniteNumber(msg.sentAt)
+        ? { type: 'ping', id: msg.id, sentAt: msg.sentAt }
+        : null;
+    case 'peer':
+      return isRecord(msg.body) && typeof msg.body.type === 'string'
+        ? { type: 'peer', body: msg.body as DuetPeerMessage }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** An event from the relay, or null if it isn't one */
+export function parseRelayEvent(raw: string): DuetRelayEvent | null {
+  const msg = parseJson(raw);
+  if (!msg || typeof msg.type !== 'string') return null;
+  if (msg.type === 'peer') {
+    const body = isRecord(msg.body) ? parsePeerMessage(msg.body) : null;
+    return body ? { type: 'peer', body } : null;
+  }
+  return ['joined', 'partner-joined', 'partner-left', 'pong', 'error'].includes(msg.type)
+    ? (msg as DuetRelayEvent)
+    : null;
+}
+
+/** Check a peer message's fields, since the relay passes them on unread */
+function parsePeerMessage(body: Record<string, unknown>): DuetPeerMessage | null {
+  switch (body.type) {
+    case 'setup': {
+      const setup = body.setup;
+      return isRecord(setup) &&
+        typeof setup.songId === 'string' &&
+        typeof setup.sectionId === 'string' &&
+        typeof setup.split === 'string' &&
+        typeof setup.hostPart === 'string'
+        ? (body as DuetPeerMessage)
+        : null;
+    }
+    case 'ready':
+      return { type: 'ready' };
+    case 'start':
+      return isFiniteNumber(body.startAt) ? { type: 'start', startAt: body.startAt } : null;
+    case 'note':
+      return isFiniteNumber(body.note) &&
+        isFiniteNumber(body.velocity) &&
+        typeof body.on === 'boolean' &&
+        isFiniteNumber(body.atMs) &&
+        isFiniteNumber(body.sentAt)
+        ? (body as DuetPeerMessage)
+        : null;
+    case 'finish':
+      return isRecord(body.result) && isFiniteNumber(body.result.overall)
+        ? (body as DuetPeerMessage)
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Duet relay rooms — what the relay does with each request
+ * Pure TypeScript - no React imports; shared with the relay server (relay/)
+ *
+ * Kept apart from any socket so the WebSocket relay and the in-memory one
+ * used in tests behave exactly alike. Each call returns the events to
+ * deliver and who gets them; the caller owns the connections.
+ */
+
+import { DUET_PROTOCOL_VERSION, DUET_ROOM_SIZE } from './duetProtocol';
+import type { DuetRelayEvent, DuetRelayRequest } from './duetProtocol';
+
+export interface RelayDelivery {
+  to: string;
+  event: DuetRelayEvent;
+}
+
+interface Member {
+  clientId: string;
+  name: string;
+}
+
+export class DuetRelayRooms {
+  private rooms = new Map<string, Member[]>();
+  private roomOf = new Map<string, string>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  get roomCount(): number {
+    return this.rooms.size;
+  }
+
+  handle(clientId: string, request: DuetRelayRequest): RelayDelivery[] {
+    switch (request.type) {
+      case 'ping':
+        // Read the clock as late as possible, right before replying
+        return [{ to: clientId, event: { type: 'pong', id: request.id, sentAt: request.sentAt, relayTime: this.now() } }];
+
+      case 'join': {
+        if (request.version !== DUET_PROTOCOL_VERSION) {
+          return [error(clientId, 'version', 'Update the app to play duets with this relay')];
+        }
+        if (this.roomOf.has(clientId)) {
+          return [error(clientId, 'bad-request', 'Already in a room')];
+        }
+        const members = this.rooms.get(request.room) ?? [];
+        if (members.length >= DUET_ROOM_SIZE) {
+          return [error(clientId, 'room-full', 'That room already has two players')];
+        }
+        const partner = members[0];
+        this.rooms.set(request.room, [...members, { clientId, name: request.name }]);
+        this.roomOf.set(clientId, request.room);
+        return partner
+          ? [
+              { to: clientId, event: { type: 'joined', role: 'guest', partnerName: partner.name } },
+              { to: partner.clientId, event: { type: 'partner-joined', name: request.name } },
+            ]
+          : [{ to: clientId, event: { type: 'joined', role: 'host', partnerName: null } }];
+      }
+
+      case 'peer': {
+        const room = this.roomOf.get(clientId);
+        if (!room) return [error(clientId, 'not-joined', 'Join a room first')];
+        return this.partnersOf(clientId, room).map((to) => ({ to, event: { type: 'peer', body: request.body } }));
+      }
+    }
+  }
+
+  /** Remove a client that hung up; its partner hears about it */
+  disconnect(clientId: string): RelayDelivery[] {
+    const room = this.roomOf.get(clientId);
+    if (!room) return [];
+    this.roomOf.delete(clientId);
+    const remaining = (this.rooms.get(room) ?? []).filter((m) => m.clientId !== clientId);
+    if (remaining.length === 0) {
+      this.rooms.delete(room);
+    } else {
+      this.rooms.set(room, remaining);
+    }
+    return remaining.map((m) => ({ to: m.clientId, event: { type: 'partner-left' } }));
+  }
+
+  private partnersOf(clientId: string, room: string): string[] {
+    return (this.rooms.get(room) ?? []).map((m) => m.clientId).filter((id) => id !== clientId);
+  }
+}
+
+function error(to: string, code: Extract<DuetRelayEvent, { type: 'error' }>['code'], message: string): RelayDelivery {
+  return { to, event: { type: 'error', code, message } };
+}
@@ -11,7 +11,24 @@ import type {
   ExerciseScore,
   NoteScore,
   ExerciseScoreBreakdown,
+  SustainPedalEvent,
 } from './types';
+import {
+  DYNAMICS_WEIGHT,
+  calculateVelocityScore,
+  isDynamicsScored,
+  resolveTargetLevels,
+  validateDynamics,
+} from './dynamics';
+import {
+  PEDAL_WEIGHT,
+  calculatePedalBreakdown,
+  isPedalScored,
+  scorePedal,
+  validatePedal,
+} from './pedal';
+import { createTempoTimeline, validateTempoMap } from './tempoMap';
+import type { TempoTimeline } from './tempoMap';
 
 const SCORE_WEIGHTS = {
   accuracy: 0.35, // Did you play the right notes?
@@ -21,6 +38,23 @@ const SCORE_WEIGHTS = {
   duration: 0.15, // Did you hold notes for the right length?
 };
 
+/**
+ * Add an opt-in score component (dynamics, pedal) taking `weight` of the
+ * overall score; the existing components share the rest in their
+ * original proportions.
+ */
+export function withExtraWeight<W extends Record<string, number>, K extends string>(
+  weights: W,
+  key: K,
+  weight: number,
+): W & Record<K, number> {
+  const scaled: Record<string, number> = {};
+  for (const [name, value] of Object.entries(weights)) {
+    scaled[name] = value * (1 - weight);
+  }
+  return { ...(scaled as W), [key]: weight } as W & Record<K, number>;
+}
+
 /**
  * Calculate timing score based on offset from expected timing
  */
@@ -77,7 +111,7 @@ export function calculateDurationScore(
 function matchNotes(
   expectedNotes: NoteEvent[],
   playedNotes: MidiNoteEvent[],
-  tempoMs: number // milliseconds per beat
+  timeline: TempoTimeline
 ): Map<number, MidiNoteEvent> {
   const matched = new Map<number, MidiNoteEvent>();
   const usedPlayedIndices = new Set<number>();
@@ -85,10 +119,11 @@ function matchNotes(
   // For each expected note, find the best matching played note
   for (let i = 0; i < expectedNotes.length; i++) {
     const expected = expectedNotes[i];
-    const expectedTimeMs = expected.startBeat * tempoMs;
+    const expectedTimeMs = timeline.beatToMs(expected.startBeat);
 
     let bestMatch: { index: number; distance: number } | null = null;
-    const maxTimeDistance = tempoMs * 1.5; // ±1.5 beats — wide enough to always find the closest note
+    // ±1.5 beats at the local tempo — wide enough to always find the closest note
+    const maxTimeDistance = timeline.msPerBeatAt(expected.startBeat) * 1.5;
 
     for (let j = 0; j < playedNotes.length; j++) {
       if (usedPlayedIndices.has(j)) continue;
@@ -120,9 +155,10 @@ function scoreNotes(
   exercise: Exercise,
   expectedNotes: NoteEvent[],
   playedNotes: MidiNoteEvent[],
-  tempoMs: number
+  timeline: TempoTimeline
 ): NoteScore[] {
-  const matched = matchNotes(expectedNotes, playedNotes, tempoMs);
+  const matched = matchNotes(expectedNotes, playedNotes, timeline);
+  const targetLevels = resolveTargetLevels({ notes: expectedNotes, hairpins: exercise.hairpins });
   const noteScores: NoteScore[] = [];
   const usedPlayedIndices = new Set<number>();
 
@@ -133,7 +169,7 @@ function scoreNotes(
 
     if (played) {
       usedPlayedIndices.add(playedNotes.indexOf(played));
-      const expectedTimeMs = expected.startBeat * tempoMs;
+      const expectedTimeMs = timeline.beatToMs(expected.startBeat);
       const timingOffsetMs = played.timestamp - expectedTimeMs;
 
       const timingScore = calculateTimingScore(
@@ -143,11 +179,11 @@ function scoreNotes(
       );
 
       // Duration scoring: compare actual hold time to expected
-      const expectedDurationMs = expected.durationBeats * tempoMs;
+      const expectedDurationMs = timeline.spanMs(expected.startBeat, expected.durationBeats);
       const durationScore = calculateDurationScore(played.durationMs, expectedDurationMs);
 
-      // Velocity score (100 = perfect velocity)
-      const velocityScore = Math.max(0, 100 - Math.abs(played.velocity - 64) / 0.64);
+      // Velocity score against the marked dynamic (100 = right loudness)
+      const velocityScore = calculateVelocityScore(played, targetLevels[i]);
 
       noteScores.push({
         expected,
@@ -199,7 +235,8 @@ function scoreNotes(
  */
 function calculateBreakdown(
   noteScores: NoteScore[],
-  totalExpected: number
+  totalExpected: number,
+  includeDynamics: boolean = false
 ): ExerciseScoreBreakdown {
   // BUG-009 fix: Guard against division by zero when totalExpected is 0
   if (noteScores.length === 0 || totalExpected === 0) {
@@ -209,6 +246,7 @@ function calculateBreakdown(
       completeness: 0,
       extraNotes: noteScores.length === 0 ? 0 : Math.max(0, 100 - noteScores.filter((n) => n.isExtraNote).length * 10),
       duration: 0,
+      ...(includeDynamics && { dynamics: 0 }),
     };
   }
 
@@ -238,12 +276,19 @@ function calculateBreakdown(
       ? expectedNoteScores.reduce((sum, n) => sum + (n.durationScore ?? (n.isMissedNote ? 0 : 100)), 0) / expectedNoteScores.length
       : 0;
 
+  // Dynamics: average velocity score across ALL expected notes (missed = 0)
+  const dynamics =
+    expectedNoteScores.length > 0
+      ? expectedNoteScores.reduce((sum, n) => sum + (n.velocityScore ?? 0), 0) / expectedNoteScores.length
+      : 0;
+
   return {
     accuracy: Math.round(accuracy),
     timing: Math.round(timing),
     completeness: Math.round(completeness),
     extraNotes: Math.round(extraNotes),
     duration: Math.round(duration),
+    ...(includeDynamics && { dynamics: Math.round(dynamics) }),
   };
 }
 
@@ -253,11 +298,11 @@ function calculateBreakdown(
 export function scoreExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  // Convert tempo to milliseconds per beat
-  // Assuming quarter note = 1 beat
-  const msPerBeat = (60 * 1000) / exercise.settings.tempo;
+  // Beat → ms conversion, following the tempo map when the exercise has one
+  const timeline = createTempoTimeline(exercise.settings);
 
   // Enforce minimum tolerances for touch input — even with latency compensation,
   // touch keyboards have inherent variability that hardware MIDI keyboards don't.
@@ -271,18 +316,27 @@ export function scoreExercise(
   };
 
   // Score all notes
-  const noteScores = scoreNotes(adjustedExercise, exercise.notes, playedNotes, msPerBeat);
+  const noteScores = scoreNotes(adjustedExercise, exercise.notes, playedNotes, timeline);
 
-  // Calculate breakdown
-  const breakdown = calculateBreakdown(noteScores, exercise.notes.length);
+  // Calculate breakdown — dynamics only counts when the exercise opts in
+  const scoreDynamics = isDynamicsScored(exercise);
+  const breakdown = calculateBreakdown(noteScores, exercise.notes.length, scoreDynamics);
+  const noteWeights = withExtraWeight(SCORE_WEIGHTS, 'dynamics', scoreDynamics ? DYNAMICS_WEIGHT : 0);
+
+  // Pedal timing only counts when the exercise has pedal markings
+  const pedal = isPedalScored(exercise) ? scorePedal(exercise, pedalEvents) : null;
+  if (pedal) breakdown.pedal = calculatePedalBreakdown(pedal);
+  const weights = withExtraWeight(noteWeights, 'pedal', pedal ? PEDAL_WEIGHT : 0);
 
   // Weighted overall score
   const overall =
-    breakdown.accuracy * SCORE_WEIGHTS.accuracy +
-    breakdown.timing * SCORE_WEIGHTS.timing +
-    breakdown.completeness * SCORE_WEIGHTS.completeness +
-    breakdown.extraNotes * SCORE_WEIGHTS.extraNotes +
-    breakdown.duration * SCORE_WEIGHTS.duration;
+    breakdown.accuracy * weights.accuracy +
+    breakdown.timing * weights.timing +
+    breakdown.completeness * weights.completeness +
+    breakdown.extraNotes * weights.extraNotes +
+    breakdown.duration * weights.duration +
+    (breakdown.dynamics ?? 0) * weights.dynamics +
+    (breakdown.pedal ?? 0) * weights.pedal;
 
   // Determine stars
   const starThresholds = exercise.scoring.starThresholds;
@@ -308,6 +362,7 @@ export function scoreExercise(
     stars,
     breakdown,
     details: noteScores,
+    ...(pedal && { pedalDetails: pedal.details }),
     missedNotes: noteScores.filter((n) => n.isMissedNote).length,
     extraNotes: noteScores.filter((n) => n.isExtraNote).length,
     perfectNotes: noteScores.filter((n) => n.isCorrectPitch && !n.isExtraNote && n.timingScore >= 90).length,
@@ -347,6 +402,10 @@ export function validateExercise(exercise: Exercise): { valid: boolean; errors:
     }
   }
 
+  errors.push(...validateDynamics(exercise));
+  errors.push(...validatePedal(exercise));
+  errors.push(...validateTempoMap(exercise.settings));
+
   // Validate star thresholds
   const [one, two, three] = exercise.scoring.starThresholds;
   if (!(one < two && two < three)) {
@@ -7,6 +7,7 @@ import {
   calculateDurationScore,
   scoreExercise,
   validateExercise,
+  withExtraWeight,
 } from '../ExerciseValidator';
 import type { Exercise, MidiNoteEvent } from '../types';
 
@@ -70,6 +71,22 @@ describe('ExerciseValidator', () => {
     });
   });
 
+  describe('withExtraWeight', () => {
+    it('should keep weights summing to 1', () => {
+      const weights = withExtraWeight({ accuracy: 0.5, timing: 0.5 }, 'dynamics', 0.15);
+      expect(weights.dynamics).toBe(0.15);
+      expect(weights.accuracy).toBeCloseTo(0.425);
+      expect(weights.accuracy + weights.timing + weights.dynamics).toBeCloseTo(1);
+    });
+
+    it('should stack, and leave weights unchanged at 0', () => {
+      const dynamics = withExtraWeight({ accuracy: 0.6, timing: 0.4 }, 'dynamics', 0.15);
+      const both = withExtraWeight(dynamics, 'pedal', 0.15);
+      expect(both.accuracy + both.timing + both.dynamics + both.pedal).toBeCloseTo(1);
+      expect(withExtraWeight({ accuracy: 0.6, timing: 0.4 }, 'pedal', 0)).toEqual({ accuracy: 0.6, timing: 0.4, pedal: 0 });
+    });
+  });
+
   describe('validateExercise', () => {
     it('should validate a correct exercise', () => {
       const result = validateExercise(mockExercise);
@@ -189,6 +206,99 @@ describe('ExerciseValidator', () => {
     });
   });
 
+  describe('dynamics scoring', () => {
+    const dynamicExercise: Exercise = {
+      ...mockExercise,
+      notes: [
+        { note: 60, startBeat: 0, durationBeats: 1, dynamic: 'p' },
+        { note: 62, startBeat: 1, durationBeats: 1 },
+        { note: 64, startBeat: 2, durationBeats: 1, dynamic: 'f' },
+      ],
+      scoring: { ...mockExercise.scoring, velocitySensitive: true },
+    };
+
+    const play = (velocities: number[]): MidiNoteEvent[] =>
+      velocities.map((velocity, i) => ({
+        type: 'noteOn',
+        note: dynamicExercise.notes[i].note,
+        velocity,
+        timestamp: i * 500,
+        channel: 0,
+        inputSource: 'midi',
+      }));
+
+    it('should omit dynamics from the breakdown unless the exercise opts in', () => {
+      const score = scoreExercise(mockExercise, play([100, 100, 100]));
+      expect(score.breakdown.dynamics).toBeUndefined();
+    });
+
+    it('should score velocities against the marked dynamics', () => {
+      const matching = scoreExercise(dynamicExercise, play([33, 33, 95]));
+      const flat = scoreExercise(dynamicExercise, play([110, 110, 110]));
+
+      expect(matching.breakdown.dynamics).toBe(100);
+      expect(flat.breakdown.dynamics).toBeLessThan(50);
+      expect(matching.overall).toBeGreaterThan(flat.overall);
+    });
+
+    it('should not change the overall score of non-dynamics exercises with velocity', () => {
+      const soft = scoreExercise(mockExercise, play([20, 20, 20]));
+      const loud = scoreExercise(mockExercise, play([120, 120, 120]));
+      expect(soft.overall).toBe(loud.overall);
+    });
+
+    it('should reject invalid hairpins', () => {
+      const result = validateExercise({
+        ...dynamicExercise,
+        hairpins: [{ type: 'crescendo', startBeat: 2, endBeat: 1 }],
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('pedal scoring', () => {
+    const pedalExercise: Exercise = {
+      ...mockExercise,
+      pedal: [{ startBeat: 0, endBeat: 2 }],
+    };
+
+    const playedNotes: MidiNoteEvent[] = [
+      { type: 'noteOn', note: 60, velocity: 100, timestamp: 0, channel: 0 },
+      { type: 'noteOn', note: 62, velocity: 100, timestamp: 500, channel: 0 },
+      { type: 'noteOn', note: 64, velocity: 100, timestamp: 1000, channel: 0 },
+    ];
+
+    it('should omit pedal from the breakdown for exercises without markings', () => {
+      const score = scoreExercise(mockExercise, playedNotes, 0, [{ type: 'pedalDown', timestamp: 0 }]);
+      expect(score.breakdown.pedal).toBeUndefined();
+      expect(score.pedalDetails).toBeUndefined();
+    });
+
+    it('should score pedal timing next to note timing', () => {
+      const pedalled = scoreExercise(pedalExercise, playedNotes, 0, [
+        { type: 'pedalDown', timestamp: 0 },
+        { type: 'pedalUp', timestamp: 1000 },
+      ]);
+      const unpedalled = scoreExercise(pedalExercise, playedNotes);
+
+      expect(pedalled.breakdown.pedal).toBe(100);
+      expect(pedalled.pedalDetails).toHaveLength(1);
+      expect(unpedalled.breakdown.pedal).toBe(0);
+      expect(pedalled.overall).toBeGreaterThan(unpedalled.overall);
+    });
+
+    it('should reject overlapping pedal markings', () => {
+      const result = validateExercise({
+        ...pedalExercise,
+        pedal: [
+          { startBeat: 0, endBeat: 2 },
+          { startBeat: 1, endBeat: 3 },
+        ],
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
   describe('calculateDurationScore', () => {
     it('should return 100 for perfect duration (1.0x expected)', () => {
       expect(calculateDurationScore(500, 500)).toBe(100);
@@ -0,0 +1,126 @@
+/**
+ * Tests for dynamics target levels and velocity calibration
+ */
+
+import {
+  DYNAMIC_LEVELS,
+  applyVelocityCalibration,
+  calculateVelocityScore,
+  createVelocityCalibration,
+  resolveTargetLevels,
+  validateDynamics,
+  velocityToLevel,
+} from '../dynamics';
+import type { MidiNoteEvent, NoteEvent } from '../types';
+
+const n = (startBeat: number, dynamic?: NoteEvent['dynamic']): NoteEvent => ({
+  note: 60,
+  startBeat,
+  durationBeats: 1,
+  ...(dynamic && { dynamic }),
+});
+
+const played = (velocity: number, inputSource: MidiNoteEvent['inputSource'] = 'midi'): MidiNoteEvent => ({
+  type: 'noteOn',
+  note: 60,
+  velocity,
+  timestamp: 0,
+  channel: 0,
+  inputSource,
+});
+
+describe('dynamics', () => {
+  describe('resolveTargetLevels', () => {
+    it('should default to mezzo-forte when nothing is marked', () => {
+      expect(resolveTargetLevels({ notes: [n(0), n(1)] })).toEqual([DYNAMIC_LEVELS.mf, DYNAMIC_LEVELS.mf]);
+    });
+
+    it('should carry a marking forward until the next one', () => {
+      const levels = resolveTargetLevels({ notes: [n(0, 'p'), n(1), n(2, 'ff'), n(3)] });
+      expect(levels).toEqual([DYNAMIC_LEVELS.p, DYNAMIC_LEVELS.p, DYNAMIC_LEVELS.ff, DYNAMIC_LEVELS.ff]);
+    });
+
+    it('should follow note order by beat, not array order', () => {
+      const levels = resolveTargetLevels({ notes: [n(2), n(0, 'pp')] });
+      expect(levels).toEqual([DYNAMIC_LEVELS.pp, DYNAMIC_LEVELS.pp]);
+    });
+
+    it('should interpolate a crescendo up to the arrival marking', () => {
+      const levels = resolveTargetLevels({
+        notes: [n(0, 'p'), n(1), n(2), n(3), n(4, 'f')],
+        hairpins: [{ type: 'crescendo', startBeat: 0, endBeat: 4 }],
+      });
+      expect(levels[0]).toBe(DYNAMIC_LEVELS.p);
+      expect(levels[2]).toBeCloseTo((DYNAMIC_LEVELS.p + DYNAMIC_LEVELS.f) / 2);
+      expect(levels[1]).toBeLessThan(levels[2]);
+      expect(levels[3]).toBeGreaterThan(levels[2]);
+      expect(levels[4]).toBe(DYNAMIC_LEVELS.f);
+    });
+
+    it('should step one marking when a diminuendo has no arrival marking', () => {
+      const levels = resolveTargetLevels({
+        notes: [n(0, 'f'), n(1), n(2)],
+        hairpins: [{ type: 'diminuendo', startBeat: 0, endBeat: 2 }],
+      });
+      expect(levels[1]).toBeCloseTo((DYNAMIC_LEVELS.f + DYNAMIC_LEVELS.mf) / 2);
+    });
+  });
+
+  describe('velocity calibration', () => {
+    it('should build a calibration from median soft and loud velocities', () => {
+      expect(createVelocityCalibration([10, 30, 20], [100, 90, 127])).toEqual({ softest: 20, loudest: 100 });
+    });
+
+    it('should reject a calibration without enough soft/loud contrast', () => {
+      expect(createVelocityCalibration([60, 62], [70, 71])).toBeNull();
+      expect(createVelocityCalibration([], [100])).toBeNull();
+    });
+
+    it('should map the calibrated range onto 0-1', () => {
+      const calibration = { softest: 20, loudest: 100 };
+      expect(velocityToLevel(20, calibration)).toBe(0);
+      expect(velocityToLevel(60, calibration)).toBe(0.5);
+      expect(velocityToLevel(127, calibration)).toBe(1);
+    });
+
+    it('should rescale calibrated velocities onto the full MIDI range', () => {
+      const calibration = { softest: 20, loudest: 100 };
+      expect(applyVelocityCalibration(20, calibration)).toBe(1);
+      expect(applyVelocityCalibration(100, calibration)).toBe(127);
+      expect(applyVelocityCalibration(64, null)).toBe(64);
+    });
+  });
+
+  describe('calculateVelocityScore', () => {
+    it('should give 100 near the target level', () => {
+      expect(calculateVelocityScore(played(75), DYNAMIC_LEVELS.mf)).toBe(100);
+    });
+
+    it('should fall off with distance from the target level', () => {
+      const close = calculateVelocityScore(played(100), DYNAMIC_LEVELS.mf);
+      expect(close).toBeGreaterThan(0);
+      expect(close).toBeLessThan(100);
+      expect(calculateVelocityScore(played(127), DYNAMIC_LEVELS.pp)).toBe(0);
+    });
+
+    it('should not penalise touch input, which has no velocity sensing', () => {
+      expect(calculateVelocityScore(played(101, 'touch'), DYNAMIC_LEVELS.pp)).toBe(100);
+    });
+  });
+
+  describe('validateDynamics', () => {
+    it('should accept well-formed markup', () => {
+      expect(
+        validateDynamics({ notes: [n(0, 'pp')], hairpins: [{ type: 'crescendo', startBeat: 0, endBeat: 2 }] }),
+      ).toEqual([]);
+    });
+
+    it('should report unknown markings and empty hairpins', () => {
+      const errors = validateDynamics({
+        notes: [{ ...n(0), dynamic: 'fff' as NoteEvent['dynamic'] }],
+        hairpins: [{ type: 'diminuendo', startBeat: 2, endBeat: 2 }],
+      });
+      expect(errors).toHaveLength(2);
+    });
+  });
+});
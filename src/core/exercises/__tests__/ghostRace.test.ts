@@ -0,0 +1,101 @@
+/**
+ * Ghost Race Tests
+ *
+ * The challenger's ghost as stored, re-scored and placed on the beat grid,
+ * and the running score both sides of the race are compared by.
+ */
+
+import { createChallengeGhost, raceScore, replayGhost, timingStatus } from '../ghostRace';
+import type { ChallengeGhost } from '../ghostRace';
+import { NO_ASSISTS } from '../performanceVerification';
+import type { Exercise, MidiNoteEvent, NoteEvent } from '../types';
+
+const exerciseWith = (notes: NoteEvent[]): Exercise => ({
+  id: 'ghost-test',
+  version: 1,
+  metadata: { title: 'Ghost Test', description: '', difficulty: 1, estimatedMinutes: 1, skills: [], prerequisites: [] },
+  settings: { tempo: 60, timeSignature: [4, 4], keySignature: 'C', countIn: 4, metronomeEnabled: true },
+  notes,
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+  hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+});
+
+// C D E F G, one note per beat at 60 BPM
+const FIVE_NOTES = exerciseWith(
+  [60, 62, 64, 65, 67].map((note, i) => ({ note, startBeat: i, durationBeats: 1 })),
+);
+
+const noteOn = (note: number, timestamp: number): MidiNoteEvent => ({
+  type: 'noteOn',
+  note,
+  velocity: 80,
+  timestamp,
+  channel: 0,
+  durationMs: 500,
+});
+
+const ghostOf = (notes: MidiNoteEvent[], playbackSpeed = 1): ChallengeGhost => ({
+  notes,
+  playbackSpeed,
+  practiceHand: 'both',
+  inputMethod: 'midi',
+  assists: NO_ASSISTS,
+});
+
+describe('createChallengeGhost', () => {
+  it('keeps noteOn events without undefined fields', () => {
+    const noDuration: MidiNoteEvent = { type: 'noteOn', note: 62, velocity: 80, timestamp: 1000, channel: 0 };
+    const ghost = createChallengeGhost({
+      notes: [noteOn(60, 0), { ...noteOn(60, 0), type: 'noteOff' }, { ...noDuration, durationMs: undefined }],
+      playbackSpeed: 0.5,
+      practiceHand: 'right',
+      inputMethod: 'touch',
+    });
+    expect(ghost.notes).toEqual([noteOn(60, 0), noDuration]);
+    expect('durationMs' in ghost.notes[1]).toBe(false);
+    expect(ghost).toMatchObject({ playbackSpeed: 0.5, practiceHand: 'right', assists: NO_ASSISTS });
+  });
+});
+
+describe('timingStatus', () => {
+  it('uses the key feedback windows', () => {
+    const scoring = FIVE_NOTES.scoring;
+    expect(timingStatus(20, scoring)).toBe('perfect');
+    expect(timingStatus(-40, scoring)).toBe('good');
+    expect(timingStatus(-100, scoring)).toBe('early');
+    expect(timingStatus(100, scoring)).toBe('late');
+    expect(timingStatus(300, scoring)).toBe('ok');
+  });
+});
+
+describe('replayGhost', () => {
+  it('scores the ghost and places its notes on the beat grid', () => {
+    // E played 100ms late, G never played, a stray B
+    const run = replayGhost(
+      FIVE_NOTES,
+      ghostOf([noteOn(60, 0), noteOn(62, 1000), noteOn(64, 2100), noteOn(65, 3000), noteOn(71, 3500)]),
+    );
+
+    expect(run.statuses).toEqual(new Map([[0, 'perfect'], [1, 'perfect'], [2, 'late'], [3, 'perfect']]));
+    expect(run.notes[2]).toEqual({ note: 64, startBeat: 2.1, durationBeats: 0.5, isCorrect: true });
+    expect(run.notes[4]).toMatchObject({ note: 71, isCorrect: false });
+    expect(run.score.overall).toBeLessThan(100);
+  });
+
+  it('maps a slowed-down run back to the exercise beats', () => {
+    const run = replayGhost(FIVE_NOTES, ghostOf([noteOn(60, 0), noteOn(62, 2000)], 0.5));
+    expect(run.notes.map((n) => n.startBeat)).toEqual([0, 1]);
+    expect(run.statuses.get(1)).toBe('perfect');
+  });
+});
+
+describe('raceScore', () => {
+  it('averages the notes past the match window', () => {
+    const statuses = new Map([[0, 'perfect' as const], [1, 'late' as const]]);
+    expect(raceScore(FIVE_NOTES.notes, statuses, 1)).toBeNull();
+    expect(raceScore(FIVE_NOTES.notes, statuses, 2)).toBe(100);
+    expect(raceScore(FIVE_NOTES.notes, statuses, 3)).toBe(80);
+    // Note 2 was never played
+    expect(raceScore(FIVE_NOTES.notes, statuses, 4)).toBe(53);
+  });
+});
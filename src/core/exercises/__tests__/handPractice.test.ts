@@ -0,0 +1,67 @@
+/**
+ * Hands-Separate Practice Tests
+ *
+ * Which hand a note belongs to, and splitting the learner's hand from the
+ * notes played along.
+ */
+
+import { hasBothHands, noteHand, splitHands } from '../handPractice';
+import type { Exercise, NoteEvent } from '../types';
+
+const exerciseWith = (notes: NoteEvent[], hands?: Exercise['hands']): Exercise => ({
+  id: 'hands-test',
+  version: 1,
+  metadata: { title: 'Hands Test', description: '', difficulty: 2, estimatedMinutes: 1, skills: [], prerequisites: [] },
+  settings: { tempo: 60, timeSignature: [4, 4], keySignature: 'C', countIn: 4, metronomeEnabled: true },
+  notes,
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+  hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+  hands,
+});
+
+// Melody over a bass line, as in the lesson 4 exercises
+const TWO_HANDS = exerciseWith([
+  { note: 64, startBeat: 0, durationBeats: 1, hand: 'right' },
+  { note: 48, startBeat: 0, durationBeats: 2, hand: 'left' },
+  { note: 62, startBeat: 1, durationBeats: 1, hand: 'right' },
+  { note: 55, startBeat: 2, durationBeats: 2, hand: 'left' },
+  { note: 60, startBeat: 2, durationBeats: 2, hand: 'right' },
+]);
+
+describe('noteHand', () => {
+  it('uses the marked hand, then the default, then splits at middle C', () => {
+    expect(noteHand({ note: 72, startBeat: 0, durationBeats: 1, hand: 'left' })).toBe('left');
+    expect(noteHand({ note: 72, startBeat: 0, durationBeats: 1 }, 'left')).toBe('left');
+    expect(noteHand({ note: 59, startBeat: 0, durationBeats: 1 })).toBe('left');
+    expect(noteHand({ note: 60, startBeat: 0, durationBeats: 1 })).toBe('right');
+  });
+});
+
+describe('hasBothHands', () => {
+  it('is true only when each hand has notes', () => {
+    expect(hasBothHands(TWO_HANDS)).toBe(true);
+    expect(hasBothHands(exerciseWith([{ note: 48, startBeat: 0, durationBeats: 1 }, { note: 64, startBeat: 1, durationBeats: 1 }], 'right'))).toBe(false);
+  });
+});
+
+describe('splitHands', () => {
+  it('keeps the learner hand as the exercise and returns the other to play along', () => {
+    const { exercise, autoPlayNotes } = splitHands(TWO_HANDS, 'right');
+    expect(exercise.notes.map((n) => n.note)).toEqual([64, 62, 60]);
+    expect(exercise.hands).toBe('right');
+    expect(exercise.id).toBe(TWO_HANDS.id);
+    expect(autoPlayNotes.map((n) => n.note)).toEqual([48, 55]);
+  });
+
+  it('plays the right hand along when practising the left', () => {
+    const { exercise, autoPlayNotes } = splitHands(TWO_HANDS, 'left');
+    expect(exercise.notes.map((n) => n.note)).toEqual([48, 55]);
+    expect(autoPlayNotes.map((n) => n.startBeat)).toEqual([0, 1, 2]);
+  });
+
+  it('leaves the exercise alone for both hands or a one-handed exercise', () => {
+    expect(splitHands(TWO_HANDS, 'both')).toEqual({ exercise: TWO_HANDS, autoPlayNotes: [] });
+    const oneHand = exerciseWith([{ note: 60, startBeat: 0, durationBeats: 1 }]);
+    expect(splitHands(oneHand, 'left').exercise).toBe(oneHand);
+  });
+});
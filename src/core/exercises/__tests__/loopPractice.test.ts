@@ -0,0 +1,167 @@
+/**
+ * Loop Practice Tests
+ *
+ * Bar-snapped regions, cutting a range out as its own exercise, the tempo
+ * ramp, and the attempt history weak passages are found from.
+ */
+
+import {
+  MAX_LOOP_ATTEMPTS,
+  MAX_LOOP_RECORDS,
+  barRegion,
+  createLoopRamp,
+  loopKey,
+  loopRegionExercise,
+  loopWeakness,
+  mergeLoopHistories,
+  nextLoopTempo,
+  withLoopAttempt,
+} from '../loopPractice';
+import type { Exercise } from '../types';
+
+// Three 4/4 bars of quarter notes, then a 3/4 bar
+const EXERCISE: Exercise = {
+  id: 'loop-test',
+  version: 1,
+  metadata: {
+    title: 'Loop Test',
+    description: '',
+    difficulty: 2,
+    estimatedMinutes: 1,
+    skills: [],
+    prerequisites: [],
+  },
+  settings: {
+    tempo: 100,
+    timeSignature: [4, 4],
+    keySignature: 'C',
+    countIn: 4,
+    metronomeEnabled: true,
+    tempoMap: [{ beat: 8, tempo: 80 }],
+    meterMap: [{ beat: 12, timeSignature: [3, 4] }],
+  },
+  notes: Array.from({ length: 15 }, (_, i) => ({ note: 60 + (i % 5), startBeat: i, durationBeats: i === 6 ? 4 : 1 })),
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+  hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+  pedal: [
+    { startBeat: 4, endBeat: 6 },
+    { startBeat: 7, endBeat: 10 },
+  ],
+};
+
+describe('barRegion', () => {
+  it('snaps both markers out to whole bars, in either order', () => {
+    expect(barRegion(EXERCISE, 5.5, 2)).toEqual({ startBeat: 0, endBeat: 8 });
+    expect(barRegion(EXERCISE, 4, 4)).toEqual({ startBeat: 4, endBeat: 8 });
+  });
+
+  it('follows meter changes', () => {
+    expect(barRegion(EXERCISE, 13, 14)).toEqual({ startBeat: 12, endBeat: 15 });
+  });
+});
+
+describe('createLoopRamp', () => {
+  it('targets the tempo where the range starts and starts below it', () => {
+    const ramp = createLoopRamp(EXERCISE, { startBeat: 8, endBeat: 12 });
+    expect(ramp.targetTempo).toBe(80);
+    expect(ramp.startTempo).toBe(56);
+    expect(ramp.failScore).toBe(70);
+  });
+});
+
+describe('nextLoopTempo', () => {
+  const ramp = createLoopRamp(EXERCISE, { startBeat: 0, endBeat: 4 });
+
+  it('steps up after a clean pass, never past the target', () => {
+    expect(nextLoopTempo(ramp, 70, 95)).toBe(75);
+    expect(nextLoopTempo(ramp, 98, 95)).toBe(100);
+  });
+
+  it('steps down after a failed pass, never below the minimum', () => {
+    expect(nextLoopTempo(ramp, 70, 50)).toBe(65);
+    expect(nextLoopTempo(ramp, 32, 50)).toBe(30);
+  });
+
+  it('holds the tempo after a pass in between', () => {
+    expect(nextLoopTempo(ramp, 70, 80)).toBe(70);
+  });
+});
+
+describe('loopRegionExercise', () => {
+  const region = { startBeat: 4, endBeat: 8 };
+  const loop = loopRegionExercise(EXERCISE, region, 50);
+
+  it('keeps the range, shifted to beat 0, with held notes clipped at the end', () => {
+    expect(loop.id).toBe(EXERCISE.id);
+    expect(loop.notes.map((n) => n.startBeat)).toEqual([0, 1, 2, 3]);
+    expect(loop.notes[2].durationBeats).toBe(2);
+    expect(loop.settings.loopEnabled).toBe(true);
+  });
+
+  it('plays at the loop tempo with widened timing windows', () => {
+    expect(loop.settings.tempo).toBe(50);
+    expect(loop.scoring.timingToleranceMs).toBe(100);
+    expect(loop.scoring.timingGracePeriodMs).toBe(300);
+  });
+
+  it('keeps only markings wholly inside the range', () => {
+    expect(loop.pedal).toEqual([{ startBeat: 0, endBeat: 2 }]);
+    expect(loopRegionExercise(EXERCISE, { startBeat: 8, endBeat: 12 }, 60).pedal).toBeUndefined();
+  });
+
+  it('carries later tempo and meter changes, scaled to the loop tempo', () => {
+    const whole = loopRegionExercise(EXERCISE, { startBeat: 4, endBeat: 15 }, 50);
+    expect(whole.settings.tempoMap).toEqual([{ beat: 4, tempo: 40 }]);
+    expect(whole.settings.meterMap).toEqual([{ beat: 8, timeSignature: [3, 4] }]);
+    expect(loop.settings.tempoMap).toBeUndefined();
+  });
+});
+
+describe('loop history', () => {
+  const region = { startBeat: 0, endBeat: 4 };
+  const ramp = createLoopRamp(EXERCISE, region);
+
+  it('records the passage and its attempts, keeping the latest', () => {
+    let record = withLoopAttempt(undefined, EXERCISE, region, ramp, { tempo: 70, score: 80, at: 0 });
+    expect(loopKey(EXERCISE.id, region)).toBe('loop-test@0-4');
+    expect(record.pitches).toEqual([60, 61, 62, 63]);
+    expect(record.targetTempo).toBe(100);
+
+    for (let i = 1; i <= MAX_LOOP_ATTEMPTS; i++) {
+      record = withLoopAttempt(record, EXERCISE, region, ramp, { tempo: 70, score: 80, at: i });
+    }
+    expect(record.attempts).toHaveLength(MAX_LOOP_ATTEMPTS);
+    expect(record.attempts[0].at).toBe(1);
+  });
+
+  it('measures weakness from the fastest clean pass', () => {
+    const record = withLoopAttempt(undefined, EXERCISE, region, ramp, { tempo: 60, score: 80, at: 0 });
+    expect(loopWeakness(record)).toBe(1);
+    const clean = withLoopAttempt(record, EXERCISE, region, ramp, { tempo: 80, score: 92, at: 1 });
+    expect(loopWeakness(clean)).toBeCloseTo(0.2);
+  });
+
+  it("merges two devices' histories attempt by attempt", () => {
+    const key = loopKey(EXERCISE.id, region);
+    const shared = withLoopAttempt(undefined, EXERCISE, region, ramp, { tempo: 70, score: 80, at: 0 });
+    const local = { [key]: withLoopAttempt(shared, EXERCISE, region, ramp, { tempo: 75, score: 92, at: 2 }) };
+    const remote = { [key]: withLoopAttempt(shared, EXERCISE, region, ramp, { tempo: 70, score: 91, at: 1 }) };
+
+    const merged = mergeLoopHistories(local, remote);
+    expect(merged[key].attempts.map((a) => a.at)).toEqual([0, 1, 2]);
+  });
+
+  it('keeps the most recently practised loops when merging', () => {
+    const history = (offset: number) => Object.fromEntries(
+      Array.from({ length: MAX_LOOP_RECORDS }, (_, i) => {
+        const loop = { startBeat: i + offset, endBeat: i + offset + 1 };
+        const at = i + offset;
+        return [loopKey(EXERCISE.id, loop), withLoopAttempt(undefined, EXERCISE, loop, ramp, { tempo: 70, score: 80, at })];
+      }),
+    );
+
+    const merged = mergeLoopHistories(history(0), history(MAX_LOOP_RECORDS));
+    expect(Object.keys(merged)).toHaveLength(MAX_LOOP_RECORDS);
+    expect(merged[loopKey(EXERCISE.id, { startBeat: 0, endBeat: 1 })]).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for sustain pedal scoring
+ */
+
+import {
+  calculatePedalBreakdown,
+  isPedalScored,
+  scorePedal,
+  validatePedal,
+} from '../pedal';
+import type { Exercise, SustainPedalEvent } from '../types';
+
+// 120 BPM → 500ms per beat
+const exercise: Pick<Exercise, 'pedal' | 'notes' | 'settings' | 'scoring'> = {
+  settings: { tempo: 120, timeSignature: [4, 4], keySignature: 'C', countIn: 0, metronomeEnabled: false },
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [80, 90, 95] },
+  notes: [
+    { note: 48, startBeat: 0, durationBeats: 4 },
+    { note: 53, startBeat: 4, durationBeats: 4 },
+    { note: 55, startBeat: 8, durationBeats: 4 },
+  ],
+  // Legato pedalling: lift on the chord change, press again just after it
+  pedal: [
+    { startBeat: 0.25, endBeat: 4 },
+    { startBeat: 4.25, endBeat: 8 },
+  ],
+};
+
+const down = (timestamp: number): SustainPedalEvent => ({ type: 'pedalDown', timestamp });
+const up = (timestamp: number): SustainPedalEvent => ({ type: 'pedalUp', timestamp });
+
+describe('pedal', () => {
+  describe('isPedalScored', () => {
+    it('should only score exercises with pedal markings', () => {
+      expect(isPedalScored(exercise)).toBe(true);
+      expect(isPedalScored({ pedal: [] })).toBe(false);
+      expect(isPedalScored({})).toBe(false);
+    });
+  });
+
+  describe('scorePedal', () => {
+    it('should give full marks for on-time legato pedalling', () => {
+      const result = scorePedal(exercise, [down(125), up(2000), down(2125), up(4000)]);
+      expect(result.details.map((d) => [d.downScore, d.upScore])).toEqual([
+        [100, 100],
+        [100, 100],
+      ]);
+      expect(result.extraPresses).toBe(0);
+      expect(calculatePedalBreakdown(result)).toBe(100);
+    });
+
+    it('should report offsets and penalise late presses', () => {
+      const result = scorePedal(exercise, [down(425), up(2000), down(2125), up(4000)]);
+      expect(result.details[0].downOffsetMs).toBe(300);
+      expect(result.details[0].downScore).toBeLessThan(100);
+      expect(result.details[1].downScore).toBe(100);
+    });
+
+    it('should score a missing press or lift as 0', () => {
+      const result = scorePedal(exercise, [down(125), down(2125), up(4000)]);
+      expect(result.details[0].upOffsetMs).toBeNull();
+      expect(result.details[0].upScore).toBe(0);
+    });
+
+    it('should not require a lift when the marking runs to the end', () => {
+      const result = scorePedal(
+        { ...exercise, pedal: [{ startBeat: 0, endBeat: 12 }] },
+        [down(0)],
+      );
+      expect(result.details[0].upScore).toBe(100);
+    });
+
+    it('should count presses that match no marking', () => {
+      const result = scorePedal(exercise, [down(125), up(2000), down(2125), up(4000), down(5000)]);
+      expect(result.extraPresses).toBe(1);
+      expect(calculatePedalBreakdown(result)).toBe(90);
+    });
+
+    it('should ignore event order', () => {
+      const inOrder = scorePedal(exercise, [down(125), up(2000), down(2125), up(4000)]);
+      const shuffled = scorePedal(exercise, [up(4000), down(2125), down(125), up(2000)]);
+      expect(shuffled).toEqual(inOrder);
+    });
+  });
+
+  describe('validatePedal', () => {
+    it('should accept well-formed markings', () => {
+      expect(validatePedal(exercise)).toEqual([]);
+    });
+
+    it('should report empty and overlapping markings', () => {
+      const errors = validatePedal({
+        pedal: [
+          { startBeat: 0, endBeat: 4 },
+          { startBeat: 3, endBeat: 6 },
+          { startBeat: 8, endBeat: 8 },
+        ],
+      });
+      expect(errors).toHaveLength(2);
+    });
+  });
+});
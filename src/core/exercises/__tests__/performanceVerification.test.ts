@@ -0,0 +1,166 @@
+/**
+ * Performance Verification Tests
+ *
+ * Preparing the exercise the way it was practised, and telling a person's
+ * playing from generated input.
+ */
+
+import {
+  applyAssists,
+  applyPlaybackSpeed,
+  checkPerformancePlausibility,
+  exerciseDurationMs,
+  hasHumanTimingJitter,
+  prepareSubmittedExercise,
+} from '../performanceVerification';
+import { scoreExerciseByType } from '../scoringStrategies';
+import { createTempoTimeline } from '../tempoMap';
+import type { Exercise, MidiNoteEvent, NoteEvent } from '../types';
+
+const exerciseWith = (notes: NoteEvent[]): Exercise => ({
+  id: 'verify-test',
+  version: 1,
+  metadata: { title: 'Verify Test', description: '', difficulty: 1, estimatedMinutes: 1, skills: [], prerequisites: [] },
+  settings: { tempo: 60, timeSignature: [4, 4], keySignature: 'C', countIn: 4, metronomeEnabled: true },
+  notes,
+  scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+  hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+});
+
+// C major scale up and down, one note per beat at 60 BPM
+const SCALE = exerciseWith(
+  [60, 62, 64, 65, 67, 69, 71, 72, 71, 69, 67, 65].map((note, i) => ({
+    note,
+    startBeat: i,
+    durationBeats: 1,
+  })),
+);
+
+const noteOn = (note: number, timestamp: number): MidiNoteEvent => ({
+  type: 'noteOn',
+  note,
+  velocity: 80,
+  timestamp,
+  channel: 0,
+  durationMs: 900,
+});
+
+/** The scale played `offsets(i)` ms off each beat */
+const playScale = (offsets: (i: number) => number): MidiNoteEvent[] =>
+  SCALE.notes.map((n, i) => noteOn(n.note, n.startBeat * 1000 + offsets(i)));
+
+describe('applyPlaybackSpeed', () => {
+  it('slows the tempo and widens the windows', () => {
+    const slow = applyPlaybackSpeed(SCALE, 0.5);
+    expect(slow.settings.tempo).toBe(30);
+    expect(slow.scoring.timingToleranceMs).toBe(100);
+    expect(slow.scoring.timingGracePeriodMs).toBe(300);
+    expect(applyPlaybackSpeed(SCALE, 1.0)).toBe(SCALE);
+  });
+
+  it('scales a tempo map the same way as the base tempo', () => {
+    const at90 = { ...SCALE, settings: { ...SCALE.settings, tempo: 90 } };
+    const mapped = { ...at90, settings: { ...at90.settings, tempoMap: [{ beat: 4, tempo: 90 }, { beat: 8, tempo: 50 }] } };
+
+    // 90 × 0.75 = 67.5 and 50 × 0.75 = 37.5 both round up
+    const plain = createTempoTimeline(applyPlaybackSpeed(at90, 0.75).settings);
+    const slow = createTempoTimeline(applyPlaybackSpeed(mapped, 0.75).settings);
+    expect(slow.beatToMs(4)).toBeCloseTo((4 * 60000) / 68);
+    expect(slow.beatToMs(8)).toBeCloseTo(plain.beatToMs(8));
+    expect(slow.beatToMs(10)).toBeCloseTo((8 * 60000) / 68 + (2 * 60000) / 38);
+  });
+});
+
+describe('applyAssists', () => {
+  it('applies cat ability tempo reduction and wider windows', () => {
+    const assisted = applyAssists(SCALE, { tempoReductionBpm: 10, timingWindowMultiplier: 1.2 });
+    expect(assisted.settings.tempo).toBe(50);
+    expect(assisted.scoring.timingToleranceMs).toBeCloseTo(60);
+    expect(assisted.scoring.timingGracePeriodMs).toBeCloseTo(180);
+  });
+
+  it('rounds tempo-map entries to whole BPM', () => {
+    const mapped = { ...SCALE, settings: { ...SCALE.settings, tempoMap: [{ beat: 4, tempo: 45 }] } };
+    // 45 × 50/60 = 37.5
+    expect(applyAssists(mapped, { tempoReductionBpm: 10, timingWindowMultiplier: 1 }).settings.tempoMap).toEqual([
+      { beat: 4, tempo: 38 },
+    ]);
+  });
+});
+
+describe('prepareSubmittedExercise', () => {
+  it('applies speed, hand and input method windows', () => {
+    const prepared = prepareSubmittedExercise(SCALE, {
+      playbackSpeed: 0.5,
+      practiceHand: 'both',
+      inputMethod: 'mic',
+    });
+    expect(prepared.settings.tempo).toBe(30);
+    expect(prepared.scoring.timingToleranceMs).toBe(150); // 50 × 2 × 1.5
+  });
+});
+
+describe('exerciseDurationMs', () => {
+  it('runs to the end of the last note', () => {
+    expect(exerciseDurationMs(SCALE)).toBe(12000);
+  });
+});
+
+describe('checkPerformancePlausibility', () => {
+  it('accepts a person playing the exercise', () => {
+    expect(checkPerformancePlausibility(SCALE, playScale((i) => (i % 3) * 7 - 5))).toBeNull();
+  });
+
+  it('rejects the same key struck twice at one timestamp', () => {
+    const notes = [noteOn(60, 0), noteOn(60, 0)];
+    expect(checkPerformancePlausibility(SCALE, notes)).toMatch(/struck twice/);
+  });
+
+  it('rejects repeats faster than a key can be struck', () => {
+    const notes = [noteOn(60, 0), noteOn(60, 20)];
+    expect(checkPerformancePlausibility(SCALE, notes)).toMatch(/repeated faster/);
+  });
+
+  it('rejects more notes at once than a person has fingers', () => {
+    const notes = Array.from({ length: 11 }, (_, i) => noteOn(48 + i, 500));
+    expect(checkPerformancePlausibility(SCALE, notes)).toMatch(/same timestamp/);
+  });
+
+  it('rejects superhuman note rates', () => {
+    // 40 notes in one second across eight keys
+    const notes = Array.from({ length: 40 }, (_, i) => noteOn(60 + (i % 8), i * 25));
+    expect(checkPerformancePlausibility(SCALE, notes)).toMatch(/in one second/);
+  });
+
+  it('rejects notes far outside the exercise', () => {
+    expect(checkPerformancePlausibility(SCALE, [noteOn(60, 60000)])).toMatch(/outside the exercise/);
+    expect(checkPerformancePlausibility(SCALE, [noteOn(60, -10000)])).toMatch(/outside the exercise/);
+  });
+
+  it('ignores noteOff events', () => {
+    const notes: MidiNoteEvent[] = [noteOn(60, 0), { ...noteOn(60, 0), type: 'noteOff' }];
+    expect(checkPerformancePlausibility(SCALE, notes)).toBeNull();
+  });
+});
+
+describe('hasHumanTimingJitter', () => {
+  it('accepts timing that varies', () => {
+    const score = scoreExerciseByType(SCALE, playScale((i) => ((i * 37) % 41) - 20));
+    expect(hasHumanTimingJitter(score)).toBe(true);
+  });
+
+  it('rejects every note landing exactly on the beat', () => {
+    const score = scoreExerciseByType(SCALE, playScale(() => 0));
+    expect(score.overall).toBeGreaterThan(90);
+    expect(hasHumanTimingJitter(score)).toBe(false);
+  });
+
+  it('rejects a constant offset, as from a scripted delay', () => {
+    expect(hasHumanTimingJitter(scoreExerciseByType(SCALE, playScale(() => 12)))).toBe(false);
+  });
+
+  it('does not judge short performances', () => {
+    const score = scoreExerciseByType(SCALE, playScale(() => 0).slice(0, 4));
+    expect(hasHumanTimingJitter(score)).toBe(true);
+  });
+});
@@ -218,6 +218,59 @@ describe('scoringStrategies', () => {
       const score = scoreChordIdExercise(exercise, played);
       expect(score.breakdown.timing).toBe(100);
     });
+
+    // C major, then A minor, at 500ms per beat
+    const progression = (anyVoicing?: boolean) =>
+      makeExercise({
+        type: 'chordId',
+        notes: [
+          { note: 60, startBeat: 0, durationBeats: 2 },
+          { note: 64, startBeat: 0, durationBeats: 2 },
+          { note: 67, startBeat: 0, durationBeats: 2 },
+          { note: 57, startBeat: 2, durationBeats: 2 },
+          { note: 60, startBeat: 2, durationBeats: 2 },
+          { note: 64, startBeat: 2, durationBeats: 2 },
+        ],
+        scoring: {
+          timingToleranceMs: 50,
+          timingGracePeriodMs: 100,
+          passingScore: 70,
+          starThresholds: [70, 85, 95],
+          ...(anyVoicing && { anyVoicing }),
+        },
+      });
+
+    it('accepts an inversion when the exercise allows any voicing', () => {
+      // C/E (E3 G3 C4) and an open Am (A2 E3 C4 A3)
+      const played = [note(52, 0), note(55, 0), note(60, 0), note(45, 1000), note(52, 1000), note(60, 1000), note(57, 1000)];
+
+      const free = scoreChordIdExercise(progression(true), played);
+      expect(free.breakdown.accuracy).toBe(100);
+      expect(free.extraNotes).toBe(0);
+      expect(free.chordDetails?.map((c) => c.isCorrect)).toEqual([true, true]);
+
+      const exact = scoreChordIdExercise(progression(), played);
+      expect(exact.breakdown.accuracy).toBeLessThan(100);
+      expect(exact.chordDetails?.[0]).toMatchObject({ expected: 'C', played: 'C/E', isCorrect: false });
+    });
+
+    it('gives partial credit for missing chord tones', () => {
+      const played = [note(60, 0), note(64, 0), note(57, 1000), note(60, 1000), note(64, 1000)];
+      const score = scoreChordIdExercise(progression(true), played);
+      expect(score.chordDetails?.[0]).toMatchObject({ tonesMatched: 2, tonesExpected: 3, isCorrect: false });
+      expect(score.breakdown.accuracy).toBe(83); // 5 of 6 tones
+    });
+
+    it('reports the wrong chord by name', () => {
+      // A minor where C major was expected, then nothing
+      const played = [note(57, 0), note(60, 0), note(64, 0)];
+      const score = scoreChordIdExercise(progression(true), played);
+      expect(score.chordDetails).toEqual([
+        { startBeat: 0, expected: 'C', played: 'Am', tonesMatched: 2, tonesExpected: 3, isCorrect: false },
+        { startBeat: 2, expected: 'Am', played: null, tonesMatched: 0, tonesExpected: 3, isCorrect: false },
+      ]);
+      expect(score.extraNotes).toBe(1); // the A
+    });
   });
 
   describe('pass-through scorers', () => {
@@ -0,0 +1,217 @@
+/**
+ * Tests for tempo and meter maps
+ */
+
+import {
+  createTempoTimeline,
+  isMeasureStart,
+  measureStartBeats,
+  meterAt,
+  scaleTempo,
+  scaleTempoMap,
+  tempoSettingsFrom,
+  validateTempoMap,
+} from '../tempoMap';
+import { scoreExercise, validateExercise } from '../ExerciseValidator';
+import type { Exercise, MidiNoteEvent } from '../types';
+
+const FOUR_FOUR: [number, number] = [4, 4];
+
+describe('tempoMap', () => {
+  describe('createTempoTimeline', () => {
+    it('should match the constant-tempo formula without a map', () => {
+      const timeline = createTempoTimeline({ tempo: 120 });
+      expect(timeline.beatToMs(4)).toBe(2000);
+      expect(timeline.msToBeat(2000)).toBe(4);
+      expect(timeline.beatToMs(-2)).toBe(-1000);
+      expect(timeline.msPerBeatAt(10)).toBe(500);
+    });
+
+    it('should switch tempo at a step change', () => {
+      // 4 beats at 120 (2s), then 60 BPM
+      const timeline = createTempoTimeline({ tempo: 120, tempoMap: [{ beat: 4, tempo: 60 }] });
+      expect(timeline.beatToMs(4)).toBe(2000);
+      expect(timeline.beatToMs(6)).toBe(4000);
+      expect(timeline.msToBeat(3000)).toBe(5);
+      expect(timeline.spanMs(3, 2)).toBe(1500);
+      expect(timeline.tempoAt(4)).toBe(60);
+    });
+
+    it('should glide linearly through a ramp and invert exactly', () => {
+      // Ritardando 120 → 60 over 4 beats
+      const timeline = createTempoTimeline({
+        tempo: 120,
+        tempoMap: [
+          { beat: 0, tempo: 120, ramp: true },
+          { beat: 4, tempo: 60 },
+        ],
+      });
+      expect(timeline.tempoAt(2)).toBe(90);
+      // ∫ 60000 / (120 − 15b) db over [0, 4] = 4000 · ln 2
+      expect(timeline.beatToMs(4)).toBeCloseTo(4000 * Math.LN2, 6);
+      expect(timeline.msToBeat(timeline.beatToMs(2.5))).toBeCloseTo(2.5, 9);
+      expect(timeline.beatToMs(5) - timeline.beatToMs(4)).toBeCloseTo(1000, 6);
+    });
+
+    it('should run the count-in at the opening tempo', () => {
+      const timeline = createTempoTimeline({ tempo: 60, tempoMap: [{ beat: 1, tempo: 120 }] });
+      expect(timeline.beatToMs(-4)).toBe(-4000);
+      expect(timeline.msToBeat(-1000)).toBe(-1);
+    });
+  });
+
+  describe('scaleTempoMap', () => {
+    it('should scale every change by the speed factor', () => {
+      expect(scaleTempoMap({ tempo: 100, tempoMap: [{ beat: 8, tempo: 80, ramp: true }] }, 0.5)).toEqual([
+        { beat: 8, tempo: 40, ramp: true },
+      ]);
+      expect(scaleTempoMap({ tempo: 100 }, 0.5)).toBeUndefined();
+    });
+
+    it('should round entries to whole BPM like the base tempo', () => {
+      expect(scaleTempoMap({ tempo: 90, tempoMap: [{ beat: 4, tempo: 50 }] }, 0.75)).toEqual([
+        { beat: 4, tempo: scaleTempo(50, 0.75) },
+      ]);
+      expect(scaleTempo(50, 0.75)).toBe(38);
+    });
+  });
+
+  describe('meters', () => {
+    const settings = { timeSignature: FOUR_FOUR, meterMap: [{ beat: 8, timeSignature: [3, 4] as [number, number] }] };
+
+    it('should place bar lines across a meter change', () => {
+      expect(measureStartBeats(settings, 14)).toEqual([0, 4, 8, 11, 14]);
+      expect(measureStartBeats({ timeSignature: FOUR_FOUR }, 5)).toEqual([0, 4, 8]);
+    });
+
+    it('should count bars of another denominator in the opening beat unit', () => {
+      // 6/8 in a 4/4 piece: bars of 3 quarter beats
+      const compound = { timeSignature: FOUR_FOUR, meterMap: [{ beat: 4, timeSignature: [6, 8] as [number, number] }] };
+      expect(meterAt(compound, 5).beatsPerMeasure).toBe(3);
+      expect(measureStartBeats(compound, 10)).toEqual([0, 4, 7, 10]);
+    });
+
+    it('should report downbeats', () => {
+      expect(isMeasureStart(settings, 4)).toBe(true);
+      expect(isMeasureStart(settings, 11)).toBe(true);
+      expect(isMeasureStart(settings, 12)).toBe(false);
+      expect(isMeasureStart(settings, -4)).toBe(false);
+    });
+  });
+
+  describe('tempoSettingsFrom', () => {
+    const settings = {
+      tempo: 120,
+      timeSignature: FOUR_FOUR,
+      tempoMap: [
+        { beat: 8, tempo: 120, ramp: true },
+        { beat: 16, tempo: 80 },
+      ],
+      meterMap: [{ beat: 4, timeSignature: [3, 4] as [number, number] }],
+    };
+
+    it('should leave a passage at beat 0 untouched', () => {
+      expect(tempoSettingsFrom(settings, 0)).toEqual({
+        tempo: 120,
+        tempoMap: settings.tempoMap,
+        meterMap: settings.meterMap,
+      });
+    });
+
+    it('should re-base the maps to the passage start', () => {
+      expect(tempoSettingsFrom(settings, 4)).toEqual({
+        tempo: 120,
+        tempoMap: [
+          { beat: 4, tempo: 120, ramp: true },
+          { beat: 12, tempo: 80 },
+        ],
+        meterMap: [{ beat: 0, timeSignature: [3, 4] }],
+      });
+    });
+
+    it('should keep ramping from the tempo reached mid-ramp', () => {
+      const sliced = tempoSettingsFrom(settings, 12);
+      expect(sliced.tempo).toBe(100);
+      expect(sliced.tempoMap).toEqual([
+        { beat: 0, tempo: 100, ramp: true },
+        { beat: 4, tempo: 80 },
+      ]);
+    });
+  });
+
+  describe('validateTempoMap', () => {
+    it('should accept well-formed maps', () => {
+      expect(
+        validateTempoMap({
+          tempo: 100,
+          timeSignature: FOUR_FOUR,
+          tempoMap: [{ beat: 0, tempo: 100, ramp: true }, { beat: 8, tempo: 70 }],
+          meterMap: [{ beat: 8, timeSignature: [3, 4] }, { beat: 11, timeSignature: [4, 4] }],
+        }),
+      ).toEqual([]);
+    });
+
+    it('should reject bad tempos, ordering and meters off the bar grid', () => {
+      const errors = validateTempoMap({
+        tempo: 100,
+        timeSignature: FOUR_FOUR,
+        tempoMap: [{ beat: 0, tempo: 90 }, { beat: 8, tempo: 0 }, { beat: 4, tempo: 80 }],
+      });
+      expect(errors).toHaveLength(3);
+      expect(
+        validateTempoMap({ tempo: 100, timeSignature: FOUR_FOUR, meterMap: [{ beat: 6, timeSignature: [3, 4] }] }),
+      ).toEqual(['Meter change 0: beat 6 is not on a bar line']);
+      expect(
+        validateTempoMap({ tempo: 100, timeSignature: FOUR_FOUR, meterMap: [{ beat: 4, timeSignature: [3, 5] }] }),
+      ).toEqual(['Meter change 0: denominator must be a power of two']);
+    });
+  });
+
+  describe('scoring with a tempo map', () => {
+    const exercise: Exercise = {
+      id: 'tempo-map',
+      version: 1,
+      metadata: {
+        title: 'Ritardando',
+        description: '',
+        difficulty: 1,
+        estimatedMinutes: 1,
+        skills: [],
+        prerequisites: [],
+      },
+      settings: {
+        tempo: 120,
+        timeSignature: FOUR_FOUR,
+        keySignature: 'C',
+        countIn: 0,
+        metronomeEnabled: false,
+        tempoMap: [{ beat: 2, tempo: 60 }],
+      },
+      notes: [0, 1, 2, 3].map((beat) => ({ note: 60 + beat, startBeat: beat, durationBeats: 1 })),
+      scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+      hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+    };
+
+    it('should expect notes at their tempo-mapped times', () => {
+      // Beats 0, 1 at 500ms each, then 1000ms per beat: 0, 500, 1000, 2000
+      const played: MidiNoteEvent[] = [0, 500, 1000, 2000].map((timestamp, i) => ({
+        type: 'noteOn',
+        note: 60 + i,
+        velocity: 80,
+        timestamp,
+        channel: 0,
+        durationMs: i < 2 ? 500 : 1000,
+      }));
+      const score = scoreExercise(exercise, played);
+      expect(score.details.every((d) => d.timingScore === 100)).toBe(true);
+    });
+
+    it('should report map errors from validateExercise', () => {
+      const result = validateExercise({
+        ...exercise,
+        settings: { ...exercise.settings, tempoMap: [{ beat: 2, tempo: -1 }] },
+      });
+      expect(result.errors).toContain('Tempo change 0: tempo must be positive');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Wait Mode Tests
+ *
+ * Stops built from notes and chords, advancing through them, and the
+ * pitch-only result.
+ */
+
+import { applyWaitNote, createWaitModeState, scoreWaitMode, waitHoldBeat, waitStops } from '../waitMode';
+import type { NoteEvent } from '../types';
+
+const NOTES: NoteEvent[] = [
+  { note: 60, startBeat: 0, durationBeats: 1 },
+  { note: 64, startBeat: 1, durationBeats: 1 },
+  { note: 67, startBeat: 1, durationBeats: 1 },
+  { note: 72, startBeat: 2, durationBeats: 1, optional: true },
+  { note: 65, startBeat: 3, durationBeats: 1 },
+];
+
+const play = (notes: number[]) => {
+  const stops = waitStops(NOTES);
+  return { stops, state: notes.reduce((state, note) => applyWaitNote(state, stops, note), createWaitModeState(stops)) };
+};
+
+describe('waitStops', () => {
+  it('groups required notes into stops by beat and skips optional notes', () => {
+    expect(waitStops(NOTES)).toEqual([
+      { beat: 0, pitches: [60] },
+      { beat: 1, pitches: [64, 67] },
+      { beat: 3, pitches: [65] },
+    ]);
+  });
+});
+
+describe('applyWaitNote', () => {
+  it('holds at a chord until every tone is played', () => {
+    const { stops, state } = play([60, 67]);
+    expect(waitHoldBeat(state, stops)).toBe(1);
+    expect(waitHoldBeat(applyWaitNote(state, stops, 64), stops)).toBe(3);
+  });
+
+  it('counts a wrong key without moving on, but not a repeated chord tone', () => {
+    const { stops, state } = play([60, 67, 67, 62]);
+    expect(state.wrongNotes).toBe(1);
+    expect(waitHoldBeat(state, stops)).toBe(1);
+  });
+
+  it('releases the playhead after the last stop', () => {
+    const { stops, state } = play([60, 64, 67, 65]);
+    expect(waitHoldBeat(state, stops)).toBeNull();
+    expect(applyWaitNote(state, stops, 50)).toBe(state);
+  });
+});
+
+describe('scoreWaitMode', () => {
+  it('scores pitches only: notes found against everything pressed', () => {
+    const { stops, state } = play([60, 61, 64, 67, 65]);
+    expect(scoreWaitMode(state, stops)).toEqual({
+      score: 80,
+      notesHit: 4,
+      wrongNotes: 1,
+      cleanStops: 2,
+      totalStops: 3,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Chord scoring — chordId exercises, scored a chord at a time
+ * Pure TypeScript - no React imports
+ *
+ * Expected notes sharing a start beat form a chord. Each played note goes to
+ * the chord whose beat it lands nearest (within ±1.5 beats) and is matched
+ * to a tone of that chord: the exact key, or — with `scoring.anyVoicing` —
+ * the same pitch class in any octave, so inversions, open voicings and
+ * doubled tones all count. A chord with tones missing still earns credit for
+ * the tones that were played.
+ */
+
+import type { ChordScore, Exercise, MidiNoteEvent, NoteEvent, NoteScore } from './types';
+import { calculateDurationScore, calculateTimingScore } from './ExerciseValidator';
+import { calculateVelocityScore, resolveTargetLevels } from './dynamics';
+import type { TempoTimeline } from './tempoMap';
+import { chordLabel } from '../music/chords';
+
+/** Minimum ±ms for a "perfect" chord — several keys rarely land at once */
+export const CHORD_MIN_TOLERANCE_MS = 100;
+
+/** Minimum ±ms for a "good" chord */
+export const CHORD_MIN_GRACE_MS = 250;
+
+/** Played notes further than this (in beats) from every chord are extra notes */
+const CHORD_MATCH_WINDOW_BEATS = 1.5;
+
+const BEAT_EPSILON = 1e-6;
+
+export interface ChordGroup {
+  startBeat: number;
+  noteIndices: number[]; // Indices into the exercise's notes
+}
+
+export interface ChordResult {
+  noteScores: NoteScore[]; // Expected notes in exercise order, then extra notes
+  details: ChordScore[];
+}
+
+const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+/** Expected notes grouped into chords by start beat, in beat order */
+export function groupChords(notes: NoteEvent[]): ChordGroup[] {
+  const groups: ChordGroup[] = [];
+  const order = notes.map((_, i) => i).sort((a, b) => notes[a].startBeat - notes[b].startBeat);
+  for (const i of order) {
+    const last = groups[groups.length - 1];
+    if (last && Math.abs(notes[i].startBeat - last.startBeat) < BEAT_EPSILON) last.noteIndices.push(i);
+    else groups.push({ startBeat: notes[i].startBeat, noteIndices: [i] });
+  }
+  return groups;
+}
+
+/**
+ * Pick the played note for one chord tone from the notes near the chord:
+ * the exact key first, then (any voicing) the closest octave. A tone that
+ * is doubled in the chord can share a played note when voicing is free.
+ */
+function takeTone(
+  target: number,
+  slot: number[],
+  used: Set<number>,
+  playedNotes: MidiNoteEvent[],
+  anyVoicing: boolean,
+): number | null {
+  const candidates = slot.filter((p) =>
+    anyVoicing ? pitchClass(playedNotes[p].note) === pitchClass(target) : playedNotes[p].note === target,
+  );
+  const byDistance = (a: number, b: number) =>
+    Math.abs(playedNotes[a].note - target) - Math.abs(playedNotes[b].note - target);
+  const best = candidates.filter((p) => !used.has(p)).sort(byDistance)[0];
+  if (best !== undefined) {
+    used.add(best);
+    return best;
+  }
+  return anyVoicing ? candidates.sort(byDistance)[0] ?? null : null;
+}
+
+const extraNoteScore = (played: MidiNoteEvent): NoteScore => ({
+  expected: { note: 0, startBeat: 0, durationBeats: 0 },
+  played,
+  timingOffsetMs: 0,
+  timingScore: 0,
+  velocityScore: 0,
+  isCorrectPitch: false,
+  isExtraNote: true,
+  isMissedNote: false,
+});
+
+export function scoreChords(
+  exercise: Exercise,
+  playedNotes: MidiNoteEvent[],
+  timeline: TempoTimeline,
+): ChordResult {
+  const anyVoicing = exercise.scoring.anyVoicing === true;
+  const tolerance = Math.max(exercise.scoring.timingToleranceMs, CHORD_MIN_TOLERANCE_MS);
+  const gracePeriod = Math.max(exercise.scoring.timingGracePeriodMs, CHORD_MIN_GRACE_MS);
+  const targetLevels = resolveTargetLevels(exercise);
+  const groups = groupChords(exercise.notes);
+  const groupTimes = groups.map((group) => timeline.beatToMs(group.startBeat));
+
+  // Each played note belongs to the chord it lands nearest
+  const slots: number[][] = groups.map(() => []);
+  const extraScores: NoteScore[] = [];
+  playedNotes.forEach((played, p) => {
+    let nearest = -1;
+    groups.forEach((group, c) => {
+      const distance = Math.abs(played.timestamp - groupTimes[c]);
+      if (distance >= timeline.msPerBeatAt(group.startBeat) * CHORD_MATCH_WINDOW_BEATS) return;
+      if (nearest < 0 || distance < Math.abs(played.timestamp - groupTimes[nearest])) nearest = c;
+    });
+    if (nearest >= 0) slots[nearest].push(p);
+    else extraScores.push(extraNoteScore(played));
+  });
+
+  const expectedScores: NoteScore[] = [];
+  const details: ChordScore[] = [];
+
+  groups.forEach((group, c) => {
+    const slot = slots[c];
+    const used = new Set<number>();
+    const chordNotes = group.noteIndices.map((i) => exercise.notes[i].note);
+    // With free voicing a tone is a pitch class; otherwise every key counts
+    const tone = (note: number) => (anyVoicing ? pitchClass(note) : note);
+    const matchedTones = new Set<number>();
+
+    for (const i of group.noteIndices) {
+      const expected = exercise.notes[i];
+      const p = takeTone(expected.note, slot, used, playedNotes, anyVoicing);
+      if (p === null) {
+        expectedScores[i] = {
+          expected,
+          played: null,
+          timingOffsetMs: 0,
+          timingScore: 0,
+          velocityScore: 0,
+          isCorrectPitch: false,
+          isExtraNote: false,
+          isMissedNote: true,
+        };
+        continue;
+      }
+
+      const played = playedNotes[p];
+      const timingOffsetMs = played.timestamp - groupTimes[c];
+      matchedTones.add(tone(expected.note));
+      expectedScores[i] = {
+        expected,
+        played,
+        timingOffsetMs,
+        timingScore: calculateTimingScore(timingOffsetMs, tolerance, gracePeriod),
+        durationScore: calculateDurationScore(
+          played.durationMs,
+          timeline.spanMs(expected.startBeat, expected.durationBeats),
+        ),
+        velocityScore: calculateVelocityScore(played, targetLevels[i]),
+        isCorrectPitch: true,
+        isExtraNote: false,
+        isMissedNote: false,
+      };
+    }
+
+    // Left-over notes: a doubled chord tone is fine in any voicing, anything else is wrong
+    const chordClasses = new Set(chordNotes.map(pitchClass));
+    let wrongNotes = 0;
+    for (const p of slot) {
+      if (used.has(p)) continue;
+      if (anyVoicing && chordClasses.has(pitchClass(playedNotes[p].note))) continue;
+      wrongNotes++;
+      extraScores.push(extraNoteScore(playedNotes[p]));
+    }
+
+    const tonesExpected = new Set(chordNotes.map(tone)).size;
+    details.push({
+      startBeat: group.startBeat,
+      expected: chordLabel(chordNotes),
+      played: slot.length > 0 ? chordLabel(slot.map((p) => playedNotes[p].note)) : null,
+      tonesMatched: matchedTones.size,
+      tonesExpected,
+      isCorrect: matchedTones.size === tonesExpected && wrongNotes === 0,
+    });
+  });
+
+  return { noteScores: [...expectedScores, ...extraScores], details };
+}
@@ -0,0 +1,203 @@
+/**
+ * Dynamics — target loudness per note and per-keyboard velocity calibration
+ * Pure TypeScript - no React imports
+ *
+ * Exercises mark dynamics on individual notes (pp–ff, carried forward until
+ * the next marking) and crescendo/diminuendo hairpins over beat ranges.
+ * Played velocities are compared against a 0-1 loudness level, so a keyboard
+ * that never sends more than velocity 100 can still reach "ff" once calibrated.
+ */
+
+import type { DynamicMarking, Exercise, Hairpin, MidiNoteEvent, NoteEvent } from './types';
+
+/** Ordered softest → loudest */
+export const DYNAMIC_MARKINGS: readonly DynamicMarking[] = ['pp', 'p', 'mp', 'mf', 'f', 'ff'];
+
+/** Target loudness per marking, as a fraction of the calibrated velocity range */
+export const DYNAMIC_LEVELS: Record<DynamicMarking, number> = {
+  pp: 0.1,
+  p: 0.25,
+  mp: 0.42,
+  mf: 0.58,
+  f: 0.75,
+  ff: 0.92,
+};
+
+/** Marking assumed before the first explicit dynamic */
+export const DEFAULT_DYNAMIC: DynamicMarking = 'mf';
+
+/** Share of the overall score given to dynamics when an exercise opts in */
+export const DYNAMICS_WEIGHT = 0.15;
+
+/** Within this distance from the target level a note scores 100 */
+const DYNAMICS_TOLERANCE = 0.12;
+
+/** At or beyond this distance from the target level a note scores 0 */
+const DYNAMICS_MAX_ERROR = 0.45;
+
+/** Calibration is rejected if soft and loud attempts are closer than this */
+const MIN_CALIBRATION_SPAN = 20;
+
+// ============================================================================
+// Velocity calibration
+// ============================================================================
+
+/** Raw MIDI velocities a keyboard produces for the learner's softest / loudest touch */
+export interface VelocityCalibration {
+  softest: number; // 1-127
+  loudest: number; // 1-127, always > softest
+}
+
+/** Identity calibration — the full MIDI velocity range */
+export const DEFAULT_VELOCITY_CALIBRATION: VelocityCalibration = { softest: 1, loudest: 127 };
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Build a calibration from a few "as soft as you can" and "as loud as you can"
+ * attempts. Returns null if either set is empty or the two are too close to
+ * tell apart (the learner didn't vary their touch, or the keyboard has a
+ * fixed velocity curve).
+ */
+export function createVelocityCalibration(
+  softVelocities: number[],
+  loudVelocities: number[],
+): VelocityCalibration | null {
+  const soft = softVelocities.filter((v) => v > 0);
+  const loud = loudVelocities.filter((v) => v > 0);
+  if (soft.length === 0 || loud.length === 0) return null;
+
+  const softest = Math.round(median(soft));
+  const loudest = Math.round(median(loud));
+  if (loudest - softest < MIN_CALIBRATION_SPAN) return null;
+
+  return { softest, loudest };
+}
+
+/** Map a raw velocity into a 0-1 loudness level using the calibrated range */
+export function velocityToLevel(
+  velocity: number,
+  calibration: VelocityCalibration = DEFAULT_VELOCITY_CALIBRATION,
+): number {
+  const span = calibration.loudest - calibration.softest;
+  if (span <= 0) return 0.5;
+  return Math.max(0, Math.min(1, (velocity - calibration.softest) / span));
+}
+
+/**
+ * Rescale a raw velocity from a calibrated keyboard onto the full 1-127 range,
+ * so the scorer can treat every keyboard the same way.
+ */
+export function applyVelocityCalibration(
+  velocity: number,
+  calibration: VelocityCalibration | null | undefined,
+): number {
+  if (!calibration) return velocity;
+  return Math.round(1 + velocityToLevel(velocity, calibration) * 126);
+}
+
+// ============================================================================
+// Target levels
+// ============================================================================
+
+/** Step one marking louder (+1) or softer (-1), clamped to pp–ff */
+function stepMarking(marking: DynamicMarking, direction: 1 | -1): DynamicMarking {
+  const index = DYNAMIC_MARKINGS.indexOf(marking) + direction;
+  return DYNAMIC_MARKINGS[Math.max(0, Math.min(DYNAMIC_MARKINGS.length - 1, index))];
+}
+
+/** Marking in effect at a beat: the last explicit dynamic at or before it */
+function markingAt(sortedNotes: NoteEvent[], beat: number): DynamicMarking {
+  let current = DEFAULT_DYNAMIC;
+  for (const note of sortedNotes) {
+    if (note.startBeat > beat) break;
+    if (note.dynamic) current = note.dynamic;
+  }
+  return current;
+}
+
+/**
+ * Loudness a hairpin arrives at: the marking on the first note at or after its
+ * end if that moves in the hairpin's direction, else one marking further.
+ */
+function hairpinEndLevel(sortedNotes: NoteEvent[], hairpin: Hairpin, startMarking: DynamicMarking): number {
+  const direction = hairpin.type === 'crescendo' ? 1 : -1;
+  const startLevel = DYNAMIC_LEVELS[startMarking];
+  const arrival = sortedNotes.find((n) => n.startBeat >= hairpin.endBeat);
+  if (arrival?.dynamic) {
+    const arrivalLevel = DYNAMIC_LEVELS[arrival.dynamic];
+    if ((arrivalLevel - startLevel) * direction > 0) return arrivalLevel;
+  }
+  return DYNAMIC_LEVELS[stepMarking(startMarking, direction)];
+}
+
+/**
+ * Resolve the target loudness (0-1) of every note in the exercise, indexed
+ * like `exercise.notes`. Notes inside a hairpin are interpolated between the
+ * marking at its start and the level it arrives at.
+ */
+export function resolveTargetLevels(exercise: Pick<Exercise, 'notes' | 'hairpins'>): number[] {
+  const sortedNotes = [...exercise.notes].sort((a, b) => a.startBeat - b.startBeat);
+  const hairpins = exercise.hairpins ?? [];
+
+  return exercise.notes.map((note) => {
+    const hairpin = hairpins.find(
+      (h) => note.startBeat > h.startBeat && note.startBeat < h.endBeat,
+    );
+    if (!hairpin) return DYNAMIC_LEVELS[markingAt(sortedNotes, note.startBeat)];
+
+    const startMarking = markingAt(sortedNotes, hairpin.startBeat);
+    const startLevel = DYNAMIC_LEVELS[startMarking];
+    const endLevel = hairpinEndLevel(sortedNotes, hairpin, startMarking);
+    const progress = (note.startBeat - hairpin.startBeat) / (hairpin.endBeat - hairpin.startBeat);
+    return startLevel + (endLevel - startLevel) * progress;
+  });
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score how close a played note's velocity is to its target level (0-100).
+ * Touch input has no velocity sensing, so it gets a neutral 100 (no penalty).
+ */
+export function calculateVelocityScore(played: MidiNoteEvent, targetLevel: number): number {
+  if (played.inputSource === 'touch') return 100;
+
+  const error = Math.abs(velocityToLevel(played.velocity) - targetLevel);
+  if (error <= DYNAMICS_TOLERANCE) return 100;
+  if (error >= DYNAMICS_MAX_ERROR) return 0;
+  return 100 - ((error - DYNAMICS_TOLERANCE) / (DYNAMICS_MAX_ERROR - DYNAMICS_TOLERANCE)) * 100;
+}
+
+/** Whether an exercise opted in to dynamics scoring */
+export function isDynamicsScored(exercise: Pick<Exercise, 'scoring'>): boolean {
+  return exercise.scoring.velocitySensitive === true;
+}
+
+/** Validate dynamics markup; returns human-readable errors (empty if valid) */
+export function validateDynamics(exercise: Pick<Exercise, 'notes' | 'hairpins'>): string[] {
+  const errors: string[] = [];
+
+  exercise.notes.forEach((note, i) => {
+    if (note.dynamic && !DYNAMIC_MARKINGS.includes(note.dynamic)) {
+      errors.push(`Note ${i}: unknown dynamic "${note.dynamic}"`);
+    }
+  });
+
+  (exercise.hairpins ?? []).forEach((hairpin, i) => {
+    if (hairpin.type !== 'crescendo' && hairpin.type !== 'diminuendo') {
+      errors.push(`Hairpin ${i}: type must be crescendo or diminuendo`);
+    }
+    if (hairpin.startBeat < 0 || hairpin.endBeat <= hairpin.startBeat) {
+      errors.push(`Hairpin ${i}: endBeat must be after a non-negative startBeat`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,160 @@
+/**
+ * Ghost race
+ *
+ * A friend challenge carries the challenger's verified performance as a
+ * "ghost": the notes they played and how they practised. The recipient
+ * races it while playing the same exercise:
+ *
+ * - createChallengeGhost(): the ghost of a submitted performance, in the
+ *   exact form submitPerformance stores it (security rules compare the two)
+ * - replayGhost(): re-scores the ghost locally and places its notes on the
+ *   exercise's beat grid for the piano roll and the replay timeline
+ * - raceScore(): running score of either side at a beat, for the live
+ *   comparison
+ */
+
+import type { Exercise, ExerciseScore, ExerciseScoringConfig, MidiNoteEvent, NoteEvent, NoteScore } from './types';
+import type { PracticeHand } from './handPractice';
+import { createTempoTimeline } from './tempoMap';
+import { scoreExerciseByType } from './scoringStrategies';
+import { NO_ASSISTS, prepareSubmittedExercise } from './performanceVerification';
+import type { PerformanceAssists, PerformanceInputMethod, PerformanceSubmission } from './performanceVerification';
+
+export type RaceNoteStatus = NonNullable<NoteScore['status']>;
+
+/** The challenger's run as stored on the challenge and their performance */
+export interface ChallengeGhost {
+  /** noteOn events in ms from beat 0 at the tempo they practised */
+  notes: MidiNoteEvent[];
+  playbackSpeed: number;
+  practiceHand: PracticeHand;
+  inputMethod: PerformanceInputMethod;
+  assists: PerformanceAssists;
+}
+
+/** One key the ghost struck, on the exercise's beat grid */
+export interface GhostNote {
+  note: number;
+  startBeat: number;
+  durationBeats: number;
+  /** Matched an exercise note at the right pitch */
+  isCorrect: boolean;
+}
+
+export interface GhostRun {
+  /** The challenger's score re-scored here (pedal timing isn't part of the ghost) */
+  score: ExerciseScore;
+  /** The exercise notes the challenger was scored on */
+  expectedNotes: NoteEvent[];
+  /** Status of each of expectedNotes the challenger played (index → status) */
+  statuses: Map<number, RaceNoteStatus>;
+  notes: GhostNote[];
+}
+
+/** Points per note for the running comparison; unplayed notes score 0 */
+export const RACE_STATUS_POINTS: Record<RaceNoteStatus, number> = {
+  perfect: 100,
+  good: 80,
+  early: 60,
+  late: 60,
+  ok: 40,
+  wrong: 0,
+  missed: 0,
+};
+
+/** A note counts once it leaves the ±1.5-beat match window */
+const RACE_SETTLE_BEATS = 1.5;
+
+/** Shortest ghost bar for notes without a recorded duration */
+const MIN_GHOST_BEATS = 0.25;
+
+/** The ghost of a submission: noteOn events only, without undefined fields */
+export function createChallengeGhost(
+  submission: Pick<PerformanceSubmission, 'notes' | 'playbackSpeed' | 'practiceHand' | 'inputMethod' | 'assists'>,
+): ChallengeGhost {
+  const notes = submission.notes
+    .filter((n) => n.type === 'noteOn')
+    .map((n) => {
+      const event: MidiNoteEvent = {
+        type: n.type,
+        note: n.note,
+        velocity: n.velocity,
+        timestamp: n.timestamp,
+        channel: Number.isFinite(n.channel) ? n.channel : 0,
+      };
+      if (n.durationMs !== undefined) event.durationMs = n.durationMs;
+      return event;
+    });
+  return {
+    notes,
+    playbackSpeed: submission.playbackSpeed,
+    practiceHand: submission.practiceHand,
+    inputMethod: submission.inputMethod,
+    assists: submission.assists ?? NO_ASSISTS,
+  };
+}
+
+/**
+ * Live feedback status for a played note, by the same windows the player's
+ * key feedback uses.
+ */
+export function timingStatus(offsetMs: number, scoring: ExerciseScoringConfig): RaceNoteStatus {
+  const distance = Math.abs(offsetMs);
+  if (distance <= scoring.timingToleranceMs * 0.5) return 'perfect';
+  if (distance <= scoring.timingToleranceMs) return 'good';
+  if (distance <= scoring.timingGracePeriodMs) return offsetMs < 0 ? 'early' : 'late';
+  return 'ok';
+}
+
+const noteKey = (n: { note: number; timestamp: number }): string => `${n.note}@${n.timestamp}`;
+
+/** Re-score the ghost against `exercise` and place its notes in beats */
+export function replayGhost(exercise: Exercise, ghost: ChallengeGhost): GhostRun {
+  const practised = prepareSubmittedExercise(exercise, ghost);
+  const score = scoreExerciseByType(practised, ghost.notes);
+  const expectedNotes = practised.notes;
+
+  const statuses = new Map<number, RaceNoteStatus>();
+  const correct = new Set<string>();
+  for (const detail of score.details) {
+    if (detail.isExtraNote || !detail.played) continue;
+    const index = expectedNotes.indexOf(detail.expected);
+    if (index >= 0) statuses.set(index, timingStatus(detail.timingOffsetMs, practised.scoring));
+    if (detail.isCorrectPitch) correct.add(noteKey(detail.played));
+  }
+
+  const timeline = createTempoTimeline(practised.settings);
+  const notes = ghost.notes.map((n) => {
+    const startBeat = timeline.msToBeat(n.timestamp);
+    const endBeat = n.durationMs ? timeline.msToBeat(n.timestamp + n.durationMs) : startBeat;
+    return {
+      note: n.note,
+      startBeat,
+      durationBeats: Math.max(MIN_GHOST_BEATS, endBeat - startBeat),
+      isCorrect: correct.has(noteKey(n)),
+    };
+  });
+
+  return { score, expectedNotes, statuses, notes };
+}
+
+/**
+ * Running score at `beat`: the mean points of the notes already past the
+ * match window, or null before the first one. Works for both sides of the
+ * race: the player's live statuses and GhostRun.statuses.
+ */
+export function raceScore(
+  notes: readonly NoteEvent[],
+  statuses: ReadonlyMap<number, RaceNoteStatus>,
+  beat: number,
+): number | null {
+  let settled = 0;
+  let points = 0;
+  for (let i = 0; i < notes.length; i++) {
+    if (notes[i].startBeat + RACE_SETTLE_BEATS >= beat) continue;
+    settled++;
+    const status = statuses.get(i);
+    if (status) points += RACE_STATUS_POINTS[status];
+  }
+  return settled === 0 ? null : Math.round(points / settled);
+}
@@ -0,0 +1,55 @@
+/**
+ * Hands-separate practice — the learner plays one hand, the app the other
+ * Pure TypeScript - no React imports
+ *
+ * Notes belong to the hand they are marked for; unmarked notes follow the
+ * exercise's `hands`, or split at middle C. The learner's hand becomes the
+ * exercise that is shown and scored, and the other hand's notes are handed
+ * back to be played along in time.
+ */
+
+import type { Exercise, NoteEvent } from './types';
+
+export type Hand = 'left' | 'right';
+export type PracticeHand = Hand | 'both';
+
+export interface HandSplit {
+  /** The exercise with only the learner's notes */
+  exercise: Exercise;
+  /** Notes the app plays, in start order */
+  autoPlayNotes: NoteEvent[];
+}
+
+/** Hand a note is played with; unmarked notes below middle C are the left hand's */
+export function noteHand(note: NoteEvent, defaultHand?: Hand): Hand {
+  return note.hand ?? defaultHand ?? (note.note < 60 ? 'left' : 'right');
+}
+
+function defaultHandOf(exercise: Exercise): Hand | undefined {
+  return exercise.hands === 'left' || exercise.hands === 'right' ? exercise.hands : undefined;
+}
+
+/** Whether the exercise has notes for each hand, so one can be practised alone */
+export function hasBothHands(exercise: Exercise): boolean {
+  const defaultHand = defaultHandOf(exercise);
+  const hands = new Set(exercise.notes.map((n) => noteHand(n, defaultHand)));
+  return hands.size === 2;
+}
+
+/**
+ * Split off the hand the learner plays. With 'both' (or an exercise that
+ * only has one hand) the exercise is returned as-is with nothing to play along.
+ */
+export function splitHands(exercise: Exercise, hand: PracticeHand): HandSplit {
+  if (hand === 'both' || !hasBothHands(exercise)) return { exercise, autoPlayNotes: [] };
+
+  const defaultHand = defaultHandOf(exercise);
+  const notes: NoteEvent[] = [];
+  const autoPlayNotes: NoteEvent[] = [];
+  for (const note of exercise.notes) {
+    (noteHand(note, defaultHand) === hand ? notes : autoPlayNotes).push(note);
+  }
+  autoPlayNotes.sort((a, b) => a.startBeat - b.startBeat);
+
+  return { exercise: { ...exercise, notes, hands: hand }, autoPlayNotes };
+}
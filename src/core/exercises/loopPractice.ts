@@ -0,0 +1,226 @@
+/**
+ * Loop practice — repeat a beat range of an exercise with a tempo ramp
+ * Pure TypeScript - no React imports
+ *
+ * Any range of an exercise (or a song section turned exercise) can be cut
+ * out and played on repeat. The loop starts below the passage's own tempo;
+ * each clean pass raises the tempo a step until it reaches the target, each
+ * failed pass lowers it a step, and a pass in between keeps it. Every pass
+ * is kept as an attempt so weak passages can be found later.
+ */
+
+import type { Exercise } from './types';
+import { measureStartBeats, scaleTempoMap, tempoSettingsFrom } from './tempoMap';
+
+export interface LoopRegion {
+  startBeat: number;
+  endBeat: number;
+}
+
+export interface LoopRampConfig {
+  /** Tempo the passage is written at — the ramp never goes above it */
+  targetTempo: number;
+  startTempo: number;
+  /** BPM added after a clean pass and taken off after a failed one */
+  stepBpm: number;
+  minTempo: number;
+  /** A pass scoring at least this is clean */
+  cleanScore: number;
+  /** A pass scoring below this is failed */
+  failScore: number;
+}
+
+export interface LoopAttempt {
+  tempo: number;
+  score: number;
+  /** ms since epoch */
+  at: number;
+}
+
+/** Attempt history of one loop, keyed by `loopKey` */
+export interface LoopRecord {
+  exerciseId: string;
+  title: string;
+  startBeat: number;
+  endBeat: number;
+  targetTempo: number;
+  /** Distinct pitches in the passage, low to high */
+  pitches: number[];
+  attempts: LoopAttempt[];
+}
+
+/** Loop starts at this share of the target tempo */
+const START_TEMPO_RATIO = 0.7;
+const DEFAULT_STEP_BPM = 5;
+export const DEFAULT_CLEAN_SCORE = 90;
+/** Clean-pass thresholds the learner can pick from */
+export const LOOP_CLEAN_SCORES = [80, 85, 90, 95];
+const MIN_LOOP_TEMPO = 30;
+/** Attempts kept per loop */
+export const MAX_LOOP_ATTEMPTS = 20;
+/** Loops kept in the learner's history */
+export const MAX_LOOP_RECORDS = 50;
+
+const BEAT_EPSILON = 1e-6;
+
+export function loopKey(exerciseId: string, region: LoopRegion): string {
+  return `${exerciseId}@${region.startBeat}-${region.endBeat}`;
+}
+
+/** Whole bars covering both beats (the A and B markers, in either order) */
+export function barRegion(exercise: Exercise, beatA: number, beatB: number): LoopRegion {
+  const noteEnds = exercise.notes.map((n) => n.startBeat + n.durationBeats);
+  const lastBeat = noteEnds.length > 0 ? Math.max(...noteEnds) : 0;
+  const bars = measureStartBeats(
+    { timeSignature: exercise.settings.timeSignature, meterMap: exercise.settings.meterMap },
+    Math.max(lastBeat, beatA, beatB) + BEAT_EPSILON,
+  );
+  const from = Math.max(0, Math.min(beatA, beatB));
+  const to = Math.max(0, beatA, beatB);
+  const startBeat = [...bars].reverse().find((b) => b <= from + BEAT_EPSILON) ?? 0;
+  const endBeat = bars.find((b) => b > to + BEAT_EPSILON) ?? bars[bars.length - 1];
+  return { startBeat, endBeat };
+}
+
+/**
+ * Ramp settings for looping a range of the exercise. The target is the tempo
+ * in force where the range starts.
+ */
+export function createLoopRamp(
+  exercise: Exercise,
+  region: LoopRegion,
+  overrides: Partial<LoopRampConfig> = {},
+): LoopRampConfig {
+  const { tempo: targetTempo } = tempoSettingsFrom(exercise.settings, region.startBeat);
+  const minTempo = Math.min(MIN_LOOP_TEMPO, targetTempo);
+  return {
+    targetTempo,
+    startTempo: Math.max(minTempo, Math.round(targetTempo * START_TEMPO_RATIO)),
+    stepBpm: DEFAULT_STEP_BPM,
+    minTempo,
+    cleanScore: DEFAULT_CLEAN_SCORE,
+    failScore: exercise.scoring.passingScore,
+    ...overrides,
+  };
+}
+
+/** Tempo for the next pass after one scoring `score` at `tempo` */
+export function nextLoopTempo(config: LoopRampConfig, tempo: number, score: number): number {
+  if (score >= config.cleanScore) return Math.min(config.targetTempo, tempo + config.stepBpm);
+  if (score < config.failScore) return Math.max(config.minTempo, tempo - config.stepBpm);
+  return tempo;
+}
+
+/**
+ * The range as an exercise of its own, starting at beat 0 and played at
+ * `tempo` (later tempo changes in the range scale with it). Timing windows
+ * widen at slower tempos, as with practice speed. Loops forever, and keeps
+ * the exercise's id so progress and the current exercise stay attached.
+ */
+export function loopRegionExercise(exercise: Exercise, region: LoopRegion, tempo: number): Exercise {
+  const { startBeat, endBeat } = region;
+  const inRange = (beat: number) => beat >= startBeat - BEAT_EPSILON && beat < endBeat - BEAT_EPSILON;
+  const shift = <T extends { startBeat: number }>(item: T): T => ({ ...item, startBeat: item.startBeat - startBeat });
+  // Markings wholly inside the range; none at all when nothing is left
+  const within = <T extends { startBeat: number; endBeat: number }>(items: T[] | undefined) => {
+    const kept = (items ?? [])
+      .filter((item) => inRange(item.startBeat) && item.endBeat <= endBeat + BEAT_EPSILON)
+      .map((item) => ({ ...shift(item), endBeat: item.endBeat - startBeat }));
+    return kept.length > 0 ? kept : undefined;
+  };
+
+  const timing = tempoSettingsFrom(exercise.settings, startBeat);
+  const factor = tempo / timing.tempo;
+  const length = endBeat - startBeat;
+  const tempoMap = scaleTempoMap(timing, factor)?.filter((c) => c.beat < length);
+  const meterMap = timing.meterMap?.filter((c) => c.beat < length);
+
+  return {
+    ...exercise,
+    settings: {
+      ...exercise.settings,
+      tempo,
+      tempoMap: tempoMap?.length ? tempoMap : undefined,
+      meterMap: meterMap?.length ? meterMap : undefined,
+      loopEnabled: true,
+    },
+    notes: exercise.notes
+      .filter((n) => inRange(n.startBeat))
+      .map((n) => ({ ...shift(n), durationBeats: Math.min(n.durationBeats, endBeat - n.startBeat) })),
+    scoring: {
+      ...exercise.scoring,
+      timingToleranceMs: Math.round(exercise.scoring.timingToleranceMs / Math.min(1, factor)),
+      timingGracePeriodMs: Math.round(exercise.scoring.timingGracePeriodMs / Math.min(1, factor)),
+    },
+    hairpins: within(exercise.hairpins),
+    pedal: within(exercise.pedal),
+  };
+}
+
+/** History with one more pass, keeping the latest MAX_LOOP_ATTEMPTS */
+export function withLoopAttempt(
+  record: LoopRecord | undefined,
+  exercise: Exercise,
+  region: LoopRegion,
+  config: LoopRampConfig,
+  attempt: LoopAttempt,
+): LoopRecord {
+  const pitches = [
+    ...new Set(
+      exercise.notes
+        .filter((n) => n.startBeat >= region.startBeat - BEAT_EPSILON && n.startBeat < region.endBeat - BEAT_EPSILON)
+        .map((n) => n.note),
+    ),
+  ].sort((a, b) => a - b);
+  return {
+    exerciseId: exercise.id,
+    title: exercise.metadata.title,
+    startBeat: region.startBeat,
+    endBeat: region.endBeat,
+    targetTempo: config.targetTempo,
+    pitches,
+    attempts: [...(record?.attempts ?? []), attempt].slice(-MAX_LOOP_ATTEMPTS),
+  };
+}
+
+const lastPracticedAt = (record: LoopRecord) => record.attempts[record.attempts.length - 1]?.at ?? 0;
+
+/** History trimmed to the MAX_LOOP_RECORDS most recently practised loops */
+export function recentLoops(history: Record<string, LoopRecord>): Record<string, LoopRecord> {
+  return Object.fromEntries(
+    Object.entries(history)
+      .sort(([, a], [, b]) => lastPracticedAt(b) - lastPracticedAt(a))
+      .slice(0, MAX_LOOP_RECORDS),
+  );
+}
+
+/** Merge two devices' loop histories: each loop keeps the latest attempts from both */
+export function mergeLoopHistories(
+  local: Record<string, LoopRecord>,
+  remote: Record<string, LoopRecord>,
+): Record<string, LoopRecord> {
+  const merged = { ...local };
+  for (const [key, record] of Object.entries(remote)) {
+    const own = merged[key];
+    if (!own) {
+      merged[key] = record;
+      continue;
+    }
+    const seen = new Set(own.attempts.map((a) => a.at));
+    const attempts = [...own.attempts, ...record.attempts.filter((a) => !seen.has(a.at))]
+      .sort((a, b) => a.at - b.at)
+      .slice(-MAX_LOOP_ATTEMPTS);
+    merged[key] = { ...(lastPracticedAt(record) > lastPracticedAt(own) ? record : own), attempts };
+  }
+  return recentLoops(merged);
+}
+
+/**
+ * How far a loop is from mastered, 0-1: the share of the target tempo not
+ * yet reached with a clean pass, or 1 if there has been none.
+ */
+export function loopWeakness(record: LoopRecord, cleanScore = DEFAULT_CLEAN_SCORE): number {
+  const cleanTempos = record.attempts.filter((a) => a.score >= cleanScore).map((a) => a.tempo);
+  if (cleanTempos.length === 0) return 1;
+  return Math.max(0, 1 - Math.max(...cleanTempos) / record.targetTempo);
+}
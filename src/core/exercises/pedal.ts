@@ -0,0 +1,135 @@
+/**
+ * Sustain pedal — scoring pedal-down / pedal-up timing against exercise markings
+ * Pure TypeScript - no React imports
+ *
+ * Exercises mark pedal as beat ranges (down at startBeat, up at endBeat).
+ * Played pedal transitions come from CC64 and are matched to the nearest
+ * marked press / lift, the same way notes are matched to expected notes.
+ */
+
+import type { Exercise, PedalMarking, PedalScore, SustainPedalEvent } from './types';
+import { calculateTimingScore } from './ExerciseValidator';
+import { createTempoTimeline } from './tempoMap';
+
+/** Share of the overall score given to pedalling when an exercise has pedal markings */
+export const PEDAL_WEIGHT = 0.15;
+
+/** Minimum ±ms for a "perfect" press / lift — the foot is slower than the fingers */
+const PEDAL_MIN_TOLERANCE_MS = 80;
+
+/** Minimum ±ms for a "good" press / lift */
+const PEDAL_MIN_GRACE_MS = 250;
+
+/** Played transitions further than this (in beats) from a marking don't match it */
+const PEDAL_MATCH_WINDOW_BEATS = 1;
+
+/** Score penalty per pedal press that matches no marking */
+const EXTRA_PRESS_PENALTY = 10;
+
+export interface PedalResult {
+  details: PedalScore[];
+  extraPresses: number; // Pedal-down events that matched no marking
+}
+
+/** Whether an exercise has pedal markings to score */
+export function isPedalScored(exercise: Pick<Exercise, 'pedal'>): boolean {
+  return (exercise.pedal?.length ?? 0) > 0;
+}
+
+/**
+ * Find the unused event closest to a target time, within the match window.
+ * Marks the match as used and returns its offset (negative = early).
+ */
+function takeNearest(
+  events: SustainPedalEvent[],
+  used: Set<number>,
+  targetMs: number,
+  windowMs: number,
+): number | null {
+  let best: { index: number; offset: number } | null = null;
+  for (let i = 0; i < events.length; i++) {
+    if (used.has(i)) continue;
+    const offset = events[i].timestamp - targetMs;
+    if (Math.abs(offset) >= windowMs) continue;
+    if (!best || Math.abs(offset) < Math.abs(best.offset)) {
+      best = { index: i, offset };
+    }
+  }
+  if (!best) return null;
+  used.add(best.index);
+  return best.offset;
+}
+
+/**
+ * Score played pedal transitions against the exercise's pedal markings.
+ * Timestamps are ms relative to beat 0, like played notes. A marking that
+ * lasts to the end of the exercise isn't penalised for a missing lift —
+ * the exercise may finish before the learner raises their foot.
+ */
+export function scorePedal(
+  exercise: Pick<Exercise, 'pedal' | 'notes' | 'settings' | 'scoring'>,
+  pedalEvents: SustainPedalEvent[],
+): PedalResult {
+  const timeline = createTempoTimeline(exercise.settings);
+  const windowAt = (beat: number) => timeline.msPerBeatAt(beat) * PEDAL_MATCH_WINDOW_BEATS;
+  const tolerance = Math.max(exercise.scoring.timingToleranceMs, PEDAL_MIN_TOLERANCE_MS);
+  const grace = Math.max(exercise.scoring.timingGracePeriodMs, PEDAL_MIN_GRACE_MS);
+  const lastBeat = Math.max(0, ...exercise.notes.map((n) => n.startBeat + n.durationBeats));
+
+  const byTime = [...pedalEvents].sort((a, b) => a.timestamp - b.timestamp);
+  const downs = byTime.filter((e) => e.type === 'pedalDown');
+  const ups = byTime.filter((e) => e.type === 'pedalUp');
+  const usedDowns = new Set<number>();
+  const usedUps = new Set<number>();
+
+  const markings = [...(exercise.pedal ?? [])].sort((a, b) => a.startBeat - b.startBeat);
+  const details = markings.map((expected): PedalScore => {
+    const downOffsetMs = takeNearest(
+      downs,
+      usedDowns,
+      timeline.beatToMs(expected.startBeat),
+      windowAt(expected.startBeat),
+    );
+    const upOffsetMs = takeNearest(ups, usedUps, timeline.beatToMs(expected.endBeat), windowAt(expected.endBeat));
+    const heldToEnd = upOffsetMs === null && expected.endBeat >= lastBeat;
+
+    return {
+      expected,
+      downOffsetMs,
+      upOffsetMs,
+      downScore: downOffsetMs === null ? 0 : calculateTimingScore(downOffsetMs, tolerance, grace),
+      upScore: heldToEnd ? 100 : upOffsetMs === null ? 0 : calculateTimingScore(upOffsetMs, tolerance, grace),
+    };
+  });
+
+  return { details, extraPresses: downs.length - usedDowns.size };
+}
+
+/** Overall pedal score (0-100): average press/lift timing minus a penalty per stray press */
+export function calculatePedalBreakdown(result: PedalResult): number {
+  if (result.details.length === 0) return 0;
+  const average =
+    result.details.reduce((sum, d) => sum + (d.downScore + d.upScore) / 2, 0) / result.details.length;
+  return Math.round(Math.max(0, average - result.extraPresses * EXTRA_PRESS_PENALTY));
+}
+
+/** Validate pedal markings; returns human-readable errors (empty if valid) */
+export function validatePedal(exercise: Pick<Exercise, 'pedal'>): string[] {
+  const errors: string[] = [];
+  const markings: PedalMarking[] = exercise.pedal ?? [];
+
+  markings.forEach((marking, i) => {
+    if (marking.startBeat < 0 || marking.endBeat <= marking.startBeat) {
+      errors.push(`Pedal ${i}: endBeat must be after a non-negative startBeat`);
+    }
+  });
+
+  const sorted = [...markings].sort((a, b) => a.startBeat - b.startBeat);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startBeat < sorted[i - 1].endBeat) {
+      errors.push(`Pedal markings overlap at beat ${sorted[i].startBeat} — lift before pressing again`);
+    }
+  }
+
+  return errors;
+}
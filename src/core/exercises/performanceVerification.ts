@@ -0,0 +1,234 @@
+/**
+ * Performance verification
+ *
+ * Scores, XP and league credit are issued by the submitPerformance Cloud
+ * Function from the raw notes the learner played. This module is shared by
+ * the app and the function (firebase/functions imports it), so both prepare
+ * the exercise the same way and agree on what a human can play:
+ *
+ * - prepareSubmittedExercise(): the exercise as it was practised (cat
+ *   ability assists, playback speed, hand, input method timing windows)
+ * - checkPerformancePlausibility(): rejects input before scoring
+ *   (superhuman note rates, identical timestamps, notes outside the exercise)
+ * - hasHumanTimingJitter(): rejects machine-perfect timing after scoring
+ *
+ * Submitted timestamps are ms from beat 0 after latency compensation, the
+ * frame scoreExerciseByType() takes.
+ */
+
+import type { Exercise, ExerciseScore, MidiNoteEvent, SustainPedalEvent } from './types';
+import { createTempoTimeline, scaleTempo, scaleTempoMap } from './tempoMap';
+import { splitHands } from './handPractice';
+import type { PracticeHand } from './handPractice';
+
+export type PerformanceInputMethod = 'midi' | 'touch' | 'mic';
+
+/** Speeds the player offers; anything else is rejected */
+export const PLAYBACK_SPEEDS: readonly number[] = [0.25, 0.5, 0.75, 1.0];
+
+/**
+ * Timing tolerance multiplier per input method.
+ * Mic detection has ~120ms pipeline latency — widen scoring windows accordingly.
+ */
+export const INPUT_TIMING_MULTIPLIERS: Record<PerformanceInputMethod, number> = {
+  midi: 1.0,
+  touch: 1.0,
+  mic: 1.5,
+};
+
+/** One run of an exercise as the player recorded it */
+export interface RecordedPerformance {
+  /** Note events in ms from beat 0, latency-compensated */
+  notes: MidiNoteEvent[];
+  pedalEvents: SustainPedalEvent[];
+  inputMethod: PerformanceInputMethod;
+}
+
+/**
+ * Cat ability effects that change what is scored. Within ASSIST_LIMITS the
+ * server takes them as sent; score and XP boosts are not verified and stay
+ * on the device.
+ */
+export interface PerformanceAssists {
+  tempoReductionBpm: number;
+  timingWindowMultiplier: number;
+}
+
+/** AbilityEngine caps cat abilities at these */
+export const ASSIST_LIMITS = {
+  maxTempoReductionBpm: 15,
+  maxTimingWindowMultiplier: 1.5,
+} as const;
+
+export const NO_ASSISTS: PerformanceAssists = { tempoReductionBpm: 0, timingWindowMultiplier: 1 };
+
+/** What the app sends to submitPerformance after an exercise */
+export interface PerformanceSubmission {
+  exerciseId: string;
+  exerciseVersion: number;
+  /** Note events in ms from beat 0, latency-compensated */
+  notes: MidiNoteEvent[];
+  pedalEvents?: SustainPedalEvent[];
+  playbackSpeed: number;
+  practiceHand: PracticeHand;
+  inputMethod: PerformanceInputMethod;
+  assists?: PerformanceAssists;
+  /** League to credit the XP to; ignored unless the learner is in it this week */
+  leagueId?: string;
+}
+
+export const PERFORMANCE_LIMITS = {
+  /** Both hands together, across any one-second window */
+  maxNotesPerSecond: 30,
+  /** A key can't be struck again faster than this */
+  minRepeatMs: 40,
+  /** Ten fingers */
+  maxSimultaneousNotes: 10,
+  /** Slack for early and late notes around the exercise, in ms */
+  edgeSlackMs: 3000,
+  /** Scored notes needed before timing jitter is judged */
+  jitterMinNotes: 8,
+  /** Spread of timing offsets below this is machine-made, in ms */
+  minTimingJitterMs: 1,
+} as const;
+
+// ============================================================================
+// Exercise preparation
+// ============================================================================
+
+/** Slow the tempo and widen the timing windows as the learner's cat abilities do */
+export function applyAssists(exercise: Exercise, assists: PerformanceAssists): Exercise {
+  let ex = exercise;
+  if (assists.tempoReductionBpm !== 0) {
+    const tempo = exercise.settings.tempo - assists.tempoReductionBpm;
+    ex = {
+      ...ex,
+      settings: {
+        ...ex.settings,
+        tempo,
+        tempoMap: scaleTempoMap(ex.settings, tempo / exercise.settings.tempo),
+      },
+    };
+  }
+  return applyTimingMultiplier(ex, assists.timingWindowMultiplier);
+}
+
+/**
+ * Scale tempo and timing windows by the playback speed. Without scaling the
+ * windows, slow practice is paradoxically harder: at 0.5x speed, msPerBeat
+ * doubles, so the same absolute ms tolerance is half the beat-fraction.
+ */
+export function applyPlaybackSpeed(exercise: Exercise, speed: number): Exercise {
+  if (speed === 1.0) return exercise;
+  const windowScale = 1 / speed; // e.g. 0.5x → 2x wider windows
+  return {
+    ...exercise,
+    settings: {
+      ...exercise.settings,
+      tempo: scaleTempo(exercise.settings.tempo, speed),
+      tempoMap: scaleTempoMap(exercise.settings, speed),
+    },
+    scoring: {
+      ...exercise.scoring,
+      timingToleranceMs: Math.round(exercise.scoring.timingToleranceMs * windowScale),
+      timingGracePeriodMs: Math.round(exercise.scoring.timingGracePeriodMs * windowScale),
+    },
+  };
+}
+
+/** Widen timing windows for inputs with latency jitter (see INPUT_TIMING_MULTIPLIERS) */
+export function applyTimingMultiplier(exercise: Exercise, multiplier: number): Exercise {
+  if (multiplier === 1.0) return exercise;
+  return {
+    ...exercise,
+    scoring: {
+      ...exercise.scoring,
+      timingToleranceMs: exercise.scoring.timingToleranceMs * multiplier,
+      timingGracePeriodMs: exercise.scoring.timingGracePeriodMs * multiplier,
+    },
+  };
+}
+
+/** The exercise as the submission practised it, ready for scoreExerciseByType() */
+export function prepareSubmittedExercise(
+  exercise: Exercise,
+  submission: Pick<PerformanceSubmission, 'playbackSpeed' | 'practiceHand' | 'inputMethod' | 'assists'>,
+): Exercise {
+  const assisted = applyAssists(exercise, submission.assists ?? NO_ASSISTS);
+  const sped = applyPlaybackSpeed(assisted, submission.playbackSpeed);
+  const { exercise: learnerPart } = splitHands(sped, submission.practiceHand);
+  return applyTimingMultiplier(learnerPart, INPUT_TIMING_MULTIPLIERS[submission.inputMethod]);
+}
+
+/** ms from beat 0 to the end of the last note */
+export function exerciseDurationMs(exercise: Exercise): number {
+  const endBeat = exercise.notes.reduce((end, n) => Math.max(end, n.startBeat + n.durationBeats), 0);
+  return createTempoTimeline(exercise.settings).beatToMs(endBeat);
+}
+
+// ============================================================================
+// Plausibility
+// ============================================================================
+
+/**
+ * Reason the notes can't come from a person playing `exercise` (as prepared
+ * by prepareSubmittedExercise), or null when they can.
+ */
+export function checkPerformancePlausibility(
+  exercise: Exercise,
+  notes: readonly MidiNoteEvent[],
+): string | null {
+  const limits = PERFORMANCE_LIMITS;
+  const noteOns = notes.filter((n) => n.type === 'noteOn');
+  if (noteOns.length === 0) return null;
+
+  const timeline = createTempoTimeline(exercise.settings);
+  const earliest = -timeline.spanMs(-exercise.settings.countIn, exercise.settings.countIn) - limits.edgeSlackMs;
+  const latest = exerciseDurationMs(exercise) + limits.edgeSlackMs;
+
+  const sorted = [...noteOns].sort((a, b) => a.timestamp - b.timestamp);
+  const lastStrike = new Map<number, number>();
+  let windowStart = 0;
+  let sameTimeCount = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const { note, timestamp } = sorted[i];
+    if (timestamp < earliest || timestamp > latest) {
+      return `Note at ${Math.round(timestamp)}ms is outside the exercise`;
+    }
+
+    const previous = lastStrike.get(note);
+    if (previous !== undefined) {
+      if (previous === timestamp) return `Note ${note} struck twice at the same time`;
+      if (timestamp - previous < limits.minRepeatMs) return `Note ${note} repeated faster than a key can be struck`;
+    }
+    lastStrike.set(note, timestamp);
+
+    sameTimeCount = i > 0 && sorted[i - 1].timestamp === timestamp ? sameTimeCount + 1 : 1;
+    if (sameTimeCount > limits.maxSimultaneousNotes) {
+      return `More than ${limits.maxSimultaneousNotes} notes at the same timestamp`;
+    }
+
+    while (timestamp - sorted[windowStart].timestamp >= 1000) windowStart++;
+    if (i - windowStart + 1 > limits.maxNotesPerSecond) {
+      return `More than ${limits.maxNotesPerSecond} notes in one second`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the timing of the correctly played notes varies the way a
+ * person's does. Generated input lands exactly on the beat.
+ */
+export function hasHumanTimingJitter(score: ExerciseScore): boolean {
+  const offsets = score.details
+    .filter((d) => d.played && d.isCorrectPitch && !d.isExtraNote)
+    .map((d) => d.timingOffsetMs);
+  if (offsets.length < PERFORMANCE_LIMITS.jitterMinNotes) return true;
+
+  const mean = offsets.reduce((sum, x) => sum + x, 0) / offsets.length;
+  const variance = offsets.reduce((sum, x) => sum + (x - mean) ** 2, 0) / offsets.length;
+  return Math.sqrt(variance) >= PERFORMANCE_LIMITS.minTimingJitterMs;
+}
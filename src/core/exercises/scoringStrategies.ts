@@ -5,7 +5,7 @@
  * Pure TypeScript — no React imports.
  */
 
-import { scoreExercise, calculateTimingScore, calculateDurationScore } from './ExerciseValidator';
+import { scoreExercise, calculateTimingScore, calculateDurationScore, withExtraWeight } from './ExerciseValidator';
 import type {
   Exercise,
   ExerciseScore,
@@ -13,8 +13,19 @@ import type {
   NoteEvent,
   NoteScore,
   ExerciseScoreBreakdown,
+  SustainPedalEvent,
 } from './types';
 import { getExerciseType } from './types';
+import {
+  DYNAMICS_WEIGHT,
+  calculateVelocityScore,
+  isDynamicsScored,
+  resolveTargetLevels,
+} from './dynamics';
+import { PEDAL_WEIGHT, calculatePedalBreakdown, isPedalScored, scorePedal } from './pedal';
+import { createTempoTimeline } from './tempoMap';
+import type { TempoTimeline } from './tempoMap';
+import { scoreChords } from './chordScoring';
 
 // ── Score weights (same as ExerciseValidator) ────────────────────────────
 const SCORE_WEIGHTS = {
@@ -48,7 +59,7 @@ type ScoreWeights = typeof SCORE_WEIGHTS;
 function matchNotesByTimeOnly(
   expectedNotes: NoteEvent[],
   playedNotes: MidiNoteEvent[],
-  tempoMs: number
+  timeline: TempoTimeline
 ): Map<number, MidiNoteEvent> {
   const matched = new Map<number, MidiNoteEvent>();
   const usedPlayedIndices = new Set<number>();
@@ -63,10 +74,9 @@ function matchNotesByTimeOnly(
     .map((n, i) => ({ n, i }))
     .sort((a, b) => a.n.timestamp - b.n.timestamp);
 
-  const maxTimeDistance = tempoMs * 1.5; // ±1.5 beats
-
   for (const { n: expected, i: expIdx } of sortedExpected) {
-    const expectedTimeMs = expected.startBeat * tempoMs;
+    const expectedTimeMs = timeline.beatToMs(expected.startBeat);
+    const maxTimeDistance = timeline.msPerBeatAt(expected.startBeat) * 1.5; // ±1.5 beats
 
     let bestMatch: { playedIdx: number; distance: number } | null = null;
 
@@ -92,7 +102,7 @@ function matchNotesByTimeOnly(
 
 /**
  * Build an ExerciseScore from scored note details.
- * Shared helper for non-standard scorers (rhythm).
+ * Shared helper for non-standard scorers (rhythm, chords).
  */
 function buildScoreFromNotes(
   exercise: Exercise,
@@ -100,17 +110,27 @@ function buildScoreFromNotes(
   totalExpected: number,
   previousHighScore: number,
   weights: ScoreWeights = SCORE_WEIGHTS,
+  pedalEvents: SustainPedalEvent[] = [],
 ): ExerciseScore {
-  // Calculate breakdown
-  const breakdown = calculateBreakdownFromNotes(noteScores, totalExpected);
+  // Calculate breakdown — dynamics only counts when the exercise opts in
+  const scoreDynamics = isDynamicsScored(exercise);
+  const breakdown = calculateBreakdownFromNotes(noteScores, totalExpected, scoreDynamics);
+  const noteWeights = withExtraWeight(weights, 'dynamics', scoreDynamics ? DYNAMICS_WEIGHT : 0);
+
+  // Pedal timing only counts when the exercise has pedal markings
+  const pedal = isPedalScored(exercise) ? scorePedal(exercise, pedalEvents) : null;
+  if (pedal) breakdown.pedal = calculatePedalBreakdown(pedal);
+  const finalWeights = withExtraWeight(noteWeights, 'pedal', pedal ? PEDAL_WEIGHT : 0);
 
   // Weighted overall score
   const overall =
-    breakdown.accuracy * weights.accuracy +
-    breakdown.timing * weights.timing +
-    breakdown.completeness * weights.completeness +
-    breakdown.extraNotes * weights.extraNotes +
-    breakdown.duration * weights.duration;
+    breakdown.accuracy * finalWeights.accuracy +
+    breakdown.timing * finalWeights.timing +
+    breakdown.completeness * finalWeights.completeness +
+    breakdown.extraNotes * finalWeights.extraNotes +
+    breakdown.duration * finalWeights.duration +
+    (breakdown.dynamics ?? 0) * finalWeights.dynamics +
+    (breakdown.pedal ?? 0) * finalWeights.pedal;
 
   // Stars
   const starThresholds = exercise.scoring.starThresholds;
@@ -135,6 +155,7 @@ function buildScoreFromNotes(
     stars,
     breakdown,
     details: noteScores,
+    ...(pedal && { pedalDetails: pedal.details }),
     missedNotes: noteScores.filter((n) => n.isMissedNote).length,
     extraNotes: noteScores.filter((n) => n.isExtraNote).length,
     perfectNotes: noteScores.filter((n) => n.isCorrectPitch && !n.isExtraNote && n.timingScore >= 90).length,
@@ -151,7 +172,8 @@ function buildScoreFromNotes(
  */
 function calculateBreakdownFromNotes(
   noteScores: NoteScore[],
-  totalExpected: number
+  totalExpected: number,
+  includeDynamics: boolean = false
 ): ExerciseScoreBreakdown {
   if (noteScores.length === 0 || totalExpected === 0) {
     return {
@@ -162,6 +184,7 @@ function calculateBreakdownFromNotes(
         ? 0
         : Math.max(0, 100 - noteScores.filter((n) => n.isExtraNote).length * 10),
       duration: 0,
+      ...(includeDynamics && { dynamics: 0 }),
     };
   }
 
@@ -188,12 +211,19 @@ function calculateBreakdownFromNotes(
         ) / expectedNoteScores.length
       : 0;
 
+  const dynamics =
+    expectedNoteScores.length > 0
+      ? expectedNoteScores.reduce((sum, n) => sum + (n.velocityScore ?? 0), 0) /
+        expectedNoteScores.length
+      : 0;
+
   return {
     accuracy: Math.round(accuracy),
     timing: Math.round(timing),
     completeness: Math.round(completeness),
     extraNotes: Math.round(extraNotes),
     duration: Math.round(duration),
+    ...(includeDynamics && { dynamics: Math.round(dynamics) }),
   };
 }
 
@@ -207,16 +237,18 @@ function calculateBreakdownFromNotes(
 export function scoreRhythmExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  const msPerBeat = (60 * 1000) / exercise.settings.tempo;
+  const timeline = createTempoTimeline(exercise.settings);
 
   // Wider timing tolerance for rhythm exercises
   const timingToleranceMs = Math.max(exercise.scoring.timingToleranceMs, 60);
   const timingGracePeriodMs = Math.max(exercise.scoring.timingGracePeriodMs, 160);
 
   // Match by time only (ignore pitch)
-  const matched = matchNotesByTimeOnly(exercise.notes, playedNotes, msPerBeat);
+  const matched = matchNotesByTimeOnly(exercise.notes, playedNotes, timeline);
+  const targetLevels = resolveTargetLevels(exercise);
   const usedPlayedIndices = new Set<number>();
   const noteScores: NoteScore[] = [];
 
@@ -227,7 +259,7 @@ export function scoreRhythmExercise(
 
     if (played) {
       usedPlayedIndices.add(playedNotes.indexOf(played));
-      const expectedTimeMs = expected.startBeat * msPerBeat;
+      const expectedTimeMs = timeline.beatToMs(expected.startBeat);
       const timingOffsetMs = played.timestamp - expectedTimeMs;
 
       const timingScore = calculateTimingScore(
@@ -236,8 +268,9 @@ export function scoreRhythmExercise(
         timingGracePeriodMs
       );
 
-      const expectedDurationMs = expected.durationBeats * msPerBeat;
+      const expectedDurationMs = timeline.spanMs(expected.startBeat, expected.durationBeats);
       const durationScore = calculateDurationScore(played.durationMs, expectedDurationMs);
+      const velocityScore = calculateVelocityScore(played, targetLevels[i]);
 
       noteScores.push({
         expected,
@@ -245,6 +278,7 @@ export function scoreRhythmExercise(
         timingOffsetMs,
         timingScore,
         durationScore,
+        velocityScore,
         isCorrectPitch: true, // Always true for rhythm — pitch doesn't matter
         isExtraNote: false,
         isMissedNote: false,
@@ -277,29 +311,43 @@ export function scoreRhythmExercise(
     }
   }
 
-  return buildScoreFromNotes(exercise, noteScores, exercise.notes.length, previousHighScore, RHYTHM_WEIGHTS);
+  return buildScoreFromNotes(
+    exercise,
+    noteScores,
+    exercise.notes.length,
+    previousHighScore,
+    RHYTHM_WEIGHTS,
+    pedalEvents
+  );
 }
 
 /**
- * Score a chord identification exercise: standard scoring but with
- * wider timing tolerance to account for pressing multiple keys.
+ * Score a chord identification exercise a chord at a time: simultaneous
+ * notes are grouped into chords, timing is judged against the chord's beat
+ * with wider windows for pressing several keys, and `scoring.anyVoicing`
+ * accepts any inversion or voicing. Per-chord results ("played Am instead
+ * of C") are returned in `chordDetails`.
  */
 export function scoreChordIdExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  // Create an adjusted exercise with wider timing windows for chords
-  const adjustedExercise: Exercise = {
-    ...exercise,
-    scoring: {
-      ...exercise.scoring,
-      timingToleranceMs: Math.max(exercise.scoring.timingToleranceMs, 100),
-      timingGracePeriodMs: Math.max(exercise.scoring.timingGracePeriodMs, 250),
-    },
-  };
+  const timeline = createTempoTimeline(exercise.settings);
+  const chords = scoreChords(exercise, playedNotes, timeline);
 
-  return scoreExercise(adjustedExercise, playedNotes, previousHighScore);
+  return {
+    ...buildScoreFromNotes(
+      exercise,
+      chords.noteScores,
+      exercise.notes.length,
+      previousHighScore,
+      SCORE_WEIGHTS,
+      pedalEvents
+    ),
+    chordDetails: chords.details,
+  };
 }
 
 /**
@@ -309,9 +357,10 @@ export function scoreChordIdExercise(
 export function scoreEarTrainingExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  return scoreExercise(exercise, playedNotes, previousHighScore);
+  return scoreExercise(exercise, playedNotes, previousHighScore, pedalEvents);
 }
 
 /**
@@ -321,9 +370,10 @@ export function scoreEarTrainingExercise(
 export function scoreSightReadingExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  return scoreExercise(exercise, playedNotes, previousHighScore);
+  return scoreExercise(exercise, playedNotes, previousHighScore, pedalEvents);
 }
 
 /**
@@ -333,9 +383,10 @@ export function scoreSightReadingExercise(
 export function scoreCallResponseExercise(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
-  return scoreExercise(exercise, playedNotes, previousHighScore);
+  return scoreExercise(exercise, playedNotes, previousHighScore, pedalEvents);
 }
 
 // ── Dispatcher ──────────────────────────────────────────────────────────
@@ -348,23 +399,24 @@ export function scoreCallResponseExercise(
 export function scoreExerciseByType(
   exercise: Exercise,
   playedNotes: MidiNoteEvent[],
-  previousHighScore: number = 0
+  previousHighScore: number = 0,
+  pedalEvents: SustainPedalEvent[] = []
 ): ExerciseScore {
   const type = getExerciseType(exercise);
 
   switch (type) {
     case 'rhythm':
-      return scoreRhythmExercise(exercise, playedNotes, previousHighScore);
+      return scoreRhythmExercise(exercise, playedNotes, previousHighScore, pedalEvents);
     case 'chordId':
-      return scoreChordIdExercise(exercise, playedNotes, previousHighScore);
+      return scoreChordIdExercise(exercise, playedNotes, previousHighScore, pedalEvents);
     case 'earTraining':
-      return scoreEarTrainingExercise(exercise, playedNotes, previousHighScore);
+      return scoreEarTrainingExercise(exercise, playedNotes, previousHighScore, pedalEvents);
     case 'sightReading':
-      return scoreSightReadingExercise(exercise, playedNotes, previousHighScore);
+      return scoreSightReadingExercise(exercise, playedNotes, previousHighScore, pedalEvents);
     case 'callResponse':
-      return scoreCallResponseExercise(exercise, playedNotes, previousHighScore);
+      return scoreCallResponseExercise(exercise, playedNotes, previousHighScore, pedalEvents);
     case 'play':
     default:
-      return scoreExercise(exercise, playedNotes, previousHighScore);
+      return scoreExercise(exercise, playedNotes, previousHighScore, pedalEvents);
   }
 }
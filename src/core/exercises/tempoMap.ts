@@ -0,0 +1,310 @@
+/**
+ * Tempo and meter maps — beat ↔ ms conversion and bar lines for exercises
+ * whose tempo or time signature changes part-way through
+ * Pure TypeScript - no React imports
+ *
+ * `settings.tempo` and `settings.timeSignature` are the opening values;
+ * `settings.tempoMap` / `settings.meterMap` list later changes. Exercises
+ * without maps behave exactly as before: one tempo, one bar length.
+ *
+ * Beats never change unit — they stay in the opening time signature's
+ * denominator — so a meter change only moves bar lines, and a tempo change
+ * only changes how long a beat lasts. Count-in beats (negative) always run
+ * at the opening tempo.
+ */
+
+import type { ExerciseSettings, MeterChange, TempoChange } from './types';
+
+export type TempoSettings = Pick<ExerciseSettings, 'tempo' | 'tempoMap'>;
+export type MeterSettings = Pick<ExerciseSettings, 'timeSignature' | 'meterMap'>;
+
+const EPSILON = 1e-6;
+
+// ---------------------------------------------------------------------------
+// Tempo
+// ---------------------------------------------------------------------------
+
+/** Beat ↔ ms conversion for one exercise; ms are relative to beat 0 */
+export interface TempoTimeline {
+  beatToMs(beat: number): number;
+  msToBeat(ms: number): number;
+  /** Instantaneous tempo (BPM) at a beat */
+  tempoAt(beat: number): number;
+  msPerBeatAt(beat: number): number;
+  /** Length in ms of a span of beats starting at `startBeat` */
+  spanMs(startBeat: number, beats: number): number;
+}
+
+interface TempoSegment {
+  beat: number;
+  ms: number;
+  tempo: number;
+  /** Tempo reached at endBeat — differs from `tempo` only for ramps */
+  endTempo: number;
+  endBeat: number;
+}
+
+/** Whether the exercise has any tempo changes after the opening tempo */
+export function hasTempoChanges(settings: TempoSettings): boolean {
+  return (settings.tempoMap?.length ?? 0) > 0;
+}
+
+/** Tempo points in beat order, starting with the opening tempo at beat 0 */
+function tempoPoints(settings: TempoSettings): TempoChange[] {
+  const points: TempoChange[] = [{ beat: 0, tempo: settings.tempo }];
+  const changes = [...(settings.tempoMap ?? [])]
+    .filter((c) => c.beat >= 0 && c.tempo > 0)
+    .sort((a, b) => a.beat - b.beat);
+  for (const change of changes) {
+    const last = points[points.length - 1];
+    // A change at the same beat replaces the previous point (e.g. a ramp starting at beat 0)
+    if (change.beat - last.beat < EPSILON) points[points.length - 1] = change;
+    else points.push(change);
+  }
+  return points;
+}
+
+/** Ms from the start of a segment to a beat inside it */
+function segmentMs(segment: TempoSegment, beat: number): number {
+  const beats = beat - segment.beat;
+  if (segment.endTempo === segment.tempo) return (beats * 60000) / segment.tempo;
+  // Tempo linear in beats: ms = ∫ 60000 / (t0 + k·b) db
+  const k = (segment.endTempo - segment.tempo) / (segment.endBeat - segment.beat);
+  return (60000 / k) * Math.log((segment.tempo + k * beats) / segment.tempo);
+}
+
+/** Inverse of segmentMs */
+function segmentBeat(segment: TempoSegment, ms: number): number {
+  if (segment.endTempo === segment.tempo) return segment.beat + (ms * segment.tempo) / 60000;
+  const k = (segment.endTempo - segment.tempo) / (segment.endBeat - segment.beat);
+  return segment.beat + (segment.tempo * (Math.exp((k * ms) / 60000) - 1)) / k;
+}
+
+export function createTempoTimeline(settings: TempoSettings): TempoTimeline {
+  const points = tempoPoints(settings);
+  const segments: TempoSegment[] = [];
+  let ms = 0;
+  points.forEach((point, i) => {
+    const next = points[i + 1];
+    const segment: TempoSegment = {
+      beat: point.beat,
+      ms,
+      tempo: point.tempo,
+      endTempo: point.ramp && next ? next.tempo : point.tempo,
+      endBeat: next?.beat ?? Infinity,
+    };
+    segments.push(segment);
+    if (next) ms += segmentMs(segment, next.beat);
+  });
+
+  const openingTempo = segments[0].tempo;
+
+  const segmentForBeat = (beat: number): TempoSegment => {
+    let found = segments[0];
+    for (const segment of segments) {
+      if (segment.beat <= beat) found = segment;
+      else break;
+    }
+    return found;
+  };
+
+  const tempoAt = (beat: number): number => {
+    if (beat <= 0) return openingTempo;
+    const segment = segmentForBeat(beat);
+    if (segment.endTempo === segment.tempo) return segment.tempo;
+    const progress = Math.min(1, (beat - segment.beat) / (segment.endBeat - segment.beat));
+    return segment.tempo + (segment.endTempo - segment.tempo) * progress;
+  };
+
+  const beatToMs = (beat: number): number => {
+    if (beat <= 0) return (beat * 60000) / openingTempo;
+    const segment = segmentForBeat(beat);
+    return segment.ms + segmentMs(segment, beat);
+  };
+
+  const msToBeat = (time: number): number => {
+    if (time <= 0) return (time * openingTempo) / 60000;
+    let found = segments[0];
+    for (const segment of segments) {
+      if (segment.ms <= time) found = segment;
+      else break;
+    }
+    return segmentBeat(found, time - found.ms);
+  };
+
+  return {
+    beatToMs,
+    msToBeat,
+    tempoAt,
+    msPerBeatAt: (beat) => 60000 / tempoAt(beat),
+    spanMs: (startBeat, beats) => beatToMs(startBeat + beats) - beatToMs(startBeat),
+  };
+}
+
+/** Tempo scaled by a speed factor, rounded to whole BPM */
+export function scaleTempo(tempo: number, factor: number): number {
+  return Math.round(tempo * factor);
+}
+
+/**
+ * Tempo map scaled by a speed factor (practice speed, tempo abilities). Entries
+ * round like the base tempo, so a mapped exercise and a plain one at the same
+ * tempo get the same timeline on the client and the server.
+ */
+export function scaleTempoMap(settings: TempoSettings, factor: number): TempoChange[] | undefined {
+  return settings.tempoMap?.map((change) => ({ ...change, tempo: scaleTempo(change.tempo, factor) }));
+}
+
+// ---------------------------------------------------------------------------
+// Meter
+// ---------------------------------------------------------------------------
+
+export interface MeterSpan {
+  beat: number;
+  timeSignature: [number, number];
+  /** Bar length in the exercise's beat unit */
+  beatsPerMeasure: number;
+}
+
+/** Meter spans in beat order, starting with the opening meter at beat 0 */
+export function meterSpans(settings: MeterSettings): MeterSpan[] {
+  const beatUnit = settings.timeSignature[1];
+  const toSpan = (beat: number, timeSignature: [number, number]): MeterSpan => ({
+    beat,
+    timeSignature,
+    beatsPerMeasure: (timeSignature[0] * beatUnit) / timeSignature[1],
+  });
+
+  const spans = [toSpan(0, settings.timeSignature)];
+  const changes = [...(settings.meterMap ?? [])].filter((c) => c.beat >= 0).sort((a, b) => a.beat - b.beat);
+  for (const change of changes) {
+    const span = toSpan(change.beat, change.timeSignature);
+    if (change.beat - spans[spans.length - 1].beat < EPSILON) spans[spans.length - 1] = span;
+    else spans.push(span);
+  }
+  return spans;
+}
+
+/** Meter in effect at a beat */
+export function meterAt(settings: MeterSettings, beat: number): MeterSpan {
+  const spans = meterSpans(settings);
+  let found = spans[0];
+  for (const span of spans) {
+    if (span.beat <= beat + EPSILON) found = span;
+    else break;
+  }
+  return found;
+}
+
+/**
+ * Beats where bars start, covering everything before `endBeat`, plus the
+ * closing bar line of the last bar.
+ */
+export function measureStartBeats(settings: MeterSettings, endBeat: number): number[] {
+  const spans = meterSpans(settings);
+  const starts: number[] = [];
+  let beat = 0;
+  let spanIndex = 0;
+  do {
+    while (spanIndex + 1 < spans.length && spans[spanIndex + 1].beat <= beat + EPSILON) spanIndex++;
+    starts.push(beat);
+    const next = beat + spans[spanIndex].beatsPerMeasure;
+    // A meter change cuts a bar short rather than being skipped over
+    const change = spans[spanIndex + 1];
+    beat = change && change.beat < next - EPSILON ? change.beat : next;
+  } while (beat < endBeat - EPSILON);
+  starts.push(beat);
+  return starts;
+}
+
+/** Whether a bar starts on this beat */
+export function isMeasureStart(settings: MeterSettings, beat: number): boolean {
+  if (beat < 0) return false;
+  const span = meterAt(settings, beat);
+  const offset = (beat - span.beat) % span.beatsPerMeasure;
+  return offset < EPSILON || span.beatsPerMeasure - offset < EPSILON;
+}
+
+// ---------------------------------------------------------------------------
+// Slicing (song sections) and validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Tempo and meter for a passage starting at `startBeat`, re-based so the
+ * passage starts at beat 0 — used when a song section becomes an exercise.
+ */
+export function tempoSettingsFrom(
+  settings: Pick<ExerciseSettings, 'tempo' | 'tempoMap' | 'timeSignature' | 'meterMap'>,
+  startBeat: number,
+): Pick<ExerciseSettings, 'tempo' | 'tempoMap' | 'meterMap'> {
+  if (startBeat <= 0) {
+    return { tempo: settings.tempo, tempoMap: settings.tempoMap, meterMap: settings.meterMap };
+  }
+
+  const timeline = createTempoTimeline(settings);
+  const tempo = Math.round(timeline.tempoAt(startBeat) * 100) / 100;
+  const tempoMap: TempoChange[] = (settings.tempoMap ?? [])
+    .filter((c) => c.beat > startBeat + EPSILON)
+    .map((c) => ({ ...c, beat: c.beat - startBeat }));
+  // Starting inside a ramp: keep gliding from the tempo reached so far
+  const inRamp = tempoPoints(settings).some(
+    (p, i, all) => p.ramp && i + 1 < all.length && p.beat < startBeat && all[i + 1].beat > startBeat + EPSILON,
+  );
+  if (inRamp) tempoMap.unshift({ beat: 0, tempo, ramp: true });
+
+  const meterMap: MeterChange[] = (settings.meterMap ?? [])
+    .filter((c) => c.beat > startBeat + EPSILON)
+    .map((c) => ({ ...c, beat: c.beat - startBeat }));
+  const meter = meterAt(settings, startBeat);
+  if (meter.beat > 0) meterMap.unshift({ beat: 0, timeSignature: meter.timeSignature });
+
+  return {
+    tempo,
+    tempoMap: tempoMap.length > 0 ? tempoMap : undefined,
+    meterMap: meterMap.length > 0 ? meterMap : undefined,
+  };
+}
+
+/** Validate tempo and meter maps; returns human-readable errors (empty if valid) */
+export function validateTempoMap(
+  settings: Pick<ExerciseSettings, 'tempo' | 'tempoMap' | 'timeSignature' | 'meterMap'>,
+): string[] {
+  const errors: string[] = [];
+
+  let previous = -Infinity;
+  (settings.tempoMap ?? []).forEach((change, i) => {
+    if (!(change.tempo > 0)) errors.push(`Tempo change ${i}: tempo must be positive`);
+    if (change.beat < 0) errors.push(`Tempo change ${i}: beat cannot be negative`);
+    if (change.beat <= previous) errors.push(`Tempo change ${i}: beats must be in increasing order`);
+    if (change.beat === 0 && change.tempo !== settings.tempo) {
+      errors.push(`Tempo change ${i}: a change at beat 0 must match settings.tempo`);
+    }
+    previous = change.beat;
+  });
+
+  previous = -Infinity;
+  const meterChanges = settings.meterMap ?? [];
+  meterChanges.forEach((change, i) => {
+    const [numerator, denominator] = change.timeSignature;
+    if (!Number.isInteger(numerator) || numerator < 1) {
+      errors.push(`Meter change ${i}: numerator must be a positive integer`);
+    }
+    if (![1, 2, 4, 8, 16, 32].includes(denominator)) {
+      errors.push(`Meter change ${i}: denominator must be a power of two`);
+    }
+    if (change.beat < 0) errors.push(`Meter change ${i}: beat cannot be negative`);
+    if (change.beat <= previous) errors.push(`Meter change ${i}: beats must be in increasing order`);
+    previous = change.beat;
+  });
+
+  // Each change must land on a bar line of the meter before it
+  if (errors.length === 0) {
+    meterChanges.forEach((change, i) => {
+      if (!isMeasureStart({ timeSignature: settings.timeSignature, meterMap: meterChanges.slice(0, i) }, change.beat)) {
+        errors.push(`Meter change ${i}: beat ${change.beat} is not on a bar line`);
+      }
+    });
+  }
+
+  return errors;
+}
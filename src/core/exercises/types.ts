@@ -6,6 +6,9 @@
 /** The 6 exercise interaction types */
 export type ExerciseType = 'play' | 'rhythm' | 'earTraining' | 'chordId' | 'sightReading' | 'callResponse';
 
+/** Dynamic markings, softest to loudest */
+export type DynamicMarking = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
 export interface NoteEvent {
   note: number; // MIDI note number (0-127)
   startBeat: number; // Beat position (float for subdivisions)
@@ -13,12 +16,53 @@ export interface NoteEvent {
   hand?: 'left' | 'right';
   finger?: 1 | 2 | 3 | 4 | 5;
   optional?: boolean; // Extra credit, not required for passing
+  dynamic?: DynamicMarking; // Applies to this note and all following notes until the next marking
+}
+
+/** Crescendo / diminuendo spanning a beat range */
+export interface Hairpin {
+  type: 'crescendo' | 'diminuendo';
+  startBeat: number;
+  endBeat: number;
+}
+
+/**
+ * Sustain pedal held over a beat range: press at startBeat, lift at endBeat.
+ * A legato pedal change is two markings where the second starts just after
+ * the first ends (e.g. endBeat 4, startBeat 4.25 — lift on the beat, catch
+ * the new harmony a moment later).
+ */
+export interface PedalMarking {
+  startBeat: number;
+  endBeat: number;
+}
+
+/**
+ * Tempo change at a beat, in the same BPM unit as ExerciseSettings.tempo.
+ * With `ramp`, the tempo glides linearly from here to the next change
+ * (ritardando / accelerando); otherwise it holds until the next change.
+ */
+export interface TempoChange {
+  beat: number;
+  tempo: number;
+  ramp?: boolean;
+}
+
+/**
+ * Time-signature change at a bar line. Beats keep the unit of the opening
+ * time signature's denominator, so 6/8 inside a 4/4 piece is a 3-beat bar.
+ */
+export interface MeterChange {
+  beat: number;
+  timeSignature: [number, number];
 }
 
 export interface ExerciseScoringConfig {
   timingToleranceMs: number; // ±ms for "perfect"
   timingGracePeriodMs: number; // ±ms for "good"
   passingScore: number; // 0-100
+  velocitySensitive?: boolean; // Opt in to dynamics scoring (requires velocity-capable input)
+  anyVoicing?: boolean; // chordId: accept any voicing or inversion of each chord
   starThresholds: [number, number, number]; // 1-star, 2-star, 3-star thresholds
 }
 
@@ -38,6 +82,8 @@ export interface ExerciseSettings {
   countIn: number; // Beats before start
   metronomeEnabled: boolean;
   loopEnabled?: boolean; // Allow looping for practice
+  tempoMap?: TempoChange[]; // Later tempo changes; `tempo` is the opening tempo
+  meterMap?: MeterChange[]; // Later meter changes; `timeSignature` is the opening meter
 }
 
 export interface CommonMistake {
@@ -74,6 +120,8 @@ export interface Exercise {
   hints: ExerciseHints;
   display?: DisplaySettings;
   hands?: 'left' | 'right' | 'both';
+  hairpins?: Hairpin[];
+  pedal?: PedalMarking[]; // Sustain pedal markings; pedal timing is scored when present
 }
 
 // Scored note details
@@ -83,7 +131,7 @@ export interface NoteScore {
   timingOffsetMs: number; // Negative = early, positive = late
   timingScore: number; // 0-100
   durationScore?: number; // 0-100 — how close to expected note duration
-  velocityScore?: number; // 0-100 (optional, for dynamics exercises)
+  velocityScore?: number; // 0-100 — how close to the target dynamic level
   isCorrectPitch: boolean;
   isExtraNote: boolean; // Played but not expected
   isMissedNote: boolean; // Expected but not played
@@ -96,6 +144,8 @@ export interface ExerciseScoreBreakdown {
   completeness: number; // % of notes attempted
   extraNotes: number; // Penalty for wrong notes (0-100)
   duration: number; // Average duration accuracy (0-100)
+  dynamics?: number; // Average dynamics accuracy (0-100), only for velocitySensitive exercises
+  pedal?: number; // Pedal timing accuracy (0-100), only for exercises with pedal markings
 }
 
 // Alias for backwards compatibility
@@ -109,6 +159,8 @@ export interface ExerciseScore {
   stars: 0 | 1 | 2 | 3;
   breakdown: ExerciseScoreBreakdown;
   details: NoteScore[];
+  pedalDetails?: PedalScore[]; // Per-marking pedal timing, only for exercises with pedal markings
+  chordDetails?: ChordScore[]; // Per-chord results, only for chordId exercises
   perfectNotes?: number;
   goodNotes?: number;
   okNotes?: number;
@@ -130,6 +182,31 @@ export interface MidiNoteEvent {
   inputSource?: 'touch' | 'midi' | 'mic'; // Origin of the event — used for latency compensation
 }
 
+// Sustain pedal (CC64) transitions, on the same clock as MidiNoteEvent
+export interface SustainPedalEvent {
+  type: 'pedalDown' | 'pedalUp';
+  timestamp: number;
+}
+
+// Scored pedal marking
+export interface PedalScore {
+  expected: PedalMarking;
+  downOffsetMs: number | null; // null = pedal never went down near startBeat
+  upOffsetMs: number | null; // null = pedal never lifted near endBeat
+  downScore: number; // 0-100
+  upScore: number; // 0-100
+}
+
+// Scored chord (chordId exercises)
+export interface ChordScore {
+  startBeat: number;
+  expected: string; // Chord symbol, e.g. "C", "Am/E"
+  played: string | null; // What was played at that beat; null = nothing
+  tonesMatched: number; // Chord tones played (any octave when anyVoicing)
+  tonesExpected: number;
+  isCorrect: boolean; // Every tone played and no wrong notes
+}
+
 // Progress tracking
 export interface ExerciseProgress {
   exerciseId: string;
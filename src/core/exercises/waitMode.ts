@@ -0,0 +1,97 @@
+/**
+ * Wait mode — the playhead stops at each note or chord until it is played
+ * Pure TypeScript - no React imports
+ *
+ * Required notes sharing a start beat form one stop. Played notes go to the
+ * first stop not yet cleared, wherever the playhead is, so a learner who
+ * plays on time never sees it stop. A pitch the stop doesn't need is a wrong
+ * note. Time spent waiting isn't judged, so the result is a pitch-only score
+ * and is kept apart from the timing-based high scores and stars.
+ */
+
+import type { NoteEvent } from './types';
+import { groupChords } from './chordScoring';
+
+export interface WaitStop {
+  beat: number;
+  /** Distinct MIDI pitches that must be played to move on */
+  pitches: number[];
+}
+
+export interface WaitModeState {
+  /** Index of the first stop not yet cleared (stops.length when finished) */
+  stopIndex: number;
+  /** Pitches of the current stop still to be played */
+  remaining: number[];
+  /** Wrong notes played at the current stop */
+  wrongAtStop: number;
+  /** Stops cleared without a wrong note */
+  cleanStops: number;
+  wrongNotes: number;
+}
+
+export interface WaitModeResult {
+  /** 0-100: expected notes as a share of everything pressed */
+  score: number;
+  notesHit: number;
+  wrongNotes: number;
+  cleanStops: number;
+  totalStops: number;
+}
+
+/** Stops for the exercise's required notes, in beat order */
+export function waitStops(notes: NoteEvent[]): WaitStop[] {
+  const required = notes.filter((n) => !n.optional);
+  return groupChords(required).map((group) => ({
+    beat: group.startBeat,
+    pitches: [...new Set(group.noteIndices.map((i) => required[i].note))].sort((a, b) => a - b),
+  }));
+}
+
+export function createWaitModeState(stops: WaitStop[]): WaitModeState {
+  return { stopIndex: 0, remaining: stops[0]?.pitches ?? [], wrongAtStop: 0, cleanStops: 0, wrongNotes: 0 };
+}
+
+/** State after a key press; presses after the last stop change nothing */
+export function applyWaitNote(state: WaitModeState, stops: WaitStop[], note: number): WaitModeState {
+  if (state.stopIndex >= stops.length) return state;
+  if (!state.remaining.includes(note)) {
+    // Repeating a tone of this stop that was already played isn't a mistake
+    if (stops[state.stopIndex].pitches.includes(note)) return state;
+    return { ...state, wrongAtStop: state.wrongAtStop + 1, wrongNotes: state.wrongNotes + 1 };
+  }
+
+  const remaining = state.remaining.filter((p) => p !== note);
+  if (remaining.length > 0) return { ...state, remaining };
+
+  const stopIndex = state.stopIndex + 1;
+  return {
+    stopIndex,
+    remaining: stops[stopIndex]?.pitches ?? [],
+    wrongAtStop: 0,
+    cleanStops: state.cleanStops + (state.wrongAtStop === 0 ? 1 : 0),
+    wrongNotes: state.wrongNotes,
+  };
+}
+
+/** Beat the playhead must not pass yet, or null once every stop is cleared */
+export function waitHoldBeat(state: WaitModeState, stops: WaitStop[]): number | null {
+  return stops[state.stopIndex]?.beat ?? null;
+}
+
+export function scoreWaitMode(state: WaitModeState, stops: WaitStop[]): WaitModeResult {
+  const cleared = stops.slice(0, state.stopIndex);
+  const current = stops[state.stopIndex];
+  const notesHit =
+    cleared.reduce((sum, stop) => sum + stop.pitches.length, 0) +
+    (current ? current.pitches.length - state.remaining.length : 0);
+  const totalNotes = stops.reduce((sum, stop) => sum + stop.pitches.length, 0);
+  const pressed = totalNotes + state.wrongNotes;
+  return {
+    score: pressed > 0 ? Math.round((notesHit / pressed) * 100) : 0,
+    notesHit,
+    wrongNotes: state.wrongNotes,
+    cleanStops: state.cleanStops,
+    totalStops: stops.length,
+  };
+}
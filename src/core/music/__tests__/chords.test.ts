@@ -0,0 +1,41 @@
+/**
+ * Chord identification tests — qualities, inversions, voicings
+ */
+
+import { chordLabel, identifyChord } from '../chords';
+
+describe('identifyChord', () => {
+  it('names root-position triads and sevenths', () => {
+    expect(identifyChord([60, 64, 67])?.name).toBe('C');
+    expect(identifyChord([57, 60, 64])?.name).toBe('Am');
+    expect(identifyChord([55, 59, 62, 65])?.name).toBe('G7');
+    expect(identifyChord([59, 62, 65])?.name).toBe('Bdim');
+    expect(identifyChord([60, 64, 67, 71])?.name).toBe('Cmaj7');
+  });
+
+  it('recognises inversions and open voicings', () => {
+    const firstInversion = identifyChord([64, 67, 72]);
+    expect(firstInversion).toMatchObject({ root: 0, quality: 'major', bass: 4, inversion: 1, name: 'C/E' });
+    expect(identifyChord([43, 52, 60, 64, 72])?.name).toBe('C/G');
+    expect(identifyChord([48, 55, 64, 72])?.name).toBe('C');
+  });
+
+  it('reads ambiguous sets from the bass', () => {
+    // C E G A: C6 or Am7/C — the bass decides, falling back to the Am7 reading
+    expect(identifyChord([57, 60, 64, 67])?.name).toBe('Am7');
+    expect(identifyChord([60, 64, 67, 69])?.name).toBe('Am7/C');
+  });
+
+  it('returns null for single notes and unknown clusters', () => {
+    expect(identifyChord([60])).toBeNull();
+    expect(identifyChord([60, 72])).toBeNull();
+    expect(identifyChord([60, 61, 62])).toBeNull();
+  });
+});
+
+describe('chordLabel', () => {
+  it('labels unknown note sets by their note names', () => {
+    expect(chordLabel([62, 60, 66])).toBe('C-D-F#');
+    expect(chordLabel([64, 60, 67])).toBe('C');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Fingering Suggestion Tests
+ *
+ * Scales, chords, both hands, and authored fingerings left in place.
+ */
+
+import { suggestFingerings } from '../fingering';
+import type { NoteEvent } from '../../exercises/types';
+
+const line = (notes: number[], hand?: 'left' | 'right'): NoteEvent[] =>
+  notes.map((note, i) => ({ note, startBeat: i, durationBeats: 1, ...(hand && { hand }) }));
+
+const fingers = (notes: NoteEvent[]) => notes.map((n) => n.finger);
+
+describe('suggestFingerings', () => {
+  it('fingers a five-finger position in the right hand', () => {
+    expect(fingers(suggestFingerings(line([60, 62, 64, 65, 67], 'right')))).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('mirrors the position in the left hand', () => {
+    expect(fingers(suggestFingerings(line([48, 50, 52, 53, 55], 'left')))).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('passes the thumb under for a one-octave C major scale', () => {
+    expect(fingers(suggestFingerings(line([60, 62, 64, 65, 67, 69, 71, 72], 'right')))).toEqual([
+      1, 2, 3, 1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it('fingers a root-position triad thumb, middle, little', () => {
+    const chord: NoteEvent[] = [64, 60, 67].map((note) => ({ note, startBeat: 0, durationBeats: 2, hand: 'right' }));
+    const result = suggestFingerings(chord);
+    expect(result.map((n) => [n.note, n.finger])).toEqual([
+      [64, 3],
+      [60, 1],
+      [67, 5],
+    ]);
+  });
+
+  it('never changes an authored finger and fits the rest around it', () => {
+    const notes = line([60, 62, 64, 65, 67], 'right');
+    notes[2] = { ...notes[2], finger: 2 };
+    const result = suggestFingerings(notes);
+    expect(result[2]).toBe(notes[2]);
+    // The thumb tucks under on D so 2 can land on E, and the hand stays there
+    expect(fingers(result)).toEqual([2, 1, 2, 3, 4]);
+  });
+
+  it('returns the input untouched when every note is fingered', () => {
+    const notes = line([60, 62], 'right').map((n, i) => ({ ...n, finger: ([1, 2] as const)[i] }));
+    expect(suggestFingerings(notes)).toBe(notes);
+  });
+
+  it('splits unassigned notes at middle C unless a hand is given', () => {
+    const notes = line([48, 72]);
+    expect(suggestFingerings(notes).map((n) => n.finger)).toEqual([1, 1]);
+    expect(suggestFingerings(line([60, 62, 64]), { defaultHand: 'left' }).map((n) => n.finger)).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Standard MIDI File parser tests — header, running status, meta events, tempo map
+ */
+
+import { keySignatureName, parseMidiFile, ticksToSeconds } from '../midiFile';
+import type { MidiFile } from '../midiFile';
+
+// ---------------------------------------------------------------------------
+// SMF builders
+// ---------------------------------------------------------------------------
+
+function varLen(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+}
+
+function chunk(type: string, body: number[]): number[] {
+  const len = body.length;
+  return [...type].map((c) => c.charCodeAt(0))
+    .concat([(len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff], body);
+}
+
+/** Track body from [deltaTicks, ...eventBytes] rows, terminated with End of Track */
+function track(events: number[][]): number[] {
+  const body = events.flatMap(([delta, ...bytes]) => [...varLen(delta), ...bytes]);
+  return chunk('MTrk', [...body, 0x00, 0xff, 0x2f, 0x00]);
+}
+
+function smf(format: number, ticksPerQuarter: number, tracks: number[][]): Uint8Array {
+  const header = chunk('MThd', [0, format, 0, tracks.length, ticksPerQuarter >> 8, ticksPerQuarter & 0xff]);
+  return new Uint8Array([...header, ...tracks.flat()]);
+}
+
+function expectSuccess(result: ReturnType<typeof parseMidiFile>): MidiFile {
+  expect(result).not.toHaveProperty('error');
+  return result as MidiFile;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('parseMidiFile', () => {
+  it('parses a format 0 file with paired note on/off', () => {
+    const midi = expectSuccess(
+      parseMidiFile(
+        smf(0, 480, [
+          track([
+            [0, 0x90, 60, 100],
+            [480, 0x80, 60, 0],
+            [0, 0x90, 64, 90],
+            [240, 0x80, 64, 0],
+          ]),
+        ]),
+      ),
+    );
+
+    expect(midi.format).toBe(0);
+    expect(midi.ticksPerQuarter).toBe(480);
+    expect(midi.tracks[0].notes).toEqual([
+      { note: 60, velocity: 100, channel: 0, startTick: 0, durationTicks: 480 },
+      { note: 64, velocity: 90, channel: 0, startTick: 480, durationTicks: 240 },
+    ]);
+  });
+
+  it('handles running status and note-on with velocity 0 as note-off', () => {
+    const midi = expectSuccess(
+      parseMidiFile(
+        smf(0, 96, [
+          track([
+            [0, 0x91, 60, 80],
+            [96, 60, 0], // running status, velocity 0
+            [0, 62, 80],
+            [48, 62, 0],
+          ]),
+        ]),
+      ),
+    );
+
+    expect(midi.tracks[0].notes.map((n) => [n.note, n.channel, n.startTick, n.durationTicks])).toEqual([
+      [60, 1, 0, 96],
+      [62, 1, 96, 48],
+    ]);
+  });
+
+  it('reads tempo, time signature, key signature and track names across format 1 tracks', () => {
+    const conductor = track([
+      [0, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20], // 500000 µs = 120 BPM
+      [0, 0xff, 0x58, 0x04, 0x03, 0x02, 24, 8], // 3/4
+      [0, 0xff, 0x59, 0x02, 0x01, 0x00], // G major
+      [1440, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40], // 1000000 µs = 60 BPM
+    ]);
+    const piano = track([
+      [0, 0xff, 0x03, 0x05, ...[...'Piano'].map((c) => c.charCodeAt(0))],
+      [0, 0x90, 67, 100],
+      [480, 0x80, 67, 0],
+    ]);
+    const midi = expectSuccess(parseMidiFile(smf(1, 480, [conductor, piano])));
+
+    expect(midi.tracks).toHaveLength(2);
+    expect(midi.tracks[1].name).toBe('Piano');
+    expect(midi.tempoMap.map((t) => [t.tick, t.bpm])).toEqual([
+      [0, 120],
+      [1440, 60],
+    ]);
+    expect(midi.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 4 }]);
+    expect(midi.keySignatures).toEqual([{ tick: 0, key: 'G' }]);
+  });
+
+  it('defaults to 120 BPM and 4/4 when the file has no meta events', () => {
+    const midi = expectSuccess(parseMidiFile(smf(0, 480, [track([[0, 0x90, 60, 100], [480, 0x80, 60, 0]])])));
+    expect(midi.tempoMap).toEqual([{ tick: 0, microsecondsPerQuarter: 500000, bpm: 120 }]);
+    expect(midi.timeSignatures).toEqual([{ tick: 0, numerator: 4, denominator: 4 }]);
+  });
+
+  it('skips controller, program change and sysex events', () => {
+    const midi = expectSuccess(
+      parseMidiFile(
+        smf(0, 480, [
+          track([
+            [0, 0xc0, 0],
+            [0, 0xb0, 64, 127],
+            [0, 0xf0, 0x03, 0x7e, 0x7f, 0xf7],
+            [0, 0x90, 60, 100],
+            [480, 0x80, 60, 0],
+          ]),
+        ]),
+      ),
+    );
+    expect(midi.tracks[0].notes).toHaveLength(1);
+  });
+
+  it('closes notes left sounding at the end of the track', () => {
+    const midi = expectSuccess(parseMidiFile(smf(0, 480, [track([[0, 0x90, 60, 100], [960, 0xb0, 1, 0]])])));
+    expect(midi.tracks[0].notes[0].durationTicks).toBe(960);
+  });
+
+  it('rejects files that are not format 0/1 SMF', () => {
+    expect(parseMidiFile(new Uint8Array([1, 2, 3]))).toHaveProperty('error');
+    expect(parseMidiFile(new TextEncoder().encode('RIFF0000WAVEfmt '))).toHaveProperty('error');
+    expect(parseMidiFile(smf(2, 480, [track([])]))).toHaveProperty('error');
+  });
+
+  it('reports truncated files instead of throwing', () => {
+    const bytes = smf(0, 480, [track([[0, 0x90, 60, 100], [480, 0x80, 60, 0]])]);
+    const result = parseMidiFile(bytes.slice(0, bytes.length - 6));
+    expect(result).toHaveProperty('error');
+  });
+});
+
+describe('keySignatureName', () => {
+  it('maps sharps/flats and mode to a key name', () => {
+    expect(keySignatureName(0, false)).toBe('C');
+    expect(keySignatureName(-3, false)).toBe('Eb');
+    expect(keySignatureName(1, true)).toBe('Em');
+    expect(keySignatureName(-1, true)).toBe('Dm');
+  });
+});
+
+describe('ticksToSeconds', () => {
+  it('follows tempo changes', () => {
+    const midi = {
+      ticksPerQuarter: 480,
+      tempoMap: [
+        { tick: 0, microsecondsPerQuarter: 500000, bpm: 120 },
+        { tick: 960, microsecondsPerQuarter: 1000000, bpm: 60 },
+      ],
+    };
+    expect(ticksToSeconds(960, midi)).toBeCloseTo(1);
+    expect(ticksToSeconds(1440, midi)).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Standard MIDI File writer tests — round-trips through parseMidiFile
+ */
+
+import { parseMidiFile, ticksToSeconds } from '../midiFile';
+import type { MidiFile } from '../midiFile';
+import {
+  exerciseToMidiFile,
+  exerciseToMidiTracks,
+  performanceToMidiFile,
+  performanceToMidiTrack,
+  writeMidiFile,
+} from '../midiWriter';
+import type { Exercise, MidiNoteEvent } from '../../exercises/types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parse(bytes: Uint8Array): MidiFile {
+  const result = parseMidiFile(bytes);
+  expect(result).not.toHaveProperty('error');
+  return result as MidiFile;
+}
+
+function makeExercise(overrides: Partial<Exercise> = {}): Exercise {
+  return {
+    id: 'test-export',
+    version: 1,
+    metadata: {
+      title: 'Export Test',
+      description: '',
+      difficulty: 1,
+      estimatedMinutes: 1,
+      skills: [],
+      prerequisites: [],
+    },
+    settings: { tempo: 60, timeSignature: [4, 4], keySignature: 'G', countIn: 4, metronomeEnabled: true },
+    notes: [
+      { note: 67, startBeat: 0, durationBeats: 1, hand: 'right' },
+      { note: 71, startBeat: 1, durationBeats: 2, hand: 'right' },
+      { note: 43, startBeat: 0, durationBeats: 4, hand: 'left' },
+    ],
+    scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [70, 85, 95] },
+    hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+    ...overrides,
+  };
+}
+
+function noteOn(note: number, timestamp: number, extra: Partial<MidiNoteEvent> = {}): MidiNoteEvent {
+  return { type: 'noteOn', note, velocity: 80, timestamp, channel: 0, ...extra };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('writeMidiFile', () => {
+  it('round-trips notes, tempo, meter, key and track names', () => {
+    const bytes = writeMidiFile({
+      title: 'Round Trip',
+      ticksPerQuarter: 96,
+      tempoMap: [
+        { tick: 0, microsecondsPerQuarter: 500000, bpm: 120 },
+        { tick: 384, microsecondsPerQuarter: 1000000, bpm: 60 },
+      ],
+      timeSignatures: [{ tick: 0, numerator: 3, denominator: 8 }],
+      keySignatures: [{ tick: 0, key: 'Ebm' }],
+      tracks: [
+        {
+          name: 'Melody',
+          notes: [
+            { note: 60, velocity: 100, channel: 0, startTick: 0, durationTicks: 96 },
+            { note: 62, velocity: 64, channel: 0, startTick: 96, durationTicks: 200 },
+          ],
+        },
+      ],
+    });
+    const midi = parse(bytes);
+
+    expect(midi.format).toBe(1);
+    expect(midi.ticksPerQuarter).toBe(96);
+    expect(midi.tracks.map((t) => t.name)).toEqual(['Round Trip', 'Melody']);
+    expect(midi.tracks[1].notes).toEqual([
+      { note: 60, velocity: 100, channel: 0, startTick: 0, durationTicks: 96 },
+      { note: 62, velocity: 64, channel: 0, startTick: 96, durationTicks: 200 },
+    ]);
+    expect(midi.tempoMap.map((t) => [t.tick, t.bpm])).toEqual([
+      [0, 120],
+      [384, 60],
+    ]);
+    expect(midi.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 8 }]);
+    expect(midi.keySignatures).toEqual([{ tick: 0, key: 'Ebm' }]);
+  });
+
+  it('releases a repeated note before striking it again on the same tick', () => {
+    const bytes = writeMidiFile({
+      ticksPerQuarter: 480,
+      tempoMap: [{ tick: 0, microsecondsPerQuarter: 500000, bpm: 120 }],
+      timeSignatures: [],
+      keySignatures: [],
+      tracks: [
+        {
+          name: '',
+          notes: [
+            { note: 60, velocity: 90, channel: 0, startTick: 0, durationTicks: 480 },
+            { note: 60, velocity: 90, channel: 0, startTick: 480, durationTicks: 480 },
+          ],
+        },
+      ],
+    });
+    expect(parse(bytes).tracks[1].notes.map((n) => [n.startTick, n.durationTicks])).toEqual([
+      [0, 480],
+      [480, 480],
+    ]);
+  });
+
+  it('encodes long deltas as multi-byte variable-length quantities', () => {
+    const bytes = writeMidiFile({
+      ticksPerQuarter: 480,
+      tempoMap: [],
+      timeSignatures: [],
+      keySignatures: [],
+      tracks: [{ name: '', notes: [{ note: 72, velocity: 90, channel: 3, startTick: 200000, durationTicks: 20000 }] }],
+    });
+    expect(parse(bytes).tracks[1].notes[0]).toEqual({
+      note: 72,
+      velocity: 90,
+      channel: 3,
+      startTick: 200000,
+      durationTicks: 20000,
+    });
+  });
+});
+
+describe('exerciseToMidiTracks', () => {
+  it('splits hands into separate tracks', () => {
+    const tracks = exerciseToMidiTracks(makeExercise(), 480);
+    expect(tracks.map((t) => t.name)).toEqual(['Right Hand', 'Left Hand']);
+    expect(tracks[0].notes.map((n) => [n.note, n.startTick, n.durationTicks])).toEqual([
+      [67, 0, 480],
+      [71, 480, 960],
+    ]);
+  });
+
+  it('scales velocity with dynamics and writes pedal markings as CC64', () => {
+    const exercise = makeExercise({
+      notes: [
+        { note: 60, startBeat: 0, durationBeats: 1, dynamic: 'pp' },
+        { note: 62, startBeat: 1, durationBeats: 1, dynamic: 'ff' },
+      ],
+      pedal: [{ startBeat: 0, endBeat: 2 }],
+    });
+    const [track] = exerciseToMidiTracks(exercise, 480);
+    expect(track.name).toBe('Piano');
+    expect(track.notes[0].velocity).toBeLessThan(track.notes[1].velocity);
+    expect(track.sustain).toEqual([
+      { tick: 0, down: true },
+      { tick: 960, down: false },
+    ]);
+  });
+
+  it('counts beats in the time signature denominator', () => {
+    const exercise = makeExercise({
+      settings: { tempo: 120, timeSignature: [6, 8], keySignature: 'C', countIn: 6, metronomeEnabled: true },
+      notes: [{ note: 60, startBeat: 3, durationBeats: 1 }],
+    });
+    expect(exerciseToMidiTracks(exercise, 480)[0].notes[0]).toMatchObject({ startTick: 720, durationTicks: 240 });
+  });
+});
+
+describe('performanceToMidiTrack', () => {
+  it('converts milliseconds to ticks from the first event', () => {
+    const track = performanceToMidiTrack([noteOn(60, 1000, { durationMs: 500 }), noteOn(64, 1500, { velocity: 30 })], {
+      bpm: 120,
+      ticksPerQuarter: 480,
+    });
+    expect(track.notes).toEqual([
+      { note: 60, velocity: 80, channel: 0, startTick: 0, durationTicks: 480 },
+      { note: 64, velocity: 30, channel: 0, startTick: 480, durationTicks: 240 },
+    ]);
+  });
+
+  it('pairs noteOff events when there is no durationMs', () => {
+    const track = performanceToMidiTrack(
+      [noteOn(60, 0), { type: 'noteOff', note: 60, velocity: 0, timestamp: 1000, channel: 0 }],
+      { bpm: 60, ticksPerQuarter: 480 },
+    );
+    expect(track.notes).toHaveLength(1);
+    expect(track.notes[0].durationTicks).toBe(480);
+  });
+
+  it('clamps events before the origin to tick 0 and maps pedal transitions', () => {
+    const track = performanceToMidiTrack([noteOn(60, -40, { durationMs: 500 })], {
+      bpm: 60,
+      ticksPerQuarter: 480,
+      originMs: 0,
+      pedal: [
+        { type: 'pedalDown', timestamp: 0 },
+        { type: 'pedalUp', timestamp: 2000 },
+      ],
+    });
+    expect(track.notes[0].startTick).toBe(0);
+    expect(track.sustain).toEqual([
+      { tick: 0, down: true },
+      { tick: 960, down: false },
+    ]);
+  });
+});
+
+describe('exerciseToMidiFile', () => {
+  it('writes the exercise, with the take on the same grid', () => {
+    const bytes = exerciseToMidiFile(makeExercise(), {
+      notes: [noteOn(67, 20, { durationMs: 900 }), noteOn(71, 1010, { durationMs: 1900 })],
+    });
+    const midi = parse(bytes);
+
+    expect(midi.tracks.map((t) => t.name)).toEqual(['Export Test', 'Right Hand', 'Left Hand', 'Performance']);
+    expect(midi.tempoMap[0].bpm).toBe(60);
+    expect(midi.keySignatures).toEqual([{ tick: 0, key: 'G' }]);
+    expect(midi.tracks[3].notes.map((n) => n.startTick)).toEqual([10, 485]);
+  });
+
+  it('writes tempo and meter maps, stepping ramps beat by beat', () => {
+    const exercise = makeExercise({
+      settings: {
+        ...makeExercise().settings,
+        tempoMap: [
+          { beat: 2, tempo: 60, ramp: true },
+          { beat: 4, tempo: 120 },
+        ],
+        meterMap: [{ beat: 4, timeSignature: [3, 4] }],
+      },
+    });
+    // Beats 0-2 take 2s, the ramp to 120 takes 2000·ln2 ms, then 500ms per beat
+    const rampEnd = 2000 + 2000 * Math.LN2;
+    const midi = parse(exerciseToMidiFile(exercise, { notes: [noteOn(67, Math.round(rampEnd + 500))] }));
+
+    expect(midi.tempoMap.map((t) => t.tick)).toEqual([0, 960, 1440, 1920]);
+    expect(midi.tempoMap[3].bpm).toBeCloseTo(120, 3);
+    expect(ticksToSeconds(1920, midi) * 1000).toBeCloseTo(rampEnd, 0);
+    expect(midi.timeSignatures).toEqual([
+      { tick: 0, numerator: 4, denominator: 4 },
+      { tick: 1920, numerator: 3, denominator: 4 },
+    ]);
+    expect(midi.tracks[3].notes[0].startTick).toBe(2400);
+  });
+});
+
+describe('performanceToMidiFile', () => {
+  it('writes a free-play recording at 120 BPM by default', () => {
+    const midi = parse(performanceToMidiFile([noteOn(60, 5000, { durationMs: 250 }), noteOn(62, 5500)], { title: 'Loop' }));
+    expect(midi.tempoMap[0].bpm).toBe(120);
+    expect(midi.tracks[1].notes.map((n) => [n.note, n.startTick, n.durationTicks])).toEqual([
+      [60, 0, 240],
+      [62, 480, 240],
+    ]);
+  });
+});
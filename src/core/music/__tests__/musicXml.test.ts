@@ -0,0 +1,148 @@
+/**
+ * MusicXML parser tests — grand staff, chords, backup, ties, tuplets, grace notes
+ */
+
+import { parseMusicXml, pitchToMidi } from '../musicXml';
+import type { MusicXmlScore } from '../musicXml';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function score(parts: string, partList = '<score-part id="P1"><part-name>Piano</part-name></score-part>'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <work><work-title>Test Piece</work-title></work>
+  <identification><creator type="composer">A. Composer</creator></identification>
+  <part-list>${partList}</part-list>
+  ${parts}
+</score-partwise>`;
+}
+
+function note(step: string, octave: number, duration: number, extra = ''): string {
+  return `<note><pitch><step>${step}</step><octave>${octave}</octave></pitch><duration>${duration}</duration>${extra}</note>`;
+}
+
+const GRAND_STAFF = score(`
+  <part id="P1">
+    <measure number="1">
+      <attributes>
+        <divisions>2</divisions>
+        <key><fifths>1</fifths><mode>major</mode></key>
+        <time><beats>3</beats><beat-type>4</beat-type></time>
+        <staves>2</staves>
+      </attributes>
+      <direction><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>90</per-minute></metronome></direction-type></direction>
+      ${note('G', 4, 2, '<voice>1</voice><staff>1</staff><notations><technical><fingering>1</fingering></technical></notations>')}
+      ${note('B', 4, 2, '<chord/><voice>1</voice><staff>1</staff><notations><technical><fingering>3</fingering></technical></notations>')}
+      ${note('A', 4, 4, '<voice>1</voice><staff>1</staff>')}
+      <backup><duration>6</duration></backup>
+      ${note('G', 2, 6, '<voice>5</voice><staff>2</staff>')}
+    </measure>
+    <measure number="2">
+      <barline location="left"><repeat direction="forward"/></barline>
+      <direction><direction-type><rehearsal>A</rehearsal></direction-type><sound tempo="60"/></direction>
+      ${note('F', 4, 2, '<accidental>sharp</accidental><voice>1</voice><staff>1</staff>').replace('<step>F</step>', '<step>F</step><alter>1</alter>')}
+      ${note('G', 4, 4, '<voice>1</voice><staff>1</staff><tie type="start"/>')}
+      <barline location="right"><repeat direction="backward"/></barline>
+    </measure>
+    <measure number="3">
+      ${note('G', 4, 2, '<voice>1</voice><staff>1</staff><tie type="stop"/>')}
+      <note><grace/><pitch><step>D</step><octave>5</octave></pitch><voice>1</voice><staff>1</staff></note>
+      <note><rest/><duration>4</duration><voice>1</voice><staff>1</staff></note>
+    </measure>
+  </part>`);
+
+function parse(source: string): MusicXmlScore {
+  const result = parseMusicXml(source);
+  expect(result).not.toHaveProperty('error');
+  return result as MusicXmlScore;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('pitchToMidi', () => {
+  it('converts step, octave and alter', () => {
+    expect(pitchToMidi('C', 4)).toBe(60);
+    expect(pitchToMidi('A', 0)).toBe(21);
+    expect(pitchToMidi('F', 4, 1)).toBe(66);
+    expect(pitchToMidi('B', 3, -1)).toBe(58);
+  });
+});
+
+describe('parseMusicXml', () => {
+  it('reads metadata, key, meter and tempo', () => {
+    const result = parse(GRAND_STAFF);
+    expect(result.title).toBe('Test Piece');
+    expect(result.composer).toBe('A. Composer');
+    expect(result.key).toBe('G');
+    expect(result.timeSignatures).toEqual([{ measureIndex: 0, numerator: 3, denominator: 4 }]);
+    expect(result.tempoMap).toEqual([
+      { startQuarter: 0, bpm: 90 },
+      { startQuarter: 3, bpm: 60 },
+    ]);
+    expect(result.parts[0]).toMatchObject({ id: 'P1', name: 'Piano', staves: 2 });
+  });
+
+  it('places chords and backed-up voices at the right positions', () => {
+    const notes = parse(GRAND_STAFF).parts[0].notes.filter((n) => n.measureIndex === 0);
+    expect(notes.map((n) => [n.note, n.startQuarter, n.durationQuarters, n.staff])).toEqual([
+      [43, 0, 3, 2],
+      [67, 0, 1, 1],
+      [71, 0, 1, 1],
+      [69, 1, 2, 1],
+    ]);
+    expect(notes.find((n) => n.note === 71)?.finger).toBe(3);
+  });
+
+  it('merges ties across bar lines and drops grace notes with warnings', () => {
+    const result = parse(GRAND_STAFF);
+    const later = result.parts[0].notes.filter((n) => n.measureIndex > 0);
+    expect(later.map((n) => [n.note, n.startQuarter, n.durationQuarters])).toEqual([
+      [66, 3, 1],
+      [67, 4, 3],
+    ]);
+    expect(result.warnings).toEqual(expect.arrayContaining(['Merged 1 tied note(s)', 'Dropped 1 grace note(s)']));
+  });
+
+  it('records measures with rehearsal marks and repeats', () => {
+    const { measures } = parse(GRAND_STAFF);
+    expect(measures.map((m) => [m.number, m.startQuarter, m.durationQuarters])).toEqual([
+      ['1', 0, 3],
+      ['2', 3, 3],
+      ['3', 6, 3],
+    ]);
+    expect(measures[1]).toMatchObject({ rehearsal: 'A', repeatForward: true, repeatBackward: true });
+  });
+
+  it('keeps exact tuplet lengths and reports them', () => {
+    const triplet = '<time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>';
+    const result = parse(
+      score(`<part id="P1"><measure number="1">
+        <attributes><divisions>3</divisions></attributes>
+        ${note('C', 4, 1, triplet)}${note('D', 4, 1, triplet)}${note('E', 4, 1, triplet)}
+      </measure></part>`),
+    );
+    expect(result.parts[0].notes.map((n) => n.startQuarter)).toEqual([0, 1 / 3, 2 / 3]);
+    expect(result.warnings.some((w) => w.includes('tuplet'))).toBe(true);
+  });
+
+  it('uses the nominal bar length for empty measures', () => {
+    const result = parse(
+      score(`<part id="P1">
+        <measure number="1"><attributes><divisions>1</divisions><time><beats>6</beats><beat-type>8</beat-type></time></attributes></measure>
+        <measure number="2">${note('C', 4, 1)}</measure>
+      </part>`),
+    );
+    expect(result.measures[1].startQuarter).toBe(3);
+  });
+
+  it('rejects non-partwise documents', () => {
+    expect(parseMusicXml('<score-timewise/>')).toHaveProperty('error');
+    expect(parseMusicXml('<html/>')).toHaveProperty('error');
+    expect(parseMusicXml('<score-partwise>')).toHaveProperty('error');
+    expect(parseMusicXml('<score-partwise/>')).toHaveProperty('error');
+  });
+});
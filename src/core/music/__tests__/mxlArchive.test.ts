@@ -0,0 +1,90 @@
+/**
+ * Compressed MusicXML (.mxl) reader tests
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { decodeUtf8, isZipArchive, readMxlArchive } from '../mxlArchive';
+
+// ---------------------------------------------------------------------------
+// ZIP builder (CRCs are left at 0 — the reader doesn't check them)
+// ---------------------------------------------------------------------------
+
+interface Entry {
+  path: string;
+  content: string;
+  deflate?: boolean;
+}
+
+const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+const u32 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+const utf8 = (s: string) => [...Buffer.from(s, 'utf8')];
+
+function zip(entries: Entry[]): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  for (const entry of entries) {
+    const raw = Buffer.from(entry.content, 'utf8');
+    const data = [...(entry.deflate ? deflateRawSync(raw) : raw)];
+    const name = utf8(entry.path);
+    const method = entry.deflate ? 8 : 0;
+    const offset = local.length;
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(method), ...u16(0), ...u16(0), ...u32(0));
+    local.push(...u32(data.length), ...u32(raw.length), ...u16(name.length), ...u16(0), ...name, ...data);
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(method), ...u16(0), ...u16(0));
+    central.push(...u32(0), ...u32(data.length), ...u32(raw.length), ...u16(name.length), ...u16(0), ...u16(0));
+    central.push(...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...name);
+  }
+  const eocd = [
+    ...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(entries.length), ...u16(entries.length),
+    ...u32(central.length), ...u32(local.length), ...u16(0),
+  ];
+  return new Uint8Array([...local, ...central, ...eocd]);
+}
+
+const CONTAINER = `<?xml version="1.0"?>
+<container><rootfiles><rootfile full-path="score/piece.musicxml" media-type="application/vnd.recordare.musicxml+xml"/></rootfiles></container>`;
+
+const inflateRaw = (data: Uint8Array) => new Uint8Array(inflateRawSync(data));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('readMxlArchive', () => {
+  it('follows the container manifest to the root score', () => {
+    const bytes = zip([
+      { path: 'META-INF/container.xml', content: CONTAINER },
+      { path: 'other.xml', content: '<nope/>' },
+      { path: 'score/piece.musicxml', content: '<score-partwise/>' },
+    ]);
+    expect(isZipArchive(bytes)).toBe(true);
+    expect(readMxlArchive(bytes)).toEqual({ xml: '<score-partwise/>', path: 'score/piece.musicxml' });
+  });
+
+  it('falls back to the first score file without a manifest', () => {
+    expect(readMxlArchive(zip([{ path: 'piece.xml', content: '<score-partwise>é</score-partwise>' }]))).toEqual({
+      xml: '<score-partwise>é</score-partwise>',
+      path: 'piece.xml',
+    });
+  });
+
+  it('inflates deflated entries with the provided inflater', () => {
+    const bytes = zip([
+      { path: 'META-INF/container.xml', content: CONTAINER, deflate: true },
+      { path: 'score/piece.musicxml', content: '<score-partwise version="4.0"/>', deflate: true },
+    ]);
+    expect(readMxlArchive(bytes, inflateRaw)).toMatchObject({ xml: '<score-partwise version="4.0"/>' });
+    expect(readMxlArchive(bytes)).toHaveProperty('error');
+  });
+
+  it('reports archives without a score or with a broken directory', () => {
+    expect(readMxlArchive(zip([{ path: 'readme.txt', content: 'hi' }]))).toHaveProperty('error');
+    expect(readMxlArchive(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0]))).toHaveProperty('error');
+  });
+});
+
+describe('decodeUtf8', () => {
+  it('decodes multi-byte characters and skips a BOM', () => {
+    expect(decodeUtf8(new Uint8Array([0xef, 0xbb, 0xbf, ...utf8('Für ♪ 𝄞')]))).toBe('Für ♪ 𝄞');
+  });
+});
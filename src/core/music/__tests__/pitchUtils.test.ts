@@ -8,6 +8,8 @@ import {
   midiToFrequency,
   frequencyCentsOffset,
   isInPianoRange,
+  centsFromNote,
+  tuningCentsToA4,
 } from '../pitchUtils';
 
 describe('pitchUtils', () => {
@@ -173,4 +175,34 @@ describe('pitchUtils', () => {
       expect(isInPianoRange(5000)).toBe(false);
     });
   });
+
+  // =========================================================================
+  // Tuning offset
+  // =========================================================================
+
+  describe('tuning offset', () => {
+    it('maps A=436 Hz to MIDI 69 on a piano tuned to A=436', () => {
+      const cents = 1200 * Math.log2(436 / 440);
+      expect(frequencyToMidi(436, cents)).toBeCloseTo(69, 5);
+      expect(frequencyCentsOffset(436, cents)).toBeCloseTo(0, 5);
+    });
+
+    it('moves notes more than 50 cents flat back onto their key', () => {
+      const flatE4 = 329.63 * Math.pow(2, -60 / 1200);
+      expect(frequencyToNearestMidi(flatE4)).toBe(63);
+      expect(frequencyToNearestMidi(flatE4, -40)).toBe(64);
+    });
+
+    it('measures cents from a given note without folding', () => {
+      expect(centsFromNote(440, 69)).toBeCloseTo(0, 5);
+      expect(centsFromNote(466.16, 69)).toBeCloseTo(100, 0);
+      expect(centsFromNote(0, 69)).toBeNaN();
+    });
+
+    it('converts a tuning offset to A4', () => {
+      expect(tuningCentsToA4(0)).toBe(440);
+      expect(tuningCentsToA4(-15.7)).toBeCloseTo(436, 0);
+      expect(tuningCentsToA4(1200)).toBeCloseTo(880, 5);
+    });
+  });
 });
@@ -0,0 +1,148 @@
+/**
+ * Grand-staff layout tests — staves, spelling, accidentals, ledger lines, beams
+ */
+
+import {
+  beamGroupBeats,
+  keySignatureAccidentals,
+  layoutGrandStaff,
+  ledgerLinesFor,
+  noteValueFor,
+  spellNote,
+  staffPosition,
+} from '../staffLayout';
+import type { NoteEvent } from '../../exercises/types';
+
+const n = (note: number, startBeat: number, durationBeats = 1, extra: Partial<NoteEvent> = {}): NoteEvent => ({
+  note,
+  startBeat,
+  durationBeats,
+  ...extra,
+});
+
+const FOUR_FOUR = { timeSignature: [4, 4] as [number, number], keySignature: 'C' };
+
+describe('staff positions', () => {
+  it('places notes relative to each staff bottom line', () => {
+    expect(staffPosition(2, 4, 'treble')).toBe(0); // E4
+    expect(staffPosition(3, 5, 'treble')).toBe(8); // F5
+    expect(staffPosition(0, 4, 'treble')).toBe(-2); // middle C
+    expect(staffPosition(4, 2, 'bass')).toBe(0); // G2
+    expect(staffPosition(0, 4, 'bass')).toBe(10); // middle C
+  });
+
+  it('lists ledger lines above and below the staff', () => {
+    expect(ledgerLinesFor(4)).toEqual([]);
+    expect(ledgerLinesFor(-2)).toEqual([-2]);
+    expect(ledgerLinesFor(-3)).toEqual([-2]);
+    expect(ledgerLinesFor(-4)).toEqual([-2, -4]);
+    expect(ledgerLinesFor(11)).toEqual([10]);
+  });
+});
+
+describe('spelling and key signatures', () => {
+  it('spells black keys with sharps or flats by key', () => {
+    expect(spellNote(61, 'D')).toEqual({ letter: 0, alter: 1, octave: 4 });
+    expect(spellNote(61, 'Ab')).toEqual({ letter: 1, alter: -1, octave: 4 });
+  });
+
+  it('places key-signature accidentals in standard order', () => {
+    expect(keySignatureAccidentals('D', 'treble')).toEqual([
+      { accidental: 'sharp', position: 8 },
+      { accidental: 'sharp', position: 5 },
+    ]);
+    expect(keySignatureAccidentals('F', 'bass')).toEqual([{ accidental: 'flat', position: 2 }]);
+    expect(keySignatureAccidentals('C', 'treble')).toEqual([]);
+  });
+});
+
+describe('noteValueFor', () => {
+  it('maps quarter-note lengths to (dotted) values', () => {
+    expect(noteValueFor(4)).toEqual({ value: 'whole', dotted: false });
+    expect(noteValueFor(3)).toEqual({ value: 'half', dotted: true });
+    expect(noteValueFor(1)).toEqual({ value: 'quarter', dotted: false });
+    expect(noteValueFor(0.5)).toEqual({ value: 'eighth', dotted: false });
+    expect(noteValueFor(0.1)).toEqual({ value: 'sixteenth', dotted: false });
+  });
+
+  it('beams by quarter in simple meters and dotted quarter in compound', () => {
+    expect(beamGroupBeats([4, 4])).toBe(1);
+    expect(beamGroupBeats([6, 8])).toBe(3);
+    expect(beamGroupBeats([3, 8])).toBe(2);
+  });
+});
+
+describe('layoutGrandStaff', () => {
+  it('splits notes between staves by hand, else by middle C', () => {
+    const layout = layoutGrandStaff([n(64, 0), n(48, 0), n(55, 1, 1, { hand: 'right' })], FOUR_FOUR);
+    expect(layout.chords.map((c) => [c.clef, c.heads[0].note])).toEqual([
+      ['bass', 48],
+      ['treble', 64],
+      ['treble', 55],
+    ]);
+    expect(layout.chords[2].ledgerLines).toEqual([-4, -2]); // G3 on the treble staff
+  });
+
+  it('groups simultaneous notes on one staff into a chord', () => {
+    const [chord] = layoutGrandStaff([n(67, 0), n(60, 0), n(64, 0)], FOUR_FOUR).chords;
+    expect(chord.heads.map((h) => [h.note, h.index])).toEqual([
+      [60, 1],
+      [64, 2],
+      [67, 0],
+    ]);
+    expect(chord.stemUp).toBe(true);
+  });
+
+  it('points stems down for notes above the middle line', () => {
+    const [chord] = layoutGrandStaff([n(77, 0)], FOUR_FOUR).chords;
+    expect(chord.stemUp).toBe(false);
+  });
+
+  it('shows accidentals against the key and carries them through the bar', () => {
+    const layout = layoutGrandStaff(
+      [n(66, 0), n(66, 1), n(65, 2), n(66, 4)],
+      { timeSignature: [4, 4], keySignature: 'C' },
+    );
+    expect(layout.chords.map((c) => c.heads[0].accidental)).toEqual(['sharp', undefined, 'natural', 'sharp']);
+
+    const inG = layoutGrandStaff([n(66, 0), n(65, 1)], { timeSignature: [4, 4], keySignature: 'G' });
+    expect(inG.chords.map((c) => c.heads[0].accidental)).toEqual([undefined, 'natural']);
+  });
+
+  it('beams consecutive eighths within a beat and flags the rest', () => {
+    const layout = layoutGrandStaff(
+      [n(72, 0, 0.5), n(74, 0.5, 0.5), n(76, 1, 0.5), n(77, 2, 1)],
+      FOUR_FOUR,
+    );
+    expect(layout.beams).toHaveLength(1);
+    expect(layout.beams[0].chords).toEqual([0, 1]);
+    expect(layout.chords[2].beam).toBeUndefined();
+    expect(layout.chords[0].stemUp).toBe(layout.chords[1].stemUp);
+  });
+
+  it('beams six eighths in 6/8 as two groups of three', () => {
+    const notes = Array.from({ length: 6 }, (_, i) => n(72, i, 1));
+    const layout = layoutGrandStaff(notes, { timeSignature: [6, 8], keySignature: 'C' });
+    expect(layout.beams.map((b) => b.chords)).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+    ]);
+  });
+
+  it('rounds the piece up to whole measures', () => {
+    const layout = layoutGrandStaff([n(60, 0, 4), n(62, 4, 1)], FOUR_FOUR);
+    expect(layout.barLines).toEqual([0, 4, 8]);
+    expect(layout.totalBeats).toBe(8);
+  });
+
+  it('follows meter changes for bar lines and accidentals', () => {
+    const layout = layoutGrandStaff([n(66, 0, 4), n(66, 4), n(66, 6), n(66, 7)], {
+      ...FOUR_FOUR,
+      meterMap: [{ beat: 4, timeSignature: [3, 4] }],
+    });
+    expect(layout.barLines).toEqual([0, 4, 7, 10]);
+    expect(layout.meterChanges).toEqual([{ beat: 4, timeSignature: [3, 4] }]);
+    // The sharp carries through the 3/4 bar and is restated in the next one
+    expect(layout.chords.map((c) => c.heads[0].accidental)).toEqual(['sharp', 'sharp', undefined, 'sharp']);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Minimal XML reader tests
+ */
+
+import { childElements, childText, findPath, parseXml } from '../xml';
+
+describe('parseXml', () => {
+  it('parses nested elements, attributes and text', () => {
+    const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+      <score version='4.0'>
+        <!-- a comment with <tags> inside -->
+        <part id="P1"><name>Piano &amp; Voice</name><empty/></part>
+        <part id="P2"><name><![CDATA[<raw> & text]]></name></part>
+      </score>`);
+
+    expect(root.name).toBe('score');
+    expect(root.attributes.version).toBe('4.0');
+    const parts = childElements(root, 'part');
+    expect(parts.map((p) => p.attributes.id)).toEqual(['P1', 'P2']);
+    expect(childText(parts[0], 'name')).toBe('Piano & Voice');
+    expect(childText(parts[1], 'name')).toBe('<raw> & text');
+    expect(findPath(root, 'part', 'empty')?.children).toEqual([]);
+  });
+
+  it('decodes numeric entities', () => {
+    expect(parseXml('<t a="&#x266F;">&#9837;</t>')).toMatchObject({ text: '♭', attributes: { a: '♯' } });
+  });
+
+  it('skips an internal DTD subset', () => {
+    expect(parseXml('<!DOCTYPE x [ <!ENTITY e "v"> ]><x/>').name).toBe('x');
+  });
+
+  it('throws on malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Mismatched');
+    expect(() => parseXml('<a>')).toThrow('Unclosed');
+    expect(() => parseXml('<a/><b/>')).toThrow('more than one root');
+    expect(() => parseXml('no markup')).toThrow('no root');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Chord identification — names a set of MIDI notes as a chord symbol,
+ * recognising inversions and open voicings
+ * Pure TypeScript - no React imports
+ */
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export type ChordQuality =
+  | 'major'
+  | 'minor'
+  | 'diminished'
+  | 'augmented'
+  | 'sus2'
+  | 'sus4'
+  | 'dominant7'
+  | 'major7'
+  | 'minor7'
+  | 'halfDiminished7'
+  | 'diminished7';
+
+/** Semitones above the root (root excluded) and symbol suffix, most common first */
+const QUALITIES: ReadonlyArray<{ quality: ChordQuality; intervals: number[]; suffix: string }> = [
+  { quality: 'major', intervals: [4, 7], suffix: '' },
+  { quality: 'minor', intervals: [3, 7], suffix: 'm' },
+  { quality: 'dominant7', intervals: [4, 7, 10], suffix: '7' },
+  { quality: 'major7', intervals: [4, 7, 11], suffix: 'maj7' },
+  { quality: 'minor7', intervals: [3, 7, 10], suffix: 'm7' },
+  { quality: 'diminished', intervals: [3, 6], suffix: 'dim' },
+  { quality: 'augmented', intervals: [4, 8], suffix: 'aug' },
+  { quality: 'sus4', intervals: [5, 7], suffix: 'sus4' },
+  { quality: 'sus2', intervals: [2, 7], suffix: 'sus2' },
+  { quality: 'halfDiminished7', intervals: [3, 6, 10], suffix: 'm7b5' },
+  { quality: 'diminished7', intervals: [3, 6, 9], suffix: 'dim7' },
+];
+
+export interface ChordIdentity {
+  /** Pitch class of the root (0 = C) */
+  root: number;
+  quality: ChordQuality;
+  /** Pitch class of the lowest note */
+  bass: number;
+  /** 0 = root position, 1 = first inversion, … */
+  inversion: number;
+  /** Symbol such as "Am", "G7" or "C/E" for an inversion */
+  name: string;
+}
+
+const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+/**
+ * Identify the chord formed by a set of notes, in any octave or inversion.
+ * Doubled notes are ignored. Returns null for fewer than two pitch classes
+ * or a combination that isn't a known chord.
+ */
+export function identifyChord(notes: number[]): ChordIdentity | null {
+  if (notes.length === 0) return null;
+  const bass = pitchClass(Math.min(...notes));
+  const classes = [...new Set(notes.map(pitchClass))];
+  if (classes.length < 2) return null;
+
+  // Try the bass as root first so an ambiguous set (C6 / Am7) reads from the bottom
+  const roots = [bass, ...classes.filter((pc) => pc !== bass)];
+  let found: { root: number; quality: (typeof QUALITIES)[number] } | null = null;
+  for (const root of roots) {
+    const key = classes
+      .map((pc) => (pc - root + 12) % 12)
+      .filter((interval) => interval > 0)
+      .sort((a, b) => a - b)
+      .join(',');
+    const quality = QUALITIES.find((q) => q.intervals.join(',') === key);
+    if (quality) {
+      found = { root, quality };
+      break;
+    }
+  }
+  if (!found) return null;
+
+  const { root, quality } = found;
+  const inversion = [0, ...quality.intervals].indexOf((bass - root + 12) % 12);
+  const symbol = `${NOTE_NAMES[root]}${quality.suffix}`;
+  return {
+    root,
+    quality: quality.quality,
+    bass,
+    inversion,
+    name: inversion === 0 ? symbol : `${symbol}/${NOTE_NAMES[bass]}`,
+  };
+}
+
+/**
+ * Display label for any set of notes: the chord symbol when recognised,
+ * otherwise the note names low to high ("C-E-F#")
+ */
+export function chordLabel(notes: number[]): string {
+  const chord = identifyChord(notes);
+  if (chord) return chord.name;
+  const classes: number[] = [];
+  for (const note of [...notes].sort((a, b) => a - b)) {
+    if (!classes.includes(pitchClass(note))) classes.push(pitchClass(note));
+  }
+  return classes.map((pc) => NOTE_NAMES[pc]).join('-');
+}
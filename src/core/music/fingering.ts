@@ -0,0 +1,255 @@
+/**
+ * Fingering suggestions — fills in `NoteEvent.finger` where content has none
+ * Pure TypeScript - no React imports
+ *
+ * Each hand is fingered separately. Notes starting together form one event
+ * (a chord is fingered low to high: thumb upward in the right hand, little
+ * finger upward in the left), and a dynamic-programming pass picks the
+ * cheapest fingering for the whole line. Costs follow the usual hand-span
+ * rules: every finger pair has a relaxed and a comfortable stretch, with
+ * extra cost for stretching past them, crossing over the thumb, repeating a
+ * finger on a new key, the weak fourth finger and thumb or little finger on
+ * black keys.
+ *
+ * Authored fingerings are fixed points — they are never changed, and the
+ * suggestions around them are chosen to fit.
+ */
+
+import type { Exercise, NoteEvent } from '../exercises/types';
+import { noteHand } from '../exercises/handPractice';
+import type { Hand } from '../exercises/handPractice';
+
+type Finger = 1 | 2 | 3 | 4 | 5;
+
+export interface FingeringOptions {
+  /** Hand for notes without `hand`; by default notes below middle C go to the left */
+  defaultHand?: Hand;
+}
+
+/**
+ * Stretches in semitones between two fingers of one hand, lower finger first,
+ * measured toward the little finger: [minComfortable, minRelaxed, maxRelaxed,
+ * maxComfortable]. Negative = the higher finger crosses over the thumb.
+ */
+const SPANS: Record<string, [number, number, number, number]> = {
+  '1-2': [-3, 1, 5, 8],
+  '1-3': [-2, 3, 7, 10],
+  '1-4': [-1, 5, 9, 12],
+  '1-5': [1, 7, 10, 13],
+  '2-3': [1, 1, 2, 3],
+  '2-4': [1, 3, 4, 5],
+  '2-5': [2, 5, 6, 8],
+  '3-4': [1, 1, 2, 2],
+  '3-5': [1, 3, 4, 5],
+  '4-5': [1, 1, 2, 3],
+};
+
+const SAME_FINGER_COST = 6;
+const THUMB_CROSSING_COST = 1;
+const FOURTH_FINGER_COST = 0.5;
+const BLACK_KEY_THUMB_COST = 2;
+const BLACK_KEY_FIFTH_COST = 1;
+/** A rest of at least this many beats leaves time to move the hand */
+const REPOSITION_REST_BEATS = 1;
+/** Chords wider than five notes can't be fingered by one hand */
+const MAX_CHORD_SIZE = 5;
+
+const BEAT_EPSILON = 1e-6;
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+const FINGERS: Finger[] = [1, 2, 3, 4, 5];
+
+const isBlackKey = (note: number) => BLACK_KEYS.has(((note % 12) + 12) % 12);
+
+/**
+ * Cost of finger `from` on pitch `a` followed by finger `to` on pitch `b`.
+ * Pitches are in the hand's own direction (mirrored for the left hand), so
+ * one table serves both hands.
+ */
+function pairCost(from: Finger, a: number, to: Finger, b: number): number {
+  if (from === to) return a === b ? 0 : SAME_FINGER_COST + Math.abs(b - a);
+
+  const [low, high, distance] = from < to ? [from, to, b - a] : [to, from, a - b];
+  const [minComfortable, minRelaxed, maxRelaxed, maxComfortable] = SPANS[`${low}-${high}`];
+  let cost = 0;
+  if (distance < minRelaxed) cost += minRelaxed - Math.max(distance, minComfortable);
+  if (distance > maxRelaxed) cost += Math.min(distance, maxComfortable) - maxRelaxed;
+  // Past a comfortable stretch costs double per semitone
+  if (distance < minComfortable) cost += 2 * (minComfortable - distance);
+  if (distance > maxComfortable) cost += 2 * (distance - maxComfortable);
+  if (low === 1 && distance < 0) cost += THUMB_CROSSING_COST;
+  return cost;
+}
+
+interface HandEvent {
+  startBeat: number;
+  endBeat: number;
+  /** Indices into the input notes, lowest pitch first */
+  indices: number[];
+  /** Pitches in the hand's direction, same order as indices */
+  pitches: number[];
+  /** Real MIDI notes, same order */
+  notes: number[];
+}
+
+/** Fingers for each note of an event, in the event's pitch order */
+type FingerState = Finger[];
+
+/** Increasing finger tuples of the given size (finger order follows pitch order) */
+function fingerStates(size: number): FingerState[] {
+  const states: FingerState[] = [];
+  const build = (from: number, chosen: Finger[]) => {
+    if (chosen.length === size) {
+      states.push(chosen);
+      return;
+    }
+    for (let f = from; f <= 5; f++) build(f + 1, [...chosen, FINGERS[f - 1]]);
+  };
+  build(1, []);
+  return states;
+}
+
+function staticCost(event: HandEvent, state: FingerState): number {
+  let cost = 0;
+  state.forEach((finger, i) => {
+    if (finger === 4) cost += FOURTH_FINGER_COST;
+    if (isBlackKey(event.notes[i])) {
+      if (finger === 1) cost += BLACK_KEY_THUMB_COST;
+      if (finger === 5) cost += BLACK_KEY_FIFTH_COST;
+    }
+    // Stretch inside a chord
+    if (i > 0) cost += pairCost(state[i - 1], event.pitches[i - 1], finger, event.pitches[i]);
+  });
+  return cost;
+}
+
+function transitionCost(prev: HandEvent, prevState: FingerState, next: HandEvent, nextState: FingerState): number {
+  const last = prevState.length - 1;
+  const top = nextState.length - 1;
+  // Compare the outer notes of each event: lowest to lowest and highest to highest
+  const low = pairCost(prevState[0], prev.pitches[0], nextState[0], next.pitches[0]);
+  const high = pairCost(prevState[last], prev.pitches[last], nextState[top], next.pitches[top]);
+  const cost = last === 0 && top === 0 ? low : (low + high) / 2;
+  return next.startBeat - prev.endBeat >= REPOSITION_REST_BEATS - BEAT_EPSILON ? cost / 2 : cost;
+}
+
+/** Group one hand's notes into events by start beat */
+function handEvents(notes: NoteEvent[], indices: number[], hand: Hand): HandEvent[] {
+  const direction = hand === 'right' ? 1 : -1;
+  const sorted = [...indices].sort(
+    (a, b) => notes[a].startBeat - notes[b].startBeat || direction * (notes[a].note - notes[b].note),
+  );
+  const events: HandEvent[] = [];
+  for (const i of sorted) {
+    const note = notes[i];
+    const last = events[events.length - 1];
+    if (last && Math.abs(note.startBeat - last.startBeat) < BEAT_EPSILON) {
+      last.indices.push(i);
+      last.pitches.push(direction * note.note);
+      last.notes.push(note.note);
+      last.endBeat = Math.max(last.endBeat, note.startBeat + note.durationBeats);
+    } else {
+      events.push({
+        startBeat: note.startBeat,
+        endBeat: note.startBeat + note.durationBeats,
+        indices: [i],
+        pitches: [direction * note.note],
+        notes: [note.note],
+      });
+    }
+  }
+  return events;
+}
+
+/** Cheapest fingering for one hand's events; null entries could not be fingered */
+function fingerHand(notes: NoteEvent[], events: HandEvent[]): Array<FingerState | null> {
+  const result: Array<FingerState | null> = events.map(() => null);
+
+  // Runs of fingerable events are solved independently
+  let start = 0;
+  while (start < events.length) {
+    if (events[start].indices.length > MAX_CHORD_SIZE) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end + 1 < events.length && events[end + 1].indices.length <= MAX_CHORD_SIZE) end++;
+
+    const candidates = events.slice(start, end + 1).map((event) => {
+      const all = fingerStates(event.indices.length);
+      // Authored fingers pin the state; if they can't all hold, any state will do
+      const pinned = all.filter((state) =>
+        state.every((finger, i) => notes[event.indices[i]].finger === undefined || notes[event.indices[i]].finger === finger),
+      );
+      return pinned.length > 0 ? pinned : all;
+    });
+
+    // cost[i][s] = cheapest cost ending in state s at event start + i
+    const cost: number[][] = [];
+    const from: number[][] = [];
+    candidates.forEach((states, i) => {
+      const event = events[start + i];
+      cost.push([]);
+      from.push([]);
+      states.forEach((state) => {
+        let best = 0;
+        let bestFrom = -1;
+        if (i > 0) {
+          const prev = events[start + i - 1];
+          best = Infinity;
+          candidates[i - 1].forEach((prevState, p) => {
+            const total = cost[i - 1][p] + transitionCost(prev, prevState, event, state);
+            if (total < best) {
+              best = total;
+              bestFrom = p;
+            }
+          });
+        }
+        cost[i].push(best + staticCost(event, state));
+        from[i].push(bestFrom);
+      });
+    });
+
+    const lastCosts = cost[cost.length - 1];
+    let s = lastCosts.indexOf(Math.min(...lastCosts));
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      result[start + i] = candidates[i][s];
+      s = from[i][s];
+    }
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Notes with fingerings filled in where missing. Authored fingerings are
+ * kept; notes that already had one (or couldn't be fingered) are returned
+ * unchanged, and the input array is returned as-is when nothing is missing.
+ */
+export function suggestFingerings(notes: NoteEvent[], options: FingeringOptions = {}): NoteEvent[] {
+  if (notes.every((note) => note.finger !== undefined)) return notes;
+
+  const fingers = new Map<number, Finger>();
+  for (const hand of ['right', 'left'] as const) {
+    const indices = notes.map((_, i) => i).filter((i) => noteHand(notes[i], options.defaultHand) === hand);
+    const events = handEvents(notes, indices, hand);
+    fingerHand(notes, events).forEach((state, e) => {
+      state?.forEach((finger, k) => fingers.set(events[e].indices[k], finger));
+    });
+  }
+
+  return notes.map((note, i) => {
+    const finger = fingers.get(i);
+    return note.finger !== undefined || finger === undefined ? note : { ...note, finger };
+  });
+}
+
+/**
+ * The exercise with missing fingerings filled in. A one-handed exercise
+ * fingers its unassigned notes with that hand; the same exercise object is
+ * returned when nothing needed a finger.
+ */
+export function withSuggestedFingerings(exercise: Exercise): Exercise {
+  const defaultHand = exercise.hands === 'left' || exercise.hands === 'right' ? exercise.hands : undefined;
+  const notes = suggestFingerings(exercise.notes, { defaultHand });
+  return notes === exercise.notes ? exercise : { ...exercise, notes };
+}
@@ -0,0 +1,348 @@
+/**
+ * Standard MIDI File (SMF) Parser
+ *
+ * Reads format 0 and format 1 .mid files into tracks of paired notes plus the
+ * tempo, time-signature and key-signature maps. Times stay in ticks — callers
+ * decide how to turn them into beats or seconds.
+ *
+ * Pure TypeScript — no React imports, no Node Buffer (works on device too).
+ */
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface MidiFileNote {
+  note: number; // MIDI note number (0-127)
+  velocity: number; // 1-127
+  channel: number; // 0-15
+  startTick: number;
+  durationTicks: number;
+}
+
+export interface MidiFileTrack {
+  name: string;
+  notes: MidiFileNote[];
+}
+
+export interface MidiTempoChange {
+  tick: number;
+  microsecondsPerQuarter: number;
+  bpm: number; // Quarter notes per minute
+}
+
+export interface MidiTimeSignatureChange {
+  tick: number;
+  numerator: number;
+  denominator: number;
+}
+
+export interface MidiKeySignatureChange {
+  tick: number;
+  key: string; // e.g. "G", "Em", "Bb"
+}
+
+export interface MidiFile {
+  format: 0 | 1;
+  ticksPerQuarter: number;
+  tracks: MidiFileTrack[];
+  tempoMap: MidiTempoChange[]; // Sorted by tick, always starts at tick 0
+  timeSignatures: MidiTimeSignatureChange[]; // Sorted by tick, always starts at tick 0
+  keySignatures: MidiKeySignatureChange[]; // Sorted by tick, may be empty
+  endTick: number; // Last event tick across all tracks
+}
+
+export type MidiFileParseOutput = MidiFile | { error: string };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** MIDI's default tempo when a file has no Set Tempo event (120 BPM) */
+export const DEFAULT_MICROSECONDS_PER_QUARTER = 500000;
+
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_SET_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+const META_KEY_SIGNATURE = 0x59;
+
+/** Key names indexed by sharps/flats + 7 (-7 = 7 flats … +7 = 7 sharps) */
+const MAJOR_KEYS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEYS = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+// ---------------------------------------------------------------------------
+// Byte reader
+// ---------------------------------------------------------------------------
+
+class ByteReader {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array, private readonly end: number = bytes.length) {}
+
+  get remaining(): number {
+    return this.end - this.pos;
+  }
+
+  uint8(): number {
+    if (this.pos >= this.end) throw new Error('Unexpected end of data');
+    return this.bytes[this.pos++];
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32(): number {
+    return ((this.uint8() << 24) >>> 0) + (this.uint8() << 16) + (this.uint8() << 8) + this.uint8();
+  }
+
+  /** Variable-length quantity: 7 bits per byte, high bit = continuation */
+  varLen(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error('Variable-length quantity longer than 4 bytes');
+  }
+
+  ascii(length: number): string {
+    let out = '';
+    for (let i = 0; i < length; i++) out += String.fromCharCode(this.uint8());
+    return out;
+  }
+
+  skip(length: number): void {
+    if (length > this.remaining) throw new Error('Unexpected end of data');
+    this.pos += length;
+  }
+
+  sub(length: number): ByteReader {
+    if (length > this.remaining) throw new Error('Chunk extends past end of file');
+    const reader = new ByteReader(this.bytes, this.pos + length);
+    reader.pos = this.pos;
+    this.pos += length;
+    return reader;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers (exported for unit testing)
+// ---------------------------------------------------------------------------
+
+/** Key name from a Key Signature meta event (sf = -7…7 sharps, mi = 1 for minor) */
+export function keySignatureName(sharpsOrFlats: number, isMinor: boolean): string {
+  const index = Math.max(-7, Math.min(7, sharpsOrFlats)) + 7;
+  return isMinor ? `${MINOR_KEYS[index]}m` : MAJOR_KEYS[index];
+}
+
+/** Inverse of keySignatureName — null for names with no standard signature */
+export function keySignatureFromName(key: string): { sharpsOrFlats: number; isMinor: boolean } | null {
+  const isMinor = key.endsWith('m');
+  const index = (isMinor ? MINOR_KEYS : MAJOR_KEYS).indexOf(isMinor ? key.slice(0, -1) : key);
+  return index >= 0 ? { sharpsOrFlats: index - 7, isMinor } : null;
+}
+
+/** Convert a tick position to seconds by walking the tempo map */
+export function ticksToSeconds(tick: number, midi: Pick<MidiFile, 'tempoMap' | 'ticksPerQuarter'>): number {
+  let seconds = 0;
+  let lastTick = 0;
+  let usPerQuarter = DEFAULT_MICROSECONDS_PER_QUARTER;
+  for (const change of midi.tempoMap) {
+    if (change.tick >= tick) break;
+    seconds += ((change.tick - lastTick) / midi.ticksPerQuarter) * (usPerQuarter / 1e6);
+    lastTick = change.tick;
+    usPerQuarter = change.microsecondsPerQuarter;
+  }
+  return seconds + ((tick - lastTick) / midi.ticksPerQuarter) * (usPerQuarter / 1e6);
+}
+
+// ---------------------------------------------------------------------------
+// Track parsing
+// ---------------------------------------------------------------------------
+
+interface TrackParseResult {
+  track: MidiFileTrack;
+  tempos: MidiTempoChange[];
+  timeSignatures: MidiTimeSignatureChange[];
+  keySignatures: MidiKeySignatureChange[];
+  endTick: number;
+}
+
+function parseTrack(reader: ByteReader): TrackParseResult {
+  const notes: MidiFileNote[] = [];
+  const tempos: MidiTempoChange[] = [];
+  const timeSignatures: MidiTimeSignatureChange[] = [];
+  const keySignatures: MidiKeySignatureChange[] = [];
+  let name = '';
+  let tick = 0;
+  let runningStatus = 0;
+
+  // Sounding notes: (channel << 7 | note) → stack of note-ons (handles overlapping repeats)
+  const open = new Map<number, MidiFileNote[]>();
+
+  const closeNote = (channel: number, note: number): void => {
+    const stack = open.get((channel << 7) | note);
+    const started = stack?.shift();
+    if (started) started.durationTicks = tick - started.startTick;
+  };
+
+  while (reader.remaining > 0) {
+    tick += reader.varLen();
+
+    let status = reader.uint8();
+    if (status < 0x80) {
+      // Running status: reuse the previous channel status, this byte is data
+      if (runningStatus === 0) throw new Error('Data byte without a status byte');
+      reader.pos--;
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const length = reader.varLen();
+      const data = reader.sub(length);
+      if (type === META_TRACK_NAME && !name) {
+        name = data.ascii(length).trim();
+      } else if (type === META_SET_TEMPO && length >= 3) {
+        const us = (data.uint8() << 16) | (data.uint8() << 8) | data.uint8();
+        if (us > 0) tempos.push({ tick, microsecondsPerQuarter: us, bpm: 60000000 / us });
+      } else if (type === META_TIME_SIGNATURE && length >= 2) {
+        const numerator = data.uint8();
+        const denominator = 2 ** data.uint8();
+        if (numerator > 0) timeSignatures.push({ tick, numerator, denominator });
+      } else if (type === META_KEY_SIGNATURE && length >= 2) {
+        const sf = (data.uint8() << 24) >> 24; // signed byte
+        keySignatures.push({ tick, key: keySignatureName(sf, data.uint8() === 1) });
+      } else if (type === META_END_OF_TRACK) {
+        break;
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      // SysEx — not needed for notes
+      reader.skip(reader.varLen());
+      continue;
+    }
+
+    runningStatus = status;
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+
+    if (kind === 0x90 || kind === 0x80) {
+      const note = reader.uint8() & 0x7f;
+      const velocity = reader.uint8() & 0x7f;
+      if (kind === 0x90 && velocity > 0) {
+        const event: MidiFileNote = { note, velocity, channel, startTick: tick, durationTicks: 0 };
+        notes.push(event);
+        const key = (channel << 7) | note;
+        open.set(key, [...(open.get(key) ?? []), event]);
+      } else {
+        // Note-off, or note-on with velocity 0
+        closeNote(channel, note);
+      }
+    } else if (kind === 0xc0 || kind === 0xd0) {
+      reader.skip(1); // Program change / channel pressure
+    } else {
+      reader.skip(2); // Aftertouch, control change, pitch bend
+    }
+  }
+
+  // Notes never switched off ring until the end of the track
+  for (const stack of open.values()) {
+    for (const event of stack) event.durationTicks = Math.max(1, tick - event.startTick);
+  }
+
+  return {
+    track: { name, notes: notes.filter((n) => n.durationTicks > 0) },
+    tempos,
+    timeSignatures,
+    keySignatures,
+    endTick: tick,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main parser
+// ---------------------------------------------------------------------------
+
+export function parseMidiFile(bytes: Uint8Array): MidiFileParseOutput {
+  if (!bytes || bytes.length < 14) {
+    return { error: 'File too short to be a MIDI file' };
+  }
+
+  const reader = new ByteReader(bytes);
+  try {
+    if (reader.ascii(4) !== 'MThd') {
+      return { error: 'Not a Standard MIDI File (missing MThd header)' };
+    }
+    const header = reader.sub(reader.uint32());
+    const format = header.uint16();
+    const trackCount = header.uint16();
+    const division = header.uint16();
+
+    if (format !== 0 && format !== 1) {
+      return { error: `Unsupported MIDI format ${format} (only 0 and 1 are supported)` };
+    }
+    if (division & 0x8000) {
+      return { error: 'SMPTE time division is not supported' };
+    }
+    if (division === 0) {
+      return { error: 'Invalid time division (0 ticks per quarter note)' };
+    }
+
+    const tracks: MidiFileTrack[] = [];
+    const tempoMap: MidiTempoChange[] = [];
+    const timeSignatures: MidiTimeSignatureChange[] = [];
+    const keySignatures: MidiKeySignatureChange[] = [];
+    let endTick = 0;
+
+    while (tracks.length < trackCount && reader.remaining >= 8) {
+      const chunkType = reader.ascii(4);
+      const chunk = reader.sub(reader.uint32());
+      if (chunkType !== 'MTrk') continue; // Unknown chunks must be skipped
+
+      const parsed = parseTrack(chunk);
+      tracks.push(parsed.track);
+      tempoMap.push(...parsed.tempos);
+      timeSignatures.push(...parsed.timeSignatures);
+      keySignatures.push(...parsed.keySignatures);
+      endTick = Math.max(endTick, parsed.endTick);
+    }
+
+    if (tracks.length === 0) {
+      return { error: 'No tracks found in MIDI file' };
+    }
+
+    const byTick = <T extends { tick: number }>(a: T, b: T) => a.tick - b.tick;
+    tempoMap.sort(byTick);
+    timeSignatures.sort(byTick);
+    keySignatures.sort(byTick);
+
+    if (tempoMap.length === 0 || tempoMap[0].tick > 0) {
+      tempoMap.unshift({
+        tick: 0,
+        microsecondsPerQuarter: DEFAULT_MICROSECONDS_PER_QUARTER,
+        bpm: 60000000 / DEFAULT_MICROSECONDS_PER_QUARTER,
+      });
+    }
+    if (timeSignatures.length === 0 || timeSignatures[0].tick > 0) {
+      timeSignatures.unshift({ tick: 0, numerator: 4, denominator: 4 });
+    }
+
+    return {
+      format: format as 0 | 1,
+      ticksPerQuarter: division,
+      tracks,
+      tempoMap,
+      timeSignatures,
+      keySignatures,
+      endTick,
+    };
+  } catch (err) {
+    return { error: `Malformed MIDI file: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
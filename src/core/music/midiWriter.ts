@@ -0,0 +1,338 @@
+/**
+ * Standard MIDI File (SMF) Writer
+ *
+ * Writes format 1 .mid files: a conductor track carrying the title, tempo,
+ * time-signature and key-signature maps, followed by one track per part.
+ * The input shape mirrors what parseMidiFile returns, so files round-trip.
+ *
+ * Also converts the app's own material — Exercise.notes and recorded
+ * performances (MidiNoteEvent[] with velocity and duration) — into tracks,
+ * so a take can be opened in a DAW or sent to a teacher.
+ *
+ * Pure TypeScript — no React imports, no Node Buffer (works on device too).
+ */
+
+import { resolveTargetLevels } from '../exercises/dynamics';
+import { createTempoTimeline, meterSpans } from '../exercises/tempoMap';
+import type { Exercise, MidiNoteEvent, SustainPedalEvent } from '../exercises/types';
+import { DEFAULT_MICROSECONDS_PER_QUARTER, keySignatureFromName } from './midiFile';
+import type { MidiFile, MidiFileNote, MidiFileTrack, MidiTempoChange } from './midiFile';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** Sustain pedal (CC64) transition at a tick */
+export interface MidiSustainChange {
+  tick: number;
+  down: boolean;
+}
+
+export interface MidiWriteTrack extends MidiFileTrack {
+  sustain?: MidiSustainChange[];
+}
+
+export interface MidiWriteInput
+  extends Pick<MidiFile, 'ticksPerQuarter' | 'tempoMap' | 'timeSignatures' | 'keySignatures'> {
+  title?: string;
+  tracks: MidiWriteTrack[];
+}
+
+export interface PerformanceTrackOptions {
+  /** Quarter notes per minute used to turn milliseconds into ticks */
+  bpm: number;
+  /** Quarter notes elapsed `ms` after originMs — replaces `bpm` when the tempo changes */
+  msToQuarters?: (ms: number) => number;
+  ticksPerQuarter?: number;
+  /** Timestamp that maps to tick 0 (default: the first event) */
+  originMs?: number;
+  name?: string;
+  pedal?: SustainPedalEvent[];
+}
+
+export interface RecordedPerformance {
+  /** Timestamps in ms relative to beat 0, as passed to the scoring engine */
+  notes: MidiNoteEvent[];
+  pedal?: SustainPedalEvent[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_TICKS_PER_QUARTER = 480;
+
+/** Length given to recorded notes that never got a release */
+const DEFAULT_NOTE_DURATION_MS = 250;
+
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_SET_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+const META_KEY_SIGNATURE = 0x59;
+
+const CC_SUSTAIN = 64;
+
+// ---------------------------------------------------------------------------
+// Byte encoding
+// ---------------------------------------------------------------------------
+
+interface TrackEvent {
+  tick: number;
+  /** Lower sorts first at the same tick: meta, note-off/pedal-up, pedal-down, note-on */
+  order: number;
+  bytes: number[];
+}
+
+function varLen(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function ascii(text: string): number[] {
+  // SMF text is nominally ASCII; replace anything outside it
+  return [...text].map((c) => (c.charCodeAt(0) < 0x80 ? c.charCodeAt(0) : 0x3f));
+}
+
+function chunk(type: string, body: number[]): number[] {
+  return [...ascii(type), ...uint32(body.length), ...body];
+}
+
+function meta(tick: number, type: number, data: number[]): TrackEvent {
+  return { tick, order: 0, bytes: [0xff, type, ...varLen(data.length), ...data] };
+}
+
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    body.push(...varLen(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  }
+  body.push(0x00, 0xff, META_END_OF_TRACK, 0x00);
+  return chunk('MTrk', body);
+}
+
+function conductorEvents(input: MidiWriteInput): TrackEvent[] {
+  const events: TrackEvent[] = [];
+  if (input.title) events.push(meta(0, META_TRACK_NAME, ascii(input.title)));
+  for (const tempo of input.tempoMap) {
+    const us = Math.round(tempo.microsecondsPerQuarter);
+    events.push(meta(tempo.tick, META_SET_TEMPO, [(us >> 16) & 0xff, (us >> 8) & 0xff, us & 0xff]));
+  }
+  for (const ts of input.timeSignatures) {
+    // 24 MIDI clocks per metronome click, 8 thirty-second notes per quarter
+    events.push(meta(ts.tick, META_TIME_SIGNATURE, [ts.numerator, Math.round(Math.log2(ts.denominator)), 24, 8]));
+  }
+  for (const ks of input.keySignatures) {
+    const signature = keySignatureFromName(ks.key);
+    if (!signature) continue;
+    events.push(meta(ks.tick, META_KEY_SIGNATURE, [signature.sharpsOrFlats & 0xff, signature.isMinor ? 1 : 0]));
+  }
+  return events;
+}
+
+function noteTrackEvents(track: MidiWriteTrack): TrackEvent[] {
+  const events: TrackEvent[] = [];
+  if (track.name) events.push(meta(0, META_TRACK_NAME, ascii(track.name)));
+  for (const n of track.notes) {
+    const channel = n.channel & 0x0f;
+    const velocity = Math.max(1, Math.min(127, Math.round(n.velocity)));
+    const start = Math.max(0, Math.round(n.startTick));
+    const end = start + Math.max(1, Math.round(n.durationTicks));
+    events.push({ tick: start, order: 3, bytes: [0x90 | channel, n.note & 0x7f, velocity] });
+    events.push({ tick: end, order: 1, bytes: [0x80 | channel, n.note & 0x7f, 0] });
+  }
+  for (const change of track.sustain ?? []) {
+    const tick = Math.max(0, Math.round(change.tick));
+    events.push({ tick, order: change.down ? 2 : 1, bytes: [0xb0, CC_SUSTAIN, change.down ? 127 : 0] });
+  }
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Main writer
+// ---------------------------------------------------------------------------
+
+export function writeMidiFile(input: MidiWriteInput): Uint8Array {
+  const tracks = [encodeTrack(conductorEvents(input)), ...input.tracks.map((t) => encodeTrack(noteTrackEvents(t)))];
+  const header = chunk('MThd', [0, 1, 0, tracks.length, (input.ticksPerQuarter >> 8) & 0x7f, input.ticksPerQuarter & 0xff]);
+  return new Uint8Array([...header, ...tracks.flat()]);
+}
+
+// ---------------------------------------------------------------------------
+// Exercise / performance conversion
+// ---------------------------------------------------------------------------
+
+/** Quarter-note BPM for an exercise, whose beat is the time-signature denominator */
+function exerciseQuarterBpm(exercise: Exercise): number {
+  return (exercise.settings.tempo * 4) / exercise.settings.timeSignature[1];
+}
+
+/**
+ * The exercise's tempo map as MIDI tempo events. SMF tempos are steps, so a
+ * ramp is written as one step per beat at that beat's average tempo — note
+ * times land exactly where the app expects them.
+ */
+function exerciseTempoEvents(exercise: Exercise, ticksPerQuarter: number): MidiTempoChange[] {
+  const quartersPerBeat = 4 / exercise.settings.timeSignature[1];
+  const timeline = createTempoTimeline(exercise.settings);
+  const changes = [...(exercise.settings.tempoMap ?? [])].sort((a, b) => a.beat - b.beat);
+
+  const beats = new Set<number>([0, ...changes.map((c) => c.beat)]);
+  changes.forEach((change, i) => {
+    const next = changes[i + 1];
+    if (!change.ramp || !next) return;
+    for (let beat = Math.ceil(change.beat); beat < next.beat; beat++) beats.add(beat);
+  });
+
+  const starts = [...beats].filter((b) => b >= 0).sort((a, b) => a - b);
+  const events = starts.map((beat, i) => {
+    // Average tempo up to the next event (or over one beat at the end)
+    const length = (starts[i + 1] ?? beat + 1) - beat;
+    const bpm = ((60000 * length) / timeline.spanMs(beat, length)) * quartersPerBeat;
+    return {
+      tick: Math.round(beat * quartersPerBeat * ticksPerQuarter),
+      microsecondsPerQuarter: Math.round(60000000 / bpm),
+      bpm,
+    };
+  });
+  return events.filter((e, i) => i === 0 || e.microsecondsPerQuarter !== events[i - 1].microsecondsPerQuarter);
+}
+
+/**
+ * Exercise notes as tracks — one per hand when hands are marked, otherwise a
+ * single "Piano" track. Velocities follow the exercise's dynamics markings.
+ */
+export function exerciseToMidiTracks(
+  exercise: Exercise,
+  ticksPerQuarter: number = DEFAULT_TICKS_PER_QUARTER,
+): MidiWriteTrack[] {
+  const ticksPerBeat = (ticksPerQuarter * 4) / exercise.settings.timeSignature[1];
+  const levels = resolveTargetLevels(exercise);
+  const parts: Array<[string, MidiFileNote[]]> = [
+    ['Right Hand', []],
+    ['Left Hand', []],
+    ['Piano', []],
+  ];
+
+  exercise.notes.forEach((n, i) => {
+    const part = n.hand === 'right' ? parts[0] : n.hand === 'left' ? parts[1] : parts[2];
+    part[1].push({
+      note: n.note,
+      velocity: Math.round(levels[i] * 127),
+      channel: 0,
+      startTick: Math.round(n.startBeat * ticksPerBeat),
+      durationTicks: Math.round(n.durationBeats * ticksPerBeat),
+    });
+  });
+
+  const tracks: MidiWriteTrack[] = parts
+    .filter(([, notes]) => notes.length > 0)
+    .map(([name, notes]) => ({ name, notes }));
+
+  if (exercise.pedal?.length && tracks.length > 0) {
+    tracks[0].sustain = exercise.pedal.flatMap((p) => [
+      { tick: Math.round(p.startBeat * ticksPerBeat), down: true },
+      { tick: Math.round(p.endBeat * ticksPerBeat), down: false },
+    ]);
+  }
+  return tracks;
+}
+
+/**
+ * A recorded performance as a single track. Note lengths come from
+ * `durationMs`, else the matching noteOff, else a short default.
+ * Events before `originMs` are clamped to tick 0.
+ */
+export function performanceToMidiTrack(events: MidiNoteEvent[], options: PerformanceTrackOptions): MidiWriteTrack {
+  const ticksPerQuarter = options.ticksPerQuarter ?? DEFAULT_TICKS_PER_QUARTER;
+  const origin = options.originMs ?? Math.min(...events.map((e) => e.timestamp));
+  const msPerQuarter = 60000 / options.bpm;
+  const msToQuarters = options.msToQuarters ?? ((ms: number) => ms / msPerQuarter);
+  const toTick = (ms: number) => Math.max(0, Math.round(msToQuarters(ms - origin) * ticksPerQuarter));
+
+  const notes: MidiFileNote[] = [];
+  events.forEach((event, i) => {
+    if (event.type !== 'noteOn') return;
+    const noteOff = events
+      .slice(i + 1)
+      .find((e) => e.type === 'noteOff' && e.note === event.note && e.timestamp >= event.timestamp);
+    const durationMs = event.durationMs ?? (noteOff ? noteOff.timestamp - event.timestamp : DEFAULT_NOTE_DURATION_MS);
+    const startTick = toTick(event.timestamp);
+    notes.push({
+      note: event.note,
+      velocity: event.velocity,
+      channel: event.channel,
+      startTick,
+      durationTicks: Math.max(1, toTick(event.timestamp + durationMs) - startTick),
+    });
+  });
+
+  return {
+    name: options.name ?? 'Performance',
+    notes,
+    ...(options.pedal && options.pedal.length > 0 && {
+      sustain: options.pedal.map((p) => ({ tick: toTick(p.timestamp), down: p.type === 'pedalDown' })),
+    }),
+  };
+}
+
+/**
+ * An exercise as a .mid file. When a performance is given it is added as an
+ * extra track on the same grid, so the take lines up under the written notes.
+ */
+export function exerciseToMidiFile(exercise: Exercise, performance?: RecordedPerformance): Uint8Array {
+  const bpm = exerciseQuarterBpm(exercise);
+  const tracks = exerciseToMidiTracks(exercise);
+  if (performance && performance.notes.length > 0) {
+    const timeline = createTempoTimeline(exercise.settings);
+    const quartersPerBeat = 4 / exercise.settings.timeSignature[1];
+    tracks.push(
+      performanceToMidiTrack(performance.notes, {
+        bpm,
+        msToQuarters: (ms) => timeline.msToBeat(ms) * quartersPerBeat,
+        originMs: 0,
+        name: 'Performance',
+        pedal: performance.pedal,
+      }),
+    );
+  }
+
+  const ticksPerBeat = (DEFAULT_TICKS_PER_QUARTER * 4) / exercise.settings.timeSignature[1];
+  return writeMidiFile({
+    title: exercise.metadata.title,
+    ticksPerQuarter: DEFAULT_TICKS_PER_QUARTER,
+    tempoMap: exerciseTempoEvents(exercise, DEFAULT_TICKS_PER_QUARTER),
+    timeSignatures: meterSpans(exercise.settings).map((span) => ({
+      tick: Math.round(span.beat * ticksPerBeat),
+      numerator: span.timeSignature[0],
+      denominator: span.timeSignature[1],
+    })),
+    keySignatures: [{ tick: 0, key: exercise.settings.keySignature }],
+    tracks,
+  });
+}
+
+/** A free-play recording as a .mid file, starting at its first event */
+export function performanceToMidiFile(
+  events: MidiNoteEvent[],
+  options: { bpm?: number; title?: string; pedal?: SustainPedalEvent[] } = {},
+): Uint8Array {
+  const bpm = options.bpm ?? 60000000 / DEFAULT_MICROSECONDS_PER_QUARTER;
+  const originMs = Math.min(...events.map((e) => e.timestamp), ...(options.pedal ?? []).map((p) => p.timestamp));
+  return writeMidiFile({
+    title: options.title,
+    ticksPerQuarter: DEFAULT_TICKS_PER_QUARTER,
+    tempoMap: [{ tick: 0, microsecondsPerQuarter: 60000000 / bpm, bpm }],
+    timeSignatures: [{ tick: 0, numerator: 4, denominator: 4 }],
+    keySignatures: [],
+    tracks: events.length > 0 ? [performanceToMidiTrack(events, { bpm, originMs, pedal: options.pedal })] : [],
+  });
+}
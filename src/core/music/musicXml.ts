@@ -0,0 +1,415 @@
+/**
+ * MusicXML Parser
+ *
+ * Reads partwise MusicXML (the format most free sheet music ships in) into
+ * parts of pitched notes with absolute positions in quarter notes, plus the
+ * measure list (rehearsal marks, repeat barlines, endings), meter, key and
+ * tempo. Callers decide how to turn quarters into beats and sections.
+ *
+ * Ties are merged into single notes. Tuplets need no special handling since
+ * <duration> already carries the actual length. Grace and cue notes are
+ * dropped. Anything lossy is reported in `warnings`.
+ *
+ * For compressed .mxl files, extract the score first with readMxlArchive.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import { keySignatureName } from './midiFile';
+import { childElement, childElements, childText, findPath, parseXml } from './xml';
+import type { XmlElement } from './xml';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface MusicXmlNote {
+  note: number; // MIDI note number
+  startQuarter: number; // From the start of the score
+  durationQuarters: number;
+  staff: number; // 1-based; staff 1 is the upper staff of a grand staff
+  voice: string;
+  finger?: 1 | 2 | 3 | 4 | 5;
+  measureIndex: number;
+}
+
+export interface MusicXmlPart {
+  id: string;
+  name: string;
+  staves: number;
+  notes: MusicXmlNote[]; // Sorted by startQuarter, then pitch
+}
+
+export interface MusicXmlMeasure {
+  index: number; // 0-based position in the score
+  number: string; // As printed (pickup bars are often "0")
+  startQuarter: number;
+  durationQuarters: number;
+  rehearsal?: string;
+  repeatForward?: boolean; // |: at the start of this measure
+  repeatBackward?: boolean; // :| at the end of this measure
+  ending?: string; // Volta number(s), e.g. "1" or "1, 2"
+}
+
+export interface MusicXmlTimeSignature {
+  measureIndex: number;
+  numerator: number;
+  denominator: number;
+}
+
+export interface MusicXmlTempoChange {
+  startQuarter: number;
+  bpm: number; // Quarter notes per minute
+}
+
+export interface MusicXmlScore {
+  title: string;
+  composer: string;
+  parts: MusicXmlPart[];
+  measures: MusicXmlMeasure[];
+  timeSignatures: MusicXmlTimeSignature[]; // Always starts at measure 0
+  tempoMap: MusicXmlTempoChange[]; // Empty when the score gives no tempo
+  key: string | null; // First key signature, e.g. "G" or "Em"
+  warnings: string[];
+}
+
+export type MusicXmlParseOutput = MusicXmlScore | { error: string };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** Length of a <beat-unit> in quarter notes */
+const BEAT_UNIT_QUARTERS: Record<string, number> = {
+  whole: 4,
+  half: 2,
+  quarter: 1,
+  eighth: 0.5,
+  '16th': 0.25,
+};
+
+/** Positions closer than this (in quarters) count as the same time */
+const EPSILON = 1e-6;
+
+// ---------------------------------------------------------------------------
+// Helpers (exported for unit testing)
+// ---------------------------------------------------------------------------
+
+/** MIDI note number from a MusicXML <pitch> (step, alter, octave) */
+export function pitchToMidi(step: string, octave: number, alter = 0): number {
+  return (octave + 1) * 12 + (STEP_SEMITONES[step.toUpperCase()] ?? 0) + Math.round(alter);
+}
+
+function numberText(element: XmlElement | undefined, name: string): number | undefined {
+  const text = childText(element, name);
+  if (text === undefined || text === '') return undefined;
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseFinger(note: XmlElement): MusicXmlNote['finger'] {
+  const text = findPath(note, 'notations', 'technical', 'fingering')?.text;
+  const finger = text ? parseInt(text, 10) : NaN; // "1-2" substitutions keep the first finger
+  return finger >= 1 && finger <= 5 ? (finger as MusicXmlNote['finger']) : undefined;
+}
+
+/** Tempo from a <direction> or <sound>, in quarter notes per minute */
+function readTempo(element: XmlElement): number | undefined {
+  const sound = element.name === 'sound' ? element : childElement(element, 'sound');
+  const soundTempo = sound?.attributes.tempo ? parseFloat(sound.attributes.tempo) : NaN;
+  if (soundTempo > 0) return soundTempo;
+
+  const metronome = findPath(element, 'direction-type', 'metronome');
+  const perMinute = numberText(metronome, 'per-minute');
+  const unit = BEAT_UNIT_QUARTERS[childText(metronome, 'beat-unit') ?? ''];
+  if (!perMinute || !unit) return undefined;
+  const dotted = childElement(metronome, 'beat-unit-dot') ? 1.5 : 1;
+  return perMinute * unit * dotted;
+}
+
+// ---------------------------------------------------------------------------
+// Part parsing
+// ---------------------------------------------------------------------------
+
+/** A note positioned within its measure; made absolute once measure lengths are known */
+interface RawNote {
+  note: number;
+  measureIndex: number;
+  offset: number;
+  duration: number;
+  staff: number;
+  voice: string;
+  finger?: MusicXmlNote['finger'];
+  tieStart: boolean;
+  tieStop: boolean;
+}
+
+interface RawTempo {
+  measureIndex: number;
+  offset: number;
+  bpm: number;
+}
+
+interface MeasureInfo {
+  number: string;
+  extent: number; // Furthest position reached, in quarters
+  rehearsal?: string;
+  repeatForward?: boolean;
+  repeatBackward?: boolean;
+  ending?: string;
+  time?: { numerator: number; denominator: number };
+}
+
+interface PartParseResult {
+  notes: RawNote[];
+  tempos: RawTempo[];
+  measures: MeasureInfo[];
+  staves: number;
+  key: string | null;
+}
+
+interface Counters {
+  grace: number;
+  cue: number;
+  unpitched: number;
+  tuplet: number;
+}
+
+function parsePart(part: XmlElement, counters: Counters): PartParseResult {
+  const notes: RawNote[] = [];
+  const tempos: RawTempo[] = [];
+  const measures: MeasureInfo[] = [];
+  let divisions = 1;
+  let staves = 1;
+  let key: string | null = null;
+
+  childElements(part, 'measure').forEach((measure, measureIndex) => {
+    const info: MeasureInfo = { number: measure.attributes.number ?? String(measureIndex + 1), extent: 0 };
+    measures.push(info);
+    let cursor = 0;
+    let lastStart = 0;
+
+    for (const el of measure.children) {
+      switch (el.name) {
+        case 'attributes': {
+          divisions = numberText(el, 'divisions') ?? divisions;
+          staves = Math.max(staves, numberText(el, 'staves') ?? 1);
+          const keyEl = childElement(el, 'key');
+          const fifths = numberText(keyEl, 'fifths');
+          if (key === null && fifths !== undefined) {
+            key = keySignatureName(fifths, childText(keyEl, 'mode') === 'minor');
+          }
+          const time = childElement(el, 'time');
+          const beats = parseInt(childText(time, 'beats') ?? '', 10); // "3+2" → 3; rare in piano music
+          const beatType = numberText(time, 'beat-type');
+          if (beats > 0 && beatType) info.time = { numerator: beats, denominator: beatType };
+          break;
+        }
+        case 'direction': {
+          const rehearsal = findPath(el, 'direction-type', 'rehearsal')?.text;
+          if (rehearsal && !info.rehearsal) info.rehearsal = rehearsal;
+          const bpm = readTempo(el);
+          if (bpm) tempos.push({ measureIndex, offset: cursor, bpm });
+          break;
+        }
+        case 'sound': {
+          const bpm = readTempo(el);
+          if (bpm) tempos.push({ measureIndex, offset: cursor, bpm });
+          break;
+        }
+        case 'barline': {
+          const repeat = childElement(el, 'repeat')?.attributes.direction;
+          if (repeat === 'forward') info.repeatForward = true;
+          if (repeat === 'backward') info.repeatBackward = true;
+          const ending = childElement(el, 'ending');
+          if (ending?.attributes.type === 'start') info.ending = ending.attributes.number;
+          break;
+        }
+        case 'backup':
+          cursor = Math.max(0, cursor - (numberText(el, 'duration') ?? 0) / divisions);
+          break;
+        case 'forward':
+          cursor += (numberText(el, 'duration') ?? 0) / divisions;
+          info.extent = Math.max(info.extent, cursor);
+          break;
+        case 'note': {
+          if (childElement(el, 'grace')) {
+            counters.grace++;
+            break;
+          }
+          const duration = (numberText(el, 'duration') ?? 0) / divisions;
+          const isChord = !!childElement(el, 'chord');
+          const start = isChord ? lastStart : cursor;
+          if (!isChord) {
+            lastStart = cursor;
+            cursor += duration;
+            info.extent = Math.max(info.extent, cursor);
+          }
+
+          if (childElement(el, 'cue')) {
+            counters.cue++;
+            break;
+          }
+          if (childElement(el, 'rest')) break;
+          const pitch = childElement(el, 'pitch');
+          if (!pitch) {
+            if (childElement(el, 'unpitched')) counters.unpitched++;
+            break;
+          }
+          if (childElement(el, 'time-modification')) counters.tuplet++;
+
+          const ties = childElements(el, 'tie').map((t) => t.attributes.type);
+          notes.push({
+            note: pitchToMidi(childText(pitch, 'step') ?? 'C', numberText(pitch, 'octave') ?? 4, numberText(pitch, 'alter')),
+            measureIndex,
+            offset: start,
+            duration,
+            staff: numberText(el, 'staff') ?? 1,
+            voice: childText(el, 'voice') ?? '1',
+            finger: parseFinger(el),
+            tieStart: ties.includes('start'),
+            tieStop: ties.includes('stop'),
+          });
+          break;
+        }
+      }
+    }
+  });
+
+  return { notes, tempos, measures, staves, key };
+}
+
+/** Join tied notes into one, matching on staff + pitch and contiguous timing */
+function mergeTies(notes: MusicXmlNote[], raw: RawNote[]): { notes: MusicXmlNote[]; merged: number } {
+  const merged: MusicXmlNote[] = [];
+  const open = new Map<string, MusicXmlNote>();
+  let mergedCount = 0;
+
+  notes.forEach((note, i) => {
+    const key = `${note.staff}:${note.note}`;
+    const held = raw[i].tieStop ? open.get(key) : undefined;
+    if (held && Math.abs(held.startQuarter + held.durationQuarters - note.startQuarter) < EPSILON) {
+      held.durationQuarters += note.durationQuarters;
+      mergedCount++;
+      if (!raw[i].tieStart) open.delete(key);
+      return;
+    }
+    merged.push(note);
+    if (raw[i].tieStart) open.set(key, note);
+    else open.delete(key);
+  });
+
+  return { notes: merged, merged: mergedCount };
+}
+
+// ---------------------------------------------------------------------------
+// Main parser
+// ---------------------------------------------------------------------------
+
+export function parseMusicXml(source: string): MusicXmlParseOutput {
+  let root: XmlElement;
+  try {
+    root = parseXml(source);
+  } catch (e) {
+    return { error: `Malformed MusicXML: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  if (root.name === 'score-timewise') {
+    return { error: 'Timewise MusicXML is not supported (convert to partwise first)' };
+  }
+  if (root.name !== 'score-partwise') {
+    return { error: `Not a MusicXML score (root element <${root.name}>)` };
+  }
+
+  const partElements = childElements(root, 'part');
+  if (partElements.length === 0) {
+    return { error: 'MusicXML score has no parts' };
+  }
+
+  const partNames = new Map(
+    childElements(childElement(root, 'part-list'), 'score-part').map((p) => [p.attributes.id, childText(p, 'part-name') ?? '']),
+  );
+  const counters: Counters = { grace: 0, cue: 0, unpitched: 0, tuplet: 0 };
+  const parsed = partElements.map((p) => parsePart(p, counters));
+
+  // Measure lengths: the longest any part reaches, else the nominal bar length
+  const measureCount = Math.max(...parsed.map((p) => p.measures.length));
+  const measures: MusicXmlMeasure[] = [];
+  const timeSignatures: MusicXmlTimeSignature[] = [];
+  let meter = { numerator: 4, denominator: 4 };
+  let position = 0;
+  for (let i = 0; i < measureCount; i++) {
+    const infos = parsed.map((p) => p.measures[i]).filter((m): m is MeasureInfo => !!m);
+    const time = infos.find((m) => m.time)?.time;
+    if (time) meter = time;
+    if (time || i === 0) timeSignatures.push({ measureIndex: i, ...meter });
+
+    const extent = Math.max(...infos.map((m) => m.extent));
+    const duration = extent > EPSILON ? extent : (meter.numerator * 4) / meter.denominator;
+    const first = infos[0];
+    const rehearsal = infos.find((m) => m.rehearsal)?.rehearsal;
+    measures.push({
+      index: i,
+      number: first.number,
+      startQuarter: position,
+      durationQuarters: duration,
+      ...(rehearsal && { rehearsal }),
+      ...(first.repeatForward && { repeatForward: true }),
+      ...(first.repeatBackward && { repeatBackward: true }),
+      ...(first.ending && { ending: first.ending }),
+    });
+    position += duration;
+  }
+
+  const warnings: string[] = [];
+  let tiesMerged = 0;
+  const parts: MusicXmlPart[] = parsed.map((p, i) => {
+    const order = p.notes
+      .map((raw, index) => ({ raw, index, start: measures[raw.measureIndex].startQuarter + raw.offset }))
+      .sort((a, b) => a.start - b.start || a.raw.note - b.raw.note);
+    const absolute: MusicXmlNote[] = order.map(({ raw, start }) => ({
+      note: raw.note,
+      startQuarter: start,
+      durationQuarters: raw.duration,
+      staff: raw.staff,
+      voice: raw.voice,
+      ...(raw.finger && { finger: raw.finger }),
+      measureIndex: raw.measureIndex,
+    }));
+    const { notes, merged } = mergeTies(absolute, order.map((o) => o.raw));
+    tiesMerged += merged;
+
+    const id = partElements[i].attributes.id ?? `P${i + 1}`;
+    return { id, name: partNames.get(id) ?? '', staves: p.staves, notes };
+  });
+
+  const tempoMap = parsed
+    .flatMap((p) => p.tempos)
+    .map((t) => ({ startQuarter: measures[t.measureIndex].startQuarter + t.offset, bpm: t.bpm }))
+    .sort((a, b) => a.startQuarter - b.startQuarter)
+    .filter((t, i, all) => i === 0 || Math.abs(t.bpm - all[i - 1].bpm) > EPSILON);
+
+  if (tiesMerged > 0) warnings.push(`Merged ${tiesMerged} tied note(s)`);
+  if (counters.tuplet > 0) warnings.push(`${counters.tuplet} tuplet note(s) imported at their exact (fractional) length`);
+  if (counters.grace > 0) warnings.push(`Dropped ${counters.grace} grace note(s)`);
+  if (counters.cue > 0) warnings.push(`Dropped ${counters.cue} cue note(s)`);
+  if (counters.unpitched > 0) warnings.push(`Dropped ${counters.unpitched} unpitched (percussion) note(s)`);
+
+  const work = childText(childElement(root, 'work'), 'work-title');
+  const composer = childElements(childElement(root, 'identification'), 'creator').find(
+    (c) => c.attributes.type === 'composer',
+  )?.text;
+
+  return {
+    title: work || childText(root, 'movement-title') || '',
+    composer: composer ?? '',
+    parts,
+    measures,
+    timeSignatures,
+    tempoMap,
+    key: parsed.find((p) => p.key)?.key ?? null,
+    warnings,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Compressed MusicXML (.mxl) reader
+ *
+ * An .mxl file is a ZIP archive whose META-INF/container.xml names the root
+ * score. This reads the ZIP central directory and returns the score text.
+ * Stored entries are read directly; deflated entries need an `inflateRaw`
+ * implementation from the caller (e.g. Node's zlib.inflateRawSync in scripts),
+ * which keeps this module free of native and Node dependencies.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import { childElement, childElements, parseXml } from './xml';
+
+/** Decompress a raw DEFLATE stream (no zlib/gzip header) */
+export type InflateRaw = (data: Uint8Array) => Uint8Array;
+
+export type MxlReadOutput = { xml: string; path: string } | { error: string };
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const CONTAINER_PATH = 'META-INF/container.xml';
+
+interface ZipEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function uint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+/** UTF-8 → string without relying on TextDecoder (not available on every JS engine) */
+export function decodeUtf8(bytes: Uint8Array): string {
+  let out = '';
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0; // Skip BOM
+  while (i < bytes.length) {
+    const b = bytes[i++];
+    let codePoint = b;
+    if (b >= 0xf0) {
+      codePoint = ((b & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b >= 0xe0) {
+      codePoint = ((b & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b >= 0xc0) {
+      codePoint = ((b & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    }
+    out += String.fromCodePoint(codePoint);
+  }
+  return out;
+}
+
+/** True when the bytes start with a ZIP local file header ("PK\x03\x04") */
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && uint32(bytes, 0) === LOCAL_HEADER_SIGNATURE;
+}
+
+function readCentralDirectory(bytes: Uint8Array): ZipEntry[] {
+  let eocd = -1;
+  for (let i = bytes.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (uint32(bytes, i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('ZIP end of central directory not found');
+
+  const count = uint16(bytes, eocd + 10);
+  let offset = uint32(bytes, eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || uint32(bytes, offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = uint16(bytes, offset + 28);
+    const extraLength = uint16(bytes, offset + 30);
+    const commentLength = uint16(bytes, offset + 32);
+    entries.push({
+      method: uint16(bytes, offset + 10),
+      compressedSize: uint32(bytes, offset + 20),
+      localHeaderOffset: uint32(bytes, offset + 42),
+      path: decodeUtf8(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readEntry(bytes: Uint8Array, entry: ZipEntry, inflateRaw?: InflateRaw): Uint8Array {
+  const header = entry.localHeaderOffset;
+  if (uint32(bytes, header) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry ${entry.path}`);
+  }
+  const start = header + 30 + uint16(bytes, header + 26) + uint16(bytes, header + 28);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (data.length < entry.compressedSize) throw new Error(`ZIP entry ${entry.path} is truncated`);
+
+  if (entry.method === METHOD_STORED) return data;
+  if (entry.method === METHOD_DEFLATE) {
+    if (!inflateRaw) throw new Error(`${entry.path} is deflate-compressed and no inflater was provided`);
+    return inflateRaw(data);
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.path}`);
+}
+
+// ---------------------------------------------------------------------------
+// Main reader
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the root score from an .mxl archive. Uses the container manifest
+ * when present, otherwise the first .xml/.musicxml file outside META-INF.
+ */
+export function readMxlArchive(bytes: Uint8Array, inflateRaw?: InflateRaw): MxlReadOutput {
+  try {
+    const entries = readCentralDirectory(bytes);
+    const byPath = new Map(entries.map((e) => [e.path, e]));
+
+    let rootPath: string | undefined;
+    const container = byPath.get(CONTAINER_PATH);
+    if (container) {
+      const manifest = parseXml(decodeUtf8(readEntry(bytes, container, inflateRaw)));
+      const rootfiles = childElements(childElement(manifest, 'rootfiles'), 'rootfile');
+      rootPath = rootfiles.find((r) => !r.attributes['media-type']?.includes('pdf'))?.attributes['full-path'];
+    }
+    rootPath ??= entries.find((e) => !e.path.startsWith('META-INF/') && /\.(xml|musicxml)$/i.test(e.path))?.path;
+
+    const root = rootPath ? byPath.get(rootPath) : undefined;
+    if (!root) return { error: 'No MusicXML score found in .mxl archive' };
+
+    return { xml: decodeUtf8(readEntry(bytes, root, inflateRaw)), path: root.path };
+  } catch (e) {
+    return { error: `Malformed .mxl archive: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
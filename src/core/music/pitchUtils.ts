@@ -4,6 +4,9 @@
  *
  * Reference: A4 = 440 Hz = MIDI note 69
  * Formula: midi = 12 * log2(freq / 440) + 69
+ *
+ * `tuningCents` shifts the reference for an instrument tuned away from A=440
+ * (e.g. -15.7 for a piano at A=436), so its notes map to the keys played.
  */
 
 /** A4 reference frequency in Hz */
@@ -16,17 +19,17 @@ const A4_MIDI = 69;
  * Convert frequency (Hz) to MIDI note number (continuous, not rounded).
  * Returns NaN for non-positive frequencies.
  */
-export function frequencyToMidi(frequency: number): number {
+export function frequencyToMidi(frequency: number, tuningCents = 0): number {
   if (frequency <= 0) return NaN;
-  return 12 * Math.log2(frequency / A4_FREQ) + A4_MIDI;
+  return 12 * Math.log2(frequency / A4_FREQ) + A4_MIDI - tuningCents / 100;
 }
 
 /**
  * Convert frequency (Hz) to the nearest integer MIDI note number.
  * Returns null for non-positive or out-of-range frequencies.
  */
-export function frequencyToNearestMidi(frequency: number): number | null {
-  const midi = frequencyToMidi(frequency);
+export function frequencyToNearestMidi(frequency: number, tuningCents = 0): number | null {
+  const midi = frequencyToMidi(frequency, tuningCents);
   if (isNaN(midi)) return null;
   const rounded = Math.round(midi);
   // Piano range: 21 (A0) to 108 (C8)
@@ -46,12 +49,28 @@ export function midiToFrequency(midiNote: number): number {
  * Positive = sharp, negative = flat.
  * 100 cents = 1 semitone.
  */
-export function frequencyCentsOffset(frequency: number): number {
-  const midi = frequencyToMidi(frequency);
+export function frequencyCentsOffset(frequency: number, tuningCents = 0): number {
+  const midi = frequencyToMidi(frequency, tuningCents);
   if (isNaN(midi)) return 0;
   return (midi - Math.round(midi)) * 100;
 }
 
+/**
+ * Cents between a frequency and a given MIDI note's equal-tempered pitch.
+ * Unlike frequencyCentsOffset, not folded to the nearest note.
+ */
+export function centsFromNote(frequency: number, midiNote: number): number {
+  if (frequency <= 0) return NaN;
+  return 1200 * Math.log2(frequency / midiToFrequency(midiNote));
+}
+
+/**
+ * A4 frequency (Hz) of an instrument tuned `tuningCents` from A=440.
+ */
+export function tuningCentsToA4(tuningCents: number): number {
+  return A4_FREQ * Math.pow(2, tuningCents / 1200);
+}
+
 /**
  * Check if a frequency is within a reasonable piano range.
  * A0 (27.5 Hz) to C8 (4186 Hz).
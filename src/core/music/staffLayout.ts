@@ -0,0 +1,347 @@
+/**
+ * Grand-Staff Layout
+ *
+ * Turns Exercise.notes into engraving decisions for a treble + bass staff:
+ * which staff each note sits on, its vertical position, spelling and
+ * accidentals under the key signature, ledger lines, note values, stem
+ * direction and beam groups. The renderer only has to draw what this says.
+ *
+ * Positions count diatonic steps from the bottom line of the staff
+ * (0 = bottom line, 8 = top line, negative = below). Horizontal spacing is
+ * left to the renderer — the layout keeps beat positions so a playhead can
+ * move linearly across it.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import type { MeterChange, NoteEvent } from '../exercises/types';
+import { measureStartBeats, meterAt } from '../exercises/tempoMap';
+import { keySignatureFromName } from './midiFile';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type StaffClef = 'treble' | 'bass';
+export type StaffAccidental = 'sharp' | 'flat' | 'natural';
+export type StaffNoteValue = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
+
+export interface StaffNoteHead {
+  /** Index into Exercise.notes — lets the renderer colour by live status */
+  index: number;
+  note: number;
+  position: number;
+  accidental?: StaffAccidental;
+}
+
+/** Notes on one staff sharing a start beat — drawn on a single stem */
+export interface StaffChord {
+  clef: StaffClef;
+  startBeat: number;
+  durationBeats: number;
+  value: StaffNoteValue;
+  dotted: boolean;
+  stemUp: boolean;
+  /** Lowest to highest */
+  heads: StaffNoteHead[];
+  /** Ledger line positions needed by any head */
+  ledgerLines: number[];
+  /** Index into StaffLayout.beams when the chord is beamed */
+  beam?: number;
+}
+
+export interface StaffBeam {
+  clef: StaffClef;
+  /** Indices into StaffLayout.chords, in time order */
+  chords: number[];
+  stemUp: boolean;
+}
+
+export interface StaffKeyAccidental {
+  accidental: 'sharp' | 'flat';
+  position: number;
+}
+
+export interface StaffLayout {
+  keySignature: Record<StaffClef, StaffKeyAccidental[]>;
+  chords: StaffChord[];
+  beams: StaffBeam[];
+  /** Start beat of every measure, plus the closing bar line */
+  barLines: number[];
+  /** Opening bar length; later bars follow `meterChanges` */
+  beatsPerMeasure: number;
+  /** Time-signature changes after the opening one */
+  meterChanges: MeterChange[];
+  totalBeats: number;
+}
+
+export interface StaffLayoutOptions {
+  timeSignature: [number, number];
+  keySignature: string;
+  /** Later time-signature changes (ExerciseSettings.meterMap) */
+  meterMap?: MeterChange[];
+  /** MIDI note that splits unassigned notes between staves (default 60) */
+  splitPoint?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Diatonic step of each staff's bottom line (letter + octave * 7) */
+const BOTTOM_LINE_STEP: Record<StaffClef, number> = {
+  treble: 2 + 4 * 7, // E4
+  bass: 4 + 2 * 7, // G2
+};
+
+/** Middle line — stems go down from here up */
+export const STAFF_MIDDLE_POSITION = 4;
+export const STAFF_TOP_POSITION = 8;
+
+// Letter (C=0 … B=6) and alteration for each pitch class
+const SHARP_SPELLING: [number, number][] = [
+  [0, 0], [0, 1], [1, 0], [1, 1], [2, 0], [3, 0], [3, 1], [4, 0], [4, 1], [5, 0], [5, 1], [6, 0],
+];
+const FLAT_SPELLING: [number, number][] = [
+  [0, 0], [1, -1], [1, 0], [2, -1], [2, 0], [3, 0], [4, -1], [4, 0], [5, -1], [5, 0], [6, -1], [6, 0],
+];
+
+// Key-signature order and treble-clef positions (bass is two steps lower)
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6]; // F C G D A E B
+const FLAT_ORDER = [6, 2, 5, 1, 4, 0, 3]; // B E A D G C F
+const SHARP_TREBLE_POSITIONS = [8, 5, 9, 6, 3, 7, 4];
+const FLAT_TREBLE_POSITIONS = [4, 7, 3, 6, 2, 5, 1];
+
+// Note values in quarter notes, longest first
+const NOTE_VALUES: { value: StaffNoteValue; quarters: number; dotted: boolean }[] = [
+  { value: 'whole', quarters: 4, dotted: false },
+  { value: 'half', quarters: 3, dotted: true },
+  { value: 'half', quarters: 2, dotted: false },
+  { value: 'quarter', quarters: 1.5, dotted: true },
+  { value: 'quarter', quarters: 1, dotted: false },
+  { value: 'eighth', quarters: 0.75, dotted: true },
+  { value: 'eighth', quarters: 0.5, dotted: false },
+  { value: 'sixteenth', quarters: 0.375, dotted: true },
+  { value: 'sixteenth', quarters: 0.25, dotted: false },
+];
+
+const EPSILON = 1e-6;
+
+// ---------------------------------------------------------------------------
+// Helpers (exported for unit testing)
+// ---------------------------------------------------------------------------
+
+/** Sharps (>0) or flats (<0) in a key name; unknown names count as C */
+export function keySignatureCount(key: string): number {
+  return keySignatureFromName(key)?.sharpsOrFlats ?? 0;
+}
+
+/** Accidentals drawn after the clef, in standard order */
+export function keySignatureAccidentals(key: string, clef: StaffClef): StaffKeyAccidental[] {
+  const count = keySignatureCount(key);
+  const offset = clef === 'bass' ? -2 : 0;
+  const positions = count >= 0 ? SHARP_TREBLE_POSITIONS : FLAT_TREBLE_POSITIONS;
+  return positions.slice(0, Math.abs(count)).map((position) => ({
+    accidental: count >= 0 ? 'sharp' : 'flat',
+    position: position + offset,
+  }));
+}
+
+/**
+ * Spell a MIDI note as letter + alteration — sharps in sharp keys, flats in
+ * flat keys. Double accidentals and E#/Cb spellings aren't produced.
+ */
+export function spellNote(note: number, key: string): { letter: number; alter: number; octave: number } {
+  const [letter, alter] = (keySignatureCount(key) < 0 ? FLAT_SPELLING : SHARP_SPELLING)[((note % 12) + 12) % 12];
+  return { letter, alter, octave: Math.floor(note / 12) - 1 };
+}
+
+/** Staff position of a spelled note */
+export function staffPosition(letter: number, octave: number, clef: StaffClef): number {
+  return letter + octave * 7 - BOTTOM_LINE_STEP[clef];
+}
+
+/** Ledger lines needed to reach a position (empty when it's on the staff) */
+export function ledgerLinesFor(position: number): number[] {
+  const lines: number[] = [];
+  for (let p = -2; p >= position; p -= 2) lines.push(p);
+  for (let p = STAFF_TOP_POSITION + 2; p <= position; p += 2) lines.push(p);
+  return lines;
+}
+
+/** Longest standard (optionally dotted) value that fits a duration in quarters */
+export function noteValueFor(quarters: number): { value: StaffNoteValue; dotted: boolean } {
+  const match = NOTE_VALUES.find((v) => quarters >= v.quarters - EPSILON) ?? NOTE_VALUES[NOTE_VALUES.length - 1];
+  return { value: match.value, dotted: match.dotted };
+}
+
+/** Which staff a note belongs on — by hand, else by the split point */
+export function clefFor(note: NoteEvent, splitPoint = 60): StaffClef {
+  if (note.hand) return note.hand === 'right' ? 'treble' : 'bass';
+  return note.note >= splitPoint ? 'treble' : 'bass';
+}
+
+/**
+ * Beats covered by one beam group: a dotted quarter in compound meters
+ * (6/8, 9/8, 12/8), otherwise one quarter note.
+ */
+export function beamGroupBeats(timeSignature: [number, number]): number {
+  const [numerator, denominator] = timeSignature;
+  const compound = denominator >= 8 && numerator > 3 && numerator % 3 === 0;
+  return compound ? 3 : denominator / 4;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** Lay out exercise notes on a grand staff */
+export function layoutGrandStaff(notes: NoteEvent[], options: StaffLayoutOptions): StaffLayout {
+  const { timeSignature, keySignature, meterMap } = options;
+  const splitPoint = options.splitPoint ?? 60;
+  const beatsPerMeasure = timeSignature[0];
+  const quartersPerBeat = 4 / timeSignature[1];
+
+  const lastBeat = notes.reduce((end, n) => Math.max(end, n.startBeat + n.durationBeats), 0);
+  const barLines = measureStartBeats({ timeSignature, meterMap }, lastBeat);
+  const measureOf = (beat: number) => {
+    let measure = 0;
+    while (measure + 1 < barLines.length && barLines[measure + 1] <= beat + EPSILON) measure++;
+    return measure;
+  };
+
+  // Key-signature alteration per letter
+  const count = keySignatureCount(keySignature);
+  const keyAlter = new Array<number>(7).fill(0);
+  (count >= 0 ? SHARP_ORDER : FLAT_ORDER)
+    .slice(0, Math.abs(count))
+    .forEach((letter) => (keyAlter[letter] = count >= 0 ? 1 : -1));
+
+  // Group notes into chords by staff and start beat
+  const indexed = notes
+    .map((note, index) => ({ note, index, clef: clefFor(note, splitPoint) }))
+    .sort((a, b) => a.note.startBeat - b.note.startBeat || a.note.note - b.note.note);
+
+  const chords: StaffChord[] = [];
+  const open = new Map<string, StaffChord>();
+  // Alterations in force for the rest of the bar, keyed by clef + step
+  let measureAlters = new Map<string, number>();
+  let currentMeasure = -1;
+
+  for (const { note, index, clef } of indexed) {
+    const measure = measureOf(note.startBeat);
+    if (measure !== currentMeasure) {
+      currentMeasure = measure;
+      measureAlters = new Map();
+    }
+
+    const { letter, alter, octave } = spellNote(note.note, keySignature);
+    const position = staffPosition(letter, octave, clef);
+    const alterKey = `${clef}:${letter + octave * 7}`;
+    const inForce = measureAlters.get(alterKey) ?? keyAlter[letter];
+    let accidental: StaffAccidental | undefined;
+    if (alter !== inForce) {
+      accidental = alter > 0 ? 'sharp' : alter < 0 ? 'flat' : 'natural';
+      measureAlters.set(alterKey, alter);
+    }
+
+    const chordKey = `${clef}:${note.startBeat}`;
+    let chord = open.get(chordKey);
+    if (!chord) {
+      const { value, dotted } = noteValueFor(note.durationBeats * quartersPerBeat);
+      chord = {
+        clef,
+        startBeat: note.startBeat,
+        durationBeats: note.durationBeats,
+        value,
+        dotted,
+        stemUp: true,
+        heads: [],
+        ledgerLines: [],
+      };
+      open.set(chordKey, chord);
+      chords.push(chord);
+    }
+    chord.heads.push({ index, note: note.note, position, ...(accidental ? { accidental } : {}) });
+  }
+
+  for (const chord of chords) {
+    chord.heads.sort((a, b) => a.position - b.position);
+    const lowest = chord.heads[0].position;
+    const highest = chord.heads[chord.heads.length - 1].position;
+    chord.ledgerLines = [...new Set([...ledgerLinesFor(lowest), ...ledgerLinesFor(highest)])].sort((a, b) => a - b);
+    chord.stemUp = (lowest + highest) / 2 < STAFF_MIDDLE_POSITION;
+  }
+
+  // Beam group for a beat: its bar plus which group inside the bar's meter
+  const beamGroupOf = (beat: number) => {
+    const measure = measureOf(beat);
+    const meter = meterAt({ timeSignature, meterMap }, beat).timeSignature;
+    const groupBeats = (beamGroupBeats(meter) * timeSignature[1]) / meter[1];
+    return measure * 1000 + Math.floor((beat - barLines[measure]) / groupBeats + EPSILON);
+  };
+  const beams = beamChords(chords, beamGroupOf);
+
+  return {
+    keySignature: {
+      treble: keySignatureAccidentals(keySignature, 'treble'),
+      bass: keySignatureAccidentals(keySignature, 'bass'),
+    },
+    chords,
+    beams,
+    barLines,
+    beatsPerMeasure,
+    meterChanges: (meterMap ?? []).filter((c) => c.beat > 0 && c.beat < barLines[barLines.length - 1]),
+    totalBeats: barLines[barLines.length - 1],
+  };
+}
+
+/**
+ * Beam runs of back-to-back eighths and sixteenths on the same staff that
+ * fall inside one beam group. A beamed run shares one stem direction,
+ * chosen by the head furthest from the middle line.
+ */
+function beamChords(chords: StaffChord[], beamGroupOf: (beat: number) => number): StaffBeam[] {
+  const beams: StaffBeam[] = [];
+
+  for (const clef of ['treble', 'bass'] as const) {
+    let run: number[] = [];
+    let runGroup = -1;
+
+    const flush = () => {
+      if (run.length >= 2) {
+        const members = run.map((i) => chords[i]);
+        const extreme = members
+          .flatMap((c) => c.heads.map((h) => h.position - STAFF_MIDDLE_POSITION))
+          .reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a), 0);
+        const stemUp = extreme < 0;
+        const beam = beams.length;
+        members.forEach((c) => {
+          c.beam = beam;
+          c.stemUp = stemUp;
+        });
+        beams.push({ clef, chords: run, stemUp });
+      }
+      run = [];
+    };
+
+    chords.forEach((chord, i) => {
+      if (chord.clef !== clef) return;
+      const beamable = chord.value === 'eighth' || chord.value === 'sixteenth';
+      const group = beamGroupOf(chord.startBeat);
+      const previous = run.length > 0 ? chords[run[run.length - 1]] : null;
+      const contiguous = previous !== null && Math.abs(previous.startBeat + previous.durationBeats - chord.startBeat) < EPSILON;
+
+      if (!beamable) {
+        flush();
+        return;
+      }
+      if (!contiguous || group !== runGroup) flush();
+      run.push(i);
+      runGroup = group;
+    });
+    flush();
+  }
+
+  return beams;
+}
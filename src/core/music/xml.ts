@@ -0,0 +1,145 @@
+/**
+ * Minimal XML reader
+ *
+ * Just enough XML for score formats (MusicXML and the .mxl container
+ * manifest): elements, attributes, text, CDATA, comments, processing
+ * instructions, DOCTYPE and the predefined/numeric entities. No namespaces,
+ * no DTD validation. Throws on malformed input.
+ *
+ * Pure TypeScript — no React imports, no DOM (works on device too).
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element (trimmed) */
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/** Parse a document and return its root element */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  const texts: string[][] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) throw new Error(`Unterminated ${what}`);
+    const content = source.slice(pos, end);
+    pos = end + terminator.length;
+    return content;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const textEnd = lt < 0 ? source.length : lt;
+    if (textEnd > pos && stack.length > 0) {
+      texts[texts.length - 1].push(decodeEntities(source.slice(pos, textEnd)));
+    }
+    if (lt < 0) break;
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      pos += 4;
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      const data = skipPast(']]>', 'CDATA section');
+      if (stack.length > 0) texts[texts.length - 1].push(data);
+    } else if (source.startsWith('<?', pos)) {
+      pos += 2;
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      pos += 2;
+      const bracket = source.indexOf('[', pos);
+      const close = source.indexOf('>', pos);
+      if (bracket >= 0 && bracket < close) {
+        pos = bracket;
+        skipPast(']', 'DOCTYPE');
+      }
+      skipPast('>', 'DOCTYPE');
+    } else if (source.startsWith('</', pos)) {
+      pos += 2;
+      const name = skipPast('>', 'closing tag').trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new Error(`Mismatched closing tag </${name}>`);
+      }
+      element.text = (texts.pop() ?? []).join('').trim();
+    } else {
+      pos += 1;
+      const tag = skipPast('>', 'tag');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) throw new Error('Tag without a name');
+
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: [],
+        text: '',
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new Error('Document has more than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+        texts.push([]);
+      }
+    }
+  }
+
+  if (stack.length > 0) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) throw new Error('Document has no root element');
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Navigation helpers
+// ---------------------------------------------------------------------------
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((c) => c.name === name);
+}
+
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter((c) => c.name === name) ?? [];
+}
+
+export function childText(element: XmlElement | undefined, name: string): string | undefined {
+  return childElement(element, name)?.text;
+}
+
+/** Follow a path of child names, e.g. findPath(note, 'notations', 'technical', 'fingering') */
+export function findPath(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  return names.reduce<XmlElement | undefined>((current, name) => childElement(current, name), element);
+}
@@ -121,7 +121,7 @@ export function createEmptyStreak(): StreakData {
  * BUG-008 fix: was using toISOString() which gives UTC dates, causing
  * the streak "day" boundary to fall at midnight UTC instead of midnight local.
  */
-function localDateString(date: Date = new Date()): string {
+export function localDateString(date: Date = new Date()): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -4,7 +4,7 @@
  * Validates conversion of ABC notation → NoteEvent[] arrays.
  */
 
-import { parseABC, abcPitchToMidi, abcDurationToBeats } from '../abcParser';
+import { parseABC, abcPitchToMidi, abcDurationToBeats, parseEndingPasses } from '../abcParser';
 import type { ABCParseResult } from '../abcParser';
 
 // ---------------------------------------------------------------------------
@@ -216,6 +216,54 @@ describe('parseABC', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// parseABC — repeat structure
+// ---------------------------------------------------------------------------
+
+describe('parseABC — form', () => {
+  it('keeps notes in written order and reports repeats with their endings', () => {
+    const abc = 'X:1\nT:Repeats\nM:4/4\nL:1/4\nK:C\nCDEF:|\n|:GABc|1cBAG:|2cGEC|]';
+    const result = expectSuccess(parseABC(abc));
+
+    expect(result.notes).toHaveLength(16);
+    expect(result.form).toEqual({
+      repeats: [
+        { startBeat: 0, endBeat: 4, times: 2, endings: [] },
+        {
+          startBeat: 4,
+          endBeat: 16,
+          times: 2,
+          endings: [
+            { startBeat: 8, endBeat: 12, passes: [1] },
+            { startBeat: 12, endBeat: 16, passes: [2] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('reports D.C. al Fine and coda marks', () => {
+    const dc = expectSuccess(parseABC('X:1\nT:DC\nM:4/4\nL:1/4\nK:C\nCDEF|GABc!fine!|cBAG!D.C.!|]'));
+    expect(dc.form.jump).toEqual({ type: 'dc', atBeat: 12, fineBeat: 8 });
+
+    const coda = expectSuccess(
+      parseABC('X:1\nT:Coda\nM:4/4\nL:1/4\nK:C\nCDEF!coda!|GABc!D.C.!|!coda!cGEC|]'),
+    );
+    expect(coda.form.jump).toEqual({ type: 'dc', atBeat: 8, toCodaBeat: 4, codaBeat: 8 });
+  });
+
+  it('reports no form for a plain tune', () => {
+    const result = expectSuccess(parseABC('X:1\nT:Plain\nM:4/4\nL:1/4\nK:C\nCDEF|GABc|'));
+    expect(result.form).toEqual({ repeats: [] });
+  });
+
+  it('reads volta labels', () => {
+    expect(parseEndingPasses('1')).toEqual([1]);
+    expect(parseEndingPasses('1,3')).toEqual([1, 3]);
+    expect(parseEndingPasses('1-3')).toEqual([1, 2, 3]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // parseABC — error cases
 // ---------------------------------------------------------------------------
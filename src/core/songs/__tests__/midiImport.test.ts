@@ -0,0 +1,194 @@
+/**
+ * MIDI import tests — hand assignment, sections, beat units, validation
+ */
+
+import { estimateDifficulty, importMidiSong, midiFileToExercise, midiFileToSong } from '../midiImport';
+import type { MidiImportResult } from '../midiImport';
+import type { MidiFile, MidiFileNote } from '../../music/midiFile';
+import type { Song } from '../songTypes';
+import type { Exercise } from '../../exercises/types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TPQ = 480;
+
+function note(pitch: number, beat: number, beats = 1, channel = 0): MidiFileNote {
+  return { note: pitch, velocity: 90, channel, startTick: beat * TPQ, durationTicks: beats * TPQ };
+}
+
+function midiFile(tracks: Array<{ name?: string; notes: MidiFileNote[] }>, overrides: Partial<MidiFile> = {}): MidiFile {
+  return {
+    format: tracks.length > 1 ? 1 : 0,
+    ticksPerQuarter: TPQ,
+    tracks: tracks.map((t) => ({ name: t.name ?? '', notes: t.notes })),
+    tempoMap: [{ tick: 0, microsecondsPerQuarter: 500000, bpm: 120 }],
+    timeSignatures: [{ tick: 0, numerator: 4, denominator: 4 }],
+    keySignatures: [],
+    endTick: 0,
+    ...overrides,
+  };
+}
+
+/** C major scale over 4 bars, one note per beat */
+const scale = (start = 60) => Array.from({ length: 16 }, (_, i) => note(start + [0, 2, 4, 5, 7, 9, 11, 12][i % 8], i));
+
+function expectSong(result: ReturnType<typeof midiFileToSong>): MidiImportResult<Song> {
+  expect(result).not.toHaveProperty('error');
+  return result as MidiImportResult<Song>;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('midiFileToSong', () => {
+  it('splits a single track at middle C into melody and accompaniment', () => {
+    const { value: song } = expectSong(
+      midiFileToSong(midiFile([{ notes: [note(48, 0, 4), note(64, 0), note(65, 1), note(67, 2), note(72, 3)] }]), {
+        title: 'Split',
+      }),
+    );
+
+    const [section] = song.sections;
+    expect(section.layers.melody.map((n) => n.note)).toEqual([64, 65, 67, 72]);
+    expect(section.layers.accompaniment?.map((n) => n.note)).toEqual([48]);
+    expect(section.layers.full).toHaveLength(5);
+    expect(section.layers.full.find((n) => n.note === 48)?.hand).toBe('left');
+  });
+
+  it('assigns the highest track to the right hand when there are several', () => {
+    const { value: song } = expectSong(
+      midiFileToSong(
+        midiFile([
+          { name: 'Bass', notes: [note(43, 0, 4)] },
+          { name: 'Tune', notes: [note(72, 0), note(74, 1)] },
+        ]),
+      ),
+    );
+    expect(song.sections[0].layers.melody.map((n) => n.note)).toEqual([72, 74]);
+    expect(song.sections[0].layers.accompaniment?.map((n) => n.note)).toEqual([43]);
+  });
+
+  it('honours explicit track hands and skips unlisted tracks', () => {
+    const result = expectSong(
+      midiFileToSong(
+        midiFile([
+          { name: 'Strings', notes: [note(80, 0, 4)] },
+          { name: 'Piano RH', notes: [note(60, 0)] },
+        ]),
+        { trackHands: { 1: 'left' } },
+      ),
+    );
+    expect(result.value.sections[0].layers.full).toEqual([{ note: 60, startBeat: 0, durationBeats: 1, hand: 'left' }]);
+    expect(result.warnings.some((w) => w.includes('Strings'))).toBe(true);
+  });
+
+  it('cuts sections on bar lines with section-relative note beats', () => {
+    const { value: song } = expectSong(midiFileToSong(midiFile([{ notes: scale() }]), { barsPerSection: 2 }));
+
+    expect(song.sections.map((s) => [s.startBeat, s.endBeat, s.label])).toEqual([
+      [0, 8, 'Bars 1–2'],
+      [8, 16, 'Bars 3–4'],
+    ]);
+    expect(song.sections[1].layers.full[0].startBeat).toBe(0);
+  });
+
+  it('counts beats in the time signature denominator, like the ABC parser', () => {
+    const eighths = Array.from({ length: 6 }, (_, i) => note(67, i / 2, 0.5));
+    const { value: song } = expectSong(
+      midiFileToSong(midiFile([{ notes: eighths }], { timeSignatures: [{ tick: 0, numerator: 6, denominator: 8 }] })),
+    );
+
+    expect(song.settings.timeSignature).toEqual([6, 8]);
+    expect(song.settings.tempo).toBe(240); // 120 quarter-note BPM = 240 eighths per minute
+    expect(song.sections[0].layers.full.map((n) => n.startBeat)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(song.sections[0].endBeat).toBe(6);
+  });
+
+  it('keeps later tempo changes as a tempo map', () => {
+    const result = expectSong(
+      midiFileToSong(
+        midiFile([{ notes: scale() }], {
+          tempoMap: [
+            { tick: 0, microsecondsPerQuarter: 750000, bpm: 80 },
+            { tick: 8 * TPQ, microsecondsPerQuarter: 500000, bpm: 120 },
+          ],
+        }),
+      ),
+    );
+    expect(result.value.settings.tempo).toBe(80);
+    // 8 beats at 80 BPM + 8 beats at 120 BPM = 6s + 4s
+    expect(result.value.metadata.durationSeconds).toBe(10);
+    expect(result.value.settings.tempoMap).toEqual([{ beat: 8, tempo: 120 }]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps meter changes on bar lines as a meter map', () => {
+    const { value: song } = expectSong(
+      midiFileToSong(
+        midiFile([{ notes: scale() }], {
+          timeSignatures: [
+            { tick: 0, numerator: 4, denominator: 4 },
+            { tick: 8 * TPQ, numerator: 3, denominator: 4 },
+          ],
+        }),
+        { barsPerSection: 2 },
+      ),
+    );
+    expect(song.settings.meterMap).toEqual([{ beat: 8, timeSignature: [3, 4] }]);
+    expect(song.sections.map((s) => [s.startBeat, s.endBeat])).toEqual([
+      [0, 8],
+      [8, 14],
+      [14, 17],
+    ]);
+  });
+
+  it('drops percussion and out-of-range notes with warnings', () => {
+    const result = expectSong(midiFileToSong(midiFile([{ notes: [note(60, 0), note(36, 1, 1, 9), note(12, 2)] }])));
+    expect(result.value.sections[0].layers.full).toHaveLength(1);
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it('takes the key and title from the file', () => {
+    const { value: song } = expectSong(
+      midiFileToSong(midiFile([{ name: 'Minuet', notes: scale() }], { keySignatures: [{ tick: 0, key: 'G' }] })),
+    );
+    expect(song.metadata.title).toBe('Minuet');
+    expect(song.settings.keySignature).toBe('G');
+    expect(song.source).toBe('midi');
+  });
+
+  it('returns an error when there is nothing to play', () => {
+    expect(midiFileToSong(midiFile([{ notes: [note(36, 0, 1, 9)] }]))).toHaveProperty('error');
+  });
+});
+
+describe('midiFileToExercise', () => {
+  it('builds a validated exercise with absolute beats', () => {
+    const result = midiFileToExercise(midiFile([{ notes: scale(72) }]), { id: 'midi-scale', title: 'Scale' });
+    expect(result).not.toHaveProperty('error');
+    const exercise = (result as MidiImportResult<Exercise>).value;
+
+    expect(exercise.id).toBe('midi-scale');
+    expect(exercise.notes).toHaveLength(16);
+    expect(exercise.notes[15].startBeat).toBe(15);
+    expect(exercise.hands).toBe('right');
+  });
+});
+
+describe('importMidiSong', () => {
+  it('passes parser errors through', () => {
+    expect(importMidiSong(new Uint8Array(4))).toHaveProperty('error');
+  });
+});
+
+describe('estimateDifficulty', () => {
+  it('grows with note density', () => {
+    const notes = scale().map((n) => ({ note: n.note, startBeat: n.startTick / TPQ, durationBeats: 1 }));
+    expect(estimateDifficulty(notes, 32)).toBe(1);
+    expect(estimateDifficulty(notes, 16)).toBe(2);
+    expect(estimateDifficulty(notes, 4)).toBe(5);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * MusicXML import tests — staves to hands, fingerings, sections, validation
+ */
+
+import { importMusicXmlSong, musicXmlToExercise, musicXmlToSong } from '../musicXmlImport';
+import type { MusicXmlMeasure, MusicXmlNote, MusicXmlPart, MusicXmlScore } from '../../music/musicXml';
+import type { SongImportResult } from '../songImportUtils';
+import type { Song } from '../songTypes';
+import type { Exercise } from '../../exercises/types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function note(pitch: number, quarter: number, staff = 1, extra: Partial<MusicXmlNote> = {}): MusicXmlNote {
+  return {
+    note: pitch,
+    startQuarter: quarter,
+    durationQuarters: 1,
+    staff,
+    voice: '1',
+    measureIndex: Math.floor(quarter / 4),
+    ...extra,
+  };
+}
+
+function part(notes: MusicXmlNote[], staves = 1, name = ''): MusicXmlPart {
+  return { id: `P-${name}`, name, staves, notes };
+}
+
+function measures(count: number, marks: Partial<MusicXmlMeasure>[] = []): MusicXmlMeasure[] {
+  return Array.from({ length: count }, (_, i) => ({
+    index: i,
+    number: String(i + 1),
+    startQuarter: i * 4,
+    durationQuarters: 4,
+    ...marks[i],
+  }));
+}
+
+function makeScore(parts: MusicXmlPart[], overrides: Partial<MusicXmlScore> = {}): MusicXmlScore {
+  return {
+    title: 'Sonatina',
+    composer: 'Clementi',
+    parts,
+    measures: measures(4),
+    timeSignatures: [{ measureIndex: 0, numerator: 4, denominator: 4 }],
+    tempoMap: [{ startQuarter: 0, bpm: 100 }],
+    key: 'C',
+    warnings: [],
+    ...overrides,
+  };
+}
+
+/** One right-hand note per beat over 4 bars, with a left-hand note per bar */
+const pianoPart = () =>
+  part(
+    [
+      ...Array.from({ length: 16 }, (_, i) => note(72 + (i % 5), i, 1, i === 0 ? { finger: 1 } : {})),
+      ...Array.from({ length: 4 }, (_, i) => note(48, i * 4, 2, { durationQuarters: 4 })),
+    ],
+    2,
+    'Piano',
+  );
+
+function expectSong(result: ReturnType<typeof musicXmlToSong>): SongImportResult<Song> {
+  expect(result).not.toHaveProperty('error');
+  return result as SongImportResult<Song>;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('musicXmlToSong', () => {
+  it('maps grand-staff staves to hands and keeps fingerings', () => {
+    const { value: song } = expectSong(musicXmlToSong(makeScore([pianoPart()])));
+    const [section] = song.sections;
+
+    expect(section.layers.melody.every((n) => n.note >= 72)).toBe(true);
+    expect(section.layers.accompaniment?.every((n) => n.note === 48)).toBe(true);
+    expect(section.layers.melody[0]).toEqual({ note: 72, startBeat: 0, durationBeats: 1, hand: 'right', finger: 1 });
+    expect(song.metadata).toMatchObject({ title: 'Sonatina', artist: 'Clementi' });
+    expect(song.source).toBe('musicxml');
+    expect(song.settings.tempo).toBe(100);
+  });
+
+  it('skips other parts when there is a grand-staff part', () => {
+    const voice = part([note(79, 0)], 1, 'Voice');
+    const result = expectSong(musicXmlToSong(makeScore([voice, pianoPart()])));
+    expect(result.value.sections[0].layers.full.some((n) => n.note === 79)).toBe(false);
+    expect(result.warnings.some((w) => w.includes('Voice'))).toBe(true);
+  });
+
+  it('honours explicit part hands', () => {
+    const upper = part([note(76, 0), note(77, 1)], 1, 'Flute');
+    const lower = part([note(41, 0)], 1, 'Cello');
+    const { value: song } = expectSong(musicXmlToSong(makeScore([upper, lower]), { partHands: { 0: 'left', 1: 'right' } }));
+    expect(song.sections[0].layers.melody.map((n) => n.note)).toEqual([41]);
+  });
+
+  it('cuts sections at rehearsal marks', () => {
+    const score = makeScore([pianoPart()], { measures: measures(4, [{}, {}, { rehearsal: 'B' }]) });
+    const { value: song } = expectSong(musicXmlToSong(score));
+    expect(song.sections.map((s) => [s.label, s.startBeat, s.endBeat])).toEqual([
+      ['Bars 1–2', 0, 8],
+      ['B', 8, 16],
+    ]);
+    expect(song.sections[1].layers.full[0].startBeat).toBe(0);
+  });
+
+  it('cuts sections at repeats and warns that they are not expanded', () => {
+    const score = makeScore([pianoPart()], {
+      measures: measures(4, [{}, { repeatForward: true }, { repeatBackward: true }]),
+    });
+    const result = expectSong(musicXmlToSong(score));
+    expect(result.value.sections.map((s) => s.label)).toEqual(['Bars 1–1', 'Bars 2–3', 'Bars 4–4']);
+    expect(result.warnings.some((w) => w.includes('Repeats'))).toBe(true);
+  });
+
+  it('falls back to fixed bar groups', () => {
+    const { value: song } = expectSong(musicXmlToSong(makeScore([pianoPart()]), { barsPerSection: 3 }));
+    expect(song.sections.map((s) => s.label)).toEqual(['Bars 1–3', 'Bars 4–4']);
+  });
+
+  it('counts beats in eighths for 6/8 and passes parser warnings through', () => {
+    const score = makeScore([part([note(67, 0), note(69, 1.5)])], {
+      timeSignatures: [{ measureIndex: 0, numerator: 6, denominator: 8 }],
+      measures: [{ index: 0, number: '1', startQuarter: 0, durationQuarters: 3 }],
+      tempoMap: [],
+      warnings: ['Dropped 2 grace note(s)'],
+    });
+    const result = expectSong(musicXmlToSong(score));
+    expect(result.value.settings).toMatchObject({ tempo: 240, timeSignature: [6, 8] });
+    expect(result.value.sections[0].layers.full.map((n) => n.startBeat)).toEqual([0, 3]);
+    expect(result.warnings).toEqual(expect.arrayContaining(['Dropped 2 grace note(s)', 'No tempo marking — using 240 BPM']));
+  });
+
+  it('returns an error when nothing is playable', () => {
+    expect(musicXmlToSong(makeScore([part([note(12, 0)])]))).toHaveProperty('error');
+  });
+});
+
+describe('musicXmlToExercise', () => {
+  it('builds a validated two-handed exercise', () => {
+    const result = musicXmlToExercise(makeScore([pianoPart()]), { id: 'sonatina-ex' });
+    expect(result).not.toHaveProperty('error');
+    const exercise = (result as SongImportResult<Exercise>).value;
+    expect(exercise.id).toBe('sonatina-ex');
+    expect(exercise.hands).toBe('both');
+    expect(exercise.notes).toHaveLength(20);
+  });
+});
+
+describe('importMusicXmlSong', () => {
+  it('parses uncompressed MusicXML bytes end to end', () => {
+    const xml = `<score-partwise><movement-title>Tiny</movement-title>
+      <part id="P1"><measure number="1"><attributes><divisions>1</divisions></attributes>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>4</duration></note>
+      </measure></part></score-partwise>`;
+    const result = importMusicXmlSong(new Uint8Array(Buffer.from(xml, 'utf8')));
+    expect(result).not.toHaveProperty('error');
+    expect((result as SongImportResult<Song>).value.metadata.title).toBe('Tiny');
+  });
+
+  it('passes parse errors through', () => {
+    expect(importMusicXmlSong('<not-a-score/>')).toHaveProperty('error');
+  });
+});
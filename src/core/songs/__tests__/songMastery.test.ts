@@ -9,11 +9,30 @@ import {
   gemRewardForTier,
   masteryLabel,
   masteryColor,
+  masterySectionIds,
 } from '../songMastery';
 import type { SongMastery } from '../songTypes';
 
 const SECTIONS = ['verse-1', 'chorus', 'verse-2'];
 
+describe('masterySectionIds', () => {
+  it('counts a repeated section once', () => {
+    const section = (id: string, startBeat: number) => ({
+      id,
+      label: id,
+      startBeat,
+      endBeat: startBeat + 4,
+      difficulty: 1 as const,
+      layers: { melody: [], full: [] },
+    });
+    const song = {
+      sections: [section('a', 0), section('b', 4)],
+      structure: { repeats: [{ startSectionId: 'a', endSectionId: 'a', times: 3 }] },
+    };
+    expect(masterySectionIds(song)).toEqual(['a', 'b']);
+  });
+});
+
 describe('computeMasteryTier', () => {
   it('returns none when no sections played', () => {
     expect(computeMasteryTier({}, SECTIONS, 'melody')).toBe('none');
@@ -0,0 +1,257 @@
+/**
+ * Song Structure Tests
+ *
+ * Repeats, volta endings and D.C./D.S. expansion, timing along the playback
+ * order, validation, and building sections from parsed repeat marks.
+ */
+
+import {
+  expandPlaybackOrder,
+  playbackNotes,
+  playbackTimingSettings,
+  sectionsFromWrittenForm,
+  validateSongStructure,
+} from '../songStructure';
+import type { WrittenForm } from '../songStructure';
+import { parseABC } from '../abcParser';
+import type { ABCParseResult } from '../abcParser';
+import type { Song, SongSection, SongStructure } from '../songTypes';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const section = (id: string, startBeat: number, endBeat: number, endingPasses?: number[]): SongSection => ({
+  id,
+  label: id,
+  startBeat,
+  endBeat,
+  difficulty: 2,
+  layers: {
+    melody: [{ note: 60, startBeat: 0, durationBeats: 1 }],
+    full: [{ note: 60, startBeat: 0, durationBeats: 1 }],
+  },
+  ...(endingPasses && { endingPasses }),
+});
+
+// |: A :| |: B |1 B1 :|2 B2 | C  D.S. al Fine (segno at B, Fine after B2)
+const SECTIONS = [
+  section('a', 0, 8),
+  section('b', 8, 12),
+  section('b1', 12, 16, [1]),
+  section('b2', 16, 20, [2]),
+  section('c', 20, 28),
+];
+
+const STRUCTURE: SongStructure = {
+  repeats: [
+    { startSectionId: 'a', endSectionId: 'a' },
+    { startSectionId: 'b', endSectionId: 'b2' },
+  ],
+  jump: { type: 'ds', afterSectionId: 'c', segnoSectionId: 'b', fineSectionId: 'b2' },
+};
+
+const order = (song: Pick<Song, 'sections' | 'structure'>) =>
+  expandPlaybackOrder(song).map((step) => `${step.section.id}${step.afterJump ? '*' : ''}`);
+
+// ---------------------------------------------------------------------------
+// expandPlaybackOrder
+// ---------------------------------------------------------------------------
+
+describe('expandPlaybackOrder', () => {
+  it('plays sections once in written order without a structure', () => {
+    const steps = expandPlaybackOrder({ sections: SECTIONS });
+    expect(steps.map((s) => s.section.id)).toEqual(['a', 'b', 'b1', 'b2', 'c']);
+    expect(steps.map((s) => s.startBeat)).toEqual([0, 8, 12, 16, 20]);
+  });
+
+  it('repeats passages, takes endings by pass and stops at Fine after the D.S.', () => {
+    const steps = expandPlaybackOrder({ sections: SECTIONS, structure: STRUCTURE });
+    expect(order({ sections: SECTIONS, structure: STRUCTURE })).toEqual([
+      'a', 'a', 'b', 'b1', 'b', 'b2', 'c', 'b*', 'b2*',
+    ]);
+    expect(steps.map((s) => s.pass)).toEqual([1, 2, 1, 1, 2, 2, 1, 2, 2]);
+    expect(steps.map((s) => s.startBeat)).toEqual([0, 8, 16, 20, 24, 28, 32, 40, 44]);
+    expect(steps[steps.length - 1].endBeat).toBe(48);
+  });
+
+  it('plays a D.C. from the top and skips to the coda', () => {
+    const sections = [section('a', 0, 4), section('b', 4, 8), section('c', 8, 12), section('coda', 12, 16)];
+    const structure: SongStructure = {
+      jump: { type: 'dc', afterSectionId: 'c', toCodaSectionId: 'a', codaSectionId: 'coda' },
+    };
+    expect(order({ sections, structure })).toEqual(['a', 'b', 'c', 'a*', 'coda*']);
+  });
+
+  it('keeps gaps between sections that are played straight through', () => {
+    const steps = expandPlaybackOrder({ sections: [section('a', 0, 4), section('b', 6, 10)] });
+    expect(steps.map((s) => s.startBeat)).toEqual([0, 6]);
+  });
+});
+
+describe('playbackNotes', () => {
+  it('places each pass of a section on the performance timeline', () => {
+    const steps = expandPlaybackOrder({ sections: SECTIONS, structure: STRUCTURE });
+    expect(playbackNotes(steps, 'melody').map((n) => n.startBeat)).toEqual([0, 8, 16, 20, 24, 28, 32, 40, 44]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// playbackTimingSettings
+// ---------------------------------------------------------------------------
+
+describe('playbackTimingSettings', () => {
+  it('brings tempo and meter changes round with each repeat', () => {
+    const sections = [section('a', 0, 4), section('b', 4, 7)];
+    const steps = expandPlaybackOrder({
+      sections,
+      structure: { repeats: [{ startSectionId: 'a', endSectionId: 'b' }] },
+    });
+    const timing = playbackTimingSettings(
+      {
+        tempo: 100,
+        timeSignature: [4, 4],
+        tempoMap: [{ beat: 4, tempo: 80 }],
+        meterMap: [{ beat: 4, timeSignature: [3, 4] }],
+      },
+      steps,
+    );
+    expect(timing).toEqual({
+      tempo: 100,
+      tempoMap: [
+        { beat: 4, tempo: 80 },
+        { beat: 7, tempo: 100 },
+        { beat: 11, tempo: 80 },
+      ],
+      meterMap: [
+        { beat: 4, timeSignature: [3, 4] },
+        { beat: 7, timeSignature: [4, 4] },
+        { beat: 11, timeSignature: [3, 4] },
+      ],
+    });
+  });
+
+  it('adds nothing when a repeat comes back at the same tempo', () => {
+    const steps = expandPlaybackOrder({
+      sections: [section('a', 0, 4)],
+      structure: { repeats: [{ startSectionId: 'a', endSectionId: 'a' }] },
+    });
+    expect(playbackTimingSettings({ tempo: 100, timeSignature: [4, 4] }, steps)).toEqual({
+      tempo: 100,
+      tempoMap: undefined,
+      meterMap: undefined,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateSongStructure
+// ---------------------------------------------------------------------------
+
+describe('validateSongStructure', () => {
+  it('accepts a well-formed structure', () => {
+    expect(validateSongStructure({ sections: SECTIONS, structure: STRUCTURE })).toEqual([]);
+  });
+
+  it('rejects unknown sections, stray endings and a D.S. without a segno', () => {
+    const errors = validateSongStructure({
+      sections: SECTIONS,
+      structure: {
+        repeats: [{ startSectionId: 'a', endSectionId: 'missing' }],
+        jump: { type: 'ds', afterSectionId: 'c' },
+      },
+    });
+    expect(errors).toEqual([
+      'Repeat 0: unknown section "missing"',
+      'Section "b1": ending outside a repeat',
+      'Section "b2": ending outside a repeat',
+      'Jump: D.S. needs a segno section',
+    ]);
+  });
+
+  it('rejects overlapping repeats and endings beyond the last pass', () => {
+    const errors = validateSongStructure({
+      sections: SECTIONS,
+      structure: {
+        repeats: [
+          { startSectionId: 'a', endSectionId: 'b' },
+          { startSectionId: 'b', endSectionId: 'b2', times: 2 },
+        ],
+      },
+    });
+    expect(errors).toContain('Repeat 1: overlaps another repeat at "b"');
+
+    const threeEndings = validateSongStructure({
+      sections: [section('a', 0, 4), section('a3', 4, 8, [3])],
+      structure: { repeats: [{ startSectionId: 'a', endSectionId: 'a3' }] },
+    });
+    expect(threeEndings).toEqual(['Section "a3": ending passes must be between 1 and 2']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// sectionsFromWrittenForm
+// ---------------------------------------------------------------------------
+
+describe('sectionsFromWrittenForm', () => {
+  const parse = (body: string): ABCParseResult => {
+    const result = parseABC(`X:1\nT:Form\nM:4/4\nL:1/4\nK:C\n${body}`);
+    if ('error' in result) throw new Error(result.error);
+    return result;
+  };
+
+  it('cuts a part at its repeats and endings and labels the parts', () => {
+    const parsed = parse('|:CDEF|GABc:|\n|:cBAG|1FEDC:|2EDCC|]');
+    const { sections, structure } = sectionsFromWrittenForm(parsed.notes, parsed.form, {
+      difficulty: 2,
+      beatsPerBar: 4,
+    });
+
+    expect(sections.map((s) => [s.label, s.startBeat, s.endBeat])).toEqual([
+      ['Part A', 0, 8],
+      ['Part B', 8, 12],
+      ['Part B — 1st ending', 12, 16],
+      ['Part B — 2nd ending', 16, 20],
+    ]);
+    expect(sections[2].endingPasses).toEqual([1]);
+    expect(sections[1].layers.melody.map((n) => n.startBeat)).toEqual([0, 1, 2, 3]);
+    expect(structure).toEqual({
+      repeats: [
+        { startSectionId: 'section-0', endSectionId: 'section-0', times: 2 },
+        { startSectionId: 'section-1', endSectionId: 'section-3', times: 2 },
+      ],
+    });
+    // Sixteen bars of playing from five written bars
+    expect(expandPlaybackOrder({ sections, structure }).map((s) => s.section.id)).toEqual([
+      'section-0', 'section-0', 'section-1', 'section-2', 'section-1', 'section-3',
+    ]);
+  });
+
+  it('maps D.S. marks to the sections around them', () => {
+    const parsed = parse('CCCC|!segno!DDDD|EEEE!fine!|FFFF!D.S.!|]');
+    const { sections, structure } = sectionsFromWrittenForm(parsed.notes, parsed.form, {
+      difficulty: 2,
+      beatsPerBar: 4,
+    });
+    expect(structure).toEqual({
+      jump: { type: 'ds', afterSectionId: 'section-2', segnoSectionId: 'section-1', fineSectionId: 'section-1' },
+    });
+    expect(sections.map((s) => s.label)).toEqual(['Part A', 'Part B', 'Part C']);
+    expect(validateSongStructure({ sections, structure })).toEqual([]);
+  });
+
+  it('splits long unrepeated stretches every barsPerSection bars', () => {
+    const notes = Array.from({ length: 12 }, (_, i) => ({ note: 60, startBeat: i * 4, durationBeats: 4 }));
+    const form: WrittenForm = { repeats: [] };
+    const { sections, structure } = sectionsFromWrittenForm(notes, form, {
+      difficulty: 1,
+      beatsPerBar: 4,
+      barsPerSection: 8,
+    });
+    expect(sections.map((s) => [s.startBeat, s.endBeat])).toEqual([
+      [0, 32],
+      [32, 48],
+    ]);
+    expect(structure).toBeUndefined();
+  });
+});
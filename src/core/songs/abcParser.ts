@@ -10,6 +10,7 @@
 
 import abcjs from 'abcjs';
 import type { NoteEvent } from '@/core/exercises/types';
+import type { WrittenEnding, WrittenForm, WrittenJump, WrittenRepeat } from '@/core/songs/songStructure';
 
 // ---------------------------------------------------------------------------
 // Public types
@@ -21,6 +22,8 @@ export interface ABCParseResult {
   timeSignature: [number, number];
   keySignature: string;
   title: string;
+  /** Repeats, endings and D.C./D.S. marks — `notes` are in written order, not unrolled */
+  form: WrittenForm;
 }
 
 export type ABCParseOutput = ABCParseResult | { error: string };
@@ -118,6 +121,128 @@ function buildKeyAccidentals(
   return map;
 }
 
+// ---------------------------------------------------------------------------
+// Repeat structure
+// ---------------------------------------------------------------------------
+
+/** Volta numbers from an ending label: "1", "1,2", "1-3" */
+export function parseEndingPasses(label: string): number[] {
+  const passes = new Set<number>();
+  for (const part of label.split(',')) {
+    const [from, to] = part.split('-').map((n) => parseInt(n, 10));
+    if (isNaN(from)) continue;
+    for (let pass = from; pass <= (isNaN(to) ? from : to); pass++) passes.add(pass);
+  }
+  return [...passes].sort((a, b) => a - b);
+}
+
+interface FormBar {
+  type?: string;
+  startEnding?: string;
+  endEnding?: boolean;
+}
+
+/**
+ * Collects repeat and jump marks while the voice is walked. A `:|` without
+ * a matching `|:` repeats from the last double bar (or the start), as in
+ * ABC; an ending opening right after a `:|` belongs to that repeat.
+ */
+function createFormTracker() {
+  const repeats: WrittenRepeat[] = [];
+  let sectionStart = 0;
+  let open: { startBeat: number; endings: WrittenEnding[] } | null = null;
+  let lastClosed: WrittenRepeat | null = null;
+  let ending: { startBeat: number; passes: number[]; repeat: WrittenRepeat | null } | null = null;
+
+  let jump: Pick<WrittenJump, 'type' | 'atBeat'> | null = null;
+  let segnoBeat: number | undefined;
+  let fineBeat: number | undefined;
+  let toCodaBeat: number | undefined;
+  const codaMarks: Array<{ startBeat: number; endBeat: number }> = [];
+
+  const closeEnding = (beat: number) => {
+    if (!ending) return;
+    const closed = { startBeat: ending.startBeat, endBeat: beat, passes: ending.passes };
+    if (ending.repeat) {
+      ending.repeat.endings.push(closed);
+      ending.repeat.endBeat = Math.max(ending.repeat.endBeat, beat);
+    } else {
+      open?.endings.push(closed);
+    }
+    ending = null;
+  };
+
+  const closeRepeat = (beat: number) => {
+    if (ending && !ending.repeat) closeEnding(beat);
+    lastClosed = { startBeat: open?.startBeat ?? sectionStart, endBeat: beat, times: 2, endings: open?.endings ?? [] };
+    repeats.push(lastClosed);
+    open = null;
+    sectionStart = beat;
+  };
+
+  return {
+    bar(bar: FormBar, beat: number) {
+      if (bar.endEnding) closeEnding(beat);
+      switch (bar.type) {
+        case 'bar_left_repeat':
+          open = { startBeat: beat, endings: [] };
+          break;
+        case 'bar_right_repeat':
+          closeRepeat(beat);
+          break;
+        case 'bar_dbl_repeat':
+          closeRepeat(beat);
+          open = { startBeat: beat, endings: [] };
+          break;
+        case 'bar_thin_thin':
+        case 'bar_thick_thin':
+        case 'bar_thin_thick':
+          if (!open) sectionStart = beat;
+          break;
+      }
+      if (bar.startEnding) {
+        closeEnding(beat);
+        const repeat = open ? null : lastClosed?.endBeat === beat ? lastClosed : undefined;
+        if (repeat !== undefined) ending = { startBeat: beat, passes: parseEndingPasses(bar.startEnding), repeat };
+      }
+    },
+
+    /** Decorations on a bar (startBeat = endBeat) or on a note spanning startBeat–endBeat */
+    decorate(decorations: string[], startBeat: number, endBeat: number) {
+      for (const decoration of decorations) {
+        if (decoration === 'segno') segnoBeat = startBeat;
+        else if (decoration === 'fine') fineBeat = endBeat;
+        else if (decoration === 'coda') codaMarks.push({ startBeat, endBeat });
+        else if (decoration === 'dacoda') toCodaBeat = endBeat;
+        else if (decoration.startsWith('D.C.') || decoration === 'dacapo') jump = { type: 'dc', atBeat: endBeat };
+        else if (decoration.startsWith('D.S.')) jump = { type: 'ds', atBeat: endBeat };
+      }
+    },
+
+    finish(endBeat: number): WrittenForm {
+      closeEnding(endBeat);
+      for (const repeat of repeats) {
+        repeat.times = Math.max(2, ...repeat.endings.flatMap((e) => e.passes));
+      }
+      if (!jump) return { repeats };
+
+      // "To coda" is the first coda sign unless marked explicitly; the coda starts at the next one
+      const toCoda = toCodaBeat ?? (codaMarks.length >= 2 ? codaMarks[0].endBeat : undefined);
+      const codaSigns = toCodaBeat === undefined ? codaMarks.slice(1) : codaMarks;
+      const coda = toCoda === undefined ? undefined : codaSigns.find((m) => m.startBeat >= toCoda)?.startBeat;
+      return {
+        repeats,
+        jump: {
+          ...jump,
+          ...(jump.type === 'ds' && segnoBeat !== undefined && { segnoBeat }),
+          ...(fineBeat !== undefined && { fineBeat }),
+          ...(toCoda !== undefined && coda !== undefined && { toCodaBeat: toCoda, codaBeat: coda }),
+        },
+      };
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Main parser
 // ---------------------------------------------------------------------------
@@ -179,15 +304,26 @@ export function parseABC(abcString: string): ABCParseOutput {
   // Track active ties: MIDI note number → index in notes[] of the tied note
   const activeTies = new Map<number, number>();
 
+  // Repeat marks are read from the first voice of the first staff
+  const form = createFormTracker();
+
   for (const line of tune.lines) {
     if (!line.staff) continue;
-    for (const staff of line.staff) {
+    for (const [staffIndex, staff] of line.staff.entries()) {
       if (!staff.voices) continue;
-      for (const voice of staff.voices) {
+      for (const [voiceIndex, voice] of staff.voices.entries()) {
+        const tracksForm = staffIndex === 0 && voiceIndex === 0;
         for (const element of voice) {
+          if (tracksForm && element.el_type === 'bar') {
+            form.bar(element, currentBeat);
+            if (element.decoration) form.decorate(element.decoration, currentBeat, currentBeat);
+          }
           if (element.el_type !== 'note') continue;
 
           const beatsForElement = abcDurationToBeats(element.duration, beatValue);
+          if (tracksForm && element.decoration) {
+            form.decorate(element.decoration, currentBeat, currentBeat + beatsForElement);
+          }
 
           // Rests have no pitches — advance beat counter but don't emit notes
           if (!element.pitches || element.pitches.length === 0) {
@@ -241,5 +377,6 @@ export function parseABC(abcString: string): ABCParseOutput {
     timeSignature,
     keySignature,
     title,
+    form: form.finish(currentBeat),
   };
 }
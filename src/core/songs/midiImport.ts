@@ -0,0 +1,361 @@
+/**
+ * MIDI File → Song / Exercise conversion
+ *
+ * Turns a parsed Standard MIDI File (see core/music/midiFile.ts) into a Song
+ * with bar-aligned sections and melody/accompaniment layers, or into a single
+ * Exercise. Tracks are assigned to hands automatically or via options.
+ *
+ * Beats follow the same convention as abcParser: one beat = one unit of the
+ * time signature's denominator (an eighth note in 6/8), and the tempo is
+ * expressed in those units.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import { parseMidiFile, ticksToSeconds } from '@/core/music/midiFile';
+import type { MidiFile, MidiFileNote } from '@/core/music/midiFile';
+import { validateExercise } from '@/core/exercises/ExerciseValidator';
+import type { Exercise, MeterChange, NoteEvent, TempoChange } from '@/core/exercises/types';
+import type { Song, SongGenre, SongSection, SongSource } from '@/core/songs/songTypes';
+import { validateSong } from '@/core/songs/songValidator';
+import {
+  IMPORT_SCORING,
+  buildLayers,
+  buildMeterMap,
+  buildTempoMap,
+  estimateDifficulty,
+  handsUsed,
+  roundBeat,
+  slugify,
+} from '@/core/songs/songImportUtils';
+import type { SongImportOutput, SongImportResult } from '@/core/songs/songImportUtils';
+
+export { estimateDifficulty };
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** What to do with a track: play it with one hand, split it at splitPoint, or drop it */
+export type TrackHand = 'left' | 'right' | 'split' | 'skip';
+
+export interface MidiImportOptions {
+  id?: string;
+  title?: string;
+  artist?: string;
+  genre?: SongGenre;
+  difficulty?: 1 | 2 | 3 | 4 | 5;
+  attribution?: string;
+  source?: SongSource;
+  /**
+   * Track index → hand. When given, tracks not listed are skipped.
+   * When omitted, a single note track is split at splitPoint; with several,
+   * the highest-pitched track is the right hand and the rest the left.
+   */
+  trackHands?: Record<number, TrackHand>;
+  /** MIDI note where 'split' tracks divide into hands (default 60, middle C → right) */
+  splitPoint?: number;
+  /** Bars per song section (default 8) */
+  barsPerSection?: number;
+}
+
+export type MidiImportResult<T> = SongImportResult<T>;
+
+export type MidiImportOutput<T> = SongImportOutput<T>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SPLIT_POINT = 60;
+const DEFAULT_BARS_PER_SECTION = 8;
+const PERCUSSION_CHANNEL = 9; // GM channel 10
+const PIANO_MIN = 21;
+const PIANO_MAX = 108;
+
+// ---------------------------------------------------------------------------
+// Hand assignment
+// ---------------------------------------------------------------------------
+
+interface HandedNote {
+  source: MidiFileNote;
+  hand: 'left' | 'right';
+}
+
+/** Default assignment: split a lone track, otherwise highest average pitch = right hand */
+function autoTrackHands(tracks: MidiFileNote[][]): Record<number, TrackHand> {
+  const withNotes = tracks
+    .map((notes, index) => ({ index, notes }))
+    .filter((t) => t.notes.length > 0);
+
+  if (withNotes.length === 1) return { [withNotes[0].index]: 'split' };
+
+  const avgPitch = (notes: MidiFileNote[]) => notes.reduce((s, n) => s + n.note, 0) / notes.length;
+  const ranked = [...withNotes].sort((a, b) => avgPitch(b.notes) - avgPitch(a.notes));
+  const hands: Record<number, TrackHand> = {};
+  ranked.forEach((t, i) => {
+    hands[t.index] = i === 0 ? 'right' : 'left';
+  });
+  return hands;
+}
+
+/** Collect notes with hands, dropping percussion and out-of-range pitches */
+function assignHands(midi: MidiFile, options: MidiImportOptions, warnings: string[]): HandedNote[] {
+  const splitPoint = options.splitPoint ?? DEFAULT_SPLIT_POINT;
+
+  let percussion = 0;
+  const tracks = midi.tracks.map((t) =>
+    t.notes.filter((n) => {
+      if (n.channel !== PERCUSSION_CHANNEL) return true;
+      percussion++;
+      return false;
+    }),
+  );
+  if (percussion > 0) warnings.push(`Dropped ${percussion} percussion note(s) on channel 10`);
+
+  const hands = options.trackHands ?? autoTrackHands(tracks);
+  for (const index of Object.keys(hands).map(Number)) {
+    if (index < 0 || index >= tracks.length) {
+      warnings.push(`Track ${index} does not exist (file has ${tracks.length} track(s))`);
+    }
+  }
+
+  const handed: HandedNote[] = [];
+  let outOfRange = 0;
+  tracks.forEach((notes, index) => {
+    const assignment = hands[index] ?? 'skip';
+    if (assignment === 'skip') {
+      if (notes.length > 0) {
+        const name = midi.tracks[index].name || `#${index}`;
+        warnings.push(`Skipped track ${index} (${name}, ${notes.length} notes)`);
+      }
+      return;
+    }
+    for (const note of notes) {
+      if (note.note < PIANO_MIN || note.note > PIANO_MAX) {
+        outOfRange++;
+        continue;
+      }
+      const hand = assignment === 'split' ? (note.note >= splitPoint ? 'right' : 'left') : assignment;
+      handed.push({ source: note, hand });
+    }
+  });
+  if (outOfRange > 0) warnings.push(`Dropped ${outOfRange} note(s) outside the piano range`);
+
+  return handed.sort((a, b) => a.source.startTick - b.source.startTick || a.source.note - b.source.note);
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+interface BeatGrid {
+  ticksPerBeat: number;
+  tempo: number; // Beats per minute, in the grid's beat unit
+  timeSignature: [number, number];
+  tempoMap?: TempoChange[];
+  meterMap?: MeterChange[];
+}
+
+/** The initial meter and tempo become the exercise settings; later changes become its tempo/meter maps */
+function buildBeatGrid(midi: MidiFile, warnings: string[]): BeatGrid {
+  const meter = midi.timeSignatures[0];
+  const ticksPerBeat = (midi.ticksPerQuarter * 4) / meter.denominator;
+  const toTempo = (bpm: number) => Math.round(bpm * (meter.denominator / 4));
+  const tempo = toTempo(midi.tempoMap[0].bpm);
+  const timeSignature: [number, number] = [meter.numerator, meter.denominator];
+
+  if (midi.timeSignatures.some((ts) => ts.denominator !== meter.denominator)) {
+    warnings.push(`Meter changes to a different beat unit — beats are counted in 1/${meter.denominator} notes`);
+  }
+
+  const tempoMap = buildTempoMap(
+    tempo,
+    midi.tempoMap.map((t) => ({ beat: roundBeat(t.tick / ticksPerBeat), tempo: toTempo(t.bpm) })),
+  );
+  const meterMap = buildMeterMap(
+    timeSignature,
+    midi.timeSignatures.map((ts) => ({
+      beat: roundBeat(ts.tick / ticksPerBeat),
+      timeSignature: [ts.numerator, ts.denominator],
+    })),
+    warnings,
+  );
+
+  return { ticksPerBeat, tempo, timeSignature, tempoMap, meterMap };
+}
+
+/** Bar start ticks up to (and including the bar containing) endTick, following meter changes */
+function barStartTicks(midi: MidiFile, endTick: number): number[] {
+  const bars: number[] = [];
+  let tick = 0;
+  let meterIndex = 0;
+  while (tick < endTick || bars.length === 0) {
+    while (meterIndex + 1 < midi.timeSignatures.length && midi.timeSignatures[meterIndex + 1].tick <= tick) {
+      meterIndex++;
+    }
+    const meter = midi.timeSignatures[meterIndex];
+    bars.push(tick);
+    tick += (meter.numerator * midi.ticksPerQuarter * 4) / meter.denominator;
+  }
+  bars.push(tick);
+  return bars;
+}
+
+function toNoteEvent(handed: HandedNote, offsetTick: number, grid: BeatGrid): NoteEvent {
+  return {
+    note: handed.source.note,
+    startBeat: roundBeat((handed.source.startTick - offsetTick) / grid.ticksPerBeat),
+    durationBeats: Math.max(0.001, roundBeat(handed.source.durationTicks / grid.ticksPerBeat)),
+    hand: handed.hand,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Song conversion
+// ---------------------------------------------------------------------------
+
+export function midiFileToSong(midi: MidiFile, options: MidiImportOptions = {}): MidiImportOutput<Song> {
+  const warnings: string[] = [];
+  const handed = assignHands(midi, options, warnings);
+  if (handed.length === 0) {
+    return { error: 'No playable notes found in MIDI file' };
+  }
+
+  const grid = buildBeatGrid(midi, warnings);
+  const lastTick = Math.max(...handed.map((n) => n.source.startTick + n.source.durationTicks));
+  const bars = barStartTicks(midi, lastTick);
+  const barsPerSection = Math.max(1, options.barsPerSection ?? DEFAULT_BARS_PER_SECTION);
+
+  const sections: SongSection[] = [];
+  let cursor = 0;
+  for (let bar = 0; bar < bars.length - 1; bar += barsPerSection) {
+    const lastBar = Math.min(bar + barsPerSection, bars.length - 1);
+    const startTick = bars[bar];
+    const endTick = bars[lastBar];
+
+    // Notes belong to the section they start in
+    const sectionNotes: NoteEvent[] = [];
+    while (cursor < handed.length && handed[cursor].source.startTick < endTick) {
+      sectionNotes.push(toNoteEvent(handed[cursor], startTick, grid));
+      cursor++;
+    }
+    if (sectionNotes.length === 0) continue;
+
+    const startBeat = roundBeat(startTick / grid.ticksPerBeat);
+    const endBeat = roundBeat(endTick / grid.ticksPerBeat);
+    sections.push({
+      id: `section-${sections.length}`,
+      label: `Bars ${bar + 1}–${lastBar}`,
+      startBeat,
+      endBeat,
+      difficulty: options.difficulty ?? estimateDifficulty(sectionNotes, endBeat - startBeat),
+      layers: buildLayers(sectionNotes),
+    });
+  }
+
+  const title = options.title || midi.tracks.find((t) => t.name)?.name || 'Imported MIDI';
+  const allNotes = sections.flatMap((s) => s.layers.full);
+  const source = options.source ?? 'midi';
+
+  const song: Song = {
+    id: options.id ?? `${source}-${slugify(title)}`,
+    version: 1,
+    type: 'song',
+    source,
+    metadata: {
+      title,
+      artist: options.artist ?? 'Unknown',
+      genre: options.genre ?? 'classical',
+      difficulty: options.difficulty ?? estimateDifficulty(allNotes, lastTick / grid.ticksPerBeat),
+      durationSeconds: Math.round(ticksToSeconds(lastTick, midi)),
+      attribution: options.attribution ?? 'Imported from MIDI',
+    },
+    sections,
+    settings: {
+      tempo: grid.tempo,
+      timeSignature: grid.timeSignature,
+      ...(grid.tempoMap && { tempoMap: grid.tempoMap }),
+      ...(grid.meterMap && { meterMap: grid.meterMap }),
+      keySignature: midi.keySignatures[0]?.key ?? 'C',
+      countIn: 4,
+      metronomeEnabled: true,
+      loopEnabled: true,
+    },
+    scoring: { ...IMPORT_SCORING },
+  };
+
+  const validation = validateSong(song);
+  if (!validation.valid) {
+    return { error: `Imported song failed validation: ${validation.errors.slice(0, 5).join('; ')}` };
+  }
+
+  return { value: song, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Exercise conversion
+// ---------------------------------------------------------------------------
+
+export function midiFileToExercise(
+  midi: MidiFile,
+  options: MidiImportOptions = {},
+): MidiImportOutput<Exercise> {
+  const warnings: string[] = [];
+  const handed = assignHands(midi, options, warnings);
+  if (handed.length === 0) {
+    return { error: 'No playable notes found in MIDI file' };
+  }
+
+  const grid = buildBeatGrid(midi, warnings);
+  const notes = handed.map((n) => toNoteEvent(n, 0, grid));
+  const totalBeats = Math.max(...notes.map((n) => n.startBeat + n.durationBeats));
+  const title = options.title || midi.tracks.find((t) => t.name)?.name || 'Imported MIDI';
+
+  const exercise: Exercise = {
+    id: options.id ?? `midi-${slugify(title)}`,
+    version: 1,
+    metadata: {
+      title,
+      description: options.attribution ?? 'Imported from MIDI',
+      difficulty: options.difficulty ?? estimateDifficulty(notes, totalBeats),
+      estimatedMinutes: Math.max(1, Math.ceil(ticksToSeconds(handed[handed.length - 1].source.startTick, midi) / 60)),
+      skills: [],
+      prerequisites: [],
+    },
+    settings: {
+      tempo: grid.tempo,
+      timeSignature: grid.timeSignature,
+      ...(grid.tempoMap && { tempoMap: grid.tempoMap }),
+      ...(grid.meterMap && { meterMap: grid.meterMap }),
+      keySignature: midi.keySignatures[0]?.key ?? 'C',
+      countIn: grid.timeSignature[0],
+      metronomeEnabled: true,
+    },
+    notes,
+    scoring: { ...IMPORT_SCORING },
+    hints: {
+      beforeStart: 'Listen to the tempo, then play along',
+      commonMistakes: [],
+      successMessage: 'Well played!',
+    },
+    hands: handsUsed(notes),
+  };
+
+  const validation = validateExercise(exercise);
+  if (!validation.valid) {
+    return { error: `Imported exercise failed validation: ${validation.errors.slice(0, 5).join('; ')}` };
+  }
+
+  return { value: exercise, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Convenience: bytes → Song
+// ---------------------------------------------------------------------------
+
+export function importMidiSong(bytes: Uint8Array, options: MidiImportOptions = {}): MidiImportOutput<Song> {
+  const midi = parseMidiFile(bytes);
+  if ('error' in midi) return midi;
+  return midiFileToSong(midi, options);
+}
@@ -0,0 +1,406 @@
+/**
+ * MusicXML → Song / Exercise conversion
+ *
+ * Turns a parsed MusicXML score (see core/music/musicXml.ts) into a Song
+ * whose sections follow the score's rehearsal marks, else its repeat
+ * barlines, else fixed groups of bars. Grand-staff parts map the upper
+ * staff to the right hand and the lower staff to the left; fingerings are
+ * kept on each NoteEvent.
+ *
+ * Repeats are not expanded — each section plays once, as written.
+ * Beats follow the same convention as abcParser and midiImport: one beat =
+ * one unit of the time signature's denominator.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import { decodeUtf8, isZipArchive, readMxlArchive } from '@/core/music/mxlArchive';
+import type { InflateRaw } from '@/core/music/mxlArchive';
+import { parseMusicXml } from '@/core/music/musicXml';
+import type { MusicXmlMeasure, MusicXmlNote, MusicXmlParseOutput, MusicXmlScore } from '@/core/music/musicXml';
+import { validateExercise } from '@/core/exercises/ExerciseValidator';
+import type { Exercise, MeterChange, NoteEvent, TempoChange } from '@/core/exercises/types';
+import type { TrackHand } from '@/core/songs/midiImport';
+import type { Song, SongGenre, SongSection, SongSource } from '@/core/songs/songTypes';
+import { validateSong } from '@/core/songs/songValidator';
+import {
+  IMPORT_SCORING,
+  buildLayers,
+  buildMeterMap,
+  buildTempoMap,
+  estimateDifficulty,
+  handsUsed,
+  roundBeat,
+  slugify,
+} from '@/core/songs/songImportUtils';
+import type { SongImportOutput } from '@/core/songs/songImportUtils';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface MusicXmlImportOptions {
+  id?: string;
+  title?: string;
+  artist?: string;
+  genre?: SongGenre;
+  difficulty?: 1 | 2 | 3 | 4 | 5;
+  attribution?: string;
+  source?: SongSource;
+  /**
+   * Part index → hand. 'split' sends the upper staff of a grand-staff part to
+   * the right hand and the rest to the left (single-staff parts split at
+   * splitPoint). When given, parts not listed are skipped. When omitted, the
+   * first grand-staff part is split and other parts skipped; scores without
+   * one are assigned like MIDI tracks (highest part = right hand).
+   */
+  partHands?: Record<number, TrackHand>;
+  /** MIDI note where single-staff 'split' parts divide into hands (default 60) */
+  splitPoint?: number;
+  /** Bars per section when the score has no rehearsal marks or repeats (default 8) */
+  barsPerSection?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SPLIT_POINT = 60;
+const DEFAULT_BARS_PER_SECTION = 8;
+const DEFAULT_QUARTER_BPM = 120;
+const PIANO_MIN = 21;
+const PIANO_MAX = 108;
+
+// ---------------------------------------------------------------------------
+// Hand assignment
+// ---------------------------------------------------------------------------
+
+interface HandedNote {
+  source: MusicXmlNote;
+  hand: 'left' | 'right';
+}
+
+function autoPartHands(score: MusicXmlScore): Record<number, TrackHand> {
+  const grandStaff = score.parts.findIndex((p) => p.staves >= 2 && p.notes.length > 0);
+  if (grandStaff >= 0) return { [grandStaff]: 'split' };
+
+  const withNotes = score.parts.map((p, index) => ({ index, notes: p.notes })).filter((p) => p.notes.length > 0);
+  if (withNotes.length === 1) return { [withNotes[0].index]: 'split' };
+
+  const avgPitch = (notes: MusicXmlNote[]) => notes.reduce((s, n) => s + n.note, 0) / notes.length;
+  const ranked = [...withNotes].sort((a, b) => avgPitch(b.notes) - avgPitch(a.notes));
+  const hands: Record<number, TrackHand> = {};
+  ranked.forEach((p, i) => {
+    hands[p.index] = i === 0 ? 'right' : 'left';
+  });
+  return hands;
+}
+
+function assignHands(score: MusicXmlScore, options: MusicXmlImportOptions, warnings: string[]): HandedNote[] {
+  const splitPoint = options.splitPoint ?? DEFAULT_SPLIT_POINT;
+  const hands = options.partHands ?? autoPartHands(score);
+  for (const index of Object.keys(hands).map(Number)) {
+    if (index < 0 || index >= score.parts.length) {
+      warnings.push(`Part ${index} does not exist (score has ${score.parts.length} part(s))`);
+    }
+  }
+
+  const handed: HandedNote[] = [];
+  let outOfRange = 0;
+  score.parts.forEach((part, index) => {
+    const assignment = hands[index] ?? 'skip';
+    if (assignment === 'skip') {
+      if (part.notes.length > 0) {
+        warnings.push(`Skipped part ${index} (${part.name || part.id}, ${part.notes.length} notes)`);
+      }
+      return;
+    }
+    for (const note of part.notes) {
+      if (note.note < PIANO_MIN || note.note > PIANO_MAX) {
+        outOfRange++;
+        continue;
+      }
+      let hand: 'left' | 'right';
+      if (assignment !== 'split') hand = assignment;
+      else if (part.staves >= 2) hand = note.staff <= 1 ? 'right' : 'left';
+      else hand = note.note >= splitPoint ? 'right' : 'left';
+      handed.push({ source: note, hand });
+    }
+  });
+  if (outOfRange > 0) warnings.push(`Dropped ${outOfRange} note(s) outside the piano range`);
+
+  return handed.sort((a, b) => a.source.startQuarter - b.source.startQuarter || a.source.note - b.source.note);
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+interface BeatGrid {
+  beatsPerQuarter: number;
+  tempo: number; // Beats per minute, in the grid's beat unit
+  timeSignature: [number, number];
+  tempoMap?: TempoChange[];
+  meterMap?: MeterChange[];
+}
+
+/** The first tempo mark and meter become the settings; later ones become its tempo/meter maps */
+function buildBeatGrid(score: MusicXmlScore, warnings: string[]): BeatGrid {
+  const meter = score.timeSignatures[0];
+  const beatsPerQuarter = meter.denominator / 4;
+  const quarterBpm = score.tempoMap[0]?.bpm ?? DEFAULT_QUARTER_BPM;
+  const tempo = Math.round(quarterBpm * beatsPerQuarter);
+  const timeSignature: [number, number] = [meter.numerator, meter.denominator];
+
+  if (score.tempoMap.length === 0) {
+    warnings.push(`No tempo marking — using ${tempo} BPM`);
+  }
+  if (score.timeSignatures.some((ts) => ts.denominator !== meter.denominator)) {
+    warnings.push(`Meter changes to a different beat unit — beats are counted in 1/${meter.denominator} notes`);
+  }
+
+  // The first mark sets the opening tempo even when it comes after the downbeat
+  const tempoMap = buildTempoMap(
+    tempo,
+    score.tempoMap.slice(1).map((t) => ({
+      beat: roundBeat(t.startQuarter * beatsPerQuarter),
+      tempo: t.bpm * beatsPerQuarter,
+    })),
+  );
+  const meterMap = buildMeterMap(
+    timeSignature,
+    score.timeSignatures.map((ts) => ({
+      beat: roundBeat(score.measures[ts.measureIndex].startQuarter * beatsPerQuarter),
+      timeSignature: [ts.numerator, ts.denominator],
+    })),
+    warnings,
+  );
+
+  return { beatsPerQuarter, tempo, timeSignature, tempoMap, meterMap };
+}
+
+/** Seconds from the start of the score to a position, following the tempo map */
+function quartersToSeconds(score: MusicXmlScore, quarter: number): number {
+  let seconds = 0;
+  let last = 0;
+  let bpm = score.tempoMap[0]?.bpm ?? DEFAULT_QUARTER_BPM;
+  for (const change of score.tempoMap) {
+    if (change.startQuarter >= quarter) break;
+    seconds += ((change.startQuarter - last) * 60) / bpm;
+    last = change.startQuarter;
+    bpm = change.bpm;
+  }
+  return seconds + ((quarter - last) * 60) / bpm;
+}
+
+function toNoteEvent(handed: HandedNote, offsetQuarter: number, grid: BeatGrid): NoteEvent {
+  const { source } = handed;
+  return {
+    note: source.note,
+    startBeat: roundBeat((source.startQuarter - offsetQuarter) * grid.beatsPerQuarter),
+    durationBeats: Math.max(0.001, roundBeat(source.durationQuarters * grid.beatsPerQuarter)),
+    hand: handed.hand,
+    ...(source.finger && { finger: source.finger }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+interface SectionSpan {
+  firstMeasure: number;
+  endMeasure: number; // Exclusive
+  label?: string;
+}
+
+/** Section boundaries: rehearsal marks, else repeats/endings, else every barsPerSection bars */
+function sectionSpans(measures: MusicXmlMeasure[], barsPerSection: number, warnings: string[]): SectionSpan[] {
+  const starts = new Set<number>([0]);
+  const hasRehearsal = measures.some((m) => m.rehearsal);
+  const hasRepeats = measures.some((m) => m.repeatForward || m.repeatBackward || m.ending);
+
+  if (hasRepeats) warnings.push('Repeats and endings are not expanded — sections play once, as written');
+
+  if (hasRehearsal) {
+    measures.forEach((m) => m.rehearsal && starts.add(m.index));
+  } else if (hasRepeats) {
+    for (const m of measures) {
+      if (m.repeatForward || m.ending) starts.add(m.index);
+      if (m.repeatBackward && m.index + 1 < measures.length) starts.add(m.index + 1);
+    }
+  } else {
+    for (let i = barsPerSection; i < measures.length; i += barsPerSection) starts.add(i);
+  }
+
+  const sorted = [...starts].sort((a, b) => a - b);
+  return sorted.map((first, i) => ({
+    firstMeasure: first,
+    endMeasure: sorted[i + 1] ?? measures.length,
+    label: measures[first].rehearsal,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Song conversion
+// ---------------------------------------------------------------------------
+
+export function musicXmlToSong(score: MusicXmlScore, options: MusicXmlImportOptions = {}): SongImportOutput<Song> {
+  const warnings = [...score.warnings];
+  const handed = assignHands(score, options, warnings);
+  if (handed.length === 0) {
+    return { error: 'No playable notes found in MusicXML score' };
+  }
+
+  const grid = buildBeatGrid(score, warnings);
+  const barsPerSection = Math.max(1, options.barsPerSection ?? DEFAULT_BARS_PER_SECTION);
+  const { measures } = score;
+
+  const sections: SongSection[] = [];
+  let cursor = 0;
+  for (const span of sectionSpans(measures, barsPerSection, warnings)) {
+    const startQuarter = measures[span.firstMeasure].startQuarter;
+    const last = measures[span.endMeasure - 1];
+    const endQuarter = last.startQuarter + last.durationQuarters;
+
+    // Notes belong to the section they start in
+    const sectionNotes: NoteEvent[] = [];
+    while (cursor < handed.length && handed[cursor].source.measureIndex < span.endMeasure) {
+      sectionNotes.push(toNoteEvent(handed[cursor], startQuarter, grid));
+      cursor++;
+    }
+    if (sectionNotes.length === 0) continue;
+
+    const startBeat = roundBeat(startQuarter * grid.beatsPerQuarter);
+    const endBeat = roundBeat(endQuarter * grid.beatsPerQuarter);
+    sections.push({
+      id: `section-${sections.length}`,
+      label: span.label ?? `Bars ${span.firstMeasure + 1}–${span.endMeasure}`,
+      startBeat,
+      endBeat,
+      difficulty: options.difficulty ?? estimateDifficulty(sectionNotes, endBeat - startBeat),
+      layers: buildLayers(sectionNotes),
+    });
+  }
+
+  const title = options.title || score.title || 'Imported Score';
+  const allNotes = sections.flatMap((s) => s.layers.full);
+  const lastQuarter = Math.max(...handed.map((n) => n.source.startQuarter + n.source.durationQuarters));
+  const source = options.source ?? 'musicxml';
+
+  const song: Song = {
+    id: options.id ?? `${source}-${slugify(title)}`,
+    version: 1,
+    type: 'song',
+    source,
+    metadata: {
+      title,
+      artist: options.artist ?? (score.composer || 'Unknown'),
+      genre: options.genre ?? 'classical',
+      difficulty: options.difficulty ?? estimateDifficulty(allNotes, lastQuarter * grid.beatsPerQuarter),
+      durationSeconds: Math.round(quartersToSeconds(score, lastQuarter)),
+      attribution: options.attribution ?? 'Imported from MusicXML',
+    },
+    sections,
+    settings: {
+      tempo: grid.tempo,
+      timeSignature: grid.timeSignature,
+      ...(grid.tempoMap && { tempoMap: grid.tempoMap }),
+      ...(grid.meterMap && { meterMap: grid.meterMap }),
+      keySignature: score.key ?? 'C',
+      countIn: 4,
+      metronomeEnabled: true,
+      loopEnabled: true,
+    },
+    scoring: { ...IMPORT_SCORING },
+  };
+
+  const validation = validateSong(song);
+  if (!validation.valid) {
+    return { error: `Imported song failed validation: ${validation.errors.slice(0, 5).join('; ')}` };
+  }
+
+  return { value: song, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Exercise conversion
+// ---------------------------------------------------------------------------
+
+export function musicXmlToExercise(
+  score: MusicXmlScore,
+  options: MusicXmlImportOptions = {},
+): SongImportOutput<Exercise> {
+  const warnings = [...score.warnings];
+  const handed = assignHands(score, options, warnings);
+  if (handed.length === 0) {
+    return { error: 'No playable notes found in MusicXML score' };
+  }
+
+  const grid = buildBeatGrid(score, warnings);
+  const notes = handed.map((n) => toNoteEvent(n, 0, grid));
+  const totalBeats = Math.max(...notes.map((n) => n.startBeat + n.durationBeats));
+  const title = options.title || score.title || 'Imported Score';
+
+  const exercise: Exercise = {
+    id: options.id ?? `musicxml-${slugify(title)}`,
+    version: 1,
+    metadata: {
+      title,
+      description: options.attribution ?? 'Imported from MusicXML',
+      difficulty: options.difficulty ?? estimateDifficulty(notes, totalBeats),
+      estimatedMinutes: Math.max(1, Math.ceil(quartersToSeconds(score, totalBeats / grid.beatsPerQuarter) / 60)),
+      skills: [],
+      prerequisites: [],
+    },
+    settings: {
+      tempo: grid.tempo,
+      timeSignature: grid.timeSignature,
+      ...(grid.tempoMap && { tempoMap: grid.tempoMap }),
+      ...(grid.meterMap && { meterMap: grid.meterMap }),
+      keySignature: score.key ?? 'C',
+      countIn: grid.timeSignature[0],
+      metronomeEnabled: true,
+    },
+    notes,
+    scoring: { ...IMPORT_SCORING },
+    hints: {
+      beforeStart: 'Listen to the tempo, then play along',
+      commonMistakes: [],
+      successMessage: 'Well played!',
+    },
+    hands: handsUsed(notes),
+  };
+
+  const validation = validateExercise(exercise);
+  if (!validation.valid) {
+    return { error: `Imported exercise failed validation: ${validation.errors.slice(0, 5).join('; ')}` };
+  }
+
+  return { value: exercise, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Convenience: file contents → Song
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse MusicXML text, or the bytes of a .musicxml/.xml/.mxl file. Deflated
+ * .mxl archives need `inflateRaw` (see readMxlArchive).
+ */
+export function parseMusicXmlFile(contents: string | Uint8Array, inflateRaw?: InflateRaw): MusicXmlParseOutput {
+  if (typeof contents === 'string') return parseMusicXml(contents);
+  if (!isZipArchive(contents)) return parseMusicXml(decodeUtf8(contents));
+  const archive = readMxlArchive(contents, inflateRaw);
+  return 'error' in archive ? archive : parseMusicXml(archive.xml);
+}
+
+export function importMusicXmlSong(
+  contents: string | Uint8Array,
+  options: MusicXmlImportOptions = {},
+  inflateRaw?: InflateRaw,
+): SongImportOutput<Song> {
+  const score = parseMusicXmlFile(contents, inflateRaw);
+  if ('error' in score) return score;
+  return musicXmlToSong(score, options);
+}
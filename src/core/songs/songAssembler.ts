@@ -10,6 +10,9 @@
  */
 
 import { parseABC } from '@/core/songs/abcParser';
+import type { ABCParseResult } from '@/core/songs/abcParser';
+import { expandPlaybackOrder, playbackNotes, sectionsFromWrittenForm } from '@/core/songs/songStructure';
+import { suggestFingerings } from '@/core/music/fingering';
 import type { Song, SongSection, SongRequestParams, SongSource } from '@/core/songs/songTypes';
 import type { NoteEvent } from '@/core/exercises/types';
 import { logger } from '../../utils/logger';
@@ -117,6 +120,19 @@ function difficultyGuide(d: number): string {
 // Assembly: GeneratedSongABC → Song
 // ---------------------------------------------------------------------------
 
+/**
+ * Notes of a generated section with its own repeats and endings played out.
+ * Generated sections are what the learner drills, so they stay whole.
+ */
+function unrolledNotes(result: ABCParseResult): NoteEvent[] {
+  if (result.form.repeats.length === 0 && !result.form.jump) return result.notes;
+  const written = sectionsFromWrittenForm(result.notes, result.form, {
+    difficulty: 1,
+    beatsPerBar: result.timeSignature[0],
+  });
+  return playbackNotes(expandPlaybackOrder(written), 'melody');
+}
+
 function slugify(text: string): string {
   return text
     .toLowerCase()
@@ -147,18 +163,21 @@ export function assembleSong(
     if (rawSection.accompanimentABC) {
       const accompResult = parseABC(rawSection.accompanimentABC);
       if (!('error' in accompResult)) {
-        accompNotes = accompResult.notes;
+        accompNotes = suggestFingerings(unrolledNotes(accompResult), { defaultHand: 'left' });
       }
     }
 
+    // Melody is the right hand, accompaniment the left; fingered once so every layer agrees
+    const melodyNotes = suggestFingerings(unrolledNotes(melodyResult), { defaultHand: 'right' });
+
     // Build full layer = melody + accompaniment
     const fullNotes: NoteEvent[] = [
-      ...melodyResult.notes.map((n) => ({ ...n, hand: 'right' as const })),
+      ...melodyNotes.map((n) => ({ ...n, hand: 'right' as const })),
       ...(accompNotes ?? []).map((n) => ({ ...n, hand: 'left' as const })),
     ];
 
-    const sectionBeats = melodyResult.notes.length > 0
-      ? Math.max(...melodyResult.notes.map((n) => n.startBeat + n.durationBeats))
+    const sectionBeats = melodyNotes.length > 0
+      ? Math.max(...melodyNotes.map((n) => n.startBeat + n.durationBeats))
       : 0;
 
     const section: SongSection = {
@@ -168,7 +187,7 @@ export function assembleSong(
       endBeat: totalBeats + sectionBeats,
       difficulty: Math.min(5, Math.max(1, raw.difficulty)) as 1 | 2 | 3 | 4 | 5,
       layers: {
-        melody: melodyResult.notes,
+        melody: melodyNotes,
         accompaniment: accompNotes,
         full: fullNotes,
       },
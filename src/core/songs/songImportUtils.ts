@@ -0,0 +1,109 @@
+/**
+ * Shared helpers for file importers (MIDI, MusicXML) that produce Songs
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import type { ExerciseScoringConfig, MeterChange, NoteEvent, TempoChange } from '@/core/exercises/types';
+import { isMeasureStart, meterAt } from '@/core/exercises/tempoMap';
+import type { SongSection } from '@/core/songs/songTypes';
+
+export interface SongImportResult<T> {
+  value: T;
+  warnings: string[];
+}
+
+export type SongImportOutput<T> = SongImportResult<T> | { error: string };
+
+/** Scoring used for imported songs and exercises, matching the ABC/PDMX importers */
+export const IMPORT_SCORING: ExerciseScoringConfig = {
+  timingToleranceMs: 50,
+  timingGracePeriodMs: 150,
+  passingScore: 70,
+  starThresholds: [70, 85, 95],
+};
+
+/** Round beat positions so unit conversions don't leave float noise */
+export function roundBeat(beat: number): number {
+  return Math.round(beat * 1000) / 1000;
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/** Rough difficulty from note density (notes per beat) */
+export function estimateDifficulty(notes: NoteEvent[], beats: number): 1 | 2 | 3 | 4 | 5 {
+  if (notes.length === 0 || beats <= 0) return 1;
+  const density = notes.length / beats;
+  if (density < 0.75) return 1;
+  if (density < 1.25) return 2;
+  if (density < 2) return 3;
+  if (density < 3) return 4;
+  return 5;
+}
+
+/** Melody = right hand (or left if there is no right), accompaniment = left when both exist */
+export function buildLayers(notes: NoteEvent[]): SongSection['layers'] {
+  const right = notes.filter((n) => n.hand === 'right');
+  const left = notes.filter((n) => n.hand === 'left');
+  return {
+    melody: right.length > 0 ? right : left,
+    ...(right.length > 0 && left.length > 0 && { accompaniment: left }),
+    full: notes,
+  };
+}
+
+/** Which hands appear in a set of notes, as Exercise.hands */
+export function handsUsed(notes: NoteEvent[]): 'left' | 'right' | 'both' {
+  const hasLeft = notes.some((n) => n.hand === 'left');
+  const hasRight = notes.some((n) => n.hand === 'right');
+  return hasLeft && hasRight ? 'both' : hasLeft ? 'left' : 'right';
+}
+
+/**
+ * Later tempo changes (beats in the grid's unit) as ExerciseSettings.tempoMap.
+ * Tempos are rounded to whole BPM, repeats are dropped and changes landing
+ * on the same beat keep the last one. Undefined when the tempo never changes.
+ */
+export function buildTempoMap(openingTempo: number, changes: TempoChange[]): TempoChange[] | undefined {
+  const map: TempoChange[] = [];
+  for (const change of changes) {
+    if (change.beat <= 0) continue;
+    if (map.length > 0 && map[map.length - 1].beat === change.beat) map.pop();
+    const tempo = Math.round(change.tempo);
+    const previous = map.length > 0 ? map[map.length - 1].tempo : openingTempo;
+    if (tempo !== previous) map.push({ beat: change.beat, tempo });
+  }
+  return map.length > 0 ? map : undefined;
+}
+
+/**
+ * Later time signatures as ExerciseSettings.meterMap. A change that doesn't
+ * fall on a bar line of the meter before it (e.g. after an uncounted pickup
+ * bar) is dropped with a warning. Undefined when the meter never changes.
+ */
+export function buildMeterMap(
+  timeSignature: [number, number],
+  changes: MeterChange[],
+  warnings: string[],
+): MeterChange[] | undefined {
+  const map: MeterChange[] = [];
+  let offGrid = 0;
+  for (const change of changes) {
+    if (change.beat <= 0) continue;
+    const current = meterAt({ timeSignature, meterMap: map }, change.beat).timeSignature;
+    if (current[0] === change.timeSignature[0] && current[1] === change.timeSignature[1]) continue;
+    if (!isMeasureStart({ timeSignature, meterMap: map }, change.beat)) {
+      offGrid++;
+      continue;
+    }
+    map.push(change);
+  }
+  if (offGrid > 0) warnings.push(`Ignored ${offGrid} time signature change(s) that don't fall on a bar line`);
+  return map.length > 0 ? map : undefined;
+}
@@ -5,7 +5,8 @@
  * Pure TypeScript — no React imports.
  */
 
-import type { MasteryTier, SongMastery, SongLayer } from './songTypes';
+import type { MasteryTier, Song, SongMastery, SongLayer } from './songTypes';
+import { expandPlaybackOrder } from './songStructure';
 
 // ---------------------------------------------------------------------------
 // Tier requirements
@@ -29,6 +30,14 @@ const TIER_ORDER: MasteryTier[] = ['none', 'bronze', 'silver', 'gold', 'platinum
 // Core functions
 // ---------------------------------------------------------------------------
 
+/**
+ * Sections that count toward mastery: each section a full run plays, once,
+ * however many times its repeat comes round.
+ */
+export function masterySectionIds(song: Pick<Song, 'sections' | 'structure'>): string[] {
+  return [...new Set(expandPlaybackOrder(song).map((step) => step.section.id))];
+}
+
 /**
  * Compute the highest mastery tier earned given per-section scores.
  * ALL sections must meet or exceed the tier's minScore requirement.
@@ -0,0 +1,381 @@
+/**
+ * Song structure — repeats, volta endings and D.C./D.S. jumps
+ *
+ * A Song's sections are its written passages in score order; `song.structure`
+ * says how they are played. This module expands that into a playback order
+ * (what a full run actually plays), validates it, and builds sections plus
+ * structure from the repeat marks an importer found in a written part.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import type { ExerciseSettings, MeterChange, NoteEvent, TempoChange } from '@/core/exercises/types';
+import { meterAt, tempoSettingsFrom } from '@/core/exercises/tempoMap';
+import type { Song, SongLayer, SongSection, SongStructure } from '@/core/songs/songTypes';
+
+// ---------------------------------------------------------------------------
+// Playback order
+// ---------------------------------------------------------------------------
+
+export interface PlaybackStep {
+  section: SongSection;
+  /** 1-based pass through the enclosing repeat (1 outside repeats) */
+  pass: number;
+  /** Played on the way back after a D.C./D.S. */
+  afterJump: boolean;
+  /**
+   * Position in the performance. Sections played straight through keep
+   * their written positions; repeats and jumps push later ones back.
+   */
+  startBeat: number;
+  endBeat: number;
+}
+
+const DEFAULT_REPEAT_TIMES = 2;
+
+/** Sections in the order a full run plays them, repeats and jumps expanded */
+export function expandPlaybackOrder(song: Pick<Song, 'sections' | 'structure'>): PlaybackStep[] {
+  const { sections } = song;
+  const indexOf = new Map(sections.map((s, i) => [s.id, i]));
+  const repeats = (song.structure?.repeats ?? [])
+    .map((r) => ({
+      start: indexOf.get(r.startSectionId) ?? -1,
+      end: indexOf.get(r.endSectionId) ?? -1,
+      times: r.times ?? DEFAULT_REPEAT_TIMES,
+    }))
+    .filter((r) => r.start >= 0 && r.end >= r.start);
+  const jump = song.structure?.jump;
+  const jumpTarget = jump?.type === 'ds' ? indexOf.get(jump.segnoSectionId ?? '') ?? 0 : 0;
+  const codaIndex = indexOf.get(jump?.codaSectionId ?? '') ?? -1;
+
+  const steps: PlaybackStep[] = [];
+  let beat = sections[0]?.startBeat ?? 0;
+  let previous = -1;
+  let afterJump = false;
+  let index = 0;
+
+  while (index < sections.length) {
+    // A D.S. can land part-way into a repeat; later passes start from its top
+    const repeat = repeats.find((r) => r.start <= index && index <= r.end);
+    const [top, last] = repeat ? [repeat.start, repeat.end] : [index, index];
+    // On the way back a repeat is played once, taking its last ending
+    const passes = !repeat ? [1] : afterJump ? [repeat.times] : Array.from({ length: repeat.times }, (_, p) => p + 1);
+    let next = last + 1;
+
+    passLoop: for (const [p, pass] of passes.entries()) {
+      for (let i = p === 0 ? index : top; i <= last; i++) {
+        const section = sections[i];
+        if (repeat && section.endingPasses && !section.endingPasses.includes(pass)) continue;
+
+        if (previous >= 0 && i === previous + 1) beat += section.startBeat - sections[previous].endBeat;
+        previous = i;
+        const length = section.endBeat - section.startBeat;
+        steps.push({ section, pass, afterJump, startBeat: beat, endBeat: beat + length });
+        beat += length;
+
+        if (!jump) continue;
+        if (afterJump && section.id === jump.fineSectionId) {
+          next = sections.length;
+          break passLoop;
+        }
+        if (afterJump && section.id === jump.toCodaSectionId && codaIndex > i) {
+          next = codaIndex;
+          break passLoop;
+        }
+        if (!afterJump && section.id === jump.afterSectionId && pass === passes[passes.length - 1]) {
+          afterJump = true;
+          next = jumpTarget;
+          break passLoop;
+        }
+      }
+    }
+    index = next;
+  }
+
+  return steps;
+}
+
+/** Notes of a run in playback order, on the performance timeline */
+export function playbackNotes(steps: PlaybackStep[], layer: SongLayer): NoteEvent[] {
+  return steps.flatMap((step) =>
+    ((layer === 'melody' ? step.section.layers.melody : step.section.layers.full) ?? []).map((note) => ({
+      ...note,
+      startBeat: note.startBeat + step.startBeat,
+    })),
+  );
+}
+
+/**
+ * Tempo and meter maps of the song laid along the playback order, so a
+ * repeated passage keeps its own tempo and meter each time it comes round.
+ */
+export function playbackTimingSettings(
+  settings: Pick<ExerciseSettings, 'tempo' | 'tempoMap' | 'timeSignature' | 'meterMap'>,
+  steps: PlaybackStep[],
+): Pick<ExerciseSettings, 'tempo' | 'tempoMap' | 'meterMap'> {
+  const tempoMap: TempoChange[] = [];
+  const meterMap: MeterChange[] = [];
+  let tempo = settings.tempo;
+  let meter = settings.timeSignature;
+  // Tempo last set on the performance timeline, and whether it is still gliding
+  let current = settings.tempo;
+  let gliding = false;
+  const pushTempo = (change: TempoChange) => {
+    tempoMap.push(change);
+    current = change.tempo;
+    gliding = !!change.ramp;
+  };
+
+  steps.forEach((step, i) => {
+    const { startBeat, endBeat } = step.section;
+    const offset = step.startBeat - startBeat;
+    // Straight on from the previous section in the score: the maps just continue
+    const continues = i > 0 && steps[i - 1].section.endBeat === startBeat;
+
+    if (!continues) {
+      const sliced = tempoSettingsFrom(settings, startBeat);
+      const ramp = sliced.tempoMap?.[0]?.beat === 0 && sliced.tempoMap[0].ramp;
+      if (i === 0) {
+        tempo = current = sliced.tempo;
+        if (ramp) pushTempo({ beat: step.startBeat, tempo: sliced.tempo, ramp: true });
+      } else if (ramp || gliding || sliced.tempo !== current) {
+        pushTempo({ beat: step.startBeat, tempo: sliced.tempo, ...(ramp && { ramp: true }) });
+      }
+
+      const opening = meterAt(settings, startBeat).timeSignature;
+      if (i === 0) meter = opening;
+      else if (opening[0] !== meter[0] || opening[1] !== meter[1]) {
+        meterMap.push({ beat: step.startBeat, timeSignature: opening });
+        meter = opening;
+      }
+    }
+
+    // Changes inside the section (and on its first beat when the score runs on)
+    const inside = (beat: number) => (continues ? beat >= startBeat : beat > startBeat) && beat < endBeat;
+    for (const change of settings.tempoMap ?? []) {
+      if (inside(change.beat)) pushTempo({ ...change, beat: change.beat + offset });
+    }
+    for (const change of settings.meterMap ?? []) {
+      if (!inside(change.beat)) continue;
+      meterMap.push({ ...change, beat: change.beat + offset });
+      meter = change.timeSignature;
+    }
+  });
+
+  return {
+    tempo,
+    tempoMap: tempoMap.length > 0 ? tempoMap : undefined,
+    meterMap: meterMap.length > 0 ? meterMap : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Validate song.structure against the sections; returns human-readable errors */
+export function validateSongStructure(song: Pick<Song, 'sections' | 'structure'>): string[] {
+  const errors: string[] = [];
+  const indexOf = new Map(song.sections.map((s, i) => [s.id, i]));
+  const find = (what: string, id: string | undefined): number => {
+    if (id === undefined) return -1;
+    const index = indexOf.get(id);
+    if (index === undefined) errors.push(`${what}: unknown section "${id}"`);
+    return index ?? -1;
+  };
+
+  // Section index → times through the repeat that contains it
+  const repeatTimes = new Map<number, number>();
+  (song.structure?.repeats ?? []).forEach((repeat, r) => {
+    const where = `Repeat ${r}`;
+    const start = find(where, repeat.startSectionId);
+    const end = find(where, repeat.endSectionId);
+    const times = repeat.times ?? DEFAULT_REPEAT_TIMES;
+    if (!Number.isInteger(times) || times < 2) errors.push(`${where}: times must be an integer of at least 2`);
+    if (start < 0 || end < 0) return;
+    if (end < start) {
+      errors.push(`${where}: ends before it starts`);
+      return;
+    }
+    for (let i = start; i <= end; i++) {
+      if (repeatTimes.has(i)) errors.push(`${where}: overlaps another repeat at "${song.sections[i].id}"`);
+      repeatTimes.set(i, times);
+    }
+  });
+
+  song.sections.forEach((section, i) => {
+    if (!section.endingPasses) return;
+    const times = repeatTimes.get(i);
+    if (times === undefined) {
+      errors.push(`Section "${section.label}": ending outside a repeat`);
+    } else if (section.endingPasses.length === 0 || section.endingPasses.some((p) => p < 1 || p > times)) {
+      errors.push(`Section "${section.label}": ending passes must be between 1 and ${times}`);
+    }
+  });
+
+  const jump = song.structure?.jump;
+  if (jump) {
+    const after = find('Jump', jump.afterSectionId);
+    const segno = find('Jump segno', jump.segnoSectionId);
+    const fine = find('Jump fine', jump.fineSectionId);
+    const toCoda = find('Jump to coda', jump.toCodaSectionId);
+    const coda = find('Jump coda', jump.codaSectionId);
+    if (jump.type === 'ds' && jump.segnoSectionId === undefined) errors.push('Jump: D.S. needs a segno section');
+    if (jump.type === 'dc' && jump.segnoSectionId !== undefined) errors.push('Jump: D.C. returns to the top, not a segno');
+    if (segno >= 0 && after >= 0 && segno > after) errors.push('Jump: segno comes after the D.S.');
+    if ((jump.toCodaSectionId === undefined) !== (jump.codaSectionId === undefined)) {
+      errors.push('Jump: "to coda" and coda sections go together');
+    }
+    if (toCoda >= 0 && coda >= 0 && coda <= Math.max(toCoda, after)) {
+      errors.push('Jump: the coda must come after the jump and the "to coda" mark');
+    }
+    if (fine >= 0 && after >= 0 && fine > after) errors.push('Jump: Fine comes after the jump, so it is never reached');
+  }
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Building from a written part
+// ---------------------------------------------------------------------------
+
+/** A volta ending in written beats */
+export interface WrittenEnding {
+  startBeat: number;
+  endBeat: number;
+  passes: number[];
+}
+
+/** A |: … :| passage in written beats; endBeat includes its last ending */
+export interface WrittenRepeat {
+  startBeat: number;
+  endBeat: number;
+  times: number;
+  endings: WrittenEnding[];
+}
+
+/** D.C./D.S. marks in written beats — the beat where each mark sits */
+export interface WrittenJump {
+  type: 'dc' | 'ds';
+  atBeat: number;
+  segnoBeat?: number;
+  fineBeat?: number;
+  toCodaBeat?: number;
+  codaBeat?: number;
+}
+
+/** Repeat structure of a written part, as found by a parser */
+export interface WrittenForm {
+  repeats: WrittenRepeat[];
+  jump?: WrittenJump;
+}
+
+export interface FormSectionOptions {
+  difficulty: SongSection['difficulty'];
+  /** Bar length in beats — long unrepeated stretches are cut every `barsPerSection` bars */
+  beatsPerBar: number;
+  barsPerSection?: number;
+}
+
+const DEFAULT_BARS_PER_SECTION = 16;
+
+const ordinal = (n: number) => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+
+/**
+ * Cut a written part into sections at every repeat, ending and jump mark,
+ * and describe how to play them. Notes are written-order, as parsed; each
+ * section gets its own notes re-based to 0, all on the right hand.
+ */
+export function sectionsFromWrittenForm(
+  notes: NoteEvent[],
+  form: WrittenForm,
+  options: FormSectionOptions,
+): { sections: SongSection[]; structure?: SongStructure } {
+  const totalBeats = notes.reduce((end, n) => Math.max(end, n.startBeat + n.durationBeats), 0);
+  const maxBeats = options.beatsPerBar * (options.barsPerSection ?? DEFAULT_BARS_PER_SECTION);
+  const { jump } = form;
+
+  const marks = new Set<number>([0, totalBeats]);
+  for (const repeat of form.repeats) {
+    marks.add(repeat.startBeat);
+    marks.add(repeat.endBeat);
+    for (const ending of repeat.endings) {
+      marks.add(ending.startBeat);
+      marks.add(ending.endBeat);
+    }
+  }
+  if (jump) {
+    for (const beat of [jump.atBeat, jump.segnoBeat, jump.fineBeat, jump.toCodaBeat, jump.codaBeat]) {
+      if (beat !== undefined) marks.add(beat);
+    }
+  }
+  const cuts = [...marks].filter((b) => b >= 0 && b <= totalBeats).sort((a, b) => a - b);
+
+  // Spans between marks; long ones split on bar lines
+  const spans: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < cuts.length; i++) {
+    for (let start = cuts[i]; start < cuts[i + 1]; start += maxBeats) {
+      spans.push([start, Math.min(cuts[i + 1], start + maxBeats)]);
+    }
+  }
+
+  const repeatOf = (beat: number) => form.repeats.find((r) => beat >= r.startBeat && beat < r.endBeat);
+  const endingOf = (beat: number) => repeatOf(beat)?.endings.find((e) => beat >= e.startBeat && beat < e.endBeat);
+
+  // Label parts A, B, C…; a repeat and its endings share the letter of its body
+  let partIndex = -1;
+  let partRepeat: WrittenRepeat | undefined;
+  const partSpans = new Map<number, number>();
+  const sections: SongSection[] = spans.map(([startBeat, endBeat], i) => {
+    const repeat = repeatOf(startBeat);
+    const ending = endingOf(startBeat);
+    if (!ending && (repeat === undefined || repeat !== partRepeat || startBeat === repeat.startBeat)) partIndex++;
+    partRepeat = repeat;
+    // A part cut into several sections (a long body, a segno inside it) numbers them
+    const letter = String.fromCharCode(65 + (partIndex % 26));
+    const span = ending ? 0 : (partSpans.get(partIndex) ?? 0) + 1;
+    if (!ending) partSpans.set(partIndex, span);
+    const part = span > 1 ? `Part ${letter}${span}` : `Part ${letter}`;
+    const sectionNotes = notes
+      .filter((n) => n.startBeat >= startBeat && n.startBeat < endBeat)
+      .map((n) => ({ ...n, startBeat: n.startBeat - startBeat, hand: n.hand ?? ('right' as const) }));
+
+    return {
+      id: `section-${i}`,
+      label: ending ? `${part} — ${ending.passes.map(ordinal).join('/')} ending` : part,
+      startBeat,
+      endBeat,
+      difficulty: options.difficulty,
+      layers: { melody: sectionNotes, full: sectionNotes },
+      ...(ending && { endingPasses: ending.passes }),
+    };
+  });
+
+  const startingAt = (beat: number | undefined) => sections.find((s) => s.startBeat === beat)?.id;
+  const endingAt = (beat: number | undefined) => sections.find((s) => s.endBeat === beat)?.id;
+
+  const structure: SongStructure = {};
+  const repeats = form.repeats.flatMap((r) => {
+    const startSectionId = startingAt(r.startBeat);
+    const endSectionId = endingAt(r.endBeat);
+    return startSectionId && endSectionId ? [{ startSectionId, endSectionId, times: r.times }] : [];
+  });
+  if (repeats.length > 0) structure.repeats = repeats;
+
+  const afterSectionId = endingAt(jump?.atBeat);
+  if (jump && afterSectionId) {
+    structure.jump = {
+      type: jump.type,
+      afterSectionId,
+      ...(jump.type === 'ds' && { segnoSectionId: startingAt(jump.segnoBeat) ?? sections[0].id }),
+      ...(endingAt(jump.fineBeat) && { fineSectionId: endingAt(jump.fineBeat) }),
+      ...(endingAt(jump.toCodaBeat) &&
+        startingAt(jump.codaBeat) && {
+          toCodaSectionId: endingAt(jump.toCodaBeat),
+          codaSectionId: startingAt(jump.codaBeat),
+        }),
+    };
+  }
+
+  return { sections, ...(Object.keys(structure).length > 0 && { structure }) };
+}
@@ -10,7 +10,7 @@ import type { NoteEvent, ExerciseSettings, ExerciseScoringConfig } from '@/core/
 // ---------------------------------------------------------------------------
 
 export type SongGenre = 'classical' | 'pop' | 'film' | 'folk' | 'game' | 'holiday';
-export type SongSource = 'pdmx' | 'thesession' | 'gemini';
+export type SongSource = 'pdmx' | 'thesession' | 'gemini' | 'midi' | 'musicxml';
 export type MasteryTier = 'none' | 'bronze' | 'silver' | 'gold' | 'platinum';
 export type SongLayer = 'melody' | 'full';
 
@@ -38,6 +38,40 @@ export interface SongSection {
     accompaniment?: NoteEvent[];
     full: NoteEvent[];
   };
+  /** Volta ending: only played on these passes (1-based) through its repeat */
+  endingPasses?: number[];
+}
+
+/**
+ * A repeated passage of written sections, |: … :|. Sections inside it with
+ * `endingPasses` are 1st/2nd endings.
+ */
+export interface SongRepeat {
+  startSectionId: string;
+  /** Last section of the passage, including the final ending */
+  endSectionId: string;
+  /** Times through the passage (default 2) */
+  times?: number;
+}
+
+/**
+ * D.C. (back to the top) or D.S. (back to the segno) after a section. On the
+ * way back repeats are played once, taking their last ending, and the piece
+ * stops after `fineSectionId` or skips from `toCodaSectionId` to the coda.
+ */
+export interface SongJump {
+  type: 'dc' | 'ds';
+  afterSectionId: string;
+  segnoSectionId?: string;
+  fineSectionId?: string;
+  toCodaSectionId?: string;
+  codaSectionId?: string;
+}
+
+/** Repeat structure over the written sections; without it they play in order once */
+export interface SongStructure {
+  repeats?: SongRepeat[];
+  jump?: SongJump;
 }
 
 export interface Song {
@@ -46,7 +80,8 @@ export interface Song {
   type: 'song';
   source: SongSource;
   metadata: SongMetadata;
-  sections: SongSection[];
+  sections: SongSection[]; // Written order — see structure for playback order
+  structure?: SongStructure;
   settings: ExerciseSettings;
   scoring: ExerciseScoringConfig;
 }
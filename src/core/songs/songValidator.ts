@@ -0,0 +1,72 @@
+/**
+ * Song validation
+ *
+ * Runs the standard ExerciseValidator checks on every section layer of a Song,
+ * since each section is played as an Exercise (see sectionToExercise in
+ * SongPlayerScreen). Used by importers before a song is written out.
+ *
+ * Pure TypeScript — no React imports.
+ */
+
+import { validateExercise } from '@/core/exercises/ExerciseValidator';
+import { tempoSettingsFrom, validateTempoMap } from '@/core/exercises/tempoMap';
+import type { Exercise, NoteEvent } from '@/core/exercises/types';
+import type { Song, SongSection } from '@/core/songs/songTypes';
+import { validateSongStructure } from '@/core/songs/songStructure';
+
+/** Minimal exercise wrapper so a section layer can go through validateExercise */
+function layerAsExercise(song: Song, section: SongSection, notes: NoteEvent[]): Exercise {
+  return {
+    id: `${song.id}-${section.id}`,
+    version: song.version,
+    metadata: {
+      title: song.metadata.title,
+      description: section.label,
+      difficulty: section.difficulty,
+      estimatedMinutes: 2,
+      skills: ['songs'],
+      prerequisites: [],
+    },
+    // Each section plays with the tempo and meter in force where it starts
+    settings: { ...song.settings, ...tempoSettingsFrom(song.settings, section.startBeat) },
+    notes,
+    scoring: song.scoring,
+    hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+  };
+}
+
+export function validateSong(song: Song): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!song.id) errors.push('Song must have an id');
+  if (!song.metadata.title) errors.push('Song must have a title');
+  if (song.sections.length === 0) errors.push('Song must have at least one section');
+  errors.push(...validateTempoMap(song.settings));
+  errors.push(...validateSongStructure(song));
+
+  let previousEnd = 0;
+  for (const section of song.sections) {
+    const where = `Section "${section.label}"`;
+    if (section.endBeat <= section.startBeat) {
+      errors.push(`${where}: endBeat must be after startBeat`);
+    }
+    if (section.startBeat < previousEnd) {
+      errors.push(`${where}: overlaps the previous section`);
+    }
+    previousEnd = section.endBeat;
+
+    const layers: Array<[string, NoteEvent[] | undefined]> = [
+      ['melody', section.layers.melody],
+      ['accompaniment', section.layers.accompaniment],
+      ['full', section.layers.full],
+    ];
+    for (const [layer, notes] of layers) {
+      // Accompaniment is optional; melody and full must be playable
+      if (!notes) continue;
+      const result = validateExercise(layerAsExercise(song, section, notes));
+      errors.push(...result.errors.map((e) => `${where} (${layer}): ${e}`));
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
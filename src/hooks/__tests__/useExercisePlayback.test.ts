@@ -0,0 +1,136 @@
+/**
+ * useExercisePlayback Tests
+ *
+ * Notes from the InputManager (MIDI and mic) as the hook hands them on, and
+ * the learner's part it gives the mic's echo suppression.
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import type { Exercise, MidiNoteEvent } from '../../core/exercises/types';
+
+let mockNoteListener: ((event: MidiNoteEvent) => void) | null = null;
+
+jest.mock('@/input/InputManager', () => ({
+  INPUT_LATENCY_COMPENSATION_MS: { midi: 0, mic: 0, touch: 0 },
+  InputManager: jest.fn().mockImplementation(() => ({
+    activeMethod: 'midi',
+    initialize: jest.fn().mockResolvedValue(undefined),
+    start: jest.fn().mockResolvedValue(undefined),
+    dispose: jest.fn(),
+    getMicFailureReason: jest.fn(() => null),
+    getVelocityCalibration: jest.fn(() => null),
+    getLatencyCompensationMs: jest.fn(() => 0),
+    getTimingMultiplier: jest.fn(() => 1),
+    onNoteEvent: jest.fn((listener: (event: MidiNoteEvent) => void) => {
+      mockNoteListener = listener;
+      return () => { mockNoteListener = null; };
+    }),
+    onPedalEvent: jest.fn(() => () => {}),
+  })),
+}));
+
+jest.mock('@/audio/createAudioEngine', () => ({
+  createAudioEngine: jest.fn(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    isReady: jest.fn(() => false),
+    getState: jest.fn(() => 'suspended'),
+    playNote: jest.fn(),
+    releaseNote: jest.fn(),
+    releaseAllNotes: jest.fn(),
+    playMetronomeClick: jest.fn(),
+  })),
+  ensureAudioModeConfigured: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { useExercisePlayback } from '../useExercisePlayback';
+import { appOutputLog } from '../../audio/AppOutputLog';
+
+const EXERCISE: Exercise = {
+  id: 'test-exercise',
+  version: 1,
+  metadata: {
+    title: 'Test Exercise',
+    description: 'A test exercise',
+    difficulty: 1,
+    estimatedMinutes: 1,
+    skills: [],
+    prerequisites: [],
+  },
+  settings: {
+    tempo: 60,
+    timeSignature: [4, 4],
+    keySignature: 'C',
+    countIn: 4,
+    metronomeEnabled: false,
+  },
+  notes: [{ note: 60, startBeat: 0, durationBeats: 4 }],
+  scoring: {
+    timingToleranceMs: 50,
+    timingGracePeriodMs: 150,
+    passingScore: 70,
+    starThresholds: [70, 85, 95],
+  },
+  hints: {
+    beforeStart: '',
+    commonMistakes: [],
+    successMessage: '',
+  },
+};
+
+describe('useExercisePlayback', () => {
+  beforeEach(() => {
+    // Input init races a 15s timeout
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    mockNoteListener = null;
+  });
+
+  it('hands on external notes and their releases, as a duet sends them to the partner', async () => {
+    const onExternalNote = jest.fn();
+    const { result, unmount } = renderHook(() =>
+      useExercisePlayback({ exercise: EXERCISE, enableAudio: false, onExternalNote }),
+    );
+    await waitFor(() => expect(mockNoteListener).not.toBeNull());
+
+    act(() => result.current.startPlayback());
+    act(() => {
+      mockNoteListener!({ type: 'noteOn', note: 60, velocity: 90, timestamp: 0, channel: 0, inputSource: 'midi' });
+      mockNoteListener!({ type: 'noteOff', note: 60, velocity: 0, timestamp: 0, channel: 0, inputSource: 'midi' });
+    });
+
+    expect(onExternalNote).toHaveBeenCalledTimes(2);
+    expect(onExternalNote).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'noteOn', note: 60, velocity: 90 }));
+    expect(onExternalNote).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'noteOff', note: 60 }));
+
+    act(() => result.current.stopPlayback());
+    unmount();
+  });
+
+  it("tells the mic's echo filter the learner's notes, so an octave over the auto-played hand counts", () => {
+    // Right hand at 72 over an auto-played left hand at 60, from beat 0
+    const rightHand = { ...EXERCISE, notes: [{ note: 72, startBeat: 0, durationBeats: 4 }] };
+    const { result, unmount } = renderHook(() =>
+      useExercisePlayback({
+        exercise: rightHand,
+        enableMidi: false,
+        enableAudio: false,
+        autoPlayNotes: [{ note: 60, startBeat: 0, durationBeats: 4 }],
+      }),
+    );
+
+    act(() => result.current.startPlayback());
+    // Count-in of 4 beats at 60 BPM, then half a beat in
+    act(() => jest.advanceTimersByTime(4500));
+    expect(appOutputLog.isExpected(72, Date.now())).toBe(true);
+    expect(appOutputLog.isExpected(60, Date.now())).toBe(false);
+    // Not during the count-in
+    expect(appOutputLog.isExpected(72, Date.now() - 2000)).toBe(false);
+
+    act(() => result.current.stopPlayback());
+    expect(appOutputLog.isExpected(72, Date.now())).toBe(false);
+    unmount();
+  });
+});
@@ -10,12 +10,21 @@
  * - Playback state management
  */
 
-import { useEffect, useCallback, useRef, useState } from 'react';
-import type { Exercise, MidiNoteEvent, ExerciseScore } from '@/core/exercises/types';
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import type { Exercise, MidiNoteEvent, ExerciseScore, NoteEvent, SustainPedalEvent } from '@/core/exercises/types';
 import { scoreExerciseByType } from '@/core/exercises/ExerciseValidator';
+import { applyVelocityCalibration } from '@/core/exercises/dynamics';
+import { applyTimingMultiplier } from '@/core/exercises/performanceVerification';
+import type { RecordedPerformance } from '@/core/exercises/performanceVerification';
+import { createTempoTimeline, isMeasureStart } from '@/core/exercises/tempoMap';
+import { applyWaitNote, createWaitModeState, scoreWaitMode, waitHoldBeat, waitStops } from '@/core/exercises/waitMode';
+import type { WaitModeResult } from '@/core/exercises/waitMode';
 import { InputManager, INPUT_LATENCY_COMPENSATION_MS } from '@/input/InputManager';
 import type { ActiveInputMethod } from '@/input/InputManager';
+import { midiKeyboardOutput } from '@/input/MidiKeyboardOutput';
 import { createAudioEngine, ensureAudioModeConfigured } from '@/audio/createAudioEngine';
+import { appOutputLog } from '@/audio/AppOutputLog';
+import type { NoteHandle } from '@/audio/types';
 import { useExerciseStore } from '@/stores/exerciseStore';
 import { useProgressStore } from '@/stores/progressStore';
 import { logger } from '../utils/logger';
@@ -30,15 +39,36 @@ import { getLessonIdForExercise } from '../content/ContentLoader';
  */
 const TOUCH_LATENCY_COMPENSATION_MS = 20;
 
+/** Notes the app plays along are a little quieter than the learner's */
+const AUTO_PLAY_VELOCITY = 0.6;
+
+/**
+ * How far either side of a note the learner's part still expects it, for
+ * telling their notes from the app's echo. Covers playing a little early
+ * and mic detection delay.
+ */
+const EXPECTED_NOTE_MARGIN_MS = 300;
+
 export interface UseExercisePlaybackOptions {
   exercise: Exercise;
-  onComplete?: (score: ExerciseScore) => void;
+  /** Receives the score and the notes it was scored from, for server verification */
+  onComplete?: (score: ExerciseScore, performance: RecordedPerformance) => void;
   enableMidi?: boolean;
   enableAudio?: boolean;
   /** Override input method ('auto' uses settings store preference) */
   inputMethod?: 'auto' | 'midi' | 'mic' | 'touch';
   /** Override metronome enabled state (defaults to exercise.settings.metronomeEnabled) */
   metronomeEnabled?: boolean;
+  /** Hold the playhead at each note or chord until it is played */
+  waitMode?: boolean;
+  /** Called instead of onComplete when a wait-mode run finishes (no timing score) */
+  onWaitModeComplete?: (result: WaitModeResult) => void;
+  /** With settings.loopEnabled: called with each pass's score before the next pass starts */
+  onLoopPass?: (score: ExerciseScore) => void;
+  /** Notes the app plays in time alongside the learner (the other hand in hands-separate practice) */
+  autoPlayNotes?: NoteEvent[];
+  /** Each MIDI or mic noteOn the run records, and each release, e.g. to pass on to a duet partner */
+  onExternalNote?: (event: MidiNoteEvent) => void;
 }
 
 export interface UseExercisePlaybackReturn {
@@ -52,7 +82,8 @@ export interface UseExercisePlaybackReturn {
   realtimeBeatRef: React.MutableRefObject<number>;
 
   // Actions
-  startPlayback: () => void;
+  /** Start from the count-in; `startAt` (epoch ms) schedules it, e.g. to begin with a duet partner */
+  startPlayback: (startAt?: number) => void;
   resumePlayback: () => void;
   pausePlayback: () => void;
   stopPlayback: () => void;
@@ -79,6 +110,9 @@ export interface UseExercisePlaybackReturn {
   /** Counter that increments each time an external noteOn arrives.
    *  Use as a useEffect dependency to react to new external events. */
   externalNoteCount: number;
+
+  /** Whether the MIDI keyboard's sustain pedal is currently held down */
+  isPedalDown: boolean;
 }
 
 export function useExercisePlayback({
@@ -88,6 +122,11 @@ export function useExercisePlayback({
   enableAudio = true,
   inputMethod,
   metronomeEnabled,
+  waitMode = false,
+  onWaitModeComplete,
+  onLoopPass,
+  autoPlayNotes,
+  onExternalNote,
 }: UseExercisePlaybackOptions): UseExercisePlaybackReturn {
   const audioEngineRef = useRef(createAudioEngine());
   const audioEngine = audioEngineRef.current;
@@ -112,19 +151,43 @@ export function useExercisePlayback({
   const activeNotesRef = useRef<Map<number, any>>(new Map());
   const mountedRef = useRef(true);
   const handleCompletionRef = useRef<() => void>(() => {});
+  const loopPassRef = useRef<(() => void) | null>(null);
   const lastStateUpdateRef = useRef(0); // Throttle state updates to ~20fps for perf
   const hasCrossedZeroRef = useRef(false); // Track count-in → playback transition
   const playedNotesRef = useRef<MidiNoteEvent[]>([]); // Ref for scoring (avoids stale closure)
+  const playedPedalRef = useRef<SustainPedalEvent[]>([]); // Sustain pedal transitions for scoring
+  const [isPedalDown, setIsPedalDown] = useState(false);
   const realtimeBeatRef = useRef(-exercise.settings.countIn); // 60fps beat position for scoring
   const hasCompletedRef = useRef(false); // Guard against double-completion from rapid interval ticks
   const lastMetronomeBeatRef = useRef(-999); // Last integer beat where metronome click was played
   // Tracks noteOn indices so noteOff/release can attach durationMs for scoring.
   const noteOnIndexMapRef = useRef<Map<number, number[]>>(new Map());
+  // Wait mode: the notes or chords the playhead stops at, and how far the player has got
+  const stops = useMemo(() => waitStops(exercise.notes), [exercise.notes]);
+  const waitStateRef = useRef(createWaitModeState(stops));
+  // Read through refs so the input subscription isn't torn down when these change
+  const waitModeRef = useRef(waitMode);
+  waitModeRef.current = waitMode;
+  const stopsRef = useRef(stops);
+  stopsRef.current = stops;
+  // Play-along: index of the next note to start, and the notes sounding now
+  const autoPlayRef = useRef<{ next: number; sounding: Array<{ note: number; endBeat: number; handle: NoteHandle }> }>({
+    next: 0,
+    sounding: [],
+  });
+  const resetAutoPlay = useCallback((release: boolean) => {
+    if (release) {
+      for (const { handle } of autoPlayRef.current.sounding) audioEngine.releaseNote(handle);
+    }
+    autoPlayRef.current = { next: 0, sounding: [] };
+  }, [audioEngine]);
 
   // Latest external (MIDI/mic) noteOn — read by ExercisePlayer for keyboard highlighting.
   // Paired with a counter state so ExercisePlayer can react via useEffect.
   const lastExternalNoteRef = useRef<MidiNoteEvent | null>(null);
   const [externalNoteCount, setExternalNoteCount] = useState(0);
+  const onExternalNoteRef = useRef(onExternalNote);
+  onExternalNoteRef.current = onExternalNote;
 
   // Echo dedup: tracks recent touch notes (MIDI note → timestamp) so mic events
   // that are speaker echoes of touch can be skipped in auto mode.
@@ -154,6 +217,11 @@ export function useExercisePlayback({
     }
   }, []);
 
+  const recordWaitNote = useCallback((note: number) => {
+    if (!waitModeRef.current) return;
+    waitStateRef.current = applyWaitNote(waitStateRef.current, stopsRef.current, note);
+  }, []);
+
   const closeAllOpenNoteDurations = useCallback((releaseTimeMs: number) => {
     for (const [note, stack] of noteOnIndexMapRef.current.entries()) {
       while (stack.length > 0) {
@@ -344,16 +412,31 @@ export function useExercisePlayback({
           if (timeSinceTouch < 400) {
             return; // Skip — likely speaker echo from recent touch
           }
+          // The mic also hears the notes the app is playing along, unless the
+          // learner's part has the same note now
+          if (
+            autoPlayRef.current.sounding.some((s) => s.note === midiEvent.note) &&
+            !appOutputLog.isExpected(midiEvent.note, midiEvent.timestamp)
+          ) {
+            return;
+          }
         }
 
+        // Rescale hardware velocity through the connected keyboard's calibration
+        // (if the user ran it in MIDI setup) so dynamics scoring is
+        // device-independent.
         const normalizedEvent = {
           ...midiEvent,
           timestamp: source === 'midi' ? Date.now() : midiEvent.timestamp,
+          velocity: source === 'midi'
+            ? applyVelocityCalibration(midiEvent.velocity, inputManagerRef.current?.getVelocityCalibration())
+            : midiEvent.velocity,
           inputSource: source as 'midi' | 'mic' | 'touch',
         };
         const noteIndex = playedNotesRef.current.length;
         playedNotesRef.current.push(normalizedEvent);
         trackNoteOnIndex(normalizedEvent.note, noteIndex);
+        recordWaitNote(normalizedEvent.note);
         // PERF: Don't call setPlayedNotes here — it creates a full array copy
         // on every noteOn (~21×/sec for mic) triggering unnecessary re-renders.
         // Scoring reads from playedNotesRef.current; state synced at completion.
@@ -363,6 +446,7 @@ export function useExercisePlayback({
         // The ref holds the event data; the counter state triggers the effect.
         lastExternalNoteRef.current = normalizedEvent;
         setExternalNoteCount((c) => c + 1);
+        onExternalNoteRef.current?.(normalizedEvent);
       }
 
       // Play audio if enabled (for MIDI input — mic has its own audio)
@@ -379,6 +463,7 @@ export function useExercisePlayback({
 
       if (midiEvent.type === 'noteOff') {
         closeLatestNoteDuration(midiEvent.note, Date.now());
+        onExternalNoteRef.current?.(midiEvent);
       }
 
       // Release audio if note off (not mic — mic notes have no audio handle)
@@ -391,8 +476,17 @@ export function useExercisePlayback({
       }
     });
 
+    const unsubscribePedal = manager.onPedalEvent((pedalEvent) => {
+      if (!mountedRef.current) return;
+      setIsPedalDown(pedalEvent.type === 'pedalDown');
+      if (isPlayingRef.current) {
+        playedPedalRef.current.push(pedalEvent);
+      }
+    });
+
     return () => {
       unsubscribe();
+      unsubscribePedal();
     };
   // IMPORTANT: Do NOT include exerciseStore in deps. The callback accesses the
   // store via useExerciseStore.getState() to avoid tearing down + resubscribing
@@ -404,6 +498,7 @@ export function useExercisePlayback({
     isMidiReady,
     audioEngine,
     trackNoteOnIndex,
+    recordWaitNote,
     closeLatestNoteDuration,
   ]);
 
@@ -419,8 +514,10 @@ export function useExercisePlayback({
       return;
     }
 
-    const tempo = exercise.settings.tempo;
+    const timeline = createTempoTimeline(exercise.settings);
     const countInBeats = exercise.settings.countIn;
+    // Count-in runs at the opening tempo
+    const countInMs = countInBeats * (60000 / exercise.settings.tempo);
     // BUG-007 fix: Guard against empty notes array (Math.max(...[]) = -Infinity)
     const noteEnds = exercise.notes.map((n) => n.startBeat + n.durationBeats);
     const lastNoteBeat = noteEnds.length > 0 ? Math.max(...noteEnds) : 0;
@@ -434,6 +531,17 @@ export function useExercisePlayback({
     // early-completion count so random key mashing doesn't end the exercise early.
     const expectedPitchSet = new Set(requiredNotes.map((n) => n.note));
     const loopEnabled = exercise.settings.loopEnabled ?? false;
+    const autoNotes = autoPlayNotes ?? [];
+
+    // Mic notes matching the app's output are dropped as echo, except the
+    // ones this part has the learner play at that moment
+    const stopExpecting = appOutputLog.expectLearnerNotes((note, timeMs) => {
+      const beat = timeline.msToBeat(timeMs - startTimeRef.current - countInMs);
+      const margin = EXPECTED_NOTE_MARGIN_MS / timeline.msPerBeatAt(Math.max(0, beat));
+      return exercise.notes.some(
+        (n) => n.note === note && beat >= n.startBeat - margin && beat <= n.startBeat + n.durationBeats + margin,
+      );
+    });
 
     playbackIntervalRef.current = setInterval(() => {
       if (!mountedRef.current) {
@@ -447,12 +555,39 @@ export function useExercisePlayback({
       const currentTime = Date.now();
       const elapsed = currentTime - startTimeRef.current;
 
-      // Calculate beat: elapsed_ms / (60000 / tempo) - countIn
-      const beat = (elapsed / 60000) * tempo - countInBeats;
+      // Calculate beat: ms since beat 0 through the tempo map (constant tempo
+      // reduces to elapsed_ms / (60000 / tempo) - countIn)
+      let beat = timeline.msToBeat(elapsed - countInMs);
+
+      // Wait mode: hold at the next stop until its notes are played. Moving the
+      // start time keeps the clock still, so playback resumes from the stop.
+      const holdBeat = waitMode ? waitHoldBeat(waitStateRef.current, stops) : null;
+      if (holdBeat !== null && beat > holdBeat) {
+        beat = holdBeat;
+        startTimeRef.current = currentTime - (countInMs + timeline.beatToMs(holdBeat));
+      }
 
       // Always update the realtime ref at 60fps for scoring accuracy
       realtimeBeatRef.current = beat;
 
+      // Play along: start notes the beat has reached and release the ones that
+      // have ended. Notes already over (after resuming) are skipped, not played late.
+      if (autoNotes.length > 0 && enableAudio && isAudioReadyRef.current) {
+        const auto = autoPlayRef.current;
+        auto.sounding = auto.sounding.filter((s) => {
+          if (beat < s.endBeat) return true;
+          audioEngine.releaseNote(s.handle);
+          return false;
+        });
+        while (auto.next < autoNotes.length && autoNotes[auto.next].startBeat <= beat) {
+          const n = autoNotes[auto.next++];
+          const endBeat = n.startBeat + n.durationBeats;
+          if (beat < endBeat) {
+            auto.sounding.push({ note: n.note, endBeat, handle: audioEngine.playNote(n.note, AUTO_PLAY_VELOCITY, 'accompaniment') });
+          }
+        }
+      }
+
       // Throttle React state updates to ~20fps to reduce re-renders.
       // Internal timing (scoring, completion) stays at 60fps via refs.
       // Exception: bypass throttle at count-in → playback transition (beat 0)
@@ -477,12 +612,16 @@ export function useExercisePlayback({
           const currentWholeBeat = Math.floor(beat);
           if (currentWholeBeat >= 0 && currentWholeBeat > lastMetronomeBeatRef.current) {
             lastMetronomeBeatRef.current = currentWholeBeat;
-            const timeSignature = exercise.settings.timeSignature?.[0] ?? 4;
-            const isDownbeat = currentWholeBeat % timeSignature === 0;
-            audioEngineRef.current.playMetronomeClick(
-              isDownbeat ? 1500 : 1000,
-              metronomeVolume,
+            const isDownbeat = isMeasureStart(
+              { timeSignature: exercise.settings.timeSignature ?? [4, 4], meterMap: exercise.settings.meterMap },
+              currentWholeBeat,
             );
+            if (!midiKeyboardOutput.playMetronomeClick(isDownbeat, metronomeVolume)) {
+              audioEngineRef.current.playMetronomeClick(
+                isDownbeat ? 1500 : 1000,
+                metronomeVolume,
+              );
+            }
           }
         }
       }
@@ -495,19 +634,24 @@ export function useExercisePlayback({
       const playedMatchCount = playedNotesRef.current.filter(
         (n) => expectedPitchSet.has(n.note),
       ).length;
-      const earlyComplete =
-        playedMatchCount >= totalExpectedNotes && beat >= lastNoteBeat;
+      const earlyComplete = waitMode
+        ? holdBeat === null && beat >= lastNoteBeat
+        : playedMatchCount >= totalExpectedNotes && beat >= lastNoteBeat;
 
       // Check for completion (use ref to avoid stale closure)
       if (earlyComplete || beat > exerciseDuration) {
         // BUG-005 fix: If loopEnabled, restart from beat 0 instead of completing
         if (loopEnabled) {
+          loopPassRef.current?.();
           startTimeRef.current = Date.now();
           pauseElapsedRef.current = 0;
           hasCrossedZeroRef.current = false;
           lastMetronomeBeatRef.current = -999; // Reset metronome for loop restart
           playedNotesRef.current = [];
+          playedPedalRef.current = [];
           noteOnIndexMapRef.current.clear();
+          waitStateRef.current = createWaitModeState(stops);
+          resetAutoPlay(true);
           realtimeBeatRef.current = -countInBeats;
           setPlayedNotes([]);
           setCurrentBeat(-countInBeats);
@@ -518,6 +662,7 @@ export function useExercisePlayback({
     }, 16); // 60fps
 
     return () => {
+      stopExpecting();
       if (playbackIntervalRef.current) {
         clearInterval(playbackIntervalRef.current);
       }
@@ -528,19 +673,23 @@ export function useExercisePlayback({
     // recreated on every store update (e.g. addPlayedNote from mic input),
     // effectively freezing the beat counter.
 
-  }, [isPlaying, exercise, metronomeEnabled]);
+  }, [isPlaying, exercise, metronomeEnabled, waitMode, stops, autoPlayNotes, enableAudio, audioEngine, resetAutoPlay]);
 
   /**
    * Start playback (fresh start — resets all state)
    */
-  const startPlayback = useCallback(() => {
-    startTimeRef.current = Date.now();
+  const startPlayback = useCallback((startAt?: number) => {
+    // Before a scheduled start the beat counts up from below the count-in
+    startTimeRef.current = startAt ?? Date.now();
     pauseElapsedRef.current = 0;
     hasCrossedZeroRef.current = false;
     hasCompletedRef.current = false; // Allow completion for this new playback
     lastMetronomeBeatRef.current = -999; // Reset metronome tracking
     playedNotesRef.current = [];
+    playedPedalRef.current = [];
     noteOnIndexMapRef.current.clear();
+    waitStateRef.current = createWaitModeState(stops);
+    resetAutoPlay(true);
     realtimeBeatRef.current = -exercise.settings.countIn;
     isPlayingRef.current = true;
     setIsPlaying(true);
@@ -550,7 +699,7 @@ export function useExercisePlayback({
     useExerciseStore.getState().clearSession();
 
     logger.log('[useExercisePlayback] Playback started');
-  }, [exercise.settings.countIn]);
+  }, [exercise.settings.countIn, stops, resetAutoPlay]);
 
   /**
    * Resume playback after pause (continues from where it left off)
@@ -591,6 +740,8 @@ export function useExercisePlayback({
       audioEngine.releaseAllNotes();
       activeNotesRef.current.clear();
     }
+    // Play-along notes were released with the rest; pick up at the next one on resume
+    autoPlayRef.current.sounding = [];
 
     logger.log('[useExercisePlayback] Playback paused');
   }, [enableAudio, isAudioReady, audioEngine, closeAllOpenNoteDurations]);
@@ -619,9 +770,10 @@ export function useExercisePlayback({
       audioEngine.releaseAllNotes();
       activeNotesRef.current.clear();
     }
+    resetAutoPlay(false);
 
     logger.log('[useExercisePlayback] Playback stopped');
-  }, [exercise.settings.countIn, enableAudio, isAudioReady, audioEngine, closeAllOpenNoteDurations]);
+  }, [exercise.settings.countIn, enableAudio, isAudioReady, audioEngine, closeAllOpenNoteDurations, resetAutoPlay]);
 
   /**
    * Reset playback
@@ -629,6 +781,7 @@ export function useExercisePlayback({
   const resetPlayback = useCallback(() => {
     stopPlayback();
     playedNotesRef.current = [];
+    playedPedalRef.current = [];
     setPlayedNotes([]);
     useExerciseStore.getState().clearSession();
 
@@ -636,32 +789,10 @@ export function useExercisePlayback({
   }, [stopPlayback]);
 
   /**
-   * Handle exercise completion
+   * Notes played since playback (or the current loop pass) started, in ms
+   * from beat 0 after latency compensation
    */
-  const handleCompletion = useCallback(() => {
-    if (!mountedRef.current) return;
-    if (hasCompletedRef.current) return; // Prevent double-completion from rapid interval ticks
-    hasCompletedRef.current = true;
-
-    // Clear interval synchronously to prevent further state updates
-    if (playbackIntervalRef.current) {
-      clearInterval(playbackIntervalRef.current);
-      playbackIntervalRef.current = null;
-    }
-
-    isPlayingRef.current = false;
-    setIsPlaying(false);
-    useExerciseStore.getState().setIsPlaying(false);
-
-    // Any notes still held at completion are closed at completion time.
-    closeAllOpenNoteDurations(Date.now());
-
-    // BUG-006 fix: Release all active audio notes on completion (prevents notes ringing)
-    if (enableAudio && audioEngine) {
-      audioEngine.releaseAllNotes();
-      activeNotesRef.current.clear();
-    }
-
+  const recordedPerformance = useCallback((): RecordedPerformance => {
     // Convert played note timestamps from epoch (Date.now()) to relative
     // (ms since beat 0). The scoring engine expects timestamps in the same
     // frame as expectedTimeMs = startBeat * msPerBeat.
@@ -670,33 +801,42 @@ export function useExercisePlayback({
     const countInMs = exercise.settings.countIn * msPerBeat;
     const beat0EpochMs = startTimeRef.current + countInMs;
 
-    // Use InputManager's method-aware latency compensation (handles mono vs poly mic)
-    const managerCompensation = inputManagerRef.current?.getLatencyCompensationMs();
+    // Use InputManager's latency compensation per source: the calibrated offset
+    // for this device if there is one (poly-aware for mic), else the default.
+    // Falls back to the lookup table without a manager.
+    const compensationFor = (source: ActiveInputMethod): number =>
+      inputManagerRef.current?.getLatencyCompensationMs(source)
+        ?? INPUT_LATENCY_COMPENSATION_MS[source]
+        ?? TOUCH_LATENCY_COMPENSATION_MS;
     const adjustedNotes = playedNotesRef.current.map((n) => {
       const source = (n.inputSource ?? 'touch') as ActiveInputMethod;
-      // Prefer InputManager's compensation (poly-aware), fall back to lookup table
-      const compensation = source === 'mic' && managerCompensation != null
-        ? managerCompensation
-        : (INPUT_LATENCY_COMPENSATION_MS[source] ?? TOUCH_LATENCY_COMPENSATION_MS);
       return {
         ...n,
-        timestamp: n.timestamp - beat0EpochMs - compensation,
+        timestamp: n.timestamp - beat0EpochMs - compensationFor(source),
       };
     });
 
+    // Pedal events only come from MIDI keyboards and share the Date.now() clock
+    const adjustedPedal = playedPedalRef.current.map((p) => ({
+      ...p,
+      timestamp: p.timestamp - beat0EpochMs - compensationFor('midi'),
+    }));
+
+    return {
+      notes: adjustedNotes,
+      pedalEvents: adjustedPedal,
+      inputMethod: inputManagerRef.current?.activeMethod ?? 'touch',
+    };
+  }, [exercise]);
+
+  /**
+   * Score a recorded performance
+   */
+  const scorePerformance = useCallback((performance: RecordedPerformance): ExerciseScore => {
     // Apply timing tolerance multiplier for mic input (BUG FIX: was defined but never applied).
     // Mic detection has ~100-120ms pipeline latency with jitter — widen scoring windows.
     const timingMultiplier = inputManagerRef.current?.getTimingMultiplier() ?? 1.0;
-    const scoringExercise = timingMultiplier !== 1.0
-      ? {
-          ...exercise,
-          scoring: {
-            ...exercise.scoring,
-            timingToleranceMs: exercise.scoring.timingToleranceMs * timingMultiplier,
-            timingGracePeriodMs: exercise.scoring.timingGracePeriodMs * timingMultiplier,
-          },
-        }
-      : exercise;
+    const scoringExercise = applyTimingMultiplier(exercise, timingMultiplier);
 
     // Look up previous high score so isNewHighScore is accurate.
     // Search ALL lesson progress entries — AI exercises may be stored under
@@ -717,14 +857,71 @@ export function useExercisePlayback({
       }
     }
 
-    const score = scoreExerciseByType(scoringExercise, adjustedNotes, previousHighScore);
+    return scoreExerciseByType(scoringExercise, performance.notes, previousHighScore, performance.pedalEvents);
+  }, [exercise]);
+
+  const scorePlayedNotes = useCallback(
+    (): ExerciseScore => scorePerformance(recordedPerformance()),
+    [scorePerformance, recordedPerformance],
+  );
+
+  /**
+   * Handle exercise completion
+   */
+  const handleCompletion = useCallback(() => {
+    if (!mountedRef.current) return;
+    if (hasCompletedRef.current) return; // Prevent double-completion from rapid interval ticks
+    hasCompletedRef.current = true;
+
+    // Clear interval synchronously to prevent further state updates
+    if (playbackIntervalRef.current) {
+      clearInterval(playbackIntervalRef.current);
+      playbackIntervalRef.current = null;
+    }
+
+    isPlayingRef.current = false;
+    setIsPlaying(false);
+    useExerciseStore.getState().setIsPlaying(false);
+
+    // Any notes still held at completion are closed at completion time.
+    closeAllOpenNoteDurations(Date.now());
+
+    // BUG-006 fix: Release all active audio notes on completion (prevents notes ringing)
+    if (enableAudio && audioEngine) {
+      audioEngine.releaseAllNotes();
+      activeNotesRef.current.clear();
+    }
+    resetAutoPlay(false);
+
+    // Wait mode has no timing to judge — report the pitch-only result instead
+    if (waitMode) {
+      const result = scoreWaitMode(waitStateRef.current, stops);
+      setPlayedNotes([...playedNotesRef.current]);
+      logger.log('[useExercisePlayback] Wait mode completed:', result);
+      onWaitModeComplete?.(result);
+      return;
+    }
+
+    const performance = recordedPerformance();
+    const score = scorePerformance(performance);
     useExerciseStore.getState().setScore(score);
     // Sync playedNotes state for post-exercise display
     setPlayedNotes([...playedNotesRef.current]);
 
     logger.log('[useExercisePlayback] Exercise completed:', score);
-    onComplete?.(score);
-  }, [exercise, onComplete, closeAllOpenNoteDurations, enableAudio, audioEngine]);
+    onComplete?.(score, performance);
+  }, [onComplete, waitMode, stops, onWaitModeComplete, recordedPerformance, scorePerformance, closeAllOpenNoteDurations, enableAudio, audioEngine, resetAutoPlay]);
+
+  // Score each loop pass for callers that ramp tempo on it (not in wait mode,
+  // which has no timing to judge)
+  useEffect(() => {
+    loopPassRef.current = onLoopPass && !waitMode
+      ? () => {
+          closeAllOpenNoteDurations(Date.now());
+          onLoopPass(scorePlayedNotes());
+        }
+      : null;
+  }, [onLoopPass, waitMode, scorePlayedNotes, closeAllOpenNoteDurations]);
 
   // Keep ref in sync so the interval always calls the latest handleCompletion
   useEffect(() => {
@@ -779,12 +976,13 @@ export function useExercisePlayback({
       const noteIndex = playedNotesRef.current.length;
       playedNotesRef.current.push(midiEvent);
       trackNoteOnIndex(note, noteIndex);
+      recordWaitNote(note);
       setPlayedNotes([...playedNotesRef.current]);
       useExerciseStore.getState().addPlayedNote(midiEvent);
     },
     // isPlaying and exerciseStore omitted — we use refs / getState() inside the callback
 
-    [enableAudio, isAudioReady, audioEngine, trackNoteOnIndex]
+    [enableAudio, isAudioReady, audioEngine, trackNoteOnIndex, recordWaitNote]
   );
 
   /**
@@ -839,5 +1037,6 @@ export function useExercisePlayback({
     // External note events (MIDI/mic)
     lastExternalNoteRef,
     externalNoteCount,
+    isPedalDown,
   };
 }
@@ -0,0 +1,170 @@
+/**
+ * Adaptive noise gate for microphone input
+ *
+ * AmbientNoiseCalibrator measures the room once; practice rooms change (a TV
+ * comes on, someone talks, the piano's own sustain rings on). This gate keeps
+ * a rolling noise-floor estimate for the whole session:
+ * - noise floor = a low percentile of buffer RMS over the last few seconds,
+ *   so notes and short bursts don't drag it up
+ * - YIN's RMS gate follows the floor (floor × gateRatio, clamped)
+ * - live SNR = recent signal peak vs. the floor, rated for MicSetupScreen
+ *
+ * Buffers captured while the app itself is making sound are left out of the
+ * estimate — the metronome would otherwise read as room noise.
+ */
+
+import { AmbientNoiseCalibrator } from './AmbientNoiseCalibrator';
+import { AMBIENT_PITCH_OVERRIDES } from './MicDetectionPresets';
+
+export interface NoiseGateConfig {
+  /** Rolling window for the noise floor (default: 5000ms) */
+  windowMs: number;
+  /** Percentile of buffer RMS taken as the floor (default: 0.1) */
+  floorPercentile: number;
+  /** RMS gate = floor × gateRatio (default: 1.5) */
+  gateRatio: number;
+  /** Gate never drops below this (default: the mic preset's rmsThreshold) */
+  minRmsThreshold: number;
+  /** Gate never rises above this — quiet piano notes peak around 0.01 (default: 0.008) */
+  maxRmsThreshold: number;
+  /** Half-life of the signal peak hold (default: 500ms) */
+  signalHalfLifeMs: number;
+  /** SNR at or above which detection is reliable (default: 20dB) */
+  goodSnrDb: number;
+  /** SNR below which the mic can't be trusted (default: 10dB) */
+  minSnrDb: number;
+}
+
+const DEFAULT_CONFIG: NoiseGateConfig = {
+  windowMs: 5000,
+  floorPercentile: 0.1,
+  gateRatio: 1.5,
+  minRmsThreshold: AMBIENT_PITCH_OVERRIDES.rmsThreshold ?? 0.002,
+  maxRmsThreshold: 0.008,
+  signalHalfLifeMs: 500,
+  goodSnrDb: 20,
+  minSnrDb: 10,
+};
+
+/** 'unknown' until something has been played above the gate */
+export type MicSignalQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface NoiseGateState {
+  noiseFloor: number;
+  /** Decaying peak of recent buffer RMS */
+  signalLevel: number;
+  /** signalLevel vs. noiseFloor right now */
+  snrDb: number;
+  /** SNR of the last note played above the gate, null before any */
+  playedSnrDb: number | null;
+  rmsThreshold: number;
+  quality: MicSignalQuality;
+}
+
+export type NoiseGateCallback = (state: NoiseGateState) => void;
+
+/** Keeps log10 finite in digital silence */
+const MIN_LEVEL = 1e-5;
+
+const toDb = (ratio: number) => 20 * Math.log10(ratio);
+
+export class AdaptiveNoiseGate {
+  private readonly config: NoiseGateConfig;
+  private readonly calibrator = new AmbientNoiseCalibrator();
+  private samples: Array<{ timestamp: number; rms: number }> = [];
+  private signalLevel = 0;
+  private lastTimestamp: number | null = null;
+  private playedSnrDb: number | null = null;
+  private state: NoiseGateState;
+  private callbacks: Set<NoiseGateCallback> = new Set();
+
+  constructor(config?: Partial<NoiseGateConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.state = this.computeState(0);
+  }
+
+  /** Measure a captured buffer and update the gate */
+  process(buffer: Float32Array, timestamp: number, appAudible = false): NoiseGateState {
+    return this.update(this.calibrator.computeRMS(buffer), timestamp, appAudible);
+  }
+
+  /**
+   * Update with one buffer's RMS. `appAudible` buffers only let the signal
+   * peak decay: the app's own output is neither room noise nor the learner.
+   */
+  update(rms: number, timestamp: number, appAudible = false): NoiseGateState {
+    const elapsed = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp);
+    this.lastTimestamp = timestamp;
+    this.signalLevel *= Math.pow(0.5, elapsed / this.config.signalHalfLifeMs);
+
+    if (!appAudible) {
+      this.samples.push({ timestamp, rms });
+      this.signalLevel = Math.max(this.signalLevel, rms);
+    }
+    const cutoff = timestamp - this.config.windowMs;
+    while (this.samples.length > 0 && this.samples[0].timestamp < cutoff) this.samples.shift();
+
+    const floor = this.estimateFloor();
+    this.state = this.computeState(floor);
+    if (!appAudible && rms >= this.state.rmsThreshold) {
+      this.playedSnrDb = this.state.snrDb;
+      this.state = this.computeState(floor);
+    }
+
+    for (const cb of this.callbacks) cb(this.state);
+    return this.state;
+  }
+
+  getState(): NoiseGateState {
+    return this.state;
+  }
+
+  /** Register a callback for every update. Returns an unsubscribe function. */
+  onChange(callback: NoiseGateCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  /** Forget the room (e.g. between sessions); listeners are kept */
+  reset(): void {
+    this.samples = [];
+    this.signalLevel = 0;
+    this.lastTimestamp = null;
+    this.playedSnrDb = null;
+    this.state = this.computeState(0);
+  }
+
+  private estimateFloor(): number {
+    if (this.samples.length === 0) return this.state.noiseFloor;
+    const sorted = this.samples.map((s) => s.rms).sort((a, b) => a - b);
+    return sorted[Math.floor((sorted.length - 1) * this.config.floorPercentile)];
+  }
+
+  private computeState(noiseFloor: number): NoiseGateState {
+    const { gateRatio, minRmsThreshold, maxRmsThreshold, goodSnrDb, minSnrDb } = this.config;
+    const rmsThreshold = Math.min(maxRmsThreshold, Math.max(minRmsThreshold, noiseFloor * gateRatio));
+    const snrDb = toDb(Math.max(this.signalLevel, noiseFloor, MIN_LEVEL) / Math.max(noiseFloor, MIN_LEVEL));
+
+    let quality: MicSignalQuality;
+    if (noiseFloor * gateRatio >= maxRmsThreshold) {
+      quality = 'poor'; // The gate is pinned — the room drowns out quiet notes
+    } else if (this.playedSnrDb === null) {
+      quality = 'unknown';
+    } else if (this.playedSnrDb >= goodSnrDb) {
+      quality = 'good';
+    } else {
+      quality = this.playedSnrDb >= minSnrDb ? 'fair' : 'poor';
+    }
+
+    return {
+      noiseFloor,
+      signalLevel: this.signalLevel,
+      snrDb,
+      playedSnrDb: this.playedSnrDb,
+      rmsThreshold,
+      quality,
+    };
+  }
+}
@@ -8,17 +8,24 @@
  *   const manager = new InputManager({ preferred: 'auto' });
  *   await manager.initialize();
  *   manager.onNoteEvent((event) => { ... });
+ *   manager.onPedalEvent((event) => { ... }); // sustain pedal, MIDI only
  *   await manager.start();
  *   // ... later
  *   await manager.stop();
  *   manager.dispose();
  */
 
-import type { MidiNoteEvent } from '../core/exercises/types';
+import type { MidiNoteEvent, SustainPedalEvent } from '../core/exercises/types';
+import type { VelocityCalibration } from '../core/exercises/dynamics';
+import { INPUT_TIMING_MULTIPLIERS } from '../core/exercises/performanceVerification';
 import { getMidiInput } from './MidiInput';
 import type { MidiInput } from './MidiInput';
+import { MidiEventHandler } from './MidiEventHandler';
 import { MicrophoneInput, createMicrophoneInput } from './MicrophoneInput';
 import { configureAudioSessionForRecording, isMicPermissionCached } from './AudioCapture';
+import MidiDeviceManager from './MidiDevice';
+import { midiKeyboardOutput } from './MidiKeyboardOutput';
+import { INPUT_LATENCY_COMPENSATION_MS, latencyProfileFor } from './LatencyCalibration';
 import { useSettingsStore } from '../stores/settingsStore';
 import { logger } from '../utils/logger';
 
@@ -43,6 +50,7 @@ function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T, label: str
 export type InputMethod = 'auto' | 'midi' | 'mic' | 'touch';
 export type ActiveInputMethod = 'midi' | 'mic' | 'touch';
 export type InputNoteCallback = (event: MidiNoteEvent) => void;
+export type InputPedalCallback = (event: SustainPedalEvent) => void;
 
 export interface InputManagerConfig {
   /** Which input method to use (default: 'auto') */
@@ -60,25 +68,16 @@ const DEFAULT_CONFIG: InputManagerConfig = {
 };
 
 /**
- * Timing tolerance multiplier per input method.
- * Mic detection has ~120ms pipeline latency — widen scoring windows accordingly.
+ * Timing tolerance multiplier per input method. Defined with the shared
+ * performance verification so the server widens the same windows.
  */
-export const INPUT_TIMING_MULTIPLIERS: Record<ActiveInputMethod, number> = {
-  midi: 1.0,
-  touch: 1.0,
-  mic: 1.5,
-};
+export { INPUT_TIMING_MULTIPLIERS };
 
 /**
- * Base latency compensation per input method (ms).
- * Subtracted from played-note timestamps before scoring.
+ * Base latency compensation per input method (ms). Defined with the latency
+ * calibration so the offline transcription harness can load it under Node.
  */
-export const INPUT_LATENCY_COMPENSATION_MS: Record<string, number> = {
-  midi: 0,
-  touch: 20,
-  mic: 100,
-  mic_poly: 120, // Polyphonic adds ~20ms for ONNX inference overhead
-};
+export { INPUT_LATENCY_COMPENSATION_MS };
 
 // ---------------------------------------------------------------------------
 // InputManager
@@ -89,16 +88,27 @@ export class InputManager {
   private midiInput: MidiInput;
   private micInput: MicrophoneInput | null = null;
   private callbacks: Set<InputNoteCallback> = new Set();
+  private pedalCallbacks: Set<InputPedalCallback> = new Set();
+  private sustainHandler = new MidiEventHandler();
   private unsubMidi: (() => void) | null = null;
+  private unsubMidiCC: (() => void) | null = null;
   private unsubMic: (() => void) | null = null;
   private unsubMidiConnection: (() => void) | null = null;
   private _activeMethod: ActiveInputMethod = 'touch';
+  private _midiDeviceId: string | null = null;
   private isStarted = false;
   private isInitialized = false;
 
   constructor(config?: Partial<InputManagerConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.midiInput = getMidiInput();
+    this.sustainHandler.registerCallbacks({
+      onNoteOn: () => {},
+      onNoteOff: () => {},
+      onSustainChange: (isActive, timestamp) => {
+        this._emitPedal({ type: isActive ? 'pedalDown' : 'pedalUp', timestamp });
+      },
+    });
   }
 
   /** Reason why mic failed (if it did). Exposed for UI to show user feedback. */
@@ -155,6 +165,7 @@ export class InputManager {
             defaultVelocity: this.config.micDefaultVelocity ?? 80,
             latencyCompensationMs: this.config.micLatencyCompensationMs ?? 0,
             mode: detectionMode,
+            pitch: { tuningOffsetCents: useSettingsStore.getState().micTuningOffsetCents ?? 0 },
           }),
           10000,
           null,
@@ -221,11 +232,14 @@ export class InputManager {
     }
     this.isStarted = false;
     this.unsubMidi?.();
+    this.unsubMidiCC?.();
     this.unsubMic?.();
     this.unsubMidiConnection?.();
     this.micInput?.dispose();
     this.callbacks.clear();
+    this.pedalCallbacks.clear();
     this.unsubMidi = null;
+    this.unsubMidiCC = null;
     this.unsubMic = null;
     this.unsubMidiConnection = null;
     this.micInput = null;
@@ -243,6 +257,18 @@ export class InputManager {
     };
   }
 
+  /**
+   * Register callback for sustain pedal (CC64) down/up transitions.
+   * Only MIDI keyboards have a pedal; other input methods never fire this.
+   * Returns an unsubscribe function.
+   */
+  onPedalEvent(callback: InputPedalCallback): () => void {
+    this.pedalCallbacks.add(callback);
+    return () => {
+      this.pedalCallbacks.delete(callback);
+    };
+  }
+
   /** Currently active input method */
   get activeMethod(): ActiveInputMethod {
     return this._activeMethod;
@@ -263,15 +289,36 @@ export class InputManager {
     return INPUT_TIMING_MULTIPLIERS[this._activeMethod];
   }
 
-  /** Get latency compensation in ms for the current input method */
-  getLatencyCompensationMs(): number {
-    if (this._activeMethod === 'mic') {
-      const detectionMode = useSettingsStore.getState().micDetectionMode ?? 'monophonic';
-      return detectionMode === 'polyphonic'
-        ? INPUT_LATENCY_COMPENSATION_MS.mic_poly
-        : INPUT_LATENCY_COMPENSATION_MS.mic;
-    }
-    return INPUT_LATENCY_COMPENSATION_MS[this._activeMethod];
+  /** ID of the MIDI keyboard notes are coming from (null if none connected) */
+  get midiDeviceId(): string | null {
+    return this._midiDeviceId;
+  }
+
+  /**
+   * Get latency compensation in ms for an input method (default: the current one).
+   * A calibrated offset — per keyboard for MIDI, per phone for touch and mic —
+   * takes precedence over the built-in default.
+   */
+  getLatencyCompensationMs(method: ActiveInputMethod = this._activeMethod): number {
+    const { micDetectionMode, inputLatencyOffsets } = useSettingsStore.getState();
+    const profile = latencyProfileFor(method, micDetectionMode ?? 'monophonic');
+    const calibrated = profile === 'midi'
+      ? (this._midiDeviceId ? MidiDeviceManager.getLatencyOffset(this._midiDeviceId) : null)
+      : inputLatencyOffsets?.[profile];
+    return calibrated ?? INPUT_LATENCY_COMPENSATION_MS[profile];
+  }
+
+  /**
+   * Velocity calibration of the keyboard sending notes, or null when it was
+   * never calibrated (another keyboard's curve would misjudge this one).
+   */
+  getVelocityCalibration(): VelocityCalibration | null {
+    return this._midiDeviceId ? MidiDeviceManager.getVelocityCalibration(this._midiDeviceId) : null;
+  }
+
+  /** Forward to the mic: whether to drop notes matching the app's own output */
+  setMicAppOutputSuppression(enabled: boolean): void {
+    this.micInput?.setAppOutputSuppression(enabled);
   }
 
   /**
@@ -284,9 +331,11 @@ export class InputManager {
 
     // Unsubscribe current
     this.unsubMidi?.();
+    this.unsubMidiCC?.();
     this.unsubMic?.();
     this.unsubMidiConnection?.();
     this.unsubMidi = null;
+    this.unsubMidiCC = null;
     this.unsubMic = null;
     this.unsubMidiConnection = null;
 
@@ -307,6 +356,7 @@ export class InputManager {
               defaultVelocity: this.config.micDefaultVelocity ?? 80,
               latencyCompensationMs: this.config.micLatencyCompensationMs ?? 0,
               mode: detectionMode,
+              pitch: { tuningOffsetCents: useSettingsStore.getState().micTuningOffsetCents ?? 0 },
             }),
             10000,
             null,
@@ -346,6 +396,7 @@ export class InputManager {
               defaultVelocity: this.config.micDefaultVelocity ?? 80,
               latencyCompensationMs: this.config.micLatencyCompensationMs ?? 0,
               mode: 'monophonic', // Auto mode uses fast monophonic
+              pitch: { tuningOffsetCents: useSettingsStore.getState().micTuningOffsetCents ?? 0 },
             }),
             10000,
             null,
@@ -381,7 +432,10 @@ export class InputManager {
       if (devices.length > 0) {
         const device = devices[0];
         await this.midiInput.connectDevice(device.id);
+        this._midiDeviceId = device.id;
         logger.log(`[InputManager] Auto-connected MIDI device: ${device.name} (${device.id})`);
+        // Output (demos, metronome, key lights) is optional — don't hold up input
+        void midiKeyboardOutput.connectForInput(device);
       }
     } catch (error) {
       logger.warn('[InputManager] MIDI auto-connect failed:', error);
@@ -397,6 +451,14 @@ export class InputManager {
       });
     }
 
+    // Sustain pedal arrives as CC64; the handler reduces it to down/up transitions
+    if (!this.unsubMidiCC) {
+      this.unsubMidiCC = this.midiInput.onControlChange((cc, value, channel) => {
+        if (this._activeMethod !== 'midi') return;
+        this.sustainHandler.processMidiControlChange(cc, value, channel);
+      });
+    }
+
     // Hot-plug: auto-connect newly connected MIDI devices and switch to MIDI
     if (!this.unsubMidiConnection) {
       this.unsubMidiConnection = this.midiInput.onDeviceConnection((device, connected) => {
@@ -404,6 +466,8 @@ export class InputManager {
           logger.log(`[InputManager] MIDI device hot-plugged: ${device.name}`);
           // Auto-connect and switch to MIDI if not already
           this.midiInput.connectDevice(device.id).then(() => {
+            this._midiDeviceId = device.id;
+            void midiKeyboardOutput.connectForInput(device);
             if (this._activeMethod !== 'midi') {
               this._activeMethod = 'midi';
               logger.log('[InputManager] Switched to MIDI (hot-plug)');
@@ -415,6 +479,10 @@ export class InputManager {
           logger.log(`[InputManager] MIDI device disconnected: ${device.name}`);
           // If all MIDI devices disconnected, fall back to mic (if available) then touch
           this.midiInput.getConnectedDevices().then((devices) => {
+            if (device.id === this._midiDeviceId) {
+              this._midiDeviceId = null;
+              midiKeyboardOutput.disconnect();
+            }
             if (devices.length === 0 && this._activeMethod === 'midi') {
               this._activeMethod = this.micInput ? 'mic' : 'touch';
               logger.log(`[InputManager] No MIDI devices — falling back to ${this._activeMethod}`);
@@ -438,6 +506,12 @@ export class InputManager {
       cb(event);
     }
   }
+
+  private _emitPedal(event: SustainPedalEvent): void {
+    for (const cb of this.pedalCallbacks) {
+      cb(event);
+    }
+  }
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Input latency calibration.
+ *
+ * The app plays a steady click and records when each click comes back: a tap
+ * or key played along by the learner, or (for the microphone) the app's own
+ * click picked up through the mic. The typical delay between the two is the
+ * input's latency on this device, subtracted from played notes before scoring.
+ */
+
+import type { ActiveInputMethod } from './InputManager';
+
+/** Latency is measured separately for each input, and for each mic detection mode */
+export type LatencyProfile = 'midi' | 'touch' | 'mic' | 'mic_poly';
+
+/** Calibrated offsets (ms) for inputs that belong to this phone; MIDI offsets are kept per keyboard */
+export type LatencyOffsets = Partial<Record<Exclude<LatencyProfile, 'midi'>, number>>;
+
+/**
+ * Base latency compensation per input method (ms).
+ * Subtracted from played-note timestamps before scoring, unless the input has
+ * been calibrated on this device.
+ */
+export const INPUT_LATENCY_COMPENSATION_MS: Record<string, number> = {
+  midi: 0,
+  touch: 20,
+  mic: 100,
+  mic_poly: 120, // Polyphonic adds ~20ms for ONNX inference overhead
+};
+
+export interface LatencyMeasurement {
+  /** Typical delay (ms) from click to response */
+  offsetMs: number;
+  /** Standard deviation (ms) of the responses that were kept */
+  jitterMs: number;
+  /** Clicks that got a response */
+  matched: number;
+}
+
+/** Clicks per calibration run */
+export const CALIBRATION_CLICKS = 16;
+
+/** Time between clicks (80 BPM) */
+export const CALIBRATION_INTERVAL_MS = 750;
+
+/** Clicks the learner hears before their taps count, to find the beat */
+export const LEAD_IN_CLICKS = 4;
+
+/** Fewest responses that make a measurement */
+const MIN_MATCHED = 6;
+
+/** Responses further than this from the median are ignored */
+const OUTLIER_MS = 80;
+
+/** Measurements noisier than this are rejected */
+const MAX_JITTER_MS = 60;
+
+/** No input is slower than this; a larger offset means the learner was a beat off */
+export const MAX_LATENCY_MS = 400;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Measure latency from click and response times (same clock, ms). Each click
+ * after the lead-in takes the nearest response within half an interval of it.
+ * The offset is the mean of the responses near the median, floored at 0
+ * because people tend to tap slightly ahead of a beat they can predict.
+ */
+export function measureLatency(
+  clickTimes: number[],
+  responseTimes: number[],
+  leadInClicks = LEAD_IN_CLICKS,
+  intervalMs = CALIBRATION_INTERVAL_MS,
+): LatencyMeasurement | { error: string } {
+  const halfInterval = intervalMs / 2;
+  const delays: number[] = [];
+  for (const click of clickTimes.slice(leadInClicks)) {
+    const nearest = responseTimes
+      .map((t) => t - click)
+      .filter((d) => d >= -halfInterval && d < halfInterval)
+      .sort((a, b) => Math.abs(a) - Math.abs(b))[0];
+    if (nearest !== undefined) delays.push(nearest);
+  }
+  if (delays.length < MIN_MATCHED) {
+    return { error: `Only ${delays.length} of ${clickTimes.length - leadInClicks} clicks were answered` };
+  }
+
+  const center = median(delays);
+  const kept = delays.filter((d) => Math.abs(d - center) <= OUTLIER_MS);
+  if (kept.length < MIN_MATCHED) return { error: 'Responses were too uneven to measure' };
+
+  const mean = kept.reduce((sum, d) => sum + d, 0) / kept.length;
+  const jitterMs = Math.sqrt(kept.reduce((sum, d) => sum + (d - mean) ** 2, 0) / kept.length);
+  if (jitterMs > MAX_JITTER_MS) return { error: 'Responses were too uneven to measure' };
+  if (mean > MAX_LATENCY_MS) return { error: 'Responses were more than a beat late' };
+
+  return { offsetMs: Math.max(0, Math.round(mean)), jitterMs: Math.round(jitterMs), matched: kept.length };
+}
+
+/** Which calibration applies to an input method */
+export function latencyProfileFor(
+  method: ActiveInputMethod,
+  micDetectionMode: 'monophonic' | 'polyphonic' = 'monophonic',
+): LatencyProfile {
+  if (method === 'mic') return micDetectionMode === 'polyphonic' ? 'mic_poly' : 'mic';
+  return method;
+}
@@ -0,0 +1,51 @@
+/**
+ * Detection presets for microphone input
+ *
+ * Shared by MicrophoneInput (live capture) and OfflineTranscription (recorded
+ * WAV fixtures) so both run the detectors with the same settings. Kept free of
+ * native imports so it loads under plain Node.
+ */
+
+import type { NoteTrackerConfig, PitchDetectorConfig } from './PitchDetector';
+import type { MultiNoteTrackerConfig } from './MultiNoteTracker';
+
+/**
+ * Tuned pitch detection preset for microphone input (real instrument → phone mic).
+ *
+ * The RMS gate (rmsThreshold) rejects silence before expensive YIN runs.
+ * Octave correction prevents YIN from locking onto the 2nd harmonic
+ * (common with piano low notes where the fundamental is weaker).
+ *
+ * These settings are tuned for REAL instrument input (piano/keyboard near phone mic),
+ * NOT for phone-speaker-to-mic echo. Speaker echo is handled by echo dedup in
+ * useExercisePlayback, not by relaxing detection thresholds.
+ */
+export const AMBIENT_PITCH_OVERRIDES: Partial<PitchDetectorConfig> = {
+  threshold: 0.15,       // Default 0.15 — standard YIN threshold; NoteTracker filters flukes
+  minConfidence: 0.35,   // Default 0.7 — phone mic + room reverb drops confidence to 0.3-0.6 for valid notes;
+                         // NoteTracker's 2-confirmation requirement already rejects single-frame noise
+  rmsThreshold: 0.002,   // Default 0.01 — iPhone mic in measurement mode still delivers low amplitudes
+                         // (maxAmplitude 0.01-0.03 for piano). RMS gate is a perf optimization, not a
+                         // quality filter — YIN threshold + NoteTracker handle noise rejection.
+                         // Ambient noise RMS is ~0.0005-0.001, piano signal ~0.003-0.009.
+  octaveCorrection: true, // Essential for piano: low notes have stronger 2nd harmonic than fundamental
+  minFrequency: 80,      // Default 50 — E2, covers beginner piano range. Also reduces maxTau from 882→551
+  maxFrequency: 1500,    // Default 2000 — ~G6, covers all beginner exercises
+};
+
+/**
+ * Tuned tracker preset for mic detection.
+ * 2 consecutive detections required for onset (minConfirmations = max(2, round(60/46)) = 2).
+ */
+export const AMBIENT_TRACKER_OVERRIDES: Partial<NoteTrackerConfig> = {
+  onsetHoldMs: 60,       // ~1.3 buffers at 46ms → minConfirmations clamps to 2.
+                         // Combined with gap tolerance, this allows detection within ~92-138ms.
+  releaseHoldMs: 350,    // Piano notes sustain 1-5s; keep the note active through amplitude dips.
+                         // At 46ms/buffer, 350ms survives ~7 unvoiced buffers before releasing.
+                         // Reduced from 500ms: with rmsThreshold at 0.002, piano signal rarely drops
+                         // below the gate during sustain. 350ms is enough for intermittent dips
+                         // while being responsive enough for staccato passages (~170 BPM quarter notes).
+};
+
+/** Tracker preset for polyphonic (Basic Pitch) frames, which arrive ~12ms apart */
+export const POLY_TRACKER_CONFIG: MultiNoteTrackerConfig = { onsetHoldMs: 30, releaseHoldMs: 60 };
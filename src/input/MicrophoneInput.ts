@@ -6,6 +6,10 @@
  * as MidiInput. This allows seamless integration with useExercisePlayback
  * and the scoring engine without any changes.
  *
+ * Every buffer also feeds an AdaptiveNoiseGate, which keeps YIN's RMS gate
+ * above the room's current noise floor and reports live SNR. Notes matching
+ * what the app itself is playing (appOutputLog) are dropped as speaker echo.
+ *
  * Usage:
  *   const mic = new MicrophoneInput();
  *   await mic.initialize();
@@ -22,6 +26,10 @@ import { YINPitchDetector, NoteTracker } from './PitchDetector';
 import type { PitchDetectorConfig, NoteTrackerConfig } from './PitchDetector';
 import { PolyphonicDetector } from './PolyphonicDetector';
 import { MultiNoteTracker } from './MultiNoteTracker';
+import { AMBIENT_PITCH_OVERRIDES, AMBIENT_TRACKER_OVERRIDES, POLY_TRACKER_CONFIG } from './MicDetectionPresets';
+import { AdaptiveNoiseGate } from './AdaptiveNoiseGate';
+import type { NoiseGateCallback, NoiseGateState } from './AdaptiveNoiseGate';
+import { appOutputLog } from '../audio/AppOutputLog';
 import { logger } from '../utils/logger';
 
 // ---------------------------------------------------------------------------
@@ -41,51 +49,18 @@ export interface MicrophoneInputConfig {
   latencyCompensationMs: number;
   /** Detection mode: monophonic (YIN) or polyphonic (ONNX Basic Pitch) */
   mode?: 'monophonic' | 'polyphonic';
+  /** Drop notes matching the app's own speaker output (default: true) */
+  suppressAppOutput?: boolean;
 }
 
+/** Gate changes smaller than this don't touch the detector */
+const RMS_THRESHOLD_STEP = 0.0005;
+
 const DEFAULT_CONFIG: MicrophoneInputConfig = {
   defaultVelocity: 80,
   latencyCompensationMs: 0,
 };
 
-/**
- * Tuned pitch detection preset for microphone input (real instrument → phone mic).
- *
- * The RMS gate (rmsThreshold) rejects silence before expensive YIN runs.
- * Octave correction prevents YIN from locking onto the 2nd harmonic
- * (common with piano low notes where the fundamental is weaker).
- *
- * These settings are tuned for REAL instrument input (piano/keyboard near phone mic),
- * NOT for phone-speaker-to-mic echo. Speaker echo is handled by echo dedup in
- * useExercisePlayback, not by relaxing detection thresholds.
- */
-const AMBIENT_PITCH_OVERRIDES: Partial<PitchDetectorConfig> = {
-  threshold: 0.15,       // Default 0.15 — standard YIN threshold; NoteTracker filters flukes
-  minConfidence: 0.35,   // Default 0.7 — phone mic + room reverb drops confidence to 0.3-0.6 for valid notes;
-                         // NoteTracker's 2-confirmation requirement already rejects single-frame noise
-  rmsThreshold: 0.002,   // Default 0.01 — iPhone mic in measurement mode still delivers low amplitudes
-                         // (maxAmplitude 0.01-0.03 for piano). RMS gate is a perf optimization, not a
-                         // quality filter — YIN threshold + NoteTracker handle noise rejection.
-                         // Ambient noise RMS is ~0.0005-0.001, piano signal ~0.003-0.009.
-  octaveCorrection: true, // Essential for piano: low notes have stronger 2nd harmonic than fundamental
-  minFrequency: 80,      // Default 50 — E2, covers beginner piano range. Also reduces maxTau from 882→551
-  maxFrequency: 1500,    // Default 2000 — ~G6, covers all beginner exercises
-};
-
-/**
- * Tuned tracker preset for mic detection.
- * 2 consecutive detections required for onset (minConfirmations = max(2, round(60/46)) = 2).
- */
-const AMBIENT_TRACKER_OVERRIDES: Partial<NoteTrackerConfig> = {
-  onsetHoldMs: 60,       // ~1.3 buffers at 46ms → minConfirmations clamps to 2.
-                         // Combined with gap tolerance, this allows detection within ~92-138ms.
-  releaseHoldMs: 350,    // Piano notes sustain 1-5s; keep the note active through amplitude dips.
-                         // At 46ms/buffer, 350ms survives ~7 unvoiced buffers before releasing.
-                         // Reduced from 500ms: with rmsThreshold at 0.002, piano signal rarely drops
-                         // below the gate during sustain. 350ms is enough for intermittent dips
-                         // while being responsive enough for staccato passages (~170 BPM quarter notes).
-};
-
 // ---------------------------------------------------------------------------
 // MicrophoneInput
 // ---------------------------------------------------------------------------
@@ -110,10 +85,14 @@ export class MicrophoneInput {
   private readonly pendingBuffer: Float32Array; // Pre-allocated buffer for deferred YIN detection
   private calibrationUnsub: (() => void) | null = null;
   private sampleRateCorrected = false; // Only check once per session
+  private readonly noiseGate: AdaptiveNoiseGate;
+  private echoNotes: Set<number> = new Set(); // Suppressed noteOns whose noteOff must be dropped too
+  private suppressAppOutput: boolean;
 
   constructor(config?: Partial<MicrophoneInputConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.mode = config?.mode ?? 'monophonic';
+    this.suppressAppOutput = config?.suppressAppOutput ?? true;
 
     const sampleRate = this.config.pitch?.sampleRate ?? 44100;
     const bufferSize = this.config.pitch?.bufferSize ?? 2048;
@@ -135,6 +114,7 @@ export class MicrophoneInput {
 
     this.detector = new YINPitchDetector(pitchConfig);
     this.tracker = new NoteTracker(trackerConfig);
+    this.noiseGate = new AdaptiveNoiseGate({ minRmsThreshold: this.detector.getRmsThreshold() });
 
     logger.log(
       `[MicrophoneInput] Created in ${this.mode} mode, pitchConfig: threshold=${pitchConfig.threshold}, ` +
@@ -157,9 +137,9 @@ export class MicrophoneInput {
     // Try polyphonic mode if requested
     if (this.mode === 'polyphonic') {
       try {
-        this.polyDetector = new PolyphonicDetector();
+        this.polyDetector = new PolyphonicDetector({ tuningOffsetCents: this.config.pitch?.tuningOffsetCents ?? 0 });
         await this.polyDetector.initialize();
-        this.multiTracker = new MultiNoteTracker({ onsetHoldMs: 30, releaseHoldMs: 60 });
+        this.multiTracker = new MultiNoteTracker(POLY_TRACKER_CONFIG);
         logger.log('[MicrophoneInput] Polyphonic detection initialized (ONNX Basic Pitch)');
       } catch (err) {
         logger.warn('[MicrophoneInput] Polyphonic detection unavailable, falling back to monophonic:', err);
@@ -176,6 +156,7 @@ export class MicrophoneInput {
       // to prevent unbounded promise pile-up and latency growth
       this.unsubCapture = this.capture.onAudioBuffer((samples) => {
         this.detectionCount++;
+        this.noiseGate.process(samples, Date.now(), appOutputLog.isSounding());
 
         // Check for sample rate mismatch on first buffer (iPhones use 48kHz).
         if (!this.sampleRateCorrected) {
@@ -216,6 +197,7 @@ export class MicrophoneInput {
       // detections. Back-pressure flag drops buffers if detection is slow.
       this.unsubCapture = this.capture.onAudioBuffer((samples) => {
         this.detectionCount++;
+        this._updateNoiseGate(samples);
 
         // Check for sample rate mismatch on first buffer.
         // Modern iPhones use 48000Hz natively — if AudioRecorder doesn't resample
@@ -272,7 +254,27 @@ export class MicrophoneInput {
     }
   }
 
+  /** Track the room's noise floor and keep YIN's RMS gate just above it */
+  private _updateNoiseGate(samples: Float32Array): void {
+    const { rmsThreshold } = this.noiseGate.process(samples, Date.now(), appOutputLog.isSounding());
+    if (Math.abs(rmsThreshold - this.detector.getRmsThreshold()) >= RMS_THRESHOLD_STEP) {
+      this.detector.setRmsThreshold(rmsThreshold);
+    }
+  }
+
   private _emitNoteEvent(noteEvent: import('./PitchDetector').NoteEvent): void {
+    // Drop the app's own speaker output (demo notes, metronome) and the
+    // noteOff that closes it
+    if (
+      noteEvent.type === 'noteOn' &&
+      this.suppressAppOutput &&
+      appOutputLog.isEcho(noteEvent.midiNote, noteEvent.timestamp)
+    ) {
+      this.echoNotes.add(noteEvent.midiNote);
+      return;
+    }
+    if (noteEvent.type === 'noteOff' && this.echoNotes.delete(noteEvent.midiNote)) return;
+
     // Use RMS-estimated velocity when available (noteOn from NoteTracker),
     // fall back to defaultVelocity for backward compatibility
     const velocity = noteEvent.type === 'noteOn'
@@ -301,14 +303,14 @@ export class MicrophoneInput {
     this.isActive = true;
     this.detectionCount = 0;
     this.voicedCount = 0;
+    this.echoNotes.clear();
+    this.noiseGate.reset();
     await this.capture.start();
     logger.log('[MicrophoneInput] Started listening');
 
-    // Auto-calibration disabled: it was raising the RMS threshold above the
-    // initial 0.006, causing decaying piano notes to be rejected. The static
-    // rmsThreshold is a better default for real instrument detection.
-    // TODO: re-enable with a lower multiplier (1.5x) if background noise
-    // causes false positives in practice.
+    // One-shot auto-calibration stays disabled: it raised the RMS threshold
+    // above the initial 0.006, causing decaying piano notes to be rejected.
+    // AdaptiveNoiseGate tracks the floor continuously instead (1.5x, capped).
   }
 
 
@@ -363,6 +365,27 @@ export class MicrophoneInput {
     return this.isActive;
   }
 
+  /**
+   * Turn speaker-echo suppression on or off, e.g. off while loopback
+   * calibration listens for the app's own clicks.
+   */
+  setAppOutputSuppression(enabled: boolean): void {
+    this.suppressAppOutput = enabled;
+  }
+
+  /** Current noise floor, RMS gate and SNR */
+  getNoiseGateState(): NoiseGateState {
+    return this.noiseGate.getState();
+  }
+
+  /**
+   * Register callback for noise gate updates (one per captured buffer).
+   * Returns an unsubscribe function.
+   */
+  onNoiseGateChange(callback: NoiseGateCallback): () => void {
+    return this.noiseGate.onChange(callback);
+  }
+
   /** Get estimated latency of the full pipeline in ms */
   getEstimatedLatencyMs(): number {
     // Buffer fill time + detection time + tracker onset hold
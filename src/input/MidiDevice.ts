@@ -13,6 +13,8 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { MidiDevice as IMidiDevice } from './MidiInput';
+import type { VelocityCalibration } from '../core/exercises/dynamics';
+import { DEFAULT_MIDI_OUTPUT_CONFIG, type MidiOutputConfig } from './MidiOutput';
 import { logger } from '../utils/logger';
 
 /**
@@ -45,6 +47,16 @@ export const KNOWN_MIDI_KEYBOARDS = {
     minPolyphony: 192,
     verified: true,
   },
+  LKS250: {
+    name: 'Casio LK-S250',
+    manufacturer: 'Casio',
+    hasVelocity: true,
+    hasSustain: true,
+    minPolyphony: 48,
+    verified: true,
+    // Key lights follow note-ons on the "navigate" channel (4, zero-based 3)
+    lightGuideChannel: 3,
+  },
   // Roland
   FP30X: {
     name: 'Roland FP-30X',
@@ -91,6 +103,8 @@ export interface DeviceCompatibility {
   hasVelocity: boolean;
   hasSustain: boolean;
   minPolyphony: number;
+  /** Channel (zero-based) whose note-ons light the keys, for light-key keyboards */
+  lightGuideChannel?: number;
   notes?: string;
 }
 
@@ -101,6 +115,11 @@ export interface MidiDeviceInfo extends IMidiDevice {
   compatibility?: DeviceCompatibility;
   lastUsedTime?: number;
   isPreferred?: boolean;
+  velocityCalibration?: VelocityCalibration;
+  /** Calibrated delay (ms) from hearing a click to this keyboard's note arriving */
+  latencyOffsetMs?: number;
+  /** What the app sends back to this keyboard (demos, metronome, key lights) */
+  outputConfig?: MidiOutputConfig;
 }
 
 /**
@@ -190,6 +209,7 @@ export class MidiDeviceManager {
           hasVelocity: specs.hasVelocity,
           hasSustain: specs.hasSustain,
           minPolyphony: specs.minPolyphony,
+          lightGuideChannel: 'lightGuideChannel' in specs ? specs.lightGuideChannel : undefined,
         };
       }
     }
@@ -215,6 +235,9 @@ export class MidiDeviceManager {
       ...device,
       compatibility,
       lastUsedTime: existing?.lastUsedTime,
+      velocityCalibration: existing?.velocityCalibration,
+      latencyOffsetMs: existing?.latencyOffsetMs,
+      outputConfig: existing?.outputConfig,
     };
 
     this.discoveredDevices.set(device.id, info);
@@ -250,6 +273,67 @@ export class MidiDeviceManager {
     }
   }
 
+  /**
+   * Store the learner's soft/loud velocity range for a device
+   */
+  setVelocityCalibration(deviceId: string, calibration: VelocityCalibration): void {
+    const device = this.discoveredDevices.get(deviceId);
+    if (device) {
+      device.velocityCalibration = calibration;
+      this._saveDiscoveredDevices();
+    }
+  }
+
+  /**
+   * Get the velocity calibration for a device (null if never calibrated)
+   */
+  getVelocityCalibration(deviceId: string): VelocityCalibration | null {
+    return this.discoveredDevices.get(deviceId)?.velocityCalibration ?? null;
+  }
+
+  /**
+   * Store the measured input latency for a device (null clears it)
+   */
+  setLatencyOffset(deviceId: string, offsetMs: number | null): void {
+    const device = this.discoveredDevices.get(deviceId);
+    if (device) {
+      device.latencyOffsetMs = offsetMs ?? undefined;
+      this._saveDiscoveredDevices();
+    }
+  }
+
+  /**
+   * Get the measured input latency for a device (null if never calibrated)
+   */
+  getLatencyOffset(deviceId: string): number | null {
+    return this.discoveredDevices.get(deviceId)?.latencyOffsetMs ?? null;
+  }
+
+  /**
+   * Store what the app sends back to a device
+   */
+  setOutputConfig(deviceId: string, config: MidiOutputConfig): void {
+    const device = this.discoveredDevices.get(deviceId);
+    if (device) {
+      device.outputConfig = config;
+      this._saveDiscoveredDevices();
+    }
+  }
+
+  /**
+   * Get the output config for a device. Devices never configured get the
+   * defaults, with key lights on for known light-key keyboards.
+   */
+  getOutputConfig(deviceId: string): MidiOutputConfig {
+    const device = this.discoveredDevices.get(deviceId);
+    if (device?.outputConfig) return device.outputConfig;
+
+    const lightGuideChannel = device?.compatibility?.lightGuideChannel;
+    return lightGuideChannel === undefined
+      ? DEFAULT_MIDI_OUTPUT_CONFIG
+      : { ...DEFAULT_MIDI_OUTPUT_CONFIG, ledProtocol: 'noteOnChannel', ledChannel: lightGuideChannel };
+  }
+
   /**
    * Get last used device ID (most recently used, or preferred if none used)
    */
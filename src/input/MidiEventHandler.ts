@@ -166,10 +166,13 @@ export class MidiEventHandler {
 
   /**
    * Handle sustain pedal change
-   * When sustain is released, release all sustained notes
+   * When sustain is released, release all sustained notes.
+   * Continuous pedals stream many CC64 values per press — only
+   * down/up transitions are reported.
    */
   private _handleSustainChange(isActive: boolean, timestamp: number): void {
     const previousState = this.sustain.isActive;
+    if (previousState === isActive) return;
     this.sustain = { isActive, timestamp };
 
     // If sustain was just released, release all sustained notes
@@ -0,0 +1,162 @@
+/**
+ * Keyboard output — what the app plays and lights on the learner's keyboard
+ *
+ * Pairs the MIDI output port with the keyboard the learner plays on (same
+ * name as the input port) and applies that keyboard's MidiOutputConfig:
+ * - demos sound on the keyboard's own piano instead of the phone speaker
+ * - the metronome clicks on the keyboard's drum channel
+ * - the next notes to play light up on keyboards with guide LEDs
+ *
+ * Every method is a no-op when no output is connected, so callers never need
+ * to check first.
+ */
+
+import type { InstrumentRole, NoteHandle } from '../audio/types';
+import type { MidiDevice } from './MidiInput';
+import MidiDeviceManager from './MidiDevice';
+import {
+  DEFAULT_MIDI_OUTPUT_CONFIG,
+  DRUM_CHANNEL,
+  METRONOME_BEAT_NOTE,
+  METRONOME_DOWNBEAT_NOTE,
+  allNotesOffMessage,
+  getMidiOutput,
+  noteOffMessage,
+  noteOnMessage,
+  type MidiOutputConfig,
+} from './MidiOutput';
+import { logger } from '../utils/logger';
+
+/** The part of an audio engine that demo playback uses */
+export interface NoteSink {
+  playNote(note: number, velocity: number, role?: InstrumentRole): NoteHandle;
+  releaseNote(handle: NoteHandle): void;
+}
+
+/** How long a metronome click note is held before its note-off */
+const METRONOME_CLICK_MS = 50;
+
+export class MidiKeyboardOutput {
+  private inputDeviceId: string | null = null;
+  private config: MidiOutputConfig = DEFAULT_MIDI_OUTPUT_CONFIG;
+  private litNotes = new Set<number>();
+
+  /**
+   * Connect the output port of the keyboard behind `inputDevice`.
+   * Returns false when the keyboard has no output port.
+   */
+  async connectForInput(inputDevice: MidiDevice): Promise<boolean> {
+    if (this.isConnected && this.inputDeviceId === inputDevice.id) return true;
+    const output = getMidiOutput();
+    try {
+      await output.initialize();
+      const devices = await output.getOutputDevices();
+      const match = devices.find((d) => d.name === inputDevice.name && d.connected);
+      if (!match) {
+        logger.log(`[MIDI Out] No output port for ${inputDevice.name}`);
+        return false;
+      }
+
+      this.disconnect();
+      await output.connectDevice(match.id);
+      if (!MidiDeviceManager.getDevice(inputDevice.id)) MidiDeviceManager.registerDevice(inputDevice);
+      this.inputDeviceId = inputDevice.id;
+      this.config = MidiDeviceManager.getOutputConfig(inputDevice.id);
+      return true;
+    } catch (error) {
+      logger.warn('[MIDI Out] Connect failed:', error);
+      return false;
+    }
+  }
+
+  /** Turn off lights and sounding notes, then release the output port */
+  disconnect(): void {
+    if (!this.isConnected) return;
+    this.clearLights();
+    const output = getMidiOutput();
+    output.send(allNotesOffMessage(this.config.soundChannel));
+    output.disconnectDevice();
+    this.inputDeviceId = null;
+    this.config = DEFAULT_MIDI_OUTPUT_CONFIG;
+  }
+
+  get isConnected(): boolean {
+    return this.inputDeviceId !== null && getMidiOutput().getActiveDeviceId() !== null;
+  }
+
+  /** Input device id of the connected keyboard (config is stored under it) */
+  get deviceId(): string | null {
+    return this.isConnected ? this.inputDeviceId : null;
+  }
+
+  getConfig(): MidiOutputConfig {
+    return this.config;
+  }
+
+  /** Apply and save a new config for the connected keyboard */
+  configure(config: MidiOutputConfig): void {
+    if (!this.inputDeviceId) return;
+    this.clearLights();
+    this.config = config;
+    MidiDeviceManager.setOutputConfig(this.inputDeviceId, config);
+  }
+
+  /**
+   * Where demo notes should sound: the keyboard when it is connected and
+   * demos are enabled for it, otherwise `engine` unchanged.
+   */
+  routeNotes(engine: NoteSink): NoteSink {
+    if (!this.isConnected || !this.config.playDemos) return engine;
+
+    const channel = this.config.soundChannel;
+    return {
+      playNote: (note: number, velocity: number) => {
+        const output = getMidiOutput();
+        output.send(noteOnMessage(channel, note, velocity * 127));
+        return {
+          note,
+          startTime: Date.now(),
+          release: () => output.send(noteOffMessage(channel, note)),
+        };
+      },
+      releaseNote: (handle: NoteHandle) => handle.release(),
+    };
+  }
+
+  /**
+   * Click the metronome on the keyboard's drum channel.
+   * Returns false when the click should play on the phone instead.
+   */
+  playMetronomeClick(isDownbeat: boolean, volume: number): boolean {
+    if (!this.isConnected || !this.config.metronome) return false;
+
+    const note = isDownbeat ? METRONOME_DOWNBEAT_NOTE : METRONOME_BEAT_NOTE;
+    const output = getMidiOutput();
+    output.send(noteOnMessage(DRUM_CHANNEL, note, volume * 127));
+    setTimeout(() => output.send(noteOffMessage(DRUM_CHANNEL, note)), METRONOME_CLICK_MS);
+    return true;
+  }
+
+  /** Light exactly `notes`, turning off keys that were lit before */
+  showNextNotes(notes: Iterable<number>): void {
+    if (!this.isConnected || this.config.ledProtocol === 'none') return;
+
+    const next = new Set(notes);
+    const output = getMidiOutput();
+    const channel = this.config.ledChannel;
+    for (const note of this.litNotes) {
+      if (!next.has(note)) output.send(noteOffMessage(channel, note));
+    }
+    for (const note of next) {
+      if (!this.litNotes.has(note)) output.send(noteOnMessage(channel, note, 127));
+    }
+    this.litNotes = next;
+  }
+
+  clearLights(): void {
+    this.showNextNotes([]);
+    this.litNotes.clear();
+  }
+}
+
+export const midiKeyboardOutput = new MidiKeyboardOutput();
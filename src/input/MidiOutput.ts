@@ -0,0 +1,255 @@
+/**
+ * MIDI output abstraction layer
+ * Sends MIDI messages to the learner's keyboard: notes to sound, metronome
+ * clicks, and key-light guide messages
+ *
+ * Architecture:
+ * - requestMIDIAccess() → MIDIAccess.outputs (same native module as MidiInput)
+ * - MIDIOutput.send(bytes) — fire-and-forget, no acknowledgement
+ * - NoOpMidiOutput when the native module is missing; it records what was sent
+ *
+ * Per-device settings (which channel sounds, how keys light) live in
+ * MidiOutputConfig, stored per keyboard by MidiDeviceManager.
+ */
+
+import { Platform, NativeModules } from 'react-native';
+import type { MidiDevice } from './MidiInput';
+import { logger } from '../utils/logger';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * How a keyboard lights its guide LEDs.
+ * - 'none': no lights
+ * - 'noteOnChannel': a note-on on `ledChannel` lights the key, note-off turns it
+ *   off (Casio's "navigate" channels and most light-key keyboards)
+ */
+export type LedProtocol = 'none' | 'noteOnChannel';
+
+export interface MidiOutputConfig {
+  /** Send demo playback to the keyboard instead of the phone speaker */
+  playDemos: boolean;
+  /** Send the metronome to the keyboard's drum channel */
+  metronome: boolean;
+  /** Channel (0-15) notes are sounded on */
+  soundChannel: number;
+  ledProtocol: LedProtocol;
+  /** Channel (0-15) for 'noteOnChannel' key lights */
+  ledChannel: number;
+}
+
+export const DEFAULT_MIDI_OUTPUT_CONFIG: MidiOutputConfig = {
+  playDemos: true,
+  metronome: false,
+  soundChannel: 0,
+  ledProtocol: 'none',
+  ledChannel: 3,
+};
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/** General MIDI percussion channel (channel 10, zero-based) */
+export const DRUM_CHANNEL = 9;
+
+/** GM hi / low wood block for metronome downbeat and other beats */
+export const METRONOME_DOWNBEAT_NOTE = 76;
+export const METRONOME_BEAT_NOTE = 77;
+
+const clampByte = (value: number) => Math.max(0, Math.min(127, Math.round(value)));
+
+export function noteOnMessage(channel: number, note: number, velocity: number): number[] {
+  // Velocity 0 would be read as note-off
+  return [0x90 | (channel & 0x0f), clampByte(note), Math.max(1, clampByte(velocity))];
+}
+
+export function noteOffMessage(channel: number, note: number): number[] {
+  return [0x80 | (channel & 0x0f), clampByte(note), 0];
+}
+
+/** CC 123 — releases every note sounding on the channel */
+export function allNotesOffMessage(channel: number): number[] {
+  return [0xb0 | (channel & 0x0f), 123, 0];
+}
+
+// ---------------------------------------------------------------------------
+// Output interface
+// ---------------------------------------------------------------------------
+
+export interface MidiOutput {
+  // Initialization
+  initialize(): Promise<void>;
+  dispose(): Promise<void>;
+
+  // Device management
+  getOutputDevices(): Promise<MidiDevice[]>;
+  connectDevice(deviceId: string): Promise<void>;
+  disconnectDevice(): void;
+
+  /** Send a raw MIDI message to the connected device (dropped if none) */
+  send(message: number[]): void;
+
+  // State
+  getActiveDeviceId(): string | null;
+  isReady(): boolean;
+}
+
+/**
+ * Native MIDI Output Implementation
+ * Uses the MIDIAccess.outputs side of @motiz88/react-native-midi
+ */
+export class NativeMidiOutput implements MidiOutput {
+  private isInitialized = false;
+  private activeDeviceId: string | null = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private midiAccess: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private activeOutput: any = null;
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+    try {
+      const { requestMIDIAccess } = require('@motiz88/react-native-midi');
+      this.midiAccess = await requestMIDIAccess();
+      this.isInitialized = true;
+      logger.log('[MIDI Out] Web MIDI access granted');
+    } catch (error) {
+      logger.error('[MIDI Out] Initialization failed:', error);
+      throw error;
+    }
+  }
+
+  async dispose(): Promise<void> {
+    this.disconnectDevice();
+    this.midiAccess = null;
+    this.isInitialized = false;
+  }
+
+  async getOutputDevices(): Promise<MidiDevice[]> {
+    if (!this.midiAccess?.outputs) return [];
+
+    const devices: MidiDevice[] = [];
+    this.midiAccess.outputs.forEach((output: { id: string; name: string; manufacturer: string; state: string }) => {
+      devices.push({
+        id: output.id,
+        name: output.name || 'Unknown Device',
+        manufacturer: output.manufacturer,
+        type: 'output',
+        connected: output.state === 'connected',
+      });
+    });
+    return devices;
+  }
+
+  async connectDevice(deviceId: string): Promise<void> {
+    const output = this.midiAccess?.outputs?.get(deviceId);
+    if (!output) {
+      logger.warn(`[MIDI Out] Device ${deviceId} not found`);
+      return;
+    }
+    this.activeOutput = output;
+    this.activeDeviceId = deviceId;
+    logger.log(`[MIDI Out] Connected to device: ${output.name}`);
+  }
+
+  disconnectDevice(): void {
+    this.activeOutput = null;
+    this.activeDeviceId = null;
+  }
+
+  send(message: number[]): void {
+    if (!this.activeOutput) return;
+    try {
+      this.activeOutput.send(message);
+    } catch (error) {
+      logger.warn('[MIDI Out] Send failed:', error);
+    }
+  }
+
+  getActiveDeviceId(): string | null {
+    return this.activeDeviceId;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * No-op implementation for testing and builds without native MIDI.
+ * Messages sent while a device is connected are kept in `sentMessages`.
+ */
+export class NoOpMidiOutput implements MidiOutput {
+  sentMessages: number[][] = [];
+  private devices: MidiDevice[] = [];
+  private activeDeviceId: string | null = null;
+  private isInitialized = false;
+
+  async initialize(): Promise<void> {
+    this.isInitialized = true;
+  }
+
+  async dispose(): Promise<void> {
+    this.disconnectDevice();
+    this.isInitialized = false;
+    this.sentMessages = [];
+  }
+
+  async getOutputDevices(): Promise<MidiDevice[]> {
+    return [...this.devices];
+  }
+
+  async connectDevice(deviceId: string): Promise<void> {
+    if (this.devices.some((d) => d.id === deviceId)) this.activeDeviceId = deviceId;
+  }
+
+  disconnectDevice(): void {
+    this.activeDeviceId = null;
+  }
+
+  send(message: number[]): void {
+    if (this.activeDeviceId) this.sentMessages.push(message);
+  }
+
+  getActiveDeviceId(): string | null {
+    return this.activeDeviceId;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  // For testing only
+  _simulateDevice(device: MidiDevice): void {
+    this.devices.push(device);
+  }
+}
+
+// Default instance - use native if available, fallback to no-op
+let midiOutputInstance: MidiOutput | null = null;
+
+export function getMidiOutput(): MidiOutput {
+  if (!midiOutputInstance) {
+    // Same NativeModules check as getMidiInput — require() of a missing native
+    // module can throw uncatchable errors under Hermes
+    let useNative = false;
+    if (Platform.OS !== 'web' && NativeModules.ReactNativeMidi) {
+      try {
+        require('@motiz88/react-native-midi');
+        useNative = true;
+      } catch {
+        // Native MIDI module not linked in this build
+      }
+    }
+    midiOutputInstance = useNative ? new NativeMidiOutput() : new NoOpMidiOutput();
+    logger.log(`[MIDI Out] Using ${useNative ? 'native (Web MIDI API)' : 'no-op'} MIDI output implementation`);
+  }
+  return midiOutputInstance;
+}
+
+export function setMidiOutput(output: MidiOutput): void {
+  midiOutputInstance = output;
+}
@@ -0,0 +1,256 @@
+/**
+ * Offline transcription harness for mic pitch detection
+ *
+ * Runs recorded audio through the same detectors and presets as
+ * MicrophoneInput — YIN + NoteTracker, or a polyphonic frame detector +
+ * MultiNoteTracker — and compares the notes it hears to an exercise.
+ *
+ * Used by scripts/transcribe-wav.ts and the detector tests to catch accuracy
+ * regressions and tune AmbientNoiseCalibrator thresholds without a device.
+ *
+ * Timing: a buffer is stamped with the audio position of its last sample,
+ * which is when live capture would deliver it.
+ */
+
+import type { Exercise, ExerciseScore, MidiNoteEvent } from '../core/exercises/types';
+import { scoreExercise } from '../core/exercises/ExerciseValidator';
+import { createTempoTimeline } from '../core/exercises/tempoMap';
+import { YINPitchDetector, NoteTracker } from './PitchDetector';
+import type { NoteEvent, NoteTrackerConfig, PitchDetectorConfig } from './PitchDetector';
+import { MultiNoteTracker } from './MultiNoteTracker';
+import type { PolyphonicFrame } from './PolyphonicDetector';
+import { AmbientNoiseCalibrator } from './AmbientNoiseCalibrator';
+import type { CalibrationResult } from './AmbientNoiseCalibrator';
+import { AMBIENT_PITCH_OVERRIDES, AMBIENT_TRACKER_OVERRIDES, POLY_TRACKER_CONFIG } from './MicDetectionPresets';
+import type { WavAudio } from './WavDecoder';
+
+// ---------------------------------------------------------------------------
+// Transcription
+// ---------------------------------------------------------------------------
+
+/** The part of PolyphonicDetector the harness drives */
+export interface FrameDetector {
+  detect(audioBuffer: Float32Array): Promise<PolyphonicFrame[]>;
+}
+
+export interface TranscriptionOptions {
+  mode?: 'monophonic' | 'polyphonic';
+  /** Samples per detection buffer (default: 2048, as AudioCapture) */
+  bufferSize?: number;
+  /** Overrides applied on top of the mic presets (and calibration) */
+  pitch?: Partial<PitchDetectorConfig>;
+  tracker?: Partial<NoteTrackerConfig>;
+  /**
+   * Leading ambient audio (ms) to calibrate on before detection, as the app
+   * would measure the room before a session. 0 = presets only.
+   */
+  calibrationMs?: number;
+  /**
+   * Polyphonic mode: builds the frame detector. `clock` returns the current
+   * audio position — pass it as PolyphonicDetector's `clock`. `noteThreshold`
+   * is set when `calibrationMs` is.
+   */
+  createPolyDetector?: (clock: () => number, noteThreshold?: number) => FrameDetector;
+}
+
+export interface Transcription {
+  /** Detected notes, timestamped in ms from the start of the audio */
+  events: MidiNoteEvent[];
+  calibration: CalibrationResult | null;
+}
+
+/** Same default as MicrophoneInput */
+const DEFAULT_VELOCITY = 80;
+
+function toMidiEvent(event: NoteEvent): MidiNoteEvent {
+  return {
+    type: event.type,
+    note: event.midiNote,
+    velocity: event.type === 'noteOn' ? (event.velocity ?? DEFAULT_VELOCITY) : 0,
+    timestamp: event.timestamp,
+    channel: 0,
+    inputSource: 'mic',
+  };
+}
+
+function splitBuffers(samples: Float32Array, bufferSize: number): Float32Array[] {
+  const buffers: Float32Array[] = [];
+  for (let start = 0; start + bufferSize <= samples.length; start += bufferSize) {
+    buffers.push(samples.subarray(start, start + bufferSize));
+  }
+  return buffers;
+}
+
+/**
+ * Transcribe recorded audio into the note events the mic pipeline would emit.
+ * Notes still sounding at the end are released at the end of the audio.
+ */
+export async function transcribeAudio(
+  audio: WavAudio,
+  options: TranscriptionOptions = {},
+): Promise<Transcription> {
+  const bufferSize = options.bufferSize ?? 2048;
+  const bufferMs = (bufferSize / audio.sampleRate) * 1000;
+  const buffers = splitBuffers(audio.samples, bufferSize);
+
+  let calibration: CalibrationResult | null = null;
+  if (options.calibrationMs) {
+    const count = Math.max(1, Math.floor(options.calibrationMs / bufferMs));
+    calibration = await new AmbientNoiseCalibrator().calibrate(async () => buffers.slice(0, count));
+  }
+
+  const events: MidiNoteEvent[] = [];
+  const collect = (event: NoteEvent) => events.push(toMidiEvent(event));
+  const endMs = audio.durationMs;
+
+  if (options.mode === 'polyphonic') {
+    if (!options.createPolyDetector) throw new Error('Polyphonic transcription needs createPolyDetector');
+    let position = 0;
+    const detector = options.createPolyDetector(() => position, calibration?.noteThreshold);
+    const tracker = new MultiNoteTracker(POLY_TRACKER_CONFIG);
+    tracker.onNoteEvent(collect);
+
+    for (let i = 0; i < buffers.length; i++) {
+      position = (i + 1) * bufferMs;
+      for (const frame of await detector.detect(buffers[i])) tracker.update(frame);
+    }
+    for (const note of tracker.getActiveNotes()) {
+      collect({ type: 'noteOff', midiNote: note, confidence: 0, timestamp: endMs });
+    }
+    return { events, calibration };
+  }
+
+  const detector = new YINPitchDetector({
+    sampleRate: audio.sampleRate,
+    bufferSize,
+    ...AMBIENT_PITCH_OVERRIDES,
+    ...(calibration && { threshold: calibration.yinThreshold, minConfidence: calibration.yinConfidence }),
+    ...options.pitch,
+  });
+  const tracker = new NoteTracker({ ...AMBIENT_TRACKER_OVERRIDES, ...options.tracker });
+  tracker.onNoteEvent(collect);
+
+  for (let i = 0; i < buffers.length; i++) {
+    const result = detector.detect(buffers[i]);
+    result.timestamp = (i + 1) * bufferMs;
+    tracker.update(result);
+  }
+  const active = tracker.getCurrentNote();
+  if (active !== null) {
+    collect({ type: 'noteOff', midiNote: active, confidence: 0, timestamp: endMs });
+  }
+  return { events, calibration };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export interface DetectionMetrics {
+  matched: number;
+  /** Matched / detected */
+  precision: number;
+  /** Matched / expected */
+  recall: number;
+  f1: number;
+}
+
+export interface TranscriptionReport {
+  expected: number;
+  detected: number;
+  /** Onsets within tolerance of an expected note, any pitch */
+  onset: DetectionMetrics;
+  /** Onsets within tolerance with the right pitch */
+  note: DetectionMetrics;
+  /** Mean signed onset error (ms) of right-pitch matches; positive = detected late */
+  meanOnsetErrorMs: number | null;
+  /** What the exercise scorer makes of the transcription */
+  score: ExerciseScore;
+}
+
+export interface EvaluationOptions {
+  /** Audio position (ms) of beat 0 */
+  startMs?: number;
+  /** Subtracted from detected onsets, as the app does for mic input */
+  latencyCompensationMs?: number;
+  /** Largest onset error that still counts as a match (default: 100) */
+  onsetToleranceMs?: number;
+}
+
+export const ONSET_TOLERANCE_MS = 100;
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole);
+
+function metrics(matched: number, detected: number, expected: number): DetectionMetrics {
+  const precision = ratio(matched, detected);
+  const recall = ratio(matched, expected);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { matched, precision, recall, f1 };
+}
+
+/**
+ * One-to-one matching of expected and detected onsets, closest pairs first.
+ * Returns the signed error of each match.
+ */
+function matchOnsets(
+  expected: Array<{ ms: number; note: number }>,
+  detected: Array<{ ms: number; note: number }>,
+  toleranceMs: number,
+  samePitch: boolean,
+): number[] {
+  const pairs: Array<{ e: number; d: number; error: number }> = [];
+  expected.forEach((exp, e) => {
+    detected.forEach((det, d) => {
+      const error = det.ms - exp.ms;
+      if (Math.abs(error) <= toleranceMs && (!samePitch || det.note === exp.note)) {
+        pairs.push({ e, d, error });
+      }
+    });
+  });
+  pairs.sort((a, b) => Math.abs(a.error) - Math.abs(b.error));
+
+  const usedExpected = new Set<number>();
+  const usedDetected = new Set<number>();
+  const errors: number[] = [];
+  for (const pair of pairs) {
+    if (usedExpected.has(pair.e) || usedDetected.has(pair.d)) continue;
+    usedExpected.add(pair.e);
+    usedDetected.add(pair.d);
+    errors.push(pair.error);
+  }
+  return errors;
+}
+
+/**
+ * Compare transcribed events to an exercise: onset and note precision/recall,
+ * plus the score the exercise scorer gives the same events.
+ */
+export function evaluateTranscription(
+  exercise: Exercise,
+  events: MidiNoteEvent[],
+  options: EvaluationOptions = {},
+): TranscriptionReport {
+  const offsetMs = (options.startMs ?? 0) + (options.latencyCompensationMs ?? 0);
+  const toleranceMs = options.onsetToleranceMs ?? ONSET_TOLERANCE_MS;
+  const timeline = createTempoTimeline(exercise.settings);
+
+  const played = events.map((event) => ({ ...event, timestamp: event.timestamp - offsetMs }));
+  const expected = exercise.notes.map((n) => ({ ms: timeline.beatToMs(n.startBeat), note: n.note }));
+  const detected = played
+    .filter((event) => event.type === 'noteOn')
+    .map((event) => ({ ms: event.timestamp, note: event.note }));
+
+  const onsetErrors = matchOnsets(expected, detected, toleranceMs, false);
+  const noteErrors = matchOnsets(expected, detected, toleranceMs, true);
+
+  return {
+    expected: expected.length,
+    detected: detected.length,
+    onset: metrics(onsetErrors.length, detected.length, expected.length),
+    note: metrics(noteErrors.length, detected.length, expected.length),
+    meanOnsetErrorMs: noteErrors.length > 0
+      ? noteErrors.reduce((sum, e) => sum + e, 0) / noteErrors.length
+      : null,
+    score: scoreExercise(exercise, played),
+  };
+}
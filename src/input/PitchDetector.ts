@@ -59,6 +59,11 @@ export interface PitchDetectorConfig {
   rmsThreshold: number;
   /** Enable octave error correction (default: true) */
   octaveCorrection: boolean;
+  /**
+   * How far the instrument is tuned from A=440, in cents (default: 0).
+   * midiNote and centsOffset are relative to this tuning.
+   */
+  tuningOffsetCents: number;
 }
 
 const DEFAULT_CONFIG: PitchDetectorConfig = {
@@ -70,6 +75,7 @@ const DEFAULT_CONFIG: PitchDetectorConfig = {
   maxFrequency: 2000,
   rmsThreshold: 0.01,
   octaveCorrection: true,
+  tuningOffsetCents: 0,
 };
 
 // ---------------------------------------------------------------------------
@@ -93,11 +99,14 @@ export class YINPitchDetector {
   private _freqHistoryIdx = 0;
   /** Runtime-adjustable RMS threshold (updated by ambient calibration) */
   private _rmsThreshold: number;
+  /** Runtime-adjustable tuning offset (updated by the piano tuning check) */
+  private _tuningCents: number;
 
   constructor(config?: Partial<PitchDetectorConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.halfSize = Math.floor(this.config.bufferSize / 2);
     this._rmsThreshold = this.config.rmsThreshold;
+    this._tuningCents = this.config.tuningOffsetCents;
 
     // Pre-allocate YIN difference buffer (CRITICAL: no allocation in detect())
     this.yinBuffer = new Float32Array(this.halfSize);
@@ -122,6 +131,17 @@ export class YINPitchDetector {
     return this._rmsThreshold;
   }
 
+  /** Update the instrument's tuning offset from A=440 (cents) */
+  setTuningOffset(cents: number): void {
+    this._tuningCents = cents;
+    logger.log(`[PitchDetector] Tuning offset updated to ${cents.toFixed(1)} cents`);
+  }
+
+  /** Get current tuning offset (cents) */
+  getTuningOffset(): number {
+    return this._tuningCents;
+  }
+
   /**
    * Update sample rate at runtime. Called when AudioCapture detects that the
    * hardware delivers audio at a different rate than requested (e.g., 48000Hz
@@ -218,14 +238,14 @@ export class YINPitchDetector {
     // Step 6: Median filter — smooth out single-frame frequency outliers.
     // Only apply when all 3 history entries map to the SAME MIDI note.
     // This stabilizes within-note frequency jitter without blending across notes.
-    const currentMidi = frequencyToNearestMidi(frequency);
+    const currentMidi = frequencyToNearestMidi(frequency, this._tuningCents);
     this._freqHistory[this._freqHistoryIdx] = frequency;
     this._freqHistoryIdx = (this._freqHistoryIdx + 1) % 3;
     if (
       this._freqHistory[0] > 0 && this._freqHistory[1] > 0 && this._freqHistory[2] > 0 &&
-      frequencyToNearestMidi(this._freqHistory[0]) === currentMidi &&
-      frequencyToNearestMidi(this._freqHistory[1]) === currentMidi &&
-      frequencyToNearestMidi(this._freqHistory[2]) === currentMidi
+      frequencyToNearestMidi(this._freqHistory[0], this._tuningCents) === currentMidi &&
+      frequencyToNearestMidi(this._freqHistory[1], this._tuningCents) === currentMidi &&
+      frequencyToNearestMidi(this._freqHistory[2], this._tuningCents) === currentMidi
     ) {
       frequency = this._median3(this._freqHistory[0], this._freqHistory[1], this._freqHistory[2]);
     }
@@ -233,8 +253,8 @@ export class YINPitchDetector {
     r.frequency = frequency;
     r.confidence = confidence;
     r.voiced = true;
-    r.midiNote = frequencyToNearestMidi(frequency);
-    r.centsOffset = frequencyCentsOffset(frequency);
+    r.midiNote = frequencyToNearestMidi(frequency, this._tuningCents);
+    r.centsOffset = frequencyCentsOffset(frequency, this._tuningCents);
 
     // Log first 10 voiced detections for diagnostics (helps debug wrong-note issues)
     if (this._detectCount - this._rmsRejectCount - this._confRejectCount <= 10 && r.midiNote !== null) {
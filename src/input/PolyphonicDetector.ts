@@ -57,6 +57,14 @@ export interface PolyphonicDetectorConfig {
   noteThreshold?: number;
   onsetThreshold?: number;
   maxPolyphony?: number;
+  /** Clock for frame timestamps (default Date.now; offline transcription passes the audio position) */
+  clock?: () => number;
+  /**
+   * Instrument's offset from A=440 (cents). The model's note bins are a
+   * semitone wide and fixed to A=440, so audio is resampled back to A=440
+   * before inference.
+   */
+  tuningOffsetCents?: number;
 }
 
 export class PolyphonicDetector {
@@ -84,6 +92,8 @@ export class PolyphonicDetector {
       noteThreshold: config?.noteThreshold ?? NOTE_THRESHOLD,
       onsetThreshold: config?.onsetThreshold ?? ONSET_THRESHOLD,
       maxPolyphony: config?.maxPolyphony ?? 6,
+      clock: config?.clock ?? Date.now,
+      tuningOffsetCents: config?.tuningOffsetCents ?? 0,
     };
     // Pre-allocate resample buffer (halved for 44100→22050)
     const maxResampledSize = Math.ceil(
@@ -107,6 +117,24 @@ export class PolyphonicDetector {
     this.resampleBuffer = new Float32Array(maxResampledSize);
   }
 
+  /** Update the instrument's tuning offset from A=440 (cents) */
+  setTuningOffset(cents: number): void {
+    this.config.tuningOffsetCents = cents;
+  }
+
+  /** Get current tuning offset (cents) */
+  getTuningOffset(): number {
+    return this.config.tuningOffsetCents;
+  }
+
+  /**
+   * Playback rate that brings the instrument to A=440 (below 1 for a sharp
+   * instrument). Model time runs this much faster than real time.
+   */
+  private pitchScale(): number {
+    return Math.pow(2, -this.config.tuningOffsetCents / 1200);
+  }
+
   async initialize(): Promise<void> {
     // Lazy-load onnxruntime to avoid crash when native module isn't linked
     if (!OnnxRuntime) {
@@ -188,7 +216,7 @@ export class PolyphonicDetector {
 
     // Record window start time when first samples arrive
     if (this.accumLength === 0) {
-      this.windowStartTime = Date.now();
+      this.windowStartTime = this.config.clock();
     }
 
     // Accumulate resampled audio
@@ -241,20 +269,21 @@ export class PolyphonicDetector {
     this.accumBuffer.copyWithin(0, HOP_SAMPLES, MODEL_INPUT_SAMPLES);
     this.accumLength = MODEL_INPUT_SAMPLES - HOP_SAMPLES;
     // Update window start time: estimate based on how much audio remains in buffer
-    this.windowStartTime = Date.now() - ((this.accumLength / MODEL_SAMPLE_RATE) * 1000);
+    this.windowStartTime = this.config.clock() - ((this.accumLength / MODEL_SAMPLE_RATE) * 1000 * this.pitchScale());
   }
 
   /**
-   * Resample audio from input sample rate to model sample rate (22050Hz).
-   * Applies a simple single-pole low-pass filter before downsampling to
-   * reduce aliasing (Nyquist for 22050Hz = 11025Hz).
+   * Resample audio from input sample rate to model sample rate (22050Hz),
+   * shifting it by the tuning offset. Applies a simple single-pole low-pass
+   * filter before downsampling to reduce aliasing (Nyquist for 22050Hz = 11025Hz).
    */
   private resample(buffer: Float32Array): Float32Array {
-    if (this.config.inputSampleRate === MODEL_SAMPLE_RATE) {
+    const scale = this.pitchScale();
+    if (this.config.inputSampleRate === MODEL_SAMPLE_RATE && scale === 1) {
       return buffer;
     }
 
-    const ratio = MODEL_SAMPLE_RATE / this.config.inputSampleRate;
+    const ratio = MODEL_SAMPLE_RATE / (this.config.inputSampleRate * scale);
     const outputLength = Math.floor(buffer.length * ratio);
 
     // Ensure buffer is large enough
@@ -297,6 +326,7 @@ export class PolyphonicDetector {
     if (!noteOutput) return [];
 
     const numFrames = Math.floor(noteOutput.length / MODEL_NOTE_BINS);
+    const msPerFrame = MS_PER_MODEL_FRAME * this.pitchScale();
     const frames: PolyphonicFrame[] = [];
 
     for (let f = 0; f < numFrames; f++) {
@@ -326,7 +356,7 @@ export class PolyphonicDetector {
 
       if (notes.length > 0) {
         // Spread timestamps across the window instead of all using Date.now()
-        const frameTimestamp = windowStartMs + f * MS_PER_MODEL_FRAME;
+        const frameTimestamp = windowStartMs + f * msPerFrame;
         frames.push({ notes, timestamp: frameTimestamp });
       }
     }
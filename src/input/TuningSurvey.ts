@@ -0,0 +1,86 @@
+/**
+ * Acoustic piano tuning survey.
+ *
+ * The learner plays a few keys per octave, low to high, and the mic's YIN
+ * detector measures how far each one sits from equal temperament at A=440.
+ * The per-key offsets make a tuning curve; their median becomes the global
+ * offset mic detection applies, so a piano tuned flat as a whole (say A=436)
+ * still maps to the keys that were played.
+ */
+
+import { centsFromNote, tuningCentsToA4 } from '../core/music/pitchUtils';
+
+/** Survey key measured on a piano */
+export interface KeyTuning {
+  note: number;
+  /** Deviation from equal temperament at A=440; positive = sharp */
+  cents: number;
+}
+
+export interface TuningSummary {
+  /** Global offset for mic detection (cents from A=440) */
+  offsetCents: number;
+  /** The piano's effective A4 */
+  a4Frequency: number;
+  /** Largest deviation of any key from the global offset */
+  spreadCents: number;
+}
+
+/** C, E and A of each octave the mic detects reliably (C2–A6) */
+export const SURVEY_NOTES: number[] = [2, 3, 4, 5, 6].flatMap((octave) => {
+  const c = 12 * (octave + 1);
+  return [c, c + 4, c + 9];
+});
+
+/** Voiced readings needed before a key counts as measured */
+export const READINGS_PER_KEY = 8;
+
+/** Readings further than this from the key are a different key or an octave error */
+const MAX_READING_CENTS = 100;
+
+/** Beyond half a semitone an offset would move notes onto the neighbouring key */
+export const MAX_OFFSET_CENTS = 50;
+
+/** Spread above which the piano needs a tuner, not an offset */
+export const NEEDS_TUNING_SPREAD_CENTS = 25;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Cents from `note` if `frequency` could be that key, otherwise null */
+export function readingCents(frequency: number, note: number): number | null {
+  const cents = centsFromNote(frequency, note);
+  return Number.isFinite(cents) && Math.abs(cents) <= MAX_READING_CENTS ? cents : null;
+}
+
+/**
+ * Measure one key from the detected frequencies while it sounded. Returns
+ * null until enough readings land near the key.
+ */
+export function measureKey(note: number, frequencies: number[]): KeyTuning | null {
+  const readings = frequencies
+    .map((frequency) => readingCents(frequency, note))
+    .filter((cents): cents is number => cents !== null);
+  if (readings.length < READINGS_PER_KEY) return null;
+  return { note, cents: Math.round(median(readings) * 10) / 10 };
+}
+
+/**
+ * Summarize a survey. The median ignores the stretch tuning at the ends of
+ * the keyboard; the offset is capped at half a semitone.
+ */
+export function summarizeTuning(keys: KeyTuning[]): TuningSummary | { error: string } {
+  if (keys.length < 3) return { error: 'Measure at least 3 keys' };
+
+  const center = median(keys.map((k) => k.cents));
+  const offsetCents = Math.round(Math.max(-MAX_OFFSET_CENTS, Math.min(MAX_OFFSET_CENTS, center)) * 10) / 10;
+  const spreadCents = Math.max(...keys.map((k) => Math.abs(k.cents - offsetCents)));
+  return {
+    offsetCents,
+    a4Frequency: Math.round(tuningCentsToA4(offsetCents) * 10) / 10,
+    spreadCents: Math.round(spreadCents),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * WAV decoder for recorded mic fixtures
+ *
+ * Reads RIFF/WAVE files into mono Float32 samples (-1..1), the same shape
+ * AudioCapture delivers, so recordings can be fed through the pitch detectors.
+ *
+ * Supported: PCM 8/16/24/32-bit, IEEE float 32-bit, and WAVE_FORMAT_EXTENSIBLE
+ * wrappers of either. Multi-channel audio is averaged down to mono.
+ */
+
+export interface WavAudio {
+  sampleRate: number;
+  /** Mono samples in -1..1 */
+  samples: Float32Array;
+  /** Channels in the file before downmixing */
+  channels: number;
+  durationMs: number;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+function readSample(view: DataView, offset: number, format: number, bits: number): number {
+  if (format === FORMAT_FLOAT) return view.getFloat32(offset, true);
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/**
+ * Decode a WAV file. Returns `{ error }` for anything that is not a
+ * supported, well-formed WAV.
+ */
+export function decodeWav(bytes: Uint8Array): WavAudio | { error: string } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    return { error: 'Not a RIFF/WAVE file' };
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bits = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks; chunk bodies are padded to an even length
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      if (size < 16) return { error: 'fmt chunk is too short' };
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format is the first two bytes of the sub-format GUID
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, bytes.byteLength - body);
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (sampleRate === 0 || channels === 0) return { error: 'Missing fmt chunk' };
+  if (dataOffset < 0) return { error: 'Missing data chunk' };
+  if (format === FORMAT_FLOAT ? bits !== 32 : format !== FORMAT_PCM || ![8, 16, 24, 32].includes(bits)) {
+    return { error: `Unsupported sample format ${format} (${bits}-bit)` };
+  }
+
+  const bytesPerSample = bits / 8;
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += readSample(view, dataOffset + i * frameSize + c * bytesPerSample, format, bits);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { sampleRate, samples, channels, durationMs: (frames / sampleRate) * 1000 };
+}
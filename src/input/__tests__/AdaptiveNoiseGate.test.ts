@@ -0,0 +1,106 @@
+import { AdaptiveNoiseGate } from '../AdaptiveNoiseGate';
+
+const BUFFER_MS = 46;
+
+/** Feed `count` buffers of a constant RMS, returning the next timestamp */
+function feed(gate: AdaptiveNoiseGate, rms: number, count: number, start: number, appAudible = false): number {
+  let t = start;
+  for (let i = 0; i < count; i++) {
+    t += BUFFER_MS;
+    gate.update(rms, t, appAudible);
+  }
+  return t;
+}
+
+describe('AdaptiveNoiseGate', () => {
+  let gate: AdaptiveNoiseGate;
+
+  beforeEach(() => {
+    gate = new AdaptiveNoiseGate({ minRmsThreshold: 0.002, maxRmsThreshold: 0.008 });
+  });
+
+  it('keeps the preset gate in a quiet room', () => {
+    feed(gate, 0.0008, 50, 0);
+    const state = gate.getState();
+    expect(state.noiseFloor).toBeCloseTo(0.0008, 6);
+    expect(state.rmsThreshold).toBe(0.002);
+    expect(state.quality).toBe('unknown');
+  });
+
+  it('raises the gate when the room gets louder and lowers it again', () => {
+    let t = feed(gate, 0.0008, 50, 0);
+    t = feed(gate, 0.003, 150, t); // TV comes on
+    expect(gate.getState().noiseFloor).toBeCloseTo(0.003, 6);
+    expect(gate.getState().rmsThreshold).toBeCloseTo(0.0045, 6);
+
+    feed(gate, 0.0008, 150, t); // ...and off
+    expect(gate.getState().rmsThreshold).toBe(0.002);
+  });
+
+  it('ignores short loud bursts when estimating the floor', () => {
+    let t = feed(gate, 0.001, 60, 0);
+    t = feed(gate, 0.02, 10, t); // a few notes
+    feed(gate, 0.001, 5, t);
+    expect(gate.getState().noiseFloor).toBeCloseTo(0.001, 6);
+  });
+
+  it('rates a clear note as good and reports its SNR', () => {
+    const t = feed(gate, 0.0005, 50, 0);
+    gate.update(0.01, t + BUFFER_MS);
+    const state = gate.getState();
+    expect(state.playedSnrDb).toBeCloseTo(26, 0);
+    expect(state.quality).toBe('good');
+  });
+
+  it('rates a note barely above the floor as poor', () => {
+    const t = feed(gate, 0.0015, 50, 0);
+    gate.update(0.0025, t + BUFFER_MS);
+    expect(gate.getState().quality).toBe('poor');
+  });
+
+  it('rates the room as poor when the gate is pinned at its maximum', () => {
+    feed(gate, 0.01, 50, 0);
+    const state = gate.getState();
+    expect(state.rmsThreshold).toBe(0.008);
+    expect(state.quality).toBe('poor');
+  });
+
+  it('lets the signal peak decay after a note', () => {
+    let t = feed(gate, 0.0005, 50, 0);
+    t += BUFFER_MS;
+    gate.update(0.01, t);
+    const peak = gate.getState().snrDb;
+    feed(gate, 0.0005, 11, t); // ~500ms
+    expect(gate.getState().snrDb).toBeCloseTo(peak - 6, 0);
+  });
+
+  it("leaves the app's own output out of the floor and signal", () => {
+    const t = feed(gate, 0.0008, 50, 0);
+    feed(gate, 0.006, 150, t, true); // metronome + demo
+    const state = gate.getState();
+    expect(state.noiseFloor).toBeCloseTo(0.0008, 6);
+    expect(state.playedSnrDb).toBeNull();
+  });
+
+  it('notifies listeners on every update until unsubscribed', () => {
+    const cb = jest.fn();
+    const unsub = gate.onChange(cb);
+    gate.update(0.001, 0);
+    unsub();
+    gate.update(0.001, BUFFER_MS);
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb.mock.calls[0][0].noiseFloor).toBeCloseTo(0.001, 6);
+  });
+
+  it('measures buffers with process()', () => {
+    gate.process(new Float32Array(2048).fill(0.003), 0);
+    expect(gate.getState().noiseFloor).toBeCloseTo(0.003, 6);
+  });
+
+  it('forgets the room on reset', () => {
+    feed(gate, 0.005, 50, 0);
+    gate.reset();
+    expect(gate.getState().noiseFloor).toBe(0);
+    expect(gate.getState().rmsThreshold).toBe(0.002);
+  });
+});
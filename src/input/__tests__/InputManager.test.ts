@@ -10,7 +10,7 @@ import {
   INPUT_TIMING_MULTIPLIERS,
   INPUT_LATENCY_COMPENSATION_MS,
 } from '../InputManager';
-import type { MidiNoteEvent } from '../../core/exercises/types';
+import type { MidiNoteEvent, SustainPedalEvent } from '../../core/exercises/types';
 
 // ---------------------------------------------------------------------------
 // Mocks
@@ -20,6 +20,7 @@ import type { MidiNoteEvent } from '../../core/exercises/types';
 let mockMidiIsReady = false;
 let mockMidiDevices: any[] = [];
 const mockMidiNoteCallbacks: Array<(event: MidiNoteEvent) => void> = [];
+const mockMidiCCCallbacks: Array<(cc: number, value: number, channel: number) => void> = [];
 
 jest.mock('../MidiInput', () => ({
   getMidiInput: () => ({
@@ -46,7 +47,13 @@ jest.mock('../MidiInput', () => ({
     connectDevice: jest.fn(),
     disconnectDevice: jest.fn(),
     onDeviceConnection: jest.fn(() => () => {}),
-    onControlChange: jest.fn(() => () => {}),
+    onControlChange: jest.fn((cb: (cc: number, value: number, channel: number) => void) => {
+      mockMidiCCCallbacks.push(cb);
+      return () => {
+        const idx = mockMidiCCCallbacks.indexOf(cb);
+        if (idx > -1) mockMidiCCCallbacks.splice(idx, 1);
+      };
+    }),
   }),
 }));
 
@@ -105,6 +112,7 @@ function resetMocks() {
   mockMicPermissionGranted = false;
   mockMicIsActive = false;
   mockMidiNoteCallbacks.length = 0;
+  mockMidiCCCallbacks.length = 0;
   mockMicNoteCallbacks.length = 0;
 }
 
@@ -312,6 +320,50 @@ describe('InputManager', () => {
     });
   });
 
+  // =========================================================================
+  // Sustain pedal forwarding
+  // =========================================================================
+
+  describe('sustain pedal forwarding', () => {
+    it('reports CC64 down/up transitions once each', async () => {
+      mockMidiDevices = [{ id: 'dev-1', name: 'Test Keyboard', type: 'usb', connected: true }];
+
+      const manager = new InputManager({ preferred: 'midi' });
+      await manager.initialize();
+
+      const events: SustainPedalEvent[] = [];
+      manager.onPedalEvent((e) => events.push(e));
+
+      // Continuous pedal: several values above and below the half-way point
+      [0, 90, 110, 127, 100, 30, 0].forEach((value) => {
+        mockMidiCCCallbacks.forEach((cb) => cb(64, value, 0));
+      });
+
+      expect(events.map((e) => e.type)).toEqual(['pedalDown', 'pedalUp']);
+
+      manager.dispose();
+    });
+
+    it('ignores other controllers and non-MIDI input', async () => {
+      mockMidiDevices = [{ id: 'dev-1', name: 'Test Keyboard', type: 'usb', connected: true }];
+
+      const manager = new InputManager({ preferred: 'midi' });
+      await manager.initialize();
+
+      const events: SustainPedalEvent[] = [];
+      manager.onPedalEvent((e) => events.push(e));
+
+      mockMidiCCCallbacks.forEach((cb) => cb(1, 127, 0)); // mod wheel
+      expect(events).toHaveLength(0);
+
+      await manager.switchMethod('touch');
+      mockMidiCCCallbacks.forEach((cb) => cb(64, 127, 0));
+      expect(events).toHaveLength(0);
+
+      manager.dispose();
+    });
+  });
+
   // =========================================================================
   // Lifecycle
   // =========================================================================
@@ -439,5 +491,52 @@ describe('InputManager', () => {
       expect(manager.getLatencyCompensationMs()).toBe(100);
       manager.dispose();
     });
+
+    it('getLatencyCompensationMs prefers calibrated offsets for the device', async () => {
+      const { useSettingsStore } = require('../../stores/settingsStore');
+      const MidiDeviceManager = require('../MidiDevice').default;
+      const device = { id: 'dev-1', name: 'Test Keyboard', type: 'bluetooth', connected: true };
+      mockMidiDevices = [device];
+      MidiDeviceManager.registerDevice(device);
+      MidiDeviceManager.setLatencyOffset('dev-1', 45);
+      useSettingsStore.getState().setInputLatencyOffset('touch', 70);
+
+      const manager = new InputManager({ preferred: 'midi' });
+      await manager.initialize();
+
+      expect(manager.midiDeviceId).toBe('dev-1');
+      expect(manager.getLatencyCompensationMs()).toBe(45);
+      expect(manager.getLatencyCompensationMs('touch')).toBe(70);
+      expect(manager.getLatencyCompensationMs('mic')).toBe(100);
+
+      manager.dispose();
+      MidiDeviceManager.forgetDevice('dev-1');
+      useSettingsStore.getState().setInputLatencyOffset('touch', null);
+    });
+
+    it('getVelocityCalibration reads the connected keyboard only', async () => {
+      const MidiDeviceManager = require('../MidiDevice').default;
+      const playing = { id: 'dev-1', name: 'Stage Piano', type: 'usb', connected: true };
+      const preferred = { id: 'dev-2', name: 'Home Keyboard', type: 'bluetooth', connected: false };
+      mockMidiDevices = [playing];
+      MidiDeviceManager.registerDevice(preferred);
+      MidiDeviceManager.registerDevice(playing);
+      MidiDeviceManager.setPreferredDevice('dev-2');
+      MidiDeviceManager.setVelocityCalibration('dev-2', { softest: 30, loudest: 100 });
+
+      const manager = new InputManager({ preferred: 'midi' });
+      await manager.initialize();
+
+      expect(manager.midiDeviceId).toBe('dev-1');
+      // The connected keyboard was never calibrated; the preferred one's curve doesn't apply
+      expect(manager.getVelocityCalibration()).toBeNull();
+
+      MidiDeviceManager.setVelocityCalibration('dev-1', { softest: 10, loudest: 120 });
+      expect(manager.getVelocityCalibration()).toEqual({ softest: 10, loudest: 120 });
+
+      manager.dispose();
+      MidiDeviceManager.forgetDevice('dev-1');
+      MidiDeviceManager.forgetDevice('dev-2');
+    });
   });
 });
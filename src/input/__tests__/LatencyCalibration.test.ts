@@ -0,0 +1,61 @@
+/**
+ * LatencyCalibration unit tests
+ *
+ * Tests: pairing responses with clicks, outlier rejection, failed runs,
+ * and which calibration applies to each input method.
+ */
+
+import {
+  CALIBRATION_INTERVAL_MS,
+  latencyProfileFor,
+  measureLatency,
+} from '../LatencyCalibration';
+
+const clicks = (count: number) => Array.from({ length: count }, (_, i) => 1000 + i * CALIBRATION_INTERVAL_MS);
+
+describe('measureLatency', () => {
+  it('measures the typical delay after the lead-in clicks', () => {
+    const clickTimes = clicks(12);
+    const delays = [300, 5, 0, 410, 48, 52, 50, 47, 53, 50, 49, 51];
+    const result = measureLatency(clickTimes, clickTimes.map((t, i) => t + delays[i]));
+
+    expect(result).toEqual({ offsetMs: 50, jitterMs: 2, matched: 8 });
+  });
+
+  it('ignores stray responses far from the rest', () => {
+    const clickTimes = clicks(10);
+    const responses = clickTimes.map((t) => t + 120);
+    responses[6] = clickTimes[6] + 350; // a missed click answered late
+
+    const result = measureLatency(clickTimes, responses, 0);
+    expect(result).toMatchObject({ offsetMs: 120, matched: 9 });
+  });
+
+  it('floors early taps at zero', () => {
+    const clickTimes = clicks(10);
+    const result = measureLatency(clickTimes, clickTimes.map((t) => t - 25), 0);
+    expect(result).toMatchObject({ offsetMs: 0 });
+  });
+
+  it('fails when too few clicks are answered', () => {
+    const clickTimes = clicks(12);
+    const result = measureLatency(clickTimes, clickTimes.slice(4, 8).map((t) => t + 40));
+    expect(result).toEqual({ error: 'Only 4 of 8 clicks were answered' });
+  });
+
+  it('fails when responses are too uneven', () => {
+    const clickTimes = clicks(10);
+    const delays = [0, 150, -30, 120, 10, 140, -20, 130, 20, 150];
+    const result = measureLatency(clickTimes, clickTimes.map((t, i) => t + delays[i]), 0);
+    expect(result).toEqual({ error: 'Responses were too uneven to measure' });
+  });
+});
+
+describe('latencyProfileFor', () => {
+  it('separates monophonic and polyphonic mic detection', () => {
+    expect(latencyProfileFor('midi')).toBe('midi');
+    expect(latencyProfileFor('touch', 'polyphonic')).toBe('touch');
+    expect(latencyProfileFor('mic')).toBe('mic');
+    expect(latencyProfileFor('mic', 'polyphonic')).toBe('mic_poly');
+  });
+});
@@ -350,6 +350,74 @@ describe('MidiDeviceManager', () => {
     });
   });
 
+  describe('Velocity Calibration', () => {
+    const device: IMidiDevice = {
+      id: 'device-1',
+      name: 'Roland FP-30X',
+      type: 'usb',
+      connected: true,
+    };
+
+    it('should return null for an uncalibrated device', () => {
+      manager.registerDevice(device);
+      expect(manager.getVelocityCalibration('device-1')).toBeNull();
+    });
+
+    it('should store calibration per device', () => {
+      manager.registerDevice(device);
+      manager.setVelocityCalibration('device-1', { softest: 18, loudest: 110 });
+
+      expect(manager.getVelocityCalibration('device-1')).toEqual({ softest: 18, loudest: 110 });
+      expect(manager.getVelocityCalibration('device-2')).toBeNull();
+    });
+
+    it('should keep calibration when the device is re-registered', () => {
+      manager.registerDevice(device);
+      manager.setVelocityCalibration('device-1', { softest: 18, loudest: 110 });
+      manager.registerDevice({ ...device, connected: false });
+
+      expect(manager.getDevice('device-1')?.velocityCalibration).toEqual({ softest: 18, loudest: 110 });
+    });
+  });
+
+  describe('Latency Offset', () => {
+    const device: IMidiDevice = {
+      id: 'device-1',
+      name: 'Roland FP-30X',
+      type: 'bluetooth',
+      connected: true,
+    };
+
+    it('should store and clear a latency offset per device, keeping it on re-register', () => {
+      manager.registerDevice(device);
+      expect(manager.getLatencyOffset('device-1')).toBeNull();
+
+      manager.setLatencyOffset('device-1', 34);
+      manager.registerDevice({ ...device, connected: false });
+      expect(manager.getLatencyOffset('device-1')).toBe(34);
+
+      manager.setLatencyOffset('device-1', null);
+      expect(manager.getLatencyOffset('device-1')).toBeNull();
+    });
+  });
+
+  describe('Output Config', () => {
+    it('should default key lights on for light-key keyboards and keep saved config on re-register', () => {
+      const piano: IMidiDevice = { id: 'device-1', name: 'Roland FP-30X', type: 'usb', connected: true };
+      const lightKeys: IMidiDevice = { id: 'device-2', name: 'Casio LK-S250', type: 'usb', connected: true };
+      manager.registerDevice(piano);
+      manager.registerDevice(lightKeys);
+
+      expect(manager.getOutputConfig('device-1').ledProtocol).toBe('none');
+      expect(manager.getOutputConfig('device-2')).toMatchObject({ ledProtocol: 'noteOnChannel', ledChannel: 3 });
+
+      const config = { ...manager.getOutputConfig('device-1'), metronome: true, soundChannel: 2 };
+      manager.setOutputConfig('device-1', config);
+      manager.registerDevice({ ...piano, connected: false });
+      expect(manager.getOutputConfig('device-1')).toEqual(config);
+    });
+  });
+
   describe('Device Forget/Forget', () => {
     it('should forget device', () => {
       const device: IMidiDevice = {
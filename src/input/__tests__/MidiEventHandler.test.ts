@@ -274,6 +274,14 @@ describe('MidiEventHandler', () => {
       expect(mockCallbacks.onSustainChange).toHaveBeenLastCalledWith(false, expect.any(Number));
     });
 
+    it('should only report sustain transitions, not repeated values', () => {
+      [80, 100, 127, 90].forEach((value) => handler.processMidiControlChange(64, value, 0));
+      [40, 0, 10].forEach((value) => handler.processMidiControlChange(64, value, 0));
+
+      expect(mockCallbacks.onSustainChange).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onSustainChange.mock.calls.map(([isActive]) => isActive)).toEqual([true, false]);
+    });
+
     it('should sustain notes when pedal pressed', () => {
       // Play a note
       handler.processMidiNote({
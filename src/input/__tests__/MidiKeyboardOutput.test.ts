@@ -0,0 +1,97 @@
+/**
+ * Keyboard Output Tests
+ * Tests for pairing the output port, demo routing, metronome and key lights
+ */
+
+import { MidiKeyboardOutput } from '../MidiKeyboardOutput';
+import MidiDeviceManager from '../MidiDevice';
+import { NoOpMidiOutput, setMidiOutput } from '../MidiOutput';
+import type { MidiDevice } from '../MidiInput';
+import type { NoteHandle } from '../../audio/types';
+
+const lightKeyboard: MidiDevice = { id: 'in-1', name: 'Casio LK-S250', type: 'usb', connected: true };
+
+const makeEngine = () => ({
+  playNote: jest.fn((note: number): NoteHandle => ({ note, startTime: 0, release: jest.fn() })),
+  releaseNote: jest.fn(),
+});
+
+describe('MidiKeyboardOutput', () => {
+  let output: NoOpMidiOutput;
+  let keyboard: MidiKeyboardOutput;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MidiDeviceManager.clearHistory();
+    output = new NoOpMidiOutput();
+    output._simulateDevice({ id: 'out-1', name: 'Casio LK-S250', type: 'output', connected: true });
+    setMidiOutput(output);
+    keyboard = new MidiKeyboardOutput();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should pair the output port by name and leave the engine alone without one', async () => {
+    const other: MidiDevice = { id: 'in-2', name: 'Korg microKEY', type: 'usb', connected: true };
+    expect(await keyboard.connectForInput(other)).toBe(false);
+    expect(keyboard.isConnected).toBe(false);
+
+    const engine = makeEngine();
+    expect(keyboard.routeNotes(engine)).toBe(engine);
+    expect(keyboard.playMetronomeClick(true, 1)).toBe(false);
+
+    expect(await keyboard.connectForInput(lightKeyboard)).toBe(true);
+    expect(keyboard.deviceId).toBe('in-1');
+    expect(output.getActiveDeviceId()).toBe('out-1');
+  });
+
+  it('should turn light-key guidance on for known light-key keyboards', async () => {
+    await keyboard.connectForInput(lightKeyboard);
+    expect(keyboard.getConfig()).toMatchObject({ ledProtocol: 'noteOnChannel', ledChannel: 3 });
+  });
+
+  it('should play demo notes on the sound channel', async () => {
+    await keyboard.connectForInput(lightKeyboard);
+    const engine = makeEngine();
+    const routed = keyboard.routeNotes(engine);
+
+    const handle = routed.playNote(60, 0.7);
+    routed.releaseNote(handle);
+
+    expect(engine.playNote).not.toHaveBeenCalled();
+    expect(output.sentMessages).toEqual([[0x90, 60, 89], [0x80, 60, 0]]);
+  });
+
+  it('should click the metronome on the drum channel only when enabled', async () => {
+    await keyboard.connectForInput(lightKeyboard);
+    expect(keyboard.playMetronomeClick(true, 1)).toBe(false);
+
+    keyboard.configure({ ...keyboard.getConfig(), metronome: true });
+    expect(keyboard.playMetronomeClick(true, 0.5)).toBe(true);
+    jest.runAllTimers();
+
+    expect(output.sentMessages).toEqual([[0x99, 76, 64], [0x89, 76, 0]]);
+    expect(MidiDeviceManager.getOutputConfig('in-1').metronome).toBe(true);
+  });
+
+  it('should light only the keys that changed and clear them on disconnect', async () => {
+    await keyboard.connectForInput(lightKeyboard);
+
+    keyboard.showNextNotes([60, 64]);
+    keyboard.showNextNotes([64, 67]);
+    keyboard.disconnect();
+
+    expect(output.sentMessages).toEqual([
+      [0x93, 60, 127],
+      [0x93, 64, 127],
+      [0x83, 60, 0],
+      [0x93, 67, 127],
+      [0x83, 64, 0],
+      [0x83, 67, 0],
+      [0xb0, 123, 0],
+    ]);
+    expect(keyboard.isConnected).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * MIDI Output Tests
+ * Tests for message encoding and the no-op output
+ */
+
+import { NoOpMidiOutput, allNotesOffMessage, noteOffMessage, noteOnMessage } from '../MidiOutput';
+
+describe('MIDI messages', () => {
+  it('should encode note-on and note-off with a zero-based channel', () => {
+    expect(noteOnMessage(0, 60, 100)).toEqual([0x90, 60, 100]);
+    expect(noteOnMessage(3, 64, 127)).toEqual([0x93, 64, 127]);
+    expect(noteOffMessage(9, 76)).toEqual([0x89, 76, 0]);
+  });
+
+  it('should keep note-on velocity between 1 and 127', () => {
+    expect(noteOnMessage(0, 60, 0)[2]).toBe(1);
+    expect(noteOnMessage(0, 60, 200)[2]).toBe(127);
+    expect(noteOnMessage(0, 60, 88.9)[2]).toBe(89);
+  });
+
+  it('should encode all-notes-off as CC 123', () => {
+    expect(allNotesOffMessage(2)).toEqual([0xb2, 123, 0]);
+  });
+});
+
+describe('NoOpMidiOutput', () => {
+  it('should only record messages while a device is connected', async () => {
+    const output = new NoOpMidiOutput();
+    await output.initialize();
+    output._simulateDevice({ id: 'out-1', name: 'Casio LK-S250', type: 'usb', connected: true });
+
+    output.send([0x90, 60, 100]);
+    await output.connectDevice('missing');
+    expect(output.getActiveDeviceId()).toBeNull();
+
+    await output.connectDevice('out-1');
+    output.send([0x90, 62, 100]);
+    output.disconnectDevice();
+    output.send([0x90, 64, 100]);
+
+    expect(output.sentMessages).toEqual([[0x90, 62, 100]]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * OfflineTranscription unit tests
+ *
+ * Synthetic recordings (sine tones, 44.1kHz) run through the mic pipeline
+ * offline, then compared to the exercise they were meant to play.
+ */
+
+import { evaluateTranscription, transcribeAudio } from '../OfflineTranscription';
+import type { FrameDetector } from '../OfflineTranscription';
+import type { WavAudio } from '../WavDecoder';
+import type { Exercise, MidiNoteEvent } from '../../core/exercises/types';
+
+const SAMPLE_RATE = 44100;
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+/** Tones at 120 BPM (500ms per beat), each held for 400ms, after `leadInMs` of noise-free silence */
+function renderMelody(notes: number[], leadInMs = 0): WavAudio {
+  const beatSamples = SAMPLE_RATE / 2;
+  const leadIn = Math.round((leadInMs / 1000) * SAMPLE_RATE);
+  const samples = new Float32Array(leadIn + notes.length * beatSamples + beatSamples);
+  notes.forEach((note, i) => {
+    const start = leadIn + i * beatSamples;
+    const frequency = midiToFrequency(note);
+    for (let s = 0; s < beatSamples * 0.8; s++) {
+      samples[start + s] = 0.3 * Math.sin((2 * Math.PI * frequency * s) / SAMPLE_RATE);
+    }
+  });
+  return { sampleRate: SAMPLE_RATE, samples, channels: 1, durationMs: (samples.length / SAMPLE_RATE) * 1000 };
+}
+
+function makeExercise(notes: number[]): Exercise {
+  return {
+    id: 'transcription-test',
+    version: 1,
+    metadata: {
+      title: 'Transcription Test',
+      description: 'Quarter notes at 120 BPM',
+      difficulty: 1,
+      estimatedMinutes: 1,
+      skills: [],
+      prerequisites: [],
+    },
+    settings: { tempo: 120, timeSignature: [4, 4], keySignature: 'C', countIn: 0, metronomeEnabled: false },
+    notes: notes.map((note, i) => ({ note, startBeat: i, durationBeats: 1 })),
+    scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 70, starThresholds: [80, 90, 95] },
+    hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+  };
+}
+
+const noteOn = (note: number, timestamp: number): MidiNoteEvent => ({
+  type: 'noteOn',
+  note,
+  velocity: 80,
+  timestamp,
+  channel: 0,
+  inputSource: 'mic',
+});
+
+describe('transcribeAudio', () => {
+  const melody = [60, 64, 67, 72];
+
+  it('hears each note of a monophonic melody once, with buffer-position timestamps', async () => {
+    const { events, calibration } = await transcribeAudio(renderMelody(melody));
+    const onsets = events.filter((e) => e.type === 'noteOn');
+
+    expect(calibration).toBeNull();
+    expect(onsets.map((e) => e.note)).toEqual(melody);
+    // Two confirming buffers of ~46ms each before an onset is reported
+    onsets.forEach((e, i) => {
+      expect(e.timestamp - i * 500).toBeGreaterThan(40);
+      expect(e.timestamp - i * 500).toBeLessThan(200);
+    });
+    expect(events.filter((e) => e.type === 'noteOff')).toHaveLength(melody.length);
+  });
+
+  it('calibrates on the leading ambient audio when asked', async () => {
+    const { calibration } = await transcribeAudio(renderMelody(melody, 1000), { calibrationMs: 500 });
+    expect(calibration).toMatchObject({ ambientRMS: 0, yinThreshold: 0.15 });
+  });
+
+  it('drives a polyphonic frame detector with the audio clock', async () => {
+    const frameTimes: number[] = [];
+    const createPolyDetector = (clock: () => number): FrameDetector => ({
+      // Reports middle C for the first three buffers, then silence
+      detect: async () => {
+        frameTimes.push(clock());
+        return frameTimes.length <= 3
+          ? [{ notes: [{ midiNote: 60, confidence: 0.9, isOnset: true }], timestamp: clock() }]
+          : [];
+      },
+    });
+
+    const { events } = await transcribeAudio(renderMelody([60]), { mode: 'polyphonic', createPolyDetector });
+
+    expect(frameTimes[0]).toBeCloseTo((2048 / SAMPLE_RATE) * 1000);
+    expect(events.map((e) => e.type)).toEqual(['noteOn', 'noteOff']);
+  });
+});
+
+describe('evaluateTranscription', () => {
+  const exercise = makeExercise([60, 62, 64, 65]);
+
+  it('reports perfect precision and recall for a clean transcription', async () => {
+    const { events } = await transcribeAudio(renderMelody([60, 62, 64, 65]));
+    const report = evaluateTranscription(exercise, events, { latencyCompensationMs: 90 });
+
+    expect(report.note).toMatchObject({ matched: 4, precision: 1, recall: 1, f1: 1 });
+    expect(Math.abs(report.meanOnsetErrorMs!)).toBeLessThan(60);
+    expect(report.score.isPassed).toBe(true);
+  });
+
+  it('separates onset accuracy from pitch accuracy', () => {
+    const events = [noteOn(60, 10), noteOn(61, 505), noteOn(64, 1020), noteOn(72, 1300)];
+    const report = evaluateTranscription(exercise, events);
+
+    expect(report.detected).toBe(4);
+    expect(report.onset).toMatchObject({ matched: 3, precision: 0.75, recall: 0.75 });
+    expect(report.note).toMatchObject({ matched: 2, precision: 0.5, recall: 0.5 });
+    expect(report.meanOnsetErrorMs).toBe(15);
+  });
+
+  it('lines the exercise up with beat 0 in the recording', () => {
+    const events = [noteOn(60, 2000), noteOn(62, 2500), noteOn(64, 3000), noteOn(65, 3500)];
+    expect(evaluateTranscription(exercise, events).note.matched).toBe(0);
+    expect(evaluateTranscription(exercise, events, { startMs: 2000 }).note.matched).toBe(4);
+  });
+});
@@ -246,6 +246,31 @@ describe('YINPitchDetector', () => {
     // Pure sine should still be detected even with strict threshold
     expect(result.voiced).toBe(true);
   });
+
+  it('maps a piano tuned flat onto the keys played with a tuning offset', () => {
+    // E4 on a piano tuned 45 cents flat, the key itself another 10 cents flat
+    const frequency = 329.63 * Math.pow(2, -55 / 1200);
+    const buffer = generateSineWave(frequency, SAMPLE_RATE, BUFFER_SIZE);
+
+    expect(detector.detect(buffer).midiNote).toBe(63); // Heard as Eb4 at A=440
+
+    detector.setTuningOffset(-45);
+    expect(detector.getTuningOffset()).toBe(-45);
+    const result = detector.detect(buffer);
+    expect(result.midiNote).toBe(64);
+    expect(result.centsOffset).toBeCloseTo(-10, 0);
+  });
+
+  it('accepts a tuning offset in the config', () => {
+    const tuned = new YINPitchDetector({
+      sampleRate: SAMPLE_RATE,
+      bufferSize: BUFFER_SIZE,
+      tuningOffsetCents: -15.7, // A = 436 Hz
+    });
+    const result = tuned.detect(generateSineWave(436, SAMPLE_RATE, BUFFER_SIZE));
+    expect(result.midiNote).toBe(69);
+    expect(Math.abs(result.centsOffset)).toBeLessThan(2);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -227,4 +227,29 @@ describe('PolyphonicDetector', () => {
     expect(frames.length).toBeGreaterThan(0);
     expect(frames[0].notes.length).toBeLessThanOrEqual(6);
   });
+
+  it('should resample a detuned instrument back to A=440 for the model', async () => {
+    const { Tensor } = require('onnxruntime-react-native');
+    // Zero crossings of the model input at 22050Hz
+    const modelInputFrequency = () => {
+      const input: Float32Array = Tensor.mock.calls[Tensor.mock.calls.length - 1][1];
+      let crossings = 0;
+      for (let i = 1; i < input.length; i++) {
+        if ((input[i - 1] < 0) !== (input[i] < 0)) crossings++;
+      }
+      return crossings / 2 / (input.length / 22050);
+    };
+    const sharpA4 = 440 * Math.pow(2, 50 / 1200); // piano 50 cents sharp
+
+    detector = new PolyphonicDetector();
+    await detector.initialize();
+    await detector.detect(generateSineWave(sharpA4, 44100, TRIGGER_BUFFER_SIZE));
+    expect(modelInputFrequency()).toBeCloseTo(sharpA4, -0.5);
+
+    detector = new PolyphonicDetector({ tuningOffsetCents: 50 });
+    await detector.initialize();
+    expect(detector.getTuningOffset()).toBe(50);
+    await detector.detect(generateSineWave(sharpA4, 44100, TRIGGER_BUFFER_SIZE));
+    expect(modelInputFrequency()).toBeCloseTo(440, -0.5);
+  });
 });
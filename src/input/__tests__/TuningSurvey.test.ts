@@ -0,0 +1,82 @@
+import {
+  MAX_OFFSET_CENTS,
+  READINGS_PER_KEY,
+  SURVEY_NOTES,
+  measureKey,
+  readingCents,
+  summarizeTuning,
+} from '../TuningSurvey';
+import { midiToFrequency } from '../../core/music/pitchUtils';
+
+/** Frequency of `note` played `cents` off equal temperament */
+const detuned = (note: number, cents: number) => midiToFrequency(note) * Math.pow(2, cents / 1200);
+
+describe('TuningSurvey', () => {
+  it('walks C, E and A of octaves 2 to 6', () => {
+    expect(SURVEY_NOTES).toHaveLength(15);
+    expect(SURVEY_NOTES[0]).toBe(36); // C2
+    expect(SURVEY_NOTES.slice(6, 9)).toEqual([60, 64, 69]); // C4, E4, A4
+    expect(SURVEY_NOTES[SURVEY_NOTES.length - 1]).toBe(93); // A6
+  });
+
+  describe('readingCents', () => {
+    it('returns the deviation for readings near the key', () => {
+      expect(readingCents(detuned(69, -16), 69)).toBeCloseTo(-16, 5);
+    });
+
+    it('rejects other keys and octave errors', () => {
+      expect(readingCents(midiToFrequency(71), 69)).toBeNull();
+      expect(readingCents(880, 69)).toBeNull();
+      expect(readingCents(0, 69)).toBeNull();
+    });
+  });
+
+  describe('measureKey', () => {
+    it('waits for enough readings near the key', () => {
+      const readings = Array(READINGS_PER_KEY - 1).fill(detuned(60, -12));
+      expect(measureKey(60, readings)).toBeNull();
+      expect(measureKey(60, [...readings, midiToFrequency(64)])).toBeNull();
+    });
+
+    it('takes the median so a stray reading does not skew the key', () => {
+      const readings = [
+        ...Array(READINGS_PER_KEY).fill(detuned(60, -12)),
+        detuned(60, 60),
+      ];
+      expect(measureKey(60, readings)).toEqual({ note: 60, cents: -12 });
+    });
+  });
+
+  describe('summarizeTuning', () => {
+    it('finds the offset of a piano tuned flat as a whole (A=436)', () => {
+      const keys = SURVEY_NOTES.map((note) => ({ note, cents: -15.7 }));
+      const summary = summarizeTuning(keys);
+      if ('error' in summary) throw new Error(summary.error);
+      expect(summary.offsetCents).toBe(-15.7);
+      expect(summary.a4Frequency).toBe(436);
+      expect(summary.spreadCents).toBe(0);
+    });
+
+    it('ignores stretch tuning at the ends of the keyboard', () => {
+      const keys = SURVEY_NOTES.map((note, i) => ({
+        note,
+        cents: i < 2 ? -30 : i > SURVEY_NOTES.length - 3 ? 25 : -5,
+      }));
+      const summary = summarizeTuning(keys);
+      if ('error' in summary) throw new Error(summary.error);
+      expect(summary.offsetCents).toBe(-5);
+      expect(summary.spreadCents).toBe(30);
+    });
+
+    it('caps the offset at half a semitone', () => {
+      const keys = [36, 48, 60].map((note) => ({ note, cents: -70 }));
+      const summary = summarizeTuning(keys);
+      if ('error' in summary) throw new Error(summary.error);
+      expect(summary.offsetCents).toBe(-MAX_OFFSET_CENTS);
+    });
+
+    it('needs at least 3 keys', () => {
+      expect(summarizeTuning([{ note: 60, cents: -10 }])).toEqual({ error: 'Measure at least 3 keys' });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * WavDecoder unit tests
+ *
+ * Tests: PCM and float decoding, stereo downmix, skipping unknown chunks,
+ * and rejecting malformed or unsupported files.
+ */
+
+import { decodeWav } from '../WavDecoder';
+
+/** Build a WAV file from per-frame channel values already encoded as bytes */
+function buildWav(format: number, channels: number, sampleRate: number, bits: number, data: Uint8Array, extraChunk = false): Uint8Array {
+  const extra = extraChunk ? 8 + 4 : 0;
+  const bytes = new Uint8Array(12 + 24 + extra + 8 + data.length);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => [...tag].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, (sampleRate * channels * bits) / 8, true);
+  view.setUint16(32, (channels * bits) / 8, true);
+  view.setUint16(34, bits, true);
+  let offset = 36;
+  if (extraChunk) {
+    writeTag(offset, 'LIST');
+    view.setUint32(offset + 4, 4, true);
+    offset += 12;
+  }
+  writeTag(offset, 'data');
+  view.setUint32(offset + 4, data.length, true);
+  bytes.set(data, offset + 8);
+  return bytes;
+}
+
+describe('decodeWav', () => {
+  it('decodes 16-bit stereo PCM and averages the channels', () => {
+    const data = new Uint8Array(8);
+    const view = new DataView(data.buffer);
+    view.setInt16(0, 16384, true); // L = 0.5
+    view.setInt16(2, 0, true); //     R = 0
+    view.setInt16(4, -32768, true); // L = -1
+    view.setInt16(6, -32768, true); // R = -1
+
+    const audio = decodeWav(buildWav(1, 2, 8000, 16, data, true));
+    if ('error' in audio) throw new Error(audio.error);
+
+    expect(audio.sampleRate).toBe(8000);
+    expect(audio.channels).toBe(2);
+    expect(Array.from(audio.samples)).toEqual([0.25, -1]);
+    expect(audio.durationMs).toBe(0.25);
+  });
+
+  it('decodes 32-bit float and 24-bit PCM', () => {
+    const floats = new Uint8Array(8);
+    new DataView(floats.buffer).setFloat32(0, 0.75, true);
+    new DataView(floats.buffer).setFloat32(4, -0.5, true);
+    const floatAudio = decodeWav(buildWav(3, 1, 44100, 32, floats));
+    expect(floatAudio).toMatchObject({ samples: new Float32Array([0.75, -0.5]) });
+
+    const pcm24 = new Uint8Array([0x00, 0x00, 0xc0]); // -0.5
+    const audio24 = decodeWav(buildWav(1, 1, 44100, 24, pcm24));
+    expect(audio24).toMatchObject({ samples: new Float32Array([-0.5]) });
+  });
+
+  it('rejects files that are not supported WAVs', () => {
+    expect(decodeWav(new Uint8Array(20))).toEqual({ error: 'Not a RIFF/WAVE file' });
+    expect(decodeWav(buildWav(2, 1, 44100, 4, new Uint8Array(4)))).toEqual({
+      error: 'Unsupported sample format 2 (4-bit)',
+    });
+  });
+});
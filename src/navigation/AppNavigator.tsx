@@ -16,6 +16,8 @@ import { ExercisePlayer } from '../screens/ExercisePlayer/ExercisePlayer';
 import { OnboardingScreen } from '../screens/OnboardingScreen';
 import { MidiSetupScreen } from '../screens/MidiSetupScreen';
 import { MicSetupScreen } from '../screens/MicSetupScreen';
+import { LatencyCalibrationScreen } from '../screens/LatencyCalibrationScreen';
+import { TuningCheckScreen } from '../screens/TuningCheckScreen';
 import { LevelMapScreen } from '../screens/LevelMapScreen';
 import { PlayScreen } from '../screens/PlayScreen';
 import { ProfileScreen } from '../screens/ProfileScreen';
@@ -30,10 +32,12 @@ import { SkillAssessmentScreen } from '../screens/SkillAssessmentScreen';
 import { DailySessionScreen } from '../screens/DailySessionScreen';
 import { SongLibraryScreen } from '../screens/SongLibraryScreen';
 import { SongPlayerScreen } from '../screens/SongPlayerScreen';
+import { DuetScreen } from '../screens/DuetScreen';
 import { SocialScreen } from '../screens/SocialScreen';
 import { LeaderboardScreen } from '../screens/LeaderboardScreen';
 import { FriendsScreen } from '../screens/FriendsScreen';
 import { AddFriendScreen } from '../screens/AddFriendScreen';
+import { TeacherDashboardScreen } from '../screens/TeacherDashboardScreen';
 // Navigation
 import { CustomTabBar } from './CustomTabBar';
 import { OfflineBanner } from '../components/common/OfflineBanner';
@@ -43,6 +47,7 @@ import { useAuthStore } from '../stores/authStore';
 
 // Types
 import type { Exercise, ExerciseType } from '../core/exercises/types';
+import type { PlaybackSpeed } from '../stores/types';
 
 export type RootStackParamList = {
   Auth: undefined;
@@ -70,6 +75,10 @@ export type RootStackParamList = {
     };
     /** When playing a received challenge — submits score back on completion */
     friendChallengeId?: string;
+    /** Start at this speed, e.g. to meet an assignment's target tempo */
+    playbackSpeed?: PlaybackSpeed;
+    /** Played from a class assignment — the run is recorded as its result */
+    assignmentId?: string;
   };
   TierIntro: { tier: number; locked?: boolean };
   SkillAssessment: undefined;
@@ -78,14 +87,18 @@ export type RootStackParamList = {
   FreePlay: undefined;
   MidiSetup: undefined;
   MicSetup: undefined;
+  LatencyCalibration: undefined;
+  TuningCheck: undefined;
   Account: undefined;
   CatSwitch: undefined;
   CatStudio: undefined;
   DebugLog: undefined;
-  SongPlayer: { songId: string };
+  SongPlayer: { songId: string; sectionId?: string; targetTempo?: number; assignmentId?: string };
+  Duet: { songId: string; sectionId: string };
   Leaderboard: undefined;
   Friends: undefined;
   AddFriend: undefined;
+  TeacherDashboard: undefined;
 };
 
 export type MainTabParamList = {
@@ -205,6 +218,16 @@ export function AppNavigator() {
               component={MicSetupScreen}
               options={{ presentation: 'transparentModal', animation: 'fade' }}
             />
+            <RootStack.Screen
+              name="LatencyCalibration"
+              component={LatencyCalibrationScreen}
+              options={{ presentation: 'card', animation: 'slide_from_right' }}
+            />
+            <RootStack.Screen
+              name="TuningCheck"
+              component={TuningCheckScreen}
+              options={{ presentation: 'card', animation: 'slide_from_right' }}
+            />
             <RootStack.Screen
               name="Account"
               component={AccountScreen}
@@ -235,6 +258,11 @@ export function AppNavigator() {
               component={SongPlayerScreen}
               options={{ animation: 'slide_from_right' }}
             />
+            <RootStack.Screen
+              name="Duet"
+              component={DuetScreen}
+              options={{ animation: 'slide_from_right', gestureEnabled: false }}
+            />
             <RootStack.Screen
               name="Leaderboard"
               component={LeaderboardScreen}
@@ -250,6 +278,11 @@ export function AppNavigator() {
               component={AddFriendScreen}
               options={{ animation: 'slide_from_bottom' }}
             />
+            <RootStack.Screen
+              name="TeacherDashboard"
+              component={TeacherDashboardScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
             <RootStack.Screen
               name="CatSwitch"
               component={CatSwitchScreen}
@@ -106,6 +106,18 @@ jest.mock('../../screens/MicSetupScreen', () => {
   return { MicSetupScreen: () => <View testID="mic-setup-screen"><Text>MicSetupScreen</Text></View> };
 });
 
+jest.mock('../../screens/LatencyCalibrationScreen', () => {
+  const { View, Text } = require('react-native');
+  return {
+    LatencyCalibrationScreen: () => <View testID="latency-calibration-screen"><Text>LatencyCalibrationScreen</Text></View>,
+  };
+});
+
+jest.mock('../../screens/TuningCheckScreen', () => {
+  const { View, Text } = require('react-native');
+  return { TuningCheckScreen: () => <View testID="tuning-check-screen"><Text>TuningCheckScreen</Text></View> };
+});
+
 jest.mock('../../screens/AccountScreen', () => {
   const { View, Text } = require('react-native');
   return { AccountScreen: () => <View testID="account-screen"><Text>AccountScreen</Text></View> };
@@ -151,6 +163,16 @@ jest.mock('../../screens/SongPlayerScreen', () => {
   return { SongPlayerScreen: () => <View testID="song-player-screen"><Text>SongPlayerScreen</Text></View> };
 });
 
+jest.mock('../../screens/DuetScreen', () => {
+  const { View, Text } = require('react-native');
+  return { DuetScreen: () => <View testID="duet-screen"><Text>DuetScreen</Text></View> };
+});
+
+jest.mock('../../screens/TeacherDashboardScreen', () => {
+  const { View, Text } = require('react-native');
+  return { TeacherDashboardScreen: () => <View testID="teacher-dashboard-screen"><Text>TeacherDashboardScreen</Text></View> };
+});
+
 // ---------------------------------------------------------------------------
 // Mock react-navigation
 // ---------------------------------------------------------------------------
@@ -558,6 +580,11 @@ describe('AppNavigator', () => {
       const { getByTestId } = render(<AppNavigator />);
       expect(getByTestId('screen-AddFriend')).toBeTruthy();
     });
+
+    it('should have TeacherDashboard route available', () => {
+      const { getByTestId } = render(<AppNavigator />);
+      expect(getByTestId('screen-TeacherDashboard')).toBeTruthy();
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -58,6 +58,8 @@ export function AccountScreen(): React.ReactElement {
   const authDeleteAccount = useAuthStore((s) => s.deleteAccount);
   const authUpdateDisplayName = useAuthStore((s) => s.updateDisplayName);
   const clearError = useAuthStore((s) => s.clearError);
+  const role = useAuthStore((s) => s.role);
+  const setRole = useAuthStore((s) => s.setRole);
 
   const [isEditingName, setIsEditingName] = useState(false);
   const [newName, setNewName] = useState(user?.displayName ?? '');
@@ -175,6 +177,31 @@ export function AccountScreen(): React.ReactElement {
     );
   }, [authDeleteAccount, handleReauthAndDelete]);
 
+  const handleTeacherDashboard = useCallback(() => {
+    if (role === 'teacher') {
+      navigation.navigate('TeacherDashboard');
+      return;
+    }
+    Alert.alert(
+      'Teach a Class',
+      'Teachers can create classes, invite students and set assignments. Students choose whether to join, and only then can you see their progress.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Become a Teacher',
+          onPress: async () => {
+            try {
+              await setRole('teacher');
+              navigation.navigate('TeacherDashboard');
+            } catch {
+              Alert.alert('Error', 'Could not update your account. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [role, setRole, navigation]);
+
   const handleSaveName = useCallback(async () => {
     if (newName.trim().length < 2) return;
     await authUpdateDisplayName(newName.trim());
@@ -525,6 +552,13 @@ export function AccountScreen(): React.ReactElement {
           </View>
           <MaterialCommunityIcons name="chevron-right" size={16} color={COLORS.textMuted} />
         </PressableScale>
+        <PressableScale style={styles.row} onPress={handleTeacherDashboard} testID="teacher-dashboard-row">
+          <View style={styles.rowLeft}>
+            <MaterialCommunityIcons name="school-outline" size={20} color={COLORS.textSecondary} />
+            <Text style={styles.rowText}>Teacher Dashboard</Text>
+          </View>
+          <MaterialCommunityIcons name="chevron-right" size={16} color={COLORS.textMuted} />
+        </PressableScale>
       </View>
 
       {/* Linked Accounts section */}
@@ -4,6 +4,7 @@
  * AI-picked session: warm-up -> lesson -> challenge, with explanations
  * of WHY each exercise was chosen. Primary learning entry point (Learn tab).
  * Recomputes the session plan when returning from exercises via useFocusEffect.
+ * Assignments from the user's classes (and class invites) come first.
  */
 
 import React, { useMemo, useCallback, useState } from 'react';
@@ -13,6 +14,7 @@ import {
   StyleSheet,
   SafeAreaView,
   ScrollView,
+  Alert,
 } from 'react-native';
 import { PressableScale } from '../components/common/PressableScale';
 import Animated, { FadeInUp } from 'react-native-reanimated';
@@ -28,11 +30,31 @@ import { getExercise } from '../content/ContentLoader';
 import { midiToNoteName } from '../core/music/MusicTheory';
 import { useLearnerProfileStore } from '../stores/learnerProfileStore';
 import { useGemStore } from '../stores/gemStore';
+import { useAuthStore } from '../stores/authStore';
+import { useClassroomStore } from '../stores/classroomStore';
+import {
+  getClassMemberships,
+  getStudentAssignments,
+  joinClass,
+  leaveClass,
+} from '../services/firebase/classroomService';
+import {
+  daysUntilDue,
+  describeDueDate,
+  isAssignmentDone,
+  playbackSpeedForTempo,
+  sortAssignments,
+  type Assignment,
+  type ClassMembership,
+  type StudentProgress,
+} from '../core/classroom/classroom';
+import { localDateString } from '../core/progression/XpSystem';
 import { SalsaCoach } from '../components/Mascot/SalsaCoach';
 import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS, glowColor, type RarityLevel } from '../theme/tokens';
 import { GradientMeshBackground } from '../components/effects';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import { exerciseTypeForCategory } from '../core/exercises/types';
+import { logger } from '../utils/logger';
 
 type NavProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -41,6 +63,7 @@ const SECTION_COLORS = {
   warmUp: { accent: COLORS.warning, bg: glowColor(COLORS.warning, 0.08), border: glowColor(COLORS.warning, 0.2) },
   lesson: { accent: COLORS.info, bg: glowColor(COLORS.info, 0.08), border: glowColor(COLORS.info, 0.2) },
   challenge: { accent: COLORS.primaryLight, bg: glowColor(COLORS.primaryLight, 0.08), border: glowColor(COLORS.primaryLight, 0.2) },
+  assignments: { accent: COLORS.success, bg: glowColor(COLORS.success, 0.08), border: glowColor(COLORS.success, 0.2) },
 } as const;
 
 const SECTION_ICONS = {
@@ -100,6 +123,103 @@ export function DailySessionScreen() {
     }, [])
   );
 
+  // Class invites and assignments (signed-in accounts only)
+  const uid = useAuthStore((s) => s.user?.uid ?? null);
+  const isAnonymous = useAuthStore((s) => s.isAnonymous);
+  const memberships = useClassroomStore((s) => s.memberships);
+  const classAssignments = useClassroomStore((s) => s.assignments);
+  const assignmentResults = useClassroomStore((s) => s.assignmentResults);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!uid || isAnonymous) return;
+      const { setMemberships, setAssignments } = useClassroomStore.getState();
+      getClassMemberships(uid)
+        .then(async (next) => {
+          setMemberships(next);
+          setAssignments(await getStudentAssignments(next));
+        })
+        .catch((err) => logger.warn('[DailySession] Failed to load class assignments:', err));
+    }, [uid, isAnonymous])
+  );
+
+  const assignmentProgress: StudentProgress = useMemo(
+    () => ({ assignments: assignmentResults }),
+    [assignmentResults]
+  );
+
+  const today = localDateString();
+  // Finished assignments drop off once their due date has passed
+  const visibleAssignments = useMemo(
+    () =>
+      sortAssignments(
+        classAssignments.filter(
+          (a) => !(isAssignmentDone(a, assignmentProgress) && daysUntilDue(a.dueDate, today) < 0)
+        ),
+        assignmentProgress
+      ),
+    [classAssignments, assignmentProgress, today]
+  );
+  const invites = memberships.filter((m) => m.status === 'invited');
+
+  const handleAssignmentPress = useCallback(
+    (assignment: Assignment) => {
+      const { target, targetTempo } = assignment;
+      if (target.kind === 'song-section') {
+        navigation.navigate('SongPlayer', {
+          songId: target.songId,
+          sectionId: target.sectionId,
+          targetTempo: targetTempo ?? undefined,
+          assignmentId: assignment.id,
+        });
+        return;
+      }
+      const exercise = targetTempo ? getExercise(target.exerciseId) : null;
+      navigation.navigate('Exercise', {
+        exerciseId: target.exerciseId,
+        assignmentId: assignment.id,
+        playbackSpeed: exercise && targetTempo
+          ? playbackSpeedForTempo(exercise.settings.tempo, targetTempo)
+          : undefined,
+      });
+    },
+    [navigation]
+  );
+
+  const handleJoinClass = useCallback(
+    async (membership: ClassMembership) => {
+      if (!uid) return;
+      try {
+        await joinClass(uid, membership);
+        const store = useClassroomStore.getState();
+        store.updateMembership(membership.classId, { status: 'joined', joinedAt: Date.now() });
+        store.setAssignments(await getStudentAssignments(useClassroomStore.getState().memberships));
+      } catch (err) {
+        logger.warn('[DailySession] Failed to join class:', err);
+        Alert.alert('Error', 'Could not join the class. Please try again.');
+      }
+    },
+    [uid]
+  );
+
+  const handleDeclineClass = useCallback(
+    async (membership: ClassMembership) => {
+      if (!uid) return;
+      // The teacher keeps read access while the student is in another of their classes
+      const inOtherClass = memberships.some(
+        (m) => m.classId !== membership.classId && m.teacherUid === membership.teacherUid && m.status === 'joined'
+      );
+      try {
+        await leaveClass(uid, membership, inOtherClass);
+        useClassroomStore.getState().removeMembership(membership.classId);
+      } catch (err) {
+        logger.warn('[DailySession] Failed to decline class invite:', err);
+        Alert.alert('Error', 'Could not decline the invite. Please try again.');
+      }
+    },
+    [uid, memberships]
+  );
+
   const plan: SessionPlan = useMemo(() => {
     // Read full profile snapshot inside useMemo — only triggered by focusCounter
     const profile = useLearnerProfileStore.getState();
@@ -117,6 +237,7 @@ export function DailySessionScreen() {
         masteredSkills: profile.masteredSkills,
         skillMasteryData: profile.skillMasteryData,
         recentExerciseIds: profile.recentExerciseIds,
+        reviewSchedule: profile.reviewSchedule,
       },
       profile.masteredSkills
     );
@@ -243,6 +364,18 @@ export function DailySessionScreen() {
           </View>
         )}
 
+        {/* Class Assignments */}
+        <AssignmentsSection
+          invites={invites}
+          assignments={visibleAssignments}
+          memberships={memberships}
+          progress={assignmentProgress}
+          today={today}
+          onAssignmentPress={handleAssignmentPress}
+          onJoin={handleJoinClass}
+          onDecline={handleDeclineClass}
+        />
+
         {/* Warm Up Section */}
         <SessionSection
           sectionKey="warmUp"
@@ -377,6 +510,120 @@ function SessionSection({
   );
 }
 
+// ============================================================================
+// Class Assignments Section
+// ============================================================================
+
+function AssignmentsSection({
+  invites,
+  assignments,
+  memberships,
+  progress,
+  today,
+  onAssignmentPress,
+  onJoin,
+  onDecline,
+}: {
+  invites: ClassMembership[];
+  assignments: Assignment[];
+  memberships: ClassMembership[];
+  progress: StudentProgress;
+  today: string;
+  onAssignmentPress: (assignment: Assignment) => void;
+  onJoin: (membership: ClassMembership) => void;
+  onDecline: (membership: ClassMembership) => void;
+}) {
+  const colors = SECTION_COLORS.assignments;
+
+  if (invites.length === 0 && assignments.length === 0) return null;
+
+  return (
+    <View style={styles.section} testID="daily-session-assignments">
+      <Animated.View
+        entering={FadeInUp.delay(0).duration(400)}
+        style={styles.sectionHeader}
+      >
+        <View style={[styles.sectionIconBg, { backgroundColor: colors.bg }]}>
+          <MaterialCommunityIcons name="school" size={20} color={colors.accent} />
+        </View>
+        <Text style={[styles.sectionLabel, { color: colors.accent }]}>Assignments</Text>
+      </Animated.View>
+
+      {invites.map((membership) => (
+        <View key={membership.classId} style={[styles.inviteCard, { borderColor: colors.border }]}>
+          <Text style={styles.inviteText}>
+            {membership.teacherName} invited you to {membership.className}. Joining lets them see your progress.
+          </Text>
+          <View style={styles.inviteActions}>
+            <PressableScale
+              style={[styles.inviteButton, { backgroundColor: colors.accent }]}
+              onPress={() => onJoin(membership)}
+              testID={`class-invite-join-${membership.classId}`}
+            >
+              <Text style={styles.inviteButtonText}>Join</Text>
+            </PressableScale>
+            <PressableScale
+              style={styles.inviteButton}
+              onPress={() => onDecline(membership)}
+              testID={`class-invite-decline-${membership.classId}`}
+            >
+              <Text style={styles.inviteDeclineText}>Decline</Text>
+            </PressableScale>
+          </View>
+        </View>
+      ))}
+
+      {assignments.map((assignment, i) => {
+        const isDone = isAssignmentDone(assignment, progress);
+        const isOverdue = !isDone && daysUntilDue(assignment.dueDate, today) < 0;
+        const className = memberships.find((m) => m.classId === assignment.classId)?.className;
+        return (
+          <Animated.View
+            key={assignment.id}
+            entering={FadeInUp.delay((i + 1) * 100).duration(400)}
+          >
+            <GameCard
+              rarity="rare"
+              onPress={() => onAssignmentPress(assignment)}
+              style={[styles.exerciseGameCard, isDone && styles.exerciseGameCardDone]}
+              testID={`assignment-${assignment.id}`}
+            >
+              <View style={styles.exerciseCardContent}>
+                <View style={styles.exerciseInfo}>
+                  <Text style={[styles.exerciseTitle, isDone && styles.exerciseTitleDone]}>{assignment.title}</Text>
+                  {className && <Text style={styles.exerciseReason}>{className}</Text>}
+                  <View style={styles.exerciseMeta}>
+                    {isDone ? (
+                      <View style={styles.doneTag}>
+                        <MaterialCommunityIcons name="check-circle" size={12} color={COLORS.success} />
+                        <Text style={styles.doneTagText}>Done</Text>
+                      </View>
+                    ) : (
+                      <Text style={[styles.dueText, isOverdue && styles.dueTextOverdue]}>
+                        {describeDueDate(assignment.dueDate, today)}
+                      </Text>
+                    )}
+                    {assignment.targetTempo != null && (
+                      <Text style={styles.dueText}>{assignment.targetTempo} BPM</Text>
+                    )}
+                  </View>
+                </View>
+                <View style={[styles.playIconBg, { backgroundColor: isDone ? COLORS.success : colors.accent }]}>
+                  <MaterialCommunityIcons
+                    name={isDone ? 'check' : 'play'}
+                    size={20}
+                    color={COLORS.textPrimary}
+                  />
+                </View>
+              </View>
+            </GameCard>
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
 // ============================================================================
 // Exercise Card Component (renamed to avoid conflict with transitions/ExerciseCard)
 // ============================================================================
@@ -674,6 +921,46 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginLeft: SPACING.sm,
   },
+  // Class assignments
+  inviteCard: {
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    backgroundColor: glowColor(COLORS.success, 0.06),
+    gap: SPACING.sm,
+  },
+  inviteText: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textPrimary,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  inviteButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  inviteButtonText: {
+    ...TYPOGRAPHY.body.sm,
+    fontWeight: '700' as const,
+    color: COLORS.textPrimary,
+  },
+  inviteDeclineText: {
+    ...TYPOGRAPHY.body.sm,
+    fontWeight: '600' as const,
+    color: COLORS.textSecondary,
+  },
+  dueText: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.textMuted,
+  },
+  dueTextOverdue: {
+    color: COLORS.error,
+    fontWeight: '600' as const,
+  },
   // Reasoning
   reasoningCard: {
     marginHorizontal: SPACING.md,
@@ -0,0 +1,631 @@
+/**
+ * DuetScreen
+ *
+ * Two players share a song section in real time over the duet relay: one
+ * starts a room and picks how to split the section (hands or layers), the
+ * other joins with the room code and takes the other part. Each player
+ * sees their own part falling and the partner's keys as narrow bars placed
+ * where they were played. Both scores are shown at the end; duets don't
+ * count toward song mastery or XP.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, TextInput, useWindowDimensions } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useSongStore } from '../stores/songStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useExercisePlayback } from '../hooks/useExercisePlayback';
+import { createAudioEngine } from '../audio/createAudioEngine';
+import type { NoteHandle } from '../audio/types';
+import { VerticalPianoRoll, deriveMidiRange } from '../components/PianoRoll/VerticalPianoRoll';
+import { Keyboard } from '../components/Keyboard/Keyboard';
+import { computeZoomedRange } from '../components/Keyboard/computeZoomedRange';
+import { Button } from '../components/common';
+import { PressableScale } from '../components/common/PressableScale';
+import { GradientMeshBackground } from '../components/effects';
+import { createRoomCode, ROOM_CODE_PATTERN } from '../core/duet/duetProtocol';
+import type { DuetResult } from '../core/duet/duetProtocol';
+import {
+  DUET_PART_LABELS,
+  DUET_PARTS,
+  duetPartExercise,
+  duetSplitsFor,
+  partnerPart,
+  placePartnerNotes,
+} from '../core/duet/duetParts';
+import type { DuetSplit } from '../core/duet/duetParts';
+import type { Exercise, ExerciseScore, MidiNoteEvent } from '../core/exercises/types';
+import { DuetSession, ownPart } from '../services/duet/DuetSession';
+import type { DuetSessionState } from '../services/duet/DuetSession';
+import { WebSocketDuetTransport, duetRelayUrl } from '../services/duet/WebSocketDuetTransport';
+import { sectionToExercise } from './SongPlayerScreen';
+import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, glowColor } from '../theme/tokens';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+type NavProp = NativeStackNavigationProp<RootStackParamList>;
+type DuetRouteProp = RouteProp<RootStackParamList, 'Duet'>;
+
+/** The partner's part sounds a little quieter than your own */
+const PARTNER_VELOCITY_SCALE = 0.7;
+
+const SPLIT_LABELS: Record<DuetSplit, string> = {
+  hands: 'Hands',
+  layers: 'Melody + accompaniment',
+};
+
+// ---------------------------------------------------------------------------
+// Stage — the run itself
+// ---------------------------------------------------------------------------
+
+function DuetStage({
+  session,
+  state,
+  exercise,
+  partnerExercise,
+}: {
+  session: DuetSession;
+  state: DuetSessionState;
+  exercise: Exercise;
+  partnerExercise: Exercise;
+}) {
+  const { width } = useWindowDimensions();
+  const handleComplete = useCallback(
+    (score: ExerciseScore) => {
+      session.finish({ overall: score.overall, stars: score.stars, breakdown: score.breakdown });
+    },
+    [session],
+  );
+
+  // ms from beat 0 on the shared timeline, as the partner places our keys
+  const countInMs = exercise.settings.countIn * (60000 / exercise.settings.tempo);
+  const startAtRef = useRef(state.startAt);
+  startAtRef.current = state.startAt;
+  const msFromBeatZero = useCallback(
+    () => Date.now() - (startAtRef.current ?? Date.now()) - countInMs,
+    [countInMs],
+  );
+
+  // MIDI and mic keys are recorded by the hook; pass them and their releases on too
+  const handleExternalNote = useCallback(
+    (event: MidiNoteEvent) => {
+      const on = event.type === 'noteOn';
+      session.sendNote(event.note, on ? event.velocity : 0, on, msFromBeatZero());
+    },
+    [session, msFromBeatZero],
+  );
+
+  const {
+    currentBeat,
+    startPlayback,
+    stopPlayback,
+    playNote,
+    releaseNote,
+  } = useExercisePlayback({ exercise, onComplete: handleComplete, onExternalNote: handleExternalNote });
+
+  // Start each run the host schedules, once
+  const startedAtRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (state.status !== 'playing' || state.startAt === null || startedAtRef.current === state.startAt) return;
+    startedAtRef.current = state.startAt;
+    startPlayback(state.startAt);
+  }, [state.status, state.startAt, startPlayback]);
+
+  useEffect(() => () => stopPlayback(), [stopPlayback]);
+
+  const handleNoteOn = useCallback(
+    (event: MidiNoteEvent) => {
+      playNote(event.note, event.velocity / 127);
+      session.sendNote(event.note, event.velocity, true, msFromBeatZero());
+    },
+    [playNote, session, msFromBeatZero],
+  );
+
+  const handleNoteOff = useCallback(
+    (note: number) => {
+      releaseNote(note);
+      session.sendNote(note, 0, false, msFromBeatZero());
+    },
+    [releaseNote, session, msFromBeatZero],
+  );
+
+  // Sound the partner's keys as they arrive. They are already late by the
+  // network delay; the roll below puts them back where they were played.
+  const partnerHandlesRef = useRef(new Map<number, NoteHandle>());
+  const soundedCountRef = useRef(0);
+  useEffect(() => {
+    const engine = createAudioEngine();
+    if (state.partnerNotes.length < soundedCountRef.current) soundedCountRef.current = 0;
+    for (const event of state.partnerNotes.slice(soundedCountRef.current)) {
+      const held = partnerHandlesRef.current.get(event.note);
+      if (held) engine.releaseNote(held);
+      partnerHandlesRef.current.delete(event.note);
+      if (event.on && engine.isReady()) {
+        const handle = engine.playNote(event.note, (event.velocity / 127) * PARTNER_VELOCITY_SCALE, 'accompaniment');
+        partnerHandlesRef.current.set(event.note, handle);
+      }
+    }
+    soundedCountRef.current = state.partnerNotes.length;
+  }, [state.partnerNotes]);
+
+  const partnerNotes = useMemo(
+    () => placePartnerNotes(state.partnerNotes, partnerExercise),
+    [state.partnerNotes, partnerExercise],
+  );
+
+  const midiRange = useMemo(() => deriveMidiRange(exercise.notes), [exercise.notes]);
+  const keyboardRange = useMemo(
+    () => computeZoomedRange(Array.from(new Set(exercise.notes.map((n) => n.note))), 2),
+    [exercise.notes],
+  );
+  const countdown = currentBeat < 0 ? Math.ceil(-currentBeat) : null;
+
+  return (
+    <View style={styles.stage} testID="duet-stage">
+      <View style={styles.rollContainer}>
+        <VerticalPianoRoll
+          notes={exercise.notes}
+          currentBeat={currentBeat}
+          tempo={exercise.settings.tempo}
+          timeSignature={exercise.settings.timeSignature}
+          tempoMap={exercise.settings.tempoMap}
+          meterMap={exercise.settings.meterMap}
+          containerWidth={width - SPACING.sm * 2}
+          containerHeight={280}
+          midiMin={midiRange.min}
+          midiMax={midiRange.max}
+          timingGracePeriodMs={exercise.scoring.timingGracePeriodMs}
+          raceGhostNotes={partnerNotes}
+          testID="duet-piano-roll"
+        />
+        {countdown !== null && state.status === 'playing' && (
+          <View style={styles.countInOverlay} testID="duet-countin">
+            <Text style={styles.countInValue}>{countdown}</Text>
+          </View>
+        )}
+      </View>
+      <Keyboard
+        startNote={keyboardRange.startNote}
+        octaveCount={keyboardRange.octaveCount}
+        onNoteOn={handleNoteOn}
+        onNoteOff={handleNoteOff}
+        enabled={state.status === 'playing'}
+        showLabels
+        scrollEnabled={false}
+        keyHeight={120}
+        testID="duet-keyboard"
+      />
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+function ResultColumn({ label, result, testID }: { label: string; result: DuetResult | null; testID: string }) {
+  return (
+    <View style={styles.resultColumn} testID={testID}>
+      <Text style={styles.resultLabel} numberOfLines={1}>{label}</Text>
+      <Text style={styles.resultScore}>{result ? `${Math.round(result.overall)}%` : '…'}</Text>
+      <View style={styles.resultStars}>
+        {[1, 2, 3].map((star) => (
+          <MaterialCommunityIcons
+            key={star}
+            name={result && result.stars >= star ? 'star' : 'star-outline'}
+            size={16}
+            color={COLORS.starGold}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Screen
+// ---------------------------------------------------------------------------
+
+export function DuetScreen() {
+  const navigation = useNavigation<NavProp>();
+  const route = useRoute<DuetRouteProp>();
+  const displayName = useSettingsStore((s) => s.displayName);
+  const { currentSong, loadSong } = useSongStore();
+
+  const sessionRef = useRef<DuetSession | null>(null);
+  const [state, setState] = useState<DuetSessionState | null>(null);
+  const [roomInput, setRoomInput] = useState('');
+
+  // The host's setup decides the section; until then it's the one we came from
+  const songId = state?.setup?.songId ?? route.params.songId;
+  const sectionId = state?.setup?.sectionId ?? route.params.sectionId;
+  const song = currentSong?.id === songId ? currentSong : null;
+  const section = song?.sections.find((s) => s.id === sectionId) ?? null;
+  const splits = useMemo(() => (section ? duetSplitsFor(section) : []), [section]);
+
+  // A guest may have come from another song
+  useEffect(() => {
+    if (currentSong?.id !== songId) loadSong(songId);
+  }, [currentSong?.id, songId, loadSong]);
+
+  useEffect(() => () => sessionRef.current?.leave(), []);
+
+  const join = useCallback(
+    (room: string) => {
+      sessionRef.current?.leave();
+      const session = new DuetSession(new WebSocketDuetTransport(duetRelayUrl()));
+      sessionRef.current = session;
+      session.subscribe(setState);
+      setState(session.getState());
+      session.join(room, displayName);
+    },
+    [displayName],
+  );
+
+  // The host starts with the first split that works for this section
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || state?.role !== 'host' || state.setup || splits.length === 0) return;
+    session.chooseSetup({ songId, sectionId, split: splits[0], hostPart: DUET_PARTS[splits[0]][0] });
+  }, [state?.role, state?.setup, splits, songId, sectionId]);
+
+  const part = state ? ownPart(state) : null;
+  const exercises = useMemo(() => {
+    if (!song || !section || !part) return null;
+    const sectionExercise = sectionToExercise(song, section, 'full', false);
+    return {
+      own: duetPartExercise(sectionExercise, section, part),
+      partner: duetPartExercise(sectionExercise, section, partnerPart(part)),
+    };
+  }, [song, section, part]);
+
+  const handleLeave = useCallback(() => {
+    sessionRef.current?.leave();
+    navigation.goBack();
+  }, [navigation]);
+
+  const session = sessionRef.current;
+  const inRun = state?.status === 'playing' || state?.status === 'finished';
+
+  // ── Lobby ───────────────────────────────────────────────────
+
+  const renderLobby = () => (
+    <View style={styles.panel} testID="duet-lobby">
+      <Text style={styles.title}>Play a duet</Text>
+      <Text style={styles.subtitle}>
+        Start a room and share its code, or join your partner's room.
+      </Text>
+      <Button
+        title="Start a room"
+        onPress={() => join(createRoomCode())}
+        size="large"
+        disabled={splits.length === 0}
+        testID="duet-create-room"
+      />
+      {splits.length === 0 && section && (
+        <Text style={styles.hint}>This section has only one part. Pick another to play as a duet.</Text>
+      )}
+      <View style={styles.joinRow}>
+        <TextInput
+          style={styles.codeInput}
+          value={roomInput}
+          onChangeText={(text) => setRoomInput(text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8))}
+          placeholder="CODE"
+          placeholderTextColor={COLORS.textMuted}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          testID="duet-room-input"
+        />
+        <Button
+          title="Join"
+          onPress={() => join(roomInput)}
+          disabled={!ROOM_CODE_PATTERN.test(roomInput)}
+          testID="duet-join-room"
+        />
+      </View>
+      {state?.error && <Text style={styles.error}>{state.error}</Text>}
+    </View>
+  );
+
+  // ── Room (before the run) ──────────────────────────────────
+
+  const renderRoom = (room: DuetSessionState) => {
+    const statusText =
+      room.status === 'connecting' ? 'Connecting…'
+        : room.status === 'waiting' ? 'Waiting for your partner to join'
+          : room.status === 'syncing' ? 'Syncing clocks…'
+            : room.partnerReady ? `${room.partnerName} is ready` : `Waiting for ${room.partnerName}`;
+
+    return (
+      <View style={styles.panel} testID="duet-room">
+        <Text style={styles.subtitle}>Room code</Text>
+        <Text style={styles.roomCode} testID="duet-room-code">{room.room}</Text>
+        <Text style={styles.status} testID="duet-status">{statusText}</Text>
+        {room.clock && (
+          <Text style={styles.hint}>Round trip to the relay: {Math.round(room.clock.rttMs)}ms</Text>
+        )}
+
+        {room.role === 'host' && room.setup && (
+          <>
+            <Text style={styles.sectionLabel}>Split</Text>
+            <View style={styles.chipRow}>
+              {splits.map((split) => (
+                <PressableScale
+                  key={split}
+                  style={[styles.chip, room.setup?.split === split && styles.chipActive]}
+                  onPress={() => session?.chooseSetup({ songId, sectionId, split, hostPart: DUET_PARTS[split][0] })}
+                  testID={`duet-split-${split}`}
+                >
+                  <Text style={[styles.chipText, room.setup?.split === split && styles.chipTextActive]}>
+                    {SPLIT_LABELS[split]}
+                  </Text>
+                </PressableScale>
+              ))}
+            </View>
+            <Text style={styles.sectionLabel}>You play</Text>
+            <View style={styles.chipRow}>
+              {DUET_PARTS[room.setup.split].map((hostPart) => (
+                <PressableScale
+                  key={hostPart}
+                  style={[styles.chip, room.setup?.hostPart === hostPart && styles.chipActive]}
+                  onPress={() => room.setup && session?.chooseSetup({ ...room.setup, hostPart })}
+                  testID={`duet-part-${hostPart}`}
+                >
+                  <Text style={[styles.chipText, room.setup?.hostPart === hostPart && styles.chipTextActive]}>
+                    {DUET_PART_LABELS[hostPart]}
+                  </Text>
+                </PressableScale>
+              ))}
+            </View>
+          </>
+        )}
+
+        {part && (
+          <Text style={styles.partSummary} testID="duet-part-summary">
+            {section?.label ?? 'Loading…'}: you play the {DUET_PART_LABELS[part].toLowerCase()},{' '}
+            {room.partnerName ?? 'your partner'} the {DUET_PART_LABELS[partnerPart(part)].toLowerCase()}
+          </Text>
+        )}
+
+        {room.role === 'host' ? (
+          <Button
+            title="Start"
+            onPress={() => session?.start()}
+            size="large"
+            disabled={!session?.canStart || !exercises}
+            testID="duet-start"
+          />
+        ) : (
+          room.clock && <Text style={styles.hint}>The host starts the duet.</Text>
+        )}
+      </View>
+    );
+  };
+
+  // ── Results ─────────────────────────────────────────────────
+
+  const renderResults = (room: DuetSessionState) => {
+    const both = room.result && room.partnerResult;
+    return (
+      <View style={styles.resultsCard} testID="duet-results">
+        <View style={styles.resultsRow}>
+          <ResultColumn label="You" result={room.result} testID="duet-result-own" />
+          <ResultColumn label={room.partnerName ?? 'Partner'} result={room.partnerResult} testID="duet-result-partner" />
+        </View>
+        {both ? (
+          <Text style={styles.duetScore} testID="duet-score">
+            Together: {Math.round((room.result!.overall + room.partnerResult!.overall) / 2)}%
+          </Text>
+        ) : (
+          <Text style={styles.hint}>Waiting for {room.partnerName ?? 'your partner'} to finish…</Text>
+        )}
+        {room.role === 'host' && (
+          <Button
+            title="Play again"
+            onPress={() => session?.start()}
+            disabled={!session?.canStart}
+            testID="duet-play-again"
+          />
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} testID="duet-screen">
+      <GradientMeshBackground accent="songs" />
+      <View style={styles.header}>
+        <PressableScale onPress={handleLeave} testID="duet-leave">
+          <MaterialCommunityIcons name="arrow-left" size={24} color={COLORS.textPrimary} />
+        </PressableScale>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {song ? `${song.metadata.title} — ${section?.label ?? ''}` : 'Duet'}
+          </Text>
+          {inRun && state?.partnerLagMs != null && (
+            <Text style={styles.headerSubtitle} testID="duet-lag">
+              {state.partnerName} · {Math.round(state.partnerLagMs)}ms behind
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {!state || (state.status === 'ended' && !inRun) ? renderLobby() : null}
+      {state && !inRun && state.status !== 'ended' ? renderRoom(state) : null}
+      {state && inRun && session && exercises && (
+        <>
+          <DuetStage session={session} state={state} exercise={exercises.own} partnerExercise={exercises.partner} />
+          {state.status === 'finished' && renderResults(state)}
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  headerCenter: {
+    flex: 1,
+  },
+  headerTitle: {
+    ...TYPOGRAPHY.heading.md,
+    color: COLORS.textPrimary,
+  },
+  headerSubtitle: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.feedbackLate,
+  },
+  panel: {
+    paddingHorizontal: SPACING.lg,
+    paddingTop: SPACING.lg,
+    gap: SPACING.md,
+  },
+  title: {
+    ...TYPOGRAPHY.heading.lg,
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    ...TYPOGRAPHY.body.md,
+    color: COLORS.textSecondary,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.textMuted,
+  },
+  error: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.error,
+  },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  codeInput: {
+    flex: 1,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+    color: COLORS.textPrimary,
+    ...TYPOGRAPHY.body.lg,
+    fontWeight: '600',
+    letterSpacing: 4,
+  },
+  roomCode: {
+    ...TYPOGRAPHY.display.md,
+    color: COLORS.primary,
+    letterSpacing: 8,
+  },
+  status: {
+    ...TYPOGRAPHY.body.md,
+    color: COLORS.textPrimary,
+  },
+  sectionLabel: {
+    ...TYPOGRAPHY.heading.sm,
+    color: COLORS.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textSecondary,
+  },
+  chipTextActive: {
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  partSummary: {
+    ...TYPOGRAPHY.body.md,
+    color: COLORS.textSecondary,
+  },
+  stage: {
+    flex: 1,
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.sm,
+  },
+  rollContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  countInOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countInValue: {
+    ...TYPOGRAPHY.display.lg,
+    color: COLORS.textPrimary,
+  },
+  resultsCard: {
+    position: 'absolute',
+    left: SPACING.lg,
+    right: SPACING.lg,
+    top: 120,
+    padding: SPACING.lg,
+    gap: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: glowColor(COLORS.primary, 0.4),
+    alignItems: 'center',
+  },
+  resultsRow: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    justifyContent: 'space-around',
+  },
+  resultColumn: {
+    alignItems: 'center',
+    gap: SPACING.xs,
+    maxWidth: 140,
+  },
+  resultLabel: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.textSecondary,
+  },
+  resultScore: {
+    ...TYPOGRAPHY.display.md,
+    color: COLORS.textPrimary,
+  },
+  resultStars: {
+    flexDirection: 'row',
+  },
+  duetScore: {
+    ...TYPOGRAPHY.heading.md,
+    color: COLORS.starGold,
+  },
+});
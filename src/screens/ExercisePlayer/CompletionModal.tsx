@@ -49,6 +49,7 @@ import type { Exercise, ExerciseScore } from '../../core/exercises/types';
 import type { ChestType } from '../../core/rewards/chestSystem';
 import { ChallengeFriendSheet } from '../../components/ChallengeFriendSheet';
 import { useSocialStore } from '../../stores/socialStore';
+import type { VerifiedPerformance } from '../../services/firebase/functions';
 
 /** Star tier colors (no token equivalent — intentional silver/bronze palette) */
 const STAR_SILVER = '#C0C0C0';
@@ -122,6 +123,10 @@ export interface CompletionModalProps {
   failCount?: number;
   /** If set, shows "Challenge sent to [name]!" banner */
   challengeSentTo?: string;
+  /** Server-verified result of this run; friends can only be challenged with one */
+  verifiedPerformance?: VerifiedPerformance | null;
+  /** Called when user taps "Export MIDI" — shares the take as a .mid file */
+  onExportMidi?: () => void;
 }
 
 export const CompletionModal: React.FC<CompletionModalProps> = ({
@@ -145,6 +150,8 @@ export const CompletionModal: React.FC<CompletionModalProps> = ({
   skipAnimation = false,
   failCount = 0,
   challengeSentTo,
+  verifiedPerformance,
+  onExportMidi,
 }) => {
   // ---------------------------------------------------------------------------
   // Phase state
@@ -654,6 +661,12 @@ export const CompletionModal: React.FC<CompletionModalProps> = ({
                 <BreakdownBar label="Timing" value={score.breakdown.timing} color={COLORS.info} skipAnimation={skipAnimation} />
                 <BreakdownBar label="Completeness" value={score.breakdown.completeness} color={COLORS.warning} skipAnimation={skipAnimation} />
                 <BreakdownBar label="Duration" value={score.breakdown.duration} color={COLORS.primary} skipAnimation={skipAnimation} />
+                {score.breakdown.dynamics != null && (
+                  <BreakdownBar label="Dynamics" value={score.breakdown.dynamics} color={COLORS.starGold} skipAnimation={skipAnimation} />
+                )}
+                {score.breakdown.pedal != null && (
+                  <BreakdownBar label="Pedal" value={score.breakdown.pedal} color={COLORS.evolutionGlow} skipAnimation={skipAnimation} />
+                )}
                 <BreakdownBar label="Extra Notes" value={score.breakdown.extraNotes} color={COLORS.textMuted} skipAnimation={skipAnimation} />
               </View>
             </Reanimated.View>
@@ -840,7 +853,7 @@ export const CompletionModal: React.FC<CompletionModalProps> = ({
                   testID="completion-bonus-drill"
                 />
               )}
-              {acceptedFriends.length > 0 && score.isPassed && (
+              {acceptedFriends.length > 0 && score.isPassed && verifiedPerformance && (
                 <Button
                   title="Challenge a Friend"
                   onPress={() => setShowChallengeSheet(true)}
@@ -868,18 +881,32 @@ export const CompletionModal: React.FC<CompletionModalProps> = ({
                 icon={<MaterialCommunityIcons name="share-variant" size={20} color={COLORS.textSecondary} />}
                 testID="completion-share"
               />
+              {onExportMidi && (
+                <Button
+                  title="Export MIDI"
+                  onPress={onExportMidi}
+                  variant="outline"
+                  size="large"
+                  icon={<MaterialCommunityIcons name="file-music-outline" size={20} color={COLORS.textSecondary} />}
+                  testID="completion-export-midi"
+                />
+              )}
             </Reanimated.View>
           )}
         </Animated.View>
       </ScrollView>
 
-      <ChallengeFriendSheet
-        visible={showChallengeSheet}
-        onClose={() => setShowChallengeSheet(false)}
-        exerciseId={exercise.id}
-        exerciseTitle={exercise.metadata?.title ?? exercise.id}
-        score={Math.round(score.overall)}
-      />
+      {verifiedPerformance && (
+        <ChallengeFriendSheet
+          visible={showChallengeSheet}
+          onClose={() => setShowChallengeSheet(false)}
+          exerciseId={exercise.id}
+          exerciseTitle={exercise.metadata?.title ?? exercise.id}
+          score={verifiedPerformance.overall}
+          performanceId={verifiedPerformance.performanceId}
+          ghost={verifiedPerformance.ghost}
+        />
+      )}
     </View>
   );
 };
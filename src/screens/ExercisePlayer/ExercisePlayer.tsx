@@ -20,6 +20,7 @@ import {
   Platform,
   AccessibilityInfo,
   useWindowDimensions,
+  Alert,
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
@@ -28,6 +29,8 @@ import { PressableScale } from '../../components/common/PressableScale';
 import { Keyboard } from '../../components/Keyboard/Keyboard';
 import { SplitKeyboard, deriveSplitPoint } from '../../components/Keyboard/SplitKeyboard';
 import { VerticalPianoRoll } from '../../components/PianoRoll/VerticalPianoRoll';
+import { StaffNotation } from '../../components/StaffNotation/StaffNotation';
+import type { StaffNoteStatus } from '../../components/StaffNotation/StaffNotation';
 import { computeZoomedRange, computeStickyRange, type KeyboardRange } from '../../components/Keyboard/computeZoomedRange';
 import { useExerciseStore } from '../../stores/exerciseStore';
 import { useProgressStore } from '../../stores/progressStore';
@@ -38,6 +41,9 @@ import { recordPracticeSession as calculateStreakUpdate } from '../../core/progr
 import type { RootStackParamList } from '../../navigation/AppNavigator';
 import type { Exercise, ExerciseScore, MidiNoteEvent, ExerciseType } from '../../core/exercises/types';
 import { getExerciseType, resolveExerciseTypeFromSkill } from '../../core/exercises/types';
+import { createTempoTimeline, scaleTempo } from '../../core/exercises/tempoMap';
+import { applyAssists, applyPlaybackSpeed, NO_ASSISTS } from '../../core/exercises/performanceVerification';
+import type { PerformanceAssists, RecordedPerformance } from '../../core/exercises/performanceVerification';
 import { ScoreDisplay } from './ScoreDisplay';
 import { ExerciseControls } from './ExerciseControls';
 import { HintDisplay } from './HintDisplay';
@@ -63,17 +69,25 @@ import type { BuddyReaction } from '../../components/Mascot/ExerciseBuddy';
 import { getAchievementById } from '../../core/achievements/achievements';
 import type { PlaybackSpeed } from '../../stores/types';
 import { useDevKeyboardMidi } from '../../input/DevKeyboardMidi';
+import { midiKeyboardOutput } from '../../input/MidiKeyboardOutput';
 import { DemoPlaybackService } from '../../services/demoPlayback';
 import { createAudioEngine } from '../../audio/createAudioEngine';
 import { ttsService } from '../../services/tts/TTSService';
 import { createChallenge, updateChallengeResult } from '../../services/firebase/socialService';
+import { submitPerformance } from '../../services/firebase/functions';
+import type { VerifiedPerformance } from '../../services/firebase/functions';
+import { useLeagueStore } from '../../stores/leagueStore';
 import { useSocialStore } from '../../stores/socialStore';
 import { useAuthStore } from '../../stores/authStore';
+import { useClassroomStore } from '../../stores/classroomStore';
+import { saveAssignmentResult } from '../../services/firebase/classroomService';
+import type { AssignmentResult } from '../../core/classroom/classroom';
 import { ExerciseIntroOverlay } from './ExerciseIntroOverlay';
 import { ExerciseLoadingScreen } from './ExerciseLoadingScreen';
 import { SalsaIntro } from './SalsaIntro';
 import { ReplayOverlay } from './ReplayOverlay';
 import { ReplayTimelineBar } from './ReplayTimelineBar';
+import { GhostRaceBadge } from './GhostRaceBadge';
 import { ComboMeter } from './ComboMeter';
 import { ComboGlow } from './ComboGlow';
 import { FeedbackText } from './FeedbackText';
@@ -89,6 +103,8 @@ import { GlassmorphismCard } from '../../components/effects';
 import { buildReplayPlan } from '../../services/replayCoachingService';
 import { getIntroData } from '../../services/replayCoachingService';
 import type { ReplayPlan } from '../../core/exercises/replayTypes';
+import { buildReplayEntries } from '../../core/exercises/replayTypes';
+import { raceScore, replayGhost } from '../../core/exercises/ghostRace';
 import ReAnimated, { FadeIn } from 'react-native-reanimated';
 import { SKILL_TREE, getSkillsForExercise, getSkillById, getAvailableSkills, getGenerationHints } from '../../core/curriculum/SkillTree';
 import type { SkillCategory } from '../../core/curriculum/SkillTree';
@@ -106,6 +122,21 @@ import { generateExercise as generateFreePlayExercise } from '../../services/gem
 import { getTemplateForSkill, getTemplateExercise, getTemplateForType } from '../../content/templateExercises';
 import { getChestType, getChestReward } from '../../core/rewards/chestSystem';
 import { analyticsEvents } from '../../services/analytics/PostHog';
+import { shareMidiFile } from '../../services/midiExport';
+import { exerciseToMidiFile } from '../../core/music/midiWriter';
+import { withSuggestedFingerings } from '../../core/music/fingering';
+import type { WaitModeResult } from '../../core/exercises/waitMode';
+import {
+  DEFAULT_CLEAN_SCORE,
+  LOOP_CLEAN_SCORES,
+  barRegion,
+  createLoopRamp,
+  loopRegionExercise,
+  nextLoopTempo,
+} from '../../core/exercises/loopPractice';
+import type { LoopRegion } from '../../core/exercises/loopPractice';
+import { hasBothHands, splitHands } from '../../core/exercises/handPractice';
+import type { PracticeHand } from '../../core/exercises/handPractice';
 
 /** Resolve the exercise type from explicit param, or infer from skill category */
 function resolveExerciseType(
@@ -263,6 +294,8 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   const exerciseTypeParam = route.params?.exerciseType ?? null;
   const challengeTarget = route.params?.challengeTarget ?? null;
   const friendChallengeId = route.params?.friendChallengeId ?? null;
+  const speedParam = route.params?.playbackSpeed ?? null;
+  const assignmentIdParam = route.params?.assignmentId ?? null;
   const mountedRef = useRef(true);
   const playbackStartTimeRef = useRef(0);
 
@@ -503,8 +536,13 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   const loadedExercise = (!aiMode && route.params?.exerciseId)
     ? getExercise(route.params.exerciseId)
     : null;
+  // Generated exercises arrive without fingerings
+  const fingeredAiExercise = useMemo(
+    () => (aiExercise ? withSuggestedFingerings(aiExercise) : null),
+    [aiExercise],
+  );
   const rawExercise =
-    exerciseOverride || (aiMode ? aiExercise : null) || loadedExercise || exerciseStore.currentExercise || FALLBACK_EXERCISE;
+    exerciseOverride || (aiMode ? fingeredAiExercise : null) || loadedExercise || exerciseStore.currentExercise || FALLBACK_EXERCISE;
 
   // Exercise is ready when we have a real exercise (not the fallback)
   const exerciseReady = rawExercise !== FALLBACK_EXERCISE || !aiMode;
@@ -513,6 +551,32 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   // MIDI keyboard users get 1.0x (real piano, 10 fingers), touch keyboard gets 0.75x
   const playbackSpeed = useSettingsStore((s) => s.playbackSpeed);
   const setPlaybackSpeed = useSettingsStore((s) => s.setPlaybackSpeed);
+  // Wait mode never applies to mastery tests — they must be played in time
+  const waitModeSetting = useSettingsStore((s) => s.waitMode);
+  const setWaitMode = useSettingsStore((s) => s.setWaitMode);
+  const waitMode = waitModeSetting && !testMode;
+  // A/B loop practice — a range of bars on repeat, the tempo ramping with each
+  // pass. Beats are the unlooped exercise's; tests are played straight through.
+  const [loopMarkerA, setLoopMarkerA] = useState<number | null>(null);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopTempo, setLoopTempo] = useState(0);
+  // A pass scoring at least this speeds the loop up
+  const loopCleanScore = useSettingsStore((s) => s.loopCleanScore) ?? DEFAULT_CLEAN_SCORE;
+  const setLoopCleanScore = useSettingsStore((s) => s.setLoopCleanScore);
+  const loopRamp = useMemo(
+    () => (loopRegion ? createLoopRamp(rawExercise, loopRegion, { cleanScore: loopCleanScore }) : null),
+    [rawExercise, loopRegion, loopCleanScore],
+  );
+  useEffect(() => {
+    setLoopMarkerA(null);
+    setLoopRegion(null);
+  }, [rawExercise.id]);
+  // Hands-separate play-along: the app plays the hand the learner isn't
+  // playing. Tests need both hands.
+  const [practiceHandChoice, setPracticeHand] = useState<PracticeHand>('both');
+  const rawHasBothHands = useMemo(() => hasBothHands(rawExercise), [rawExercise]);
+  const canPlayHandsSeparately = !testMode && rawHasBothHands;
+  const practiceHand: PracticeHand = canPlayHandsSeparately ? practiceHandChoice : 'both';
   const lastMidiDeviceId = useSettingsStore((s) => s.lastMidiDeviceId);
   const selectedCatId = useSettingsStore((s) => s.selectedCatId);
 
@@ -539,10 +603,15 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   useEffect(() => {
     if (hasAutoSetSpeed.current) return;
     hasAutoSetSpeed.current = true;
+    // A requested speed (assignment target tempo) wins over the MIDI default
+    if (speedParam !== null) {
+      if (playbackSpeed !== speedParam) setPlaybackSpeed(speedParam);
+      return;
+    }
     if (lastMidiDeviceId && playbackSpeed !== 1.0) {
       setPlaybackSpeed(1.0);
     }
-  }, [lastMidiDeviceId, playbackSpeed, setPlaybackSpeed]);
+  }, [lastMidiDeviceId, playbackSpeed, setPlaybackSpeed, speedParam]);
 
   // Compute ability-modified config from active abilities
   const abilityConfig = useMemo((): ExerciseAbilityConfig | null => {
@@ -555,59 +624,42 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     return applyAbilities(activeAbilityIds, defaultCfg);
   }, [activeAbilityIds, rawExercise.scoring.timingToleranceMs, rawExercise.scoring.timingGracePeriodMs, rawExercise.settings.tempo]);
 
+  // Ability tempo reduction and timing window changes, in the form the
+  // server checks when it re-scores the performance
+  const assists = useMemo((): PerformanceAssists => {
+    if (!abilityConfig) return NO_ASSISTS;
+    return {
+      tempoReductionBpm: rawExercise.settings.tempo - abilityConfig.tempo,
+      timingWindowMultiplier: abilityConfig.timingToleranceMs / rawExercise.scoring.timingToleranceMs,
+    };
+  }, [abilityConfig, rawExercise.settings.tempo, rawExercise.scoring.timingToleranceMs]);
+
   // Apply speed multiplier + ability modifiers to create the exercise used for playback + scoring
-  const exercise = useMemo(() => {
-    let ex = rawExercise;
-
-    // Apply ability-based tempo reduction
-    if (abilityConfig && abilityConfig.tempo !== rawExercise.settings.tempo) {
-      ex = {
-        ...ex,
-        settings: { ...ex.settings, tempo: abilityConfig.tempo },
-      };
-    }
+  const preparedExercise = useMemo(() => {
+    const ex = applyAssists(rawExercise, assists);
 
-    // Apply ability-based timing window changes
-    if (abilityConfig && (
-      abilityConfig.timingToleranceMs !== rawExercise.scoring.timingToleranceMs ||
-      abilityConfig.timingGracePeriodMs !== rawExercise.scoring.timingGracePeriodMs
-    )) {
-      ex = {
-        ...ex,
-        scoring: {
-          ...ex.scoring,
-          timingToleranceMs: abilityConfig.timingToleranceMs,
-          timingGracePeriodMs: abilityConfig.timingGracePeriodMs,
-        },
-      };
+    // A/B loop: the ramp sets the tempo, so playback speed doesn't apply
+    if (loopRegion && loopTempo > 0) {
+      return loopRegionExercise(ex, loopRegion, loopTempo);
     }
 
-    // Apply playback speed — scale BOTH tempo and timing windows.
-    // Without scaling the windows, slow practice is paradoxically harder:
-    // at 0.5x speed, msPerBeat doubles, so the same absolute ms tolerance
-    // represents half the beat-fraction → 2x tighter scoring.
-    if (playbackSpeed !== 1.0) {
-      const windowScale = 1 / playbackSpeed; // e.g. 0.5x → 2x wider windows
-      ex = {
-        ...ex,
-        settings: {
-          ...ex.settings,
-          tempo: Math.round(ex.settings.tempo * playbackSpeed),
-        },
-        scoring: {
-          ...ex.scoring,
-          timingToleranceMs: Math.round(ex.scoring.timingToleranceMs * windowScale),
-          timingGracePeriodMs: Math.round(ex.scoring.timingGracePeriodMs * windowScale),
-        },
-      };
-    }
+    return applyPlaybackSpeed(ex, playbackSpeed);
+  }, [rawExercise, playbackSpeed, assists, loopRegion, loopTempo]);
 
-    return ex;
-  }, [rawExercise, playbackSpeed, abilityConfig]);
+  // Only the learner's hand is shown and scored
+  const { exercise, autoPlayNotes } = useMemo(
+    () => splitHands(preparedExercise, practiceHand),
+    [preparedExercise, practiceHand],
+  );
+
+  const tempoTimeline = useMemo(() => createTempoTimeline(exercise.settings), [exercise.settings]);
 
   // ─── Exercise type branching ────────────────────────────────────────
   const exerciseType: ExerciseType = getExerciseType(exercise);
   const isSightReading = exerciseType === 'sightReading';
+  // Sight reading replaces the piano roll with the staff; elsewhere it's opt-in
+  const staffNotationSetting = useSettingsStore((s) => s.showStaffNotation);
+  const showStaffNotation = isSightReading || exercise.display?.showStaffNotation === true || staffNotationSetting;
 
   // Chord prompt state (chordId type)
   const currentChordName = useMemo(() => {
@@ -647,6 +699,15 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     setPlaybackSpeed(speeds[nextIdx]);
   }, [playbackSpeed, setPlaybackSpeed]);
 
+  const cyclePracticeHand = useCallback(() => {
+    const hands: PracticeHand[] = ['both', 'right', 'left'];
+    setPracticeHand(hands[(hands.indexOf(practiceHand) + 1) % hands.length]);
+  }, [practiceHand]);
+
+  const toggleWaitMode = useCallback(() => {
+    setWaitMode(!waitModeSetting);
+  }, [waitModeSetting, setWaitMode]);
+
   // Dynamic zoomed range — recomputes as playback advances
   const [keyboardRange, setKeyboardRange] = useState<KeyboardRange>(() => {
     return computeInitialKeyboardRange(exercise.notes);
@@ -687,6 +748,8 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   // Completion state (declared before useExercisePlayback so the callback is available)
   const [showCompletion, setShowCompletion] = useState(false);
   const [finalScore, setFinalScore] = useState<ExerciseScore | null>(null);
+  // Server-verified result of the last run, for challenges sent from the completion modal
+  const [verifiedPerformance, setVerifiedPerformance] = useState<VerifiedPerformance | null>(null);
 
   // Quick exercise card (between exercises in a lesson) — CompletionModal
   // now handles all completion scenarios for AI coaching, but ExerciseCard
@@ -730,7 +793,37 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
    * Handle exercise completion (called by useExercisePlayback hook)
    * Persists score, XP, streak, and lesson progress to the progress store
    */
-  const handleExerciseCompletion = useCallback((initialScore: ExerciseScore) => {
+  /**
+   * Wait-mode runs are pitch-only: they count as practice time and keep their
+   * own best score, but never touch high scores, stars, XP or lesson progress.
+   */
+  const [waitModeResult, setWaitModeResult] = useState<WaitModeResult | null>(null);
+  const handleWaitModeCompletion = useCallback((result: WaitModeResult) => {
+    if (!mountedRef.current) return;
+    const ex = exerciseRef.current;
+    const progressStore = useProgressStore.getState();
+    if (playbackStartTimeRef.current > 0) {
+      progressStore.recordPracticeSession(Math.max(1, Math.round((Date.now() - playbackStartTimeRef.current) / 60000)));
+    }
+    const isAiExercise = ex.id.startsWith('ai-') || ex.id.startsWith('tmpl-');
+    progressStore.recordWaitModeResult(isAiExercise && skillIdParam ? `ai-skill-${skillIdParam}` : ex.id, result.score);
+    setWaitModeResult(result);
+  }, [skillIdParam]);
+
+  /**
+   * One pass of an A/B loop: keep the attempt and ramp the tempo for the next
+   */
+  const handleLoopPass = useCallback((score: ExerciseScore) => {
+    if (!mountedRef.current || !loopRegion || !loopRamp) return;
+    useLearnerProfileStore.getState().recordLoopAttempt(rawExercise, loopRegion, loopRamp, {
+      tempo: loopTempo,
+      score: score.overall,
+      at: Date.now(),
+    });
+    setLoopTempo(nextLoopTempo(loopRamp, loopTempo, score.overall));
+  }, [rawExercise, loopRegion, loopRamp, loopTempo]);
+
+  const handleExerciseCompletion = useCallback((initialScore: ExerciseScore, performance?: RecordedPerformance) => {
     if (!mountedRef.current) return;
     let score = { ...initialScore };
 
@@ -738,6 +831,59 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     // (exercise loads async, but ref is always current)
     const ex = exerciseRef.current;
 
+    // The server re-scores lesson exercises from the notes and issues the XP,
+    // league XP and challenge scores. AI exercises, songs and loop practice
+    // aren't in its catalog and earn XP on this device only.
+    setVerifiedPerformance(null);
+    const signedInUser = useAuthStore.getState().user;
+    const verification = performance && !loopRegion && signedInUser && !signedInUser.isAnonymous &&
+      getLessonIdForExercise(ex.id)
+      ? submitPerformance({
+          exerciseId: ex.id,
+          exerciseVersion: ex.version,
+          notes: performance.notes,
+          pedalEvents: performance.pedalEvents,
+          playbackSpeed: useSettingsStore.getState().playbackSpeed,
+          practiceHand,
+          inputMethod: performance.inputMethod,
+          assists,
+          leagueId: useLeagueStore.getState().membership?.leagueId,
+        })
+      : null;
+    // A whole run with both hands, started from a class assignment, is a
+    // result for it. The score is taken before cat ability boosts.
+    const assignment = assignmentIdParam && !loopRegion && practiceHand === 'both'
+      ? useClassroomStore.getState().assignments.find((a) => a.id === assignmentIdParam)
+      : undefined;
+    if (assignment) {
+      const speed = useSettingsStore.getState().playbackSpeed;
+      const run: AssignmentResult = {
+        assignmentId: assignment.id,
+        classId: assignment.classId,
+        score: initialScore.overall,
+        playbackSpeed: speed,
+        tempo: scaleTempo(rawExercise.settings.tempo, speed),
+        playedAt: Date.now(),
+      };
+      const best = useClassroomStore.getState().recordAssignmentRun(assignment, run);
+      if (best === run && signedInUser && !signedInUser.isAnonymous) {
+        saveAssignmentResult(signedInUser.uid, run).catch((err) =>
+          logger.warn('[ExercisePlayer] Failed to save assignment result:', err));
+      }
+    }
+
+    verification?.then((result) => {
+      if ('error' in result) {
+        logger.warn('[ExercisePlayer] Performance not verified:', result.error);
+        return;
+      }
+      const membership = useLeagueStore.getState().membership;
+      if (membership && result.leagueXp > 0) {
+        useLeagueStore.getState().updateWeeklyXp(membership.weeklyXp + result.leagueXp);
+      }
+      if (mountedRef.current) setVerifiedPerformance(result);
+    });
+
     // Apply ability boosts BEFORE setting finalScore so CompletionModal shows
     // the correct (boosted) values. Previously setFinalScore ran before the boost,
     // causing the modal to display the raw score.
@@ -1056,6 +1202,14 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
       }
     }
 
+    // Schedule spaced-repetition reviews of the skills and, for content
+    // exercises (not generated or song ones), the exercise itself
+    useLearnerProfileStore.getState().recordReview(
+      getExercise(ex.id) ? ex.id : null,
+      skillNodes.map((node) => node.id),
+      score,
+    );
+
     // Record tier mastery test result when in testMode + aiMode
     if (testMode && skillIdParam) {
       const testSkillNode = getSkillById(skillIdParam);
@@ -1209,6 +1363,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
         weakNotes: profileState.weakNotes,
         skills: profileState.skills,
         tempoRange: profileState.tempoRange,
+        loopHistory: profileState.loopHistory,
       });
       if (weakPatterns.length > 0) {
         setBonusDrillPattern(weakPatterns[0]); // Use the worst pattern
@@ -1217,44 +1372,60 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
       logger.warn('[ExercisePlayer] Bonus drill detection failed:', err);
     }
 
-    // --- Friend challenge creation ---
+    // --- Friend challenge creation (with the server-verified score) ---
     if (challengeTarget) {
       const authUser = useAuthStore.getState().user;
       if (authUser) {
-        const challengeDoc = {
-          id: `challenge-${authUser.uid}-${challengeTarget.uid}-${Date.now()}`,
-          fromUid: authUser.uid,
-          fromDisplayName: authUser.displayName ?? 'Player',
-          fromCatId: useSettingsStore.getState().selectedCatId ?? 'mini-meowww',
-          toUid: challengeTarget.uid,
-          toDisplayName: challengeTarget.displayName ?? 'Opponent',
-          exerciseId: ex.id,
-          exerciseTitle: ex.metadata.title,
-          fromScore: score.overall,
-          toScore: null,
-          status: 'pending' as const,
-          createdAt: Date.now(),
-          expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24h
-        };
-        useSocialStore.getState().addChallenge(challengeDoc);
-        createChallenge(challengeDoc).catch((err) => {
-          logger.warn('[ExercisePlayer] Failed to create challenge:', err);
+        const target = challengeTarget;
+        (verification ?? Promise.resolve({ error: 'Exercise cannot be verified' })).then((result) => {
+          if ('error' in result) {
+            logger.warn('[ExercisePlayer] Challenge not sent without a verified score:', result.error);
+            return;
+          }
+          const challengeDoc = {
+            id: `challenge-${authUser.uid}-${target.uid}-${Date.now()}`,
+            fromUid: authUser.uid,
+            fromDisplayName: authUser.displayName ?? 'Player',
+            fromCatId: useSettingsStore.getState().selectedCatId ?? 'mini-meowww',
+            toUid: target.uid,
+            toDisplayName: target.displayName ?? 'Opponent',
+            exerciseId: ex.id,
+            exerciseTitle: ex.metadata.title,
+            fromScore: result.overall,
+            fromPerformanceId: result.performanceId,
+            ghost: result.ghost,
+            toScore: null,
+            status: 'pending' as const,
+            createdAt: Date.now(),
+            expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24h
+          };
+          useSocialStore.getState().addChallenge(challengeDoc);
+          createChallenge(challengeDoc).catch((err) => {
+            logger.warn('[ExercisePlayer] Failed to create challenge:', err);
+          });
         });
       }
     }
 
-    // --- Friend challenge response (receiver submitting their score) ---
+    // --- Friend challenge response (receiver submitting their verified score) ---
     if (friendChallengeId) {
-      updateChallengeResult(friendChallengeId, score.overall).catch((err) => {
-        logger.warn('[ExercisePlayer] Failed to submit challenge result:', err);
+      const challengeId = friendChallengeId;
+      (verification ?? Promise.resolve({ error: 'Exercise cannot be verified' })).then((result) => {
+        if ('error' in result) {
+          logger.warn('[ExercisePlayer] Challenge result not sent without a verified score:', result.error);
+          return;
+        }
+        updateChallengeResult(challengeId, result.overall, result.performanceId).catch((err) => {
+          logger.warn('[ExercisePlayer] Failed to submit challenge result:', err);
+        });
+        // Update local store so the challenge list shows the result
+        const { challenges, setChallenges } = useSocialStore.getState();
+        setChallenges(challenges.map((c) =>
+          c.id === challengeId
+            ? { ...c, toScore: result.overall, toPerformanceId: result.performanceId, status: 'completed' as const }
+            : c,
+        ));
       });
-      // Update local store so UI reflects completion immediately
-      const { challenges, setChallenges } = useSocialStore.getState();
-      setChallenges(challenges.map((c) =>
-        c.id === friendChallengeId
-          ? { ...c, toScore: score.overall, status: 'completed' as const }
-          : c,
-      ));
     }
 
     // Always show full CompletionModal with AI coaching, score ring, cat dialogue.
@@ -1266,7 +1437,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
         `Exercise complete! Score: ${score.overall}%`
       );
     }
-  }, [onExerciseComplete, abilityConfig, challengeTarget, friendChallengeId]);
+  }, [onExerciseComplete, abilityConfig, assists, practiceHand, loopRegion, challengeTarget, friendChallengeId, assignmentIdParam, rawExercise.settings.tempo]);
 
   // Metronome toggle — defaults to exercise setting, user can toggle during play
   const [metronomeOn, setMetronomeOn] = useState(exercise.settings.metronomeEnabled ?? true);
@@ -1290,12 +1461,17 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     activeInputMethod,
     lastExternalNoteRef,
     externalNoteCount,
+    isPedalDown,
   } = useExercisePlayback({
     exercise,
     onComplete: handleExerciseCompletion,
     enableMidi: true,
     enableAudio: true,
     metronomeEnabled: metronomeOn,
+    waitMode,
+    onWaitModeComplete: handleWaitModeCompletion,
+    onLoopPass: loopRegion ? handleLoopPass : undefined,
+    autoPlayNotes,
   });
 
   // UI state (separate from playback logic)
@@ -1483,6 +1659,47 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
   // References
   const feedbackTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const consumedNoteIndicesRef = useRef<Set<number>>(new Set());
+  // Live per-note status for staff notation colouring (note index → status)
+  const [liveNoteStatuses, setLiveNoteStatuses] = useState<Map<number, StaffNoteStatus>>(() => new Map());
+
+  // Unmatched notes turn 'missed' once they fall out of the ±1.5-beat match window.
+  // The count only grows as the playhead moves, so the map is rebuilt per missed note,
+  // not per frame.
+  const notesByStart = useMemo(
+    () => exercise.notes.map((_, i) => i).sort((a, b) => exercise.notes[a].startBeat - exercise.notes[b].startBeat),
+    [exercise.notes],
+  );
+  let passedNoteCount = 0;
+  if (showStaffNotation) {
+    while (
+      passedNoteCount < notesByStart.length &&
+      exercise.notes[notesByStart[passedNoteCount]].startBeat + 1.5 < effectiveBeat
+    ) {
+      passedNoteCount++;
+    }
+  }
+  const staffNoteStatuses = useMemo(() => {
+    const statuses = new Map(liveNoteStatuses);
+    for (const index of notesByStart.slice(0, passedNoteCount)) {
+      if (!statuses.has(index)) statuses.set(index, 'missed');
+    }
+    return statuses;
+  }, [liveNoteStatuses, notesByStart, passedNoteCount]);
+
+  // Friend challenge ghost race: the challenger's verified run, re-scored here
+  // and drawn over the piano roll. A loop has beats of its own, so no race there.
+  const raceChallenge = useSocialStore((s) =>
+    friendChallengeId ? s.challenges.find((c) => c.id === friendChallengeId) : undefined,
+  );
+  const ghostRun = useMemo(
+    () => (raceChallenge?.ghost && !loopRegion ? replayGhost(rawExercise, raceChallenge.ghost) : null),
+    [raceChallenge?.ghost, loopRegion, rawExercise],
+  );
+  const ghostReplayEntries = useMemo(
+    () => (ghostRun ? buildReplayEntries(ghostRun.score.details) : undefined),
+    [ghostRun],
+  );
+  const showRaceBadge = ghostRun != null && isPlaying && playerMode !== 'replay' && !waitMode;
   const shakeRef = useRef<ScreenShakeRef>(null);
 
   // Refs for values read inside the external-note effect to avoid stale closures.
@@ -1520,6 +1737,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     if (currentBeat < prevBeatRef.current - 1 && isPlaying) {
       // Beat jumped backward significantly — loop restarted
       consumedNoteIndicesRef.current.clear();
+      setLiveNoteStatuses(new Map());
       setComboCount(0);
       comboShieldUsedRef.current = 0;
       setHighlightedKeys(new Set());
@@ -1607,6 +1825,15 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     }
   }, [effectiveBeat, exercise.notes, testMode, keyboardMode, splitPoint]);
 
+  // Light the next notes on keyboards with guide LEDs while the learner plays
+  const lightNextNotes = isPlaying && !isDemoPlaying && playerMode === 'exercise';
+  useEffect(() => {
+    if (lightNextNotes) midiKeyboardOutput.showNextNotes(expectedNotes);
+    else midiKeyboardOutput.clearLights();
+  }, [lightNextNotes, expectedNotes]);
+
+  useEffect(() => () => midiKeyboardOutput.clearLights(), []);
+
   // Force keyboard range update when the next expected note is outside the current range
   useEffect(() => {
     if (nextExpectedNote === undefined) return;
@@ -1646,6 +1873,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
 
     playbackStartTimeRef.current = Date.now();
     consumedNoteIndicesRef.current.clear(); // Ensure no stale consumed indices from demo or prior partial play
+    setLiveNoteStatuses(new Map());
     startPlayback();
     setIsPaused(false);
     setComboCount(0);
@@ -1690,12 +1918,40 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     comboShieldUsedRef.current = 0;
     setFeedback({ type: null, noteIndex: -1, timestamp: 0, timingOffsetMs: 0 });
     consumedNoteIndicesRef.current.clear();
+    setLiveNoteStatuses(new Map());
 
     if (Platform.OS === 'web') {
       AccessibilityInfo.announceForAccessibility('Exercise restarted');
     }
   }, [resetPlayback]);
 
+  /**
+   * A/B loop markers: the first tap marks A at the current bar, the second
+   * marks B and starts looping the bars between, the third clears the loop
+   */
+  const handleLoopMarker = useCallback(() => {
+    if (loopRegion) {
+      setLoopRegion(null);
+      handleRestart();
+      return;
+    }
+    const beat = Math.max(0, currentBeat);
+    if (loopMarkerA === null) {
+      setLoopMarkerA(beat);
+      return;
+    }
+    const region = barRegion(rawExercise, loopMarkerA, beat);
+    setLoopMarkerA(null);
+    setLoopRegion(region);
+    setLoopTempo(createLoopRamp(rawExercise, region, { cleanScore: loopCleanScore }).startTempo);
+    handleRestart();
+  }, [loopRegion, loopMarkerA, currentBeat, rawExercise, loopCleanScore, handleRestart]);
+
+  const cycleLoopCleanScore = useCallback(() => {
+    const idx = LOOP_CLEAN_SCORES.indexOf(loopCleanScore);
+    setLoopCleanScore(LOOP_CLEAN_SCORES[(idx + 1) % LOOP_CLEAN_SCORES.length]);
+  }, [loopCleanScore, setLoopCleanScore]);
+
   /**
    * Start demo playback — pauses exercise, plays at full speed
    * Uses the audio engine singleton directly (not the playback hook bridge)
@@ -1710,6 +1966,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
 
     // Clear consumed note indices so retry after demo starts fresh
     consumedNoteIndicesRef.current.clear();
+    setLiveNoteStatuses(new Map());
     setComboCount(0);
 
     setIsDemoPlaying(true);
@@ -1810,7 +2067,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
       // Uses realtimeBeatRef (60fps) instead of currentBeat (throttled to 20fps)
       // for accurate timing classification.
       const realtimeBeat = realtimeBeatRef.current;
-      const msPerBeat = 60000 / exercise.settings.tempo;
+      const msPerBeat = tempoTimeline.msPerBeatAt(realtimeBeat);
 
       let bestMatch:
         | {
@@ -1867,6 +2124,9 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
           feedbackType = 'ok';
         }
 
+        const matchedIndex = bestMatch.index;
+        const matchedStatus = feedbackType;
+        setLiveNoteStatuses((prev) => new Map(prev).set(matchedIndex, matchedStatus));
         setComboCount((prev) => prev + 1);
         setFeedback({
           type: feedbackType,
@@ -1933,7 +2193,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
       isPaused,
       realtimeBeatRef,
       exercise.notes,
-      exercise.settings.tempo,
+      tempoTimeline,
       exercise.scoring.timingToleranceMs,
       exercise.scoring.timingGracePeriodMs,
       comboScale,
@@ -2008,7 +2268,7 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
       const toleranceMs = curExercise.scoring.timingToleranceMs * timingMul;
       const graceMs = curExercise.scoring.timingGracePeriodMs * timingMul;
       const realtimeBeat = realtimeBeatRef.current;
-      const msPerBeat = 60000 / curExercise.settings.tempo;
+      const msPerBeat = createTempoTimeline(curExercise.settings).msPerBeatAt(realtimeBeat);
 
       // Latency compensation: mic pipeline adds ~100ms delay, so by the time
       // the note event arrives, realtimeBeat has advanced past where the user
@@ -2044,6 +2304,9 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
         else if (beatDiffMs <= graceMs) feedbackType = bestMatch.beatDiffSigned < 0 ? 'early' : 'late';
         else feedbackType = 'ok';
 
+        const matchedIndex = bestMatch.index;
+        const matchedStatus = feedbackType;
+        setLiveNoteStatuses((prev) => new Map(prev).set(matchedIndex, matchedStatus));
         setComboCount((prev) => prev + 1);
         setFeedback({ type: feedbackType, noteIndex: bestMatch.index, timestamp: Date.now(), timingOffsetMs: bestMatch.beatDiffSigned * msPerBeat });
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
@@ -2124,6 +2387,38 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
     handleRestart();
   }, [handleRestart, exercise.id]);
 
+  // Wait-mode summary — a plain alert, since the completion modal is about timing and stars
+  useEffect(() => {
+    if (!waitModeResult) return;
+    const { score, notesHit, wrongNotes, cleanStops, totalStops } = waitModeResult;
+    Alert.alert(
+      `Wait mode: ${score}%`,
+      `${notesHit} notes found with ${wrongNotes} wrong ${wrongNotes === 1 ? 'key' : 'keys'}. ` +
+        `${cleanStops} of ${totalStops} played first time. Turn wait mode off to earn stars.`,
+      [
+        { text: 'Try again', onPress: () => { setWaitModeResult(null); handleRestart(); } },
+        { text: 'Done', onPress: () => { setWaitModeResult(null); handleExit(); } },
+      ],
+    );
+  }, [waitModeResult, handleRestart, handleExit]);
+
+  /**
+   * Share the exercise as a .mid file, with this attempt as an extra track
+   */
+  const handleExportMidi = useCallback(async () => {
+    // Scored notes are already beat-0 relative and latency compensated
+    const takeNotes = (finalScore?.details ?? [])
+      .map((d) => d.played)
+      .filter((n): n is NonNullable<typeof n> => n != null);
+    const title = exercise.metadata.title;
+    try {
+      const shared = await shareMidiFile(exerciseToMidiFile(exercise, { notes: takeNotes }), title);
+      if (!shared) Alert.alert('Sharing Unavailable', 'Sharing is not available on this device.');
+    } catch (e) {
+      logger.warn('[ExercisePlayer] MIDI export failed:', e);
+    }
+  }, [exercise, finalScore]);
+
   /**
    * Start replay mode — Salsa's coaching review of the exercise
    */
@@ -2646,6 +2941,70 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
               </Text>
             </PressableScale>
 
+            {/* Wait mode toggle */}
+            {!testMode && (
+              <PressableScale
+                onPress={toggleWaitMode}
+                style={[styles.speedPill, waitMode && styles.speedPillActive]}
+                testID="wait-mode-toggle"
+                accessibilityLabel={`Wait mode ${waitMode ? 'on' : 'off'}. Tap to change.`}
+                soundOnPress={false}
+              >
+                <Text style={[styles.speedPillText, waitMode && styles.speedPillTextActive]}>Wait</Text>
+              </PressableScale>
+            )}
+
+            {/* Hands-separate play-along */}
+            {canPlayHandsSeparately && (
+              <PressableScale
+                onPress={cyclePracticeHand}
+                style={[styles.speedPill, practiceHand !== 'both' && styles.speedPillActive]}
+                testID="practice-hand-selector"
+                accessibilityLabel={
+                  practiceHand === 'both'
+                    ? 'Playing both hands. Tap to play one hand along with the app.'
+                    : `Playing the ${practiceHand} hand. Tap to change.`
+                }
+                soundOnPress={false}
+              >
+                <Text style={[styles.speedPillText, practiceHand !== 'both' && styles.speedPillTextActive]}>
+                  {practiceHand === 'both' ? 'Both' : practiceHand === 'right' ? 'RH' : 'LH'}
+                </Text>
+              </PressableScale>
+            )}
+
+            {/* A/B loop markers */}
+            {!testMode && (
+              <PressableScale
+                onPress={handleLoopMarker}
+                style={[styles.speedPill, (loopRegion || loopMarkerA !== null) && styles.speedPillActive]}
+                testID="loop-marker-button"
+                accessibilityLabel={
+                  loopRegion
+                    ? `Looping at ${loopTempo} BPM. Tap to stop looping.`
+                    : loopMarkerA !== null ? 'Tap to set loop end' : 'Tap to set loop start'
+                }
+                soundOnPress={false}
+              >
+                <Text style={[styles.speedPillText, (loopRegion || loopMarkerA !== null) && styles.speedPillTextActive]}>
+                  {loopRegion ? `A-B ${loopTempo}` : loopMarkerA !== null ? 'B' : 'A'}
+                </Text>
+              </PressableScale>
+            )}
+
+            {/* Score a loop pass needs to speed up */}
+            {!testMode && loopRegion && (
+              <PressableScale
+                onPress={cycleLoopCleanScore}
+                style={styles.speedPill}
+                testID="loop-clean-score-button"
+                accessibilityLabel={`Passes scoring ${loopCleanScore} or more speed the loop up. Tap to change.`}
+                soundOnPress={false}
+              >
+                <Text style={styles.speedPillText}>{`≥${loopCleanScore}`}</Text>
+              </PressableScale>
+            )}
+
             {/* Demo button */}
             <PressableScale
               onPress={isDemoPlaying ? stopDemo : startDemo}
@@ -2679,6 +3038,20 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
           <SightReadingOverlay testID="sight-reading-badge" />
         )}
 
+        {/* Staff notation above the piano roll when turned on outside sight reading */}
+        {showStaffNotation && !isSightReading && (
+          <StaffNotation
+            notes={exercise.notes}
+            timeSignature={exercise.settings.timeSignature}
+            meterMap={exercise.settings.meterMap}
+            keySignature={exercise.settings.keySignature}
+            realtimeBeatRef={realtimeBeatRef}
+            width={screenWidth}
+            noteStatuses={staffNoteStatuses}
+            testID="exercise-staff-notation"
+          />
+        )}
+
         {/* Center: Vertical piano roll fills remaining vertical space */}
         <View style={styles.pianoRollContainer} onLayout={(e) => {
           setPianoRollDims({
@@ -2686,12 +3059,28 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
             height: e.nativeEvent.layout.height,
           });
         }}>
-          {pianoRollDims.width > 0 && (
+          {pianoRollDims.width > 0 && isSightReading && (
+            <View style={styles.sightReadingStaff}>
+              <StaffNotation
+                notes={exercise.notes}
+                timeSignature={exercise.settings.timeSignature}
+                meterMap={exercise.settings.meterMap}
+                keySignature={exercise.settings.keySignature}
+                realtimeBeatRef={realtimeBeatRef}
+                width={pianoRollDims.width}
+                noteStatuses={staffNoteStatuses}
+                testID="exercise-staff-notation"
+              />
+            </View>
+          )}
+          {pianoRollDims.width > 0 && !isSightReading && (
             <VerticalPianoRoll
               notes={exercise.notes}
               currentBeat={effectiveBeat}
               tempo={exercise.settings.tempo}
               timeSignature={exercise.settings.timeSignature}
+              tempoMap={exercise.settings.tempoMap}
+              meterMap={exercise.settings.meterMap}
               containerWidth={pianoRollDims.width}
               containerHeight={pianoRollDims.height}
               midiMin={keyboardStartNote}
@@ -2700,9 +3089,23 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
               ghostBeatOffset={2}
               timingGracePeriodMs={exercise.scoring.timingGracePeriodMs}
               noteColorOverrides={replayNoteColors}
+              pedal={exercise.pedal}
+              isPedalDown={isPedalDown}
+              raceGhostNotes={ghostRun && !isDemoPlaying ? ghostRun.notes : undefined}
               testID="exercise-piano-roll"
             />
           )}
+          {/* Live score against the friend challenge's ghost */}
+          {showRaceBadge && (
+            <View style={styles.raceBadgeOverlay}>
+              <GhostRaceBadge
+                playerScore={raceScore(exercise.notes, liveNoteStatuses, effectiveBeat)}
+                ghostScore={raceScore(ghostRun.expectedNotes, ghostRun.statuses, effectiveBeat)}
+                rivalName={raceChallenge?.fromDisplayName ?? 'Rival'}
+                testID="ghost-race-badge"
+              />
+            </View>
+          )}
           {/* Buddy cat companion — floating in corner */}
           {isPlaying && (
             <View style={styles.buddyOverlay}>
@@ -2950,6 +3353,8 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
           onBonusDrill={bonusDrillPattern ? handleBonusDrill : undefined}
           bonusDrillDescription={bonusDrillPattern?.description}
           challengeSentTo={challengeTarget?.displayName}
+          verifiedPerformance={verifiedPerformance}
+          onExportMidi={handleExportMidi}
         />
       )}
 
@@ -2982,6 +3387,8 @@ export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({
             onSeek={handleReplaySeek}
             isPaused={replayPaused}
             onTogglePlayPause={handleReplayToggle}
+            rivalEntries={ghostReplayEntries}
+            rivalName={raceChallenge?.fromDisplayName}
           />
 
           {/* Replay coaching overlay (pill or card) */}
@@ -3096,12 +3503,24 @@ const styles = StyleSheet.create({
     marginTop: 4,
     marginHorizontal: 4,
   },
+  sightReadingStaff: {
+    flex: 1,
+    justifyContent: 'center',
+  },
   buddyOverlay: {
     position: 'absolute',
     top: 4,
     right: 8,
     zIndex: 10,
   },
+  raceBadgeOverlay: {
+    position: 'absolute',
+    top: 4,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 10,
+  },
   feedbackOverlay: {
     height: 40,
     flexDirection: 'row',
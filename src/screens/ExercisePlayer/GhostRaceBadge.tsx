@@ -0,0 +1,75 @@
+/**
+ * GhostRaceBadge
+ *
+ * Live score comparison while racing a friend challenge's ghost. Both
+ * scores come from raceScore() over the notes already played, so they
+ * stay comparable mid-exercise; '—' until the first note has counted.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, glowColor } from '../../theme/tokens';
+
+export interface GhostRaceBadgeProps {
+  playerScore: number | null;
+  ghostScore: number | null;
+  /** The challenger's display name */
+  rivalName: string;
+  testID?: string;
+}
+
+export function GhostRaceBadge({
+  playerScore,
+  ghostScore,
+  rivalName,
+  testID,
+}: GhostRaceBadgeProps): React.JSX.Element {
+  const ahead = playerScore != null && ghostScore != null && playerScore > ghostScore;
+  const behind = playerScore != null && ghostScore != null && playerScore < ghostScore;
+
+  return (
+    <View style={styles.badge} testID={testID}>
+      <Text style={[styles.score, ahead && styles.leading]} testID={testID ? `${testID}-player` : undefined}>
+        You {playerScore ?? '—'}
+      </Text>
+      <Text style={styles.vs}>vs</Text>
+      <Text
+        style={[styles.score, styles.rival, behind && styles.leading]}
+        numberOfLines={1}
+        testID={testID ? `${testID}-ghost` : undefined}
+      >
+        {rivalName} {ghostScore ?? '—'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    backgroundColor: glowColor(COLORS.feedbackLate, 0.12),
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: glowColor(COLORS.feedbackLate, 0.35),
+    gap: SPACING.xs,
+  },
+  score: {
+    ...TYPOGRAPHY.special.badge,
+    color: COLORS.textSecondary,
+  },
+  rival: {
+    color: COLORS.feedbackLate,
+    maxWidth: 120,
+  },
+  leading: {
+    color: COLORS.success,
+  },
+  vs: {
+    ...TYPOGRAPHY.caption.sm,
+    color: COLORS.textMuted,
+  },
+});
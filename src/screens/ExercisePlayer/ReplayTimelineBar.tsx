@@ -48,6 +48,10 @@ interface ReplayTimelineBarProps {
   isPaused: boolean;
   /** Called when play/pause is toggled */
   onTogglePlayPause: () => void;
+  /** Challenger's notes in a friend challenge, shown as a second row of dots */
+  rivalEntries?: ReplayScheduleEntry[];
+  /** Label for the challenger's row */
+  rivalName?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -74,6 +78,8 @@ export function ReplayTimelineBar({
   onSeek,
   isPaused,
   onTogglePlayPause,
+  rivalEntries,
+  rivalName,
 }: ReplayTimelineBarProps): React.JSX.Element {
   const trackWidthRef = useRef(0);
   const [trackWidth, setTrackWidth] = useState(0);
@@ -131,7 +137,7 @@ export function ReplayTimelineBar({
   // ---- render ----
 
   return (
-    <View style={styles.container}>
+    <View style={[styles.container, rivalEntries && styles.containerWithRival]}>
       {/* Row 1: play/pause button + track */}
       <View style={styles.topRow}>
         <PressableScale
@@ -174,7 +180,9 @@ export function ReplayTimelineBar({
       {/* Row 2: colored note dots */}
       <View style={styles.dotsRow}>
         {/* Spacer matching play/pause button width */}
-        <View style={styles.playPauseSpacer} />
+        <View style={styles.playPauseSpacer}>
+          {rivalEntries && <Text style={styles.rowLabel}>You</Text>}
+        </View>
 
         <View style={styles.dotsContainer}>
           {entries.map((entry, idx) => {
@@ -213,6 +221,33 @@ export function ReplayTimelineBar({
         </View>
       </View>
 
+      {/* Row 2b: the challenger's dots, side by side with the player's */}
+      {rivalEntries && (
+        <View style={styles.dotsRow} testID="rival-dots-row">
+          <View style={styles.playPauseSpacer}>
+            <Text style={styles.rowLabel} numberOfLines={1}>
+              {rivalName ?? 'Rival'}
+            </Text>
+          </View>
+
+          <View style={styles.dotsContainer}>
+            {rivalEntries.map((entry, idx) => (
+              <View
+                key={`rival-dot-${idx}`}
+                testID="rival-note-dot"
+                style={[
+                  styles.dot,
+                  {
+                    left: beatToX(entry.note.startBeat, trackWidth) - DOT_SIZE / 2,
+                    backgroundColor: COLOR_MAP[entry.color] ?? COLOR_MAP.grey,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Row 3: time labels */}
       <View style={styles.timeRow}>
         {/* Spacer matching play/pause button width */}
@@ -241,6 +276,9 @@ const styles = StyleSheet.create({
     paddingVertical: SPACING.xs,
     justifyContent: 'center',
   },
+  containerWithRival: {
+    height: 56 + DOT_SIZE + 2,
+  },
 
   // ---- top row (play + track) ----
   topRow: {
@@ -299,6 +337,12 @@ const styles = StyleSheet.create({
   },
   playPauseSpacer: {
     width: PLAY_PAUSE_WIDTH + SPACING.sm, // button + margin
+    justifyContent: 'center',
+  },
+  rowLabel: {
+    color: COLORS.textMuted,
+    fontSize: 8,
+    lineHeight: DOT_SIZE + 2,
   },
   dotsContainer: {
     flex: 1,
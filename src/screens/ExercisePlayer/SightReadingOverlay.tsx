@@ -2,9 +2,9 @@
  * SightReadingOverlay
  *
  * For 'sightReading' exercises. Renders a small badge at the top
- * of the exercise area. The actual note-hiding logic is handled
- * by passing `showLabels={false}` to the Keyboard component from
- * ExercisePlayer — this component is the visual indicator only.
+ * of the exercise area. ExercisePlayer swaps the piano roll for the
+ * StaffNotation grand staff and passes `showLabels={false}` to the
+ * Keyboard — this component is the visual indicator only.
  */
 
 import React from 'react';
@@ -446,6 +446,32 @@ describe('CompletionModal', () => {
     expect(queryByTestId('completion-next')).toBeNull();
   });
 
+  it('shows Export MIDI button only when onExportMidi is provided', () => {
+    const onExportMidi = jest.fn();
+    const { getByTestId, rerender, queryByTestId } = render(
+      <CompletionModal
+        score={mockPassingScore}
+        exercise={MOCK_EXERCISE}
+        onClose={jest.fn()}
+        onExportMidi={onExportMidi}
+        skipAnimation
+      />
+    );
+
+    fireEvent.press(getByTestId('completion-export-midi'));
+    expect(onExportMidi).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <CompletionModal
+        score={mockPassingScore}
+        exercise={MOCK_EXERCISE}
+        onClose={jest.fn()}
+        skipAnimation
+      />
+    );
+    expect(queryByTestId('completion-export-midi')).toBeNull();
+  });
+
   // 8. Mastery test button appears when onStartTest provided
   it('shows mastery test button when onStartTest is provided and passed', () => {
     const onStartTest = jest.fn();
@@ -8,6 +8,7 @@ import React from 'react';
 import { render, fireEvent, act } from '@testing-library/react-native';
 import { ExercisePlayer } from '../ExercisePlayer';
 import type { Exercise } from '../../../core/exercises/types';
+import type { StaffNotationProps } from '../../../components/StaffNotation/StaffNotation';
 
 // ---------------------------------------------------------------------------
 // Mock dependencies
@@ -132,6 +133,16 @@ jest.mock('../../../components/PianoRoll/VerticalPianoRoll', () => ({
   },
 }));
 
+// Mock StaffNotation — captures props for assertion
+let capturedStaffProps = {} as StaffNotationProps;
+jest.mock('../../../components/StaffNotation/StaffNotation', () => ({
+  StaffNotation: (props: StaffNotationProps) => {
+    capturedStaffProps = props;
+    const { View } = require('react-native');
+    return <View testID={props.testID} />;
+  },
+}));
+
 jest.mock('../../../components/Keyboard/computeZoomedRange', () => ({
   computeZoomedRange: (_notes: number[]) => ({ startNote: 48, octaveCount: 2 }),
   computeStickyRange: (_notes: number[], range: any) => range,
@@ -148,6 +159,11 @@ jest.mock('../../../services/demoPlayback', () => ({
   })),
 }));
 
+// Mock MIDI export (expo-sharing / expo-file-system are native modules)
+jest.mock('../../../services/midiExport', () => ({
+  shareMidiFile: jest.fn().mockResolvedValue(true),
+}));
+
 // Mock common Button component (uses react-native-reanimated)
 jest.mock('../../../components/common/Button', () => ({
   Button: (props: any) => {
@@ -258,13 +274,17 @@ const mockSettingsState = {
   dailyGoalMinutes: 15,
   playbackSpeed: 0.75,
   setPlaybackSpeed: jest.fn(),
+  loopCleanScore: 90,
+  setLoopCleanScore: jest.fn(),
   lastMidiDeviceId: null,
   preferredHand: 'right',
+  instruments: { user: 'piano', accompaniment: 'piano', demo: 'piano' },
+  setInstrument: jest.fn(),
 };
 jest.mock('../../../stores/settingsStore', () => ({
   useSettingsStore: Object.assign(
     (sel?: any) => sel ? sel(mockSettingsState) : mockSettingsState,
-    { getState: () => mockSettingsState }
+    { getState: () => mockSettingsState, subscribe: () => () => {} }
   ),
 }));
 
@@ -287,12 +307,13 @@ const mockLearnerProfileState = {
   updateSkill: jest.fn(),
   addRecentExercise: jest.fn(),
   markSkillMastered: jest.fn(),
+  recordReview: jest.fn(),
   reset: jest.fn(),
 };
 jest.mock('../../../stores/learnerProfileStore', () => ({
   useLearnerProfileStore: Object.assign(
     (sel?: any) => sel ? sel(mockLearnerProfileState) : mockLearnerProfileState,
-    { getState: () => mockLearnerProfileState }
+    { getState: () => mockLearnerProfileState, setState: jest.fn() }
   ),
 }));
 
@@ -300,6 +321,7 @@ jest.mock('../../../stores/learnerProfileStore', () => ({
 jest.mock('../../../components/Mascot/catCharacters', () => ({
   CAT_CHARACTERS: [{ id: 'mini-meowww', name: 'Mini Meowww', abilities: [] }],
   getCatById: jest.fn(() => ({ id: 'mini-meowww', name: 'Mini Meowww', abilities: [] })),
+  getOwnedCats: jest.fn(() => []),
   getUnlockedCats: jest.fn(() => []),
 }));
 
@@ -367,6 +389,7 @@ jest.mock('../../../core/curriculum/SkillTree', () => ({
   getSkillsForExercise: jest.fn(() => []),
   getSkillById: jest.fn(() => null),
   getGenerationHints: jest.fn(() => null),
+  SKILL_TREE: [],
 }));
 
 // Mock tierMasteryTest
@@ -1100,6 +1123,48 @@ describe('ExercisePlayer', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Staff notation
+  // -----------------------------------------------------------------------
+
+  describe('Staff notation', () => {
+    it('replaces the piano roll with the grand staff for sight reading', () => {
+      const exercise = { ...MOCK_EXERCISE, type: 'sightReading' as const };
+      const { getByTestId, queryByTestId } = render(<ExercisePlayer exercise={exercise} />);
+
+      expect(getByTestId('exercise-staff-notation')).toBeTruthy();
+      expect(queryByTestId('exercise-piano-roll')).toBeNull();
+      expect(capturedStaffProps.notes).toEqual(MOCK_EXERCISE.notes);
+      expect(capturedStaffProps.keySignature).toBe(MOCK_EXERCISE.settings.keySignature);
+    });
+
+    it('marks notes missed once they are past the match window', () => {
+      mockPlaybackState.currentBeat = 10;
+      const { useExercisePlayback } = require('../../../hooks/useExercisePlayback');
+      useExercisePlayback.mockImplementation(() => mockPlaybackState);
+
+      render(<ExercisePlayer exercise={{ ...MOCK_EXERCISE, type: 'sightReading' as const }} />);
+
+      const statuses = capturedStaffProps.noteStatuses!;
+      MOCK_EXERCISE.notes.forEach((note, i) => {
+        expect(statuses.get(i)).toBe(note.startBeat + 1.5 < 10 ? 'missed' : undefined);
+      });
+    });
+
+    it('shows the staff above the piano roll when the exercise asks for it', () => {
+      const exercise = { ...MOCK_EXERCISE, display: { ...MOCK_EXERCISE.display, showStaffNotation: true } };
+      const { getByTestId } = render(<ExercisePlayer exercise={exercise as typeof MOCK_EXERCISE} />);
+
+      expect(getByTestId('exercise-staff-notation')).toBeTruthy();
+      expect(getByTestId('exercise-piano-roll')).toBeTruthy();
+    });
+
+    it('does not render the staff for regular exercises', () => {
+      const { queryByTestId } = render(<ExercisePlayer exercise={MOCK_EXERCISE} />);
+      expect(queryByTestId('exercise-staff-notation')).toBeNull();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Keyboard prop passing
   // -----------------------------------------------------------------------
@@ -1177,6 +1242,53 @@ describe('ExercisePlayer', () => {
         })
       );
     });
+
+    it('records a run started from an assignment as its result', () => {
+      const route = jest.spyOn(require('@react-navigation/native'), 'useRoute').mockReturnValue({
+        params: { exerciseId: 'test-exercise', assignmentId: 'a1' },
+      });
+      const { useClassroomStore } = require('../../../stores/classroomStore');
+      useClassroomStore.setState({
+        assignments: [{
+          id: 'a1', classId: 'class-1', title: 'Test Exercise', target: { kind: 'exercise', exerciseId: 'test-exercise' },
+          dueDate: '2026-10-20', targetTempo: 90, assignedAt: 1000,
+        }],
+        assignmentResults: {},
+      });
+
+      render(<ExercisePlayer exercise={MOCK_EXERCISE} />);
+      const { useExercisePlayback } = require('../../../hooks/useExercisePlayback');
+      const { onComplete } = useExercisePlayback.mock.calls[useExercisePlayback.mock.calls.length - 1][0];
+      act(() => {
+        onComplete({
+          overall: 82, stars: 1, details: [], xpEarned: 10, isNewHighScore: false, isPassed: true,
+          breakdown: { accuracy: 90, timing: 80, completeness: 100, extraNotes: 0, duration: 80 },
+        });
+      });
+      route.mockRestore();
+
+      // Written at 120 BPM and played at the mocked 0.75x
+      expect(useClassroomStore.getState().assignmentResults.a1).toEqual(expect.objectContaining({
+        assignmentId: 'a1', score: 82, playbackSpeed: 0.75, tempo: 90,
+      }));
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // A/B loop
+  // -----------------------------------------------------------------------
+
+  describe('A/B loop', () => {
+    it('lets the learner change the score a pass needs to speed the loop up', () => {
+      const { getByTestId, queryByTestId } = render(<ExercisePlayer exercise={MOCK_EXERCISE} />);
+      expect(queryByTestId('loop-clean-score-button')).toBeNull();
+
+      fireEvent.press(getByTestId('loop-marker-button'));
+      fireEvent.press(getByTestId('loop-marker-button'));
+      fireEvent.press(getByTestId('loop-clean-score-button'));
+
+      expect(mockSettingsState.setLoopCleanScore).toHaveBeenCalledWith(95);
+    });
   });
 
   // -----------------------------------------------------------------------
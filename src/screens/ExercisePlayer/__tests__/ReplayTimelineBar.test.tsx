@@ -70,6 +70,17 @@ describe('ReplayTimelineBar', () => {
     expect(diamonds).toHaveLength(pausePoints.length);
   });
 
+  it('shows the challenger\'s notes in a second row', () => {
+    const { getAllByTestId, getByText, queryByTestId, rerender } = render(<ReplayTimelineBar {...defaultProps} />);
+    expect(queryByTestId('rival-dots-row')).toBeNull();
+
+    rerender(<ReplayTimelineBar {...defaultProps} rivalEntries={entries.slice(0, 2)} rivalName="Mochi" />);
+    expect(getAllByTestId('rival-note-dot')).toHaveLength(2);
+    expect(getAllByTestId('note-dot')).toHaveLength(entries.length);
+    expect(getByText('Mochi')).toBeTruthy();
+    expect(getByText('You')).toBeTruthy();
+  });
+
   it('renders with zero entries without crashing', () => {
     const { queryAllByTestId } = render(
       <ReplayTimelineBar {...defaultProps} entries={[]} pausePoints={[]} />
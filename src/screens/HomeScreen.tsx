@@ -178,6 +178,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
         masteredSkills: profile.masteredSkills,
         skillMasteryData: profile.skillMasteryData,
         recentExerciseIds: profile.recentExerciseIds,
+        reviewSchedule: profile.reviewSchedule,
       },
       profile.masteredSkills,
     );
@@ -0,0 +1,425 @@
+/**
+ * LatencyCalibrationScreen — measures input latency on this device
+ *
+ * Plays a steady click and times the responses: the learner taps the pad or
+ * plays any key along with it, or (microphone only) the app listens for its
+ * own clicks through the mic. The measured delay replaces the built-in
+ * compensation for the active input, per keyboard for MIDI and per phone for
+ * touch and mic.
+ */
+
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  Pressable,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS, GRADIENTS, glowColor } from '../theme/tokens';
+import { PressableScale } from '../components/common/PressableScale';
+import { GradientMeshBackground } from '../components/effects';
+import { useSettingsStore } from '../stores/settingsStore';
+import { createAudioEngine } from '../audio/createAudioEngine';
+import { configureAudioSessionForRecording } from '../input/AudioCapture';
+import { InputManager, INPUT_LATENCY_COMPENSATION_MS } from '../input/InputManager';
+import type { ActiveInputMethod } from '../input/InputManager';
+import MidiDeviceManager from '../input/MidiDevice';
+import {
+  CALIBRATION_CLICKS,
+  CALIBRATION_INTERVAL_MS,
+  LEAD_IN_CLICKS,
+  latencyProfileFor,
+  measureLatency,
+  type LatencyMeasurement,
+} from '../input/LatencyCalibration';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import { logger } from '../utils/logger';
+
+type NavProp = NativeStackNavigationProp<RootStackParamList>;
+
+type CalibrationStep = 'loading' | 'intro' | 'running' | 'result' | 'failed';
+
+/** 'tap': the learner plays along; 'loopback': the mic hears the app's own clicks */
+type CalibrationMode = 'tap' | 'loopback';
+
+/** Loopback clicks are a short high C, which the mic's pitch detector picks up reliably */
+const LOOPBACK_NOTE = 84;
+const LOOPBACK_NOTE_MS = 150;
+
+const METHOD_LABELS: Record<ActiveInputMethod, string> = {
+  midi: 'MIDI keyboard',
+  mic: 'Microphone',
+  touch: 'Touch screen',
+};
+
+export function LatencyCalibrationScreen() {
+  const navigation = useNavigation<NavProp>();
+  const micDetectionMode = useSettingsStore((s) => s.micDetectionMode);
+  const inputLatencyOffsets = useSettingsStore((s) => s.inputLatencyOffsets);
+  const setInputLatencyOffset = useSettingsStore((s) => s.setInputLatencyOffset);
+
+  const [step, setStep] = useState<CalibrationStep>('loading');
+  const [method, setMethod] = useState<ActiveInputMethod>('touch');
+  const [mode, setMode] = useState<CalibrationMode>('tap');
+  const [clickCount, setClickCount] = useState(0);
+  const [measurement, setMeasurement] = useState<LatencyMeasurement | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [midiDeviceId, setMidiDeviceId] = useState<string | null>(null);
+  // MIDI offsets live in MidiDeviceManager, outside React state
+  const [midiOffset, setMidiOffset] = useState<number | null>(null);
+
+  const audioEngineRef = useRef(createAudioEngine());
+  const inputManagerRef = useRef<InputManager | null>(null);
+  const clickTimesRef = useRef<number[]>([]);
+  const responseTimesRef = useRef<number[]>([]);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const runningRef = useRef(false);
+
+  const stopClicks = useCallback(() => {
+    runningRef.current = false;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    let unsubscribe: (() => void) | null = null;
+    const audioEngine = audioEngineRef.current;
+
+    const init = async () => {
+      const preferredInput = useSettingsStore.getState().preferredInputMethod ?? 'auto';
+      try {
+        if (preferredInput === 'mic' || preferredInput === 'auto') {
+          configureAudioSessionForRecording();
+        }
+        if (!audioEngine.isReady()) {
+          await audioEngine.initialize();
+        }
+      } catch (error) {
+        logger.warn('[LatencyCalibration] Audio init failed:', error);
+      }
+
+      try {
+        const manager = new InputManager({ preferred: preferredInput });
+        inputManagerRef.current = manager;
+        await manager.initialize();
+        if (!mounted) {
+          manager.dispose();
+          inputManagerRef.current = null;
+          return;
+        }
+        await manager.start();
+
+        // Same clocks as useExercisePlayback: mic events carry their own timestamp,
+        // MIDI hardware clocks differ so they are stamped on arrival
+        unsubscribe = manager.onNoteEvent((event) => {
+          if (!runningRef.current || event.type !== 'noteOn') return;
+          responseTimesRef.current.push(event.inputSource === 'mic' ? event.timestamp : Date.now());
+        });
+        setMethod(manager.activeMethod);
+        setMidiDeviceId(manager.midiDeviceId);
+        setMidiOffset(manager.midiDeviceId ? MidiDeviceManager.getLatencyOffset(manager.midiDeviceId) : null);
+      } catch (error) {
+        logger.warn('[LatencyCalibration] InputManager init failed:', error);
+      }
+      if (mounted) setStep('intro');
+    };
+
+    init();
+
+    return () => {
+      mounted = false;
+      stopClicks();
+      unsubscribe?.();
+      inputManagerRef.current?.dispose();
+      inputManagerRef.current = null;
+      try {
+        audioEngine.releaseAllNotes();
+      } catch {
+        // Audio cleanup is best-effort.
+      }
+    };
+  }, [stopClicks]);
+
+  const profile = latencyProfileFor(method, micDetectionMode);
+  const calibratedOffset = profile === 'midi' ? midiOffset : inputLatencyOffsets[profile] ?? null;
+  const currentOffset = calibratedOffset ?? INPUT_LATENCY_COMPENSATION_MS[profile];
+
+  const finishRun = useCallback((runMode: CalibrationMode) => {
+    stopClicks();
+    inputManagerRef.current?.setMicAppOutputSuppression(true);
+    const result = measureLatency(
+      clickTimesRef.current,
+      responseTimesRef.current,
+      runMode === 'loopback' ? 0 : LEAD_IN_CLICKS,
+    );
+    if ('error' in result) {
+      setErrorMessage(result.error);
+      setStep('failed');
+      return;
+    }
+    logger.log(`[LatencyCalibration] ${runMode} measured ${result.offsetMs}ms (±${result.jitterMs}ms, ${result.matched} clicks)`);
+    setMeasurement(result);
+    setStep('result');
+  }, [stopClicks]);
+
+  const startRun = useCallback((runMode: CalibrationMode) => {
+    clickTimesRef.current = [];
+    responseTimesRef.current = [];
+    setMode(runMode);
+    setClickCount(0);
+    setMeasurement(null);
+    setErrorMessage(null);
+    setStep('running');
+    runningRef.current = true;
+    // Loopback listens for the app's own note, which the mic drops as echo by default
+    inputManagerRef.current?.setMicAppOutputSuppression(runMode !== 'loopback');
+
+    const engine = audioEngineRef.current;
+    const startAt = Date.now() + CALIBRATION_INTERVAL_MS;
+    const scheduleClick = (index: number) => {
+      if (index >= CALIBRATION_CLICKS) {
+        // Leave time for the last response to arrive
+        timerRef.current = setTimeout(() => finishRun(runMode), CALIBRATION_INTERVAL_MS / 2);
+        return;
+      }
+      // Scheduled against the start time so timer drift doesn't accumulate
+      timerRef.current = setTimeout(() => {
+        if (!runningRef.current) return;
+        clickTimesRef.current.push(Date.now());
+        setClickCount(index + 1);
+        if (runMode === 'loopback') {
+          const handle = engine.playNote(LOOPBACK_NOTE, 0.9);
+          setTimeout(() => engine.releaseNote(handle), LOOPBACK_NOTE_MS);
+        } else {
+          engine.playMetronomeClick(index % 4 === 0 ? 1500 : 1000, 0.8);
+        }
+        scheduleClick(index + 1);
+      }, Math.max(0, startAt + index * CALIBRATION_INTERVAL_MS - Date.now()));
+    };
+    scheduleClick(0);
+  }, [finishRun]);
+
+  const handleTap = useCallback(() => {
+    if (runningRef.current && method === 'touch') responseTimesRef.current.push(Date.now());
+  }, [method]);
+
+  const saveOffset = useCallback((offsetMs: number | null) => {
+    if (profile === 'midi') {
+      if (!midiDeviceId) return;
+      MidiDeviceManager.setLatencyOffset(midiDeviceId, offsetMs);
+      setMidiOffset(offsetMs);
+    } else {
+      setInputLatencyOffset(profile, offsetMs);
+    }
+  }, [profile, midiDeviceId, setInputLatencyOffset]);
+
+  const handleSave = useCallback(() => {
+    if (!measurement) return;
+    saveOffset(measurement.offsetMs);
+    navigation.goBack();
+  }, [measurement, saveOffset, navigation]);
+
+  const handleGoBack = useCallback(() => {
+    stopClicks();
+    navigation.goBack();
+  }, [stopClicks, navigation]);
+
+  const leadInRemaining = mode === 'tap' ? Math.max(0, LEAD_IN_CLICKS - clickCount) : 0;
+
+  return (
+    <SafeAreaView style={styles.container} testID="latency-calibration-screen">
+      <GradientMeshBackground accent="profile" />
+      <LinearGradient
+        colors={[GRADIENTS.header[0], GRADIENTS.header[1], COLORS.background]}
+        style={styles.header}
+      >
+        <View style={styles.headerRow}>
+          <PressableScale onPress={handleGoBack} style={styles.backButton}>
+            <MaterialCommunityIcons name="arrow-left" size={24} color={COLORS.textPrimary} />
+          </PressableScale>
+          <Text style={styles.title}>Input Timing</Text>
+          <View style={styles.backButton} />
+        </View>
+      </LinearGradient>
+
+      <View style={styles.content}>
+        {step === 'loading' && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+            <Text style={styles.body}>Getting your input ready...</Text>
+          </View>
+        )}
+
+        {step === 'intro' && (
+          <>
+            <View style={styles.iconCircle}>
+              <MaterialCommunityIcons name="timer-outline" size={48} color={COLORS.primary} />
+            </View>
+            <Text style={styles.heading}>{METHOD_LABELS[method]}</Text>
+            <Text style={styles.body}>
+              {calibratedOffset != null
+                ? `Calibrated: ${currentOffset}ms delay.`
+                : `Using the typical ${currentOffset}ms delay for this input.`}
+              {' '}Every device is a little different. Play along with {CALIBRATION_CLICKS} clicks
+              and notes will be timed from when you actually played them.
+            </Text>
+
+            <PressableScale
+              style={styles.primaryButton}
+              onPress={() => startRun('tap')}
+              testID="latency-calibration-tap"
+            >
+              <MaterialCommunityIcons name="gesture-tap" size={20} color={COLORS.textPrimary} />
+              <Text style={styles.primaryButtonText}>Play Along</Text>
+            </PressableScale>
+
+            {method === 'mic' && (
+              <PressableScale
+                style={styles.secondaryButton}
+                onPress={() => startRun('loopback')}
+                testID="latency-calibration-loopback"
+              >
+                <Text style={styles.secondaryButtonText}>Listen for the App's Own Clicks</Text>
+              </PressableScale>
+            )}
+
+            {calibratedOffset != null && (
+              <PressableScale
+                style={styles.secondaryButton}
+                onPress={() => saveOffset(null)}
+                testID="latency-calibration-reset"
+              >
+                <Text style={styles.secondaryButtonText}>Reset to Default</Text>
+              </PressableScale>
+            )}
+          </>
+        )}
+
+        {step === 'running' && (
+          <>
+            <Text style={styles.heading}>
+              {mode === 'loopback'
+                ? 'Stay quiet and keep the phone near the speaker'
+                : leadInRemaining > 0
+                  ? `Listen... ${leadInRemaining}`
+                  : method === 'touch' ? 'Tap with each click' : 'Play any key with each click'}
+            </Text>
+            <Text style={styles.body}>{clickCount} / {CALIBRATION_CLICKS}</Text>
+            {method === 'touch' && mode === 'tap' && (
+              <Pressable onPressIn={handleTap} style={styles.tapPad} testID="latency-calibration-pad">
+                <MaterialCommunityIcons name="gesture-tap" size={48} color={COLORS.textPrimary} />
+              </Pressable>
+            )}
+          </>
+        )}
+
+        {step === 'result' && measurement && (
+          <>
+            <View style={[styles.iconCircle, { backgroundColor: glowColor(COLORS.success, 0.15) }]}>
+              <MaterialCommunityIcons name="check-circle" size={48} color={COLORS.success} />
+            </View>
+            <Text style={styles.heading}>{measurement.offsetMs}ms delay</Text>
+            <Text style={styles.body}>
+              Measured over {measurement.matched} clicks, give or take {measurement.jitterMs}ms.
+              {' '}Currently using {currentOffset}ms.
+            </Text>
+            <PressableScale
+              style={styles.primaryButton}
+              onPress={handleSave}
+              testID="latency-calibration-save"
+            >
+              <Text style={styles.primaryButtonText}>Use This Timing</Text>
+            </PressableScale>
+            <PressableScale style={styles.secondaryButton} onPress={() => startRun(mode)}>
+              <Text style={styles.secondaryButtonText}>Try Again</Text>
+            </PressableScale>
+          </>
+        )}
+
+        {step === 'failed' && (
+          <>
+            <View style={[styles.iconCircle, { backgroundColor: glowColor(COLORS.primary, 0.15) }]}>
+              <MaterialCommunityIcons name="timer-off-outline" size={48} color={COLORS.error} />
+            </View>
+            <Text style={styles.heading}>Couldn't Measure</Text>
+            <Text style={styles.body}>
+              {errorMessage}. {mode === 'loopback'
+                ? 'Turn the volume up and try again in a quiet room.'
+                : 'Try to land right on each click.'}
+            </Text>
+            <PressableScale style={styles.primaryButton} onPress={() => startRun(mode)}>
+              <Text style={styles.primaryButtonText}>Try Again</Text>
+            </PressableScale>
+            <PressableScale style={styles.secondaryButton} onPress={() => setStep('intro')}>
+              <Text style={styles.secondaryButtonText}>Back</Text>
+            </PressableScale>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: COLORS.background },
+  header: { paddingTop: 16, paddingBottom: 16, paddingHorizontal: SPACING.lg },
+  headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  backButton: {
+    width: 40, height: 40, borderRadius: 20,
+    alignItems: 'center', justifyContent: 'center',
+    backgroundColor: glowColor(COLORS.textPrimary, 0.08),
+  },
+  title: { ...TYPOGRAPHY.heading.md, color: COLORS.textPrimary },
+  content: {
+    flex: 1, paddingHorizontal: SPACING.xl,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  centered: { alignItems: 'center', gap: SPACING.md },
+  iconCircle: {
+    width: 96, height: 96, borderRadius: 48,
+    backgroundColor: glowColor(COLORS.primary, 0.15),
+    alignItems: 'center', justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  heading: {
+    ...TYPOGRAPHY.heading.lg, color: COLORS.textPrimary,
+    textAlign: 'center', marginBottom: SPACING.sm,
+  },
+  body: {
+    ...TYPOGRAPHY.body.md, color: COLORS.textSecondary,
+    textAlign: 'center', lineHeight: 22, marginBottom: SPACING.lg,
+  },
+  tapPad: {
+    width: 200, height: 200, borderRadius: 100,
+    alignItems: 'center', justifyContent: 'center',
+    backgroundColor: glowColor(COLORS.primary, 0.3),
+    borderWidth: 2, borderColor: COLORS.primary,
+  },
+  primaryButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center',
+    gap: SPACING.xs, backgroundColor: COLORS.primary,
+    paddingVertical: 14, paddingHorizontal: SPACING.xl,
+    borderRadius: BORDER_RADIUS.full, width: '100%',
+    ...SHADOWS.md,
+  },
+  primaryButtonText: {
+    ...TYPOGRAPHY.button.lg, color: COLORS.textPrimary, fontWeight: '700',
+  },
+  secondaryButton: {
+    paddingVertical: 12, paddingHorizontal: SPACING.xl, marginTop: SPACING.md,
+  },
+  secondaryButtonText: {
+    ...TYPOGRAPHY.body.md, color: COLORS.textMuted,
+  },
+});
+
+export default LatencyCalibrationScreen;
@@ -38,7 +38,8 @@ import type { RootStackParamList } from '../navigation/AppNavigator';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-// Promotion: top 10 get green zone; demotion: bottom 5 get red zone
+// Promotion: top 10 get green zone; demotion: bottom 5 get red zone.
+// Must match firebase/functions/src/leagueRollover.ts, which applies them.
 const PROMOTION_CUTOFF = 10;
 const DEMOTION_FROM_BOTTOM = 5;
 
@@ -3,9 +3,11 @@
  *
  * Guides user through granting mic permission, checks noise level,
  * and provides a test-note detection flow before enabling mic input.
+ * Once permission is granted the mic listens and shows live SNR, so users
+ * know before an exercise whether the mic can be trusted in their room.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -21,17 +23,79 @@ import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS, GRADIENTS, glowCol
 import { PressableScale } from '../components/common/PressableScale';
 import { GradientMeshBackground } from '../components/effects';
 import { useSettingsStore } from '../stores/settingsStore';
-import { requestMicrophonePermission, checkMicrophonePermission } from '../input/AudioCapture';
+import {
+  requestMicrophonePermission,
+  checkMicrophonePermission,
+  configureAudioSessionForRecording,
+} from '../input/AudioCapture';
+import { createMicrophoneInput } from '../input/MicrophoneInput';
+import type { MicSignalQuality, NoiseGateState } from '../input/AdaptiveNoiseGate';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 
 type NavProp = NativeStackNavigationProp<RootStackParamList>;
 
 type SetupStep = 'intro' | 'requesting' | 'granted' | 'denied';
 
+/** The gate updates per buffer (~20/s); the meter only needs a few */
+const LEVEL_UPDATE_MS = 200;
+/** SNR that fills the meter */
+const METER_MAX_DB = 40;
+
+const QUALITY_COPY: Record<MicSignalQuality, { label: string; hint: string; color: string }> = {
+  unknown: { label: 'Listening...', hint: 'Play a few notes to check the signal.', color: COLORS.textMuted },
+  good: { label: 'Clear signal', hint: 'Notes come through clearly.', color: COLORS.success },
+  fair: { label: 'Usable', hint: 'Move closer to the piano or play a little louder.', color: COLORS.warning },
+  poor: {
+    label: 'Too noisy',
+    hint: "The mic can't be trusted here. Try a quieter room or a MIDI keyboard.",
+    color: COLORS.error,
+  },
+};
+
+/** Listen while mounted and report the noise gate's state, throttled */
+function useMicLevel(enabled: boolean): NoiseGateState | null {
+  const [level, setLevel] = useState<NoiseGateState | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+    let dispose: (() => void) | null = null;
+
+    (async () => {
+      configureAudioSessionForRecording();
+      const mic = await createMicrophoneInput();
+      if (!mic) return;
+      if (cancelled) {
+        mic.dispose();
+        return;
+      }
+      let lastUpdate = 0;
+      unsubscribe = mic.onNoiseGateChange((state) => {
+        const now = Date.now();
+        if (now - lastUpdate < LEVEL_UPDATE_MS) return;
+        lastUpdate = now;
+        setLevel(state);
+      });
+      dispose = () => mic.dispose();
+      await mic.start();
+    })();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      dispose?.();
+    };
+  }, [enabled]);
+
+  return level;
+}
+
 export function MicSetupScreen() {
   const navigation = useNavigation<NavProp>();
   const setPreferredInputMethod = useSettingsStore((s) => s.setPreferredInputMethod);
   const [step, setStep] = useState<SetupStep>('intro');
+  const level = useMicLevel(step === 'granted');
 
   const handleRequestPermission = useCallback(async () => {
     setStep('requesting');
@@ -124,6 +188,8 @@ export function MicSetupScreen() {
               You can always change this in Settings.
             </Text>
 
+            <LevelMeter level={level} />
+
             <View style={styles.tipCard}>
               <MaterialCommunityIcons name="lightbulb-outline" size={20} color={COLORS.starGold} />
               <Text style={styles.tipText}>
@@ -164,6 +230,26 @@ export function MicSetupScreen() {
   );
 }
 
+function LevelMeter({ level }: { level: NoiseGateState | null }) {
+  const copy = QUALITY_COPY[level?.quality ?? 'unknown'];
+  const fill = level ? Math.min(1, Math.max(0, level.snrDb / METER_MAX_DB)) : 0;
+
+  return (
+    <View style={styles.levelCard} testID="mic-setup-level">
+      <View style={styles.levelHeader}>
+        <Text style={[styles.levelLabel, { color: copy.color }]}>{copy.label}</Text>
+        {level && level.playedSnrDb !== null && (
+          <Text style={styles.levelValue}>{Math.round(level.playedSnrDb)} dB SNR</Text>
+        )}
+      </View>
+      <View style={styles.meterTrack}>
+        <View style={[styles.meterFill, { width: `${fill * 100}%`, backgroundColor: copy.color }]} />
+      </View>
+      <Text style={styles.levelHint}>{copy.hint}</Text>
+    </View>
+  );
+}
+
 function FeatureItem({ icon, text }: { icon: string; text: string }) {
   return (
     <View style={styles.featureItem}>
@@ -212,6 +298,20 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.xl, width: '100%',
   },
   tipText: { ...TYPOGRAPHY.body.sm, color: COLORS.textSecondary, flex: 1 },
+  levelCard: {
+    backgroundColor: glowColor(COLORS.textPrimary, 0.05),
+    borderRadius: BORDER_RADIUS.md, padding: SPACING.md,
+    marginBottom: SPACING.md, width: '100%', gap: SPACING.xs,
+  },
+  levelHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  levelLabel: { ...TYPOGRAPHY.body.md, fontWeight: '700' },
+  levelValue: { ...TYPOGRAPHY.body.sm, color: COLORS.textSecondary },
+  meterTrack: {
+    height: 8, borderRadius: 4, overflow: 'hidden',
+    backgroundColor: glowColor(COLORS.textPrimary, 0.1),
+  },
+  meterFill: { height: '100%', borderRadius: 4 },
+  levelHint: { ...TYPOGRAPHY.body.sm, color: COLORS.textSecondary },
   primaryButton: {
     flexDirection: 'row', alignItems: 'center', justifyContent: 'center',
     gap: SPACING.xs, backgroundColor: COLORS.primary,
@@ -7,10 +7,12 @@
  * 2. Device Detection
  * 3. Device Selection
  * 4. Verification Test
- * 5. Confirmation & Save
+ * 5. Velocity Calibration (softest / loudest touch, skippable)
+ * 6. Output (demos, metronome, key lights — only for keyboards with a MIDI out port)
+ * 7. Confirmation & Save
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -31,17 +33,28 @@ import { useNavigation } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { getMidiInput } from '../input/MidiInput';
 import MidiDeviceManager from '../input/MidiDevice';
+import { midiKeyboardOutput } from '../input/MidiKeyboardOutput';
+import type { LedProtocol, MidiOutputConfig } from '../input/MidiOutput';
 import type { MidiDevice } from '../input/MidiInput';
 import type { MidiNoteEvent } from '../core/exercises/types';
+import { createVelocityCalibration } from '../core/exercises/dynamics';
 import { COLORS, BORDER_RADIUS, SHADOWS, TYPOGRAPHY, SPACING, glowColor } from '../theme/tokens';
 import { PressableScale } from '../components/common/PressableScale';
 import { GradientMeshBackground } from '../components/effects';
 import { logger } from '../utils/logger';
 
-type SetupStep = 'welcome' | 'detecting' | 'select' | 'verify' | 'success';
+type SetupStep = 'welcome' | 'detecting' | 'select' | 'verify' | 'calibrate' | 'output' | 'success';
+type CalibrationPhase = 'soft' | 'loud' | 'failed';
 
-const STEP_ORDER: SetupStep[] = ['welcome', 'detecting', 'select', 'verify', 'success'];
-const STEP_LABELS = ['Connect', 'Scan', 'Select', 'Test', 'Done'];
+const STEP_ORDER: SetupStep[] = ['welcome', 'detecting', 'select', 'verify', 'calibrate', 'output', 'success'];
+const STEP_LABELS = ['Connect', 'Scan', 'Select', 'Test', 'Touch', 'Output', 'Done'];
+
+/** Notes collected per calibration phase (median is used) */
+const CALIBRATION_NOTES_PER_PHASE = 3;
+
+/** Keys lit by the "Test Lights" button (C major chord) */
+const TEST_LIGHT_NOTES = [60, 64, 67];
+const TEST_LIGHT_MS = 1500;
 
 interface MidiSetupScreenProps {
   onComplete?: (deviceId: string) => void;
@@ -166,6 +179,11 @@ export const MidiSetupScreen: React.FC<MidiSetupScreenProps> = ({
   >('pending');
   const [testNoteDetected, setTestNoteDetected] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [calibrationPhase, setCalibrationPhase] = useState<CalibrationPhase>('soft');
+  const [calibrationCount, setCalibrationCount] = useState(0);
+  const softVelocitiesRef = useRef<number[]>([]);
+  const loudVelocitiesRef = useRef<number[]>([]);
+  const [outputConfig, setOutputConfig] = useState<MidiOutputConfig | null>(null);
 
   const handleGoBack = () => {
     if (onCancel) {
@@ -246,17 +264,86 @@ export const MidiSetupScreen: React.FC<MidiSetupScreenProps> = ({
       MidiDeviceManager.setPreferredDevice(selectedDevice.id);
       MidiDeviceManager.setAutoConnectEnabled(true);
 
-      setStep('success');
+      resetCalibration();
+      setStep('calibrate');
+    }
+  };
+
+  const finishSetup = () => {
+    if (!selectedDevice) return;
+    setStep('success');
+
+    setTimeout(() => {
+      onComplete?.(selectedDevice.id);
+      if (!onComplete && navigation.canGoBack()) {
+        navigation.goBack();
+      }
+    }, 1500);
+  };
 
-      setTimeout(() => {
-        onComplete?.(selectedDevice.id);
-        if (!onComplete && navigation.canGoBack()) {
-          navigation.goBack();
-        }
-      }, 1500);
+  // Keyboards that can also receive MIDI get an output step; others finish here
+  const continueToOutput = async () => {
+    if (!selectedDevice) return;
+    const connected = await midiKeyboardOutput.connectForInput(selectedDevice);
+    if (!connected) {
+      finishSetup();
+      return;
     }
+    setOutputConfig(midiKeyboardOutput.getConfig());
+    setStep('output');
+  };
+
+  const updateOutputConfig = (config: MidiOutputConfig) => {
+    midiKeyboardOutput.configure(config);
+    setOutputConfig(config);
+  };
+
+  const testLights = () => {
+    midiKeyboardOutput.showNextNotes(TEST_LIGHT_NOTES);
+    setTimeout(() => midiKeyboardOutput.clearLights(), TEST_LIGHT_MS);
   };
 
+  const resetCalibration = () => {
+    softVelocitiesRef.current = [];
+    loudVelocitiesRef.current = [];
+    setCalibrationCount(0);
+    setCalibrationPhase('soft');
+  };
+
+  // Velocity calibration: collect a few soft notes, then a few loud ones,
+  // and store the learner's range on the device for dynamics scoring.
+  useEffect(() => {
+    if (step !== 'calibrate' || calibrationPhase === 'failed' || !selectedDevice) return;
+
+    const unsubscribe = getMidiInput().onNoteEvent((event: MidiNoteEvent) => {
+      if (event.type !== 'noteOn' || event.velocity <= 0) return;
+
+      const target = calibrationPhase === 'soft' ? softVelocitiesRef.current : loudVelocitiesRef.current;
+      target.push(event.velocity);
+      setCalibrationCount(target.length);
+      if (target.length < CALIBRATION_NOTES_PER_PHASE) return;
+
+      if (calibrationPhase === 'soft') {
+        setCalibrationCount(0);
+        setCalibrationPhase('loud');
+        return;
+      }
+
+      const calibration = createVelocityCalibration(softVelocitiesRef.current, loudVelocitiesRef.current);
+      if (!calibration) {
+        setCalibrationPhase('failed');
+        return;
+      }
+      MidiDeviceManager.setVelocityCalibration(selectedDevice.id, calibration);
+      logger.log(`[MidiSetupScreen] Velocity calibrated: ${calibration.softest}-${calibration.loudest}`);
+      continueToOutput();
+    });
+
+    return unsubscribe;
+    // continueToOutput only reads selectedDevice/navigation, which are stable during this step
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, calibrationPhase, selectedDevice]);
+
   const handleVerificationRetry = () => {
     setVerificationStatus('pending');
     setTestNoteDetected(false);
@@ -295,6 +382,8 @@ export const MidiSetupScreen: React.FC<MidiSetupScreenProps> = ({
             {step === 'detecting' && 'Searching for devices...'}
             {step === 'select' && 'Choose your keyboard'}
             {step === 'verify' && 'Testing connection'}
+            {step === 'calibrate' && 'Calibrating your touch'}
+            {step === 'output' && 'Sounds and lights on your keyboard'}
             {step === 'success' && 'Ready to play!'}
           </Text>
         </View>
@@ -323,6 +412,22 @@ export const MidiSetupScreen: React.FC<MidiSetupScreenProps> = ({
             onBack={() => setStep(availableDevices.length > 1 ? 'select' : 'welcome')}
           />
         )}
+        {step === 'calibrate' && (
+          <CalibrateStep
+            phase={calibrationPhase}
+            notesPlayed={calibrationCount}
+            onRetry={resetCalibration}
+            onSkip={continueToOutput}
+          />
+        )}
+        {step === 'output' && outputConfig && (
+          <OutputStep
+            config={outputConfig}
+            onChange={updateOutputConfig}
+            onTestLights={testLights}
+            onDone={finishSetup}
+          />
+        )}
         {step === 'success' && selectedDevice && <SuccessStep device={selectedDevice} />}
       </View>
     </ScrollView>
@@ -372,7 +477,7 @@ const WelcomeStep: React.FC<{ onStart: () => void }> = ({ onStart }) => {
       <View style={s.card}>
         <Text style={s.cardTitle}>Supported Keyboards</Text>
         <Text style={[s.cardText, { color: COLORS.textMuted, lineHeight: 20 }]}>
-          Yamaha P-125/225, Roland FP-30X, Casio CDP-S130, M-Audio Hammer 88, Korg microKEY, Alesis Q88, and most class-compliant USB MIDI keyboards
+          Yamaha P-125/225, Roland FP-30X, Casio CDP-S130, Casio LK-S250, M-Audio Hammer 88, Korg microKEY, Alesis Q88, and most class-compliant USB MIDI keyboards
         </Text>
       </View>
 
@@ -536,7 +641,184 @@ const VerifyStep: React.FC<{
 );
 
 // ─────────────────────────────────────────────────
-// Step 5: Success
+// Step 5: Velocity Calibration
+// ─────────────────────────────────────────────────
+
+const CalibrateStep: React.FC<{
+  phase: CalibrationPhase;
+  notesPlayed: number;
+  onRetry: () => void;
+  onSkip: () => void;
+}> = ({ phase, notesPlayed, onRetry, onSkip }) => (
+  <View>
+    <View style={[s.card, { alignItems: 'center' }]}>
+      {phase === 'failed' ? (
+        <>
+          <MaterialCommunityIcons name="alert-circle" size={48} color={COLORS.warning} style={{ marginBottom: SPACING.sm }} />
+          <Text style={[s.cardTitle, { textAlign: 'center' }]}>Soft and loud sounded the same</Text>
+          <Text style={[s.cardText, { ...TYPOGRAPHY.caption.lg, color: COLORS.textMuted, textAlign: 'center' }]}>
+            Try pressing the keys much more gently, then much harder. If your keyboard has a fixed
+            touch setting, switch it to a velocity-sensitive curve.
+          </Text>
+        </>
+      ) : (
+        <>
+          <View style={s.verifyIconCircle}>
+            <MaterialCommunityIcons
+              name={phase === 'soft' ? 'volume-low' : 'volume-high'}
+              size={36}
+              color={COLORS.textSecondary}
+            />
+          </View>
+          <Text style={[s.cardTitle, { marginBottom: SPACING.sm, textAlign: 'center' }]}>
+            {phase === 'soft'
+              ? `Play ${CALIBRATION_NOTES_PER_PHASE} notes as softly as you can`
+              : `Now play ${CALIBRATION_NOTES_PER_PHASE} notes as loudly as you can`}
+          </Text>
+          <Text style={[s.cardText, { ...TYPOGRAPHY.caption.lg, color: COLORS.textMuted, textAlign: 'center' }]}>
+            This teaches us your keyboard's touch so dynamics (p, f, crescendo) are scored fairly.
+          </Text>
+          <Text style={[s.subtitle, { marginTop: SPACING.md }]} testID="midi-calibration-count">
+            {notesPlayed} / {CALIBRATION_NOTES_PER_PHASE}
+          </Text>
+        </>
+      )}
+    </View>
+
+    <View style={{ gap: SPACING.md }}>
+      {phase === 'failed' && (
+        <PressableScale onPress={onRetry} style={[s.primaryButton, { backgroundColor: COLORS.warning }]}>
+          <MaterialCommunityIcons name="refresh" size={20} color={COLORS.textPrimary} style={{ marginRight: SPACING.sm }} />
+          <Text style={s.primaryButtonText}>Try Again</Text>
+        </PressableScale>
+      )}
+      <PressableScale onPress={onSkip} style={s.secondaryButton} testID="midi-calibration-skip">
+        <Text style={s.secondaryButtonText}>Skip</Text>
+      </PressableScale>
+    </View>
+  </View>
+);
+
+// ─────────────────────────────────────────────────
+// Step 6: Output
+// ─────────────────────────────────────────────────
+
+const LED_PROTOCOL_LABELS: Record<LedProtocol, string> = {
+  none: 'No lights',
+  noteOnChannel: 'Light keys',
+};
+
+const OutputToggle: React.FC<{
+  label: string;
+  detail: string;
+  value: boolean;
+  onToggle: () => void;
+  testID: string;
+}> = ({ label, detail, value, onToggle, testID }) => (
+  <PressableScale onPress={onToggle} style={s.outputRow} testID={testID}>
+    <View style={{ flex: 1 }}>
+      <Text style={[s.cardText, { color: COLORS.textPrimary }]}>{label}</Text>
+      <Text style={{ ...TYPOGRAPHY.caption.lg, color: COLORS.textMuted }}>{detail}</Text>
+    </View>
+    <MaterialCommunityIcons
+      name={value ? 'toggle-switch' : 'toggle-switch-off-outline'}
+      size={36}
+      color={value ? COLORS.primary : COLORS.textMuted}
+    />
+  </PressableScale>
+);
+
+/** Channel picker; channels are shown 1-16 but stored zero-based */
+const ChannelStepper: React.FC<{
+  label: string;
+  channel: number;
+  onChange: (channel: number) => void;
+  testID: string;
+}> = ({ label, channel, onChange, testID }) => (
+  <View style={s.outputRow}>
+    <Text style={[s.cardText, { flex: 1, color: COLORS.textPrimary }]}>{label}</Text>
+    <PressableScale onPress={() => onChange(Math.max(0, channel - 1))} testID={`${testID}-down`}>
+      <MaterialCommunityIcons name="minus-circle-outline" size={28} color={COLORS.textSecondary} />
+    </PressableScale>
+    <Text style={s.channelValue} testID={testID}>{channel + 1}</Text>
+    <PressableScale onPress={() => onChange(Math.min(15, channel + 1))} testID={`${testID}-up`}>
+      <MaterialCommunityIcons name="plus-circle-outline" size={28} color={COLORS.textSecondary} />
+    </PressableScale>
+  </View>
+);
+
+const OutputStep: React.FC<{
+  config: MidiOutputConfig;
+  onChange: (config: MidiOutputConfig) => void;
+  onTestLights: () => void;
+  onDone: () => void;
+}> = ({ config, onChange, onTestLights, onDone }) => (
+  <View>
+    <View style={s.card}>
+      <Text style={s.cardTitle}>Sounds</Text>
+      <OutputToggle
+        label="Play demos on the keyboard"
+        detail="Hear demos through your keyboard's own speakers"
+        value={config.playDemos}
+        onToggle={() => onChange({ ...config, playDemos: !config.playDemos })}
+        testID="midi-output-demos"
+      />
+      <OutputToggle
+        label="Metronome on the keyboard"
+        detail="Clicks use the keyboard's drum sounds"
+        value={config.metronome}
+        onToggle={() => onChange({ ...config, metronome: !config.metronome })}
+        testID="midi-output-metronome"
+      />
+      <ChannelStepper
+        label="Sound channel"
+        channel={config.soundChannel}
+        onChange={(soundChannel) => onChange({ ...config, soundChannel })}
+        testID="midi-output-sound-channel"
+      />
+    </View>
+
+    <View style={s.card}>
+      <Text style={s.cardTitle}>Key Lights</Text>
+      <View style={[s.outputRow, { gap: SPACING.sm }]}>
+        {(Object.keys(LED_PROTOCOL_LABELS) as LedProtocol[]).map((protocol) => (
+          <PressableScale
+            key={protocol}
+            onPress={() => onChange({ ...config, ledProtocol: protocol })}
+            style={[s.outputChip, config.ledProtocol === protocol && s.outputChipSelected]}
+            testID={`midi-output-led-${protocol}`}
+          >
+            <Text style={s.secondaryButtonText}>{LED_PROTOCOL_LABELS[protocol]}</Text>
+          </PressableScale>
+        ))}
+      </View>
+      {config.ledProtocol !== 'none' && (
+        <>
+          <Text style={[s.cardText, { ...TYPOGRAPHY.caption.lg, color: COLORS.textMuted }]}>
+            Light-up keyboards light the next notes to play. Pick the channel your keyboard
+            listens to for its lights (Casio calls it the "navigate" channel).
+          </Text>
+          <ChannelStepper
+            label="Light channel"
+            channel={config.ledChannel}
+            onChange={(ledChannel) => onChange({ ...config, ledChannel })}
+            testID="midi-output-led-channel"
+          />
+          <PressableScale onPress={onTestLights} style={s.secondaryButton} testID="midi-output-test-lights">
+            <Text style={s.secondaryButtonText}>Test Lights</Text>
+          </PressableScale>
+        </>
+      )}
+    </View>
+
+    <PressableScale onPress={onDone} style={s.primaryButton} testID="midi-output-done">
+      <Text style={s.primaryButtonText}>Done</Text>
+    </PressableScale>
+  </View>
+);
+
+// ─────────────────────────────────────────────────
+// Step 7: Success
 // ─────────────────────────────────────────────────
 
 const SuccessStep: React.FC<{ device: MidiDevice }> = ({ device }) => (
@@ -630,6 +912,32 @@ const s = StyleSheet.create({
     borderWidth: 1,
     borderColor: COLORS.cardBorder,
   },
+  outputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+  },
+  outputChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+    backgroundColor: COLORS.surfaceElevated,
+  },
+  outputChipSelected: {
+    borderColor: COLORS.primary,
+    borderWidth: 2,
+  },
+  channelValue: {
+    ...TYPOGRAPHY.body.md,
+    fontWeight: '600' as const,
+    color: COLORS.textPrimary,
+    minWidth: 28,
+    textAlign: 'center',
+  },
   secondaryButtonText: {
     color: COLORS.textSecondary,
     ...TYPOGRAPHY.button.md,
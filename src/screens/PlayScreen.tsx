@@ -17,6 +17,7 @@ import {
   Text,
   StyleSheet,
   LayoutChangeEvent,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as ScreenOrientation from 'expo-screen-orientation';
@@ -52,6 +53,8 @@ import { useSettingsStore } from '../stores/settingsStore';
 import { useSongStore } from '../stores/songStore';
 import { analyzeSession, type FreePlayAnalysis } from '../services/FreePlayAnalyzer';
 import { ttsService } from '../services/tts/TTSService';
+import { shareMidiFile } from '../services/midiExport';
+import { performanceToMidiFile } from '../core/music/midiWriter';
 import { PressableScale } from '../components/common/PressableScale';
 import { GradientMeshBackground } from '../components/effects';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, glowColor, shadowGlow } from '../theme/tokens';
@@ -487,6 +490,24 @@ export function PlayScreen(): React.JSX.Element {
     setCurrentNoteName('');
   }, [recordedNotes, isAudioReady, stopPlayback]);
 
+  const exportRecording = useCallback(async () => {
+    if (recordedNotes.length === 0) return;
+    const events: MidiNoteEvent[] = recordedNotes.map((recorded) => ({
+      type: 'noteOn',
+      note: recorded.note,
+      velocity: recorded.velocity,
+      timestamp: recorded.timestamp,
+      channel: 0,
+      ...(recorded.releaseTimestamp != null && { durationMs: recorded.releaseTimestamp - recorded.timestamp }),
+    }));
+    try {
+      const shared = await shareMidiFile(performanceToMidiFile(events, { title: 'Free Play Loop' }), 'Free Play Loop');
+      if (!shared) Alert.alert('Sharing Unavailable', 'Sharing is not available on this device.');
+    } catch (error) {
+      logger.warn('[PlayScreen] MIDI export failed:', error);
+    }
+  }, [recordedNotes]);
+
   const clearRecording = useCallback(() => {
     stopPlayback();
     setRecordedNotes([]);
@@ -935,6 +956,7 @@ export function PlayScreen(): React.JSX.Element {
                 onPlay={playRecording}
                 onStopPlayback={stopPlayback}
                 onClear={clearRecording}
+                onExport={exportRecording}
               />
             )}
             {widgetId === 'tempoTrainer' && (
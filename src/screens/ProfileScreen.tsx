@@ -48,6 +48,8 @@ import { GradientMeshBackground } from '../components/effects';
 import { useAuthStore } from '../stores/authStore';
 import { checkUsernameAvailable, isValidUsername, registerUsername } from '../services/firebase/socialService';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import { instrumentRegistry } from '../audio/instruments/InstrumentRegistry';
+import type { InstrumentRole } from '../audio/types';
 
 type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
 
@@ -61,6 +63,12 @@ const VOLUME_OPTIONS = [
   { label: '100%', value: 1.0 },
 ];
 
+const INSTRUMENT_ROLE_OPTIONS: { role: InstrumentRole; label: string }[] = [
+  { role: 'user', label: 'Your keys' },
+  { role: 'accompaniment', label: 'Backing' },
+  { role: 'demo', label: 'Demos' },
+];
+
 
 /** Animated shimmer pulse wrapper for unlocked achievements */
 function ShimmerBadge({ children, isUnlocked }: { children: React.ReactNode; isUnlocked: boolean }): React.ReactElement {
@@ -254,9 +262,9 @@ export function ProfileScreen(): React.ReactElement {
   const { totalXp, level, streakData, lessonProgress } = useProgressStore();
   const {
     dailyGoalMinutes, masterVolume, displayName, username, selectedCatId,
-    preferredInputMethod, micDetectionMode,
+    preferredInputMethod, micDetectionMode, instruments,
     setDailyGoalMinutes, setMasterVolume, setDisplayName, setUsername,
-    setPreferredInputMethod, setMicDetectionMode,
+    setPreferredInputMethod, setMicDetectionMode, setInstrument,
   } = useSettingsStore();
   const weeklyPractice = useWeeklyPractice();
   const totalWeekMinutes = weeklyPractice.reduce((sum, d) => sum + d.minutes, 0);
@@ -266,6 +274,7 @@ export function ProfileScreen(): React.ReactElement {
 
   const [showGoalPicker, setShowGoalPicker] = useState(false);
   const [showVolumePicker, setShowVolumePicker] = useState(false);
+  const [showInstrumentPicker, setShowInstrumentPicker] = useState(false);
   const [showInputPicker, setShowInputPicker] = useState(false);
   const [showDetectionModePicker, setShowDetectionModePicker] = useState(false);
   const [showNameEditor, setShowNameEditor] = useState(false);
@@ -777,6 +786,43 @@ export function ProfileScreen(): React.ReactElement {
             </View>
           )}
 
+          <PressableScale
+            style={styles.settingItem}
+            onPress={() => setShowInstrumentPicker(!showInstrumentPicker)}
+            testID="profile-instruments"
+          >
+            <View style={styles.settingLeft}>
+              <MaterialCommunityIcons name="piano" size={24} color={COLORS.textSecondary} />
+              <Text style={styles.settingLabel}>Instruments</Text>
+            </View>
+            <View style={styles.settingRight}>
+              <Text style={styles.settingValue}>{instrumentRegistry.resolve(instruments.user).name}</Text>
+              <MaterialCommunityIcons name={showInstrumentPicker ? 'chevron-up' : 'chevron-down'} size={20} color={COLORS.textMuted} />
+            </View>
+          </PressableScale>
+          {showInstrumentPicker && INSTRUMENT_ROLE_OPTIONS.map(({ role, label }) => (
+            <View key={role}>
+              <Text style={styles.pickerLabel}>{label}</Text>
+              <View style={styles.pickerRow}>
+                {instrumentRegistry.list().map((instrument) => (
+                  <PressableScale
+                    key={instrument.id}
+                    style={[styles.pickerChip, instruments[role] === instrument.id && styles.pickerChipActive]}
+                    onPress={() => setInstrument(role, instrument.id)}
+                    testID={`profile-instrument-${role}-${instrument.id}`}
+                  >
+                    <Text
+                      style={[styles.pickerChipText, instruments[role] === instrument.id && styles.pickerChipTextActive]}
+                      numberOfLines={1}
+                    >
+                      {instrument.name}
+                    </Text>
+                  </PressableScale>
+                ))}
+              </View>
+            </View>
+          ))}
+
           <PressableScale style={styles.settingItem} onPress={() => setShowInputPicker(!showInputPicker)}>
             <View style={styles.settingLeft}>
               <MaterialCommunityIcons name="music-note" size={24} color={COLORS.textSecondary} />
@@ -884,6 +930,30 @@ export function ProfileScreen(): React.ReactElement {
             <MaterialCommunityIcons name="chevron-right" size={24} color={COLORS.textMuted} />
           </PressableScale>
 
+          <PressableScale
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('LatencyCalibration')}
+            testID="profile-open-latency-calibration"
+          >
+            <View style={styles.settingLeft}>
+              <MaterialCommunityIcons name="timer-outline" size={24} color={COLORS.textSecondary} />
+              <Text style={styles.settingLabel}>Input Timing</Text>
+            </View>
+            <MaterialCommunityIcons name="chevron-right" size={24} color={COLORS.textMuted} />
+          </PressableScale>
+
+          <PressableScale
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('TuningCheck')}
+            testID="profile-open-tuning-check"
+          >
+            <View style={styles.settingLeft}>
+              <MaterialCommunityIcons name="tune-vertical" size={24} color={COLORS.textSecondary} />
+              <Text style={styles.settingLabel}>Piano Tuning</Text>
+            </View>
+            <MaterialCommunityIcons name="chevron-right" size={24} color={COLORS.textMuted} />
+          </PressableScale>
+
           <PressableScale
             style={styles.settingItem}
             onPress={() => navigation.navigate('Account')}
@@ -1165,6 +1235,12 @@ const styles = StyleSheet.create({
   pickerChipTextActive: {
     color: COLORS.textPrimary,
   },
+  pickerLabel: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textMuted,
+    marginBottom: SPACING.xs,
+    paddingHorizontal: SPACING.xs,
+  },
   // Chart
   chartHeader: {
     flexDirection: 'row',
@@ -104,7 +104,6 @@ function LeagueCard(): React.JSX.Element {
           user.uid,
           user.displayName ?? 'Player',
           catId,
-          'bronze',
         );
       }
       setMembership(m);
@@ -483,11 +482,9 @@ function ActiveChallengesSection(): React.JSX.Element {
   const friends = useSocialStore((s) => s.friends);
   const friendUids = useMemo(() => new Set(friends.map((f) => f.uid)), [friends]);
 
+  // Expired challenges are marked by the challengeExpirySweep Cloud Function
   const activeChallenges = useMemo(() => {
-    const now = Date.now();
     return challenges.filter((c) => {
-      // Auto-expire challenges past their deadline
-      if (c.status === 'pending' && c.expiresAt > 0 && c.expiresAt < now) return false;
       // Hide challenges from removed friends
       const otherUid = c.fromUid === myUid ? c.toUid : c.fromUid;
       if (!friendUids.has(otherUid)) return false;
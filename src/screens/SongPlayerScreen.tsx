@@ -25,6 +25,7 @@ import { useExerciseStore } from '../stores/exerciseStore';
 import { useGemStore } from '../stores/gemStore';
 import {
   updateSongMastery,
+  masterySectionIds,
   gemRewardForTier,
   isBetterTier,
   masteryColor,
@@ -32,6 +33,10 @@ import {
 } from '../core/songs/songMastery';
 import type { Song, SongSection, SongLayer, MasteryTier } from '../core/songs/songTypes';
 import type { Exercise, NoteEvent, ExerciseScore } from '../core/exercises/types';
+import { tempoSettingsFrom } from '../core/exercises/tempoMap';
+import { expandPlaybackOrder, playbackNotes, playbackTimingSettings } from '../core/songs/songStructure';
+import { duetSplitsFor } from '../core/duet/duetParts';
+import { playbackSpeedForTempo } from '../core/classroom/classroom';
 import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS, glowColor } from '../theme/tokens';
 import { GradientMeshBackground } from '../components/effects';
 import { PressableScale } from '../components/common/PressableScale';
@@ -58,6 +63,12 @@ export function sectionToExercise(
 
   // Defensive defaults for settings that might be missing from Firestore data
   const settings = song.settings ?? {} as Song['settings'];
+  const timeSignature = settings.timeSignature ?? [4, 4];
+  // Tempo and meter in force where the section starts, re-based to beat 0
+  const timing = tempoSettingsFrom(
+    { tempo: settings.tempo ?? 80, timeSignature, tempoMap: settings.tempoMap, meterMap: settings.meterMap },
+    section.startBeat,
+  );
 
   return {
     id: `${song.id}-${section.id}-${layer}`,
@@ -71,8 +82,8 @@ export function sectionToExercise(
       prerequisites: [],
     },
     settings: {
-      tempo: settings.tempo ?? 80,
-      timeSignature: settings.timeSignature ?? [4, 4],
+      ...timing,
+      timeSignature,
       keySignature: settings.keySignature ?? 'C',
       countIn: settings.countIn ?? 4,
       metronomeEnabled: settings.metronomeEnabled ?? true,
@@ -95,8 +106,8 @@ export function sectionToExercise(
 
 /**
  * Merge all sections into a single full-song exercise.
- * Each section's notes are offset by the section's startBeat so they
- * form one continuous timeline.
+ * Sections are laid out in playback order — repeats, endings and D.C./D.S.
+ * expanded — so they form one continuous timeline.
  */
 export function fullSongToExercise(
   song: Song,
@@ -104,19 +115,15 @@ export function fullSongToExercise(
   loop: boolean,
 ): Exercise {
   const settings = song.settings ?? {} as Song['settings'];
+  const tempo = settings.tempo ?? 80;
+  const timeSignature = settings.timeSignature ?? [4, 4];
 
-  // Collect notes from all sections, offset by section.startBeat
-  const allNotes: NoteEvent[] = [];
-  for (const section of song.sections) {
-    const sectionNotes = layer === 'melody' ? section.layers.melody : section.layers.full;
-    if (!sectionNotes) continue;
-    for (const note of sectionNotes) {
-      allNotes.push({
-        ...note,
-        startBeat: note.startBeat + section.startBeat,
-      });
-    }
-  }
+  const steps = expandPlaybackOrder(song);
+  const allNotes: NoteEvent[] = playbackNotes(steps, layer);
+  // A repeated passage brings its tempo and meter changes round again
+  const timing = song.structure
+    ? playbackTimingSettings({ ...settings, tempo, timeSignature }, steps)
+    : { tempo, tempoMap: settings.tempoMap, meterMap: settings.meterMap };
 
   // Sort by startBeat for correct playback order
   allNotes.sort((a, b) => a.startBeat - b.startBeat || a.note - b.note);
@@ -137,8 +144,8 @@ export function fullSongToExercise(
       prerequisites: [],
     },
     settings: {
-      tempo: settings.tempo ?? 80,
-      timeSignature: settings.timeSignature ?? [4, 4],
+      ...timing,
+      timeSignature,
       keySignature: settings.keySignature ?? 'C',
       countIn: settings.countIn ?? 4,
       metronomeEnabled: settings.metronomeEnabled ?? true,
@@ -164,27 +171,32 @@ export function fullSongToExercise(
  *
  * Maps each scored note back to its source section using startBeat ranges
  * (like F1 sector timing), then computes a weighted score per section using
- * the same weight distribution as the main scoring engine.
+ * the same weight distribution as the main scoring engine. A section played
+ * more than once (a repeat) appears as several ranges with the same id and
+ * is scored over all of them together.
  */
 export function computePerSectionScores(
   score: ExerciseScore,
-  sections: SongSection[],
+  sections: Array<Pick<SongSection, 'id' | 'startBeat' | 'endBeat'>>,
 ): Record<string, number> {
   const result: Record<string, number> = {};
 
   // Only expected notes (not extra notes the player added)
   const expectedNotes = score.details.filter((ns) => !ns.isExtraNote);
 
-  for (const section of sections) {
-    // Notes whose offset startBeat falls within this section's beat range
-    const sectionNotes = expectedNotes.filter(
-      (ns) =>
-        ns.expected.startBeat >= section.startBeat &&
-        ns.expected.startBeat < section.endBeat,
+  for (const id of new Set(sections.map((s) => s.id))) {
+    const ranges = sections.filter((s) => s.id === id);
+    // Notes whose offset startBeat falls within one of this section's beat ranges
+    const sectionNotes = expectedNotes.filter((ns) =>
+      ranges.some(
+        (range) =>
+          ns.expected.startBeat >= range.startBeat &&
+          ns.expected.startBeat < range.endBeat,
+      ),
     );
 
     if (sectionNotes.length === 0) {
-      result[section.id] = 0;
+      result[id] = 0;
       continue;
     }
 
@@ -208,7 +220,7 @@ export function computePerSectionScores(
     const sectionScore =
       accuracy * 0.39 + timing * 0.33 + completeness * 0.11 + duration * 0.17;
 
-    result[section.id] = Math.round(Math.min(100, Math.max(0, sectionScore)));
+    result[id] = Math.round(Math.min(100, Math.max(0, sectionScore)));
   }
 
   return result;
@@ -277,7 +289,7 @@ function MasteryProgress({
 export function SongPlayerScreen() {
   const navigation = useNavigation<NavProp>();
   const route = useRoute<SongPlayerRouteProp>();
-  const songId = route.params.songId;
+  const { songId, sectionId, targetTempo, assignmentId } = route.params;
 
   const { currentSong, isLoadingSong, loadSong, getMastery, updateMastery, addRecentSong } =
     useSongStore();
@@ -303,6 +315,13 @@ export function SongPlayerScreen() {
     addRecentSong(songId);
   }, [songId]);
 
+  // Opened from an assignment — start on the assigned section
+  useEffect(() => {
+    if (!sectionId || currentSong?.id !== songId) return;
+    const index = currentSong.sections.findIndex((s) => s.id === sectionId);
+    if (index >= 0) setSelectedSectionIndex(index);
+  }, [currentSong, songId, sectionId]);
+
   // Capture score when returning from Exercise.
   // Uses playContextRef (snapshotted at play-time) to ensure the score is
   // applied to the correct song/section, even if the user somehow changed
@@ -331,8 +350,13 @@ export function SongPlayerScreen() {
       if (ctx.sectionIndex === null) {
         // Full song — compute per-section scores from note-level details
         // (like F1 sector timing: split the full-song score by section boundaries)
+        const playbackRanges = expandPlaybackOrder(currentSong).map((step) => ({
+          id: step.section.id,
+          startBeat: step.startBeat,
+          endBeat: step.endBeat,
+        }));
         const perSection = lastScore.details?.length
-          ? computePerSectionScores(lastScore, currentSong.sections)
+          ? computePerSectionScores(lastScore, playbackRanges)
           : null;
 
         newSectionScores = { ...(existingMastery?.sectionScores ?? {}) };
@@ -355,7 +379,7 @@ export function SongPlayerScreen() {
         };
       }
 
-      const sectionIds = currentSong.sections.map((s) => s.id);
+      const sectionIds = masterySectionIds(currentSong);
       const updated = updateSongMastery(
         existingMastery,
         currentSong.id,
@@ -413,8 +437,20 @@ export function SongPlayerScreen() {
     logger.log(`[SongPlayer] Playing: ${exercise.id}, notes=${exercise.notes.length}, tempo=${exercise.settings.tempo}, countIn=${exercise.settings.countIn}`);
     analyticsEvents.song.started(song.id, selectedSectionIndex ?? -1);
     setCurrentExercise(exercise);
-    navigation.navigate('Exercise', { exerciseId: exercise.id });
-  }, [song, selectedSectionIndex, layer, loop, setCurrentExercise, navigation]);
+    // The assigned section plays at the teacher's target tempo
+    const isAssigned = selectedSectionIndex !== null && song.sections[selectedSectionIndex]?.id === sectionId;
+    const playbackSpeed = isAssigned && targetTempo
+      ? playbackSpeedForTempo(exercise.settings.tempo, targetTempo)
+      : undefined;
+    navigation.navigate('Exercise', {
+      exerciseId: exercise.id,
+      playbackSpeed,
+      assignmentId: isAssigned ? assignmentId : undefined,
+    });
+  }, [song, selectedSectionIndex, layer, loop, setCurrentExercise, navigation, sectionId, targetTempo, assignmentId]);
+
+  const selectedSection = selectedSectionIndex === null ? undefined : song?.sections[selectedSectionIndex];
+  const canDuet = selectedSection ? duetSplitsFor(selectedSection).length > 0 : false;
 
   // BUG-027 fix: Check for 'full' layer, not 'accompaniment' — the toggle sets layer='full'
   // which reads section.layers.full, so the toggle should be enabled when full notes exist
@@ -535,9 +571,20 @@ export function SongPlayerScreen() {
             </Text>
           </PressableScale>
 
+          {/* Duet — play the section with a partner in real time */}
+          {canDuet && selectedSection && (
+            <PressableScale
+              style={styles.duetToggle}
+              onPress={() => navigation.navigate('Duet', { songId: song.id, sectionId: selectedSection.id })}
+              testID="duet-button"
+            >
+              <MaterialCommunityIcons name="account-multiple" size={20} color={COLORS.textSecondary} />
+            </PressableScale>
+          )}
+
           {/* Loop toggle */}
           <PressableScale
-            style={[styles.loopToggle, loop && styles.loopToggleActive]}
+            style={[styles.loopToggle, canDuet && styles.loopToggleBesideDuet, loop && styles.loopToggleActive]}
             onPress={() => setLoop((v) => !v)}
             testID="loop-toggle"
           >
@@ -757,6 +804,13 @@ const styles = StyleSheet.create({
   layerToggleTextDisabled: {
     color: COLORS.textMuted,
   },
+  duetToggle: {
+    padding: SPACING.xs,
+    marginLeft: 'auto',
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+  },
   loopToggle: {
     padding: SPACING.xs,
     marginLeft: 'auto',
@@ -764,6 +818,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: COLORS.cardBorder,
   },
+  loopToggleBesideDuet: {
+    marginLeft: 0,
+  },
   loopToggleActive: {
     borderColor: COLORS.primary,
     backgroundColor: glowColor(COLORS.primary, 0.1),
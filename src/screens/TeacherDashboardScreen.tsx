@@ -0,0 +1,768 @@
+/**
+ * TeacherDashboardScreen
+ *
+ * Where a teacher runs their classes: create a class, invite students by
+ * username or friend code, and set assignments — an exercise or a song
+ * section, due on a date, optionally at a target tempo. Expanding a joined
+ * student reads their synced progress and shows how far they are with
+ * each assignment. Students only show up here once they accept the invite
+ * from Today's Practice.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useClassroomStore } from '../stores/classroomStore';
+import { useSongStore } from '../stores/songStore';
+import {
+  createAssignment,
+  createClass,
+  deleteAssignment,
+  getAssignments,
+  getRoster,
+  getStudentProgress,
+  getTeacherClasses,
+  inviteStudent,
+  removeStudent,
+} from '../services/firebase/classroomService';
+import { getUserPublicProfile, lookupFriendCode } from '../services/firebase/socialService';
+import { getSong } from '../services/songService';
+import { getAllLessons, getExercisesForLesson } from '../content/ContentLoader';
+import {
+  CLASS_NAME_MAX_LENGTH,
+  assignmentScore,
+  assignmentStatus,
+  describeDueDate,
+  isAssignmentDone,
+  type Assignment,
+  type AssignmentStatus,
+  type AssignmentTarget,
+  type Classroom,
+  type RosterEntry,
+  type StudentProgress,
+} from '../core/classroom/classroom';
+import { localDateString } from '../core/progression/XpSystem';
+import type { Song } from '../core/songs/songTypes';
+import { Button } from '../components/common';
+import { PressableScale } from '../components/common/PressableScale';
+import { GradientMeshBackground } from '../components/effects';
+import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY } from '../theme/tokens';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import { logger } from '../utils/logger';
+
+type NavProp = NativeStackNavigationProp<RootStackParamList>;
+
+/** New assignments are due a week out unless the teacher picks a date */
+const DEFAULT_DUE_DAYS = 7;
+const MAX_SEARCH_RESULTS = 6;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  done: 'Done',
+  overdue: 'Overdue',
+  'due-today': 'Due today',
+  upcoming: 'Not yet',
+};
+
+const STATUS_COLORS: Record<AssignmentStatus, string> = {
+  done: COLORS.success,
+  overdue: COLORS.error,
+  'due-today': COLORS.starGold,
+  upcoming: COLORS.textMuted,
+};
+
+function defaultDueDate(): string {
+  const due = new Date();
+  due.setDate(due.getDate() + DEFAULT_DUE_DAYS);
+  return localDateString(due);
+}
+
+// ---------------------------------------------------------------------------
+// Assignment form
+// ---------------------------------------------------------------------------
+
+interface PickerOption {
+  id: string;
+  title: string;
+}
+
+function AssignmentForm({
+  classId,
+  onCreated,
+}: {
+  classId: string;
+  onCreated: (assignment: Assignment) => void;
+}) {
+  const { summaries, loadSummaries } = useSongStore();
+  const [kind, setKind] = useState<AssignmentTarget['kind']>('exercise');
+  const [search, setSearch] = useState('');
+  const [picked, setPicked] = useState<PickerOption | null>(null);
+  const [song, setSong] = useState<Song | null>(null);
+  const [sectionId, setSectionId] = useState<string | null>(null);
+  const [dueDate, setDueDate] = useState(defaultDueDate);
+  const [tempoInput, setTempoInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (kind === 'song-section' && summaries.length === 0) loadSummaries();
+  }, [kind, summaries.length, loadSummaries]);
+
+  const exerciseOptions = useMemo<PickerOption[]>(
+    () =>
+      getAllLessons().flatMap((lesson) =>
+        getExercisesForLesson(lesson.id).map((ex) => ({ id: ex.id, title: `${lesson.title}: ${ex.title}` })),
+      ),
+    [],
+  );
+
+  const results = useMemo(() => {
+    const options = kind === 'exercise'
+      ? exerciseOptions
+      : summaries.map((s) => ({ id: s.id, title: s.metadata.title }));
+    const term = search.trim().toLowerCase();
+    return options
+      .filter((o) => !term || o.title.toLowerCase().includes(term))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [kind, exerciseOptions, summaries, search]);
+
+  const switchKind = (next: AssignmentTarget['kind']) => {
+    setKind(next);
+    setPicked(null);
+    setSong(null);
+    setSectionId(null);
+    setSearch('');
+  };
+
+  const pick = async (option: PickerOption) => {
+    setPicked(option);
+    setSectionId(null);
+    setSong(null);
+    if (kind !== 'song-section') return;
+    try {
+      setSong(await getSong(option.id));
+    } catch (err) {
+      logger.warn('[TeacherDashboard] Failed to load song:', err);
+      setError('Could not load that song. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!picked) return;
+    const tempo = tempoInput.trim() ? Math.round(Number(tempoInput)) : null;
+    if (!DATE_PATTERN.test(dueDate) || Number.isNaN(Date.parse(dueDate))) {
+      setError('Enter the due date as YYYY-MM-DD.');
+      return;
+    }
+    if (dueDate < localDateString()) {
+      setError('The due date has already passed.');
+      return;
+    }
+    if (tempo !== null && (!Number.isFinite(tempo) || tempo <= 0)) {
+      setError('Enter the target tempo in BPM, or leave it empty.');
+      return;
+    }
+
+    let target: AssignmentTarget;
+    let title = picked.title;
+    if (kind === 'exercise') {
+      target = { kind: 'exercise', exerciseId: picked.id };
+    } else {
+      const section = song?.sections.find((s) => s.id === sectionId);
+      if (!song || !section) return;
+      target = { kind: 'song-section', songId: song.id, sectionId: section.id };
+      title = `${song.metadata.title}: ${section.label}`;
+    }
+
+    const assignment: Assignment = {
+      id: `assignment-${classId}-${Date.now()}`,
+      classId,
+      title,
+      target,
+      dueDate,
+      targetTempo: tempo,
+      assignedAt: Date.now(),
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createAssignment(assignment);
+      onCreated(assignment);
+      setPicked(null);
+      setSong(null);
+      setSectionId(null);
+      setSearch('');
+      setTempoInput('');
+      setDueDate(defaultDueDate());
+    } catch (err) {
+      logger.warn('[TeacherDashboard] Failed to create assignment:', err);
+      setError('Could not save the assignment. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = picked !== null && (kind === 'exercise' || sectionId !== null) && !isSaving;
+
+  return (
+    <View style={styles.card} testID="assignment-form">
+      <Text style={styles.sectionLabel}>New assignment</Text>
+      <View style={styles.chipRow}>
+        {(['exercise', 'song-section'] as const).map((k) => (
+          <PressableScale
+            key={k}
+            style={[styles.chip, kind === k && styles.chipActive]}
+            onPress={() => switchKind(k)}
+            testID={`assignment-kind-${k}`}
+          >
+            <Text style={[styles.chipText, kind === k && styles.chipTextActive]}>
+              {k === 'exercise' ? 'Exercise' : 'Song section'}
+            </Text>
+          </PressableScale>
+        ))}
+      </View>
+
+      {picked ? (
+        <PressableScale style={[styles.chip, styles.chipActive]} onPress={() => switchKind(kind)} testID="assignment-picked">
+          <Text style={[styles.chipText, styles.chipTextActive]} numberOfLines={1}>
+            {picked.title} ✕
+          </Text>
+        </PressableScale>
+      ) : (
+        <>
+          <TextInput
+            style={styles.input}
+            value={search}
+            onChangeText={setSearch}
+            placeholder={kind === 'exercise' ? 'Search exercises' : 'Search songs'}
+            placeholderTextColor={COLORS.textMuted}
+            autoCorrect={false}
+            testID="assignment-search"
+          />
+          <View style={styles.chipRow}>
+            {results.map((option) => (
+              <PressableScale key={option.id} style={styles.chip} onPress={() => pick(option)} testID={`assignment-option-${option.id}`}>
+                <Text style={styles.chipText} numberOfLines={1}>{option.title}</Text>
+              </PressableScale>
+            ))}
+          </View>
+        </>
+      )}
+
+      {song && (
+        <View style={styles.chipRow}>
+          {song.sections.map((section) => (
+            <PressableScale
+              key={section.id}
+              style={[styles.chip, sectionId === section.id && styles.chipActive]}
+              onPress={() => setSectionId(section.id)}
+              testID={`assignment-section-${section.id}`}
+            >
+              <Text style={[styles.chipText, sectionId === section.id && styles.chipTextActive]}>{section.label}</Text>
+            </PressableScale>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.hint}>Due (YYYY-MM-DD)</Text>
+          <TextInput
+            style={styles.input}
+            value={dueDate}
+            onChangeText={setDueDate}
+            autoCorrect={false}
+            testID="assignment-due"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.hint}>Target BPM (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={tempoInput}
+            onChangeText={(text) => setTempoInput(text.replace(/[^0-9]/g, ''))}
+            keyboardType="number-pad"
+            testID="assignment-tempo"
+          />
+        </View>
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+      <Button title="Set assignment" onPress={handleSave} disabled={!canSave} loading={isSaving} testID="assignment-save" />
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Screen
+// ---------------------------------------------------------------------------
+
+export function TeacherDashboardScreen() {
+  const navigation = useNavigation<NavProp>();
+  const uid = useAuthStore((s) => s.user?.uid ?? '');
+  const displayName = useSettingsStore((s) => s.displayName);
+  const { classes, setClasses, addClass } = useClassroomStore();
+
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [isLoadingClass, setIsLoadingClass] = useState(false);
+  const [expandedUid, setExpandedUid] = useState<string | null>(null);
+  const [studentProgress, setStudentProgress] = useState<Record<string, StudentProgress>>({});
+
+  const [classNameInput, setClassNameInput] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [inviteInput, setInviteInput] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const selectedClass = classes.find((c) => c.id === selectedClassId) ?? classes[0] ?? null;
+  const today = localDateString();
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!uid) return;
+      getTeacherClasses(uid)
+        .then((result) => setClasses(result.sort((a, b) => a.createdAt - b.createdAt)))
+        .catch((err) => logger.warn('[TeacherDashboard] Failed to load classes:', err));
+    }, [uid, setClasses]),
+  );
+
+  // Roster and assignments of the selected class
+  const activeClassId = selectedClass?.id ?? null;
+  useEffect(() => {
+    if (!activeClassId) return;
+    let cancelled = false;
+    setIsLoadingClass(true);
+    setExpandedUid(null);
+    Promise.all([getRoster(activeClassId), getAssignments(activeClassId)])
+      .then(([nextRoster, nextAssignments]) => {
+        if (cancelled) return;
+        setRoster(nextRoster.sort((a, b) => a.displayName.localeCompare(b.displayName)));
+        setAssignments(nextAssignments.sort((a, b) => a.dueDate.localeCompare(b.dueDate)));
+      })
+      .catch((err) => logger.warn('[TeacherDashboard] Failed to load class:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingClass(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeClassId]);
+
+  const handleCreateClass = async () => {
+    const name = classNameInput.trim();
+    if (!uid || !name) return;
+    setIsCreating(true);
+    try {
+      const classroom = await createClass(uid, displayName, name);
+      addClass(classroom);
+      setSelectedClassId(classroom.id);
+      setClassNameInput('');
+    } catch (err) {
+      logger.warn('[TeacherDashboard] Failed to create class:', err);
+      Alert.alert('Error', 'Could not create the class. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleInvite = async (classroom: Classroom) => {
+    const code = inviteInput.trim();
+    if (!code) return;
+    setIsInviting(true);
+    setInviteError(null);
+    try {
+      const studentUid = await lookupFriendCode(code);
+      if (!studentUid) {
+        setInviteError('No user found. Check the username or code and try again.');
+        return;
+      }
+      if (studentUid === uid) {
+        setInviteError("You can't invite yourself.");
+        return;
+      }
+      if (roster.some((entry) => entry.uid === studentUid)) {
+        setInviteError('That student is already in this class.');
+        return;
+      }
+      const profile = await getUserPublicProfile(studentUid);
+      const entry = await inviteStudent(classroom, studentUid, profile?.displayName || 'Player');
+      setRoster((prev) => [...prev, entry]);
+      setInviteInput('');
+    } catch (err) {
+      logger.warn('[TeacherDashboard] Failed to invite student:', err);
+      setInviteError('Could not send the invite. Please try again.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = (classroom: Classroom, entry: RosterEntry) => {
+    Alert.alert('Remove Student', `Remove ${entry.displayName} from ${classroom.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const otherClassIds = classes.filter((c) => c.id !== classroom.id).map((c) => c.id);
+            await removeStudent(classroom, entry.uid, otherClassIds);
+            setRoster((prev) => prev.filter((e) => e.uid !== entry.uid));
+          } catch (err) {
+            logger.warn('[TeacherDashboard] Failed to remove student:', err);
+            Alert.alert('Error', 'Could not remove the student. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleExpand = async (entry: RosterEntry) => {
+    if (expandedUid === entry.uid) {
+      setExpandedUid(null);
+      return;
+    }
+    setExpandedUid(entry.uid);
+    try {
+      const progress = await getStudentProgress(entry.uid);
+      setStudentProgress((prev) => ({ ...prev, [entry.uid]: progress }));
+    } catch (err) {
+      logger.warn('[TeacherDashboard] Failed to load student progress:', err);
+    }
+  };
+
+  const handleDeleteAssignment = (assignment: Assignment) => {
+    Alert.alert('Delete Assignment', `Delete "${assignment.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteAssignment(assignment.classId, assignment.id);
+            setAssignments((prev) => prev.filter((a) => a.id !== assignment.id));
+          } catch (err) {
+            logger.warn('[TeacherDashboard] Failed to delete assignment:', err);
+            Alert.alert('Error', 'Could not delete the assignment. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  // ── Student progress ────────────────────────────────────────
+
+  const renderProgress = (entry: RosterEntry) => {
+    const progress = studentProgress[entry.uid];
+    if (!progress) {
+      return <ActivityIndicator color={COLORS.primary} style={styles.progressLoading} />;
+    }
+    if (assignments.length === 0) {
+      return <Text style={styles.hint}>No assignments set yet.</Text>;
+    }
+    const doneCount = assignments.filter((a) => isAssignmentDone(a, progress)).length;
+    return (
+      <View style={styles.progressList} testID={`student-progress-${entry.uid}`}>
+        <Text style={styles.progressSummary}>
+          {doneCount} of {assignments.length} assignments done
+        </Text>
+        {assignments.map((assignment) => {
+          const status = assignmentStatus(assignment, progress, today);
+          const score = assignmentScore(assignment, progress);
+          return (
+            <View key={assignment.id} style={styles.progressRow}>
+              <Text style={styles.progressTitle} numberOfLines={1}>{assignment.title}</Text>
+              <Text style={styles.progressScore}>{score == null ? '—' : `${Math.round(score)}%`}</Text>
+              <Text style={[styles.progressStatus, { color: STATUS_COLORS[status] }]}>{STATUS_LABELS[status]}</Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  // ── Selected class ──────────────────────────────────────────
+
+  const renderClass = (classroom: Classroom) => (
+    <>
+      <View style={styles.card} testID="class-roster">
+        <Text style={styles.sectionLabel}>Students</Text>
+        {roster.length === 0 && !isLoadingClass && (
+          <Text style={styles.hint}>Invite students with their username or friend code.</Text>
+        )}
+        {roster.map((entry) => (
+          <View key={entry.uid}>
+            <View style={styles.rosterRow}>
+              <PressableScale
+                style={styles.rosterName}
+                onPress={() => handleExpand(entry)}
+                disabled={entry.status !== 'joined'}
+                testID={`roster-${entry.uid}`}
+              >
+                <Text style={styles.rowTitle}>{entry.displayName}</Text>
+                <Text style={styles.hint}>{entry.status === 'joined' ? 'Joined' : 'Invited'}</Text>
+              </PressableScale>
+              <PressableScale onPress={() => handleRemove(classroom, entry)} testID={`roster-remove-${entry.uid}`}>
+                <MaterialCommunityIcons name="account-remove-outline" size={20} color={COLORS.textMuted} />
+              </PressableScale>
+            </View>
+            {expandedUid === entry.uid && renderProgress(entry)}
+          </View>
+        ))}
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.input, styles.flex]}
+            value={inviteInput}
+            onChangeText={(text) => {
+              setInviteInput(text);
+              setInviteError(null);
+            }}
+            placeholder="Username or friend code"
+            placeholderTextColor={COLORS.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID="invite-input"
+          />
+          <Button
+            title="Invite"
+            onPress={() => handleInvite(classroom)}
+            disabled={!inviteInput.trim() || isInviting}
+            loading={isInviting}
+            testID="invite-button"
+          />
+        </View>
+        {inviteError && <Text style={styles.error}>{inviteError}</Text>}
+      </View>
+
+      <View style={styles.card} testID="class-assignments">
+        <Text style={styles.sectionLabel}>Assignments</Text>
+        {assignments.length === 0 && !isLoadingClass && (
+          <Text style={styles.hint}>Nothing assigned yet.</Text>
+        )}
+        {assignments.map((assignment) => (
+          <View key={assignment.id} style={styles.rosterRow}>
+            <View style={styles.flex}>
+              <Text style={styles.rowTitle} numberOfLines={1}>{assignment.title}</Text>
+              <Text style={styles.hint}>
+                {describeDueDate(assignment.dueDate, today)}
+                {assignment.targetTempo ? ` · ${assignment.targetTempo} BPM` : ''}
+              </Text>
+            </View>
+            <PressableScale onPress={() => handleDeleteAssignment(assignment)} testID={`assignment-delete-${assignment.id}`}>
+              <MaterialCommunityIcons name="trash-can-outline" size={20} color={COLORS.textMuted} />
+            </PressableScale>
+          </View>
+        ))}
+      </View>
+
+      <AssignmentForm
+        classId={classroom.id}
+        onCreated={(assignment) =>
+          setAssignments((prev) => [...prev, assignment].sort((a, b) => a.dueDate.localeCompare(b.dueDate)))
+        }
+      />
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} testID="teacher-dashboard-screen">
+      <GradientMeshBackground accent="social" />
+      <View style={styles.header}>
+        <PressableScale onPress={() => navigation.goBack()} testID="teacher-dashboard-back">
+          <MaterialCommunityIcons name="arrow-left" size={24} color={COLORS.textPrimary} />
+        </PressableScale>
+        <Text style={styles.headerTitle}>Teacher Dashboard</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.panel} keyboardShouldPersistTaps="handled">
+        <View style={styles.chipRow}>
+          {classes.map((classroom) => (
+            <PressableScale
+              key={classroom.id}
+              style={[styles.chip, selectedClass?.id === classroom.id && styles.chipActive]}
+              onPress={() => setSelectedClassId(classroom.id)}
+              testID={`class-chip-${classroom.id}`}
+            >
+              <Text style={[styles.chipText, selectedClass?.id === classroom.id && styles.chipTextActive]}>
+                {classroom.name}
+              </Text>
+            </PressableScale>
+          ))}
+        </View>
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.input, styles.flex]}
+            value={classNameInput}
+            onChangeText={setClassNameInput}
+            placeholder={classes.length === 0 ? 'Name your first class' : 'New class'}
+            placeholderTextColor={COLORS.textMuted}
+            maxLength={CLASS_NAME_MAX_LENGTH}
+            testID="class-name-input"
+          />
+          <Button
+            title="Create"
+            onPress={handleCreateClass}
+            disabled={!classNameInput.trim() || isCreating}
+            loading={isCreating}
+            testID="class-create"
+          />
+        </View>
+
+        {isLoadingClass && <ActivityIndicator color={COLORS.primary} />}
+        {selectedClass && renderClass(selectedClass)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  headerTitle: {
+    ...TYPOGRAPHY.heading.md,
+    color: COLORS.textPrimary,
+  },
+  panel: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.lg,
+    gap: SPACING.md,
+  },
+  card: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+  },
+  sectionLabel: {
+    ...TYPOGRAPHY.heading.sm,
+    color: COLORS.textPrimary,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.textMuted,
+  },
+  error: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.error,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  flex: {
+    flex: 1,
+  },
+  field: {
+    flex: 1,
+    gap: SPACING.xs,
+  },
+  input: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    backgroundColor: COLORS.background,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+    color: COLORS.textPrimary,
+    ...TYPOGRAPHY.body.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+    maxWidth: '100%',
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textSecondary,
+  },
+  chipTextActive: {
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  rosterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  rosterName: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...TYPOGRAPHY.body.md,
+    color: COLORS.textPrimary,
+  },
+  progressLoading: {
+    paddingVertical: SPACING.sm,
+  },
+  progressList: {
+    paddingLeft: SPACING.md,
+    paddingBottom: SPACING.sm,
+    gap: SPACING.xs,
+  },
+  progressSummary: {
+    ...TYPOGRAPHY.caption.md,
+    color: COLORS.textSecondary,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  progressTitle: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textPrimary,
+    flex: 1,
+  },
+  progressScore: {
+    ...TYPOGRAPHY.body.sm,
+    color: COLORS.textSecondary,
+    width: 44,
+    textAlign: 'right',
+  },
+  progressStatus: {
+    ...TYPOGRAPHY.caption.md,
+    width: 64,
+    textAlign: 'right',
+  },
+});
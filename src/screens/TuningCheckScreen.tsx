@@ -0,0 +1,460 @@
+/**
+ * TuningCheckScreen — measures how an acoustic piano is tuned
+ *
+ * Walks the keyboard octave by octave (C, E and A of each), listening to each
+ * key through the mic's YIN detector. Shows the piano's tuning curve and
+ * saves the overall offset, so mic detection maps a piano tuned flat or sharp
+ * as a whole onto the keys the learner actually played.
+ */
+
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { COLORS, SPACING, BORDER_RADIUS, TYPOGRAPHY, SHADOWS, GRADIENTS, glowColor } from '../theme/tokens';
+import { PressableScale } from '../components/common/PressableScale';
+import { GradientMeshBackground } from '../components/effects';
+import { useSettingsStore } from '../stores/settingsStore';
+import {
+  AudioCapture,
+  configureAudioSessionForRecording,
+  requestMicrophonePermission,
+} from '../input/AudioCapture';
+import { YINPitchDetector } from '../input/PitchDetector';
+import { AMBIENT_PITCH_OVERRIDES } from '../input/MicDetectionPresets';
+import {
+  NEEDS_TUNING_SPREAD_CENTS,
+  SURVEY_NOTES,
+  measureKey,
+  readingCents,
+  summarizeTuning,
+  type KeyTuning,
+  type TuningSummary,
+} from '../input/TuningSurvey';
+import { midiToNoteName } from '../core/music/MusicTheory';
+import { tuningCentsToA4 } from '../core/music/pitchUtils';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import { logger } from '../utils/logger';
+
+type NavProp = NativeStackNavigationProp<RootStackParamList>;
+
+type SurveyStep = 'intro' | 'starting' | 'listening' | 'result' | 'denied';
+
+/** Height of the tuning curve; bars reach the edge at ±CURVE_RANGE_CENTS */
+const CURVE_HEIGHT = 160;
+const CURVE_RANGE_CENTS = 50;
+
+/**
+ * Stream voiced YIN frequencies from the mic while `active`. Measures raw
+ * pitch against A=440 — the saved offset must not bias its own survey.
+ */
+function usePitchStream(active: boolean, onFrequency: (frequency: number) => void): void {
+  const onFrequencyRef = useRef(onFrequency);
+  onFrequencyRef.current = onFrequency;
+
+  useEffect(() => {
+    if (!active) return;
+    const capture = new AudioCapture();
+    const detector = new YINPitchDetector({
+      ...AMBIENT_PITCH_OVERRIDES,
+      minFrequency: 60, // Below C2
+      maxFrequency: 2000, // Above A6
+      tuningOffsetCents: 0,
+    });
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    (async () => {
+      try {
+        configureAudioSessionForRecording();
+        await capture.initialize();
+        if (cancelled) return;
+        let rateChecked = false;
+        unsubscribe = capture.onAudioBuffer((samples) => {
+          if (!rateChecked) {
+            rateChecked = true;
+            const actualRate = capture.getActualSampleRate();
+            if (actualRate && actualRate !== detector.getSampleRate()) detector.setSampleRate(actualRate);
+          }
+          const result = detector.detect(samples);
+          if (result.voiced) onFrequencyRef.current(result.frequency);
+        });
+        await capture.start();
+      } catch (error) {
+        logger.warn('[TuningCheck] Mic capture failed:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      capture.stop().catch(() => {});
+      capture.dispose();
+    };
+  }, [active]);
+}
+
+export function TuningCheckScreen() {
+  const navigation = useNavigation<NavProp>();
+  const savedOffset = useSettingsStore((s) => s.micTuningOffsetCents);
+  const setMicTuningOffsetCents = useSettingsStore((s) => s.setMicTuningOffsetCents);
+
+  const [step, setStep] = useState<SurveyStep>('intro');
+  const [keyIndex, setKeyIndex] = useState(0);
+  const [liveCents, setLiveCents] = useState<number | null>(null);
+  const [measured, setMeasured] = useState<KeyTuning[]>([]);
+  const [summary, setSummary] = useState<TuningSummary | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const readingsRef = useRef<number[]>([]);
+
+  const currentNote = SURVEY_NOTES[keyIndex];
+
+  const finishSurvey = useCallback((keys: KeyTuning[]) => {
+    const result = summarizeTuning(keys);
+    if ('error' in result) {
+      setErrorMessage(result.error);
+      setSummary(null);
+    } else {
+      logger.log(`[TuningCheck] A4=${result.a4Frequency}Hz (${result.offsetCents} cents, spread ${result.spreadCents})`);
+      setErrorMessage(null);
+      setSummary(result);
+    }
+    setStep('result');
+  }, []);
+
+  const advance = useCallback((keys: KeyTuning[]) => {
+    readingsRef.current = [];
+    setLiveCents(null);
+    setMeasured(keys);
+    if (keyIndex + 1 >= SURVEY_NOTES.length) {
+      finishSurvey(keys);
+    } else {
+      setKeyIndex(keyIndex + 1);
+    }
+  }, [keyIndex, finishSurvey]);
+
+  const handleFrequency = useCallback((frequency: number) => {
+    const cents = readingCents(frequency, currentNote);
+    if (cents === null) return;
+    readingsRef.current.push(frequency);
+    setLiveCents(cents);
+    const key = measureKey(currentNote, readingsRef.current);
+    if (key) advance([...measured, key]);
+  }, [currentNote, measured, advance]);
+
+  usePitchStream(step === 'listening', handleFrequency);
+
+  const handleStart = useCallback(async () => {
+    setStep('starting');
+    const granted = await requestMicrophonePermission();
+    if (!granted) {
+      setStep('denied');
+      return;
+    }
+    readingsRef.current = [];
+    setKeyIndex(0);
+    setMeasured([]);
+    setLiveCents(null);
+    setSummary(null);
+    setStep('listening');
+  }, []);
+
+  const handleSave = useCallback((cents: number) => {
+    setMicTuningOffsetCents(cents);
+    navigation.goBack();
+  }, [setMicTuningOffsetCents, navigation]);
+
+  const handleGoBack = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  const octave = Math.floor(currentNote / 12) - 1;
+
+  return (
+    <SafeAreaView style={styles.container} testID="tuning-check-screen">
+      <GradientMeshBackground accent="profile" />
+      <LinearGradient
+        colors={[GRADIENTS.header[0], GRADIENTS.header[1], COLORS.background]}
+        style={styles.header}
+      >
+        <View style={styles.headerRow}>
+          <PressableScale onPress={handleGoBack} style={styles.backButton}>
+            <MaterialCommunityIcons name="arrow-left" size={24} color={COLORS.textPrimary} />
+          </PressableScale>
+          <Text style={styles.title}>Piano Tuning</Text>
+          <View style={styles.backButton} />
+        </View>
+      </LinearGradient>
+
+      <View style={styles.content}>
+        {step === 'intro' && (
+          <>
+            <View style={styles.iconCircle}>
+              <MaterialCommunityIcons name="tune-vertical" size={48} color={COLORS.primary} />
+            </View>
+            <Text style={styles.heading}>Check Your Piano's Tuning</Text>
+            <Text style={styles.body}>
+              {savedOffset !== 0
+                ? `Currently listening for A4 = ${tuningCentsToA4(savedOffset).toFixed(1)} Hz.`
+                : 'Currently listening for standard tuning (A4 = 440 Hz).'}
+              {' '}Play {SURVEY_NOTES.length} keys, octave by octave, and the microphone
+              will learn how your piano is tuned so its notes aren't marked wrong.
+            </Text>
+
+            <PressableScale
+              style={styles.primaryButton}
+              onPress={handleStart}
+              testID="tuning-check-start"
+            >
+              <MaterialCommunityIcons name="microphone" size={20} color={COLORS.textPrimary} />
+              <Text style={styles.primaryButtonText}>Start Tuning Check</Text>
+            </PressableScale>
+
+            {savedOffset !== 0 && (
+              <PressableScale
+                style={styles.secondaryButton}
+                onPress={() => handleSave(0)}
+                testID="tuning-check-reset"
+              >
+                <Text style={styles.secondaryButtonText}>Reset to A = 440 Hz</Text>
+              </PressableScale>
+            )}
+          </>
+        )}
+
+        {step === 'starting' && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+            <Text style={styles.body}>Getting the microphone ready...</Text>
+          </View>
+        )}
+
+        {step === 'listening' && (
+          <>
+            <Text style={styles.progressText}>
+              Octave {octave} · key {keyIndex + 1} of {SURVEY_NOTES.length}
+            </Text>
+            <Text style={styles.heading}>Play {midiToNoteName(currentNote)}</Text>
+            <Text style={styles.body}>Hold the key down until it moves on.</Text>
+            <CentsNeedle cents={liveCents} />
+
+            <PressableScale
+              style={styles.secondaryButton}
+              onPress={() => advance(measured)}
+              testID="tuning-check-skip"
+            >
+              <Text style={styles.secondaryButtonText}>Skip This Key</Text>
+            </PressableScale>
+            <PressableScale style={styles.secondaryButton} onPress={() => finishSurvey(measured)}>
+              <Text style={styles.secondaryButtonText}>Finish Now</Text>
+            </PressableScale>
+          </>
+        )}
+
+        {step === 'result' && (
+          <>
+            <TuningCurve keys={measured} offsetCents={summary?.offsetCents ?? 0} />
+            {summary ? (
+              <>
+                <Text style={styles.heading}>A4 = {summary.a4Frequency.toFixed(1)} Hz</Text>
+                <Text style={styles.body}>
+                  {Math.abs(summary.offsetCents) < 3
+                    ? 'Your piano is at standard pitch.'
+                    : `Your piano is ${Math.abs(summary.offsetCents).toFixed(0)} cents ` +
+                      `${summary.offsetCents < 0 ? 'flat' : 'sharp'} overall.`}
+                  {summary.spreadCents > NEEDS_TUNING_SPREAD_CENTS &&
+                    ` Some keys are ${summary.spreadCents} cents off from the rest — a piano tuner can fix that.`}
+                </Text>
+                <PressableScale
+                  style={styles.primaryButton}
+                  onPress={() => handleSave(summary.offsetCents)}
+                  testID="tuning-check-save"
+                >
+                  <Text style={styles.primaryButtonText}>Use This Tuning</Text>
+                </PressableScale>
+              </>
+            ) : (
+              <>
+                <Text style={styles.heading}>Couldn't Measure</Text>
+                <Text style={styles.body}>
+                  {errorMessage}. Play each key firmly, close to the phone, in a quiet room.
+                </Text>
+              </>
+            )}
+            <PressableScale style={styles.secondaryButton} onPress={handleStart}>
+              <Text style={styles.secondaryButtonText}>Try Again</Text>
+            </PressableScale>
+          </>
+        )}
+
+        {step === 'denied' && (
+          <>
+            <View style={[styles.iconCircle, { backgroundColor: glowColor(COLORS.primary, 0.15) }]}>
+              <MaterialCommunityIcons name="microphone-off" size={48} color={COLORS.error} />
+            </View>
+            <Text style={styles.heading}>Microphone Needed</Text>
+            <Text style={styles.body}>
+              The tuning check listens to your piano. Grant microphone access for
+              Purrrfect Keys in your device Settings and try again.
+            </Text>
+            <PressableScale style={styles.primaryButton} onPress={handleGoBack}>
+              <Text style={styles.primaryButtonText}>Back</Text>
+            </PressableScale>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+function centsColor(cents: number): string {
+  const off = Math.abs(cents);
+  if (off <= 10) return COLORS.success;
+  return off <= NEEDS_TUNING_SPREAD_CENTS ? COLORS.warning : COLORS.error;
+}
+
+/** Live deviation of the key being measured: centre = in tune */
+function CentsNeedle({ cents }: { cents: number | null }) {
+  const position = cents === null ? 0.5 : 0.5 + Math.max(-1, Math.min(1, cents / CURVE_RANGE_CENTS)) / 2;
+  return (
+    <View style={styles.needleCard} testID="tuning-check-needle">
+      <View style={styles.needleTrack}>
+        <View style={styles.needleCenter} />
+        {cents !== null && (
+          <View style={[styles.needle, { left: `${position * 100}%`, backgroundColor: centsColor(cents) }]} />
+        )}
+      </View>
+      <Text style={styles.needleLabel}>
+        {cents === null ? 'Listening...' : `${cents > 0 ? '+' : ''}${cents.toFixed(0)} cents`}
+      </Text>
+    </View>
+  );
+}
+
+/** One bar per measured key: up = sharp, down = flat, dashed line = overall offset */
+function TuningCurve({ keys, offsetCents }: { keys: KeyTuning[]; offsetCents: number }) {
+  const half = CURVE_HEIGHT / 2;
+  const toPx = (cents: number) => (Math.max(-CURVE_RANGE_CENTS, Math.min(CURVE_RANGE_CENTS, cents)) / CURVE_RANGE_CENTS) * half;
+
+  return (
+    <View style={styles.curveCard} testID="tuning-check-curve">
+      <View style={[styles.curvePlot, { height: CURVE_HEIGHT }]}>
+        <View style={[styles.curveZero, { top: half }]} />
+        <View style={[styles.curveOffset, { top: half - toPx(offsetCents) }]} />
+        {SURVEY_NOTES.map((note) => {
+          const key = keys.find((k) => k.note === note);
+          const height = key ? Math.max(2, Math.abs(toPx(key.cents))) : 0;
+          return (
+            <View key={note} style={styles.curveColumn}>
+              {key && (
+                <View
+                  style={[
+                    styles.curveBar,
+                    {
+                      height,
+                      top: key.cents >= 0 ? half - height : half,
+                      backgroundColor: centsColor(key.cents - offsetCents),
+                    },
+                  ]}
+                />
+              )}
+            </View>
+          );
+        })}
+      </View>
+      <View style={styles.curveLabels}>
+        {SURVEY_NOTES.map((note) => (
+          <Text key={note} style={styles.curveLabel}>
+            {note % 12 === 0 ? midiToNoteName(note) : ''}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: COLORS.background },
+  header: { paddingTop: 16, paddingBottom: 16, paddingHorizontal: SPACING.lg },
+  headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  backButton: {
+    width: 40, height: 40, borderRadius: 20,
+    alignItems: 'center', justifyContent: 'center',
+    backgroundColor: glowColor(COLORS.textPrimary, 0.08),
+  },
+  title: { ...TYPOGRAPHY.heading.md, color: COLORS.textPrimary },
+  content: {
+    flex: 1, paddingHorizontal: SPACING.xl,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  centered: { alignItems: 'center', gap: SPACING.md },
+  iconCircle: {
+    width: 96, height: 96, borderRadius: 48,
+    backgroundColor: glowColor(COLORS.primary, 0.15),
+    alignItems: 'center', justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  heading: {
+    ...TYPOGRAPHY.heading.lg, color: COLORS.textPrimary,
+    textAlign: 'center', marginBottom: SPACING.sm,
+  },
+  body: {
+    ...TYPOGRAPHY.body.md, color: COLORS.textSecondary,
+    textAlign: 'center', lineHeight: 22, marginBottom: SPACING.lg,
+  },
+  progressText: { ...TYPOGRAPHY.body.sm, color: COLORS.textMuted, marginBottom: SPACING.xs },
+  needleCard: { width: '100%', alignItems: 'center', gap: SPACING.sm, marginBottom: SPACING.lg },
+  needleTrack: {
+    width: '100%', height: 24, borderRadius: BORDER_RADIUS.md,
+    backgroundColor: glowColor(COLORS.textPrimary, 0.08),
+  },
+  needleCenter: {
+    position: 'absolute', left: '50%', top: 0, bottom: 0, width: 2,
+    backgroundColor: COLORS.textMuted,
+  },
+  needle: { position: 'absolute', top: 0, bottom: 0, width: 6, marginLeft: -3, borderRadius: 3 },
+  needleLabel: { ...TYPOGRAPHY.body.md, color: COLORS.textSecondary },
+  curveCard: {
+    width: '100%', padding: SPACING.md, marginBottom: SPACING.lg,
+    borderRadius: BORDER_RADIUS.md, backgroundColor: glowColor(COLORS.textPrimary, 0.05),
+  },
+  curvePlot: { flexDirection: 'row' },
+  curveZero: {
+    position: 'absolute', left: 0, right: 0, height: 1,
+    backgroundColor: COLORS.textMuted,
+  },
+  curveOffset: {
+    position: 'absolute', left: 0, right: 0, height: 0,
+    borderTopWidth: 1, borderStyle: 'dashed', borderColor: COLORS.primaryLight,
+  },
+  curveColumn: { flex: 1, alignItems: 'center' },
+  curveBar: { position: 'absolute', width: 8, borderRadius: 2 },
+  curveLabels: { flexDirection: 'row', marginTop: SPACING.xs },
+  curveLabel: { flex: 1, ...TYPOGRAPHY.body.sm, color: COLORS.textMuted, textAlign: 'center' },
+  primaryButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center',
+    gap: SPACING.xs, backgroundColor: COLORS.primary,
+    paddingVertical: 14, paddingHorizontal: SPACING.xl,
+    borderRadius: BORDER_RADIUS.full, width: '100%',
+    ...SHADOWS.md,
+  },
+  primaryButtonText: {
+    ...TYPOGRAPHY.button.lg, color: COLORS.textPrimary, fontWeight: '700',
+  },
+  secondaryButton: {
+    paddingVertical: 12, paddingHorizontal: SPACING.xl, marginTop: SPACING.md,
+  },
+  secondaryButtonText: {
+    ...TYPOGRAPHY.body.md, color: COLORS.textMuted,
+  },
+});
+
+export default TuningCheckScreen;
@@ -50,6 +50,7 @@ const mockSignOut = jest.fn(() => Promise.resolve());
 const mockDeleteAccount = jest.fn(() => Promise.resolve());
 const mockUpdateDisplayName = jest.fn(() => Promise.resolve());
 const mockClearError = jest.fn();
+const mockSetRole = jest.fn(() => Promise.resolve());
 
 let mockAuthState: any = {
   user: { displayName: 'Test User', email: 'test@example.com', uid: '123' },
@@ -61,6 +62,8 @@ let mockAuthState: any = {
   deleteAccount: mockDeleteAccount,
   updateDisplayName: mockUpdateDisplayName,
   clearError: mockClearError,
+  role: 'student',
+  setRole: mockSetRole,
   linkWithGoogle: jest.fn(),
   linkWithApple: jest.fn(),
 };
@@ -101,6 +104,7 @@ describe('AccountScreen', () => {
     mockAuthState.isAuthenticated = true;
     mockAuthState.isLoading = false;
     mockAuthState.error = null;
+    mockAuthState.role = 'student';
   });
 
   // =========================================================================
@@ -212,6 +216,26 @@ describe('AccountScreen', () => {
       fireEvent.press(getByText('Something went wrong'));
       expect(mockClearError).toHaveBeenCalledTimes(1);
     });
+
+    it('opens the Teacher Dashboard for teachers', () => {
+      mockAuthState.role = 'teacher';
+      const { getByTestId } = render(<AccountScreen />);
+      fireEvent.press(getByTestId('teacher-dashboard-row'));
+      expect(mockNavigate).toHaveBeenCalledWith('TeacherDashboard');
+    });
+
+    it('asks a student to confirm before becoming a teacher', async () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const { getByTestId } = render(<AccountScreen />);
+      fireEvent.press(getByTestId('teacher-dashboard-row'));
+      expect(mockNavigate).not.toHaveBeenCalled();
+
+      const buttons = alertSpy.mock.calls[0][2] as Array<{ text: string; onPress?: () => Promise<void> }>;
+      await buttons.find((b) => b.text === 'Become a Teacher')!.onPress!();
+      expect(mockSetRole).toHaveBeenCalledWith('teacher');
+      expect(mockNavigate).toHaveBeenCalledWith('TeacherDashboard');
+      alertSpy.mockRestore();
+    });
   });
 
   // =========================================================================
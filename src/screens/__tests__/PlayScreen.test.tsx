@@ -165,6 +165,11 @@ jest.mock('../../components/FreePlay/TempoTrainerWidget', () => ({
   },
 }));
 
+// Mock MIDI export (expo-sharing / expo-file-system are native modules)
+jest.mock('../../services/midiExport', () => ({
+  shareMidiFile: jest.fn().mockResolvedValue(true),
+}));
+
 // Mock InputManager
 jest.mock('../../input/InputManager', () => ({
   InputManager: jest.fn().mockImplementation(() => ({
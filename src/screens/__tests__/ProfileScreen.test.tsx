@@ -80,11 +80,13 @@ let mockSettingsState: any = {
   setDisplayName: jest.fn(),
   setSelectedCatId: jest.fn(),
   setAvatarEmoji: jest.fn(),
+  instruments: { user: 'piano', accompaniment: 'piano', demo: 'piano' },
+  setInstrument: jest.fn(),
 };
 jest.mock('../../stores/settingsStore', () => ({
   useSettingsStore: Object.assign(
     (sel?: any) => (sel ? sel(mockSettingsState) : mockSettingsState),
-    { getState: () => mockSettingsState }
+    { getState: () => mockSettingsState, subscribe: () => () => {} }
   ),
 }));
 
@@ -7,9 +7,14 @@
 
 import React from 'react';
 import { render, fireEvent } from '@testing-library/react-native';
-import { SongPlayerScreen, sectionToExercise } from '../SongPlayerScreen';
+import {
+  SongPlayerScreen,
+  sectionToExercise,
+  fullSongToExercise,
+  computePerSectionScores,
+} from '../SongPlayerScreen';
 import type { Song, SongSection, SongMastery } from '@/core/songs/songTypes';
-import type { NoteEvent } from '@/core/exercises/types';
+import type { ExerciseScore, NoteEvent } from '@/core/exercises/types';
 
 // ---------------------------------------------------------------------------
 // Navigation mock
@@ -17,10 +22,11 @@ import type { NoteEvent } from '@/core/exercises/types';
 
 const mockNavigate = jest.fn();
 const mockGoBack = jest.fn();
+let mockRouteParams: Record<string, unknown> = { songId: 'test-song-1' };
 
 jest.mock('@react-navigation/native', () => ({
   useNavigation: () => ({ navigate: mockNavigate, goBack: mockGoBack }),
-  useRoute: () => ({ params: { songId: 'test-song-1' } }),
+  useRoute: () => ({ params: mockRouteParams }),
   useFocusEffect: (_cb: () => void) => {
     // Don't call the focus callback during tests to avoid exerciseStore side effects
   },
@@ -147,6 +153,7 @@ describe('SongPlayerScreen', () => {
     mockCurrentSong = makeSong();
     mockIsLoadingSong = false;
     mockGetMastery.mockReturnValue(null);
+    mockRouteParams = { songId: 'test-song-1' };
   });
 
   // ── Rendering ───────────────────────────────────────────────
@@ -241,6 +248,18 @@ describe('SongPlayerScreen', () => {
     );
   });
 
+  it('opens an assigned section at the target tempo', () => {
+    mockRouteParams = { songId: 'test-song-1', sectionId: 'chorus', targetTempo: 90, assignmentId: 'a2' };
+    const { getByTestId } = render(<SongPlayerScreen />);
+    fireEvent.press(getByTestId('play-button'));
+    // Written at 120 BPM, so 90 BPM is three-quarter speed
+    expect(mockNavigate).toHaveBeenCalledWith('Exercise', {
+      exerciseId: 'test-song-1-chorus-melody',
+      playbackSpeed: 0.75,
+      assignmentId: 'a2',
+    });
+  });
+
   it('back button calls goBack', () => {
     const { getByTestId } = render(<SongPlayerScreen />);
     fireEvent.press(getByTestId('back-button'));
@@ -260,6 +279,20 @@ describe('SongPlayerScreen', () => {
     const { getByTestId } = render(<SongPlayerScreen />);
     expect(getByTestId('loop-toggle')).toBeTruthy();
   });
+
+  // ── Duet ────────────────────────────────────────────────────
+
+  it('duet button opens the selected section as a duet', () => {
+    const { getByTestId } = render(<SongPlayerScreen />);
+    fireEvent.press(getByTestId('duet-button'));
+    expect(mockNavigate).toHaveBeenCalledWith('Duet', { songId: 'test-song-1', sectionId: 'verse-1' });
+  });
+
+  it('hides the duet button for the full song', () => {
+    const { getByTestId, queryByTestId } = render(<SongPlayerScreen />);
+    fireEvent.press(getByTestId('section-full-song'));
+    expect(queryByTestId('duet-button')).toBeNull();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -309,3 +342,46 @@ describe('sectionToExercise', () => {
     expect(exercise.metadata.skills).toContain('pop');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Full song with repeats
+// ---------------------------------------------------------------------------
+
+describe('fullSongToExercise with a repeat structure', () => {
+  const song: Song = {
+    ...makeSong(),
+    sections: [
+      { ...makeSection('verse-1', 'Verse 1'), startBeat: 0, endBeat: 4 },
+      { ...makeSection('chorus', 'Chorus'), startBeat: 4, endBeat: 8 },
+    ],
+    structure: { repeats: [{ startSectionId: 'verse-1', endSectionId: 'verse-1' }] },
+  };
+
+  it('lays the repeated section out twice', () => {
+    const exercise = fullSongToExercise(song, 'melody', false);
+    expect(exercise.notes.map((n) => n.startBeat)).toEqual([0, 1, 2, 4, 5, 6, 8, 9, 10]);
+  });
+
+  it('scores a repeated section over both passes', () => {
+    const exercise = fullSongToExercise(song, 'melody', false);
+    // Every note of the first pass hit, every note of the second missed
+    const details = exercise.notes.map((expected) => ({
+      expected,
+      played: null,
+      timingOffsetMs: 0,
+      timingScore: expected.startBeat < 4 ? 100 : 0,
+      isCorrectPitch: expected.startBeat < 4,
+      isExtraNote: false,
+      isMissedNote: expected.startBeat >= 4,
+    }));
+    const scores = computePerSectionScores({ details } as unknown as ExerciseScore, [
+      { id: 'verse-1', startBeat: 0, endBeat: 4 },
+      { id: 'verse-1', startBeat: 4, endBeat: 8 },
+      { id: 'chorus', startBeat: 8, endBeat: 12 },
+    ]);
+    expect(Object.keys(scores)).toEqual(['verse-1', 'chorus']);
+    expect(scores['verse-1']).toBeGreaterThan(0);
+    expect(scores['verse-1']).toBeLessThan(100);
+    expect(scores.chorus).toBe(0);
+  });
+});
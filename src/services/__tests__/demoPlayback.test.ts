@@ -267,9 +267,10 @@ describe('DemoPlaybackService', () => {
 
     jest.advanceTimersByTime(5000);
 
-    // All playNote calls should use velocity 0.7
+    // All playNote calls should use velocity 0.7 and the demo instrument
     for (const call of mockAudioEngine.playNote.mock.calls) {
       expect(call[1]).toBe(0.7);
+      expect(call[2]).toBe('demo');
     }
 
     service.stop();
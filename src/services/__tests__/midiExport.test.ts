@@ -0,0 +1,55 @@
+/**
+ * MIDI export service tests — cache file + share sheet
+ */
+
+const mockWriteAsStringAsync = jest.fn().mockResolvedValue(undefined);
+const mockIsAvailableAsync = jest.fn().mockResolvedValue(true);
+const mockShareAsync = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { Base64: 'base64' },
+  writeAsStringAsync: (...args: unknown[]) => mockWriteAsStringAsync(...args),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: () => mockIsAvailableAsync(),
+  shareAsync: (...args: unknown[]) => mockShareAsync(...args),
+}));
+
+import { midiFileName, shareMidiFile } from '../midiExport';
+
+describe('midiFileName', () => {
+  it('slugifies the title', () => {
+    expect(midiFileName('C Major Scale (Hands Together)')).toBe('c-major-scale-hands-together.mid');
+    expect(midiFileName('!!!')).toBe('recording.mid');
+  });
+});
+
+describe('shareMidiFile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIsAvailableAsync.mockResolvedValue(true);
+  });
+
+  it('writes the bytes as base64 and opens the share sheet', async () => {
+    const shared = await shareMidiFile(new Uint8Array([0x4d, 0x54, 0x68, 0x64]), 'My Take');
+
+    expect(shared).toBe(true);
+    expect(mockWriteAsStringAsync).toHaveBeenCalledWith('file:///cache/my-take.mid', 'TVRoZA==', {
+      encoding: 'base64',
+    });
+    expect(mockShareAsync).toHaveBeenCalledWith(
+      'file:///cache/my-take.mid',
+      expect.objectContaining({ mimeType: 'audio/midi', UTI: 'public.midi-audio' }),
+    );
+  });
+
+  it('returns false without writing when sharing is unavailable', async () => {
+    mockIsAvailableAsync.mockResolvedValue(false);
+
+    expect(await shareMidiFile(new Uint8Array([1]), 'Nope')).toBe(false);
+    expect(mockWriteAsStringAsync).not.toHaveBeenCalled();
+    expect(mockShareAsync).not.toHaveBeenCalled();
+  });
+});
@@ -184,6 +184,19 @@ describe('assembleSong', () => {
     expect(full.some((n) => n.hand === 'left')).toBe(true);
   });
 
+  it('suggests fingerings for each hand', () => {
+    const song = assembleSong(
+      {
+        ...validRaw,
+        sections: [{ label: 'Verse', melodyABC: validABC, accompanimentABC: 'X:1\nT:LH\nM:4/4\nL:1/4\nK:C\nC,D,E,F,|' }],
+      },
+      'gemini',
+    );
+    const { melody, accompaniment } = song!.sections[0].layers;
+    expect(melody.map((n) => n.finger)).toEqual([1, 2, 3, 1, 2, 3, 4, 5]);
+    expect(accompaniment!.map((n) => n.finger)).toEqual([4, 3, 2, 1]);
+  });
+
   it('normalizes genre strings', () => {
     const classical = assembleSong({ ...validRaw, genre: 'Classical Music' }, 'gemini');
     expect(classical!.metadata.genre).toBe('classical');
@@ -30,8 +30,18 @@ export interface CoachingInput {
 function toCoachRequest(input: CoachingInput): CoachRequest {
   const details = input.score.details ?? [];
 
+  // Chord exercises report whole chords ("played Am instead of C") rather than single notes
+  const chordErrors = (input.score.chordDetails ?? [])
+    .filter((c) => !c.isCorrect)
+    .slice(0, 3)
+    .map((c) => ({
+      expected: c.expected,
+      played: c.played ?? 'missed',
+      beatPosition: c.startBeat,
+    }));
+
   // Missed notes = player didn't play the expected note (pitch error from the learner's perspective)
-  const pitchErrors = details
+  const pitchErrors = chordErrors.length > 0 ? chordErrors : details
     .filter((d) => d.isMissedNote)
     .slice(0, 3)
     .map((d) => ({
@@ -9,12 +9,15 @@
  * - All notes are played (no skipping — demo must be pedagogically accurate)
  * - No timing jitter (demo shows exact rhythm)
  * - Velocity is 0.7 (not full force — gentle demo feel)
+ * - Notes sound on the learner's MIDI keyboard when it has demos enabled
  * - Stateless enough to create fresh instances per exercise attempt
  * - No React imports — pure TypeScript service
  */
 
 import type { Exercise, NoteEvent } from '@/core/exercises/types';
-import type { NoteHandle } from '@/audio/types';
+import { createTempoTimeline, scaleTempo, scaleTempoMap } from '@/core/exercises/tempoMap';
+import type { InstrumentRole, NoteHandle } from '@/audio/types';
+import { midiKeyboardOutput } from '@/input/MidiKeyboardOutput';
 import type {
   ReplayPlan,
   PausePoint,
@@ -31,7 +34,7 @@ import type {
  * Matches IAudioEngine.playNote / releaseNote signatures.
  */
 interface DemoAudioEngine {
-  playNote(note: number, velocity: number): NoteHandle;
+  playNote(note: number, velocity: number, role?: InstrumentRole): NoteHandle;
   releaseNote(handle: NoteHandle): void;
 }
 
@@ -136,14 +139,17 @@ export class DemoPlaybackService {
     this.isPlaying = true;
     this.startTime = Date.now();
     this.onCompleteCallback = onComplete;
-    this.audioEngineRef = audioEngine;
+    const engine = midiKeyboardOutput.routeNotes(audioEngine);
+    this.audioEngineRef = engine;
     this.schedule = generateDemoSchedule(exercise.notes);
     this.scheduledNoteIndices.clear();
     this.releasedNoteIndices.clear();
     this.activeHandles.clear();
 
-    const effectiveTempo = exercise.settings.tempo * speedMultiplier;
-    const msPerBeat = 60000 / effectiveTempo;
+    const timeline = createTempoTimeline({
+      tempo: scaleTempo(exercise.settings.tempo, speedMultiplier),
+      tempoMap: scaleTempoMap(exercise.settings, speedMultiplier),
+    });
 
     // Calculate total duration: last note end + 1 beat buffer, minimum 4 beats
     const totalBeats = Math.max(
@@ -155,7 +161,7 @@ export class DemoPlaybackService {
       if (!this.isPlaying) return;
 
       const elapsed = Date.now() - this.startTime;
-      const currentBeat = elapsed / msPerBeat;
+      const currentBeat = timeline.msToBeat(elapsed);
 
       // Report beat position
       onBeatUpdate?.(currentBeat);
@@ -168,14 +174,14 @@ export class DemoPlaybackService {
         if (!entry.play) continue;
 
         // Convert jitter from ms to beats for beat-based comparison
-        const jitterBeats = entry.jitterMs / msPerBeat;
+        const jitterBeats = entry.jitterMs / timeline.msPerBeatAt(entry.note.startBeat);
         const noteOnBeat = entry.note.startBeat + jitterBeats;
         const noteOffBeat = entry.note.startBeat + entry.note.durationBeats + jitterBeats;
 
         // Trigger note-on when currentBeat reaches the note's start
         if (!this.scheduledNoteIndices.has(i) && currentBeat >= noteOnBeat) {
           this.scheduledNoteIndices.add(i);
-          const handle = audioEngine.playNote(entry.note.note, 0.7);
+          const handle = engine.playNote(entry.note.note, 0.7, 'demo');
           this.activeHandles.set(i, handle);
         }
 
@@ -193,7 +199,7 @@ export class DemoPlaybackService {
           this.releasedNoteIndices.add(i);
           const handle = this.activeHandles.get(i);
           if (handle) {
-            audioEngine.releaseNote(handle);
+            engine.releaseNote(handle);
           }
           this.activeHandles.delete(i);
         }
@@ -273,7 +279,7 @@ export class DemoPlaybackService {
     this.stop();
 
     this.isPlaying = true;
-    this.audioEngineRef = audioEngine;
+    this.audioEngineRef = midiKeyboardOutput.routeNotes(audioEngine);
     this.replayPlan = plan;
     this.replayTempo = tempo;
     this.replayCallbacks = callbacks;
@@ -478,7 +484,7 @@ export class DemoPlaybackService {
           this.scheduledNoteIndices.add(i);
           // Only produce audio for entries marked play: true
           if (entry.play) {
-            const handle = audioEngine.playNote(entry.note.note, 0.7);
+            const handle = audioEngine.playNote(entry.note.note, 0.7, 'demo');
             this.activeHandles.set(i, handle);
           }
         }
@@ -0,0 +1,257 @@
+/**
+ * DuetSession — one player's side of a real-time duet
+ *
+ * Joins a relay room, sets the local clock by the relay's once the partner
+ * is there, and agrees a start time: the host picks the section and parts,
+ * then starts the count-in a few seconds ahead in relay time so both
+ * players' beat 0 falls at the same moment. During play each key goes to
+ * the partner stamped with where it belongs on the shared timeline; at the
+ * end each player sends the score for their own part.
+ *
+ * State changes are pushed to subscribers as whole snapshots.
+ */
+
+import { CLOCK_SYNC_ROUNDS, estimateClock, toLocalTime, toRelayTime } from '../../core/duet/clockSync';
+import type { ClockEstimate, ClockSample } from '../../core/duet/clockSync';
+import { DUET_PROTOCOL_VERSION } from '../../core/duet/duetProtocol';
+import type { DuetPeerMessage, DuetRelayEvent, DuetResult, DuetSetup } from '../../core/duet/duetProtocol';
+import { partnerPart } from '../../core/duet/duetParts';
+import type { DuetPart, PartnerNoteEvent } from '../../core/duet/duetParts';
+import type { DuetTransport } from './DuetTransport';
+
+/** How far ahead of "Start" the count-in begins, so the partner hears in time */
+export const DUET_START_LEAD_MS = 3000;
+
+export type DuetStatus =
+  | 'connecting'
+  /** In the room, waiting for a partner */
+  | 'waiting'
+  | 'syncing'
+  /** Clock synced; the host can start once the partner is ready too */
+  | 'ready'
+  /** Start time agreed (startAt) */
+  | 'playing'
+  /** This player's result is sent */
+  | 'finished'
+  /** Partner left, connection lost, or the relay refused us; see error */
+  | 'ended';
+
+export interface DuetSessionState {
+  status: DuetStatus;
+  room: string;
+  role: 'host' | 'guest' | null;
+  partnerName: string | null;
+  partnerReady: boolean;
+  clock: ClockEstimate | null;
+  setup: DuetSetup | null;
+  /** Local time the count-in begins */
+  startAt: number | null;
+  /** Partner keys this run, in arrival order */
+  partnerNotes: PartnerNoteEvent[];
+  /** How late the partner's latest key arrived */
+  partnerLagMs: number | null;
+  result: DuetResult | null;
+  partnerResult: DuetResult | null;
+  error: string | null;
+}
+
+/** The part this player takes under the host's setup */
+export function ownPart(state: Pick<DuetSessionState, 'role' | 'setup'>): DuetPart | null {
+  if (!state.setup || !state.role) return null;
+  return state.role === 'host' ? state.setup.hostPart : partnerPart(state.setup.hostPart);
+}
+
+export class DuetSession {
+  private state: DuetSessionState;
+  private listeners = new Set<(state: DuetSessionState) => void>();
+  private samples: ClockSample[] = [];
+  private unsubscribers: Array<() => void> = [];
+  private leaving = false;
+
+  constructor(
+    private readonly transport: DuetTransport,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.state = {
+      status: 'connecting',
+      room: '',
+      role: null,
+      partnerName: null,
+      partnerReady: false,
+      clock: null,
+      setup: null,
+      startAt: null,
+      partnerNotes: [],
+      partnerLagMs: null,
+      result: null,
+      partnerResult: null,
+      error: null,
+    };
+  }
+
+  getState(): DuetSessionState {
+    return this.state;
+  }
+
+  /** Returns an unsubscribe function */
+  subscribe(listener: (state: DuetSessionState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async join(room: string, name: string): Promise<void> {
+    this.update({ status: 'connecting', room, error: null });
+    this.unsubscribers.push(
+      this.transport.onEvent((event) => this.handleEvent(event)),
+      this.transport.onClose((reason) => {
+        if (!this.leaving && this.state.status !== 'ended') {
+          this.update({ status: 'ended', error: `Lost the connection to the relay (${reason})` });
+        }
+      }),
+    );
+    try {
+      await this.transport.connect();
+    } catch (error) {
+      this.update({ status: 'ended', error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    this.transport.send({ type: 'join', room, name, version: DUET_PROTOCOL_VERSION });
+  }
+
+  /** Host: choose the section and parts (can change until the start) */
+  chooseSetup(setup: DuetSetup): void {
+    if (this.state.role !== 'host') return;
+    this.update({ setup });
+    this.sendPeer({ type: 'setup', setup });
+  }
+
+  /** Host, synced, partner ready, and not mid-run (a rematch waits for both results) */
+  get canStart(): boolean {
+    const { role, clock, partnerReady, setup, status, partnerResult } = this.state;
+    return role === 'host' && clock !== null && partnerReady && setup !== null &&
+      (status === 'ready' || (status === 'finished' && partnerResult !== null));
+  }
+
+  /** Host: start both players' count-in `leadMs` from now */
+  start(leadMs = DUET_START_LEAD_MS): void {
+    const clock = this.state.clock;
+    if (!this.canStart || !clock) return;
+    const startAt = this.now() + leadMs;
+    this.sendPeer({ type: 'start', startAt: toRelayTime(startAt, clock) });
+    this.beginRun(startAt);
+  }
+
+  /** Send a key this player pressed or released; `atMs` is ms from beat 0 */
+  sendNote(note: number, velocity: number, on: boolean, atMs: number): void {
+    const clock = this.state.clock;
+    if (this.state.status !== 'playing' || !clock) return;
+    this.sendPeer({ type: 'note', note, velocity, on, atMs, sentAt: toRelayTime(this.now(), clock) });
+  }
+
+  /** Send the score for this player's part */
+  finish(result: DuetResult): void {
+    if (this.state.status !== 'playing') return;
+    this.update({ status: 'finished', result });
+    this.sendPeer({ type: 'finish', result });
+  }
+
+  leave(): void {
+    this.leaving = true;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.transport.close();
+    this.update({ status: 'ended' });
+    this.listeners.clear();
+  }
+
+  // --------------------------------------------------------------------------
+
+  private handleEvent(event: DuetRelayEvent): void {
+    switch (event.type) {
+      case 'joined':
+        this.update({ role: event.role, partnerName: event.partnerName, status: 'waiting' });
+        if (event.partnerName !== null) this.startClockSync();
+        break;
+      case 'partner-joined':
+        this.update({ partnerName: event.name, partnerReady: false });
+        if (this.state.setup) this.sendPeer({ type: 'setup', setup: this.state.setup });
+        this.startClockSync();
+        break;
+      case 'partner-left':
+        this.update({ status: 'ended', partnerReady: false, error: `${this.state.partnerName ?? 'Your partner'} left the duet` });
+        break;
+      case 'pong':
+        this.handlePong(event.sentAt, event.relayTime);
+        break;
+      case 'peer':
+        this.handlePeer(event.body);
+        break;
+      case 'error':
+        this.update({ status: 'ended', error: event.message });
+        break;
+    }
+  }
+
+  private handlePeer(message: DuetPeerMessage): void {
+    const clock = this.state.clock;
+    switch (message.type) {
+      case 'setup':
+        if (this.state.role === 'guest') this.update({ setup: message.setup });
+        break;
+      case 'ready':
+        this.update({ partnerReady: true });
+        break;
+      case 'start':
+        if (this.state.role === 'guest' && clock) this.beginRun(toLocalTime(message.startAt, clock));
+        break;
+      case 'note':
+        if (!clock) break;
+        this.update({
+          partnerNotes: [
+            ...this.state.partnerNotes,
+            { note: message.note, velocity: message.velocity, on: message.on, atMs: message.atMs },
+          ],
+          partnerLagMs: Math.max(0, toRelayTime(this.now(), clock) - message.sentAt),
+        });
+        break;
+      case 'finish':
+        this.update({ partnerResult: message.result });
+        break;
+    }
+  }
+
+  private beginRun(startAt: number): void {
+    this.update({ status: 'playing', startAt, partnerNotes: [], partnerLagMs: null, result: null, partnerResult: null });
+  }
+
+  /** Ping the relay CLOCK_SYNC_ROUNDS times, one after another */
+  private startClockSync(): void {
+    this.samples = [];
+    this.update({ status: 'syncing', clock: null });
+    this.ping();
+  }
+
+  private ping(): void {
+    this.transport.send({ type: 'ping', id: this.samples.length, sentAt: this.now() });
+  }
+
+  private handlePong(sentAt: number, relayTime: number): void {
+    if (this.state.status !== 'syncing') return;
+    this.samples.push({ sentAt, relayTime, receivedAt: this.now() });
+    if (this.samples.length < CLOCK_SYNC_ROUNDS) {
+      this.ping();
+      return;
+    }
+    this.update({ status: 'ready', clock: estimateClock(this.samples) });
+    this.sendPeer({ type: 'ready' });
+  }
+
+  private sendPeer(body: DuetPeerMessage): void {
+    this.transport.send({ type: 'peer', body });
+  }
+
+  private update(patch: Partial<DuetSessionState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * DuetTransport — the connection between a duet session and the relay
+ *
+ * DuetSession only talks to this interface, so it runs the same over the
+ * WebSocket relay (WebSocketDuetTransport) and the in-memory one used in
+ * tests (InMemoryDuetRelay).
+ */
+
+import type { DuetRelayEvent, DuetRelayRequest } from '../../core/duet/duetProtocol';
+
+export interface DuetTransport {
+  /** Resolves once requests can be sent; rejects if the relay can't be reached */
+  connect(): Promise<void>;
+  send(request: DuetRelayRequest): void;
+  /** Returns an unsubscribe function */
+  onEvent(listener: (event: DuetRelayEvent) => void): () => void;
+  /** Called once when the connection drops or is closed; returns an unsubscribe function */
+  onClose(listener: (reason: string) => void): () => void;
+  close(): void;
+}
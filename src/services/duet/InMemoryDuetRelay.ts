@@ -0,0 +1,76 @@
+/**
+ * InMemoryDuetRelay — the duet relay without a network, for tests
+ *
+ * Runs the same DuetRelayRooms as the WebSocket relay. Each event is
+ * delivered `latencyMs` after it is sent (on a timer, so fake timers
+ * control it), which lets tests check latency compensation.
+ */
+
+import { DuetRelayRooms } from '../../core/duet/relayRooms';
+import type { RelayDelivery } from '../../core/duet/relayRooms';
+import type { DuetRelayEvent, DuetRelayRequest } from '../../core/duet/duetProtocol';
+import type { DuetTransport } from './DuetTransport';
+
+interface InMemoryClient {
+  events: Set<(event: DuetRelayEvent) => void>;
+  closes: Set<(reason: string) => void>;
+  latencyMs: number;
+}
+
+export class InMemoryDuetRelay {
+  private readonly rooms: DuetRelayRooms;
+  private readonly clients = new Map<string, InMemoryClient>();
+  private nextId = 0;
+
+  constructor(now: () => number = Date.now) {
+    this.rooms = new DuetRelayRooms(now);
+  }
+
+  /** A transport to this relay whose messages each take `latencyMs` one way */
+  createTransport(latencyMs = 0): DuetTransport {
+    const clientId = `client-${this.nextId++}`;
+    const client: InMemoryClient = { events: new Set(), closes: new Set(), latencyMs };
+    const later = (fn: () => void) => setTimeout(fn, latencyMs);
+
+    return {
+      connect: async () => {
+        this.clients.set(clientId, client);
+      },
+      send: (request: DuetRelayRequest) => {
+        later(() => {
+          if (this.clients.has(clientId)) this.deliver(this.rooms.handle(clientId, request));
+        });
+      },
+      onEvent: (listener) => {
+        client.events.add(listener);
+        return () => client.events.delete(listener);
+      },
+      onClose: (listener) => {
+        client.closes.add(listener);
+        return () => client.closes.delete(listener);
+      },
+      close: () => this.hangUp(clientId, 'Closed'),
+    };
+  }
+
+  /** Drop a client as if its connection failed */
+  disconnect(index: number): void {
+    this.hangUp(`client-${index}`, 'Connection lost');
+  }
+
+  private hangUp(clientId: string, reason: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    this.clients.delete(clientId);
+    client.closes.forEach((listener) => listener(reason));
+    this.deliver(this.rooms.disconnect(clientId));
+  }
+
+  private deliver(deliveries: RelayDelivery[]): void {
+    for (const { to, event } of deliveries) {
+      const client = this.clients.get(to);
+      if (!client) continue;
+      setTimeout(() => client.events.forEach((listener) => listener(event)), client.latencyMs);
+    }
+  }
+}
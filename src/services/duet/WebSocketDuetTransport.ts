@@ -0,0 +1,102 @@
+/**
+ * WebSocketDuetTransport — DuetTransport over the duet relay's WebSocket
+ *
+ * Uses the global WebSocket that React Native provides. Node has none, so
+ * the relay's tests pass the `ws` package's class in `WebSocketImpl`.
+ */
+
+import { parseRelayEvent } from '../../core/duet/duetProtocol';
+import type { DuetRelayEvent, DuetRelayRequest } from '../../core/duet/duetProtocol';
+import type { DuetTransport } from './DuetTransport';
+
+/** The parts of the WebSocket API this transport uses */
+interface DuetSocket {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: { reason?: string }) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type DuetSocketConstructor = new (url: string) => DuetSocket;
+
+/** WebSocket.OPEN */
+const OPEN = 1;
+
+/** Relay the app uses unless EXPO_PUBLIC_DUET_RELAY_URL says otherwise */
+export const DEFAULT_DUET_RELAY_URL = 'ws://localhost:8787';
+
+export function duetRelayUrl(): string {
+  return process.env.EXPO_PUBLIC_DUET_RELAY_URL || DEFAULT_DUET_RELAY_URL;
+}
+
+export class WebSocketDuetTransport implements DuetTransport {
+  private socket: DuetSocket | null = null;
+  private eventListeners = new Set<(event: DuetRelayEvent) => void>();
+  private closeListeners = new Set<(reason: string) => void>();
+  private closed = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly WebSocketImpl: DuetSocketConstructor | undefined =
+      (globalThis as { WebSocket?: DuetSocketConstructor }).WebSocket,
+  ) {}
+
+  connect(): Promise<void> {
+    const Impl = this.WebSocketImpl;
+    if (!Impl) return Promise.reject(new Error('WebSocket is not available'));
+
+    return new Promise((resolve, reject) => {
+      const socket = new Impl(this.url);
+      this.socket = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        resolve();
+      };
+      socket.onmessage = ({ data }) => {
+        const event = typeof data === 'string' ? parseRelayEvent(data) : null;
+        if (event) this.eventListeners.forEach((listener) => listener(event));
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error(`Couldn't reach the duet relay at ${this.url}`));
+      };
+      socket.onclose = ({ reason }) => {
+        if (!opened) reject(new Error(`Couldn't reach the duet relay at ${this.url}`));
+        this.finish(reason || 'Connection closed');
+      };
+    });
+  }
+
+  send(request: DuetRelayRequest): void {
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(JSON.stringify(request));
+    }
+  }
+
+  onEvent(listener: (event: DuetRelayEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  onClose(listener: (reason: string) => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.finish('Closed');
+  }
+
+  private finish(reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.closeListeners.forEach((listener) => listener(reason));
+    this.eventListeners.clear();
+    this.closeListeners.clear();
+  }
+}
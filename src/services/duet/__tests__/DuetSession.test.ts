@@ -0,0 +1,93 @@
+/**
+ * DuetSession Tests
+ *
+ * Two sessions over the in-memory relay, with 40ms each way and clocks
+ * that disagree with each other and with the relay.
+ */
+
+import { DuetSession, ownPart } from '../DuetSession';
+import { InMemoryDuetRelay } from '../InMemoryDuetRelay';
+import type { DuetSetup } from '../../../core/duet/duetProtocol';
+
+const LATENCY_MS = 40;
+const SETUP: DuetSetup = { songId: 'song', sectionId: 'verse', split: 'hands', hostPart: 'right' };
+
+// The relay runs 1s ahead of the host, the guest 7s behind it
+const relayNow = () => Date.now() + 1000;
+const hostNow = () => Date.now();
+const guestNow = () => Date.now() - 7000;
+
+describe('DuetSession', () => {
+  let relay: InMemoryDuetRelay;
+  let host: DuetSession;
+  let guest: DuetSession;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    relay = new InMemoryDuetRelay(relayNow);
+    host = new DuetSession(relay.createTransport(LATENCY_MS), hostNow);
+    guest = new DuetSession(relay.createTransport(LATENCY_MS), guestNow);
+    await host.join('ROOM', 'Ana');
+    await jest.advanceTimersByTimeAsync(100);
+    host.chooseSetup(SETUP);
+    await guest.join('ROOM', 'Ben');
+    await jest.advanceTimersByTimeAsync(2000);
+  });
+
+  afterEach(() => {
+    host.leave();
+    guest.leave();
+    jest.useRealTimers();
+  });
+
+  it('pairs the players, syncs their clocks and shares the setup', () => {
+    expect(host.getState()).toMatchObject({ role: 'host', partnerName: 'Ben', status: 'ready', partnerReady: true });
+    expect(guest.getState()).toMatchObject({ role: 'guest', partnerName: 'Ana', status: 'ready', setup: SETUP });
+    expect(host.getState().clock?.offsetMs).toBe(1000);
+    expect(guest.getState().clock?.offsetMs).toBe(8000);
+    expect(ownPart(host.getState())).toBe('right');
+    expect(ownPart(guest.getState())).toBe('left');
+    expect(host.canStart).toBe(true);
+    expect(guest.canStart).toBe(false);
+  });
+
+  it('starts both count-ins at the same moment', async () => {
+    host.start(3000);
+    await jest.advanceTimersByTimeAsync(100);
+    const hostStart = host.getState().startAt!;
+    const guestStart = guest.getState().startAt!;
+    expect(guest.getState().status).toBe('playing');
+    // The same instant, read on each player's own clock
+    expect(hostStart - hostNow()).toBe(guestStart - guestNow());
+  });
+
+  it('passes keys on with where they were played and how late they arrived', async () => {
+    host.start(3000);
+    await jest.advanceTimersByTimeAsync(100);
+    guest.sendNote(48, 90, true, 12);
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(host.getState().partnerNotes).toEqual([{ note: 48, velocity: 90, on: true, atMs: 12 }]);
+    expect(host.getState().partnerLagMs).toBe(2 * LATENCY_MS);
+  });
+
+  it('exchanges results and allows a rematch once both are in', async () => {
+    host.start(3000);
+    await jest.advanceTimersByTimeAsync(100);
+    host.finish({ overall: 90, stars: 2, breakdown: { accuracy: 90, timing: 90, completeness: 90, extraNotes: 100, duration: 80 } });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(host.canStart).toBe(false);
+
+    guest.finish({ overall: 70, stars: 1, breakdown: { accuracy: 70, timing: 70, completeness: 70, extraNotes: 100, duration: 60 } });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(host.getState().partnerResult?.overall).toBe(70);
+    expect(guest.getState().partnerResult?.overall).toBe(90);
+    expect(host.canStart).toBe(true);
+  });
+
+  it('ends when the partner drops', async () => {
+    relay.disconnect(1);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(host.getState()).toMatchObject({ status: 'ended', error: 'Ben left the duet' });
+  });
+});
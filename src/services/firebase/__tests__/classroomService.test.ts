@@ -0,0 +1,184 @@
+/**
+ * Classroom Service Tests
+ *
+ * Tests the two-sided writes behind class invites and memberships, the
+ * teacher's read grant, and a student's assignment results.
+ */
+
+jest.mock('firebase/firestore', () => {
+  const batchSet = jest.fn();
+  const batchUpdate = jest.fn();
+  const batchDelete = jest.fn();
+  const batchCommit = jest.fn().mockResolvedValue(undefined);
+
+  return {
+    doc: jest.fn((_db: unknown, ...path: string[]) => path.join('/')),
+    collection: jest.fn((_db: unknown, ...path: string[]) => path.join('/')),
+    getDoc: jest.fn(),
+    getDocs: jest.fn(),
+    setDoc: jest.fn(),
+    deleteDoc: jest.fn(),
+    query: jest.fn(),
+    where: jest.fn(),
+    writeBatch: jest.fn(() => ({
+      set: batchSet,
+      update: batchUpdate,
+      delete: batchDelete,
+      commit: batchCommit,
+    })),
+    __mockBatch: { set: batchSet, update: batchUpdate, delete: batchDelete, commit: batchCommit },
+  };
+});
+
+jest.mock('../config', () => ({
+  db: {},
+}));
+
+import {
+  inviteStudent,
+  joinClass,
+  leaveClass,
+  removeStudent,
+  getStudentProgress,
+  getStudentAssignments,
+  saveAssignmentResult,
+} from '../classroomService';
+import { getDoc, getDocs, setDoc } from 'firebase/firestore';
+import type { AssignmentResult, ClassMembership, Classroom } from '../../../core/classroom/classroom';
+
+const mockBatch = jest.requireMock('firebase/firestore').__mockBatch as {
+  set: jest.Mock;
+  update: jest.Mock;
+  delete: jest.Mock;
+  commit: jest.Mock;
+};
+
+const CLASSROOM: Classroom = {
+  id: 'class-1',
+  name: 'Tuesday Beginners',
+  teacherUid: 'teacher-1',
+  teacherName: 'Ms. Rivera',
+  createdAt: 1000,
+};
+
+const MEMBERSHIP: ClassMembership = {
+  classId: 'class-1',
+  className: 'Tuesday Beginners',
+  teacherUid: 'teacher-1',
+  teacherName: 'Ms. Rivera',
+  status: 'invited',
+  invitedAt: 1000,
+};
+
+function snapshot(docs: Array<Record<string, unknown>>) {
+  return { docs: docs.map((data) => ({ data: () => data })) };
+}
+
+describe('classroomService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('inviteStudent', () => {
+    it('writes the roster entry and the student membership together', async () => {
+      const entry = await inviteStudent(CLASSROOM, 'student-1', 'Sam');
+
+      expect(entry).toMatchObject({ uid: 'student-1', displayName: 'Sam', status: 'invited' });
+      expect(mockBatch.set).toHaveBeenCalledWith('classes/class-1/students/student-1', entry);
+      expect(mockBatch.set).toHaveBeenCalledWith(
+        'users/student-1/classes/class-1',
+        expect.objectContaining({ classId: 'class-1', teacherUid: 'teacher-1', status: 'invited' }),
+      );
+      expect(mockBatch.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses to invite the teacher', async () => {
+      await expect(inviteStudent(CLASSROOM, 'teacher-1', 'Me')).rejects.toThrow('Cannot invite yourself');
+      expect(mockBatch.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('joinClass', () => {
+    it('marks both sides joined and grants the teacher read access', async () => {
+      await joinClass('student-1', MEMBERSHIP);
+
+      const joined = { status: 'joined', joinedAt: expect.any(Number) };
+      expect(mockBatch.update).toHaveBeenCalledWith('users/student-1/classes/class-1', joined);
+      expect(mockBatch.update).toHaveBeenCalledWith('classes/class-1/students/student-1', joined);
+      expect(mockBatch.set).toHaveBeenCalledWith(
+        'users/student-1/teachers/teacher-1',
+        expect.objectContaining({ teacherUid: 'teacher-1', classId: 'class-1' }),
+      );
+    });
+  });
+
+  describe('leaveClass', () => {
+    it('revokes the grant with the last of the teacher\'s classes', async () => {
+      await leaveClass('student-1', MEMBERSHIP, false);
+      expect(mockBatch.delete).toHaveBeenCalledWith('users/student-1/teachers/teacher-1');
+    });
+
+    it('keeps the grant while the student is in another of their classes', async () => {
+      await leaveClass('student-1', MEMBERSHIP, true);
+      expect(mockBatch.delete).toHaveBeenCalledTimes(2);
+      expect(mockBatch.delete).not.toHaveBeenCalledWith('users/student-1/teachers/teacher-1');
+    });
+  });
+
+  describe('removeStudent', () => {
+    it('checks the teacher\'s other rosters before revoking the grant', async () => {
+      (getDoc as jest.Mock).mockResolvedValueOnce({ exists: () => true });
+      await removeStudent(CLASSROOM, 'student-1', ['class-2']);
+      expect(getDoc).toHaveBeenCalledWith('classes/class-2/students/student-1');
+      expect(mockBatch.delete).not.toHaveBeenCalledWith('users/student-1/teachers/teacher-1');
+
+      jest.clearAllMocks();
+      await removeStudent(CLASSROOM, 'student-1', []);
+      expect(mockBatch.delete).toHaveBeenCalledWith('classes/class-1/students/student-1');
+      expect(mockBatch.delete).toHaveBeenCalledWith('users/student-1/classes/class-1');
+      expect(mockBatch.delete).toHaveBeenCalledWith('users/student-1/teachers/teacher-1');
+    });
+  });
+
+  describe('getStudentAssignments', () => {
+    it('reads joined classes only and skips ones that fail', async () => {
+      (getDocs as jest.Mock)
+        .mockResolvedValueOnce(snapshot([{ id: 'a1', classId: 'class-2' }]))
+        .mockRejectedValueOnce(new Error('permission-denied'));
+
+      const assignments = await getStudentAssignments([
+        MEMBERSHIP,
+        { ...MEMBERSHIP, classId: 'class-2', status: 'joined' },
+        { ...MEMBERSHIP, classId: 'class-3', status: 'joined' },
+      ]);
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+      expect(assignments).toEqual([{ id: 'a1', classId: 'class-2' }]);
+    });
+  });
+
+  describe('assignment results', () => {
+    const RESULT: AssignmentResult = {
+      assignmentId: 'a1',
+      classId: 'class-1',
+      score: 84,
+      playbackSpeed: 0.75,
+      tempo: 90,
+      playedAt: 5000,
+    };
+
+    it("saves a result under the student's assignmentResults", async () => {
+      await saveAssignmentResult('student-1', RESULT);
+      expect(setDoc).toHaveBeenCalledWith('users/student-1/assignmentResults/a1', RESULT);
+    });
+
+    it('reads them back keyed by assignment', async () => {
+      (getDocs as jest.Mock).mockResolvedValueOnce(snapshot([{ ...RESULT }]));
+
+      const progress = await getStudentProgress('student-1');
+
+      expect(getDocs).toHaveBeenCalledWith('users/student-1/assignmentResults');
+      expect(progress.assignments).toEqual({ a1: RESULT });
+    });
+  });
+});
@@ -17,14 +17,12 @@ jest.mock('../config', () => ({
 }));
 
 const mockCreateGamificationData = jest.fn().mockResolvedValue(undefined);
-const mockAddXp = jest.fn().mockResolvedValue(1);
 const mockCreateLessonProgress = jest.fn().mockResolvedValue(undefined);
 const mockGetGamificationData = jest.fn().mockResolvedValue(null);
 const mockGetAllLessonProgress = jest.fn().mockResolvedValue([]);
 
 jest.mock('../firestore', () => ({
   createGamificationData: (...args: unknown[]) => mockCreateGamificationData(...args),
-  addXp: (...args: unknown[]) => mockAddXp(...args),
   createLessonProgress: (...args: unknown[]) => mockCreateLessonProgress(...args),
   getGamificationData: (...args: unknown[]) => mockGetGamificationData(...args),
   getAllLessonProgress: (...args: unknown[]) => mockGetAllLessonProgress(...args),
@@ -93,7 +91,7 @@ describe('dataMigration', () => {
       config.auth.currentUser = originalUser;
     });
 
-    it('should migrate XP when totalXp > 0', async () => {
+    it('creates the gamification doc without uploading local XP', async () => {
       mockGetState.mockReturnValue({
         totalXp: 500,
         lessonProgress: {},
@@ -103,7 +101,6 @@ describe('dataMigration', () => {
 
       expect(result.migrated).toBe(true);
       expect(mockCreateGamificationData).toHaveBeenCalledWith('test-user');
-      expect(mockAddXp).toHaveBeenCalledWith('test-user', 500, 'migration');
     });
 
     it('should skip migration when no local progress exists (totalXp=0, no lessons)', async () => {
@@ -117,7 +114,6 @@ describe('dataMigration', () => {
       // No progress to migrate → sets flag and returns false
       expect(result.migrated).toBe(false);
       expect(mockCreateGamificationData).not.toHaveBeenCalled();
-      expect(mockAddXp).not.toHaveBeenCalled();
     });
 
     it('should convert exerciseScores with proper Timestamp conversion', async () => {
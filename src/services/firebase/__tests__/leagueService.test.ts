@@ -3,9 +3,9 @@
  *
  * Tests the pure utility functions in leagueService:
  * - getCurrentWeekMonday() date format and correctness
+ * - getEarnedLeagueTier() — tier from the latest weekly result
  * - assignToLeague() — transaction-based league assignment
  * - getLeagueStandings() — ranked member list
- * - addLeagueXp() — atomic XP increment
  */
 
 // Mock firebase/firestore with runTransaction support
@@ -45,10 +45,10 @@ jest.mock('../config', () => ({
 import {
   getCurrentWeekMonday,
   assignToLeague,
+  getEarnedLeagueTier,
   getLeagueStandings,
-  addLeagueXp,
 } from '../leagueService';
-import { getDocs, updateDoc, increment, runTransaction } from 'firebase/firestore';
+import { getDocs, runTransaction } from 'firebase/firestore';
 
 // Access the transaction mock helpers
 const firestoreMock = jest.requireMock('firebase/firestore');
@@ -106,6 +106,22 @@ describe('leagueService', () => {
     });
   });
 
+  describe('getEarnedLeagueTier', () => {
+    it('returns the new tier from the latest result', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [{ data: () => ({ weekStart: '2026-10-12', newTier: 'gold' }) }],
+      });
+
+      await expect(getEarnedLeagueTier('user-1')).resolves.toBe('gold');
+    });
+
+    it('defaults to bronze without results', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({ empty: true, docs: [] });
+
+      await expect(getEarnedLeagueTier('user-1')).resolves.toBe('bronze');
+    });
+  });
+
   describe('assignToLeague', () => {
     it('creates a new league via transaction when none have space', async () => {
       // No open leagues found
@@ -189,6 +205,17 @@ describe('leagueService', () => {
       // Creates new league + member
       expect(mockTx.set).toHaveBeenCalledTimes(2);
     });
+
+    it('joins at the earned tier when none is given', async () => {
+      (getDocs as jest.Mock)
+        .mockResolvedValueOnce({ docs: [{ data: () => ({ weekStart: '2026-10-12', newTier: 'silver' }) }] })
+        .mockResolvedValueOnce({ empty: true, docs: [] });
+
+      const membership = await assignToLeague('user-4', 'Dave', 'luna');
+
+      expect(membership.tier).toBe('silver');
+      expect(mockTx.set).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ tier: 'silver' }));
+    });
   });
 
   describe('getLeagueStandings', () => {
@@ -218,15 +245,4 @@ describe('leagueService', () => {
       expect(standings).toEqual([]);
     });
   });
-
-  describe('addLeagueXp', () => {
-    it('calls updateDoc with increment for the member', async () => {
-      (updateDoc as jest.Mock).mockResolvedValue(undefined);
-
-      await addLeagueXp('league-abc', 'user-1', 50);
-
-      expect(updateDoc).toHaveBeenCalledTimes(1);
-      expect(increment).toHaveBeenCalledWith(50);
-    });
-  });
 });
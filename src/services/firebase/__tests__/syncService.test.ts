@@ -6,6 +6,7 @@
  * - syncAfterExercise (queues + flushes)
  * - Periodic sync (start/stop/isActive)
  * - syncAll (returns SyncResult, prevents concurrent syncs)
+ * - pushLearnerAndAchievementData (learner profile upload)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -21,14 +22,17 @@ jest.mock('../config', () => ({
 
 jest.mock('../firestore', () => ({
   syncProgress: jest.fn(),
+  saveLearnerProfileData: jest.fn(),
+  saveAchievementSyncData: jest.fn(),
 }));
 
 // ============================================================================
 // Imports (after mocks)
 // ============================================================================
 
-import { syncProgress } from '../firestore';
+import { saveLearnerProfileData, syncProgress } from '../firestore';
 import { SyncManager, SyncChange } from '../syncService';
+import { useLearnerProfileStore } from '../../../stores/learnerProfileStore';
 
 const mockSyncProgress = syncProgress as jest.Mock;
 const mockGetItem = AsyncStorage.getItem as jest.Mock;
@@ -634,4 +638,24 @@ describe('SyncManager', () => {
       expect(mockSyncProgress).toHaveBeenCalled();
     });
   });
+
+  // --------------------------------------------------------------------------
+  // 6. Learner Profile Push
+  // --------------------------------------------------------------------------
+
+  describe('pushLearnerAndAchievementData', () => {
+    it('should upload the loop history with the learner profile', async () => {
+      const loopHistory = {
+        'ex-1@0-4': {
+          exerciseId: 'ex-1', title: 'Ex 1', startBeat: 0, endBeat: 4, targetTempo: 100, pitches: [60],
+          attempts: [{ tempo: 70, score: 92, at: 1000 }],
+        },
+      };
+      useLearnerProfileStore.setState({ loopHistory });
+
+      await manager.pushLearnerAndAchievementData('test-user');
+
+      expect(saveLearnerProfileData).toHaveBeenCalledWith('test-user', expect.objectContaining({ loopHistory }));
+    });
+  });
 });
@@ -0,0 +1,254 @@
+/**
+ * Classroom Service — Firestore CRUD for teacher classes, rosters and assignments
+ *
+ * Firestore paths:
+ *   classes/{classId}                       — Classroom document
+ *   classes/{classId}/students/{uid}        — RosterEntry (teacher's side)
+ *   classes/{classId}/assignments/{id}      — Assignment document
+ *   users/{uid}/classes/{classId}           — ClassMembership (student's side)
+ *   users/{uid}/teachers/{teacherUid}       — read grant, written by the student on joining
+ *   users/{uid}/assignmentResults/{id}      — AssignmentResult, the student's best run
+ *
+ * A teacher can read a student's assignment results only while the
+ * student's teachers/{teacherUid} grant exists (see firestore.rules).
+ */
+
+import {
+  doc,
+  collection,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './config';
+import type {
+  Assignment,
+  AssignmentResult,
+  ClassMembership,
+  Classroom,
+  RosterEntry,
+  StudentProgress,
+} from '../../core/classroom/classroom';
+
+// ---------------------------------------------------------------------------
+// Classes
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a class taught by the caller.
+ * Writes to classes/{classId}. Rules require the caller's role to be 'teacher'.
+ */
+export async function createClass(
+  teacherUid: string,
+  teacherName: string,
+  name: string,
+): Promise<Classroom> {
+  const classroom: Classroom = {
+    id: `class-${teacherUid}-${Date.now()}`,
+    name: name.trim(),
+    teacherUid,
+    teacherName,
+    createdAt: Date.now(),
+  };
+  await setDoc(doc(db, 'classes', classroom.id), classroom);
+  return classroom;
+}
+
+/**
+ * Get all classes a teacher runs.
+ */
+export async function getTeacherClasses(teacherUid: string): Promise<Classroom[]> {
+  const q = query(collection(db, 'classes'), where('teacherUid', '==', teacherUid));
+  const snap = await getDocs(q);
+  return snap.docs.map((d) => d.data() as Classroom);
+}
+
+// ---------------------------------------------------------------------------
+// Roster
+// ---------------------------------------------------------------------------
+
+/**
+ * Invite a student to a class. Writes to both sides:
+ *   classes/{classId}/students/{studentUid}  — status: invited
+ *   users/{studentUid}/classes/{classId}     — status: invited
+ */
+export async function inviteStudent(
+  classroom: Classroom,
+  studentUid: string,
+  studentName: string,
+): Promise<RosterEntry> {
+  if (studentUid === classroom.teacherUid) {
+    throw new Error('Cannot invite yourself to your own class');
+  }
+
+  const now = Date.now();
+  const entry: RosterEntry = {
+    uid: studentUid,
+    displayName: studentName,
+    status: 'invited',
+    invitedAt: now,
+  };
+  const membership: ClassMembership = {
+    classId: classroom.id,
+    className: classroom.name,
+    teacherUid: classroom.teacherUid,
+    teacherName: classroom.teacherName,
+    status: 'invited',
+    invitedAt: now,
+  };
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'classes', classroom.id, 'students', studentUid), entry);
+  batch.set(doc(db, 'users', studentUid, 'classes', classroom.id), membership);
+  await batch.commit();
+  return entry;
+}
+
+/**
+ * Get a class's roster, invited and joined students alike.
+ */
+export async function getRoster(classId: string): Promise<RosterEntry[]> {
+  const snap = await getDocs(collection(db, 'classes', classId, 'students'));
+  return snap.docs.map((d) => d.data() as RosterEntry);
+}
+
+/**
+ * Remove a student from a class. Deletes both sides of the membership and,
+ * unless the student is on the roster of another of the teacher's classes,
+ * the teacher's read grant.
+ */
+export async function removeStudent(
+  classroom: Classroom,
+  studentUid: string,
+  otherClassIds: string[],
+): Promise<void> {
+  const otherEntries = await Promise.all(
+    otherClassIds.map((classId) => getDoc(doc(db, 'classes', classId, 'students', studentUid))),
+  );
+  const inOtherClass = otherEntries.some((snap) => snap.exists());
+
+  const batch = writeBatch(db);
+  batch.delete(doc(db, 'classes', classroom.id, 'students', studentUid));
+  batch.delete(doc(db, 'users', studentUid, 'classes', classroom.id));
+  if (!inOtherClass) {
+    batch.delete(doc(db, 'users', studentUid, 'teachers', classroom.teacherUid));
+  }
+  await batch.commit();
+}
+
+// ---------------------------------------------------------------------------
+// Memberships (student side)
+// ---------------------------------------------------------------------------
+
+/**
+ * Get a student's class invites and memberships.
+ */
+export async function getClassMemberships(uid: string): Promise<ClassMembership[]> {
+  const snap = await getDocs(collection(db, 'users', uid, 'classes'));
+  return snap.docs.map((d) => d.data() as ClassMembership);
+}
+
+/**
+ * Join a class the student was invited to. Marks both sides joined and
+ * grants the teacher read access to the student's progress.
+ */
+export async function joinClass(uid: string, membership: ClassMembership): Promise<void> {
+  const now = Date.now();
+  const joined = { status: 'joined', joinedAt: now };
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'users', uid, 'classes', membership.classId), joined);
+  batch.update(doc(db, 'classes', membership.classId, 'students', uid), joined);
+  batch.set(doc(db, 'users', uid, 'teachers', membership.teacherUid), {
+    teacherUid: membership.teacherUid,
+    teacherName: membership.teacherName,
+    classId: membership.classId,
+    grantedAt: now,
+  });
+  await batch.commit();
+}
+
+/**
+ * Leave a class or decline its invite. Deletes both sides and, unless the
+ * student is still in another of the same teacher's classes, the
+ * teacher's read grant.
+ */
+export async function leaveClass(
+  uid: string,
+  membership: ClassMembership,
+  inOtherClass: boolean,
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, 'users', uid, 'classes', membership.classId));
+  batch.delete(doc(db, 'classes', membership.classId, 'students', uid));
+  if (!inOtherClass) {
+    batch.delete(doc(db, 'users', uid, 'teachers', membership.teacherUid));
+  }
+  await batch.commit();
+}
+
+// ---------------------------------------------------------------------------
+// Assignments
+// ---------------------------------------------------------------------------
+
+/**
+ * Set an assignment for a class.
+ * Writes to classes/{classId}/assignments/{assignment.id}.
+ */
+export async function createAssignment(assignment: Assignment): Promise<void> {
+  await setDoc(doc(db, 'classes', assignment.classId, 'assignments', assignment.id), assignment);
+}
+
+/**
+ * Get a class's assignments. Readable by the teacher and joined students.
+ */
+export async function getAssignments(classId: string): Promise<Assignment[]> {
+  const snap = await getDocs(collection(db, 'classes', classId, 'assignments'));
+  return snap.docs.map((d) => d.data() as Assignment);
+}
+
+/**
+ * Get the assignments of every class the student has joined.
+ * A class that fails to load is skipped rather than hiding the rest.
+ */
+export async function getStudentAssignments(memberships: ClassMembership[]): Promise<Assignment[]> {
+  const joined = memberships.filter((m) => m.status === 'joined');
+  const perClass = await Promise.all(
+    joined.map((m) => getAssignments(m.classId).catch((): Assignment[] => [])),
+  );
+  return perClass.flat();
+}
+
+export async function deleteAssignment(classId: string, assignmentId: string): Promise<void> {
+  await deleteDoc(doc(db, 'classes', classId, 'assignments', assignmentId));
+}
+
+// ---------------------------------------------------------------------------
+// Assignment Results
+// ---------------------------------------------------------------------------
+
+/**
+ * Save the student's best run of an assignment.
+ * Writes to users/{uid}/assignmentResults/{result.assignmentId}.
+ */
+export async function saveAssignmentResult(uid: string, result: AssignmentResult): Promise<void> {
+  await setDoc(doc(db, 'users', uid, 'assignmentResults', result.assignmentId), result);
+}
+
+/**
+ * Read a student's assignment results.
+ * Only succeeds for the student or a teacher they have joined a class of.
+ */
+export async function getStudentProgress(studentUid: string): Promise<StudentProgress> {
+  const snap = await getDocs(collection(db, 'users', studentUid, 'assignmentResults'));
+  const assignments: StudentProgress['assignments'] = {};
+  for (const d of snap.docs) {
+    const result = d.data() as AssignmentResult;
+    assignments[result.assignmentId] = result;
+  }
+  return { assignments };
+}
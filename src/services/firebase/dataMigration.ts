@@ -7,7 +7,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Timestamp } from 'firebase/firestore';
 import { useProgressStore } from '../../stores/progressStore';
 import { auth } from './config';
-import { createGamificationData, addXp, createLessonProgress, getGamificationData, getAllLessonProgress } from './firestore';
+import { createGamificationData, createLessonProgress, getGamificationData, getAllLessonProgress } from './firestore';
 import type { ExerciseProgress as FirestoreExerciseProgress } from './firestore';
 import { logger } from '../../utils/logger';
 
@@ -50,17 +50,12 @@ export async function migrateLocalToCloud(): Promise<{ migrated: boolean; error?
       return { migrated: false };
     }
 
-    // 1. Migrate XP — merge with existing remote data (highest wins)
+    // 1. Create the gamification doc. Local XP is not uploaded — cloud XP is
+    //    only credited by the submitPerformance Cloud Function — and stays on
+    //    this device; pullRemoteProgress() keeps whichever total is higher.
     const remoteGamification = await getGamificationData(uid).catch(() => null);
-    if (progressState.totalXp > 0) {
-      if (!remoteGamification) {
-        await createGamificationData(uid);
-        await addXp(uid, progressState.totalXp, 'migration');
-      } else if (progressState.totalXp > remoteGamification.xp) {
-        // Local has more XP — add the difference
-        await addXp(uid, progressState.totalXp - remoteGamification.xp, 'migration');
-      }
-      // If remote has more XP, pullRemoteProgress() will handle it
+    if (!remoteGamification) {
+      await createGamificationData(uid);
     }
 
     // 2. Migrate lesson progress — only push lessons that don't exist remotely
@@ -24,6 +24,9 @@ import {
 import { db, functions } from './config';
 import { httpsCallable } from 'firebase/functions';
 import { logger } from '../../utils/logger';
+import type { ReviewSchedule } from '../../core/curriculum/SpacedRepetition';
+import type { LoopRecord } from '../../core/exercises/loopPractice';
+import type { UserRole } from '../../core/classroom/classroom';
 
 // ============================================================================
 // Type Definitions (matching PRD section 5.3)
@@ -49,6 +52,8 @@ export interface UserProfile {
     tier: 'free' | 'pro';
     expiresAt: Timestamp | null;
   };
+  /** Missing on profiles created before roles; treated as 'student' */
+  role?: UserRole;
 }
 
 export interface LessonProgress {
@@ -280,46 +285,6 @@ export async function createGamificationData(uid: string): Promise<void> {
   await setDoc(gamDoc, defaultData);
 }
 
-export async function addXp(uid: string, amount: number, source: string): Promise<number> {
-  const gamDoc = doc(db, 'users', uid, 'gamification', 'data');
-  const docSnap = await getDoc(gamDoc);
-
-  if (!docSnap.exists()) {
-    await createGamificationData(uid);
-  }
-
-  // Use atomic increment() to prevent concurrent read-modify-write XP duplication
-  await updateDoc(gamDoc, {
-    xp: increment(amount),
-  });
-
-  // Re-read to get the new total and compute level
-  const updatedData = (await getGamificationData(uid))!;
-  const newLevel = calculateLevel(updatedData.xp);
-
-  // Update level if it changed (separate write — level is derived, not critical)
-  if (newLevel !== updatedData.level) {
-    await updateDoc(gamDoc, { level: newLevel }).catch(() => {
-      // Level update failure is non-critical — will be corrected on next XP change
-    });
-  }
-
-  // Log XP change (best-effort — xpLog rules may block client writes)
-  try {
-    const logCollection = collection(db, 'users', uid, 'xpLog');
-    await setDoc(doc(logCollection), {
-      amount,
-      source,
-      newTotal: updatedData.xp,
-      timestamp: serverTimestamp(),
-    });
-  } catch {
-    // xpLog write failure is non-critical — gamification doc was already updated
-  }
-
-  return newLevel;
-}
-
 export async function updateStreak(uid: string, increment: boolean): Promise<void> {
   const gamDoc = doc(db, 'users', uid, 'gamification', 'data');
   const gamData = await getGamificationData(uid);
@@ -458,20 +423,6 @@ export async function syncProgress(uid: string, request: SyncRequest): Promise<S
 // Helper Functions
 // ============================================================================
 
-function calculateLevel(xp: number): number {
-  // Level curve: exponential (from PRD)
-  // xpForLevel(level) = 100 * 1.5^(level-1)
-  let level = 1;
-  let totalXpNeeded = 0;
-
-  while (totalXpNeeded + Math.floor(100 * Math.pow(1.5, level - 1)) <= xp) {
-    totalXpNeeded += Math.floor(100 * Math.pow(1.5, level - 1));
-    level++;
-  }
-
-  return level;
-}
-
 export function xpForNextLevel(currentLevel: number): number {
   return Math.floor(100 * Math.pow(1.5, currentLevel - 1));
 }
@@ -566,6 +517,8 @@ export interface LearnerProfileSyncData {
   masteredSkills: string[];
   skillMasteryData: Record<string, any>;
   recentExerciseIds: string[];
+  reviewSchedule?: ReviewSchedule; // Absent on profiles saved before spaced repetition
+  loopHistory?: Record<string, LoopRecord>; // Absent on profiles saved before loop practice
   updatedAt: FieldValue | Timestamp;
 }
 
@@ -620,6 +573,12 @@ const USER_SUBCOLLECTIONS = [
   'activity',
   'songMastery',
   'songRequests',
+  'leagueResults',
+  'performances',
+  'verifiedScores',
+  'classes',
+  'teachers',
+  'assignmentResults',
 ] as const;
 
 /**
@@ -786,6 +745,49 @@ async function deleteChallenges(uid: string): Promise<number> {
   return docsToDelete.size;
 }
 
+/**
+ * Delete the classes the user teaches, with their rosters and assignments
+ * and their students' memberships and read grants, then take the user off
+ * the rosters of classes they joined.
+ */
+async function deleteClassrooms(uid: string): Promise<number> {
+  let deleted = 0;
+
+  const taughtSnap = await getDocs(query(collection(db, 'classes'), where('teacherUid', '==', uid)));
+  for (const classDoc of taughtSnap.docs) {
+    const [rosterSnap, assignmentsSnap] = await Promise.all([
+      getDocs(collection(db, 'classes', classDoc.id, 'students')),
+      getDocs(collection(db, 'classes', classDoc.id, 'assignments')),
+    ]);
+
+    const batch = writeBatch(db);
+    for (const entry of rosterSnap.docs) {
+      batch.delete(entry.ref);
+      batch.delete(doc(db, 'users', entry.id, 'classes', classDoc.id));
+      batch.delete(doc(db, 'users', entry.id, 'teachers', uid));
+    }
+    for (const assignment of assignmentsSnap.docs) {
+      batch.delete(assignment.ref);
+    }
+    batch.delete(classDoc.ref);
+    await batch.commit();
+    deleted += 1 + rosterSnap.size + assignmentsSnap.size;
+  }
+
+  // The user's own memberships go with their subcollections
+  const membershipsSnap = await getDocs(collection(db, 'users', uid, 'classes'));
+  if (!membershipsSnap.empty) {
+    const batch = writeBatch(db);
+    for (const membership of membershipsSnap.docs) {
+      batch.delete(doc(db, 'classes', membership.id, 'students', uid));
+    }
+    await batch.commit();
+    deleted += membershipsSnap.size;
+  }
+
+  return deleted;
+}
+
 /**
  * Remove the user from other users' friend lists.
  * Reads the user's own friends subcollection to find bidirectional links,
@@ -826,8 +828,9 @@ async function removeFromFriendLists(uid: string): Promise<number> {
  *   2. Delete friend codes
  *   3. Delete league membership
  *   4. Delete challenges
- *   5. Delete all user subcollections
- *   6. Delete the root user document
+ *   5. Delete classes taught and leave classes joined
+ *   6. Delete all user subcollections
+ *   7. Delete the root user document
  */
 async function deleteUserDataClientSide(uid: string): Promise<void> {
   logger.log('[deleteUserData] Using client-side deletion for uid:', uid);
@@ -889,7 +892,17 @@ async function deleteUserDataClientSide(uid: string): Promise<void> {
     logger.warn('[deleteUserData] Challenge cleanup failed:', err);
   }
 
-  // 6. Delete all user subcollections
+  // 6. Delete classes taught and leave classes joined
+  try {
+    const deleted = await deleteClassrooms(uid);
+    if (deleted > 0) {
+      logger.log(`[deleteUserData] Deleted ${deleted} class documents`);
+    }
+  } catch (err) {
+    logger.warn('[deleteUserData] Class cleanup failed:', err);
+  }
+
+  // 7. Delete all user subcollections
   for (const subcollection of USER_SUBCOLLECTIONS) {
     try {
       const deleted = await deleteSubcollection(uid, subcollection);
@@ -901,7 +914,7 @@ async function deleteUserDataClientSide(uid: string): Promise<void> {
     }
   }
 
-  // 7. Delete the root user document
+  // 8. Delete the root user document
   await deleteDoc(doc(db, 'users', uid));
   logger.log('[deleteUserData] Root user document deleted');
 }
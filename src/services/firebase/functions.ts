@@ -5,6 +5,9 @@
 
 import { httpsCallable, HttpsCallableOptions } from 'firebase/functions';
 import { functions } from './config';
+import type { PerformanceSubmission } from '../../core/exercises/performanceVerification';
+import { createChallengeGhost } from '../../core/exercises/ghostRace';
+import type { ChallengeGhost } from '../../core/exercises/ghostRace';
 
 // ============================================================================
 // Type Definitions
@@ -75,6 +78,23 @@ export interface SyncProgressResponse {
   synced: boolean;
 }
 
+/**
+ * SubmitPerformanceResponse from firebase/functions/src/submitPerformance.ts,
+ * with the ghost friend challenges carry
+ */
+export interface VerifiedPerformance {
+  performanceId: string;
+  overall: number;
+  stars: 0 | 1 | 2 | 3;
+  isPassed: boolean;
+  isNewHighScore: boolean;
+  xpEarned: number;
+  lessonXp: number;
+  leagueXp: number;
+  /** The notes as stored on the performance; challenges must match them */
+  ghost: ChallengeGhost;
+}
+
 // ============================================================================
 // Cloud Functions Setup
 // ============================================================================
@@ -166,6 +186,33 @@ export async function syncProgress(
   }
 }
 
+// ============================================================================
+// Performance Verification Function
+// ============================================================================
+
+/**
+ * Submit a played exercise for server-side scoring. The server issues the
+ * XP and league credit; `{ error }` means nothing was credited (offline,
+ * an exercise outside the catalog, or a refused performance).
+ */
+export async function submitPerformance(
+  submission: PerformanceSubmission
+): Promise<VerifiedPerformance | { error: string }> {
+  try {
+    const submitPerformanceFunction = httpsCallable<PerformanceSubmission, Omit<VerifiedPerformance, 'ghost'>>(
+      functions,
+      'submitPerformance',
+      FUNCTION_OPTIONS
+    );
+
+    const result = await submitPerformanceFunction(submission);
+    return { ...result.data, ghost: createChallengeGhost(submission) };
+  } catch (error) {
+    const { code, message } = handleFunctionError(error);
+    return { error: `${code}: ${message}` };
+  }
+}
+
 // ============================================================================
 // Additional Cloud Functions
 // ============================================================================
@@ -3,7 +3,11 @@
  *
  * Firestore paths:
  *   leagues/{leagueId}                  — League document (tier, weekStart, memberCount)
- *   leagues/{leagueId}/members/{uid}    — Member document (displayName, catId, weeklyXp)
+ *   leagues/{leagueId}/members/{uid}    — Member document (displayName, catId, weeklyXp);
+ *                                         weeklyXp is credited by the submitPerformance
+ *                                         Cloud Function
+ *   users/{uid}/leagueResults/{week}    — Weekly result (read-only; written by the
+ *                                         leagueWeeklyRollover Cloud Function)
  */
 
 import {
@@ -14,6 +18,7 @@ import {
   query,
   where,
   orderBy,
+  limit,
   updateDoc,
   increment,
   runTransaction,
@@ -40,6 +45,11 @@ interface LeagueDocument {
   createdAt: number;
 }
 
+interface LeagueResultDocument {
+  weekStart: string;
+  newTier: LeagueTier;
+}
+
 interface LeagueMemberDocument {
   uid: string;
   displayName: string;
@@ -52,6 +62,7 @@ interface LeagueMemberDocument {
 // Utilities
 // ---------------------------------------------------------------------------
 
+// Must match MAX_LEAGUE_SIZE in firebase/functions/src/leagueRollover.ts
 const MAX_LEAGUE_SIZE = 30;
 
 /**
@@ -73,18 +84,31 @@ export function getCurrentWeekMonday(): string {
 // League Assignment
 // ---------------------------------------------------------------------------
 
+/**
+ * The tier a user earned in their most recent finished week, or bronze if
+ * they have never finished one.
+ */
+export async function getEarnedLeagueTier(uid: string): Promise<LeagueTier> {
+  const resultsCol = collection(db, 'users', uid, 'leagueResults');
+  const snap = await getDocs(query(resultsCol, orderBy('weekStart', 'desc'), limit(1)));
+  const latest = snap.docs[0]?.data() as Partial<LeagueResultDocument> | undefined;
+  return latest?.newTier ?? 'bronze';
+}
+
 /**
  * Assign a user to a league for the current week.
  * Finds an existing league with space (memberCount < 30), or creates a new one.
- * Adds the user as a member with 0 weeklyXp.
+ * Adds the user as a member with 0 weeklyXp. Without `requestedTier`, the user joins
+ * at the tier they earned last time they played (see getEarnedLeagueTier).
  */
 export async function assignToLeague(
   uid: string,
   displayName: string,
   selectedCatId: string,
-  tier: LeagueTier = 'bronze',
+  requestedTier?: LeagueTier,
 ): Promise<LeagueMembership> {
   const weekStart = getCurrentWeekMonday();
+  const tier = requestedTier ?? (await getEarnedLeagueTier(uid));
 
   // Find a candidate league with space.
   // Query by weekStart only (auto-indexed single field) to avoid needing a
@@ -210,22 +234,9 @@ export async function getLeagueStandings(
 }
 
 // ---------------------------------------------------------------------------
-// XP Updates
+// Member Updates
 // ---------------------------------------------------------------------------
 
-/**
- * Add XP to a league member's weekly total.
- * Uses Firestore increment() for atomic updates.
- */
-export async function addLeagueXp(
-  leagueId: string,
-  uid: string,
-  xpAmount: number,
-): Promise<void> {
-  const memberRef = doc(db, 'leagues', leagueId, 'members', uid);
-  await updateDoc(memberRef, { weeklyXp: increment(xpAmount) });
-}
-
 /**
  * Update a league member's display name.
  * Called when the user changes their name in ProfileScreen.
@@ -363,14 +363,18 @@ export async function getChallengesForUser(uid: string): Promise<FriendChallenge
 
 /**
  * Update a challenge with the recipient's score and mark as completed.
+ * Security rules only accept a score matching the recipient's verified
+ * performance `toPerformanceId`.
  */
 export async function updateChallengeResult(
   challengeId: string,
   toScore: number,
+  toPerformanceId: string,
 ): Promise<void> {
   const challengeRef = doc(db, 'challenges', challengeId);
   await updateDoc(challengeRef, {
     toScore,
+    toPerformanceId,
     status: 'completed',
   });
 }
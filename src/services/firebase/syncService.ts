@@ -8,7 +8,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { auth } from './config';
 import {
-  syncProgress, getAllLessonProgress, getGamificationData, addXp, createGamificationData,
+  syncProgress, getAllLessonProgress, getGamificationData, createGamificationData,
   getCatEvolutionData, saveCatEvolutionData, getGemSyncData, saveGemSyncData,
   getLearnerProfileData, saveLearnerProfileData, getAchievementSyncData, saveAchievementSyncData,
 } from './firestore';
@@ -20,6 +20,8 @@ import { useGemStore } from '../../stores/gemStore';
 import { useLearnerProfileStore } from '../../stores/learnerProfileStore';
 import { useAchievementStore } from '../../stores/achievementStore';
 import { levelFromXp } from '../../core/progression/XpSystem';
+import { mergeReviewSchedules } from '../../core/curriculum/SpacedRepetition';
+import { mergeLoopHistories } from '../../core/exercises/loopPractice';
 import type { LessonProgress, ExerciseProgress } from '../../core/exercises/types';
 
 // ============================================================================
@@ -195,18 +197,13 @@ export class SyncManager {
         String(response.newSyncTimestamp)
       );
 
-      // Also sync XP to gamification doc so pullRemoteProgress can read it
+      // Make sure the gamification doc exists for streak updates. XP itself is
+      // credited by the submitPerformance Cloud Function, never pushed from here.
       try {
-        const localXp = useProgressStore.getState().totalXp;
         const remoteGam = await getGamificationData(uid);
-        if (!remoteGam) {
-          await createGamificationData(uid);
-          if (localXp > 0) await addXp(uid, localXp, 'sync');
-        } else if (localXp > remoteGam.xp) {
-          await addXp(uid, localXp - remoteGam.xp, 'sync');
-        }
+        if (!remoteGam) await createGamificationData(uid);
       } catch (err) {
-        logger.warn('[Sync] XP sync in flushQueue failed:', err);
+        logger.warn('[Sync] Gamification doc check in flushQueue failed:', err);
       }
 
       // Sync cat evolution + gem data to Firestore
@@ -619,6 +616,16 @@ export class SyncManager {
             updates.skillMasteryData = mergedMasteryData;
           }
 
+          // Merge review schedules: each item keeps its most recent review
+          if (remoteLearner.reviewSchedule) {
+            updates.reviewSchedule = mergeReviewSchedules(localLearner.reviewSchedule, remoteLearner.reviewSchedule);
+          }
+
+          // Merge loop histories: each loop keeps the latest attempts from both devices
+          if (remoteLearner.loopHistory) {
+            updates.loopHistory = mergeLoopHistories(localLearner.loopHistory, remoteLearner.loopHistory);
+          }
+
           if (Object.keys(updates).length > 0) {
             useLearnerProfileStore.setState(updates);
             didMerge = true;
@@ -701,6 +708,8 @@ export class SyncManager {
           masteredSkills: learnerData.masteredSkills,
           skillMasteryData: learnerData.skillMasteryData,
           recentExerciseIds: learnerData.recentExerciseIds,
+          loopHistory: learnerData.loopHistory,
+          reviewSchedule: learnerData.reviewSchedule,
         });
         // Save achievements (unlocked IDs were potentially modified via setState)
         const achData = useAchievementStore.getState();
@@ -833,6 +842,8 @@ export class SyncManager {
         masteredSkills: lp.masteredSkills,
         skillMasteryData: lp.skillMasteryData,
         recentExerciseIds: lp.recentExerciseIds,
+        reviewSchedule: lp.reviewSchedule,
+        loopHistory: lp.loopHistory,
       });
     } catch (err) {
       logger.warn('[Sync] Learner profile push failed:', err);
@@ -0,0 +1,61 @@
+/**
+ * MIDI Export Service
+ *
+ * Writes .mid bytes (from core/music/midiWriter) to the cache directory and
+ * opens the system share sheet, so a take or an exercise can be opened in a
+ * DAW or sent to a teacher.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { logger } from '../utils/logger';
+
+const MIDI_MIME_TYPE = 'audio/midi';
+const MIDI_UTI = 'public.midi-audio';
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/** File name for a title, e.g. "C Major Scale" → "c-major-scale.mid" */
+export function midiFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'recording'}.mid`;
+}
+
+/**
+ * Save the file and open the share sheet.
+ *
+ * @returns false when sharing is unavailable on this device (caller should
+ * tell the user); throws if the file could not be written.
+ */
+export async function shareMidiFile(bytes: Uint8Array, title: string): Promise<boolean> {
+  if (!(await Sharing.isAvailableAsync())) {
+    logger.warn('[midiExport] Sharing is not available on this device');
+    return false;
+  }
+
+  const cacheDir = FileSystem.cacheDirectory;
+  if (!cacheDir) {
+    throw new Error('FileSystem.cacheDirectory is null');
+  }
+
+  const fileUri = cacheDir + midiFileName(title);
+  await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: MIDI_MIME_TYPE,
+    UTI: MIDI_UTI,
+    dialogTitle: `Share ${title}`,
+  });
+  return true;
+}
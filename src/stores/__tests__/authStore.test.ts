@@ -108,7 +108,7 @@ import {
   sendPasswordResetEmail,
 } from 'firebase/auth';
 import { auth } from '../../services/firebase/config';
-import { createUserProfile, deleteUserData } from '../../services/firebase/firestore';
+import { createUserProfile, deleteUserData, updateUserProfile } from '../../services/firebase/firestore';
 import { PersistenceManager } from '../persistence';
 import { useAuthStore } from '../authStore';
 
@@ -123,6 +123,7 @@ const mockUpdateProfile = updateProfile as jest.Mock;
 const mockSendPasswordResetEmail = sendPasswordResetEmail as jest.Mock;
 const mockCreateUserProfile = createUserProfile as jest.Mock;
 const mockDeleteUserData = deleteUserData as jest.Mock;
+const mockUpdateUserProfile = updateUserProfile as jest.Mock;
 const mockClearAll = PersistenceManager.clearAll as jest.Mock;
 const mockAuth = auth;
 
@@ -160,6 +161,7 @@ function resetStore(): void {
     isLoading: false,
     isAuthenticated: false,
     error: null,
+    role: 'student',
   });
 }
 
@@ -587,6 +589,21 @@ describe('Auth Store', () => {
       expect(state.isLoading).toBe(false);
     });
 
+    it('should drop the teacher role', async () => {
+      mockFirebaseSignOut.mockResolvedValue(undefined);
+      mockClearAll.mockResolvedValue(undefined);
+
+      useAuthStore.setState({
+        user: createMockUser(),
+        isAuthenticated: true,
+        role: 'teacher',
+      });
+
+      await useAuthStore.getState().signOut();
+
+      expect(useAuthStore.getState().role).toBe('student');
+    });
+
     it('should handle sign-out errors', async () => {
       const error = { code: 'auth/internal-error', message: 'Internal error' };
       mockFirebaseSignOut.mockRejectedValue(error);
@@ -830,6 +847,35 @@ describe('Auth Store', () => {
     });
   });
 
+  // --------------------------------------------------------------------------
+  // setRole
+  // --------------------------------------------------------------------------
+
+  describe('setRole', () => {
+    it('should save the role to the Firestore profile', async () => {
+      useAuthStore.setState({
+        user: createMockUser(),
+        isAuthenticated: true,
+      });
+
+      await useAuthStore.getState().setRole('teacher');
+
+      expect(mockUpdateUserProfile).toHaveBeenCalledWith('test-uid-123', { role: 'teacher' });
+      expect(useAuthStore.getState().role).toBe('teacher');
+    });
+
+    it('should keep the role when the profile write fails', async () => {
+      mockUpdateUserProfile.mockRejectedValueOnce(new Error('permission-denied'));
+      useAuthStore.setState({
+        user: createMockUser(),
+        isAuthenticated: true,
+      });
+
+      await expect(useAuthStore.getState().setRole('teacher')).rejects.toThrow('permission-denied');
+      expect(useAuthStore.getState().role).toBe('student');
+    });
+  });
+
   // --------------------------------------------------------------------------
   // Error message mapping
   // --------------------------------------------------------------------------
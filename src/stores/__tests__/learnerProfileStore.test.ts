@@ -5,6 +5,8 @@
  */
 
 import { useLearnerProfileStore } from '../learnerProfileStore';
+import { createLoopRamp } from '../../core/exercises/loopPractice';
+import type { Exercise } from '../../core/exercises/types';
 
 describe('Learner Profile Store', () => {
   beforeEach(() => {
@@ -231,4 +233,44 @@ describe('Learner Profile Store', () => {
     // Total exercises should be incremented
     expect(state.totalExercisesCompleted).toBe(1);
   });
+
+  it('records loop attempts per passage and clears them on reset', () => {
+    const exercise: Exercise = {
+      id: 'lesson-01-ex-01',
+      version: 1,
+      metadata: { title: 'Find Middle C', description: '', difficulty: 1, estimatedMinutes: 1, skills: [], prerequisites: [] },
+      settings: { tempo: 80, timeSignature: [4, 4], keySignature: 'C', countIn: 4, metronomeEnabled: true },
+      notes: [60, 62, 64, 65].map((note, i) => ({ note, startBeat: i, durationBeats: 1 })),
+      scoring: { timingToleranceMs: 50, timingGracePeriodMs: 150, passingScore: 60, starThresholds: [70, 85, 95] },
+      hints: { beforeStart: '', commonMistakes: [], successMessage: '' },
+    };
+    const region = { startBeat: 0, endBeat: 4 };
+    const ramp = createLoopRamp(exercise, region);
+    const store = useLearnerProfileStore.getState();
+
+    store.recordLoopAttempt(exercise, region, ramp, { tempo: 56, score: 92, at: 1 });
+    store.recordLoopAttempt(exercise, region, ramp, { tempo: 61, score: 75, at: 2 });
+
+    const record = useLearnerProfileStore.getState().loopHistory['lesson-01-ex-01@0-4'];
+    expect(record.attempts.map((a) => a.tempo)).toEqual([56, 61]);
+    expect(record.pitches).toEqual([60, 62, 64, 65]);
+
+    useLearnerProfileStore.getState().reset();
+    expect(useLearnerProfileStore.getState().loopHistory).toEqual({});
+  });
+
+  it('schedules reviews for passed exercises and their skills', () => {
+    const store = useLearnerProfileStore.getState();
+    store.recordReview('lesson-01-ex-01', ['find-middle-c'], { overall: 90, isPassed: true });
+    store.recordReview(null, ['white-keys'], { overall: 50, isPassed: false });
+
+    const { reviewSchedule } = useLearnerProfileStore.getState();
+    expect(Object.keys(reviewSchedule.exercises)).toEqual(['lesson-01-ex-01']);
+    // A skill failed before it was ever passed isn't scheduled yet
+    expect(Object.keys(reviewSchedule.skills)).toEqual(['find-middle-c']);
+    expect(reviewSchedule.skills['find-middle-c'].dueAt).toBeGreaterThan(Date.now());
+
+    useLearnerProfileStore.getState().reset();
+    expect(useLearnerProfileStore.getState().reviewSchedule).toEqual({ skills: {}, exercises: {} });
+  });
 });
@@ -39,6 +39,7 @@ describe('Progress Store', () => {
       },
       lessonProgress: {},
       dailyGoalData: {},
+      waitModeResults: {},
       streakMilestonesClaimed: [],
     });
     // Mark daily challenge completed to isolate XP tests from challenge multiplier
@@ -268,6 +269,19 @@ describe('Progress Store', () => {
     });
   });
 
+  describe('Wait Mode Results', () => {
+    it('should keep the best wait-mode score apart from exercise progress', () => {
+      useProgressStore.getState().recordWaitModeResult('ex-1', 80);
+      useProgressStore.getState().recordWaitModeResult('ex-1', 60);
+
+      const record = useProgressStore.getState().waitModeResults['ex-1'];
+      expect(record.bestScore).toBe(80);
+      expect(record.attempts).toBe(2);
+      expect(useProgressStore.getState().lessonProgress).toEqual({});
+      expect(useProgressStore.getState().totalXp).toBe(0);
+    });
+  });
+
   describe('Level Auto-Calculation', () => {
     it('should recalculate level when XP is added', () => {
       // levelFromXp: level 1 needs 0 XP, level 2 needs 100, level 3 needs 250
@@ -80,6 +80,12 @@ describe('Settings Store', () => {
       expect(state.metronomeVolume).toBe(0.3);
       expect(state.keyboardVolume).toBe(0.8); // Unchanged
     });
+
+    it('should set the loop clean-pass score', () => {
+      expect(useSettingsStore.getState().loopCleanScore).toBe(90);
+      useSettingsStore.getState().setLoopCleanScore(85);
+      expect(useSettingsStore.getState().loopCleanScore).toBe(85);
+    });
   });
 
   describe('Display Settings', () => {
@@ -40,8 +40,10 @@ import { useAchievementStore } from './achievementStore';
 import { useLearnerProfileStore } from './learnerProfileStore';
 import { useSocialStore } from './socialStore';
 import { useLeagueStore } from './leagueStore';
+import { useClassroomStore } from './classroomStore';
 import { logger } from '../utils/logger';
 import { AnalyticsService, analyticsEvents } from '../services/analytics/PostHog';
+import type { UserRole } from '../core/classroom/classroom';
 
 // ============================================================================
 // Types
@@ -55,6 +57,8 @@ export interface AuthState {
   isInitializing: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  /** From the Firestore profile; teachers can run classes and set assignments */
+  role: UserRole;
 
   initAuth: () => Promise<void>;
   signInAnonymously: () => Promise<void>;
@@ -72,6 +76,7 @@ export interface AuthState {
   reauthenticateAndDelete: (credential: AuthCredential) => Promise<void>;
   sendPasswordReset: (email: string) => Promise<void>;
   updateDisplayName: (name: string) => Promise<void>;
+  setRole: (role: UserRole) => Promise<void>;
   clearError: () => void;
 }
 
@@ -94,6 +99,8 @@ function resetAllStores(): void {
     { name: 'songs', reset: () => useSongStore.getState().reset() },
     { name: 'social', reset: () => useSocialStore.getState().reset() },
     { name: 'league', reset: () => useLeagueStore.getState().reset() },
+    { name: 'classroom', reset: () => useClassroomStore.getState().reset() },
+    { name: 'role', reset: () => useAuthStore.setState({ role: 'student' }) },
   ];
 
   for (const { name, reset } of stores) {
@@ -198,7 +205,7 @@ async function ensureSocialSetup(uid: string, displayName: string): Promise<void
     let membership = await getCurrentLeagueMembership(uid);
     if (!membership) {
       const catId = useSettingsStore.getState().selectedCatId ?? 'mini-meowww';
-      membership = await assignToLeague(uid, displayName, catId, 'bronze');
+      membership = await assignToLeague(uid, displayName, catId);
     }
     useLeagueStore.getState().setMembership(membership);
   } catch (err) {
@@ -268,6 +275,10 @@ async function triggerPostSignInSync(): Promise<void> {
             }
           }
         }
+        // Restore role (teacher accounts)
+        if (profile.role) {
+          useAuthStore.setState({ role: profile.role });
+        }
         // Restore display name: prefer Firestore profile > Firebase Auth
         const localName = useSettingsStore.getState().displayName;
         const isDefaultName = !localName || localName === 'Piano Student';
@@ -379,6 +390,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   isInitializing: true,
   isAuthenticated: false,
   error: null,
+  role: 'student',
 
   initAuth: async () => {
     set({ isLoading: true, isInitializing: true, error: null });
@@ -1027,6 +1039,13 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  setRole: async (role: UserRole) => {
+    const { user } = get();
+    if (!user) return;
+    await updateUserProfile(user.uid, { role });
+    set({ role });
+  },
+
   clearError: () => {
     set({ error: null });
   },
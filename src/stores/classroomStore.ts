@@ -0,0 +1,109 @@
+/**
+ * Classroom Store
+ *
+ * Manages teacher/student class data:
+ * - Classes the user teaches (teacher role)
+ * - Class invites and memberships (student side)
+ * - Assignments from joined classes, shown in Today's Practice
+ * - The student's best run of each assignment
+ * - Persisted to AsyncStorage so assignments show offline
+ */
+
+import { create } from 'zustand';
+import { bestAssignmentResult } from '../core/classroom/classroom';
+import type { Assignment, AssignmentResult, ClassMembership, Classroom } from '../core/classroom/classroom';
+import { PersistenceManager, STORAGE_KEYS, createDebouncedSave } from './persistence';
+
+export interface ClassroomStoreState {
+  classes: Classroom[];
+  memberships: ClassMembership[];
+  assignments: Assignment[];
+  /** Best run of each assignment, keyed by assignment id */
+  assignmentResults: Record<string, AssignmentResult>;
+
+  // Actions
+  setClasses: (classes: Classroom[]) => void;
+  addClass: (classroom: Classroom) => void;
+  setMemberships: (memberships: ClassMembership[]) => void;
+  updateMembership: (classId: string, updates: Partial<ClassMembership>) => void;
+  removeMembership: (classId: string) => void;
+  setAssignments: (assignments: Assignment[]) => void;
+  /** Keep a run if it beats the stored result; returns the result kept */
+  recordAssignmentRun: (assignment: Assignment, run: AssignmentResult) => AssignmentResult;
+  reset: () => void;
+}
+
+type ClassroomData = Pick<ClassroomStoreState, 'classes' | 'memberships' | 'assignments' | 'assignmentResults'>;
+
+const defaultData: ClassroomData = {
+  classes: [],
+  memberships: [],
+  assignments: [],
+  assignmentResults: {},
+};
+
+const debouncedSave = createDebouncedSave<ClassroomData>(STORAGE_KEYS.CLASSROOM, 500);
+
+export const useClassroomStore = create<ClassroomStoreState>((set, get) => ({
+  ...defaultData,
+
+  setClasses: (classes: Classroom[]) => {
+    set({ classes });
+    debouncedSave(get());
+  },
+
+  addClass: (classroom: Classroom) => {
+    set((state) => ({
+      classes: [...state.classes, classroom],
+    }));
+    debouncedSave(get());
+  },
+
+  setMemberships: (memberships: ClassMembership[]) => {
+    set({ memberships });
+    debouncedSave(get());
+  },
+
+  updateMembership: (classId: string, updates: Partial<ClassMembership>) => {
+    set((state) => ({
+      memberships: state.memberships.map((m) =>
+        m.classId === classId ? { ...m, ...updates } : m
+      ),
+    }));
+    debouncedSave(get());
+  },
+
+  removeMembership: (classId: string) => {
+    // A class's assignments go with it
+    set((state) => ({
+      memberships: state.memberships.filter((m) => m.classId !== classId),
+      assignments: state.assignments.filter((a) => a.classId !== classId),
+    }));
+    debouncedSave(get());
+  },
+
+  setAssignments: (assignments: Assignment[]) => {
+    set({ assignments });
+    debouncedSave(get());
+  },
+
+  recordAssignmentRun: (assignment: Assignment, run: AssignmentResult) => {
+    const best = bestAssignmentResult(assignment, get().assignmentResults[assignment.id], run);
+    set((state) => ({
+      assignmentResults: { ...state.assignmentResults, [assignment.id]: best },
+    }));
+    debouncedSave(get());
+    return best;
+  },
+
+  reset: () => {
+    set(defaultData);
+    PersistenceManager.deleteState(STORAGE_KEYS.CLASSROOM);
+  },
+}));
+
+/** Hydrate classroom store from AsyncStorage on app launch */
+export async function hydrateClassroomStore(): Promise<void> {
+  const data = await PersistenceManager.loadState<ClassroomData>(STORAGE_KEYS.CLASSROOM, defaultData);
+  useClassroomStore.setState(data);
+}
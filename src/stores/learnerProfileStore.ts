@@ -10,7 +10,12 @@
 import { create } from 'zustand';
 import type { ExerciseResult, Skills, LearnerProfileState, SkillMasteryRecord } from './types';
 import { PersistenceManager, STORAGE_KEYS, createDebouncedSave, createImmediateSave } from './persistence';
-import { getSkillById, DECAY_HALF_LIFE_DAYS, DECAY_THRESHOLD } from '../core/curriculum/SkillTree';
+import { getSkillById, getSkillsNeedingReview } from '../core/curriculum/SkillTree';
+import { createReviewSchedule, recordReview } from '../core/curriculum/SpacedRepetition';
+import type { ReviewScore } from '../core/curriculum/SpacedRepetition';
+import { loopKey, recentLoops, withLoopAttempt } from '../core/exercises/loopPractice';
+import type { LoopAttempt, LoopRampConfig, LoopRegion } from '../core/exercises/loopPractice';
+import type { Exercise } from '../core/exercises/types';
 import { useGemStore } from './gemStore';
 
 const WEAK_NOTE_THRESHOLD = 0.7;
@@ -64,6 +69,8 @@ const immediateSave = createImmediateSave(STORAGE_KEYS.LEARNER_PROFILE);
 
 export const useLearnerProfileStore = create<LearnerProfileState>((set, get) => ({
   ...defaultData,
+  loopHistory: {},
+  reviewSchedule: createReviewSchedule(),
 
   updateNoteAccuracy: (midiNote: number, accuracy: number) => {
     const { noteAccuracy, noteAttempts } = get();
@@ -188,17 +195,11 @@ export const useLearnerProfileStore = create<LearnerProfileState>((set, get) =>
   },
 
   calculateDecayedSkills: (): string[] => {
-    const { masteredSkills, skillMasteryData } = get();
-    const now = Date.now();
-    const msPerDay = 86400000;
-
-    return masteredSkills.filter((id) => {
-      const record = skillMasteryData[id];
-      if (!record) return false;
-      const daysSince = (now - record.lastPracticedAt) / msPerDay;
-      const decay = Math.max(0, 1 - daysSince / DECAY_HALF_LIFE_DAYS);
-      return decay < DECAY_THRESHOLD;
-    });
+    const { masteredSkills, skillMasteryData, reviewSchedule } = get();
+    const due = new Set(
+      getSkillsNeedingReview(masteredSkills, skillMasteryData, reviewSchedule.skills).map((node) => node.id),
+    );
+    return masteredSkills.filter((id) => due.has(id));
   },
 
   addRecentExercise: (exerciseId: string) => {
@@ -209,6 +210,19 @@ export const useLearnerProfileStore = create<LearnerProfileState>((set, get) =>
     debouncedSave(get());
   },
 
+  recordLoopAttempt: (exercise: Exercise, region: LoopRegion, ramp: LoopRampConfig, attempt: LoopAttempt) => {
+    const key = loopKey(exercise.id, region);
+    const { loopHistory } = get();
+    const record = withLoopAttempt(loopHistory[key], exercise, region, ramp, attempt);
+    set({ loopHistory: recentLoops({ ...loopHistory, [key]: record }) });
+    debouncedSave(get());
+  },
+
+  recordReview: (exerciseId: string | null, skillIds: string[], score: ReviewScore) => {
+    set({ reviewSchedule: recordReview(get().reviewSchedule, exerciseId, skillIds, score, Date.now()) });
+    debouncedSave(get());
+  },
+
   reset: () => {
     set({
       noteAccuracy: {},
@@ -223,6 +237,8 @@ export const useLearnerProfileStore = create<LearnerProfileState>((set, get) =>
       masteredSkills: [],
       skillMasteryData: {},
       recentExerciseIds: [],
+      loopHistory: {},
+      reviewSchedule: createReviewSchedule(),
     });
     PersistenceManager.deleteState(STORAGE_KEYS.LEARNER_PROFILE);
   },
@@ -29,24 +29,11 @@ import {
 import type { ExerciseChallengeContext } from '@/core/challenges/challengeSystem';
 import { useLearnerProfileStore } from './learnerProfileStore';
 import { useSettingsStore } from './settingsStore';
-import { useLeagueStore } from './leagueStore';
-import { addLeagueXp } from '@/services/firebase/leagueService';
 import { postActivity } from '@/services/firebase/socialService';
 import { auth } from '@/services/firebase/config';
 import { logger } from '@/utils/logger';
 import { analyticsEvents, updateUserAnalyticsProperties } from '@/services/analytics/PostHog';
 
-/** Fire-and-forget with one retry after 2s delay. Logs failures but never throws. */
-function fireAndRetry(fn: () => Promise<unknown>, label: string): void {
-  fn().catch(() => {
-    setTimeout(() => {
-      fn().catch((err) => {
-        logger.warn(`[progressStore] ${label} failed after retry:`, (err as Error)?.message);
-      });
-    }, 2000);
-  });
-}
-
 // BUG-008 fix: Use local date string so streak day boundary matches user's wall clock
 function localToday(): string {
   const d = new Date();
@@ -77,7 +64,7 @@ const defaultDailyGoal: DailyGoalData = {
 /** Data-only shape of progress state (excludes actions) */
 type ProgressData = Pick<
   ProgressStoreState,
-  'totalXp' | 'level' | 'streakData' | 'lessonProgress' | 'dailyGoalData' | 'tierTestResults' | 'streakMilestonesClaimed'
+  'totalXp' | 'level' | 'streakData' | 'lessonProgress' | 'dailyGoalData' | 'tierTestResults' | 'waitModeResults' | 'streakMilestonesClaimed'
 >;
 
 const defaultData: ProgressData = {
@@ -87,6 +74,7 @@ const defaultData: ProgressData = {
   lessonProgress: {},
   dailyGoalData: {},
   tierTestResults: {},
+  waitModeResults: {},
   streakMilestonesClaimed: [],
 };
 
@@ -379,16 +367,8 @@ export const useProgressStore = create<ProgressStoreState>((set, get) => ({
 
     debouncedSave(get());
 
-    // ── League XP update (fire-and-forget) ──
-    const leagueMembership = useLeagueStore.getState().membership;
-    if (leagueMembership && auth.currentUser && !auth.currentUser.isAnonymous) {
-      const newWeeklyXp = leagueMembership.weeklyXp + effectiveXp;
-      useLeagueStore.getState().updateWeeklyXp(newWeeklyXp);
-      fireAndRetry(
-        () => addLeagueXp(leagueMembership.leagueId, auth.currentUser!.uid, effectiveXp),
-        'addLeagueXp',
-      );
-    }
+    // League XP is credited by the submitPerformance Cloud Function from the
+    // verified score (see ExercisePlayer), not from this local total
 
     // ── Post level-up activity (fire-and-forget with logged failure) ──
     const newLevel = get().level;
@@ -436,6 +416,23 @@ export const useProgressStore = create<ProgressStoreState>((set, get) => ({
     debouncedSave(get());
   },
 
+  recordWaitModeResult: (exerciseId: string, score: number) => {
+    set((state) => {
+      const existing = state.waitModeResults[exerciseId];
+      return {
+        waitModeResults: {
+          ...state.waitModeResults,
+          [exerciseId]: {
+            bestScore: Math.max(existing?.bestScore ?? 0, score),
+            attempts: (existing?.attempts ?? 0) + 1,
+            lastAttemptAt: Date.now(),
+          },
+        },
+      };
+    });
+    debouncedSave(get());
+  },
+
   reset: () => {
     set({
       totalXp: 0,
@@ -444,6 +441,7 @@ export const useProgressStore = create<ProgressStoreState>((set, get) => ({
       lessonProgress: {},
       dailyGoalData: {},
       tierTestResults: {},
+      waitModeResults: {},
       streakMilestonesClaimed: [],
     });
     PersistenceManager.deleteState(STORAGE_KEYS.PROGRESS);
@@ -14,6 +14,7 @@
 import { create } from 'zustand';
 import type { SettingsStoreState, AudioSettings, DisplaySettings, NotificationSettings, MidiSettings, OnboardingSettings, ProfileSettings } from './types';
 import { PersistenceManager, STORAGE_KEYS, createDebouncedSave } from './persistence';
+import { DEFAULT_CLEAN_SCORE } from '../core/exercises/loopPractice';
 
 /** Data-only shape of settings state (excludes actions) */
 type SettingsData = AudioSettings & DisplaySettings & NotificationSettings & MidiSettings & OnboardingSettings & ProfileSettings;
@@ -27,8 +28,11 @@ const defaultSettings: SettingsData = {
   keyboardVolume: 0.8,
   audioBufferSize: 4096,
   playbackSpeed: 0.5 as const, // Default to 50% speed — comfortable for on-screen keyboard beginners
+  waitMode: false,
+  loopCleanScore: DEFAULT_CLEAN_SCORE,
   uiSoundEnabled: true, // SoundManager game UI sounds
   uiSoundVolume: 0.7, // SoundManager volume (0-1)
+  instruments: { user: 'piano', accompaniment: 'piano', demo: 'piano' },
 
   // Display settings
   showFingerNumbers: true,
@@ -52,6 +56,8 @@ const defaultSettings: SettingsData = {
   preferredInputMethod: 'auto' as const,
   micDetectionMode: 'monophonic' as const,
   micPermissionGranted: false,
+  inputLatencyOffsets: {},
+  micTuningOffsetCents: 0,
 
   // Onboarding settings
   hasCompletedOnboarding: false,
@@ -131,6 +137,16 @@ export const useSettingsStore = create<SettingsStoreState>((set, get) => ({
     debouncedSave({ ...get(), playbackSpeed: speed });
   },
 
+  setWaitMode: (enabled: boolean) => {
+    set({ waitMode: enabled });
+    debouncedSave({ ...get(), waitMode: enabled });
+  },
+
+  setLoopCleanScore: (score: number) => {
+    set({ loopCleanScore: score });
+    debouncedSave({ ...get(), loopCleanScore: score });
+  },
+
   setUiSoundEnabled: (enabled: boolean) => {
     set({ uiSoundEnabled: enabled });
     debouncedSave({ ...get(), uiSoundEnabled: enabled });
@@ -142,6 +158,12 @@ export const useSettingsStore = create<SettingsStoreState>((set, get) => ({
     debouncedSave({ ...get(), uiSoundVolume: clamped });
   },
 
+  setInstrument: (role, instrumentId) => {
+    const instruments = { ...get().instruments, [role]: instrumentId };
+    set({ instruments });
+    debouncedSave({ ...get(), instruments });
+  },
+
   // Individual display settings
   setShowFingerNumbers: (show: boolean) => {
     set({ showFingerNumbers: show });
@@ -205,6 +227,21 @@ export const useSettingsStore = create<SettingsStoreState>((set, get) => ({
     PersistenceManager.saveState(STORAGE_KEYS.SETTINGS, { ...get(), micPermissionGranted: granted });
   },
 
+  // Latency calibration — null goes back to the built-in default for that input
+  setInputLatencyOffset: (profile, offsetMs) => {
+    const inputLatencyOffsets = { ...get().inputLatencyOffsets };
+    if (offsetMs === null) delete inputLatencyOffsets[profile];
+    else inputLatencyOffsets[profile] = offsetMs;
+    set({ inputLatencyOffsets });
+    debouncedSave({ ...get(), inputLatencyOffsets });
+  },
+
+  // Piano tuning check — 0 means the piano is at A=440
+  setMicTuningOffsetCents: (cents) => {
+    set({ micTuningOffsetCents: cents });
+    debouncedSave({ ...get(), micTuningOffsetCents: cents });
+  },
+
   // Onboarding settings — saves IMMEDIATELY (not debounced) because
   // this triggers a navigator swap and debounced save can be lost
   setHasCompletedOnboarding: (completed: boolean) => {
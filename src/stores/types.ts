@@ -4,7 +4,12 @@
  */
 
 import type { Exercise, ExerciseScore, MidiNoteEvent, LessonProgress, ExerciseProgress } from '@/core/exercises/types';
+import type { LoopAttempt, LoopRampConfig, LoopRecord, LoopRegion } from '@/core/exercises/loopPractice';
 import type { ExerciseChallengeContext } from '@/core/challenges/challengeSystem';
+import type { ChallengeGhost } from '@/core/exercises/ghostRace';
+import type { ReviewSchedule, ReviewScore } from '@/core/curriculum/SpacedRepetition';
+import type { LatencyOffsets, LatencyProfile } from '@/input/LatencyCalibration';
+import type { InstrumentRole } from '@/audio/types';
 
 /**
  * ============================================================================
@@ -72,6 +77,13 @@ export interface TierTestResult {
   attempts: number;
 }
 
+/** Wait-mode runs of one exercise — pitch-only, never mixed into ExerciseProgress */
+export interface WaitModeRecord {
+  bestScore: number;
+  attempts: number;
+  lastAttemptAt: number;
+}
+
 export interface ProgressStoreState {
   // User progression
   totalXp: number;
@@ -80,6 +92,7 @@ export interface ProgressStoreState {
   lessonProgress: Record<string, LessonProgress>;
   dailyGoalData: Record<string, DailyGoalData>; // ISO date -> goal data
   tierTestResults: Record<string, TierTestResult>; // "tier-N" -> result
+  waitModeResults: Record<string, WaitModeRecord>; // exerciseId -> wait-mode record
   streakMilestonesClaimed: number[]; // Streak counts already rewarded (e.g. [7, 30])
 
   // Actions
@@ -93,6 +106,7 @@ export interface ProgressStoreState {
   recordPracticeSession: (duration: number) => void;
   recordExerciseCompletion: (exerciseId: string, score: number, xpEarned: number, challengeContext?: ExerciseChallengeContext) => void;
   recordTierTestResult: (tier: number, passed: boolean, score: number) => void;
+  recordWaitModeResult: (exerciseId: string, score: number) => void;
   updateDailyGoal: (date: string, data: Partial<DailyGoalData>) => void;
   reset: () => void;
 }
@@ -122,8 +136,12 @@ export interface AudioSettings {
   keyboardVolume: number; // 0-1
   audioBufferSize: number;
   playbackSpeed: PlaybackSpeed; // Exercise tempo multiplier
+  waitMode: boolean; // Playhead waits at each note until it's played
+  loopCleanScore: number; // A/B loop pass scoring at least this raises the tempo
   uiSoundEnabled: boolean; // SoundManager game UI sounds (separate from piano audio)
   uiSoundVolume: number; // 0-1, SoundManager volume
+  /** Instrument registry id per role: the learner's keys, auto-played backing, demos */
+  instruments: Record<InstrumentRole, string>;
 }
 
 export interface DisplaySettings {
@@ -155,6 +173,10 @@ export interface MidiSettings {
   micDetectionMode: MicDetectionMode;
   /** Cached mic permission state — avoids re-prompting on every input switch */
   micPermissionGranted: boolean;
+  /** Calibrated touch/mic latency on this phone (MIDI keyboards keep theirs in MidiDeviceManager) */
+  inputLatencyOffsets: LatencyOffsets;
+  /** How far the learner's acoustic piano is tuned from A=440 (cents), from the tuning check */
+  micTuningOffsetCents: number;
 }
 
 export interface OnboardingSettings {
@@ -182,8 +204,11 @@ export interface SettingsStoreState extends AudioSettings, DisplaySettings, Noti
   setSoundEnabled: (enabled: boolean) => void;
   setHapticEnabled: (enabled: boolean) => void;
   setPlaybackSpeed: (speed: PlaybackSpeed) => void;
+  setWaitMode: (enabled: boolean) => void;
+  setLoopCleanScore: (score: number) => void;
   setUiSoundEnabled: (enabled: boolean) => void;
   setUiSoundVolume: (vol: number) => void;
+  setInstrument: (role: InstrumentRole, instrumentId: string) => void;
   setShowFingerNumbers: (show: boolean) => void;
   setShowNoteNames: (show: boolean) => void;
   setPreferredHand: (hand: 'right' | 'left' | 'both') => void;
@@ -193,6 +218,8 @@ export interface SettingsStoreState extends AudioSettings, DisplaySettings, Noti
   setPreferredInputMethod: (method: PreferredInputMethod) => void;
   setMicDetectionMode: (mode: MicDetectionMode) => void;
   setMicPermissionGranted: (granted: boolean) => void;
+  setInputLatencyOffset: (profile: Exclude<LatencyProfile, 'midi'>, offsetMs: number | null) => void;
+  setMicTuningOffsetCents: (cents: number) => void;
   setDarkMode: (enabled: boolean) => void;
   setShowTutorials: (show: boolean) => void;
   setHasCompletedOnboarding: (completed: boolean) => void;
@@ -252,6 +279,8 @@ export interface LearnerProfileState {
   masteredSkills: string[];  // SkillTree node IDs the learner has mastered
   skillMasteryData: Record<string, SkillMasteryRecord>;  // per-skill mastery tracking
   recentExerciseIds: string[];  // last 10 exercise IDs (prevent same-day repeats)
+  loopHistory: Record<string, LoopRecord>;  // loopKey -> passes of an A/B practice loop
+  reviewSchedule: ReviewSchedule;  // spaced-repetition memory per skill and static exercise
 
   // Actions
   updateNoteAccuracy: (midiNote: number, accuracy: number) => void;
@@ -262,6 +291,9 @@ export interface LearnerProfileState {
   recordSkillPractice: (skillId: string, passed: boolean) => void;
   calculateDecayedSkills: () => string[];
   addRecentExercise: (exerciseId: string) => void;
+  recordLoopAttempt: (exercise: Exercise, region: LoopRegion, ramp: LoopRampConfig, attempt: LoopAttempt) => void;
+  /** Update the review schedule from a score (exerciseId null for generated exercises) */
+  recordReview: (exerciseId: string | null, skillIds: string[], score: ReviewScore) => void;
   reset: () => void;
 }
 
@@ -386,7 +418,13 @@ export interface FriendChallenge {
   exerciseId: string;
   exerciseTitle: string;
   fromScore: number;
+  /** Verified performance (users/{fromUid}/performances) behind fromScore */
+  fromPerformanceId?: string;
+  /** That performance, for the recipient to race */
+  ghost?: ChallengeGhost;
   toScore: number | null;
+  /** Verified performance (users/{toUid}/performances) behind toScore */
+  toPerformanceId?: string;
   status: 'pending' | 'completed' | 'expired';
   createdAt: number;
   expiresAt: number;